@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "requireSubtasksComplete" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "subtasks" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "taskId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subtasks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "subtasks_taskId_idx" ON "subtasks"("taskId");
+
+-- CreateIndex
+CREATE INDEX "subtasks_taskId_order_idx" ON "subtasks"("taskId", "order");
+
+-- AddForeignKey
+ALTER TABLE "subtasks" ADD CONSTRAINT "subtasks_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "WipLimitMode" AS ENUM ('OFF', 'WARN', 'BLOCK');
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "wipLimitMode" "WipLimitMode" NOT NULL DEFAULT 'OFF';
+
+-- AlterTable
+ALTER TABLE "columns" ADD COLUMN     "wipLimit" INTEGER;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "ColumnCategory" AS ENUM ('TODO', 'IN_PROGRESS', 'DONE');
+
+-- AlterTable
+ALTER TABLE "columns" ADD COLUMN     "category" "ColumnCategory" NOT NULL DEFAULT 'TODO';
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "startedAt" TIMESTAMP(3);
+
+-- Backfill categories from the column names previously used to detect status
+UPDATE "columns" SET "category" = 'DONE' WHERE LOWER("name") LIKE '%done%';
+UPDATE "columns" SET "category" = 'IN_PROGRESS' WHERE LOWER("name") LIKE '%progress%' AND "category" = 'TODO';
+
+-- Tasks already in a done column were counted as complete by name; keep them complete
+UPDATE "tasks" SET "completedAt" = "updatedAt" WHERE "completedAt" IS NULL AND "columnId" IN (SELECT "id" FROM "columns" WHERE "category" = 'DONE');
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('TEXT', 'NUMBER', 'SINGLE_SELECT', 'MULTI_SELECT', 'DATE', 'CHECKBOX', 'USER');
+
+-- CreateTable
+CREATE TABLE "custom_fields" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "CustomFieldType" NOT NULL,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "order" INTEGER NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "custom_field_values" (
+    "taskId" TEXT NOT NULL,
+    "fieldId" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_field_values_pkey" PRIMARY KEY ("taskId","fieldId")
+);
+
+-- CreateIndex
+CREATE INDEX "custom_fields_projectId_order_idx" ON "custom_fields"("projectId", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_fields_projectId_name_key" ON "custom_fields"("projectId", "name");
+
+-- CreateIndex
+CREATE INDEX "custom_field_values_fieldId_idx" ON "custom_field_values"("fieldId");
+
+-- AddForeignKey
+ALTER TABLE "custom_fields" ADD CONSTRAINT "custom_fields_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_field_values" ADD CONSTRAINT "custom_field_values_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_field_values" ADD CONSTRAINT "custom_field_values_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "custom_fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,106 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "searchVector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "tasks_searchVector_idx" ON "tasks" USING GIN ("searchVector");
+
+-- Strip HTML tags from rich text (task descriptions, comments)
+CREATE FUNCTION strip_html(content TEXT) RETURNS TEXT AS $$
+  SELECT regexp_replace(coalesce(content, ''), '<[^>]*>', ' ', 'g');
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Split file names into words ("q3_report-final.pdf" -> "q3 report final pdf")
+CREATE FUNCTION file_name_words(name TEXT) RETURNS TEXT AS $$
+  SELECT regexp_replace(coalesce(name, ''), '[._-]+', ' ', 'g');
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Search document for a task. Weights: title A, labels B, description C,
+-- comments and attachment names D.
+CREATE FUNCTION task_search_document(task_id TEXT, title TEXT, description TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(l."name", ' ')
+      FROM "task_labels" tl JOIN "labels" l ON l."id" = tl."labelId"
+      WHERE tl."taskId" = task_id
+    ), '')), 'B') ||
+    setweight(to_tsvector('english', strip_html(description)), 'C') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(strip_html(c."content"), ' ')
+      FROM "comments" c
+      WHERE c."taskId" = task_id
+    ), '')), 'D') ||
+    setweight(to_tsvector('english', coalesce((
+      SELECT string_agg(file_name_words(a."originalName"), ' ')
+      FROM "attachments" a
+      WHERE a."taskId" = task_id
+    ), '')), 'D');
+$$ LANGUAGE SQL STABLE;
+
+-- Tasks: rebuild the document when the title or description changes
+CREATE FUNCTION tasks_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" := task_search_document(NEW."id", NEW."title", NEW."description");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "tasks_search_vector_update"
+  BEFORE INSERT OR UPDATE OF "title", "description" ON "tasks"
+  FOR EACH ROW EXECUTE FUNCTION tasks_search_vector_trigger();
+
+-- Comments, attachments and task labels: rebuild the owning task's document
+CREATE FUNCTION task_children_search_vector_trigger() RETURNS trigger AS $$
+DECLARE
+  changed_task_id TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed_task_id := OLD."taskId";
+  ELSE
+    changed_task_id := NEW."taskId";
+  END IF;
+
+  UPDATE "tasks"
+  SET "searchVector" = task_search_document("id", "title", "description")
+  WHERE "id" = changed_task_id;
+
+  -- A child moved to another task (not done by the app, but keep both right)
+  IF TG_OP = 'UPDATE' AND OLD."taskId" <> NEW."taskId" THEN
+    UPDATE "tasks"
+    SET "searchVector" = task_search_document("id", "title", "description")
+    WHERE "id" = OLD."taskId";
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "comments_search_vector_update"
+  AFTER INSERT OR UPDATE OR DELETE ON "comments"
+  FOR EACH ROW EXECUTE FUNCTION task_children_search_vector_trigger();
+
+CREATE TRIGGER "attachments_search_vector_update"
+  AFTER INSERT OR UPDATE OR DELETE ON "attachments"
+  FOR EACH ROW EXECUTE FUNCTION task_children_search_vector_trigger();
+
+CREATE TRIGGER "task_labels_search_vector_update"
+  AFTER INSERT OR UPDATE OR DELETE ON "task_labels"
+  FOR EACH ROW EXECUTE FUNCTION task_children_search_vector_trigger();
+
+-- Labels: a rename changes the document of every task carrying the label
+CREATE FUNCTION labels_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  UPDATE "tasks"
+  SET "searchVector" = task_search_document("id", "title", "description")
+  WHERE "id" IN (SELECT "taskId" FROM "task_labels" WHERE "labelId" = NEW."id");
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "labels_search_vector_update"
+  AFTER UPDATE OF "name" ON "labels"
+  FOR EACH ROW EXECUTE FUNCTION labels_search_vector_trigger();
+
+-- Backfill existing tasks
+UPDATE "tasks" SET "searchVector" = task_search_document("id", "title", "description");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "mentions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mentionedById" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "commentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mentions_userId_createdAt_idx" ON "mentions"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "mentions_taskId_idx" ON "mentions"("taskId");
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_mentionedById_fkey" FOREIGN KEY ("mentionedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
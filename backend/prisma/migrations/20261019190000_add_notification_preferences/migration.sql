@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "EmailFrequency" AS ENUM ('INSTANT', 'HOURLY', 'DAILY', 'OFF');
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN "emailDueAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "email" "EmailFrequency" NOT NULL,
+    "userId" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_emailDueAt_idx" ON "notifications"("emailDueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_type_key" ON "notification_preferences"("userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
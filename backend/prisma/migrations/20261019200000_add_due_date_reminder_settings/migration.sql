@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'TASK_OVERDUE';
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "dueReminderHours" INTEGER DEFAULT 24,
+ADD COLUMN     "overdueNotices" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "project_members" ADD COLUMN     "inviteLinkId" TEXT;
+
+-- CreateTable
+CREATE TABLE "project_invite_links" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "role" "Role" NOT NULL DEFAULT 'MEMBER',
+    "maxUses" INTEGER,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "projectId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_invite_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_members_inviteLinkId_idx" ON "project_members"("inviteLinkId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_invite_links_token_key" ON "project_invite_links"("token");
+
+-- CreateIndex
+CREATE INDEX "project_invite_links_projectId_idx" ON "project_invite_links"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_inviteLinkId_fkey" FOREIGN KEY ("inviteLinkId") REFERENCES "project_invite_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_invite_links" ADD CONSTRAINT "project_invite_links_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_invite_links" ADD CONSTRAINT "project_invite_links_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,85 @@
+-- CreateTable
+CREATE TABLE "workspaces" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workspaces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "workspace_members" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "Role" NOT NULL DEFAULT 'MEMBER',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "workspace_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workspaces_ownerId_idx" ON "workspaces"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "workspace_members_userId_idx" ON "workspace_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspace_members_workspaceId_userId_key" ON "workspace_members"("workspaceId", "userId");
+
+-- Backfill: every existing user gets a personal workspace they own
+INSERT INTO "workspaces" ("id", "name", "ownerId", "createdAt", "updatedAt")
+SELECT 'w' || substr(md5('workspace:' || u."id"), 1, 24), u."name" || '''s Workspace', u."id", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "users" u;
+
+INSERT INTO "workspace_members" ("id", "workspaceId", "userId", "role", "joinedAt")
+SELECT 'm' || substr(md5(w."id" || ':' || w."ownerId"), 1, 24), w."id", w."ownerId", 'OWNER', CURRENT_TIMESTAMP
+FROM "workspaces" w;
+
+-- AlterTable
+ALTER TABLE "projects" ADD COLUMN     "workspaceId" TEXT;
+
+-- Backfill: projects move into their owner's workspace
+UPDATE "projects" p SET "workspaceId" = w."id"
+FROM "workspaces" w
+WHERE w."ownerId" = p."ownerId";
+
+ALTER TABLE "projects" ALTER COLUMN "workspaceId" SET NOT NULL;
+
+-- Backfill: project collaborators join the owning workspace's directory
+INSERT INTO "workspace_members" ("id", "workspaceId", "userId", "role", "joinedAt")
+SELECT 'm' || substr(md5(p."workspaceId" || ':' || pm."userId"), 1, 24), p."workspaceId", pm."userId", 'MEMBER', MIN(pm."joinedAt")
+FROM "project_members" pm
+JOIN "projects" p ON p."id" = pm."projectId"
+GROUP BY p."workspaceId", pm."userId"
+ON CONFLICT ("workspaceId", "userId") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "labels" ADD COLUMN     "workspaceId" TEXT,
+ALTER COLUMN "projectId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "projects_workspaceId_idx" ON "projects"("workspaceId");
+
+-- CreateIndex
+CREATE INDEX "labels_workspaceId_idx" ON "labels"("workspaceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "labels_workspaceId_name_key" ON "labels"("workspaceId", "name");
+
+-- AddForeignKey
+ALTER TABLE "workspaces" ADD CONSTRAINT "workspaces_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "projects" ADD CONSTRAINT "projects_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labels" ADD CONSTRAINT "labels_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "columns" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "labels" ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
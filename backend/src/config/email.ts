@@ -2,17 +2,25 @@
  * Email Configuration - Resend
  *
  * Provides email sending functionality using Resend.
- * Falls back gracefully in development when API key is not set.
+ * In development, SMTP_HOST can point at a local SMTP stand-in (e.g. Mailpit)
+ * instead. Falls back gracefully when neither is configured.
  */
 
 import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
 import { env } from './env.js';
 
 // Create Resend client (null if API key not configured)
 export const resend = env.RESEND_API_KEY ? new Resend(env.RESEND_API_KEY) : null;
 
+// Local SMTP stand-in transport (null if not configured or Resend is used)
+export const smtpTransport =
+  !resend && env.SMTP_HOST
+    ? nodemailer.createTransport({ host: env.SMTP_HOST, port: env.SMTP_PORT, secure: false })
+    : null;
+
 // Email configuration
 export const emailConfig = {
   from: env.EMAIL_FROM,
-  enabled: !!env.RESEND_API_KEY,
+  enabled: !!resend || !!smtpTransport,
 };
@@ -76,10 +76,17 @@ const envSchema = z.object({
   RESEND_API_KEY: z.string().optional(),
   EMAIL_FROM: z.string().default('noreply@tasktrox.com'),
 
+  // Email - local SMTP stand-in such as Mailpit (optional, used when Resend is not configured)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().default(1025),
+
   // Rate Limiting
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(900000), // 15 minutes
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().default(100),
 
+  // Trash - days deleted projects and tasks stay restorable before they are purged
+  TRASH_RETENTION_DAYS: z.coerce.number().int().min(1).default(30),
+
   // Logging
   LOG_LEVEL: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace']).default('info'),
 });
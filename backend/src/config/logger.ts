@@ -57,6 +57,7 @@ export const redisLogger = logger.child({ module: 'redis' });
 export const socketLogger = logger.child({ module: 'socket' });
 export const authLogger = logger.child({ module: 'auth' });
 export const searchLogger = logger.child({ module: 'search' });
+export const jobLogger = logger.child({ module: 'jobs' });
 
 // Type for log context
 export type LogContext = Record<string, unknown>;
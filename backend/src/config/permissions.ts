@@ -0,0 +1,189 @@
+/**
+ * Project and Workspace Permissions
+ *
+ * The single source of truth for what each project and workspace role may do. Routes check
+ * these with the requirePermission middleware, services check them again with
+ * ProjectService.hasPermission, and the client receives the list for the
+ * current user so it can hide actions they cannot perform.
+ */
+
+import type { Role } from '@prisma/client';
+
+/**
+ * Actions that can be granted to a project role
+ */
+export const Permission = {
+  // Project
+  PROJECT_VIEW: 'project.view',
+  PROJECT_UPDATE: 'project.update',
+  PROJECT_ARCHIVE: 'project.archive',
+  PROJECT_DELETE: 'project.delete',
+
+  // Members
+  MEMBER_INVITE: 'member.invite',
+  MEMBER_REMOVE: 'member.remove',
+  MEMBER_ROLE_CHANGE: 'member.role.change',
+
+  // Columns
+  COLUMN_CREATE: 'column.create',
+  COLUMN_UPDATE: 'column.update',
+  COLUMN_DELETE: 'column.delete',
+
+  // Tasks, including subtasks, assignees, dependencies, task labels and field values
+  TASK_CREATE: 'task.create',
+  TASK_UPDATE: 'task.update',
+  TASK_DELETE: 'task.delete',
+
+  // Labels and custom fields
+  LABEL_CREATE: 'label.create',
+  LABEL_UPDATE: 'label.update',
+  LABEL_DELETE: 'label.delete',
+  CUSTOM_FIELD_MANAGE: 'custom_field.manage',
+
+  // Comments (authors edit and delete their own)
+  COMMENT_CREATE: 'comment.create',
+  COMMENT_DELETE_ANY: 'comment.delete.any',
+
+  // Attachments (uploaders delete their own)
+  ATTACHMENT_UPLOAD: 'attachment.upload',
+  ATTACHMENT_DELETE_ANY: 'attachment.delete.any',
+
+  // Saved views (everyone keeps private views)
+  VIEW_SHARE: 'view.share',
+  VIEW_MANAGE_SHARED: 'view.manage.shared',
+} as const;
+
+export type PermissionType = (typeof Permission)[keyof typeof Permission];
+
+// Viewers are read-only
+const VIEWER_PERMISSIONS: PermissionType[] = [Permission.PROJECT_VIEW];
+
+const MEMBER_PERMISSIONS: PermissionType[] = [
+  ...VIEWER_PERMISSIONS,
+  Permission.COLUMN_CREATE,
+  Permission.COLUMN_UPDATE,
+  Permission.TASK_CREATE,
+  Permission.TASK_UPDATE,
+  Permission.TASK_DELETE,
+  Permission.LABEL_CREATE,
+  Permission.LABEL_UPDATE,
+  Permission.COMMENT_CREATE,
+  Permission.ATTACHMENT_UPLOAD,
+  Permission.VIEW_SHARE,
+];
+
+const ADMIN_PERMISSIONS: PermissionType[] = [
+  ...MEMBER_PERMISSIONS,
+  Permission.PROJECT_UPDATE,
+  Permission.PROJECT_ARCHIVE,
+  Permission.MEMBER_INVITE,
+  Permission.MEMBER_REMOVE,
+  Permission.COLUMN_DELETE,
+  Permission.LABEL_DELETE,
+  Permission.CUSTOM_FIELD_MANAGE,
+  Permission.COMMENT_DELETE_ANY,
+  Permission.ATTACHMENT_DELETE_ANY,
+  Permission.VIEW_MANAGE_SHARED,
+];
+
+// Only the owner can delete the project or change roles
+const OWNER_PERMISSIONS: PermissionType[] = [
+  ...ADMIN_PERMISSIONS,
+  Permission.PROJECT_DELETE,
+  Permission.MEMBER_ROLE_CHANGE,
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly PermissionType[]> = {
+  OWNER: OWNER_PERMISSIONS,
+  ADMIN: ADMIN_PERMISSIONS,
+  MEMBER: MEMBER_PERMISSIONS,
+  VIEWER: VIEWER_PERMISSIONS,
+};
+
+/**
+ * Whether a role grants a permission
+ */
+export function roleHasPermission(role: Role, permission: PermissionType): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Archived projects are read-only: besides viewing, they can only be unarchived,
+// deleted or left
+const ARCHIVED_PROJECT_PERMISSIONS: readonly PermissionType[] = [
+  Permission.PROJECT_VIEW,
+  Permission.PROJECT_ARCHIVE,
+  Permission.PROJECT_DELETE,
+  Permission.MEMBER_REMOVE,
+];
+
+/**
+ * Whether a permission can still be used while the project is archived
+ */
+export function allowedWhenArchived(permission: PermissionType): boolean {
+  return ARCHIVED_PROJECT_PERMISSIONS.includes(permission);
+}
+
+// ============ WORKSPACE PERMISSIONS ============
+
+/**
+ * Actions that can be granted to a workspace role
+ */
+export const WorkspacePermission = {
+  WORKSPACE_VIEW: 'workspace.view',
+  WORKSPACE_UPDATE: 'workspace.update',
+  WORKSPACE_DELETE: 'workspace.delete',
+
+  // Directory
+  WORKSPACE_MEMBER_INVITE: 'workspace.member.invite',
+  WORKSPACE_MEMBER_REMOVE: 'workspace.member.remove',
+  WORKSPACE_MEMBER_ROLE_CHANGE: 'workspace.member.role.change',
+
+  // Projects, and the labels and templates shared by every project
+  WORKSPACE_PROJECT_CREATE: 'workspace.project.create',
+  WORKSPACE_LABEL_MANAGE: 'workspace.label.manage',
+  WORKSPACE_TEMPLATE_MANAGE: 'workspace.template.manage',
+} as const;
+
+export type WorkspacePermissionType =
+  (typeof WorkspacePermission)[keyof typeof WorkspacePermission];
+
+const WORKSPACE_VIEWER_PERMISSIONS: WorkspacePermissionType[] = [
+  WorkspacePermission.WORKSPACE_VIEW,
+];
+
+const WORKSPACE_MEMBER_PERMISSIONS: WorkspacePermissionType[] = [
+  ...WORKSPACE_VIEWER_PERMISSIONS,
+  WorkspacePermission.WORKSPACE_PROJECT_CREATE,
+];
+
+const WORKSPACE_ADMIN_PERMISSIONS: WorkspacePermissionType[] = [
+  ...WORKSPACE_MEMBER_PERMISSIONS,
+  WorkspacePermission.WORKSPACE_UPDATE,
+  WorkspacePermission.WORKSPACE_MEMBER_INVITE,
+  WorkspacePermission.WORKSPACE_MEMBER_REMOVE,
+  WorkspacePermission.WORKSPACE_LABEL_MANAGE,
+  WorkspacePermission.WORKSPACE_TEMPLATE_MANAGE,
+];
+
+const WORKSPACE_OWNER_PERMISSIONS: WorkspacePermissionType[] = [
+  ...WORKSPACE_ADMIN_PERMISSIONS,
+  WorkspacePermission.WORKSPACE_DELETE,
+  WorkspacePermission.WORKSPACE_MEMBER_ROLE_CHANGE,
+];
+
+export const WORKSPACE_ROLE_PERMISSIONS: Record<Role, readonly WorkspacePermissionType[]> = {
+  OWNER: WORKSPACE_OWNER_PERMISSIONS,
+  ADMIN: WORKSPACE_ADMIN_PERMISSIONS,
+  MEMBER: WORKSPACE_MEMBER_PERMISSIONS,
+  VIEWER: WORKSPACE_VIEWER_PERMISSIONS,
+};
+
+/**
+ * Whether a workspace role grants a permission
+ */
+export function workspaceRoleHasPermission(
+  role: Role,
+  permission: WorkspacePermissionType
+): boolean {
+  return WORKSPACE_ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,185 @@
+/**
+ * Project Templates
+ *
+ * The shape of a project template and the built-in templates every workspace
+ * can start from. Saved templates store the same content as JSON in the
+ * project_templates table.
+ */
+
+import type { ColumnCategory, CustomFieldType, Priority, WipLimitMode } from '@prisma/client';
+
+/**
+ * Everything needed to rebuild a project: settings, board, labels, custom
+ * fields and (optionally) sample tasks
+ */
+export interface ProjectTemplateContent {
+  settings: {
+    color: string;
+    icon: string | null;
+    wipLimitMode: WipLimitMode;
+    dueReminderHours: number | null;
+    overdueNotices: boolean;
+  };
+  columns: {
+    name: string;
+    color: string | null;
+    wipLimit: number | null;
+    category: ColumnCategory;
+  }[];
+  labels: { name: string; color: string }[];
+  customFields: { name: string; type: CustomFieldType; options: string[] }[];
+  tasks: {
+    title: string;
+    description: string | null;
+    priority: Priority | null;
+    // Index into columns
+    column: number;
+    // Days after the project is created (null = no due date)
+    dueInDays: number | null;
+    // Label names, matched against the new project's and workspace's labels
+    labels: string[];
+    subtasks: string[];
+  }[];
+}
+
+export interface BuiltInTemplate {
+  id: string;
+  name: string;
+  description: string;
+  content: ProjectTemplateContent;
+}
+
+// Built-in template IDs share the saved templates' ID space, so they carry a prefix
+export const BUILT_IN_TEMPLATE_PREFIX = 'builtin:';
+
+const DEFAULT_SETTINGS: ProjectTemplateContent['settings'] = {
+  color: '#6366f1',
+  icon: null,
+  wipLimitMode: 'OFF',
+  dueReminderHours: 24,
+  overdueNotices: true,
+};
+
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}kanban`,
+    name: 'Kanban',
+    description: 'A continuous flow board with a work-in-progress limit.',
+    content: {
+      settings: { ...DEFAULT_SETTINGS, wipLimitMode: 'WARN' },
+      columns: [
+        { name: 'Backlog', color: null, wipLimit: null, category: 'TODO' },
+        { name: 'To Do', color: null, wipLimit: null, category: 'TODO' },
+        { name: 'In Progress', color: null, wipLimit: 3, category: 'IN_PROGRESS' },
+        { name: 'Done', color: null, wipLimit: null, category: 'DONE' },
+      ],
+      labels: [
+        { name: 'Feature', color: '#6366f1' },
+        { name: 'Improvement', color: '#10b981' },
+        { name: 'Chore', color: '#6b7280' },
+      ],
+      customFields: [],
+      tasks: [
+        {
+          title: 'Add your first task',
+          description: 'Drag cards across the board as work moves along.',
+          priority: null,
+          column: 1,
+          dueInDays: null,
+          labels: [],
+          subtasks: [],
+        },
+      ],
+    },
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}scrum`,
+    name: 'Scrum',
+    description: 'Sprint-based work with story points and a review step.',
+    content: {
+      settings: { ...DEFAULT_SETTINGS, color: '#0ea5e9' },
+      columns: [
+        { name: 'Product Backlog', color: null, wipLimit: null, category: 'TODO' },
+        { name: 'Sprint Backlog', color: null, wipLimit: null, category: 'TODO' },
+        { name: 'In Progress', color: null, wipLimit: null, category: 'IN_PROGRESS' },
+        { name: 'Review', color: null, wipLimit: null, category: 'IN_PROGRESS' },
+        { name: 'Done', color: null, wipLimit: null, category: 'DONE' },
+      ],
+      labels: [
+        { name: 'Story', color: '#10b981' },
+        { name: 'Bug', color: '#ef4444' },
+        { name: 'Spike', color: '#f59e0b' },
+      ],
+      customFields: [
+        { name: 'Story Points', type: 'NUMBER', options: [] },
+        { name: 'Sprint', type: 'TEXT', options: [] },
+      ],
+      tasks: [
+        {
+          title: 'Sprint planning',
+          description: 'Pick the stories for this sprint from the product backlog.',
+          priority: 'HIGH',
+          column: 1,
+          dueInDays: 1,
+          labels: [],
+          subtasks: ['Review the backlog', 'Estimate stories', 'Agree on the sprint goal'],
+        },
+        {
+          title: 'Sprint review',
+          description: null,
+          priority: 'MEDIUM',
+          column: 1,
+          dueInDays: 14,
+          labels: [],
+          subtasks: [],
+        },
+      ],
+    },
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}bug-triage`,
+    name: 'Bug triage',
+    description: 'Track incoming bugs from report to verified fix.',
+    content: {
+      settings: { ...DEFAULT_SETTINGS, color: '#ef4444', dueReminderHours: 12 },
+      columns: [
+        { name: 'Reported', color: null, wipLimit: null, category: 'TODO' },
+        { name: 'Triaged', color: null, wipLimit: null, category: 'TODO' },
+        { name: 'Fixing', color: null, wipLimit: null, category: 'IN_PROGRESS' },
+        { name: 'Verifying', color: null, wipLimit: null, category: 'IN_PROGRESS' },
+        { name: 'Closed', color: null, wipLimit: null, category: 'DONE' },
+      ],
+      labels: [
+        { name: 'Critical', color: '#ef4444' },
+        { name: 'Regression', color: '#f59e0b' },
+        { name: 'Cannot Reproduce', color: '#6b7280' },
+      ],
+      customFields: [
+        {
+          name: 'Severity',
+          type: 'SINGLE_SELECT',
+          options: ['Blocker', 'Major', 'Minor', 'Trivial'],
+        },
+        { name: 'Affected Version', type: 'TEXT', options: [] },
+      ],
+      tasks: [
+        {
+          title: 'Example: Login button unresponsive on Safari',
+          description: 'Steps to reproduce, expected and actual behaviour go here.',
+          priority: 'HIGH',
+          column: 0,
+          dueInDays: 2,
+          labels: ['Regression'],
+          subtasks: ['Reproduce', 'Find the cause', 'Add a regression test'],
+        },
+      ],
+    },
+  },
+];
+
+/**
+ * Find a built-in template by ID
+ */
+export function getBuiltInTemplate(id: string): BuiltInTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find((template) => template.id === id);
+}
@@ -14,6 +14,7 @@ import {
   broadcastColumnReordered,
 } from '../sockets/broadcast.js';
 import type { LiveColumn } from '../types/presence.js';
+import { VersionConflictError, toVersionConflictError } from '../utils/concurrency.js';
 
 /**
  * Convert a column from the service to LiveColumn format for broadcasting.
@@ -148,6 +149,7 @@ export class ColumnController {
       const userId = req.user!.id;
       const columnId = req.params.columnId as string;
       const data = req.body as UpdateColumnInput;
+      const { version: _version, ...changes } = data;
 
       const column = await ColumnService.updateColumn(columnId, userId, data);
 
@@ -173,8 +175,8 @@ export class ColumnController {
         metadata: {
           columnId: column.id,
           columnName: column.name,
-          changes: Object.keys(data).reduce((acc, key) => {
-            acc[key] = { to: data[key as keyof typeof data] };
+          changes: Object.keys(changes).reduce((acc, key) => {
+            acc[key] = { to: changes[key as keyof typeof changes] };
             return acc;
           }, {} as Record<string, { to: unknown }>),
         },
@@ -185,6 +187,13 @@ export class ColumnController {
         data: { column },
       });
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        res.status(409).json({
+          success: false,
+          error: toVersionConflictError(error),
+        });
+        return;
+      }
       next(error);
     }
   }
@@ -0,0 +1,258 @@
+import type { Request, Response, NextFunction } from 'express';
+import { CustomFieldService } from '../services/custom-field.service.js';
+import { ActivityService, ActivityAction } from '../services/activity.service.js';
+import type {
+  CreateCustomFieldInput,
+  UpdateCustomFieldInput,
+  SetCustomFieldValueInput,
+} from '../validators/custom-field.validator.js';
+
+/**
+ * Map custom field domain errors to responses; returns false for unknown errors
+ */
+function handleCustomFieldError(error: unknown, res: Response): boolean {
+  if (!(error instanceof Error)) return false;
+
+  if (error.message.includes('already exists')) {
+    res.status(409).json({
+      success: false,
+      error: { code: 'DUPLICATE_CUSTOM_FIELD', message: error.message },
+    });
+    return true;
+  }
+  if (error.message.startsWith('Invalid value')) {
+    res.status(400).json({
+      success: false,
+      error: { code: 'INVALID_CUSTOM_FIELD_VALUE', message: error.message },
+    });
+    return true;
+  }
+  if (error.message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      error: { code: 'NOT_FOUND', message: error.message },
+    });
+    return true;
+  }
+  return false;
+}
+
+export class CustomFieldController {
+  // ============ FIELD DEFINITIONS ============
+
+  /**
+   * GET /projects/:projectId/custom-fields
+   * List all custom fields for a project
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const fields = await CustomFieldService.getProjectFields(projectId, userId);
+
+      if (fields === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROJECT_NOT_FOUND',
+            message: 'Project not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { fields },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/custom-fields
+   * Create a new custom field
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const data = req.body as CreateCustomFieldInput;
+
+      const field = await CustomFieldService.createField(projectId, userId, data);
+
+      if (!field) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only project owners and admins can manage custom fields',
+          },
+        });
+        return;
+      }
+
+      // Log activity asynchronously
+      ActivityService.logAsync({
+        action: ActivityAction.CUSTOM_FIELD_CREATED,
+        projectId,
+        userId,
+        metadata: {
+          fieldId: field.id,
+          fieldName: field.name,
+          fieldType: field.type,
+        },
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { field },
+      });
+    } catch (error) {
+      if (handleCustomFieldError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /projects/:projectId/custom-fields/:fieldId
+   * Update a custom field
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const fieldId = req.params.fieldId as string;
+      const data = req.body as UpdateCustomFieldInput;
+
+      const field = await CustomFieldService.updateField(projectId, fieldId, userId, data);
+
+      if (!field) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CUSTOM_FIELD_NOT_FOUND',
+            message: 'Custom field not found or you do not have permission to update it',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { field },
+      });
+    } catch (error) {
+      if (handleCustomFieldError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /projects/:projectId/custom-fields/:fieldId
+   * Delete a custom field and all of its values
+   */
+  static async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const fieldId = req.params.fieldId as string;
+
+      // Get field info before deletion for logging
+      const fieldInfo = await CustomFieldService.getFieldById(projectId, fieldId, userId);
+
+      const result = await CustomFieldService.deleteField(projectId, fieldId, userId);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Permission denied' ? 403 : 404;
+        res.status(statusCode).json({
+          success: false,
+          error: {
+            code: statusCode === 403 ? 'FORBIDDEN' : 'CUSTOM_FIELD_NOT_FOUND',
+            message: result.error,
+          },
+        });
+        return;
+      }
+
+      // Log activity asynchronously
+      ActivityService.logAsync({
+        action: ActivityAction.CUSTOM_FIELD_DELETED,
+        projectId,
+        userId,
+        metadata: {
+          fieldId,
+          fieldName: fieldInfo?.name,
+          fieldType: fieldInfo?.type,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Custom field deleted successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ============ TASK VALUES ============
+
+  /**
+   * PUT /projects/:projectId/tasks/:taskId/custom-fields/:fieldId
+   * Set or clear a task's value for a custom field
+   */
+  static async setTaskValue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const taskId = req.params.taskId as string;
+      const fieldId = req.params.fieldId as string;
+      const { value } = req.body as SetCustomFieldValueInput;
+
+      const result = await CustomFieldService.setTaskValue(
+        projectId,
+        taskId,
+        fieldId,
+        userId,
+        value
+      );
+
+      if (!result) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to modify this task',
+          },
+        });
+        return;
+      }
+
+      // Log activity asynchronously
+      ActivityService.logAsync({
+        action: ActivityAction.CUSTOM_FIELD_VALUE_CHANGED,
+        projectId,
+        userId,
+        taskId,
+        metadata: {
+          fieldId,
+          fieldName: result.field.name,
+          fieldType: result.field.type,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: { fieldId, value: result.value },
+      });
+    } catch (error) {
+      if (handleCustomFieldError(error, res)) return;
+      next(error);
+    }
+  }
+}
+
+export default CustomFieldController;
@@ -0,0 +1,171 @@
+import type { Request, Response, NextFunction } from 'express';
+import { DependencyService } from '../services/dependency.service.js';
+import { ActivityService, ActivityAction } from '../services/activity.service.js';
+import {
+  broadcastDependencyAdded,
+  broadcastDependencyRemoved,
+} from '../sockets/broadcast.js';
+import type {
+  DependencyParams,
+  DependencyIdParams,
+  AddDependencyInput,
+} from '../validators/dependency.validator.js';
+
+export class DependencyController {
+  /**
+   * GET /projects/:projectId/tasks/:taskId/dependencies
+   * List tasks blocking and blocked by a task
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { projectId, taskId } = req.params as unknown as DependencyParams;
+
+      const dependencies = await DependencyService.getTaskDependencies(projectId, taskId, userId);
+
+      if (dependencies === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Task or project not found, or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: dependencies,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/tasks/:taskId/dependencies
+   * Link a task as blocking or blocked by another task
+   */
+  static async add(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { projectId, taskId } = req.params as unknown as DependencyParams;
+      const { targetTaskId, type } = req.body as AddDependencyInput;
+
+      const link = await DependencyService.addDependency(
+        projectId,
+        taskId,
+        userId,
+        targetTaskId,
+        type
+      );
+
+      if (link === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Task or project not found, or you do not have permission',
+          },
+        });
+        return;
+      }
+
+      ActivityService.logAsync({
+        action: ActivityAction.DEPENDENCY_ADDED,
+        projectId,
+        userId,
+        taskId: link.blockedTask.id,
+        metadata: {
+          blockingTaskId: link.blockingTask.id,
+          blockingTaskTitle: link.blockingTask.title,
+          blockedTaskId: link.blockedTask.id,
+          blockedTaskTitle: link.blockedTask.title,
+        },
+      });
+
+      broadcastDependencyAdded(projectId, link.blockingTask.id, link.blockedTask.id, userId);
+
+      res.status(201).json({
+        success: true,
+        data: { dependency: link },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('itself')) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_DEPENDENCY',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      if (error instanceof Error && error.message.includes('cycle')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'DEPENDENCY_CYCLE',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /projects/:projectId/tasks/:taskId/dependencies/:otherTaskId
+   * Remove the dependency between two tasks
+   */
+  static async remove(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { projectId, taskId, otherTaskId } = req.params as unknown as DependencyIdParams;
+
+      const link = await DependencyService.removeDependency(
+        projectId,
+        taskId,
+        otherTaskId,
+        userId
+      );
+
+      if (link === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Dependency not found or you do not have permission to remove it',
+          },
+        });
+        return;
+      }
+
+      ActivityService.logAsync({
+        action: ActivityAction.DEPENDENCY_REMOVED,
+        projectId,
+        userId,
+        taskId: link.blockedTask.id,
+        metadata: {
+          blockingTaskId: link.blockingTask.id,
+          blockingTaskTitle: link.blockingTask.title,
+          blockedTaskId: link.blockedTask.id,
+          blockedTaskTitle: link.blockedTask.title,
+        },
+      });
+
+      broadcastDependencyRemoved(projectId, link.blockingTask.id, link.blockedTask.id, userId);
+
+      res.json({
+        success: true,
+        data: { message: 'Dependency removed successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default DependencyController;
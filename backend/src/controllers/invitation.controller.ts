@@ -0,0 +1,210 @@
+import type { Request, Response, NextFunction } from 'express';
+import { InvitationService } from '../services/invitation.service.js';
+import type { CreateInvitationInput } from '../validators/invitation.validator.js';
+
+const FORBIDDEN_RESPONSE = {
+  success: false,
+  error: {
+    code: 'FORBIDDEN',
+    message: 'You do not have permission to manage invitations for this project',
+  },
+};
+
+const INVALID_INVITATION_RESPONSE = {
+  success: false,
+  error: {
+    code: 'INVALID_INVITATION',
+    message: 'This invitation is invalid, has expired or was revoked',
+  },
+};
+
+export class InvitationController {
+  /**
+   * GET /projects/:projectId/invitations
+   * List pending invitations
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const invitations = await InvitationService.getPendingInvitations(projectId, userId);
+
+      if (!invitations) {
+        res.status(403).json(FORBIDDEN_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { invitations },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/invitations
+   * Invite someone by email
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const data = req.body as CreateInvitationInput;
+
+      const invitation = await InvitationService.createInvitation(projectId, userId, data);
+
+      if (!invitation) {
+        res.status(403).json(FORBIDDEN_RESPONSE);
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { invitation },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already a member')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'ALREADY_MEMBER',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/invitations/:invitationId/resend
+   * Email a fresh invitation link
+   */
+  static async resend(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const invitationId = req.params.invitationId as string;
+
+      const invitation = await InvitationService.resendInvitation(
+        projectId,
+        userId,
+        invitationId
+      );
+
+      if (!invitation) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Invitation not found or you do not have permission',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { invitation },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /projects/:projectId/invitations/:invitationId
+   * Revoke a pending invitation
+   */
+  static async revoke(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const invitationId = req.params.invitationId as string;
+
+      const revoked = await InvitationService.revokeInvitation(projectId, userId, invitationId);
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Invitation not found or you do not have permission',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Invitation revoked' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /invitations/:token
+   * Show who sent an invitation and to which project (no login required)
+   */
+  static async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const token = req.params.token as string;
+
+      const invitation = await InvitationService.getInvitationByToken(token);
+
+      if (!invitation) {
+        res.status(404).json(INVALID_INVITATION_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { invitation },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /invitations/:token/accept
+   * Join the project as the signed-in user
+   */
+  static async accept(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const token = req.params.token as string;
+
+      const result = await InvitationService.acceptInvitation(token, req.user!);
+
+      if (!result) {
+        res.status(404).json(INVALID_INVITATION_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('different email')) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'INVITATION_EMAIL_MISMATCH',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+}
+
+export default InvitationController;
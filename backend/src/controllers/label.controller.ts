@@ -7,6 +7,7 @@ import type {
   AddTaskLabelInput,
   SetTaskLabelsInput,
 } from '../validators/label.validator.js';
+import { VersionConflictError, toVersionConflictError } from '../utils/concurrency.js';
 
 export class LabelController {
   // ============ LABEL CRUD ============
@@ -138,6 +139,7 @@ export class LabelController {
       const projectId = req.params.projectId as string;
       const labelId = req.params.labelId as string;
       const data = req.body as UpdateLabelInput;
+      const { version: _version, ...changes } = data;
 
       const label = await LabelService.updateLabel(projectId, labelId, userId, data);
 
@@ -161,8 +163,8 @@ export class LabelController {
           labelId: label.id,
           labelName: label.name,
           labelColor: label.color,
-          changes: Object.keys(data).reduce((acc, key) => {
-            acc[key] = { to: data[key as keyof typeof data] };
+          changes: Object.keys(changes).reduce((acc, key) => {
+            acc[key] = { to: changes[key as keyof typeof changes] };
             return acc;
           }, {} as Record<string, { to: unknown }>),
         },
@@ -173,6 +175,13 @@ export class LabelController {
         data: { label },
       });
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        res.status(409).json({
+          success: false,
+          error: toVersionConflictError(error),
+        });
+        return;
+      }
       if (error instanceof Error && error.message.includes('already exists')) {
         res.status(409).json({
           success: false,
@@ -238,6 +247,167 @@ export class LabelController {
     }
   }
 
+  // ============ WORKSPACE LABELS ============
+
+  /**
+   * GET /workspaces/:workspaceId/labels
+   * List labels shared by every project in a workspace
+   */
+  static async listWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+
+      const labels = await LabelService.getWorkspaceLabels(workspaceId, userId);
+
+      if (labels === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'WORKSPACE_NOT_FOUND',
+            message: 'Workspace not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { labels },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workspaces/:workspaceId/labels
+   * Create a workspace label
+   */
+  static async createWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const data = req.body as CreateLabelInput;
+
+      const label = await LabelService.createWorkspaceLabel(workspaceId, userId, data);
+
+      if (!label) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to manage labels in this workspace',
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { label },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already exists')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'DUPLICATE_LABEL',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /workspaces/:workspaceId/labels/:labelId
+   * Update a workspace label
+   */
+  static async updateWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const labelId = req.params.labelId as string;
+      const data = req.body as UpdateLabelInput;
+
+      const label = await LabelService.updateWorkspaceLabel(workspaceId, labelId, userId, data);
+
+      if (!label) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'LABEL_NOT_FOUND',
+            message: 'Label not found or you do not have permission to update it',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { label },
+      });
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        res.status(409).json({
+          success: false,
+          error: toVersionConflictError(error),
+        });
+        return;
+      }
+      if (error instanceof Error && error.message.includes('already exists')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'DUPLICATE_LABEL',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /workspaces/:workspaceId/labels/:labelId
+   * Delete a workspace label
+   */
+  static async deleteWorkspace(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const labelId = req.params.labelId as string;
+
+      const result = await LabelService.deleteWorkspaceLabel(workspaceId, labelId, userId);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Permission denied' ? 403 : 404;
+        const errorCode =
+          result.error === 'Permission denied' ? 'FORBIDDEN' : 'LABEL_NOT_FOUND';
+
+        res.status(statusCode).json({
+          success: false,
+          error: {
+            code: errorCode,
+            message: result.error,
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Label deleted successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // ============ TASK LABEL OPERATIONS ============
 
   /**
@@ -0,0 +1,174 @@
+import type { Request, Response, NextFunction } from 'express';
+import { NotificationService } from '../services/notification.service.js';
+import { NotificationPreferenceService } from '../services/notification-preference.service.js';
+import { broadcastNotificationRead } from '../sockets/broadcast.js';
+import type {
+  ListNotificationsQuery,
+  UpdateNotificationPreferencesInput,
+} from '../validators/notification.validator.js';
+
+export class NotificationController {
+  /**
+   * GET /notifications
+   * List the current user's notifications, newest first
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { limit, offset, unread } = req.query as unknown as ListNotificationsQuery;
+
+      const { notifications, total, unreadCount } =
+        await NotificationService.getUserNotifications(userId, {
+          limit,
+          offset,
+          unreadOnly: unread,
+        });
+
+      res.json({
+        success: true,
+        data: { notifications },
+        meta: {
+          total,
+          unreadCount,
+          limit,
+          offset,
+          hasMore: offset + notifications.length < total,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /notifications/:notificationId/read
+   * Mark a notification as read
+   */
+  static async markRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const notificationId = req.params.notificationId as string;
+
+      const notification = await NotificationService.markRead(userId, notificationId);
+
+      if (!notification) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Notification not found',
+          },
+        });
+        return;
+      }
+
+      // Keep the user's other tabs in sync
+      broadcastNotificationRead(userId, notification.id);
+
+      res.json({
+        success: true,
+        data: { notification },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /notifications/read-all
+   * Mark all of the current user's notifications as read
+   */
+  static async markAllRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const count = await NotificationService.markAllRead(userId);
+
+      if (count > 0) {
+        broadcastNotificationRead(userId, null);
+      }
+
+      res.json({
+        success: true,
+        data: { count },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /notifications/preferences
+   * Get the current user's email preference for each notification type
+   */
+  static async getPreferences(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const preferences = await NotificationPreferenceService.getPreferences(userId);
+
+      res.json({
+        success: true,
+        data: { preferences },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /notifications/preferences
+   * Update the current user's email preferences
+   */
+  static async updatePreferences(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { preferences } = req.body as UpdateNotificationPreferencesInput;
+
+      const updated = await NotificationPreferenceService.updatePreferences(userId, preferences);
+
+      res.json({
+        success: true,
+        data: { preferences: updated },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /notifications/unsubscribe
+   * Turn off notification emails from a signed email link (no login required)
+   */
+  static async unsubscribe(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token } = req.query as { token: string };
+
+      const result = await NotificationPreferenceService.unsubscribe(token);
+
+      if (!result) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_UNSUBSCRIBE_TOKEN',
+            message: 'Invalid unsubscribe link',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default NotificationController;
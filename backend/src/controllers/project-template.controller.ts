@@ -0,0 +1,137 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ProjectTemplateService } from '../services/project-template.service.js';
+import type {
+  SaveAsTemplateInput,
+  DuplicateProjectInput,
+} from '../validators/project-template.validator.js';
+
+export class ProjectTemplateController {
+  /**
+   * GET /workspaces/:workspaceId/templates
+   * List the built-in templates and the workspace's saved templates
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+
+      const templates = await ProjectTemplateService.getTemplates(workspaceId, userId);
+
+      if (templates === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'WORKSPACE_NOT_FOUND',
+            message: 'Workspace not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { templates },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /workspaces/:workspaceId/templates/:templateId
+   * Delete a saved template
+   */
+  static async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const templateId = req.params.templateId as string;
+
+      const deleted = await ProjectTemplateService.deleteTemplate(workspaceId, templateId, userId);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'TEMPLATE_NOT_FOUND',
+            message: 'Template not found or you do not have permission to delete it',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Template deleted successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/templates
+   * Save a project as a template for its workspace
+   */
+  static async saveFromProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const data = req.body as SaveAsTemplateInput;
+
+      const template = await ProjectTemplateService.saveProjectAsTemplate(projectId, userId, data);
+
+      if (!template) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to save this project as a template',
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { template },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/duplicate
+   * Copy a project into a new one in the same workspace
+   */
+  static async duplicateProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const data = req.body as DuplicateProjectInput;
+
+      const project = await ProjectTemplateService.duplicateProject(projectId, userId, data);
+
+      if (!project) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to create projects in this workspace',
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { project },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default ProjectTemplateController;
@@ -1,12 +1,22 @@
 import type { Request, Response, NextFunction } from 'express';
 import { ProjectService } from '../services/project.service.js';
+import { ProjectTemplateService } from '../services/project-template.service.js';
 import type {
   CreateProjectInput,
   UpdateProjectInput,
   AddMemberInput,
   UpdateMemberRoleInput,
+  CreateInviteLinkInput,
 } from '../validators/project.validator.js';
 
+const INVALID_INVITE_LINK_RESPONSE = {
+  success: false,
+  error: {
+    code: 'INVALID_INVITE_LINK',
+    message: 'This link is invalid, has expired or has been used up',
+  },
+};
+
 export class ProjectController {
   // ============ PROJECT CRUD ============
 
@@ -17,7 +27,8 @@ export class ProjectController {
   static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.id;
-      const projects = await ProjectService.getUserProjects(userId);
+      const { workspaceId, archived } = req.query as { workspaceId?: string; archived?: boolean };
+      const projects = await ProjectService.getUserProjects(userId, workspaceId, archived);
 
       res.json({
         success: true,
@@ -59,16 +70,74 @@ export class ProjectController {
     }
   }
 
+  /**
+   * GET /projects/:projectId/permissions
+   * Get the current user's role and what it allows in a project
+   */
+  static async getPermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const result = await ProjectService.getUserPermissions(projectId, userId);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROJECT_NOT_FOUND',
+            message: 'Project not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /projects
-   * Create a new project
+   * Create a new project, optionally from a built-in or saved template
    */
   static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.user!.id;
       const data = req.body as CreateProjectInput;
 
-      const project = await ProjectService.createProject(userId, data);
+      let template;
+      if (data.templateId) {
+        template = await ProjectTemplateService.getTemplateContent(data.templateId, userId);
+
+        if (!template) {
+          res.status(404).json({
+            success: false,
+            error: {
+              code: 'TEMPLATE_NOT_FOUND',
+              message: 'Template not found or you do not have access',
+            },
+          });
+          return;
+        }
+      }
+
+      const project = await ProjectService.createProject(userId, data, template);
+
+      if (!project) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to create projects in this workspace',
+          },
+        });
+        return;
+      }
 
       res.status(201).json({
         success: true,
@@ -142,6 +211,54 @@ export class ProjectController {
     }
   }
 
+  /**
+   * POST /projects/:projectId/archive
+   * Archive a project, making it read-only
+   */
+  static async archive(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await ProjectController.setArchived(req, res, next, true);
+  }
+
+  /**
+   * POST /projects/:projectId/unarchive
+   * Return an archived project to the active list
+   */
+  static async unarchive(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await ProjectController.setArchived(req, res, next, false);
+  }
+
+  private static async setArchived(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    archived: boolean
+  ): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const project = await ProjectService.setArchived(projectId, userId, archived);
+
+      if (!project) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to archive this project',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { project },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // ============ MEMBER MANAGEMENT ============
 
   /**
@@ -315,6 +432,151 @@ export class ProjectController {
       next(error);
     }
   }
+
+  // ============ INVITE LINKS ============
+
+  /**
+   * GET /projects/:projectId/invite-links
+   * List the project's join links
+   */
+  static async listInviteLinks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const links = await ProjectService.getInviteLinks(projectId, userId);
+
+      if (!links) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to manage join links for this project',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { links },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/invite-links
+   * Create a join link
+   */
+  static async createInviteLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const data = req.body as CreateInviteLinkInput;
+
+      const link = await ProjectService.createInviteLink(projectId, userId, data);
+
+      if (!link) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to manage join links for this project',
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { link },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /projects/:projectId/invite-links/:linkId
+   * Revoke a join link
+   */
+  static async revokeInviteLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const linkId = req.params.linkId as string;
+
+      const revoked = await ProjectService.revokeInviteLink(projectId, userId, linkId);
+
+      if (!revoked) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Link not found or you do not have permission',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Link revoked' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /join/:token
+   * Show which project a join link is for (no login required)
+   */
+  static async getInviteLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const token = req.params.token as string;
+
+      const link = await ProjectService.getInviteLinkByToken(token);
+
+      if (!link) {
+        res.status(404).json(INVALID_INVITE_LINK_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { link },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /join/:token
+   * Join the project as the signed-in user
+   */
+  static async joinViaInviteLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const token = req.params.token as string;
+
+      const result = await ProjectService.joinViaInviteLink(token, req.user!);
+
+      if (!result) {
+        res.status(404).json(INVALID_INVITE_LINK_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export default ProjectController;
@@ -174,6 +174,54 @@ export class ReportsController {
     }
   }
 
+  /**
+   * GET /projects/:projectId/reports/custom-fields/:fieldId
+   * Aggregate a custom field by status (column)
+   */
+  static async getCustomFieldByStatus(req: AuthenticatedRequest, res: Response) {
+    try {
+      const projectId = req.params.projectId as string;
+      const fieldId = req.params.fieldId as string;
+      const userId = req.user!.id;
+
+      if (!projectId || !fieldId) {
+        return res.status(400).json({
+          success: false,
+          error: { code: 'BAD_REQUEST', message: 'Project ID and field ID are required' },
+        });
+      }
+
+      // Verify user has access to project
+      const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+      if (!hasAccess) {
+        return res.status(403).json({
+          success: false,
+          error: { code: 'FORBIDDEN', message: 'You do not have access to this project' },
+        });
+      }
+
+      const data = await ReportsService.getCustomFieldByStatus(projectId, fieldId);
+
+      if (!data) {
+        return res.status(404).json({
+          success: false,
+          error: { code: 'CUSTOM_FIELD_NOT_FOUND', message: 'Custom field not found' },
+        });
+      }
+
+      return res.json({
+        success: true,
+        data: { customFieldByStatus: data },
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to get custom field report');
+      return res.status(500).json({
+        success: false,
+        error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve report' },
+      });
+    }
+  }
+
   /**
    * GET /projects/:projectId/reports/completion-metrics
    * Get completion metrics for a project
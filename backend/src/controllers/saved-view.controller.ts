@@ -0,0 +1,155 @@
+import type { Request, Response, NextFunction } from 'express';
+import { SavedViewService } from '../services/saved-view.service.js';
+import type {
+  CreateSavedViewInput,
+  UpdateSavedViewInput,
+} from '../validators/saved-view.validator.js';
+
+/**
+ * Map saved view domain errors to responses; returns false for unknown errors
+ */
+function handleSavedViewError(error: unknown, res: Response): boolean {
+  if (error instanceof Error && error.message.includes('cannot share')) {
+    res.status(403).json({
+      success: false,
+      error: { code: 'FORBIDDEN', message: error.message },
+    });
+    return true;
+  }
+  return false;
+}
+
+export class SavedViewController {
+  /**
+   * GET /projects/:projectId/views
+   * List the user's views and views shared with the project
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const views = await SavedViewService.getProjectViews(projectId, userId);
+
+      if (views === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROJECT_NOT_FOUND',
+            message: 'Project not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { views },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/views
+   * Save a new view
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const data = req.body as CreateSavedViewInput;
+
+      const view = await SavedViewService.createView(projectId, userId, data);
+
+      if (!view) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROJECT_NOT_FOUND',
+            message: 'Project not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { view },
+      });
+    } catch (error) {
+      if (handleSavedViewError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /projects/:projectId/views/:viewId
+   * Update a saved view
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const viewId = req.params.viewId as string;
+      const data = req.body as UpdateSavedViewInput;
+
+      const view = await SavedViewService.updateView(projectId, viewId, userId, data);
+
+      if (!view) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'SAVED_VIEW_NOT_FOUND',
+            message: 'Saved view not found or you do not have permission to update it',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { view },
+      });
+    } catch (error) {
+      if (handleSavedViewError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /projects/:projectId/views/:viewId
+   * Delete a saved view
+   */
+  static async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const viewId = req.params.viewId as string;
+
+      const result = await SavedViewService.deleteView(projectId, viewId, userId);
+
+      if (!result.success) {
+        const statusCode = result.error === 'Permission denied' ? 403 : 404;
+        res.status(statusCode).json({
+          success: false,
+          error: {
+            code: statusCode === 403 ? 'FORBIDDEN' : 'SAVED_VIEW_NOT_FOUND',
+            message: result.error,
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Saved view deleted successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default SavedViewController;
@@ -5,7 +5,7 @@ import { searchLogger } from '../config/logger.js';
 
 /**
  * Search tasks and projects.
- * GET /api/v1/search?q=query&projectId=optional&limit=10
+ * GET /api/v1/search?q=query&workspaceId=optional&projectId=optional&limit=10
  */
 export async function search(req: Request, res: Response): Promise<void> {
   try {
@@ -7,13 +7,15 @@ import { logger } from '../config/logger.js';
 export class StatsController {
   /**
    * GET /stats/dashboard
-   * Get dashboard stats for the authenticated user
+   * Get dashboard stats for the authenticated user (?workspaceId= to limit to one workspace)
    */
   static async getDashboardStats(req: AuthenticatedRequest, res: Response) {
     try {
       const userId = req.user!.id;
+      const workspaceId =
+        typeof req.query.workspaceId === 'string' ? req.query.workspaceId : undefined;
 
-      const stats = await StatsService.getDashboardStats(userId);
+      const stats = await StatsService.getDashboardStats(userId, workspaceId);
 
       return res.json({
         success: true,
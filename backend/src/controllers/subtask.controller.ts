@@ -0,0 +1,205 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { Subtask } from '@prisma/client';
+import { SubtaskService } from '../services/subtask.service.js';
+import { ActivityService, ActivityAction } from '../services/activity.service.js';
+import {
+  broadcastSubtaskCreated,
+  broadcastSubtaskUpdated,
+  broadcastSubtaskDeleted,
+} from '../sockets/broadcast.js';
+import type {
+  SubtaskParams,
+  SubtaskIdParams,
+  CreateSubtaskInput,
+  UpdateSubtaskInput,
+} from '../validators/subtask.validator.js';
+import type { LiveSubtask } from '../types/presence.js';
+
+/**
+ * Convert a subtask to LiveSubtask format for broadcasting.
+ */
+function toLiveSubtask(subtask: Subtask): LiveSubtask {
+  return {
+    id: subtask.id,
+    title: subtask.title,
+    order: subtask.order,
+    completedAt: subtask.completedAt ? subtask.completedAt.toISOString() : null,
+    taskId: subtask.taskId,
+    createdAt: subtask.createdAt.toISOString(),
+    updatedAt: subtask.updatedAt.toISOString(),
+  };
+}
+
+export class SubtaskController {
+  /**
+   * GET /projects/:projectId/tasks/:taskId/subtasks
+   * List all subtasks for a task
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { projectId, taskId } = req.params as unknown as SubtaskParams;
+
+      const subtasks = await SubtaskService.getTaskSubtasks(projectId, taskId, userId);
+
+      if (subtasks === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Task or project not found, or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { subtasks },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/tasks/:taskId/subtasks
+   * Add a subtask to a task
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { projectId, taskId } = req.params as unknown as SubtaskParams;
+      const { title } = req.body as CreateSubtaskInput;
+
+      const subtask = await SubtaskService.create(projectId, taskId, userId, title);
+
+      if (subtask === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Task or project not found, or you do not have permission',
+          },
+        });
+        return;
+      }
+
+      ActivityService.logAsync({
+        action: ActivityAction.SUBTASK_CREATED,
+        projectId,
+        userId,
+        taskId,
+        metadata: {
+          subtaskId: subtask.id,
+          subtaskTitle: subtask.title,
+        },
+      });
+
+      broadcastSubtaskCreated(projectId, toLiveSubtask(subtask), userId);
+
+      res.status(201).json({
+        success: true,
+        data: { subtask },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /projects/:projectId/tasks/:taskId/subtasks/:subtaskId
+   * Rename, toggle, or reorder a subtask
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { projectId, taskId, subtaskId } = req.params as unknown as SubtaskIdParams;
+      const data = req.body as UpdateSubtaskInput;
+
+      const subtask = await SubtaskService.update(projectId, taskId, subtaskId, userId, data);
+
+      if (subtask === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Subtask not found or you do not have permission to edit it',
+          },
+        });
+        return;
+      }
+
+      // Only completion changes are worth an activity entry
+      if (data.completed !== undefined) {
+        ActivityService.logAsync({
+          action: data.completed
+            ? ActivityAction.SUBTASK_COMPLETED
+            : ActivityAction.SUBTASK_REOPENED,
+          projectId,
+          userId,
+          taskId,
+          metadata: {
+            subtaskId: subtask.id,
+            subtaskTitle: subtask.title,
+          },
+        });
+      }
+
+      broadcastSubtaskUpdated(projectId, toLiveSubtask(subtask), userId);
+
+      res.json({
+        success: true,
+        data: { subtask },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /projects/:projectId/tasks/:taskId/subtasks/:subtaskId
+   * Delete a subtask
+   */
+  static async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { projectId, taskId, subtaskId } = req.params as unknown as SubtaskIdParams;
+
+      const subtask = await SubtaskService.delete(projectId, taskId, subtaskId, userId);
+
+      if (subtask === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Subtask not found or you do not have permission to delete it',
+          },
+        });
+        return;
+      }
+
+      ActivityService.logAsync({
+        action: ActivityAction.SUBTASK_DELETED,
+        projectId,
+        userId,
+        taskId,
+        metadata: {
+          subtaskId,
+          subtaskTitle: subtask.title,
+        },
+      });
+
+      broadcastSubtaskDeleted(projectId, subtaskId, taskId, userId);
+
+      res.json({
+        success: true,
+        data: { message: 'Subtask deleted successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default SubtaskController;
@@ -1,6 +1,11 @@
 import type { Request, Response, NextFunction } from 'express';
 import { TaskService } from '../services/task.service.js';
 import { ActivityService, ActivityAction } from '../services/activity.service.js';
+import {
+  ColumnService,
+  WipLimitExceededError,
+  type WipLimitStatus,
+} from '../services/column.service.js';
 import type {
   CreateTaskInput,
   UpdateTaskInput,
@@ -9,6 +14,7 @@ import type {
   BulkDeleteInput,
   ListTasksQuery,
   GlobalTasksQuery,
+  QueryTasksInput,
 } from '../validators/task.validator.js';
 import {
   broadcastTaskCreated,
@@ -18,6 +24,7 @@ import {
   broadcastTaskReordered,
 } from '../sockets/broadcast.js';
 import type { LiveTask } from '../types/presence.js';
+import { VersionConflictError, toVersionConflictError } from '../utils/concurrency.js';
 
 /**
  * Convert a task from the service to LiveTask format for broadcasting.
@@ -33,6 +40,34 @@ function toSerializableTask(task: Record<string, unknown>): LiveTask {
   } as LiveTask;
 }
 
+/**
+ * Build the structured WIP limit payload used for both 409 errors and warnings.
+ */
+function toWipLimitError(status: WipLimitStatus, message: string) {
+  return {
+    code: 'WIP_LIMIT_EXCEEDED',
+    message,
+    details: {
+      columnId: status.columnId,
+      columnName: status.columnName,
+      limit: status.limit,
+      count: status.count,
+    },
+  };
+}
+
+/**
+ * Get the over-limit warning for a column in WARN mode, if any.
+ */
+async function getWipLimitWarning(columnId: string) {
+  const status = await ColumnService.getWipLimitWarning(columnId);
+  if (!status) return undefined;
+  return toWipLimitError(
+    status,
+    `Column "${status.columnName}" is over its WIP limit (${status.count}/${status.limit})`
+  );
+}
+
 export class TaskController {
   // ============ GLOBAL TASK ROUTES ============
 
@@ -102,6 +137,48 @@ export class TaskController {
     }
   }
 
+  /**
+   * POST /projects/:projectId/tasks/query
+   * Query project tasks with a structured filter, sort and cursor pagination
+   */
+  static async queryByProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const query = req.body as QueryTasksInput;
+
+      const result = await TaskService.queryProjectTasks(projectId, userId, query);
+
+      if (result === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROJECT_NOT_FOUND',
+            message: 'Project not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Invalid query')) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_QUERY',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
   /**
    * POST /projects/:projectId/tasks
    * Create a new task in a project (columnId in body)
@@ -153,11 +230,20 @@ export class TaskController {
         });
       }
 
+      const warning = await getWipLimitWarning(task.columnId);
+
       res.status(201).json({
         success: true,
-        data: { task },
+        data: { task, ...(warning && { warning }) },
       });
     } catch (error) {
+      if (error instanceof WipLimitExceededError) {
+        res.status(409).json({
+          success: false,
+          error: toWipLimitError(error.status, error.message),
+        });
+        return;
+      }
       next(error);
     }
   }
@@ -271,11 +357,20 @@ export class TaskController {
         });
       }
 
+      const warning = await getWipLimitWarning(task.columnId);
+
       res.status(201).json({
         success: true,
-        data: { task },
+        data: { task, ...(warning && { warning }) },
       });
     } catch (error) {
+      if (error instanceof WipLimitExceededError) {
+        res.status(409).json({
+          success: false,
+          error: toWipLimitError(error.status, error.message),
+        });
+        return;
+      }
       next(error);
     }
   }
@@ -290,6 +385,8 @@ export class TaskController {
       const taskId = req.params.taskId as string;
       const data = req.body as UpdateTaskInput;
 
+      const { version: _version, ...changes } = data;
+
       const task = await TaskService.updateTask(taskId, userId, data);
 
       if (!task) {
@@ -315,8 +412,8 @@ export class TaskController {
           taskId: task.id,
           metadata: {
             taskTitle: task.title,
-            changes: Object.keys(data).reduce((acc, key) => {
-              acc[key] = { to: data[key as keyof typeof data] };
+            changes: Object.keys(changes).reduce((acc, key) => {
+              acc[key] = { to: changes[key as keyof typeof changes] };
               return acc;
             }, {} as Record<string, { to: unknown }>),
           },
@@ -328,6 +425,23 @@ export class TaskController {
         data: { task },
       });
     } catch (error) {
+      if (error instanceof VersionConflictError) {
+        res.status(409).json({
+          success: false,
+          error: toVersionConflictError(error),
+        });
+        return;
+      }
+      if (error instanceof Error && error.message.includes('subtask')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'SUBTASKS_INCOMPLETE',
+            message: error.message,
+          },
+        });
+        return;
+      }
       next(error);
     }
   }
@@ -462,6 +576,7 @@ export class TaskController {
               toColumnId: data.targetColumnId,
               order: task.order,
               projectId: task.column.projectId,
+              version: task.version,
             },
             userId
           );
@@ -507,11 +622,43 @@ export class TaskController {
         }
       }
 
+      const warning =
+        fromColumnId !== data.targetColumnId
+          ? await getWipLimitWarning(data.targetColumnId)
+          : undefined;
+
       res.json({
         success: true,
-        data: { task },
+        data: { task, ...(warning && { warning }) },
       });
     } catch (error) {
+      if (error instanceof WipLimitExceededError) {
+        res.status(409).json({
+          success: false,
+          error: toWipLimitError(error.status, error.message),
+        });
+        return;
+      }
+      if (error instanceof Error && error.message.includes('subtask')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'SUBTASKS_INCOMPLETE',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      if (error instanceof Error && error.message.includes('blocked')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'TASK_BLOCKED',
+            message: error.message,
+          },
+        });
+        return;
+      }
       next(error);
     }
   }
@@ -0,0 +1,219 @@
+import type { Request, Response, NextFunction } from 'express';
+import { TrashService } from '../services/trash.service.js';
+import { ActivityService, ActivityAction } from '../services/activity.service.js';
+import { broadcastTaskCreated, broadcastProjectRestored } from '../sockets/broadcast.js';
+import type { LiveTask } from '../types/presence.js';
+
+const TASK_NOT_FOUND_RESPONSE = {
+  success: false,
+  error: {
+    code: 'TASK_NOT_FOUND',
+    message: 'Task not found in trash or you do not have permission',
+  },
+};
+
+const PROJECT_NOT_FOUND_RESPONSE = {
+  success: false,
+  error: {
+    code: 'PROJECT_NOT_FOUND',
+    message: 'Project not found in trash or you are not its owner',
+  },
+};
+
+/**
+ * Convert a task with Date fields to its broadcast form
+ */
+function toSerializableTask(task: Record<string, unknown>): LiveTask {
+  return {
+    ...task,
+    dueDate: task.dueDate ? (task.dueDate as Date).toISOString() : null,
+    createdAt: (task.createdAt as Date).toISOString(),
+    updatedAt: (task.updatedAt as Date).toISOString(),
+    deletedAt: task.deletedAt ? (task.deletedAt as Date).toISOString() : null,
+  } as LiveTask;
+}
+
+export class TrashController {
+  // ============ TASK TRASH ============
+
+  /**
+   * GET /projects/:projectId/trash
+   * List the project's deleted tasks
+   */
+  static async listTasks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const tasks = await TrashService.getProjectTrash(projectId, userId);
+
+      if (tasks === null) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROJECT_NOT_FOUND',
+            message: 'Project not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { tasks },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /projects/:projectId/trash/tasks/:taskId/restore
+   * Restore a deleted task to its column
+   */
+  static async restoreTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const taskId = req.params.taskId as string;
+
+      const task = await TrashService.restoreTask(projectId, taskId, userId);
+
+      if (!task) {
+        res.status(404).json(TASK_NOT_FOUND_RESPONSE);
+        return;
+      }
+
+      // The task reappears on everyone's board like a newly created one
+      broadcastTaskCreated(projectId, toSerializableTask(task), userId);
+
+      ActivityService.logAsync({
+        action: ActivityAction.TASK_RESTORED,
+        projectId,
+        userId,
+        taskId: task.id,
+        metadata: {
+          taskTitle: task.title,
+          columnName: task.column?.name,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Task restored successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /projects/:projectId/trash/tasks/:taskId
+   * Permanently delete a task
+   */
+  static async purgeTask(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+      const taskId = req.params.taskId as string;
+
+      const purged = await TrashService.purgeTask(projectId, taskId, userId);
+
+      if (!purged) {
+        res.status(404).json(TASK_NOT_FOUND_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Task permanently deleted' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ============ PROJECT TRASH ============
+
+  /**
+   * GET /trash/projects
+   * List the deleted projects owned by the user
+   */
+  static async listProjects(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const projects = await TrashService.getDeletedProjects(userId);
+
+      res.json({
+        success: true,
+        data: { projects },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /trash/projects/:projectId/restore
+   * Restore a deleted project (owner only)
+   */
+  static async restoreProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const project = await TrashService.restoreProject(projectId, userId);
+
+      if (!project) {
+        res.status(404).json(PROJECT_NOT_FOUND_RESPONSE);
+        return;
+      }
+
+      broadcastProjectRestored(project.id, project.memberIds, userId);
+
+      ActivityService.logAsync({
+        action: ActivityAction.PROJECT_RESTORED,
+        projectId: project.id,
+        userId,
+        metadata: {
+          projectName: project.name,
+        },
+      });
+
+      res.json({
+        success: true,
+        data: { message: 'Project restored successfully' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /trash/projects/:projectId
+   * Permanently delete a project (owner only)
+   */
+  static async purgeProject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const projectId = req.params.projectId as string;
+
+      const purged = await TrashService.purgeProject(projectId, userId);
+
+      if (!purged) {
+        res.status(404).json(PROJECT_NOT_FOUND_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Project permanently deleted' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default TrashController;
@@ -0,0 +1,353 @@
+import type { Request, Response, NextFunction } from 'express';
+import { WorkspaceService } from '../services/workspace.service.js';
+import type {
+  CreateWorkspaceInput,
+  UpdateWorkspaceInput,
+  AddWorkspaceMemberInput,
+  UpdateWorkspaceMemberRoleInput,
+} from '../validators/workspace.validator.js';
+
+const WORKSPACE_NOT_FOUND_RESPONSE = {
+  success: false,
+  error: {
+    code: 'WORKSPACE_NOT_FOUND',
+    message: 'Workspace not found or you do not have access',
+  },
+};
+
+export class WorkspaceController {
+  // ============ WORKSPACE CRUD ============
+
+  /**
+   * GET /workspaces
+   * List the workspaces the authenticated user belongs to
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+
+      const workspaces = await WorkspaceService.getUserWorkspaces(userId);
+
+      res.json({
+        success: true,
+        data: { workspaces },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /workspaces/:workspaceId
+   * Get a single workspace
+   */
+  static async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+
+      const workspace = await WorkspaceService.getWorkspaceById(workspaceId, userId);
+
+      if (!workspace) {
+        res.status(404).json(WORKSPACE_NOT_FOUND_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { workspace },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workspaces
+   * Create a new workspace
+   */
+  static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const data = req.body as CreateWorkspaceInput;
+
+      const workspace = await WorkspaceService.createWorkspace(userId, data);
+
+      res.status(201).json({
+        success: true,
+        data: { workspace },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /workspaces/:workspaceId
+   * Rename a workspace
+   */
+  static async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const data = req.body as UpdateWorkspaceInput;
+
+      const workspace = await WorkspaceService.updateWorkspace(workspaceId, userId, data);
+
+      if (!workspace) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to update this workspace',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { workspace },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /workspaces/:workspaceId
+   * Delete a workspace (owner only, once its projects are gone)
+   */
+  static async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+
+      const success = await WorkspaceService.deleteWorkspace(workspaceId, userId);
+
+      if (!success) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the workspace owner can delete the workspace',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Workspace deleted successfully' },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('projects')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'WORKSPACE_NOT_EMPTY',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  // ============ MEMBER DIRECTORY ============
+
+  /**
+   * GET /workspaces/:workspaceId/members
+   * Get the workspace member directory
+   */
+  static async listMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+
+      const members = await WorkspaceService.getMembers(workspaceId, userId);
+
+      if (members === null) {
+        res.status(404).json(WORKSPACE_NOT_FOUND_RESPONSE);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { members },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workspaces/:workspaceId/members
+   * Add a member to the workspace
+   */
+  static async addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const data = req.body as AddWorkspaceMemberInput;
+
+      const member = await WorkspaceService.addMember(workspaceId, userId, data);
+
+      if (!member) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to add members to this workspace',
+          },
+        });
+        return;
+      }
+
+      res.status(201).json({
+        success: true,
+        data: { member },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('not found')) {
+          res.status(404).json({
+            success: false,
+            error: {
+              code: 'USER_NOT_FOUND',
+              message: error.message,
+            },
+          });
+          return;
+        }
+        if (error.message.includes('already a member')) {
+          res.status(409).json({
+            success: false,
+            error: {
+              code: 'ALREADY_MEMBER',
+              message: error.message,
+            },
+          });
+          return;
+        }
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /workspaces/:workspaceId/members/:userId
+   * Update a member's workspace role
+   */
+  static async updateMemberRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const requesterId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const targetUserId = req.params.userId as string;
+      const { role } = req.body as UpdateWorkspaceMemberRoleInput;
+
+      const member = await WorkspaceService.updateMemberRole(
+        workspaceId,
+        requesterId,
+        targetUserId,
+        role
+      );
+
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'MEMBER_NOT_FOUND',
+            message: 'This user is not a member of the workspace',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { member },
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('permission')) {
+          res.status(403).json({
+            success: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: error.message,
+            },
+          });
+          return;
+        }
+        if (error.message.includes('owner')) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_OPERATION',
+              message: error.message,
+            },
+          });
+          return;
+        }
+        if (error.message.includes('OWNER role')) {
+          res.status(400).json({
+            success: false,
+            error: {
+              code: 'INVALID_ROLE',
+              message: error.message,
+            },
+          });
+          return;
+        }
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /workspaces/:workspaceId/members/:userId
+   * Remove a member from the workspace and its projects
+   */
+  static async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const requesterId = req.user!.id;
+      const workspaceId = req.params.workspaceId as string;
+      const targetUserId = req.params.userId as string;
+
+      const success = await WorkspaceService.removeMember(workspaceId, requesterId, targetUserId);
+
+      if (!success) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message:
+              'Cannot remove this member. Either you lack permission or the member is the workspace owner.',
+          },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: { message: 'Member removed successfully' },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('owns projects')) {
+        res.status(409).json({
+          success: false,
+          error: {
+            code: 'MEMBER_OWNS_PROJECTS',
+            message: error.message,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+}
+
+export default WorkspaceController;
@@ -1,10 +1,14 @@
 import { createServer } from 'http';
 import app from './app.js';
-import { initializeSocket } from './sockets/index.js';
+import { initializeSocket, closeSocket } from './sockets/index.js';
 import { prisma } from './config/database.js';
 import { redis } from './config/redis.js';
 import { env } from './config/env.js';
 import { logger, dbLogger, redisLogger } from './config/logger.js';
+import { startRecurrenceJob, stopRecurrenceJob } from './jobs/recurrence.job.js';
+import { startDueDateJob, stopDueDateJob } from './jobs/due-date.job.js';
+import { startDigestJob, stopDigestJob } from './jobs/digest.job.js';
+import { startTrashRetentionJob, stopTrashRetentionJob } from './jobs/trash-retention.job.js';
 
 const PORT = env.PORT;
 
@@ -28,6 +32,12 @@ async function start() {
       logger.info({ url: `http://localhost:${PORT}/api/v1` }, 'API available');
       logger.info({ url: `http://localhost:${PORT}/health` }, 'Health check available');
     });
+
+    // Background jobs
+    startRecurrenceJob();
+    startDueDateJob();
+    startDigestJob();
+    startTrashRetentionJob();
   } catch (error) {
     logger.fatal({ err: error }, 'Failed to start server');
     process.exit(1);
@@ -37,6 +47,11 @@ async function start() {
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
+  stopRecurrenceJob();
+  stopDueDateJob();
+  stopDigestJob();
+  stopTrashRetentionJob();
+  await closeSocket();
   await prisma.$disconnect();
   await redis.quit();
   server.close(() => {
@@ -0,0 +1,66 @@
+/**
+ * Digest Job
+ *
+ * Periodically emails hourly and daily notification digests that have fallen due.
+ */
+
+import { redis } from '../config/redis.js';
+import { jobLogger } from '../config/logger.js';
+import { NotificationEmailService } from '../services/notification-email.service.js';
+
+const INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const LOCK_KEY = 'jobs:digest:lock';
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Run a single pass of the job.
+ * A Redis lock keeps multiple server instances from sending the same digests.
+ */
+export async function runDigestJob(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  let hasLock = false;
+  try {
+    hasLock = (await redis.set(LOCK_KEY, '1', 'PX', INTERVAL_MS, 'NX')) === 'OK';
+    if (!hasLock) return;
+
+    const count = await NotificationEmailService.processDigests();
+
+    if (count > 0) {
+      jobLogger.info({ count }, 'Sent notification digests');
+    }
+  } catch (error) {
+    jobLogger.error({ err: error }, 'Digest job failed');
+  } finally {
+    if (hasLock) {
+      await redis.del(LOCK_KEY).catch(() => undefined);
+    }
+    isRunning = false;
+  }
+}
+
+/**
+ * Start running the job on an interval
+ */
+export function startDigestJob(): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    void runDigestJob();
+  }, INTERVAL_MS);
+
+  void runDigestJob();
+  jobLogger.info({ intervalMs: INTERVAL_MS }, 'Digest job started');
+}
+
+/**
+ * Stop the job (used on shutdown)
+ */
+export function stopDigestJob(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
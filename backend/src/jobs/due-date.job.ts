@@ -0,0 +1,67 @@
+/**
+ * Due Date Job
+ *
+ * Periodically reminds assignees about tasks that are due soon and escalates
+ * tasks that have become overdue.
+ */
+
+import { redis } from '../config/redis.js';
+import { jobLogger } from '../config/logger.js';
+import { DueDateReminderService } from '../services/due-date-reminder.service.js';
+
+const INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+const LOCK_KEY = 'jobs:due-date:lock';
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Run a single pass of the job.
+ * A Redis lock keeps multiple server instances from sending the same reminders.
+ */
+export async function runDueDateJob(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  let hasLock = false;
+  try {
+    hasLock = (await redis.set(LOCK_KEY, '1', 'PX', INTERVAL_MS, 'NX')) === 'OK';
+    if (!hasLock) return;
+
+    const { reminders, overdue } = await DueDateReminderService.run();
+
+    if (reminders > 0 || overdue > 0) {
+      jobLogger.info({ reminders, overdue }, 'Sent due date reminders');
+    }
+  } catch (error) {
+    jobLogger.error({ err: error }, 'Due date job failed');
+  } finally {
+    if (hasLock) {
+      await redis.del(LOCK_KEY).catch(() => undefined);
+    }
+    isRunning = false;
+  }
+}
+
+/**
+ * Start running the job on an interval
+ */
+export function startDueDateJob(): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    void runDueDateJob();
+  }, INTERVAL_MS);
+
+  void runDueDateJob();
+  jobLogger.info({ intervalMs: INTERVAL_MS }, 'Due date job started');
+}
+
+/**
+ * Stop the job (used on shutdown)
+ */
+export function stopDueDateJob(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
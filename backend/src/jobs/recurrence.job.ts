@@ -0,0 +1,89 @@
+/**
+ * Recurrence Job
+ *
+ * Periodically spawns the next occurrence of recurring tasks that were
+ * completed or went past their due date, and broadcasts them to the board.
+ */
+
+import { redis } from '../config/redis.js';
+import { jobLogger } from '../config/logger.js';
+import { RecurrenceService, type SpawnedOccurrence } from '../services/recurrence.service.js';
+import { broadcastTaskCreated } from '../sockets/broadcast.js';
+import type { LiveTask } from '../types/presence.js';
+
+const INTERVAL_MS = 60 * 1000; // 1 minute
+const LOCK_KEY = 'jobs:recurrence:lock';
+
+// Broadcasts from the job are not made by any user, so no client skips them
+const SYSTEM_USER_ID = 'system';
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Convert a spawned task to LiveTask format for broadcasting.
+ */
+function toLiveTask({ task }: SpawnedOccurrence): LiveTask {
+  return {
+    ...task,
+    dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+    createdAt: task.createdAt.toISOString(),
+    updatedAt: task.updatedAt.toISOString(),
+    deletedAt: task.deletedAt ? task.deletedAt.toISOString() : null,
+  } as LiveTask;
+}
+
+/**
+ * Run a single pass of the job.
+ * A Redis lock keeps multiple server instances from processing the same batch.
+ */
+export async function runRecurrenceJob(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  let hasLock = false;
+  try {
+    hasLock = (await redis.set(LOCK_KEY, '1', 'PX', INTERVAL_MS, 'NX')) === 'OK';
+    if (!hasLock) return;
+
+    const spawned = await RecurrenceService.processDueTasks();
+
+    for (const occurrence of spawned) {
+      broadcastTaskCreated(occurrence.projectId, toLiveTask(occurrence), SYSTEM_USER_ID);
+    }
+
+    if (spawned.length > 0) {
+      jobLogger.info({ count: spawned.length }, 'Spawned recurring task occurrences');
+    }
+  } catch (error) {
+    jobLogger.error({ err: error }, 'Recurrence job failed');
+  } finally {
+    if (hasLock) {
+      await redis.del(LOCK_KEY).catch(() => undefined);
+    }
+    isRunning = false;
+  }
+}
+
+/**
+ * Start running the job on an interval
+ */
+export function startRecurrenceJob(): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    void runRecurrenceJob();
+  }, INTERVAL_MS);
+
+  void runRecurrenceJob();
+  jobLogger.info({ intervalMs: INTERVAL_MS }, 'Recurrence job started');
+}
+
+/**
+ * Stop the job (used on shutdown)
+ */
+export function stopRecurrenceJob(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
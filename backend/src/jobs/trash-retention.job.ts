@@ -0,0 +1,67 @@
+/**
+ * Trash Retention Job
+ *
+ * Periodically purges tasks and projects that have been in the trash longer
+ * than TRASH_RETENTION_DAYS.
+ */
+
+import { redis } from '../config/redis.js';
+import { jobLogger } from '../config/logger.js';
+import { TrashService } from '../services/trash.service.js';
+
+const INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const LOCK_KEY = 'jobs:trash-retention:lock';
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Run a single pass of the job.
+ * A Redis lock keeps multiple server instances from purging at the same time.
+ */
+export async function runTrashRetentionJob(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  let hasLock = false;
+  try {
+    hasLock = (await redis.set(LOCK_KEY, '1', 'PX', INTERVAL_MS, 'NX')) === 'OK';
+    if (!hasLock) return;
+
+    const { tasks, projects } = await TrashService.purgeExpired();
+
+    if (tasks > 0 || projects > 0) {
+      jobLogger.info({ tasks, projects }, 'Purged expired trash');
+    }
+  } catch (error) {
+    jobLogger.error({ err: error }, 'Trash retention job failed');
+  } finally {
+    if (hasLock) {
+      await redis.del(LOCK_KEY).catch(() => undefined);
+    }
+    isRunning = false;
+  }
+}
+
+/**
+ * Start running the job on an interval
+ */
+export function startTrashRetentionJob(): void {
+  if (timer) return;
+
+  timer = setInterval(() => {
+    void runTrashRetentionJob();
+  }, INTERVAL_MS);
+
+  void runTrashRetentionJob();
+  jobLogger.info({ intervalMs: INTERVAL_MS }, 'Trash retention job started');
+}
+
+/**
+ * Stop the job (used on shutdown)
+ */
+export function stopTrashRetentionJob(): void {
+  if (!timer) return;
+  clearInterval(timer);
+  timer = null;
+}
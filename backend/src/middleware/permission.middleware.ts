@@ -0,0 +1,133 @@
+import type { Request, Response, NextFunction } from 'express';
+import { prisma } from '../config/database.js';
+import { ProjectService } from '../services/project.service.js';
+import { WorkspaceService } from '../services/workspace.service.js';
+import {
+  allowedWhenArchived,
+  roleHasPermission,
+  workspaceRoleHasPermission,
+  type PermissionType,
+  type WorkspacePermissionType,
+} from '../config/permissions.js';
+
+/**
+ * Find the project a request targets from its route params
+ */
+async function resolveProjectId(req: Request): Promise<string | null> {
+  const { projectId, columnId, taskId } = req.params as Record<string, string | undefined>;
+
+  if (projectId) {
+    return projectId;
+  }
+
+  if (columnId) {
+    const column = await prisma.column.findUnique({
+      where: { id: columnId },
+      select: { projectId: true },
+    });
+    return column?.projectId ?? null;
+  }
+
+  if (taskId) {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { column: { select: { projectId: true } } },
+    });
+    return task?.column.projectId ?? null;
+  }
+
+  return null;
+}
+
+// Require the signed-in user's project role to grant a permission.
+// Runs after authenticate and validate; requests whose column or task does not
+// exist fall through so the controller can answer with its own 404.
+export const requirePermission = (permission: PermissionType) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const projectId = await resolveProjectId(req);
+      if (!projectId) {
+        next();
+        return;
+      }
+
+      const role = await ProjectService.getUserRole(projectId, req.user!.id);
+
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'PROJECT_NOT_FOUND',
+            message: 'Project not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      if (!roleHasPermission(role, permission)) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to perform this action',
+          },
+        });
+        return;
+      }
+
+      if (!allowedWhenArchived(permission) && (await ProjectService.isArchived(projectId))) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'PROJECT_ARCHIVED',
+            message: 'This project is archived. Unarchive it to make changes.',
+          },
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Require the signed-in user's workspace role to grant a permission.
+// Routes using it always carry :workspaceId.
+export const requireWorkspacePermission = (permission: WorkspacePermissionType) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const workspaceId = req.params.workspaceId as string;
+      const role = await WorkspaceService.getUserRole(workspaceId, req.user!.id);
+
+      if (!role) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'WORKSPACE_NOT_FOUND',
+            message: 'Workspace not found or you do not have access',
+          },
+        });
+        return;
+      }
+
+      if (!workspaceRoleHasPermission(role, permission)) {
+        res.status(403).json({
+          success: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to perform this action',
+          },
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export default requirePermission;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { ActivityController } from '../controllers/activity.controller.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 import {
   listProjectActivitiesSchema,
   listTaskActivitiesSchema,
@@ -32,6 +34,7 @@ router.get('/activities/me', validate(listUserActivitiesSchema), ActivityControl
 router.get(
   '/projects/:projectId/activities',
   validate(listProjectActivitiesSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   ActivityController.listByProject
 );
 
@@ -45,6 +48,7 @@ router.get(
 router.get(
   '/projects/:projectId/tasks/:taskId/activities',
   validate(listTaskActivitiesSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   ActivityController.listByTask
 );
 
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { AssigneeController } from '../controllers/assignee.controller.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 import {
   getAssigneesSchema,
   addAssigneeSchema,
@@ -24,6 +26,7 @@ router.use(authenticate);
 router.get(
   '/projects/:projectId/members/assignable',
   validate(z.object({ params: z.object({ projectId: z.string().min(1) }) })),
+  requirePermission(Permission.PROJECT_VIEW),
   AssigneeController.getAvailable
 );
 
@@ -36,6 +39,7 @@ router.get(
 router.get(
   '/projects/:projectId/tasks/:taskId/assignees',
   validate(getAssigneesSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   AssigneeController.list
 );
 
@@ -46,6 +50,7 @@ router.get(
 router.post(
   '/projects/:projectId/tasks/:taskId/assignees',
   validate(addAssigneeSchema),
+  requirePermission(Permission.TASK_UPDATE),
   AssigneeController.add
 );
 
@@ -56,6 +61,7 @@ router.post(
 router.put(
   '/projects/:projectId/tasks/:taskId/assignees',
   validate(setAssigneesSchema),
+  requirePermission(Permission.TASK_UPDATE),
   AssigneeController.set
 );
 
@@ -66,6 +72,7 @@ router.put(
 router.delete(
   '/projects/:projectId/tasks/:taskId/assignees/:userId',
   validate(removeAssigneeSchema),
+  requirePermission(Permission.TASK_UPDATE),
   AssigneeController.remove
 );
 
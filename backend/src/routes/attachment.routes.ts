@@ -3,6 +3,8 @@ import { AttachmentController } from '../controllers/attachment.controller.js';
 import { authenticate } from '../middleware/auth.middleware.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { uploadSingle } from '../middleware/upload.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 import {
   attachmentParamsSchema,
   attachmentIdParamsSchema,
@@ -26,6 +28,7 @@ router.get(
 router.get(
   '/projects/:projectId/tasks/:taskId/attachments',
   validate(attachmentParamsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   AttachmentController.list
 );
 
@@ -33,6 +36,7 @@ router.get(
 router.post(
   '/projects/:projectId/tasks/:taskId/attachments',
   validate(attachmentParamsSchema),
+  requirePermission(Permission.ATTACHMENT_UPLOAD),
   uploadSingle,
   AttachmentController.upload
 );
@@ -41,6 +45,7 @@ router.post(
 router.delete(
   '/projects/:projectId/attachments/:attachmentId',
   validate(attachmentIdParamsSchema),
+  requirePermission(Permission.ATTACHMENT_UPLOAD),
   AttachmentController.delete
 );
 
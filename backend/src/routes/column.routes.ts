@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { ColumnController } from '../controllers/column.controller.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 import {
   listColumnsSchema,
   createColumnSchema,
@@ -27,6 +29,7 @@ router.use(authenticate);
 router.get(
   '/projects/:projectId/columns',
   validate(listColumnsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   ColumnController.list
 );
 
@@ -37,6 +40,7 @@ router.get(
 router.post(
   '/projects/:projectId/columns',
   validate(createColumnSchema),
+  requirePermission(Permission.COLUMN_CREATE),
   ColumnController.create
 );
 
@@ -47,6 +51,7 @@ router.post(
 router.patch(
   '/projects/:projectId/columns/:columnId',
   validate(updateColumnSchema),
+  requirePermission(Permission.COLUMN_UPDATE),
   ColumnController.update
 );
 
@@ -58,6 +63,7 @@ router.patch(
 router.delete(
   '/projects/:projectId/columns/:columnId',
   validate(deleteColumnSchema),
+  requirePermission(Permission.COLUMN_DELETE),
   ColumnController.delete
 );
 
@@ -68,6 +74,7 @@ router.delete(
 router.patch(
   '/projects/:projectId/columns/:columnId/reorder',
   validate(reorderProjectColumnSchema),
+  requirePermission(Permission.COLUMN_UPDATE),
   ColumnController.reorderInProject
 );
 
@@ -78,20 +85,35 @@ router.patch(
  * GET /columns/:columnId
  * Get a single column by ID
  */
-router.get('/columns/:columnId', validate(deleteColumnSchema), ColumnController.get);
+router.get(
+  '/columns/:columnId',
+  validate(deleteColumnSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  ColumnController.get
+);
 
 /**
  * PATCH /columns/:columnId
  * Update a column (legacy route - prefer project-scoped version)
  */
-router.patch('/columns/:columnId', validate(updateColumnSchema), ColumnController.update);
+router.patch(
+  '/columns/:columnId',
+  validate(updateColumnSchema),
+  requirePermission(Permission.COLUMN_UPDATE),
+  ColumnController.update
+);
 
 /**
  * DELETE /columns/:columnId
  * Delete a column (legacy route - prefer project-scoped version)
  * Query: ?moveTasksTo=<columnId> to move tasks before deletion
  */
-router.delete('/columns/:columnId', validate(deleteColumnSchema), ColumnController.delete);
+router.delete(
+  '/columns/:columnId',
+  validate(deleteColumnSchema),
+  requirePermission(Permission.COLUMN_DELETE),
+  ColumnController.delete
+);
 
 /**
  * PATCH /columns/:columnId/reorder
@@ -100,6 +122,7 @@ router.delete('/columns/:columnId', validate(deleteColumnSchema), ColumnControll
 router.patch(
   '/columns/:columnId/reorder',
   validate(reorderColumnSchema),
+  requirePermission(Permission.COLUMN_UPDATE),
   ColumnController.reorder
 );
 
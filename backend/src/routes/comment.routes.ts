@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { CommentController } from '../controllers/comment.controller.js';
 import { authenticate } from '../middleware/auth.middleware.js';
 import { validate } from '../middleware/validate.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 import {
   commentParamsSchema,
   commentIdParamsSchema,
@@ -18,6 +20,7 @@ router.use(authenticate);
 router.get(
   '/projects/:projectId/tasks/:taskId/comments',
   validate(commentParamsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   CommentController.list
 );
 
@@ -25,6 +28,7 @@ router.get(
 router.post(
   '/projects/:projectId/tasks/:taskId/comments',
   validate(createCommentSchema),
+  requirePermission(Permission.COMMENT_CREATE),
   CommentController.create
 );
 
@@ -32,6 +36,7 @@ router.post(
 router.patch(
   '/projects/:projectId/comments/:commentId',
   validate(updateCommentSchema),
+  requirePermission(Permission.COMMENT_CREATE),
   CommentController.update
 );
 
@@ -39,6 +44,7 @@ router.patch(
 router.delete(
   '/projects/:projectId/comments/:commentId',
   validate(commentIdParamsSchema),
+  requirePermission(Permission.COMMENT_CREATE),
   CommentController.delete
 );
 
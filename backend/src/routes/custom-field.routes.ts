@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { CustomFieldController } from '../controllers/custom-field.controller.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
+import {
+  listCustomFieldsSchema,
+  createCustomFieldSchema,
+  updateCustomFieldSchema,
+  deleteCustomFieldSchema,
+  setCustomFieldValueSchema,
+} from '../validators/custom-field.validator.js';
+
+const router = Router();
+
+// All custom field routes require authentication
+router.use(authenticate);
+
+// ============ PROJECT FIELD ROUTES ============
+
+/**
+ * GET /projects/:projectId/custom-fields
+ * List all custom fields for a project
+ */
+router.get(
+  '/projects/:projectId/custom-fields',
+  validate(listCustomFieldsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  CustomFieldController.list
+);
+
+/**
+ * POST /projects/:projectId/custom-fields
+ * Create a new custom field
+ */
+router.post(
+  '/projects/:projectId/custom-fields',
+  validate(createCustomFieldSchema),
+  requirePermission(Permission.CUSTOM_FIELD_MANAGE),
+  CustomFieldController.create
+);
+
+/**
+ * PATCH /projects/:projectId/custom-fields/:fieldId
+ * Update a custom field
+ */
+router.patch(
+  '/projects/:projectId/custom-fields/:fieldId',
+  validate(updateCustomFieldSchema),
+  requirePermission(Permission.CUSTOM_FIELD_MANAGE),
+  CustomFieldController.update
+);
+
+/**
+ * DELETE /projects/:projectId/custom-fields/:fieldId
+ * Delete a custom field
+ */
+router.delete(
+  '/projects/:projectId/custom-fields/:fieldId',
+  validate(deleteCustomFieldSchema),
+  requirePermission(Permission.CUSTOM_FIELD_MANAGE),
+  CustomFieldController.delete
+);
+
+// ============ TASK VALUE ROUTES ============
+
+/**
+ * PUT /projects/:projectId/tasks/:taskId/custom-fields/:fieldId
+ * Set or clear a task's value for a field
+ */
+router.put(
+  '/projects/:projectId/tasks/:taskId/custom-fields/:fieldId',
+  validate(setCustomFieldValueSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  CustomFieldController.setTaskValue
+);
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { DependencyController } from '../controllers/dependency.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
+import {
+  dependencyParamsSchema,
+  dependencyIdParamsSchema,
+  addDependencySchema,
+} from '../validators/dependency.validator.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// GET /projects/:projectId/tasks/:taskId/dependencies - List blockers and blocked tasks
+router.get(
+  '/projects/:projectId/tasks/:taskId/dependencies',
+  validate(dependencyParamsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  DependencyController.list
+);
+
+// POST /projects/:projectId/tasks/:taskId/dependencies - Link two tasks
+router.post(
+  '/projects/:projectId/tasks/:taskId/dependencies',
+  validate(addDependencySchema),
+  requirePermission(Permission.TASK_UPDATE),
+  DependencyController.add
+);
+
+// DELETE /projects/:projectId/tasks/:taskId/dependencies/:otherTaskId - Unlink two tasks
+router.delete(
+  '/projects/:projectId/tasks/:taskId/dependencies/:otherTaskId',
+  validate(dependencyIdParamsSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  DependencyController.remove
+);
+
+export default router;
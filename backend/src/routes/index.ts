@@ -1,17 +1,27 @@
 import { Router, type Request, type Response } from 'express';
 import authRoutes from './auth.routes.js';
 import projectRoutes from './project.routes.js';
+import workspaceRoutes from './workspace.routes.js';
 import columnRoutes from './column.routes.js';
 import taskRoutes from './task.routes.js';
 import labelRoutes from './label.routes.js';
+import customFieldRoutes from './custom-field.routes.js';
+import savedViewRoutes from './saved-view.routes.js';
 import assigneeRoutes from './assignee.routes.js';
 import searchRoutes from './search.routes.js';
 import activityRoutes from './activity.routes.js';
 import attachmentRoutes from './attachment.routes.js';
 import commentRoutes from './comment.routes.js';
+import subtaskRoutes from './subtask.routes.js';
+import dependencyRoutes from './dependency.routes.js';
 import statsRoutes from './stats.routes.js';
 import reportsRoutes from './reports.routes.js';
 import userRoutes from './user.routes.js';
+import notificationRoutes from './notification.routes.js';
+import invitationRoutes from './invitation.routes.js';
+import joinRoutes from './join.routes.js';
+import trashRoutes from './trash.routes.js';
+import projectTemplateRoutes from './project-template.routes.js';
 
 const router = Router();
 
@@ -30,16 +40,28 @@ router.get('/', (_req: Request, res: Response) => {
 // Route modules
 router.use('/auth', authRoutes);
 router.use('/projects', projectRoutes);
+router.use('/workspaces', workspaceRoutes); // Workspace routes handle /workspaces and /workspaces/:workspaceId/members
+// Mounted before the '/' routers, which require authentication for every path they see,
+// so the public unsubscribe, invitation and join link endpoints stay reachable
+router.use('/notifications', notificationRoutes); // Notification routes handle /notifications, /notifications/unsubscribe
+router.use('/invitations', invitationRoutes); // Invitation routes handle /invitations/:token, /invitations/:token/accept
+router.use('/join', joinRoutes); // Join link routes handle /join/:token
 router.use('/', columnRoutes); // Column routes handle /projects/:projectId/columns and /columns/:columnId
 router.use('/', taskRoutes); // Task routes handle /columns/:columnId/tasks and /tasks/:taskId
-router.use('/', labelRoutes); // Label routes handle /projects/:projectId/labels and task labels
+router.use('/', labelRoutes); // Label routes handle /projects/:projectId/labels, /workspaces/:workspaceId/labels and task labels
+router.use('/', customFieldRoutes); // Custom field routes handle /projects/:projectId/custom-fields and task values
+router.use('/', savedViewRoutes); // Saved view routes handle /projects/:projectId/views
 router.use('/', assigneeRoutes); // Assignee routes handle /projects/:projectId/tasks/:taskId/assignees
 router.use('/search', searchRoutes); // Search routes handle /search?q=query
 router.use('/', activityRoutes); // Activity routes handle /activities/me, /projects/:projectId/activities
 router.use('/', attachmentRoutes); // Attachment routes handle /projects/:projectId/tasks/:taskId/attachments
 router.use('/', commentRoutes); // Comment routes handle /projects/:projectId/tasks/:taskId/comments
+router.use('/', subtaskRoutes); // Subtask routes handle /projects/:projectId/tasks/:taskId/subtasks
+router.use('/', dependencyRoutes); // Dependency routes handle /projects/:projectId/tasks/:taskId/dependencies
 router.use('/stats', statsRoutes); // Stats routes handle /stats/dashboard, /stats/projects/:projectId
 router.use('/', reportsRoutes); // Reports routes handle /projects/:projectId/reports/*
 router.use('/users', userRoutes); // User routes handle /users/me, /users/me/avatar, etc.
+router.use('/', trashRoutes); // Trash routes handle /projects/:projectId/trash and /trash/projects
+router.use('/', projectTemplateRoutes); // Template routes handle /workspaces/:workspaceId/templates and /projects/:projectId/templates, /duplicate
 
 export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { InvitationController } from '../controllers/invitation.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { invitationTokenSchema } from '../validators/invitation.validator.js';
+
+const router = Router();
+
+/**
+ * GET /invitations/:token
+ * Show an invitation before accepting it (no login required)
+ */
+router.get('/:token', validate(invitationTokenSchema), InvitationController.get);
+
+/**
+ * POST /invitations/:token/accept
+ * Join the project as the signed-in user
+ */
+router.post(
+  '/:token/accept',
+  authenticate,
+  validate(invitationTokenSchema),
+  InvitationController.accept
+);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { ProjectController } from '../controllers/project.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { inviteLinkTokenSchema } from '../validators/project.validator.js';
+
+const router = Router();
+
+/**
+ * GET /join/:token
+ * Show which project a join link is for (no login required)
+ */
+router.get('/:token', validate(inviteLinkTokenSchema), ProjectController.getInviteLink);
+
+/**
+ * POST /join/:token
+ * Join the project as the signed-in user
+ */
+router.post(
+  '/:token',
+  authenticate,
+  validate(inviteLinkTokenSchema),
+  ProjectController.joinViaInviteLink
+);
+
+export default router;
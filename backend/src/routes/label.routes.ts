@@ -2,6 +2,11 @@ import { Router } from 'express';
 import { LabelController } from '../controllers/label.controller.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import {
+  requirePermission,
+  requireWorkspacePermission,
+} from '../middleware/permission.middleware.js';
+import { Permission, WorkspacePermission } from '../config/permissions.js';
 import {
   listLabelsSchema,
   createLabelSchema,
@@ -11,6 +16,10 @@ import {
   addTaskLabelSchema,
   removeTaskLabelSchema,
   setTaskLabelsSchema,
+  listWorkspaceLabelsSchema,
+  createWorkspaceLabelSchema,
+  updateWorkspaceLabelSchema,
+  deleteWorkspaceLabelSchema,
 } from '../validators/label.validator.js';
 
 const router = Router();
@@ -27,6 +36,7 @@ router.use(authenticate);
 router.get(
   '/projects/:projectId/labels',
   validate(listLabelsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   LabelController.list
 );
 
@@ -37,6 +47,7 @@ router.get(
 router.post(
   '/projects/:projectId/labels',
   validate(createLabelSchema),
+  requirePermission(Permission.LABEL_CREATE),
   LabelController.create
 );
 
@@ -47,6 +58,7 @@ router.post(
 router.get(
   '/projects/:projectId/labels/:labelId',
   validate(getLabelSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   LabelController.get
 );
 
@@ -57,6 +69,7 @@ router.get(
 router.patch(
   '/projects/:projectId/labels/:labelId',
   validate(updateLabelSchema),
+  requirePermission(Permission.LABEL_UPDATE),
   LabelController.update
 );
 
@@ -67,9 +80,56 @@ router.patch(
 router.delete(
   '/projects/:projectId/labels/:labelId',
   validate(deleteLabelSchema),
+  requirePermission(Permission.LABEL_DELETE),
   LabelController.delete
 );
 
+// ============ WORKSPACE LABEL ROUTES ============
+
+/**
+ * GET /workspaces/:workspaceId/labels
+ * List labels shared by every project in a workspace
+ */
+router.get(
+  '/workspaces/:workspaceId/labels',
+  validate(listWorkspaceLabelsSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_VIEW),
+  LabelController.listWorkspace
+);
+
+/**
+ * POST /workspaces/:workspaceId/labels
+ * Create a workspace label
+ */
+router.post(
+  '/workspaces/:workspaceId/labels',
+  validate(createWorkspaceLabelSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_LABEL_MANAGE),
+  LabelController.createWorkspace
+);
+
+/**
+ * PATCH /workspaces/:workspaceId/labels/:labelId
+ * Update a workspace label
+ */
+router.patch(
+  '/workspaces/:workspaceId/labels/:labelId',
+  validate(updateWorkspaceLabelSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_LABEL_MANAGE),
+  LabelController.updateWorkspace
+);
+
+/**
+ * DELETE /workspaces/:workspaceId/labels/:labelId
+ * Delete a workspace label
+ */
+router.delete(
+  '/workspaces/:workspaceId/labels/:labelId',
+  validate(deleteWorkspaceLabelSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_LABEL_MANAGE),
+  LabelController.deleteWorkspace
+);
+
 // ============ TASK LABEL ROUTES ============
 
 /**
@@ -79,6 +139,7 @@ router.delete(
 router.get(
   '/projects/:projectId/tasks/:taskId/labels',
   validate(addTaskLabelSchema.pick({ params: true })),
+  requirePermission(Permission.PROJECT_VIEW),
   LabelController.getTaskLabels
 );
 
@@ -89,6 +150,7 @@ router.get(
 router.post(
   '/projects/:projectId/tasks/:taskId/labels',
   validate(addTaskLabelSchema),
+  requirePermission(Permission.TASK_UPDATE),
   LabelController.addToTask
 );
 
@@ -99,6 +161,7 @@ router.post(
 router.put(
   '/projects/:projectId/tasks/:taskId/labels',
   validate(setTaskLabelsSchema),
+  requirePermission(Permission.TASK_UPDATE),
   LabelController.setTaskLabels
 );
 
@@ -109,6 +172,7 @@ router.put(
 router.delete(
   '/projects/:projectId/tasks/:taskId/labels/:labelId',
   validate(removeTaskLabelSchema),
+  requirePermission(Permission.TASK_UPDATE),
   LabelController.removeFromTask
 );
 
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { NotificationController } from '../controllers/notification.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import {
+  listNotificationsSchema,
+  markNotificationReadSchema,
+  unsubscribeSchema,
+  updateNotificationPreferencesSchema,
+} from '../validators/notification.validator.js';
+
+const router = Router();
+
+/**
+ * POST /notifications/unsubscribe
+ * Turn off notification emails from an email link (no login required).
+ * Mail clients also POST here for one-click unsubscribe (RFC 8058).
+ * Query: ?token=...
+ */
+router.post('/unsubscribe', validate(unsubscribeSchema), NotificationController.unsubscribe);
+
+// All other routes require authentication
+router.use(authenticate);
+
+/**
+ * GET /notifications
+ * List the current user's notifications
+ * Query: ?limit=20&offset=0&unread=true
+ */
+router.get('/', validate(listNotificationsSchema), NotificationController.list);
+
+/**
+ * POST /notifications/read-all
+ * Mark all notifications as read
+ */
+router.post('/read-all', NotificationController.markAllRead);
+
+/**
+ * GET /notifications/preferences
+ * Get email preferences for each notification type
+ */
+router.get('/preferences', NotificationController.getPreferences);
+
+/**
+ * PUT /notifications/preferences
+ * Update email preferences
+ * Body: { preferences: [{ type, email }] }
+ */
+router.put(
+  '/preferences',
+  validate(updateNotificationPreferencesSchema),
+  NotificationController.updatePreferences
+);
+
+/**
+ * PATCH /notifications/:notificationId/read
+ * Mark a notification as read
+ */
+router.patch(
+  '/:notificationId/read',
+  validate(markNotificationReadSchema),
+  NotificationController.markRead
+);
+
+export default router;
@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { ProjectTemplateController } from '../controllers/project-template.controller.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import {
+  requirePermission,
+  requireWorkspacePermission,
+} from '../middleware/permission.middleware.js';
+import { Permission, WorkspacePermission } from '../config/permissions.js';
+import {
+  listTemplatesSchema,
+  deleteTemplateSchema,
+  saveAsTemplateSchema,
+  duplicateProjectSchema,
+} from '../validators/project-template.validator.js';
+
+const router = Router();
+
+// All project template routes require authentication
+router.use(authenticate);
+
+// ============ WORKSPACE TEMPLATE ROUTES ============
+
+/**
+ * GET /workspaces/:workspaceId/templates
+ * List the built-in templates and the workspace's saved templates
+ */
+router.get(
+  '/workspaces/:workspaceId/templates',
+  validate(listTemplatesSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_VIEW),
+  ProjectTemplateController.list
+);
+
+/**
+ * DELETE /workspaces/:workspaceId/templates/:templateId
+ * Delete a saved template (its creator or a workspace admin)
+ */
+router.delete(
+  '/workspaces/:workspaceId/templates/:templateId',
+  validate(deleteTemplateSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_VIEW),
+  ProjectTemplateController.delete
+);
+
+// ============ PROJECT ROUTES ============
+
+/**
+ * POST /projects/:projectId/templates
+ * Save a project as a template
+ */
+router.post(
+  '/projects/:projectId/templates',
+  validate(saveAsTemplateSchema),
+  requirePermission(Permission.PROJECT_UPDATE),
+  ProjectTemplateController.saveFromProject
+);
+
+/**
+ * POST /projects/:projectId/duplicate
+ * Duplicate a project
+ */
+router.post(
+  '/projects/:projectId/duplicate',
+  validate(duplicateProjectSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  ProjectTemplateController.duplicateProject
+);
+
+export default router;
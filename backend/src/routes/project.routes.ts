@@ -1,15 +1,26 @@
 import { Router } from 'express';
 import { ProjectController } from '../controllers/project.controller.js';
+import { InvitationController } from '../controllers/invitation.controller.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 import {
   createProjectSchema,
+  listProjectsSchema,
   updateProjectSchema,
   projectIdParamSchema,
   addMemberSchema,
   updateMemberRoleSchema,
   removeMemberSchema,
+  createInviteLinkSchema,
+  inviteLinkIdSchema,
 } from '../validators/project.validator.js';
+import {
+  listInvitationsSchema,
+  createInvitationSchema,
+  invitationIdSchema,
+} from '../validators/invitation.validator.js';
 
 const router = Router();
 
@@ -18,33 +29,84 @@ router.use(authenticate);
 
 // ============ PROJECT ROUTES ============
 
-// GET /projects - List all projects for user
-router.get('/', ProjectController.list);
+// GET /projects - List all projects for user (?workspaceId= to limit to one workspace,
+// ?archived=true for archived projects)
+router.get('/', validate(listProjectsSchema), ProjectController.list);
 
-// POST /projects - Create new project
+// POST /projects - Create new project (optionally from a template)
 router.post('/', validate(createProjectSchema), ProjectController.create);
 
 // GET /projects/:projectId - Get single project
-router.get('/:projectId', validate(projectIdParamSchema), ProjectController.get);
+router.get(
+  '/:projectId',
+  validate(projectIdParamSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  ProjectController.get
+);
+
+// GET /projects/:projectId/permissions - Get the current user's role and permissions
+router.get(
+  '/:projectId/permissions',
+  validate(projectIdParamSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  ProjectController.getPermissions
+);
 
 // PATCH /projects/:projectId - Update project
-router.patch('/:projectId', validate(updateProjectSchema), ProjectController.update);
+router.patch(
+  '/:projectId',
+  validate(updateProjectSchema),
+  requirePermission(Permission.PROJECT_UPDATE),
+  ProjectController.update
+);
 
 // DELETE /projects/:projectId - Delete project
-router.delete('/:projectId', validate(projectIdParamSchema), ProjectController.delete);
+router.delete(
+  '/:projectId',
+  validate(projectIdParamSchema),
+  requirePermission(Permission.PROJECT_DELETE),
+  ProjectController.delete
+);
+
+// POST /projects/:projectId/archive - Archive project (read-only until unarchived)
+router.post(
+  '/:projectId/archive',
+  validate(projectIdParamSchema),
+  requirePermission(Permission.PROJECT_ARCHIVE),
+  ProjectController.archive
+);
+
+// POST /projects/:projectId/unarchive - Unarchive project
+router.post(
+  '/:projectId/unarchive',
+  validate(projectIdParamSchema),
+  requirePermission(Permission.PROJECT_ARCHIVE),
+  ProjectController.unarchive
+);
 
 // ============ MEMBER ROUTES ============
 
 // GET /projects/:projectId/members - List project members
-router.get('/:projectId/members', validate(projectIdParamSchema), ProjectController.listMembers);
+router.get(
+  '/:projectId/members',
+  validate(projectIdParamSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  ProjectController.listMembers
+);
 
 // POST /projects/:projectId/members - Add member
-router.post('/:projectId/members', validate(addMemberSchema), ProjectController.addMember);
+router.post(
+  '/:projectId/members',
+  validate(addMemberSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  ProjectController.addMember
+);
 
 // PATCH /projects/:projectId/members/:userId - Update member role
 router.patch(
   '/:projectId/members/:userId',
   validate(updateMemberRoleSchema),
+  requirePermission(Permission.MEMBER_ROLE_CHANGE),
   ProjectController.updateMemberRole
 );
 
@@ -52,7 +114,68 @@ router.patch(
 router.delete(
   '/:projectId/members/:userId',
   validate(removeMemberSchema),
+  requirePermission(Permission.PROJECT_VIEW),
   ProjectController.removeMember
 );
 
+// ============ INVITATION ROUTES ============
+
+// GET /projects/:projectId/invitations - List pending invitations
+router.get(
+  '/:projectId/invitations',
+  validate(listInvitationsSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  InvitationController.list
+);
+
+// POST /projects/:projectId/invitations - Invite by email
+router.post(
+  '/:projectId/invitations',
+  validate(createInvitationSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  InvitationController.create
+);
+
+// POST /projects/:projectId/invitations/:invitationId/resend - Resend invitation email
+router.post(
+  '/:projectId/invitations/:invitationId/resend',
+  validate(invitationIdSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  InvitationController.resend
+);
+
+// DELETE /projects/:projectId/invitations/:invitationId - Revoke invitation
+router.delete(
+  '/:projectId/invitations/:invitationId',
+  validate(invitationIdSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  InvitationController.revoke
+);
+
+// ============ INVITE LINK ROUTES ============
+
+// GET /projects/:projectId/invite-links - List join links
+router.get(
+  '/:projectId/invite-links',
+  validate(projectIdParamSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  ProjectController.listInviteLinks
+);
+
+// POST /projects/:projectId/invite-links - Create join link
+router.post(
+  '/:projectId/invite-links',
+  validate(createInviteLinkSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  ProjectController.createInviteLink
+);
+
+// DELETE /projects/:projectId/invite-links/:linkId - Revoke join link
+router.delete(
+  '/:projectId/invite-links/:linkId',
+  validate(inviteLinkIdSchema),
+  requirePermission(Permission.MEMBER_INVITE),
+  ProjectController.revokeInviteLink
+);
+
 export default router;
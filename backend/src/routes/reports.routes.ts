@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { ReportsController } from '../controllers/reports.controller.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 
 const router = Router();
 
@@ -10,30 +12,42 @@ router.use(authenticate);
 // GET /projects/:projectId/reports/tasks-over-time - Tasks created/completed over time
 router.get(
   '/projects/:projectId/reports/tasks-over-time',
+  requirePermission(Permission.PROJECT_VIEW),
   ReportsController.getTasksOverTime
 );
 
 // GET /projects/:projectId/reports/tasks-by-status - Tasks by status (column)
 router.get(
   '/projects/:projectId/reports/tasks-by-status',
+  requirePermission(Permission.PROJECT_VIEW),
   ReportsController.getTasksByStatus
 );
 
 // GET /projects/:projectId/reports/tasks-by-assignee - Tasks by assignee
 router.get(
   '/projects/:projectId/reports/tasks-by-assignee',
+  requirePermission(Permission.PROJECT_VIEW),
   ReportsController.getTasksByAssignee
 );
 
 // GET /projects/:projectId/reports/tasks-by-priority - Tasks by priority
 router.get(
   '/projects/:projectId/reports/tasks-by-priority',
+  requirePermission(Permission.PROJECT_VIEW),
   ReportsController.getTasksByPriority
 );
 
+// GET /projects/:projectId/reports/custom-fields/:fieldId - Custom field totals by status
+router.get(
+  '/projects/:projectId/reports/custom-fields/:fieldId',
+  requirePermission(Permission.PROJECT_VIEW),
+  ReportsController.getCustomFieldByStatus
+);
+
 // GET /projects/:projectId/reports/completion-metrics - Completion metrics
 router.get(
   '/projects/:projectId/reports/completion-metrics',
+  requirePermission(Permission.PROJECT_VIEW),
   ReportsController.getCompletionMetrics
 );
 
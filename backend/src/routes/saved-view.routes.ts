@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { SavedViewController } from '../controllers/saved-view.controller.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
+import {
+  listSavedViewsSchema,
+  createSavedViewSchema,
+  updateSavedViewSchema,
+  deleteSavedViewSchema,
+} from '../validators/saved-view.validator.js';
+
+const router = Router();
+
+// All saved view routes require authentication
+router.use(authenticate);
+
+/**
+ * GET /projects/:projectId/views
+ * List the user's views and views shared with the project
+ */
+router.get(
+  '/projects/:projectId/views',
+  validate(listSavedViewsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  SavedViewController.list
+);
+
+/**
+ * POST /projects/:projectId/views
+ * Save a new view
+ */
+router.post(
+  '/projects/:projectId/views',
+  validate(createSavedViewSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  SavedViewController.create
+);
+
+/**
+ * PATCH /projects/:projectId/views/:viewId
+ * Update a saved view
+ */
+router.patch(
+  '/projects/:projectId/views/:viewId',
+  validate(updateSavedViewSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  SavedViewController.update
+);
+
+/**
+ * DELETE /projects/:projectId/views/:viewId
+ * Delete a saved view
+ */
+router.delete(
+  '/projects/:projectId/views/:viewId',
+  validate(deleteSavedViewSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  SavedViewController.delete
+);
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { StatsController } from '../controllers/stats.controller.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 
 const router = Router();
 
@@ -11,6 +13,10 @@ router.use(authenticate);
 router.get('/dashboard', StatsController.getDashboardStats);
 
 // GET /stats/projects/:projectId - Get project-specific stats
-router.get('/projects/:projectId', StatsController.getProjectStats);
+router.get(
+  '/projects/:projectId',
+  requirePermission(Permission.PROJECT_VIEW),
+  StatsController.getProjectStats
+);
 
 export default router;
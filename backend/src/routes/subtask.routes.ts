@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { SubtaskController } from '../controllers/subtask.controller.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
+import {
+  subtaskParamsSchema,
+  subtaskIdParamsSchema,
+  createSubtaskSchema,
+  updateSubtaskSchema,
+} from '../validators/subtask.validator.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// GET /projects/:projectId/tasks/:taskId/subtasks - List task subtasks
+router.get(
+  '/projects/:projectId/tasks/:taskId/subtasks',
+  validate(subtaskParamsSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  SubtaskController.list
+);
+
+// POST /projects/:projectId/tasks/:taskId/subtasks - Create subtask
+router.post(
+  '/projects/:projectId/tasks/:taskId/subtasks',
+  validate(createSubtaskSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  SubtaskController.create
+);
+
+// PATCH /projects/:projectId/tasks/:taskId/subtasks/:subtaskId - Update subtask
+router.patch(
+  '/projects/:projectId/tasks/:taskId/subtasks/:subtaskId',
+  validate(updateSubtaskSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  SubtaskController.update
+);
+
+// DELETE /projects/:projectId/tasks/:taskId/subtasks/:subtaskId - Delete subtask
+router.delete(
+  '/projects/:projectId/tasks/:taskId/subtasks/:subtaskId',
+  validate(subtaskIdParamsSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  SubtaskController.delete
+);
+
+export default router;
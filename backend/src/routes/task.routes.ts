@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { TaskController } from '../controllers/task.controller.js';
 import { validate } from '../middleware/validate.middleware.js';
 import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
 import {
   listTasksSchema,
   createTaskSchema,
@@ -12,6 +14,7 @@ import {
   reorderTaskSchema,
   bulkDeleteSchema,
   listProjectTasksSchema,
+  queryProjectTasksSchema,
   createProjectTaskSchema,
   getProjectTaskSchema,
   updateProjectTaskSchema,
@@ -42,37 +45,78 @@ router.get('/tasks', validate(globalTasksSchema), TaskController.listUserTasks);
  * GET /projects/:projectId/tasks
  * List all tasks for a project (across all columns)
  */
-router.get('/projects/:projectId/tasks', validate(listProjectTasksSchema), TaskController.listByProject);
+router.get(
+  '/projects/:projectId/tasks',
+  validate(listProjectTasksSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  TaskController.listByProject
+);
+
+/**
+ * POST /projects/:projectId/tasks/query
+ * Query project tasks with a structured filter, sort and cursor pagination
+ */
+router.post(
+  '/projects/:projectId/tasks/query',
+  validate(queryProjectTasksSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  TaskController.queryByProject
+);
 
 /**
  * POST /projects/:projectId/tasks
  * Create a new task in a project (columnId in body)
  */
-router.post('/projects/:projectId/tasks', validate(createProjectTaskSchema), TaskController.createInProject);
+router.post(
+  '/projects/:projectId/tasks',
+  validate(createProjectTaskSchema),
+  requirePermission(Permission.TASK_CREATE),
+  TaskController.createInProject
+);
 
 /**
  * GET /projects/:projectId/tasks/:taskId
  * Get a single task by ID (validates task belongs to project)
  */
-router.get('/projects/:projectId/tasks/:taskId', validate(getProjectTaskSchema), TaskController.get);
+router.get(
+  '/projects/:projectId/tasks/:taskId',
+  validate(getProjectTaskSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  TaskController.get
+);
 
 /**
  * PATCH /projects/:projectId/tasks/:taskId
  * Update a task
  */
-router.patch('/projects/:projectId/tasks/:taskId', validate(updateProjectTaskSchema), TaskController.update);
+router.patch(
+  '/projects/:projectId/tasks/:taskId',
+  validate(updateProjectTaskSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  TaskController.update
+);
 
 /**
  * DELETE /projects/:projectId/tasks/:taskId
  * Soft delete a task
  */
-router.delete('/projects/:projectId/tasks/:taskId', validate(deleteProjectTaskSchema), TaskController.delete);
+router.delete(
+  '/projects/:projectId/tasks/:taskId',
+  validate(deleteProjectTaskSchema),
+  requirePermission(Permission.TASK_DELETE),
+  TaskController.delete
+);
 
 /**
  * PATCH /projects/:projectId/tasks/:taskId/move
  * Move a task to a different column and/or position
  */
-router.patch('/projects/:projectId/tasks/:taskId/move', validate(moveProjectTaskSchema), TaskController.move);
+router.patch(
+  '/projects/:projectId/tasks/:taskId/move',
+  validate(moveProjectTaskSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  TaskController.move
+);
 
 // ============ COLUMN-SCOPED TASK ROUTES ============
 // These are for listing and creating tasks in a column
@@ -84,13 +128,23 @@ router.patch('/projects/:projectId/tasks/:taskId/move', validate(moveProjectTask
  * Query: ?priority=HIGH|MEDIUM|LOW to filter by priority
  * Query: ?search=term to search by title/description
  */
-router.get('/columns/:columnId/tasks', validate(listTasksSchema), TaskController.list);
+router.get(
+  '/columns/:columnId/tasks',
+  validate(listTasksSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  TaskController.list
+);
 
 /**
  * POST /columns/:columnId/tasks
  * Create a new task in a column
  */
-router.post('/columns/:columnId/tasks', validate(createTaskSchema), TaskController.create);
+router.post(
+  '/columns/:columnId/tasks',
+  validate(createTaskSchema),
+  requirePermission(Permission.TASK_CREATE),
+  TaskController.create
+);
 
 // ============ TASK-SPECIFIC ROUTES ============
 // These operate on individual tasks by ID
@@ -106,30 +160,55 @@ router.post('/tasks/bulk-delete', validate(bulkDeleteSchema), TaskController.bul
  * GET /tasks/:taskId
  * Get a single task by ID
  */
-router.get('/tasks/:taskId', validate(getTaskSchema), TaskController.get);
+router.get(
+  '/tasks/:taskId',
+  validate(getTaskSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  TaskController.get
+);
 
 /**
  * PATCH /tasks/:taskId
  * Update a task
  */
-router.patch('/tasks/:taskId', validate(updateTaskSchema), TaskController.update);
+router.patch(
+  '/tasks/:taskId',
+  validate(updateTaskSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  TaskController.update
+);
 
 /**
  * DELETE /tasks/:taskId
  * Soft delete a task
  */
-router.delete('/tasks/:taskId', validate(deleteTaskSchema), TaskController.delete);
+router.delete(
+  '/tasks/:taskId',
+  validate(deleteTaskSchema),
+  requirePermission(Permission.TASK_DELETE),
+  TaskController.delete
+);
 
 /**
  * PATCH /tasks/:taskId/move
  * Move a task to a different column and/or position
  */
-router.patch('/tasks/:taskId/move', validate(moveTaskSchema), TaskController.move);
+router.patch(
+  '/tasks/:taskId/move',
+  validate(moveTaskSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  TaskController.move
+);
 
 /**
  * PATCH /tasks/:taskId/reorder
  * Reorder a task within its column
  */
-router.patch('/tasks/:taskId/reorder', validate(reorderTaskSchema), TaskController.reorder);
+router.patch(
+  '/tasks/:taskId/reorder',
+  validate(reorderTaskSchema),
+  requirePermission(Permission.TASK_UPDATE),
+  TaskController.reorder
+);
 
 export default router;
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { TrashController } from '../controllers/trash.controller.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { requirePermission } from '../middleware/permission.middleware.js';
+import { Permission } from '../config/permissions.js';
+import {
+  projectTrashSchema,
+  trashedTaskSchema,
+  trashedProjectSchema,
+} from '../validators/trash.validator.js';
+
+const router = Router();
+
+// All trash routes require authentication
+router.use(authenticate);
+
+// ============ TASK TRASH ROUTES ============
+
+/**
+ * GET /projects/:projectId/trash
+ * List the project's deleted tasks
+ */
+router.get(
+  '/projects/:projectId/trash',
+  validate(projectTrashSchema),
+  requirePermission(Permission.PROJECT_VIEW),
+  TrashController.listTasks
+);
+
+/**
+ * POST /projects/:projectId/trash/tasks/:taskId/restore
+ * Restore a deleted task
+ */
+router.post(
+  '/projects/:projectId/trash/tasks/:taskId/restore',
+  validate(trashedTaskSchema),
+  requirePermission(Permission.TASK_DELETE),
+  TrashController.restoreTask
+);
+
+/**
+ * DELETE /projects/:projectId/trash/tasks/:taskId
+ * Permanently delete a task
+ */
+router.delete(
+  '/projects/:projectId/trash/tasks/:taskId',
+  validate(trashedTaskSchema),
+  requirePermission(Permission.TASK_DELETE),
+  TrashController.purgeTask
+);
+
+// ============ PROJECT TRASH ROUTES ============
+// Deleted projects have no members' roles to check; the service allows only the owner
+
+/**
+ * GET /trash/projects
+ * List the user's deleted projects
+ */
+router.get('/trash/projects', TrashController.listProjects);
+
+/**
+ * POST /trash/projects/:projectId/restore
+ * Restore a deleted project
+ */
+router.post(
+  '/trash/projects/:projectId/restore',
+  validate(trashedProjectSchema),
+  TrashController.restoreProject
+);
+
+/**
+ * DELETE /trash/projects/:projectId
+ * Permanently delete a project
+ */
+router.delete(
+  '/trash/projects/:projectId',
+  validate(trashedProjectSchema),
+  TrashController.purgeProject
+);
+
+export default router;
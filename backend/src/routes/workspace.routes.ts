@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { WorkspaceController } from '../controllers/workspace.controller.js';
+import { validate } from '../middleware/validate.middleware.js';
+import { authenticate } from '../middleware/auth.middleware.js';
+import { requireWorkspacePermission } from '../middleware/permission.middleware.js';
+import { WorkspacePermission } from '../config/permissions.js';
+import {
+  createWorkspaceSchema,
+  updateWorkspaceSchema,
+  workspaceIdParamSchema,
+  addWorkspaceMemberSchema,
+  updateWorkspaceMemberRoleSchema,
+  removeWorkspaceMemberSchema,
+} from '../validators/workspace.validator.js';
+
+const router = Router();
+
+// All workspace routes require authentication
+router.use(authenticate);
+
+// ============ WORKSPACE ROUTES ============
+
+// GET /workspaces - List the user's workspaces
+router.get('/', WorkspaceController.list);
+
+// POST /workspaces - Create new workspace
+router.post('/', validate(createWorkspaceSchema), WorkspaceController.create);
+
+// GET /workspaces/:workspaceId - Get single workspace
+router.get(
+  '/:workspaceId',
+  validate(workspaceIdParamSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_VIEW),
+  WorkspaceController.get
+);
+
+// PATCH /workspaces/:workspaceId - Rename workspace
+router.patch(
+  '/:workspaceId',
+  validate(updateWorkspaceSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_UPDATE),
+  WorkspaceController.update
+);
+
+// DELETE /workspaces/:workspaceId - Delete workspace
+router.delete(
+  '/:workspaceId',
+  validate(workspaceIdParamSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_DELETE),
+  WorkspaceController.delete
+);
+
+// ============ MEMBER DIRECTORY ROUTES ============
+
+// GET /workspaces/:workspaceId/members - Member directory
+router.get(
+  '/:workspaceId/members',
+  validate(workspaceIdParamSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_VIEW),
+  WorkspaceController.listMembers
+);
+
+// POST /workspaces/:workspaceId/members - Add member
+router.post(
+  '/:workspaceId/members',
+  validate(addWorkspaceMemberSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_MEMBER_INVITE),
+  WorkspaceController.addMember
+);
+
+// PATCH /workspaces/:workspaceId/members/:userId - Update member role
+router.patch(
+  '/:workspaceId/members/:userId',
+  validate(updateWorkspaceMemberRoleSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_MEMBER_ROLE_CHANGE),
+  WorkspaceController.updateMemberRole
+);
+
+// DELETE /workspaces/:workspaceId/members/:userId - Remove member (or leave)
+router.delete(
+  '/:workspaceId/members/:userId',
+  validate(removeWorkspaceMemberSchema),
+  requireWorkspacePermission(WorkspacePermission.WORKSPACE_VIEW),
+  WorkspaceController.removeMember
+);
+
+export default router;
@@ -10,10 +10,24 @@ export const ActivityAction = {
   TASK_CREATED: 'task.created',
   TASK_UPDATED: 'task.updated',
   TASK_DELETED: 'task.deleted',
+  TASK_RESTORED: 'task.restored',
   TASK_MOVED: 'task.moved',
   TASK_REORDERED: 'task.reordered',
   TASK_COMPLETED: 'task.completed',
   TASK_REOPENED: 'task.reopened',
+  TASK_RECURRED: 'task.recurred',
+  TASK_DUE_SOON: 'task.due_soon',
+  TASK_OVERDUE: 'task.overdue',
+
+  // Subtask actions
+  SUBTASK_CREATED: 'subtask.created',
+  SUBTASK_COMPLETED: 'subtask.completed',
+  SUBTASK_REOPENED: 'subtask.reopened',
+  SUBTASK_DELETED: 'subtask.deleted',
+
+  // Dependency actions
+  DEPENDENCY_ADDED: 'dependency.added',
+  DEPENDENCY_REMOVED: 'dependency.removed',
 
   // Column actions
   COLUMN_CREATED: 'column.created',
@@ -28,6 +42,11 @@ export const ActivityAction = {
   LABEL_ADDED: 'label.added',
   LABEL_REMOVED: 'label.removed',
 
+  // Custom field actions
+  CUSTOM_FIELD_CREATED: 'custom_field.created',
+  CUSTOM_FIELD_DELETED: 'custom_field.deleted',
+  CUSTOM_FIELD_VALUE_CHANGED: 'custom_field.value_changed',
+
   // Assignee actions
   ASSIGNEE_ADDED: 'assignee.added',
   ASSIGNEE_REMOVED: 'assignee.removed',
@@ -49,6 +68,7 @@ export const ActivityAction = {
   // Project actions
   PROJECT_CREATED: 'project.created',
   PROJECT_UPDATED: 'project.updated',
+  PROJECT_RESTORED: 'project.restored',
 } as const;
 
 export type ActivityActionType = (typeof ActivityAction)[keyof typeof ActivityAction];
@@ -60,6 +80,18 @@ export interface ActivityMetadata {
   // Task metadata
   taskTitle?: string;
   taskId?: string;
+  recurringFromTaskId?: string;
+  dueDate?: string;
+
+  // Subtask metadata
+  subtaskTitle?: string;
+  subtaskId?: string;
+
+  // Dependency metadata
+  blockingTaskId?: string;
+  blockingTaskTitle?: string;
+  blockedTaskId?: string;
+  blockedTaskTitle?: string;
 
   // Column metadata
   columnName?: string;
@@ -74,6 +106,11 @@ export interface ActivityMetadata {
   labelColor?: string;
   labelId?: string;
 
+  // Custom field metadata
+  fieldId?: string;
+  fieldName?: string;
+  fieldType?: string;
+
   // Assignee metadata
   assigneeName?: string;
   assigneeId?: string;
@@ -91,6 +128,7 @@ export interface ActivityMetadata {
   memberId?: string;
   previousRole?: string;
   newRole?: string;
+  inviteLinkId?: string;
 
   // Project metadata
   projectName?: string;
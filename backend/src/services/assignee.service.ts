@@ -1,5 +1,7 @@
 import { prisma } from '../config/database.js';
 import { ProjectService } from './project.service.js';
+import { NotificationService } from './notification.service.js';
+import { Permission } from '../config/permissions.js';
 
 export interface Assignee {
   id: string;
@@ -72,10 +74,10 @@ export class AssigneeService {
     targetUserId: string
   ): Promise<Assignee | null> {
     // Check requester has project access with edit permission
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       projectId,
       requesterId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_UPDATE
     );
     if (!hasAccess) {
       return null;
@@ -143,6 +145,16 @@ export class AssigneeService {
       },
     });
 
+    // Let the new assignee know
+    NotificationService.notifyAsync({
+      type: 'TASK_ASSIGNED',
+      userIds: [targetUserId],
+      actorId: requesterId,
+      projectId,
+      taskId,
+      metadata: { taskTitle: task.title },
+    });
+
     return {
       id: assignee.user.id,
       name: assignee.user.name,
@@ -162,10 +174,10 @@ export class AssigneeService {
     targetUserId: string
   ): Promise<boolean> {
     // Check requester has project access with edit permission
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       projectId,
       requesterId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_UPDATE
     );
     if (!hasAccess) {
       return false;
@@ -222,10 +234,10 @@ export class AssigneeService {
     userIds: string[]
   ): Promise<Assignee[] | null> {
     // Check requester has project access with edit permission
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       projectId,
       requesterId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_UPDATE
     );
     if (!hasAccess) {
       return null;
@@ -254,6 +266,11 @@ export class AssigneeService {
       }
     }
 
+    const previousAssignees = await prisma.taskAssignee.findMany({
+      where: { taskId },
+      select: { userId: true },
+    });
+
     // Use transaction to replace all assignments
     await prisma.$transaction(async (tx) => {
       // Delete existing assignments
@@ -272,6 +289,17 @@ export class AssigneeService {
       }
     });
 
+    // Notify users who were not assigned before
+    const previousIds = new Set(previousAssignees.map((a) => a.userId));
+    NotificationService.notifyAsync({
+      type: 'TASK_ASSIGNED',
+      userIds: validUserIds.filter((id) => !previousIds.has(id)),
+      actorId: requesterId,
+      projectId,
+      taskId,
+      metadata: { taskTitle: task.title },
+    });
+
     // Return new assignees list
     const assignees = await prisma.taskAssignee.findMany({
       where: { taskId },
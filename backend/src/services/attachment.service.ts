@@ -14,6 +14,7 @@ import {
   isStorageConfigured,
 } from '../config/storage.js';
 import { ProjectService } from './project.service.js';
+import { Permission } from '../config/permissions.js';
 import type { Attachment, Prisma } from '@prisma/client';
 import type { GlobalFilesQuery } from '../validators/attachment.validator.js';
 
@@ -94,8 +95,12 @@ export class AttachmentService {
    * Upload an attachment to a task
    */
   static async upload(input: UploadAttachmentInput): Promise<AttachmentWithUploader | null> {
-    // Check project access
-    const hasAccess = await ProjectService.checkProjectAccess(input.projectId, input.userId);
+    // Check the user can upload (viewers are read-only)
+    const hasAccess = await ProjectService.hasPermission(
+      input.projectId,
+      input.userId,
+      Permission.ATTACHMENT_UPLOAD
+    );
     if (!hasAccess) {
       return null;
     }
@@ -274,10 +279,13 @@ export class AttachmentService {
       return { success: false };
     }
 
-    // Check project access
-    const hasAccess = await ProjectService.checkProjectAccess(
+    // Uploaders delete their own files; admins and owners delete any
+    const hasAccess = await ProjectService.hasPermission(
       attachment.task.column.projectId,
-      userId
+      userId,
+      attachment.uploadedById === userId
+        ? Permission.ATTACHMENT_UPLOAD
+        : Permission.ATTACHMENT_DELETE_ANY
     );
     if (!hasAccess) {
       return { success: false };
@@ -317,6 +325,7 @@ export class AttachmentService {
     const {
       search,
       type,
+      workspaceId,
       projectId,
       dateFrom,
       dateTo,
@@ -333,6 +342,11 @@ export class AttachmentService {
       },
     };
 
+    // Limit to the current workspace if specified
+    if (workspaceId) {
+      projectFilter.workspaceId = workspaceId;
+    }
+
     // Add project ID filter if specified
     if (projectId) {
       projectFilter.id = projectId;
@@ -5,6 +5,7 @@ import { prisma } from '../config/database.js';
 import { redis } from '../config/redis.js';
 import { env } from '../config/env.js';
 import type { User } from '@prisma/client';
+import { WorkspaceService } from './workspace.service.js';
 
 // Use validated environment variables - no fallbacks (fail-fast on startup)
 const JWT_SECRET = env.JWT_SECRET;
@@ -152,6 +153,9 @@ export class AuthService {
       },
     });
 
+    // Every account starts with a personal workspace
+    await WorkspaceService.createPersonalWorkspace(user.id);
+
     // Generate tokens
     const tokens = await this.generateTokens(user);
 
@@ -225,6 +229,8 @@ export class AuthService {
             avatar,
           },
         });
+
+        await WorkspaceService.createPersonalWorkspace(user.id);
       }
     }
 
@@ -20,6 +20,7 @@ export const CACHE_TTL = {
   PROJECT: 120, // 2 minutes - project details
   PROJECT_MEMBERS: 300, // 5 minutes - member list (rarely changes)
   PROJECT_ACCESS: 300, // 5 minutes - access check result
+  PROJECT_ROLE: 300, // 5 minutes - member's role
   PROJECT_TASKS: 30, // 30 seconds - tasks change frequently
   TASK: 60, // 1 minute - single task details
 } as const;
@@ -30,6 +31,7 @@ export const CACHE_KEYS = {
   project: (projectId: string) => `project:${projectId}`,
   projectMembers: (projectId: string) => `project:${projectId}:members`,
   projectAccess: (projectId: string, userId: string) => `project:${projectId}:access:${userId}`,
+  projectRole: (projectId: string, userId: string) => `project:${projectId}:role:${userId}`,
   projectTasks: (projectId: string) => `project:${projectId}:tasks`,
   task: (taskId: string) => `task:${taskId}`,
 } as const;
@@ -194,6 +196,10 @@ export const projectCache = {
     );
   },
 
+  async getRole<T>(projectId: string, userId: string, fetchFn: () => Promise<T>): Promise<T> {
+    return getOrSet(CACHE_KEYS.projectRole(projectId, userId), fetchFn, CACHE_TTL.PROJECT_ROLE);
+  },
+
   /**
    * Invalidate all caches related to a project
    */
@@ -203,8 +209,9 @@ export const projectCache = {
       CACHE_KEYS.projectMembers(projectId),
       CACHE_KEYS.projectTasks(projectId),
     ]);
-    // Also invalidate access checks for this project
+    // Also invalidate access checks and roles for this project
     await invalidatePattern(`project:${projectId}:access:*`);
+    await invalidatePattern(`project:${projectId}:role:*`);
   },
 
   /**
@@ -221,6 +228,7 @@ export const projectCache = {
     await invalidateMany([
       CACHE_KEYS.projectMembers(projectId),
       CACHE_KEYS.projectAccess(projectId, userId),
+      CACHE_KEYS.projectRole(projectId, userId),
       CACHE_KEYS.userProjects(userId),
     ]);
   },
@@ -0,0 +1,492 @@
+/**
+ * Collaboration Service
+ *
+ * Holds the shared Yjs documents for task descriptions that are being
+ * co-edited. Each open description gets one in-memory document per server
+ * instance that every editor on that instance syncs with over Socket.io, so
+ * concurrent edits merge instead of the last save winning.
+ *
+ * Room Pattern: description:{taskId}
+ *
+ * Key Patterns:
+ * - collab:{taskId}:updates - Yjs updates applied to the document so far
+ * - collab:{taskId}:seeded - Set once a client was asked to seed the document
+ * - collab:{taskId}:nodes - Server instances with the document open
+ * - collab:relay - Pub/sub channel carrying updates between instances
+ *
+ * Features:
+ * - Yjs sync protocol (step 1 / step 2 / updates) per task
+ * - Awareness relay for remote cursors and selections
+ * - Description traffic is emitted to this instance's sockets only; other
+ *   instances apply relayed updates to their own copy of the document
+ * - One client per fresh document seeds it from the stored description,
+ *   whichever instance it is connected to
+ * - Documents are dropped once the last editor leaves
+ *
+ * The updates are only kept in Redis while the description is open (or
+ * until they expire). Editors save the merged HTML back to Task.description
+ * through TaskService, which sanitizes it.
+ */
+
+import crypto from 'crypto';
+import type { Redis } from 'ioredis';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { redis } from '../config/redis.js';
+import { logger } from '../config/logger.js';
+import { getIO } from '../sockets/index.js';
+
+const collaborationLogger = logger.child({ module: 'collaboration' });
+
+/** Origin of updates received from another instance; they are not relayed again */
+const REMOTE_ORIGIN = Symbol('remote');
+/** Origin of updates loaded from Redis when a session opens */
+const STORED_ORIGIN = Symbol('stored');
+
+interface DescriptionSession {
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  /** Socket ID -> awareness client IDs that socket controls */
+  sockets: Map<string, Set<number>>;
+  /** Resolves once the updates stored by other instances are applied */
+  ready: Promise<void>;
+}
+
+interface RelayMessage {
+  nodeId: string;
+  taskId: string;
+  type: 'update' | 'awareness';
+  /** Base64-encoded Yjs or awareness update */
+  data: string;
+}
+
+/**
+ * Get the description room name.
+ */
+export function getDescriptionRoom(taskId: string): string {
+  return `description:${taskId}`;
+}
+
+/**
+ * Remove an instance from a document's nodes and delete the document's
+ * keys once no instance has it open.
+ * KEYS: nodes, updates, seeded. ARGV: node ID.
+ */
+const RELEASE_SCRIPT = `
+redis.call('SREM', KEYS[1], ARGV[1])
+if redis.call('SCARD', KEYS[1]) == 0 then
+  redis.call('DEL', KEYS[2], KEYS[3])
+end
+return 0
+`;
+
+class CollaborationService {
+  // Refreshed on every join and update, so keys left by an instance that
+  // crashed with the document open eventually go away
+  private readonly SESSION_TTL = 60 * 60; // seconds
+  private readonly PREFIX = 'collab';
+  private readonly RELAY_CHANNEL = `${this.PREFIX}:relay`;
+
+  /** Identifies this server instance in relayed messages */
+  readonly nodeId = crypto.randomUUID();
+
+  private readonly sessions = new Map<string, DescriptionSession>();
+  private subscriber: Redis | null = null;
+
+  private updatesKey(taskId: string): string {
+    return `${this.PREFIX}:${taskId}:updates`;
+  }
+
+  private seededKey(taskId: string): string {
+    return `${this.PREFIX}:${taskId}:seeded`;
+  }
+
+  private nodesKey(taskId: string): string {
+    return `${this.PREFIX}:${taskId}:nodes`;
+  }
+
+  /**
+   * Start applying updates relayed by other instances
+   */
+  async startRelay(): Promise<void> {
+    if (this.subscriber) return;
+
+    const subscriber = redis.duplicate();
+    this.subscriber = subscriber;
+
+    subscriber.on('message', (channel: string, message: string) => {
+      if (channel === this.RELAY_CHANNEL) {
+        this.applyRelayed(message);
+      }
+    });
+
+    try {
+      await subscriber.subscribe(this.RELAY_CHANNEL);
+      collaborationLogger.info({ nodeId: this.nodeId }, 'Collaboration relay started');
+    } catch (error) {
+      collaborationLogger.error(
+        { err: error, nodeId: this.nodeId },
+        'Failed to start collaboration relay'
+      );
+    }
+  }
+
+  /**
+   * Stop applying relayed updates and close the subscriber connection
+   */
+  async stopRelay(): Promise<void> {
+    if (!this.subscriber) return;
+
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+
+    try {
+      await subscriber.quit();
+    } catch (error) {
+      collaborationLogger.error(
+        { err: error, nodeId: this.nodeId },
+        'Failed to stop collaboration relay'
+      );
+    }
+  }
+
+  /**
+   * Apply an update relayed by another instance to this instance's copy of
+   * the document, if it has one open
+   */
+  private applyRelayed(raw: string): void {
+    let message: RelayMessage;
+    try {
+      message = JSON.parse(raw) as RelayMessage;
+    } catch (error) {
+      collaborationLogger.warn({ err: error }, 'Invalid collaboration relay message');
+      return;
+    }
+
+    const session = this.sessions.get(message.taskId);
+    if (message.nodeId === this.nodeId || !session) {
+      return;
+    }
+
+    try {
+      const update = new Uint8Array(Buffer.from(message.data, 'base64'));
+      if (message.type === 'update') {
+        Y.applyUpdate(session.doc, update, REMOTE_ORIGIN);
+      } else {
+        awarenessProtocol.applyAwarenessUpdate(session.awareness, update, REMOTE_ORIGIN);
+      }
+    } catch (error) {
+      collaborationLogger.warn(
+        { err: error, taskId: message.taskId, nodeId: message.nodeId },
+        'Failed to apply relayed description update'
+      );
+    }
+  }
+
+  /**
+   * Store a document update and relay it to the other instances.
+   * The update is stored before it is published, so an instance opening
+   * the document either loads it or receives it.
+   */
+  private shareUpdate(taskId: string, update: Uint8Array): void {
+    redis
+      .multi()
+      .rpush(this.updatesKey(taskId), Buffer.from(update))
+      .expire(this.updatesKey(taskId), this.SESSION_TTL)
+      .expire(this.seededKey(taskId), this.SESSION_TTL)
+      .expire(this.nodesKey(taskId), this.SESSION_TTL)
+      .publish(this.RELAY_CHANNEL, this.encodeRelay(taskId, 'update', update))
+      .exec()
+      .catch((error: unknown) => {
+        collaborationLogger.error({ err: error, taskId }, 'Failed to share description update');
+      });
+  }
+
+  /**
+   * Relay an awareness update to the other instances. Awareness is not
+   * stored; clients renew their state periodically.
+   */
+  private shareAwareness(taskId: string, update: Uint8Array): void {
+    redis
+      .publish(this.RELAY_CHANNEL, this.encodeRelay(taskId, 'awareness', update))
+      .catch((error: unknown) => {
+        collaborationLogger.error({ err: error, taskId }, 'Failed to share awareness update');
+      });
+  }
+
+  private encodeRelay(taskId: string, type: RelayMessage['type'], update: Uint8Array): string {
+    const message: RelayMessage = {
+      nodeId: this.nodeId,
+      taskId,
+      type,
+      data: Buffer.from(update).toString('base64'),
+    };
+    return JSON.stringify(message);
+  }
+
+  /**
+   * Register this instance on the document and apply the updates other
+   * instances stored before it opened
+   */
+  private async loadSession(taskId: string, doc: Y.Doc): Promise<void> {
+    await redis
+      .multi()
+      .sadd(this.nodesKey(taskId), this.nodeId)
+      .expire(this.nodesKey(taskId), this.SESSION_TTL)
+      .exec();
+
+    const updates = await redis.lrangeBuffer(this.updatesKey(taskId), 0, -1);
+    if (updates.length > 0) {
+      const merged = Y.mergeUpdates(updates.map((update) => new Uint8Array(update)));
+      Y.applyUpdate(doc, merged, STORED_ORIGIN);
+    }
+  }
+
+  /**
+   * Create the session for a task, relaying document and awareness
+   * updates to everyone in the room except the socket they came from
+   */
+  private createSession(taskId: string): DescriptionSession {
+    const doc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    // The server has no cursor of its own
+    awareness.setLocalState(null);
+
+    const session: DescriptionSession = {
+      doc,
+      awareness,
+      sockets: new Map(),
+      ready: this.loadSession(taskId, doc),
+    };
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      // Clients get stored updates through the sync step 2 they ask for
+      if (origin === STORED_ORIGIN) return;
+
+      const encoder = encoding.createEncoder();
+      syncProtocol.writeUpdate(encoder, update);
+      this.emitToRoom(taskId, 'description:sync', encoding.toUint8Array(encoder), origin);
+
+      if (origin !== REMOTE_ORIGIN) {
+        this.shareUpdate(taskId, update);
+      }
+    });
+
+    awareness.on(
+      'update',
+      (
+        { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+        origin: unknown
+      ) => {
+        // Remember which awareness clients belong to which socket for cleanup
+        if (typeof origin === 'string') {
+          const controlled = session.sockets.get(origin);
+          if (controlled) {
+            added.forEach((clientId) => controlled.add(clientId));
+            removed.forEach((clientId) => controlled.delete(clientId));
+          }
+        }
+
+        const changed = [...added, ...updated, ...removed];
+        const update = awarenessProtocol.encodeAwarenessUpdate(awareness, changed);
+        this.emitToRoom(taskId, 'description:awareness', update, origin);
+
+        if (origin !== REMOTE_ORIGIN) {
+          this.shareAwareness(taskId, update);
+        }
+      }
+    );
+
+    this.sessions.set(taskId, session);
+    return session;
+  }
+
+  /**
+   * Emit to this instance's sockets in the room. Other instances emit the
+   * same update to their sockets once the relay applies it to their document.
+   */
+  private emitToRoom(
+    taskId: string,
+    event: 'description:sync' | 'description:awareness',
+    message: Uint8Array,
+    origin: unknown
+  ): void {
+    const room = getIO().local.to(getDescriptionRoom(taskId));
+    const target = typeof origin === 'string' ? room.except(origin) : room;
+
+    if (event === 'description:sync') {
+      target.emit(event, { taskId, message });
+    } else {
+      target.emit(event, { taskId, update: message });
+    }
+  }
+
+  /**
+   * Drop this instance's copy of a document and release its Redis keys
+   * if no other instance has it open
+   */
+  private closeSession(taskId: string, session: DescriptionSession): void {
+    session.awareness.destroy();
+    session.doc.destroy();
+    this.sessions.delete(taskId);
+
+    redis
+      .eval(
+        RELEASE_SCRIPT,
+        3,
+        this.nodesKey(taskId),
+        this.updatesKey(taskId),
+        this.seededKey(taskId),
+        this.nodeId
+      )
+      .catch((error: unknown) => {
+        collaborationLogger.error({ err: error, taskId }, 'Failed to release description session');
+      });
+
+    collaborationLogger.debug({ taskId }, 'Closed description session');
+  }
+
+  /**
+   * Add a socket to a task's session, creating it if needed.
+   * Returns the messages to send the joining socket: the server's sync
+   * step 1, the current awareness states, and whether it should seed the
+   * document from the stored description.
+   */
+  async join(
+    taskId: string,
+    socketId: string
+  ): Promise<{ seed: boolean; syncStep1: Uint8Array; awareness: Uint8Array | null }> {
+    const session = this.sessions.get(taskId) ?? this.createSession(taskId);
+
+    try {
+      await session.ready;
+    } catch (error) {
+      // Let the next join retry loading instead of keeping an empty copy
+      if (this.sessions.get(taskId) === session && session.sockets.size === 0) {
+        session.awareness.destroy();
+        session.doc.destroy();
+        this.sessions.delete(taskId);
+      }
+      throw error;
+    }
+
+    session.sockets.set(socketId, session.sockets.get(socketId) ?? new Set());
+
+    // Only the first editor of a fresh document, across all instances,
+    // seeds it, so the stored description is never inserted twice
+    let seed = false;
+    if (session.doc.store.clients.size === 0) {
+      const claimed = await redis.set(
+        this.seededKey(taskId),
+        this.nodeId,
+        'EX',
+        this.SESSION_TTL,
+        'NX'
+      );
+      seed = claimed === 'OK';
+    }
+
+    const encoder = encoding.createEncoder();
+    syncProtocol.writeSyncStep1(encoder, session.doc);
+
+    const clientIds = Array.from(session.awareness.getStates().keys());
+
+    collaborationLogger.debug(
+      { taskId, socketId, editors: session.sockets.size, seed },
+      'Socket joined description session'
+    );
+
+    return {
+      seed,
+      syncStep1: encoding.toUint8Array(encoder),
+      awareness:
+        clientIds.length > 0
+          ? awarenessProtocol.encodeAwarenessUpdate(session.awareness, clientIds)
+          : null,
+    };
+  }
+
+  /**
+   * Apply a sync protocol message from a socket.
+   * Returns the reply for that socket, if any (e.g. sync step 2).
+   */
+  handleSync(taskId: string, socketId: string, message: Uint8Array): Uint8Array | null {
+    const session = this.sessions.get(taskId);
+    if (!session?.sockets.has(socketId)) {
+      return null;
+    }
+
+    try {
+      const decoder = decoding.createDecoder(new Uint8Array(message));
+      const encoder = encoding.createEncoder();
+      syncProtocol.readSyncMessage(decoder, encoder, session.doc, socketId);
+
+      return encoding.length(encoder) > 0 ? encoding.toUint8Array(encoder) : null;
+    } catch (error) {
+      collaborationLogger.warn({ error, taskId, socketId }, 'Invalid description sync message');
+      return null;
+    }
+  }
+
+  /**
+   * Apply an awareness update (cursor, selection, user info) from a socket
+   */
+  handleAwareness(taskId: string, socketId: string, update: Uint8Array): void {
+    const session = this.sessions.get(taskId);
+    if (!session?.sockets.has(socketId)) {
+      return;
+    }
+
+    try {
+      awarenessProtocol.applyAwarenessUpdate(session.awareness, new Uint8Array(update), socketId);
+    } catch (error) {
+      collaborationLogger.warn({ error, taskId, socketId }, 'Invalid description awareness update');
+    }
+  }
+
+  /**
+   * Whether the socket is currently editing the task's description
+   */
+  isEditing(taskId: string, socketId: string): boolean {
+    return this.sessions.get(taskId)?.sockets.has(socketId) ?? false;
+  }
+
+  /**
+   * Remove a socket from a task's session, clearing its cursors.
+   * The session is dropped once the last editor on this instance leaves.
+   */
+  leave(taskId: string, socketId: string): void {
+    const session = this.sessions.get(taskId);
+    const controlled = session?.sockets.get(socketId);
+    if (!session || !controlled) {
+      return;
+    }
+
+    session.sockets.delete(socketId);
+    if (controlled.size > 0) {
+      awarenessProtocol.removeAwarenessStates(session.awareness, Array.from(controlled), null);
+    }
+
+    if (session.sockets.size === 0) {
+      this.closeSession(taskId, session);
+    }
+  }
+
+  /**
+   * Remove a socket from every session it joined (used on disconnect)
+   */
+  leaveAll(socketId: string): void {
+    for (const [taskId, session] of this.sessions) {
+      if (session.sockets.has(socketId)) {
+        this.leave(taskId, socketId);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const collaborationService = new CollaborationService();
+export default collaborationService;
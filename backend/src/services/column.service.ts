@@ -1,14 +1,37 @@
 import { prisma } from '../config/database.js';
-import type { Column, Task } from '@prisma/client';
+import type { Column, Task, WipLimitMode } from '@prisma/client';
 import type { CreateColumnInput, UpdateColumnInput } from '../validators/column.validator.js';
 import { ProjectService } from './project.service.js';
 import { projectCache } from './cache.service.js';
+import { Permission } from '../config/permissions.js';
+import { withVersionCheck } from '../utils/concurrency.js';
 
 type ColumnWithTasks = Column & {
   tasks?: Task[];
   _count?: { tasks: number };
 };
 
+export interface WipLimitStatus {
+  columnId: string;
+  columnName: string;
+  limit: number;
+  count: number;
+  mode: WipLimitMode;
+}
+
+/**
+ * Thrown when a task would push a column past its WIP limit in BLOCK mode
+ */
+export class WipLimitExceededError extends Error {
+  readonly status: WipLimitStatus;
+
+  constructor(status: WipLimitStatus) {
+    super(`Column "${status.columnName}" is at its WIP limit of ${status.limit}`);
+    this.name = 'WipLimitExceededError';
+    this.status = status;
+  }
+}
+
 export class ColumnService {
   // ============ COLUMN CRUD ============
 
@@ -87,12 +110,11 @@ export class ColumnService {
     userId: string,
     data: CreateColumnInput
   ): Promise<ColumnWithTasks | null> {
-    // Check user has access (must be owner, admin, or member)
-    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId, [
-      'OWNER',
-      'ADMIN',
-      'MEMBER',
-    ]);
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.COLUMN_CREATE
+    );
     if (!hasAccess) {
       return null;
     }
@@ -123,6 +145,8 @@ export class ColumnService {
       data: {
         name: data.name,
         color: data.color,
+        wipLimit: data.wipLimit,
+        category: data.category,
         order,
         projectId,
       },
@@ -159,31 +183,39 @@ export class ColumnService {
       return null;
     }
 
-    const hasAccess = await ProjectService.checkProjectAccess(column.projectId, userId, [
-      'OWNER',
-      'ADMIN',
-      'MEMBER',
-    ]);
+    const hasAccess = await ProjectService.hasPermission(
+      column.projectId,
+      userId,
+      Permission.COLUMN_UPDATE
+    );
     if (!hasAccess) {
       return null;
     }
 
-    const updatedColumn = await prisma.column.update({
-      where: { id: columnId },
-      data: {
-        ...(data.name !== undefined && { name: data.name }),
-        ...(data.color !== undefined && { color: data.color }),
-      },
-      include: {
-        tasks: {
-          where: { deletedAt: null },
-          orderBy: { order: 'asc' },
-        },
-        _count: {
-          select: { tasks: { where: { deletedAt: null } } },
-        },
-      },
-    });
+    const updatedColumn = await withVersionCheck(
+      'column',
+      () =>
+        prisma.column.update({
+          where: { id: columnId, version: data.version ?? column.version },
+          data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.color !== undefined && { color: data.color }),
+            ...(data.wipLimit !== undefined && { wipLimit: data.wipLimit }),
+            ...(data.category !== undefined && { category: data.category }),
+            version: { increment: 1 },
+          },
+          include: {
+            tasks: {
+              where: { deletedAt: null },
+              orderBy: { order: 'asc' },
+            },
+            _count: {
+              select: { tasks: { where: { deletedAt: null } } },
+            },
+          },
+        }),
+      () => this.getColumnById(columnId, userId)
+    );
 
     // Invalidate project cache so fresh column data is returned
     await projectCache.invalidateProject(column.projectId);
@@ -211,11 +243,11 @@ export class ColumnService {
       return { success: false, error: 'Column not found' };
     }
 
-    // Only owner or admin can delete columns
-    const hasAccess = await ProjectService.checkProjectAccess(column.projectId, userId, [
-      'OWNER',
-      'ADMIN',
-    ]);
+    const hasAccess = await ProjectService.hasPermission(
+      column.projectId,
+      userId,
+      Permission.COLUMN_DELETE
+    );
     if (!hasAccess) {
       return { success: false, error: 'Permission denied' };
     }
@@ -300,11 +332,11 @@ export class ColumnService {
       return null;
     }
 
-    const hasAccess = await ProjectService.checkProjectAccess(column.projectId, userId, [
-      'OWNER',
-      'ADMIN',
-      'MEMBER',
-    ]);
+    const hasAccess = await ProjectService.hasPermission(
+      column.projectId,
+      userId,
+      Permission.COLUMN_UPDATE
+    );
     if (!hasAccess) {
       return null;
     }
@@ -373,6 +405,59 @@ export class ColumnService {
     });
   }
 
+  // ============ WIP LIMITS ============
+
+  /**
+   * Get a column's WIP limit and current task count.
+   * Returns null when the column has no limit or the project does not enforce limits.
+   */
+  static async getWipLimitStatus(columnId: string): Promise<WipLimitStatus | null> {
+    const column = await prisma.column.findUnique({
+      where: { id: columnId },
+      select: {
+        id: true,
+        name: true,
+        wipLimit: true,
+        project: { select: { wipLimitMode: true } },
+        // Completed tasks stay in the column but no longer count as work in progress
+        _count: { select: { tasks: { where: { deletedAt: null, completedAt: null } } } },
+      },
+    });
+
+    if (!column || column.wipLimit === null || column.project.wipLimitMode === 'OFF') {
+      return null;
+    }
+
+    return {
+      columnId: column.id,
+      columnName: column.name,
+      limit: column.wipLimit,
+      count: column._count.tasks,
+      mode: column.project.wipLimitMode,
+    };
+  }
+
+  /**
+   * Throw if adding a task to the column is not allowed by its WIP limit
+   */
+  static async checkWipLimit(columnId: string): Promise<void> {
+    const status = await this.getWipLimitStatus(columnId);
+    if (status && status.mode === 'BLOCK' && status.count >= status.limit) {
+      throw new WipLimitExceededError(status);
+    }
+  }
+
+  /**
+   * Get the column's WIP status if it is over its limit in WARN mode
+   */
+  static async getWipLimitWarning(columnId: string): Promise<WipLimitStatus | null> {
+    const status = await this.getWipLimitStatus(columnId);
+    if (!status || status.mode !== 'WARN' || status.count <= status.limit) {
+      return null;
+    }
+    return status;
+  }
+
   // ============ HELPERS ============
 
   /**
@@ -6,6 +6,10 @@
 
 import { prisma } from '../config/database.js';
 import { ProjectService } from './project.service.js';
+import { MentionService } from './mention.service.js';
+import { NotificationService } from './notification.service.js';
+import { Permission } from '../config/permissions.js';
+import { extractMentionedUserIds, mentionsToPlainText } from '../utils/mentions.js';
 import type { Comment } from '@prisma/client';
 
 /**
@@ -43,8 +47,12 @@ export class CommentService {
    * Create a new comment on a task
    */
   static async create(input: CreateCommentInput): Promise<CommentWithUser | null> {
-    // Check project access
-    const hasAccess = await ProjectService.checkProjectAccess(input.projectId, input.userId);
+    // Check the user can comment (viewers are read-only)
+    const hasAccess = await ProjectService.hasPermission(
+      input.projectId,
+      input.userId,
+      Permission.COMMENT_CREATE
+    );
     if (!hasAccess) {
       return null;
     }
@@ -77,6 +85,29 @@ export class CommentService {
       },
     });
 
+    // Notify users mentioned in the comment
+    MentionService.recordMentionsAsync({
+      projectId: input.projectId,
+      taskId: input.taskId,
+      commentId: comment.id,
+      mentionedById: input.userId,
+      content: comment.content,
+    });
+
+    // Notify the task's assignees; mentioned ones already get a mention
+    NotificationService.notifyAssigneesAsync({
+      type: 'TASK_COMMENTED',
+      actorId: input.userId,
+      projectId: input.projectId,
+      taskId: input.taskId,
+      commentId: comment.id,
+      excludeUserIds: extractMentionedUserIds(comment.content),
+      metadata: {
+        taskTitle: task.title,
+        excerpt: mentionsToPlainText(comment.content).slice(0, 100),
+      },
+    });
+
     return comment as CommentWithUser;
   }
 
@@ -144,17 +175,31 @@ export class CommentService {
     // Get comment to verify ownership
     const comment = await prisma.comment.findUnique({
       where: { id: input.commentId },
+      include: {
+        task: {
+          select: { column: { select: { projectId: true } } },
+        },
+      },
     });
 
     if (!comment) {
       return null;
     }
 
-    // Only the author can update their comment
+    // Only the author can update their comment, and only while they can still comment
     if (comment.userId !== input.userId) {
       return null;
     }
 
+    const canComment = await ProjectService.hasPermission(
+      comment.task.column.projectId,
+      input.userId,
+      Permission.COMMENT_CREATE
+    );
+    if (!canComment) {
+      return null;
+    }
+
     const updated = await prisma.comment.update({
       where: { id: input.commentId },
       data: { content: input.content },
@@ -165,6 +210,16 @@ export class CommentService {
       },
     });
 
+    // Notify users newly mentioned by the edit
+    MentionService.recordMentionsAsync({
+      projectId: comment.task.column.projectId,
+      taskId: comment.taskId,
+      commentId: comment.id,
+      mentionedById: input.userId,
+      previousContent: comment.content,
+      content: updated.content,
+    });
+
     return updated as CommentWithUser;
   }
 
@@ -194,31 +249,16 @@ export class CommentService {
       return { success: false };
     }
 
-    // Check if user is comment author OR project admin/owner
+    // Authors delete their own comments; admins and owners delete any
     const projectId = comment.task.column.projectId;
+    const canDelete = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      comment.userId === userId ? Permission.COMMENT_CREATE : Permission.COMMENT_DELETE_ANY
+    );
 
-    if (comment.userId !== userId) {
-      // Check if user has admin/owner access
-      const project = await prisma.project.findFirst({
-        where: {
-          id: projectId,
-          OR: [
-            { ownerId: userId },
-            {
-              members: {
-                some: {
-                  userId,
-                  role: 'ADMIN',
-                },
-              },
-            },
-          ],
-        },
-      });
-
-      if (!project) {
-        return { success: false };
-      }
+    if (!canDelete) {
+      return { success: false };
     }
 
     await prisma.comment.delete({
@@ -0,0 +1,386 @@
+/**
+ * Custom Field Service
+ *
+ * Handles project-scoped custom field definitions and per-task values.
+ */
+
+import { prisma } from '../config/database.js';
+import type { CustomField, Prisma } from '@prisma/client';
+import type {
+  CreateCustomFieldInput,
+  UpdateCustomFieldInput,
+} from '../validators/custom-field.validator.js';
+import { ProjectService } from './project.service.js';
+import { taskCache } from './cache.service.js';
+import { Permission } from '../config/permissions.js';
+
+/**
+ * A stored value: string, number, string[], ISO date, boolean or user ID
+ */
+export type CustomFieldValueData = string | number | boolean | string[];
+
+export class CustomFieldService {
+  // ============ FIELD DEFINITIONS ============
+
+  /**
+   * Get all custom fields for a project, in display order
+   */
+  static async getProjectFields(
+    projectId: string,
+    userId: string
+  ): Promise<CustomField[] | null> {
+    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    if (!hasAccess) {
+      return null;
+    }
+
+    return prisma.customField.findMany({
+      where: { projectId },
+      orderBy: { order: 'asc' },
+    });
+  }
+
+  /**
+   * Get a single custom field by ID
+   */
+  static async getFieldById(
+    projectId: string,
+    fieldId: string,
+    userId: string
+  ): Promise<CustomField | null> {
+    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    if (!hasAccess) {
+      return null;
+    }
+
+    return prisma.customField.findFirst({
+      where: { id: fieldId, projectId },
+    });
+  }
+
+  /**
+   * Create a custom field at the end of the project's list (owner or admin only)
+   */
+  static async createField(
+    projectId: string,
+    userId: string,
+    data: CreateCustomFieldInput
+  ): Promise<CustomField | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.CUSTOM_FIELD_MANAGE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const existingField = await prisma.customField.findFirst({
+      where: { projectId, name: data.name },
+    });
+    if (existingField) {
+      throw new Error('A custom field with this name already exists in the project');
+    }
+
+    const lastField = await prisma.customField.findFirst({
+      where: { projectId },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    });
+
+    const isSelect = data.type === 'SINGLE_SELECT' || data.type === 'MULTI_SELECT';
+
+    return prisma.customField.create({
+      data: {
+        name: data.name,
+        type: data.type,
+        options: isSelect ? (data.options ?? []) : [],
+        order: lastField ? lastField.order + 1 : 0,
+        projectId,
+      },
+    });
+  }
+
+  /**
+   * Update a custom field (owner or admin only). Removing a select option
+   * also removes it from every task that had it selected.
+   */
+  static async updateField(
+    projectId: string,
+    fieldId: string,
+    userId: string,
+    data: UpdateCustomFieldInput
+  ): Promise<CustomField | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.CUSTOM_FIELD_MANAGE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const field = await prisma.customField.findFirst({
+      where: { id: fieldId, projectId },
+    });
+    if (!field) {
+      return null;
+    }
+
+    if (data.name && data.name !== field.name) {
+      const existingField = await prisma.customField.findFirst({
+        where: { projectId, name: data.name, id: { not: fieldId } },
+      });
+      if (existingField) {
+        throw new Error('A custom field with this name already exists in the project');
+      }
+    }
+
+    const isSelect = field.type === 'SINGLE_SELECT' || field.type === 'MULTI_SELECT';
+    if (data.options !== undefined && isSelect && data.options.length === 0) {
+      throw new Error('Invalid value: select fields need at least one option');
+    }
+
+    const removedOptions =
+      data.options !== undefined && isSelect
+        ? field.options.filter((option) => !data.options!.includes(option))
+        : [];
+
+    const updated = await prisma.$transaction(async (tx) => {
+      let order = data.order;
+
+      if (removedOptions.length > 0) {
+        await this.pruneRemovedOptions(tx, field, removedOptions);
+      }
+
+      if (order !== undefined && order !== field.order) {
+        const count = await tx.customField.count({ where: { projectId } });
+        const newOrder = Math.min(order, count - 1);
+
+        if (newOrder > field.order) {
+          await tx.customField.updateMany({
+            where: { projectId, order: { gt: field.order, lte: newOrder } },
+            data: { order: { decrement: 1 } },
+          });
+        } else if (newOrder < field.order) {
+          await tx.customField.updateMany({
+            where: { projectId, order: { gte: newOrder, lt: field.order } },
+            data: { order: { increment: 1 } },
+          });
+        }
+
+        order = newOrder;
+      }
+
+      return tx.customField.update({
+        where: { id: fieldId },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.options !== undefined && isSelect && { options: data.options }),
+          ...(order !== undefined && { order }),
+        },
+      });
+    });
+
+    if (removedOptions.length > 0) {
+      await taskCache.invalidateProjectTasks(projectId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a custom field and its values (owner or admin only)
+   */
+  static async deleteField(
+    projectId: string,
+    fieldId: string,
+    userId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.CUSTOM_FIELD_MANAGE
+    );
+    if (!hasAccess) {
+      return { success: false, error: 'Permission denied' };
+    }
+
+    const field = await prisma.customField.findFirst({
+      where: { id: fieldId, projectId },
+    });
+    if (!field) {
+      return { success: false, error: 'Custom field not found' };
+    }
+
+    // Cascade removes the values; close the gap in ordering
+    await prisma.$transaction([
+      prisma.customField.delete({ where: { id: fieldId } }),
+      prisma.customField.updateMany({
+        where: { projectId, order: { gt: field.order } },
+        data: { order: { decrement: 1 } },
+      }),
+    ]);
+
+    await taskCache.invalidateProjectTasks(projectId);
+
+    return { success: true };
+  }
+
+  // ============ TASK VALUES ============
+
+  /**
+   * Set a task's value for a field. Null (or an empty string / list) clears it.
+   */
+  static async setTaskValue(
+    projectId: string,
+    taskId: string,
+    fieldId: string,
+    userId: string,
+    value: CustomFieldValueData | null
+  ): Promise<{ field: CustomField; value: CustomFieldValueData | null } | null> {
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, deletedAt: null, column: { projectId } },
+      select: { id: true },
+    });
+    if (!task) {
+      throw new Error('Task not found in this project');
+    }
+
+    const field = await prisma.customField.findFirst({
+      where: { id: fieldId, projectId },
+    });
+    if (!field) {
+      throw new Error('Custom field not found in this project');
+    }
+
+    const normalized = await this.normalizeValue(field, value);
+
+    if (normalized === null) {
+      await prisma.customFieldValue.deleteMany({ where: { taskId, fieldId } });
+    } else {
+      await prisma.customFieldValue.upsert({
+        where: { taskId_fieldId: { taskId, fieldId } },
+        create: { taskId, fieldId, value: normalized },
+        update: { value: normalized },
+      });
+    }
+
+    // Values are part of the cached task payload
+    await taskCache.invalidateTask(taskId, projectId);
+
+    return { field, value: normalized };
+  }
+
+  // ============ HELPERS ============
+
+  /**
+   * Check a value against the field type and convert it to its stored form
+   */
+  private static async normalizeValue(
+    field: CustomField,
+    value: CustomFieldValueData | null
+  ): Promise<CustomFieldValueData | null> {
+    if (value === null) {
+      return null;
+    }
+
+    switch (field.type) {
+      case 'TEXT': {
+        if (typeof value !== 'string') break;
+        const text = value.trim();
+        if (text.length > 1000) {
+          throw new Error('Invalid value: text must be at most 1000 characters');
+        }
+        return text || null;
+      }
+      case 'NUMBER':
+        if (typeof value !== 'number' || !Number.isFinite(value)) break;
+        return value;
+      case 'SINGLE_SELECT':
+        if (typeof value !== 'string') break;
+        if (!field.options.includes(value)) {
+          throw new Error(`Invalid value: "${value}" is not an option of ${field.name}`);
+        }
+        return value;
+      case 'MULTI_SELECT': {
+        if (!Array.isArray(value)) break;
+        const unknown = value.find((option) => !field.options.includes(option));
+        if (unknown !== undefined) {
+          throw new Error(`Invalid value: "${unknown}" is not an option of ${field.name}`);
+        }
+        // Keep the field's option order and drop duplicates
+        const selected = field.options.filter((option) => value.includes(option));
+        return selected.length > 0 ? selected : null;
+      }
+      case 'DATE': {
+        if (typeof value !== 'string') break;
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) break;
+        return date.toISOString();
+      }
+      case 'CHECKBOX':
+        if (typeof value !== 'boolean') break;
+        return value;
+      case 'USER': {
+        if (typeof value !== 'string') break;
+        const member = await prisma.projectMember.findUnique({
+          where: { projectId_userId: { projectId: field.projectId, userId: value } },
+          select: { userId: true },
+        });
+        if (!member) {
+          throw new Error('Invalid value: user is not a member of this project');
+        }
+        return value;
+      }
+    }
+
+    throw new Error(`Invalid value for ${field.type.toLowerCase().replace('_', '-')} field`);
+  }
+
+  /**
+   * Remove deleted select options from stored values
+   */
+  private static async pruneRemovedOptions(
+    tx: Prisma.TransactionClient,
+    field: CustomField,
+    removedOptions: string[]
+  ): Promise<void> {
+    const values = await tx.customFieldValue.findMany({
+      where: { fieldId: field.id },
+      select: { taskId: true, value: true },
+    });
+
+    for (const { taskId, value } of values) {
+      const where = { taskId_fieldId: { taskId, fieldId: field.id } };
+
+      if (field.type === 'SINGLE_SELECT') {
+        if (typeof value === 'string' && removedOptions.includes(value)) {
+          await tx.customFieldValue.delete({ where });
+        }
+        continue;
+      }
+
+      if (Array.isArray(value)) {
+        const kept = value.filter(
+          (option): option is string =>
+            typeof option === 'string' && !removedOptions.includes(option)
+        );
+        if (kept.length === value.length) continue;
+
+        if (kept.length === 0) {
+          await tx.customFieldValue.delete({ where });
+        } else {
+          await tx.customFieldValue.update({ where, data: { value: kept } });
+        }
+      }
+    }
+  }
+}
+
+export default CustomFieldService;
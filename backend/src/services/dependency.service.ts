@@ -0,0 +1,267 @@
+/**
+ * Dependency Service
+ *
+ * Handles "blocks / blocked by" links between tasks, including cycle detection.
+ */
+
+import { prisma } from '../config/database.js';
+import { ProjectService } from './project.service.js';
+import { taskCache } from './cache.service.js';
+import type { DependencyType } from '../validators/dependency.validator.js';
+import { Permission } from '../config/permissions.js';
+
+/**
+ * Task summary returned for each side of a dependency
+ */
+export interface DependencyTaskSummary {
+  id: string;
+  title: string;
+  completedAt: Date | null;
+  column: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Both directions of dependencies for a single task
+ */
+export interface TaskDependencies {
+  blockedBy: DependencyTaskSummary[];
+  blocking: DependencyTaskSummary[];
+}
+
+/**
+ * A created or removed dependency edge
+ */
+export interface DependencyLink {
+  blockingTask: { id: string; title: string };
+  blockedTask: { id: string; title: string };
+}
+
+const taskSummarySelect = {
+  id: true,
+  title: true,
+  completedAt: true,
+  column: { select: { id: true, name: true } },
+} as const;
+
+export class DependencyService {
+  /**
+   * Get the tasks blocking and blocked by a task
+   */
+  static async getTaskDependencies(
+    projectId: string,
+    taskId: string,
+    userId: string
+  ): Promise<TaskDependencies | null> {
+    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, deletedAt: null, column: { projectId } },
+      select: {
+        blockedBy: {
+          where: { blockingTask: { deletedAt: null } },
+          select: { blockingTask: { select: taskSummarySelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+        blocking: {
+          where: { blockedTask: { deletedAt: null } },
+          select: { blockedTask: { select: taskSummarySelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!task) {
+      return null;
+    }
+
+    return {
+      blockedBy: task.blockedBy.map((d) => d.blockingTask),
+      blocking: task.blocking.map((d) => d.blockedTask),
+    };
+  }
+
+  /**
+   * Link two tasks in the same project.
+   * Throws if the link would make a task depend on itself, directly or transitively.
+   */
+  static async addDependency(
+    projectId: string,
+    taskId: string,
+    userId: string,
+    targetTaskId: string,
+    type: DependencyType
+  ): Promise<DependencyLink | null> {
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    if (taskId === targetTaskId) {
+      throw new Error('A task cannot depend on itself');
+    }
+
+    // Both tasks must be live and belong to this project
+    const tasks = await prisma.task.findMany({
+      where: {
+        id: { in: [taskId, targetTaskId] },
+        deletedAt: null,
+        column: { projectId },
+      },
+      select: { id: true, title: true },
+    });
+
+    const task = tasks.find((t) => t.id === taskId);
+    const targetTask = tasks.find((t) => t.id === targetTaskId);
+    if (!task || !targetTask) {
+      return null;
+    }
+
+    const blockingTask = type === 'blocked_by' ? targetTask : task;
+    const blockedTask = type === 'blocked_by' ? task : targetTask;
+
+    const existing = await prisma.taskDependency.findUnique({
+      where: {
+        blockingTaskId_blockedTaskId: {
+          blockingTaskId: blockingTask.id,
+          blockedTaskId: blockedTask.id,
+        },
+      },
+    });
+    if (existing) {
+      return { blockingTask, blockedTask };
+    }
+
+    if (await this.wouldCreateCycle(projectId, blockingTask.id, blockedTask.id)) {
+      throw new Error('This dependency would create a cycle');
+    }
+
+    await prisma.taskDependency.create({
+      data: {
+        blockingTaskId: blockingTask.id,
+        blockedTaskId: blockedTask.id,
+        createdById: userId,
+      },
+    });
+
+    // Blocked state is part of the cached task payload
+    await taskCache.invalidateTask(blockingTask.id, projectId);
+    await taskCache.invalidateTask(blockedTask.id, projectId);
+
+    return { blockingTask, blockedTask };
+  }
+
+  /**
+   * Remove the link between two tasks, whichever direction it points
+   */
+  static async removeDependency(
+    projectId: string,
+    taskId: string,
+    otherTaskId: string,
+    userId: string
+  ): Promise<DependencyLink | null> {
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const dependency = await prisma.taskDependency.findFirst({
+      where: {
+        OR: [
+          { blockingTaskId: taskId, blockedTaskId: otherTaskId },
+          { blockingTaskId: otherTaskId, blockedTaskId: taskId },
+        ],
+        blockedTask: { column: { projectId } },
+      },
+      include: {
+        blockingTask: { select: { id: true, title: true } },
+        blockedTask: { select: { id: true, title: true } },
+      },
+    });
+
+    if (!dependency) {
+      return null;
+    }
+
+    await prisma.taskDependency.delete({
+      where: {
+        blockingTaskId_blockedTaskId: {
+          blockingTaskId: dependency.blockingTaskId,
+          blockedTaskId: dependency.blockedTaskId,
+        },
+      },
+    });
+
+    await taskCache.invalidateTask(dependency.blockingTaskId, projectId);
+    await taskCache.invalidateTask(dependency.blockedTaskId, projectId);
+
+    return {
+      blockingTask: dependency.blockingTask,
+      blockedTask: dependency.blockedTask,
+    };
+  }
+
+  /**
+   * Get unfinished tasks that block the given task
+   */
+  static async getOpenBlockers(taskId: string): Promise<{ id: string; title: string }[]> {
+    const dependencies = await prisma.taskDependency.findMany({
+      where: {
+        blockedTaskId: taskId,
+        blockingTask: { completedAt: null, deletedAt: null },
+      },
+      select: { blockingTask: { select: { id: true, title: true } } },
+    });
+
+    return dependencies.map((d) => d.blockingTask);
+  }
+
+  // ============ HELPERS ============
+
+  /**
+   * Check whether adding blocking -> blocked would close a loop, i.e. whether
+   * the blocked task already (transitively) blocks the blocking task.
+   */
+  private static async wouldCreateCycle(
+    projectId: string,
+    blockingTaskId: string,
+    blockedTaskId: string
+  ): Promise<boolean> {
+    const edges = await prisma.taskDependency.findMany({
+      where: { blockingTask: { column: { projectId } } },
+      select: { blockingTaskId: true, blockedTaskId: true },
+    });
+
+    // Adjacency list: task -> tasks it blocks
+    const graph = new Map<string, string[]>();
+    for (const edge of edges) {
+      const next = graph.get(edge.blockingTaskId) ?? [];
+      next.push(edge.blockedTaskId);
+      graph.set(edge.blockingTaskId, next);
+    }
+
+    // Walk downstream from the blocked task looking for the blocking task
+    const visited = new Set<string>();
+    const stack = [blockedTaskId];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === blockingTaskId) {
+        return true;
+      }
+      if (visited.has(current)) {
+        continue;
+      }
+      visited.add(current);
+      stack.push(...(graph.get(current) ?? []));
+    }
+
+    return false;
+  }
+}
+
+export default DependencyService;
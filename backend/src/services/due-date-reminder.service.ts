@@ -0,0 +1,208 @@
+/**
+ * Due Date Reminder Service
+ *
+ * Reminds assignees before their tasks are due and escalates tasks that
+ * become overdue, following each project's reminder settings. Reminders go
+ * out as notifications (in the app, over the socket and by email) and are
+ * recorded in the task's activity.
+ */
+
+import { prisma } from '../config/database.js';
+import { ActivityService, ActivityAction } from './activity.service.js';
+import { NotificationService } from './notification.service.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Longest reminder lead time a project can choose (see project validator)
+const MAX_DUE_REMINDER_HOURS = 7 * 24; // 1 week
+
+// Tasks that were already overdue this long when notices were switched on
+// are not escalated
+const OVERDUE_LOOKBACK_MS = 7 * 24 * HOUR_MS; // 1 week
+
+/**
+ * Result of a single reminder pass
+ */
+export interface DueDateReminderResult {
+  /** Due soon notifications created */
+  reminders: number;
+  /** Overdue notifications created */
+  overdue: number;
+}
+
+export class DueDateReminderService {
+  /**
+   * Send all due soon reminders and overdue notices that are due
+   */
+  static async run(now: Date = new Date()): Promise<DueDateReminderResult> {
+    const reminders = await this.processDueSoonTasks(now);
+    const overdue = await this.processOverdueTasks(now);
+
+    return { reminders, overdue };
+  }
+
+  /**
+   * Remind assignees about open tasks that are due within their project's
+   * reminder window. Each assignee is reminded once per due date; postponing
+   * a task reminds them again when the new due date comes near.
+   * Returns the number of notifications created.
+   */
+  static async processDueSoonTasks(now: Date = new Date()): Promise<number> {
+    const tasks = await prisma.task.findMany({
+      where: {
+        dueDate: { gt: now, lte: new Date(now.getTime() + MAX_DUE_REMINDER_HOURS * HOUR_MS) },
+        completedAt: null,
+        deletedAt: null,
+        column: { project: { deletedAt: null, archivedAt: null, dueReminderHours: { not: null } } },
+        assignees: { some: {} },
+      },
+      select: {
+        id: true,
+        title: true,
+        dueDate: true,
+        createdById: true,
+        column: {
+          select: { projectId: true, project: { select: { dueReminderHours: true } } },
+        },
+        assignees: { select: { userId: true } },
+        notifications: {
+          where: { type: 'TASK_DUE_SOON' },
+          select: { userId: true, createdAt: true },
+        },
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    let created = 0;
+    for (const task of tasks) {
+      const dueDate = task.dueDate!;
+      const windowStart = new Date(
+        dueDate.getTime() - task.column.project.dueReminderHours! * HOUR_MS
+      );
+      if (now < windowStart) continue;
+
+      const reminded = new Set(
+        task.notifications
+          .filter((n) => n.createdAt >= windowStart)
+          .map((n) => n.userId)
+      );
+
+      const recipients = await this.filterProjectMembers(
+        task.column.projectId,
+        task.assignees.map((a) => a.userId)
+      );
+
+      const notifications = await NotificationService.notify({
+        type: 'TASK_DUE_SOON',
+        userIds: recipients.filter((id) => !reminded.has(id)),
+        actorId: null,
+        projectId: task.column.projectId,
+        taskId: task.id,
+        metadata: { taskTitle: task.title, dueDate: dueDate.toISOString() },
+      });
+      created += notifications.length;
+
+      // Late assignees are reminded too, but the task only gets one entry
+      if (notifications.length > 0 && reminded.size === 0) {
+        ActivityService.logAsync({
+          action: ActivityAction.TASK_DUE_SOON,
+          projectId: task.column.projectId,
+          userId: task.createdById,
+          taskId: task.id,
+          metadata: { taskTitle: task.title, taskId: task.id, dueDate: dueDate.toISOString() },
+        });
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Tell assignees and the task's creator once a task is past its due date,
+   * if they are still project members. Each person is told once per due date.
+   * Returns the number of notifications created.
+   */
+  static async processOverdueTasks(now: Date = new Date()): Promise<number> {
+    const tasks = await prisma.task.findMany({
+      where: {
+        dueDate: { lte: now, gt: new Date(now.getTime() - OVERDUE_LOOKBACK_MS) },
+        completedAt: null,
+        deletedAt: null,
+        column: { project: { deletedAt: null, archivedAt: null, overdueNotices: true } },
+      },
+      select: {
+        id: true,
+        title: true,
+        dueDate: true,
+        createdById: true,
+        column: { select: { projectId: true } },
+        assignees: { select: { userId: true } },
+        notifications: {
+          where: { type: 'TASK_OVERDUE' },
+          select: { userId: true, createdAt: true },
+        },
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    let created = 0;
+    for (const task of tasks) {
+      const dueDate = task.dueDate!;
+      const notified = new Set(
+        task.notifications
+          .filter((n) => n.createdAt >= dueDate)
+          .map((n) => n.userId)
+      );
+
+      const recipients = await this.filterProjectMembers(task.column.projectId, [
+        ...task.assignees.map((a) => a.userId),
+        task.createdById,
+      ]);
+
+      const notifications = await NotificationService.notify({
+        type: 'TASK_OVERDUE',
+        userIds: recipients.filter((id) => !notified.has(id)),
+        actorId: null,
+        projectId: task.column.projectId,
+        taskId: task.id,
+        metadata: { taskTitle: task.title, dueDate: dueDate.toISOString() },
+      });
+      created += notifications.length;
+
+      if (notifications.length > 0 && notified.size === 0) {
+        ActivityService.logAsync({
+          action: ActivityAction.TASK_OVERDUE,
+          projectId: task.column.projectId,
+          userId: task.createdById,
+          taskId: task.id,
+          metadata: { taskTitle: task.title, taskId: task.id, dueDate: dueDate.toISOString() },
+        });
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Keep only the users who are still members of the project, so people
+   * removed from it stop hearing about its tasks
+   */
+  private static async filterProjectMembers(
+    projectId: string,
+    userIds: string[]
+  ): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const members = await prisma.projectMember.findMany({
+      where: { projectId, userId: { in: userIds } },
+      select: { userId: true },
+    });
+    const memberIds = new Set(members.map((m) => m.userId));
+
+    return [...new Set(userIds)].filter((id) => memberIds.has(id));
+  }
+}
+
+export default DueDateReminderService;
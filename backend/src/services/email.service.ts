@@ -2,17 +2,63 @@
  * Email Service
  *
  * Provides email sending functionality for various application needs.
- * Uses Resend for transactional emails.
+ * Uses Resend for transactional emails, or a local SMTP stand-in in development.
  */
 
-import { resend, emailConfig } from '../config/email.js';
+import { resend, smtpTransport, emailConfig } from '../config/email.js';
 import { env } from '../config/env.js';
 
+/**
+ * Escape user-provided text for HTML email bodies
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
 interface SendEmailOptions {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * One notification as shown in an email
+ */
+export interface NotificationEmailItem {
+  /** e.g. "Ann assigned you to Fix login" */
+  message: string;
+  projectName: string;
+  /** Plain-text excerpt of the comment or description */
+  excerpt: string | null;
+  url: string;
+}
+
+/**
+ * Links every notification email carries
+ */
+export interface NotificationEmailLinks {
+  /** Page confirming the unsubscribe, for the link in the footer */
+  unsubscribeUrl: string;
+  /** API endpoint mail clients POST to (RFC 8058 one-click unsubscribe) */
+  oneClickUnsubscribeUrl: string;
+  preferencesUrl: string;
+}
+
+/**
+ * List-Unsubscribe headers so mail clients can offer one-click unsubscribe
+ */
+function unsubscribeHeaders(links: NotificationEmailLinks): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${links.oneClickUnsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
 }
 
 export class EmailService {
@@ -27,6 +73,19 @@ export class EmailService {
    * Send an email
    */
   static async send(options: SendEmailOptions): Promise<boolean> {
+    if (!resend && smtpTransport) {
+      try {
+        await smtpTransport.sendMail({
+          from: emailConfig.from,
+          ...options,
+        });
+        return true;
+      } catch {
+        // Silent fail - email should never break main flow
+        return false;
+      }
+    }
+
     if (!resend) {
       if (env.NODE_ENV === 'development') {
         // Log email details in development when Resend is not configured
@@ -45,6 +104,7 @@ export class EmailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        headers: options.headers,
       });
       return true;
     } catch {
@@ -213,6 +273,260 @@ Visit: ${loginUrl}
       text,
     });
   }
+
+  /**
+   * Send a project invitation email
+   */
+  static async sendProjectInvitationEmail(
+    email: string,
+    details: {
+      inviterName: string;
+      projectName: string;
+      role: string;
+      acceptUrl: string;
+      expiresAt: Date;
+    }
+  ): Promise<boolean> {
+    const appName = env.APP_NAME;
+    const role = details.role.toLowerCase();
+    const expiresOn = details.expiresAt.toUTCString().slice(0, 16);
+
+    const subject = `${details.inviterName} invited you to ${details.projectName} on ${appName}`;
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; line-height: 1.6; color: #1f2937; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">${appName}</h1>
+  </div>
+
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <h2 style="color: #1f2937; margin-top: 0;">You're invited!</h2>
+
+    <p style="color: #4b5563;">
+      <strong>${escapeHtml(details.inviterName)}</strong> invited you to join
+      <strong>${escapeHtml(details.projectName)}</strong> as ${role === 'admin' ? 'an' : 'a'} ${role}.
+    </p>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${details.acceptUrl}"
+         style="background: #667eea; color: white; padding: 14px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; display: inline-block;">
+        Accept Invitation
+      </a>
+    </div>
+
+    <p style="color: #6b7280; font-size: 14px;">
+      This invitation expires on ${expiresOn}. If you don't have an account yet, you can create one when you accept.
+    </p>
+
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+    <p style="color: #9ca3af; font-size: 12px; margin-bottom: 0;">
+      If you weren't expecting this invitation, you can safely ignore this email.
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    &copy; ${new Date().getFullYear()} ${appName}. All rights reserved.
+  </div>
+</body>
+</html>`;
+
+    const text = `
+You're invited!
+
+${details.inviterName} invited you to join ${details.projectName} as ${role === 'admin' ? 'an' : 'a'} ${role}.
+
+Accept the invitation: ${details.acceptUrl}
+
+This invitation expires on ${expiresOn}. If you don't have an account yet, you can create one when you accept.
+
+If you weren't expecting this invitation, you can safely ignore this email.
+
+© ${new Date().getFullYear()} ${appName}
+`;
+
+    return this.send({
+      to: email,
+      subject,
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send a single notification email
+   */
+  static async sendNotificationEmail(
+    email: string,
+    item: NotificationEmailItem,
+    links: NotificationEmailLinks
+  ): Promise<boolean> {
+    const appName = env.APP_NAME;
+
+    const subject = item.message;
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; line-height: 1.6; color: #1f2937; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">${appName}</h1>
+  </div>
+
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <h2 style="color: #1f2937; margin-top: 0;">${escapeHtml(item.message)}</h2>
+
+    <p style="color: #6b7280; font-size: 14px;">${escapeHtml(item.projectName)}</p>
+${
+  item.excerpt
+    ? `
+    <blockquote style="margin: 20px 0; padding: 12px 16px; border-left: 4px solid #e5e7eb; color: #4b5563; white-space: pre-wrap;">${escapeHtml(item.excerpt)}</blockquote>
+`
+    : ''
+}
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${item.url}"
+         style="background: #667eea; color: white; padding: 14px 32px; border-radius: 8px; text-decoration: none; font-weight: 600; display: inline-block;">
+        View Task
+      </a>
+    </div>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    <a href="${links.preferencesUrl}" style="color: #9ca3af;">Email preferences</a>
+    &middot;
+    <a href="${links.unsubscribeUrl}" style="color: #9ca3af;">Unsubscribe from these emails</a>
+    <br>
+    &copy; ${new Date().getFullYear()} ${appName}. All rights reserved.
+  </div>
+</body>
+</html>`;
+
+    const text = `
+${item.message}
+${item.projectName}
+${item.excerpt ? `\n${item.excerpt}\n` : ''}
+View the task: ${item.url}
+
+Email preferences: ${links.preferencesUrl}
+Unsubscribe from these emails: ${links.unsubscribeUrl}
+
+© ${new Date().getFullYear()} ${appName}
+`;
+
+    return this.send({
+      to: email,
+      subject,
+      html,
+      text,
+      headers: unsubscribeHeaders(links),
+    });
+  }
+
+  /**
+   * Send a digest of several notifications in one email
+   */
+  static async sendNotificationDigest(
+    email: string,
+    details: {
+      name: string;
+      items: NotificationEmailItem[];
+    },
+    links: NotificationEmailLinks
+  ): Promise<boolean> {
+    const appName = env.APP_NAME;
+    const count = details.items.length;
+
+    const subject = `${count} new notification${count === 1 ? '' : 's'} on ${appName}`;
+
+    const itemsHtml = details.items
+      .map(
+        (item) => `
+      <tr>
+        <td style="padding: 14px 0; border-bottom: 1px solid #f3f4f6;">
+          <a href="${item.url}" style="color: #1f2937; font-weight: 600; text-decoration: none;">${escapeHtml(item.message)}</a>
+          <div style="color: #9ca3af; font-size: 12px;">${escapeHtml(item.projectName)}</div>${
+            item.excerpt
+              ? `
+          <div style="color: #4b5563; font-size: 14px; margin-top: 6px; white-space: pre-wrap;">${escapeHtml(item.excerpt)}</div>`
+              : ''
+          }
+        </td>
+      </tr>`
+      )
+      .join('');
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; line-height: 1.6; color: #1f2937; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <h1 style="color: white; margin: 0; font-size: 28px;">${appName}</h1>
+  </div>
+
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 12px 12px;">
+    <h2 style="color: #1f2937; margin-top: 0;">Hi ${escapeHtml(details.name)},</h2>
+
+    <p style="color: #4b5563;">
+      Here is what happened in ${appName} since your last summary.
+    </p>
+
+    <table style="width: 100%; border-collapse: collapse;">${itemsHtml}
+    </table>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #9ca3af; font-size: 12px;">
+    <a href="${links.preferencesUrl}" style="color: #9ca3af;">Email preferences</a>
+    &middot;
+    <a href="${links.unsubscribeUrl}" style="color: #9ca3af;">Unsubscribe from all notification emails</a>
+    <br>
+    &copy; ${new Date().getFullYear()} ${appName}. All rights reserved.
+  </div>
+</body>
+</html>`;
+
+    const itemsText = details.items
+      .map(
+        (item) =>
+          `- ${item.message} (${item.projectName})${item.excerpt ? `\n  ${item.excerpt}` : ''}\n  ${item.url}`
+      )
+      .join('\n\n');
+
+    const text = `
+Hi ${details.name},
+
+Here is what happened in ${appName} since your last summary.
+
+${itemsText}
+
+Email preferences: ${links.preferencesUrl}
+Unsubscribe from all notification emails: ${links.unsubscribeUrl}
+
+© ${new Date().getFullYear()} ${appName}
+`;
+
+    return this.send({
+      to: email,
+      subject,
+      html,
+      text,
+      headers: unsubscribeHeaders(links),
+    });
+  }
 }
 
 export default EmailService;
@@ -0,0 +1,107 @@
+/**
+ * Event Log Service
+ *
+ * Gives every live update broadcast to a project room a per-project,
+ * monotonically increasing sequence number, and keeps a short log of
+ * recent broadcasts in Redis. Clients send the last sequence they saw when
+ * they rejoin a project (e.g. after a laptop wakes up) and get the events
+ * they missed replayed, or are told to refetch if the gap is too large.
+ *
+ * Key Patterns:
+ * - events:{projectId}:seq - Last sequence number (never expires)
+ * - events:{projectId}:log - Sorted set of logged events, scored by sequence
+ *
+ * Features:
+ * - Log capped at the most recent events and expired after an hour idle
+ * - Sequence survives log expiry, so gaps are always detectable
+ */
+
+import { redis } from '../config/redis.js';
+import { logger } from '../config/logger.js';
+import type { LoggedEvent, ProjectLiveEvent } from '../types/presence.js';
+
+const eventLogLogger = logger.child({ module: 'event-log' });
+
+/**
+ * Result of looking up the events a client missed.
+ * `events` is null when they can no longer be replayed and the client
+ * has to refetch the project instead.
+ */
+export interface MissedEvents {
+  seq: number;
+  events: LoggedEvent[] | null;
+}
+
+class EventLogService {
+  private readonly TTL = 60 * 60; // seconds
+  private readonly MAX_LOGGED_EVENTS = 200;
+  private readonly PREFIX = 'events';
+
+  private sequenceKey(projectId: string): string {
+    return `${this.PREFIX}:${projectId}:seq`;
+  }
+
+  private logKey(projectId: string): string {
+    return `${this.PREFIX}:${projectId}:log`;
+  }
+
+  /**
+   * Assign the next sequence number to a project event and log it.
+   * Throws if Redis is unavailable; callers broadcast without a sequence.
+   */
+  async record(projectId: string, event: ProjectLiveEvent, payload: unknown): Promise<number> {
+    const seq = await redis.incr(this.sequenceKey(projectId));
+    const entry: LoggedEvent = { seq, event, payload };
+    const logKey = this.logKey(projectId);
+
+    await redis
+      .multi()
+      .zadd(logKey, seq, JSON.stringify(entry))
+      .zremrangebyrank(logKey, 0, -this.MAX_LOGGED_EVENTS - 1)
+      .expire(logKey, this.TTL)
+      .exec();
+
+    return seq;
+  }
+
+  /**
+   * Get the current sequence number for a project (0 if nothing was logged)
+   */
+  async getSequence(projectId: string): Promise<number> {
+    const value = await redis.get(this.sequenceKey(projectId));
+    return value ? Number(value) : 0;
+  }
+
+  /**
+   * Get the events logged after `lastSeq`, in order.
+   * Returns null events when some of them are no longer in the log, or the
+   * sequence was reset (e.g. Redis was flushed).
+   */
+  async getMissedEvents(projectId: string, lastSeq: number): Promise<MissedEvents> {
+    const seq = await this.getSequence(projectId);
+
+    if (lastSeq === seq) {
+      return { seq, events: [] };
+    }
+    if (lastSeq > seq || seq - lastSeq > this.MAX_LOGGED_EVENTS) {
+      return { seq, events: null };
+    }
+
+    const entries = await redis.zrangebyscore(this.logKey(projectId), `(${lastSeq}`, seq);
+    const events = entries.map((entry) => JSON.parse(entry) as LoggedEvent);
+
+    // Trimmed, expired, or still being written - replaying would leave a hole
+    if (events.length !== seq - lastSeq) {
+      eventLogLogger.debug(
+        { projectId, lastSeq, seq, logged: events.length },
+        'Missed events not fully logged'
+      );
+      return { seq, events: null };
+    }
+
+    return { seq, events };
+  }
+}
+
+export const eventLogService = new EventLogService();
+export default eventLogService;
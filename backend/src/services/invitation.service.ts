@@ -0,0 +1,365 @@
+/**
+ * Invitation Service
+ *
+ * Invites people to a project by email, whether or not they have an account
+ * yet. Invitation links carry a signed, expiring token; the invitation stays
+ * pending until the invitee accepts it or an admin revokes it.
+ */
+
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import type { ProjectInvitation, Role } from '@prisma/client';
+import { EmailService } from './email.service.js';
+import { ProjectService } from './project.service.js';
+import { WorkspaceService } from './workspace.service.js';
+import { ActivityService, ActivityAction } from './activity.service.js';
+import { projectCache } from './cache.service.js';
+import type { CreateInvitationInput } from '../validators/invitation.validator.js';
+import { Permission } from '../config/permissions.js';
+
+const INVITATION_TTL_DAYS = 7;
+const TOKEN_PURPOSE = 'project-invitation';
+
+interface InvitationTokenPayload {
+  purpose: typeof TOKEN_PURPOSE;
+  invitationId: string;
+  tokenId: string;
+}
+
+/**
+ * Pending invitation as shown in the members list
+ */
+export type InvitationWithInviter = ProjectInvitation & {
+  invitedBy: {
+    id: string;
+    name: string;
+  };
+};
+
+/**
+ * What the accept page shows before the invitee signs in
+ */
+export interface InvitationPreview {
+  email: string;
+  role: Role;
+  expiresAt: Date;
+  project: {
+    id: string;
+    name: string;
+  };
+  invitedBy: {
+    name: string;
+  };
+  /** Whether the invitee should sign in (true) or register (false) */
+  hasAccount: boolean;
+}
+
+const invitationInclude = {
+  invitedBy: {
+    select: { id: true, name: true },
+  },
+} as const;
+
+function getExpiresAt(): Date {
+  return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function signInvitationToken(invitationId: string, tokenId: string): string {
+  const payload: InvitationTokenPayload = { purpose: TOKEN_PURPOSE, invitationId, tokenId };
+  return jwt.sign(payload, env.JWT_SECRET, { expiresIn: `${INVITATION_TTL_DAYS}d` });
+}
+
+function verifyInvitationToken(token: string): InvitationTokenPayload | null {
+  try {
+    const payload = jwt.verify(token, env.JWT_SECRET) as Partial<InvitationTokenPayload>;
+    if (payload.purpose !== TOKEN_PURPOSE || !payload.invitationId || !payload.tokenId) {
+      return null;
+    }
+    return payload as InvitationTokenPayload;
+  } catch {
+    return null;
+  }
+}
+
+export class InvitationService {
+  /**
+   * List a project's pending invitations (owner or admin only)
+   */
+  static async getPendingInvitations(
+    projectId: string,
+    requesterId: string
+  ): Promise<InvitationWithInviter[] | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      requesterId,
+      Permission.MEMBER_INVITE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    return prisma.projectInvitation.findMany({
+      where: { projectId },
+      include: invitationInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Invite an email address to a project and send the invitation email.
+   * Inviting an address that already has a pending invitation sends a fresh link.
+   */
+  static async createInvitation(
+    projectId: string,
+    requesterId: string,
+    data: CreateInvitationInput
+  ): Promise<InvitationWithInviter | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      requesterId,
+      Permission.MEMBER_INVITE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const email = data.email.trim().toLowerCase();
+
+    const existingMember = await prisma.projectMember.findFirst({
+      where: { projectId, user: { email: { equals: email, mode: 'insensitive' } } },
+    });
+    if (existingMember) {
+      throw new Error('User is already a member of this project');
+    }
+
+    const tokenId = crypto.randomUUID();
+    const expiresAt = getExpiresAt();
+
+    const invitation = await prisma.projectInvitation.upsert({
+      where: { projectId_email: { projectId, email } },
+      create: {
+        projectId,
+        email,
+        role: data.role as Role,
+        invitedById: requesterId,
+        tokenId,
+        expiresAt,
+      },
+      update: {
+        role: data.role as Role,
+        invitedById: requesterId,
+        tokenId,
+        expiresAt,
+      },
+      include: invitationInclude,
+    });
+
+    await this.sendInvitationEmail(invitation);
+
+    return invitation;
+  }
+
+  /**
+   * Send a fresh invitation link; earlier links stop working
+   */
+  static async resendInvitation(
+    projectId: string,
+    requesterId: string,
+    invitationId: string
+  ): Promise<InvitationWithInviter | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      requesterId,
+      Permission.MEMBER_INVITE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const existing = await prisma.projectInvitation.findFirst({
+      where: { id: invitationId, projectId },
+    });
+    if (!existing) {
+      return null;
+    }
+
+    const invitation = await prisma.projectInvitation.update({
+      where: { id: invitationId },
+      data: {
+        tokenId: crypto.randomUUID(),
+        expiresAt: getExpiresAt(),
+      },
+      include: invitationInclude,
+    });
+
+    await this.sendInvitationEmail(invitation);
+
+    return invitation;
+  }
+
+  /**
+   * Revoke a pending invitation so its link stops working
+   */
+  static async revokeInvitation(
+    projectId: string,
+    requesterId: string,
+    invitationId: string
+  ): Promise<boolean> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      requesterId,
+      Permission.MEMBER_INVITE
+    );
+    if (!hasAccess) {
+      return false;
+    }
+
+    const result = await prisma.projectInvitation.deleteMany({
+      where: { id: invitationId, projectId },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Look up the invitation behind a link.
+   * Returns null if the token is invalid, expired, replaced or revoked.
+   */
+  static async getInvitationByToken(token: string): Promise<InvitationPreview | null> {
+    const invitation = await this.findValidInvitation(token);
+    if (!invitation) {
+      return null;
+    }
+
+    const account = await prisma.user.findFirst({
+      where: { email: { equals: invitation.email, mode: 'insensitive' } },
+      select: { id: true },
+    });
+
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      project: invitation.project,
+      invitedBy: { name: invitation.invitedBy.name },
+      hasAccount: !!account,
+    };
+  }
+
+  /**
+   * Accept an invitation as the signed-in user, whose email must match the
+   * invited address. Returns the project ID, or null if the link is no longer valid.
+   */
+  static async acceptInvitation(
+    token: string,
+    user: { id: string; email: string; name: string }
+  ): Promise<{ projectId: string } | null> {
+    const invitation = await this.findValidInvitation(token);
+    if (!invitation) {
+      return null;
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+      throw new Error('This invitation was sent to a different email address');
+    }
+
+    const { projectId } = invitation;
+
+    const isNewMember = await prisma.$transaction(async (tx) => {
+      await tx.projectInvitation.delete({ where: { id: invitation.id } });
+
+      const existing = await tx.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: user.id } },
+      });
+      if (existing) {
+        return false;
+      }
+
+      await tx.projectMember.create({
+        data: { projectId, userId: user.id, role: invitation.role },
+      });
+
+      const { workspaceId } = await tx.project.findUniqueOrThrow({
+        where: { id: projectId },
+        select: { workspaceId: true },
+      });
+      await WorkspaceService.ensureMember(workspaceId, user.id, tx);
+      return true;
+    });
+
+    if (isNewMember) {
+      await projectCache.invalidateMembership(projectId, user.id);
+
+      ActivityService.logAsync({
+        action: ActivityAction.MEMBER_ADDED,
+        projectId,
+        userId: user.id,
+        metadata: {
+          memberName: user.name,
+          memberId: user.id,
+          newRole: invitation.role,
+        },
+      });
+    }
+
+    return { projectId };
+  }
+
+  /**
+   * Find the pending invitation a token points at
+   */
+  private static async findValidInvitation(token: string) {
+    const payload = verifyInvitationToken(token);
+    if (!payload) {
+      return null;
+    }
+
+    const invitation = await prisma.projectInvitation.findUnique({
+      where: { id: payload.invitationId },
+      include: {
+        ...invitationInclude,
+        project: {
+          select: { id: true, name: true, deletedAt: true },
+        },
+      },
+    });
+
+    if (
+      !invitation ||
+      invitation.tokenId !== payload.tokenId ||
+      invitation.expiresAt < new Date() ||
+      invitation.project.deletedAt
+    ) {
+      return null;
+    }
+
+    return {
+      ...invitation,
+      project: { id: invitation.project.id, name: invitation.project.name },
+    };
+  }
+
+  /**
+   * Email the invitee a link with a freshly signed token
+   */
+  private static async sendInvitationEmail(invitation: InvitationWithInviter): Promise<void> {
+    const project = await prisma.project.findUnique({
+      where: { id: invitation.projectId },
+      select: { name: true },
+    });
+
+    const token = signInvitationToken(invitation.id, invitation.tokenId);
+
+    await EmailService.sendProjectInvitationEmail(invitation.email, {
+      inviterName: invitation.invitedBy.name,
+      projectName: project?.name ?? 'a project',
+      role: invitation.role,
+      acceptUrl: `${env.FRONTEND_URL}/invite/${token}`,
+      expiresAt: invitation.expiresAt,
+    });
+  }
+}
+
+export default InvitationService;
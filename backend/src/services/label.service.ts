@@ -1,12 +1,24 @@
 import { prisma } from '../config/database.js';
-import type { Label, TaskLabel } from '@prisma/client';
+import type { Label, Prisma, TaskLabel } from '@prisma/client';
 import type { CreateLabelInput, UpdateLabelInput } from '../validators/label.validator.js';
 import { ProjectService } from './project.service.js';
+import { WorkspaceService } from './workspace.service.js';
+import { Permission, WorkspacePermission } from '../config/permissions.js';
+import { withVersionCheck } from '../utils/concurrency.js';
 
 type LabelWithTaskCount = Label & {
   _count?: { tasks: number };
 };
 
+/**
+ * Labels usable in a project: its own plus its workspace's
+ */
+function projectLabelsWhere(projectId: string): Prisma.LabelWhereInput {
+  return {
+    OR: [{ projectId }, { workspace: { projects: { some: { id: projectId } } } }],
+  };
+}
+
 export class LabelService {
   // ============ LABEL CRUD ============
 
@@ -24,7 +36,7 @@ export class LabelService {
     }
 
     return prisma.label.findMany({
-      where: { projectId },
+      where: projectLabelsWhere(projectId),
       include: {
         _count: {
           select: { tasks: true },
@@ -51,7 +63,7 @@ export class LabelService {
     return prisma.label.findFirst({
       where: {
         id: labelId,
-        projectId,
+        ...projectLabelsWhere(projectId),
       },
       include: {
         _count: {
@@ -69,8 +81,12 @@ export class LabelService {
     userId: string,
     data: CreateLabelInput
   ): Promise<Label | null> {
-    // Check if user has access (members can create labels)
-    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    // Check if user can create labels
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.LABEL_CREATE
+    );
     if (!hasAccess) {
       return null;
     }
@@ -106,7 +122,11 @@ export class LabelService {
     data: UpdateLabelInput
   ): Promise<Label | null> {
     // Check if user has access
-    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.LABEL_UPDATE
+    );
     if (!hasAccess) {
       return null;
     }
@@ -138,13 +158,19 @@ export class LabelService {
       }
     }
 
-    return prisma.label.update({
-      where: { id: labelId },
-      data: {
-        ...(data.name !== undefined && { name: data.name }),
-        ...(data.color !== undefined && { color: data.color }),
-      },
-    });
+    return withVersionCheck(
+      'label',
+      () =>
+        prisma.label.update({
+          where: { id: labelId, version: data.version ?? label.version },
+          data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.color !== undefined && { color: data.color }),
+            version: { increment: 1 },
+          },
+        }),
+      () => prisma.label.findUnique({ where: { id: labelId } })
+    );
   }
 
   /**
@@ -155,11 +181,11 @@ export class LabelService {
     labelId: string,
     userId: string
   ): Promise<{ success: boolean; error?: string }> {
-    // Check if user has access (owner or admin only)
-    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId, [
-      'OWNER',
-      'ADMIN',
-    ]);
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.LABEL_DELETE
+    );
     if (!hasAccess) {
       return { success: false, error: 'Permission denied' };
     }
@@ -184,6 +210,140 @@ export class LabelService {
     return { success: true };
   }
 
+  // ============ WORKSPACE LABELS ============
+
+  /**
+   * Get labels shared by every project in a workspace
+   */
+  static async getWorkspaceLabels(
+    workspaceId: string,
+    userId: string
+  ): Promise<LabelWithTaskCount[] | null> {
+    const role = await WorkspaceService.getUserRole(workspaceId, userId);
+    if (!role) {
+      return null;
+    }
+
+    return prisma.label.findMany({
+      where: { workspaceId },
+      include: {
+        _count: {
+          select: { tasks: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  static async createWorkspaceLabel(
+    workspaceId: string,
+    userId: string,
+    data: CreateLabelInput
+  ): Promise<Label | null> {
+    const hasAccess = await WorkspaceService.hasPermission(
+      workspaceId,
+      userId,
+      WorkspacePermission.WORKSPACE_LABEL_MANAGE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const existingLabel = await prisma.label.findFirst({
+      where: { workspaceId, name: data.name },
+    });
+
+    if (existingLabel) {
+      throw new Error('A label with this name already exists in the workspace');
+    }
+
+    return prisma.label.create({
+      data: {
+        name: data.name,
+        color: data.color,
+        workspaceId,
+      },
+    });
+  }
+
+  static async updateWorkspaceLabel(
+    workspaceId: string,
+    labelId: string,
+    userId: string,
+    data: UpdateLabelInput
+  ): Promise<Label | null> {
+    const hasAccess = await WorkspaceService.hasPermission(
+      workspaceId,
+      userId,
+      WorkspacePermission.WORKSPACE_LABEL_MANAGE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const label = await prisma.label.findFirst({
+      where: { id: labelId, workspaceId },
+    });
+
+    if (!label) {
+      return null;
+    }
+
+    if (data.name && data.name !== label.name) {
+      const existingLabel = await prisma.label.findFirst({
+        where: { workspaceId, name: data.name, id: { not: labelId } },
+      });
+
+      if (existingLabel) {
+        throw new Error('A label with this name already exists in the workspace');
+      }
+    }
+
+    return withVersionCheck(
+      'label',
+      () =>
+        prisma.label.update({
+          where: { id: labelId, version: data.version ?? label.version },
+          data: {
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.color !== undefined && { color: data.color }),
+            version: { increment: 1 },
+          },
+        }),
+      () => prisma.label.findUnique({ where: { id: labelId } })
+    );
+  }
+
+  static async deleteWorkspaceLabel(
+    workspaceId: string,
+    labelId: string,
+    userId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const hasAccess = await WorkspaceService.hasPermission(
+      workspaceId,
+      userId,
+      WorkspacePermission.WORKSPACE_LABEL_MANAGE
+    );
+    if (!hasAccess) {
+      return { success: false, error: 'Permission denied' };
+    }
+
+    const label = await prisma.label.findFirst({
+      where: { id: labelId, workspaceId },
+    });
+
+    if (!label) {
+      return { success: false, error: 'Label not found' };
+    }
+
+    // Removes it from tasks in every project of the workspace
+    await prisma.label.delete({
+      where: { id: labelId },
+    });
+
+    return { success: true };
+  }
+
   // ============ TASK LABEL OPERATIONS ============
 
   /**
@@ -196,7 +356,7 @@ export class LabelService {
     userId: string
   ): Promise<TaskLabel | null> {
     // Check if user has access
-    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
     if (!hasAccess) {
       return null;
     }
@@ -216,11 +376,11 @@ export class LabelService {
       throw new Error('Task not found in this project');
     }
 
-    // Verify label belongs to project
+    // Verify label belongs to project or its workspace
     const label = await prisma.label.findFirst({
       where: {
         id: labelId,
-        projectId,
+        ...projectLabelsWhere(projectId),
       },
     });
 
@@ -260,7 +420,7 @@ export class LabelService {
     userId: string
   ): Promise<{ success: boolean; error?: string }> {
     // Check if user has access
-    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
     if (!hasAccess) {
       return { success: false, error: 'Permission denied' };
     }
@@ -316,7 +476,7 @@ export class LabelService {
     userId: string
   ): Promise<Label[] | null> {
     // Check if user has access
-    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
     if (!hasAccess) {
       return null;
     }
@@ -336,12 +496,12 @@ export class LabelService {
       throw new Error('Task not found in this project');
     }
 
-    // Verify all labels belong to project
+    // Verify all labels belong to project or its workspace
     if (labelIds.length > 0) {
       const labels = await prisma.label.findMany({
         where: {
           id: { in: labelIds },
-          projectId,
+          ...projectLabelsWhere(projectId),
         },
       });
 
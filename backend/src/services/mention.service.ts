@@ -0,0 +1,98 @@
+/**
+ * Mention Service
+ *
+ * Records @mentions in task descriptions and comments and notifies the
+ * mentioned users.
+ */
+
+import { prisma } from '../config/database.js';
+import { NotificationService } from './notification.service.js';
+import { getNewMentions, mentionsToPlainText } from '../utils/mentions.js';
+import { toPlainText } from '../utils/sanitize.js';
+
+const EXCERPT_LENGTH = 300;
+
+/**
+ * Input for recording the mentions in a description or comment
+ */
+export interface RecordMentionsInput {
+  projectId: string;
+  taskId: string;
+  /** Set when the mentions are in a comment */
+  commentId?: string;
+  /** The user who wrote the text */
+  mentionedById: string;
+  /** Text before the edit; users already mentioned there are skipped */
+  previousContent?: string | null;
+  content: string | null;
+}
+
+export class MentionService {
+  /**
+   * Record new mentions and notify the mentioned users. Only project members
+   * can be mentioned, and authors are never notified about themselves.
+   * Returns the IDs of the users who were notified.
+   */
+  static async recordMentions(input: RecordMentionsInput): Promise<string[]> {
+    const candidateIds = getNewMentions(input.previousContent, input.content).filter(
+      (id) => id !== input.mentionedById
+    );
+    if (candidateIds.length === 0) {
+      return [];
+    }
+
+    const members = await prisma.projectMember.findMany({
+      where: { projectId: input.projectId, userId: { in: candidateIds } },
+      select: { user: { select: { id: true } } },
+    });
+    if (members.length === 0) {
+      return [];
+    }
+
+    await prisma.mention.createMany({
+      data: members.map(({ user }) => ({
+        userId: user.id,
+        mentionedById: input.mentionedById,
+        taskId: input.taskId,
+        commentId: input.commentId ?? null,
+      })),
+    });
+
+    const task = await prisma.task.findUnique({
+      where: { id: input.taskId },
+      select: { title: true },
+    });
+
+    if (task) {
+      const text = input.commentId
+        ? mentionsToPlainText(input.content ?? '')
+        : toPlainText(input.content);
+      const excerpt =
+        text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+
+      await NotificationService.notify({
+        type: 'MENTIONED',
+        userIds: members.map(({ user }) => user.id),
+        actorId: input.mentionedById,
+        projectId: input.projectId,
+        taskId: input.taskId,
+        commentId: input.commentId,
+        metadata: { taskTitle: task.title, ...(excerpt && { excerpt }) },
+      });
+    }
+
+    return members.map(({ user }) => user.id);
+  }
+
+  /**
+   * Record mentions without waiting (fire and forget).
+   * Notifications should never break the main flow.
+   */
+  static recordMentionsAsync(input: RecordMentionsInput): void {
+    this.recordMentions(input).catch(() => {
+      // Silently handle mention errors
+    });
+  }
+}
+
+export default MentionService;
@@ -0,0 +1,199 @@
+/**
+ * Notification Email Service
+ *
+ * Emails notifications according to each recipient's preferences: instantly
+ * as they are created, or batched into hourly and daily digests that the
+ * digest job sends when they fall due.
+ */
+
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import type { EmailFrequency, Prisma } from '@prisma/client';
+import {
+  EmailService,
+  type NotificationEmailItem,
+  type NotificationEmailLinks,
+} from './email.service.js';
+import { UNSUBSCRIBE_ALL } from './notification-preference.service.js';
+import type { NotificationWithRelations } from './notification.service.js';
+import { createUnsubscribeToken } from '../utils/unsubscribe-token.js';
+
+// Daily digests go out at this hour (UTC)
+const DAILY_DIGEST_HOUR_UTC = 8;
+
+const digestInclude = {
+  actor: {
+    select: { id: true, name: true, avatar: true },
+  },
+  project: {
+    select: { id: true, name: true },
+  },
+  task: {
+    select: { id: true, title: true },
+  },
+  user: {
+    select: { id: true, name: true, email: true },
+  },
+} satisfies Prisma.NotificationInclude;
+
+/**
+ * One-line description of a notification, e.g. "Ann assigned you to Fix login"
+ */
+function describeNotification(notification: NotificationWithRelations): string {
+  const metadata = notification.metadata as { taskTitle?: string } | null;
+  const actor = notification.actor?.name ?? 'Someone';
+  const task = notification.task?.title ?? metadata?.taskTitle ?? 'a task';
+
+  switch (notification.type) {
+    case 'TASK_ASSIGNED':
+      return `${actor} assigned you to ${task}`;
+    case 'MENTIONED':
+      return `${actor} mentioned you in ${task}`;
+    case 'TASK_COMMENTED':
+      return `${actor} commented on ${task}`;
+    case 'TASK_DUE_SOON':
+      return `${task} is due soon`;
+    case 'TASK_OVERDUE':
+      return `${task} is overdue`;
+  }
+}
+
+function toEmailItem(notification: NotificationWithRelations): NotificationEmailItem {
+  const metadata = notification.metadata as { excerpt?: string } | null;
+
+  return {
+    message: describeNotification(notification),
+    projectName: notification.project.name,
+    excerpt: metadata?.excerpt ?? null,
+    url: notification.taskId
+      ? `${env.FRONTEND_URL}/projects/${notification.projectId}?task=${notification.taskId}`
+      : `${env.FRONTEND_URL}/projects/${notification.projectId}`,
+  };
+}
+
+/**
+ * Unsubscribe and preference links for an email
+ * @param scope - Notification type the email is about, or "ALL" for digests
+ */
+function getEmailLinks(userId: string, scope: string): NotificationEmailLinks {
+  const token = createUnsubscribeToken({ userId, scope });
+
+  return {
+    unsubscribeUrl: `${env.FRONTEND_URL}/unsubscribe?token=${token}`,
+    oneClickUnsubscribeUrl: `${env.API_URL}/api/v1/notifications/unsubscribe?token=${token}`,
+    preferencesUrl: `${env.FRONTEND_URL}/profile`,
+  };
+}
+
+export class NotificationEmailService {
+  /**
+   * When a notification should go out in a digest: the next full hour for
+   * hourly digests, the next 08:00 UTC for daily ones.
+   * Returns null for instant emails and when email is off.
+   */
+  static getEmailDueAt(frequency: EmailFrequency, now: Date = new Date()): Date | null {
+    if (frequency === 'HOURLY') {
+      const dueAt = new Date(now);
+      dueAt.setUTCMinutes(0, 0, 0);
+      dueAt.setUTCHours(dueAt.getUTCHours() + 1);
+      return dueAt;
+    }
+
+    if (frequency === 'DAILY') {
+      const dueAt = new Date(now);
+      dueAt.setUTCHours(DAILY_DIGEST_HOUR_UTC, 0, 0, 0);
+      if (dueAt <= now) {
+        dueAt.setUTCDate(dueAt.getUTCDate() + 1);
+      }
+      return dueAt;
+    }
+
+    return null;
+  }
+
+  /**
+   * Email each notification to its recipient right away
+   */
+  static async sendInstant(notifications: NotificationWithRelations[]): Promise<void> {
+    if (notifications.length === 0) {
+      return;
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: notifications.map((n) => n.userId) } },
+      select: { id: true, email: true },
+    });
+    const emailByUser = new Map(users.map((u) => [u.id, u.email]));
+
+    await Promise.all(
+      notifications.map((notification) => {
+        const email = emailByUser.get(notification.userId);
+        if (!email) {
+          return false;
+        }
+
+        return EmailService.sendNotificationEmail(
+          email,
+          toEmailItem(notification),
+          getEmailLinks(notification.userId, notification.type)
+        );
+      })
+    );
+  }
+
+  /**
+   * Send instant emails without awaiting (fire and forget).
+   * Emails should never break the main flow.
+   */
+  static sendInstantAsync(notifications: NotificationWithRelations[]): void {
+    this.sendInstant(notifications).catch(() => {
+      // Silently handle email errors
+    });
+  }
+
+  /**
+   * Send one digest email per user for every notification whose digest is due.
+   * Notifications the user has already read in the app are left out.
+   * Returns the number of digests sent.
+   */
+  static async processDigests(now: Date = new Date()): Promise<number> {
+    const pending = await prisma.notification.findMany({
+      where: { emailDueAt: { lte: now } },
+      include: digestInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    // Clear first so a slow or failing send never emails the same notifications twice
+    await prisma.notification.updateMany({
+      where: { id: { in: pending.map((n) => n.id) } },
+      data: { emailDueAt: null },
+    });
+
+    const byUser = new Map<string, typeof pending>();
+    for (const notification of pending) {
+      if (notification.readAt) continue;
+      const list = byUser.get(notification.userId) ?? [];
+      list.push(notification);
+      byUser.set(notification.userId, list);
+    }
+
+    let sent = 0;
+    for (const [userId, notifications] of byUser) {
+      const { user } = notifications[0]!;
+
+      const ok = await EmailService.sendNotificationDigest(
+        user.email,
+        { name: user.name, items: notifications.map(toEmailItem) },
+        getEmailLinks(userId, UNSUBSCRIBE_ALL)
+      );
+      if (ok) sent++;
+    }
+
+    return sent;
+  }
+}
+
+export default NotificationEmailService;
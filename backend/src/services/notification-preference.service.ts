@@ -0,0 +1,138 @@
+/**
+ * Notification Preference Service
+ *
+ * Per-user email settings for each notification type: sent instantly,
+ * batched into an hourly or daily digest, or not emailed at all.
+ * In-app notifications are always created.
+ */
+
+import { prisma } from '../config/database.js';
+import type { EmailFrequency, NotificationType } from '@prisma/client';
+import { verifyUnsubscribeToken } from '../utils/unsubscribe-token.js';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'TASK_ASSIGNED',
+  'MENTIONED',
+  'TASK_COMMENTED',
+  'TASK_DUE_SOON',
+  'TASK_OVERDUE',
+];
+
+/**
+ * Email frequency for users who never changed a setting
+ */
+export const DEFAULT_EMAIL_FREQUENCY: Record<NotificationType, EmailFrequency> = {
+  TASK_ASSIGNED: 'INSTANT',
+  MENTIONED: 'INSTANT',
+  TASK_COMMENTED: 'HOURLY',
+  TASK_DUE_SOON: 'INSTANT',
+  TASK_OVERDUE: 'INSTANT',
+};
+
+// Unsubscribe scope covering every notification type
+export const UNSUBSCRIBE_ALL = 'ALL';
+
+export interface NotificationPreferenceItem {
+  type: NotificationType;
+  email: EmailFrequency;
+}
+
+export class NotificationPreferenceService {
+  /**
+   * Get a user's email preference for every notification type
+   */
+  static async getPreferences(userId: string): Promise<NotificationPreferenceItem[]> {
+    const saved = await prisma.notificationPreference.findMany({
+      where: { userId },
+      select: { type: true, email: true },
+    });
+    const byType = new Map(saved.map((p) => [p.type, p.email]));
+
+    return NOTIFICATION_TYPES.map((type) => ({
+      type,
+      email: byType.get(type) ?? DEFAULT_EMAIL_FREQUENCY[type],
+    }));
+  }
+
+  /**
+   * Save email preferences; types that are not listed keep their setting
+   */
+  static async updatePreferences(
+    userId: string,
+    preferences: NotificationPreferenceItem[]
+  ): Promise<NotificationPreferenceItem[]> {
+    await prisma.$transaction(
+      preferences.map(({ type, email }) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, email },
+          update: { email },
+        })
+      )
+    );
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Email frequency for one notification type, for each of the given users
+   */
+  static async getEmailFrequencies(
+    userIds: string[],
+    type: NotificationType
+  ): Promise<Map<string, EmailFrequency>> {
+    const saved = await prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds }, type },
+      select: { userId: true, email: true },
+    });
+    const byUser = new Map(saved.map((p) => [p.userId, p.email]));
+
+    return new Map(
+      userIds.map((id) => [id, byUser.get(id) ?? DEFAULT_EMAIL_FREQUENCY[type]])
+    );
+  }
+
+  /**
+   * Turn off the emails named by an unsubscribe link.
+   * Returns null if the token is invalid or the user no longer exists.
+   */
+  static async unsubscribe(
+    token: string
+  ): Promise<{ email: string; types: NotificationType[] } | null> {
+    const payload = verifyUnsubscribeToken(token);
+    if (!payload) {
+      return null;
+    }
+
+    const types =
+      payload.scope === UNSUBSCRIBE_ALL
+        ? NOTIFICATION_TYPES
+        : NOTIFICATION_TYPES.filter((type) => type === payload.scope);
+    if (types.length === 0) {
+      return null;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, email: true },
+    });
+    if (!user) {
+      return null;
+    }
+
+    await this.updatePreferences(
+      user.id,
+      types.map((type) => ({ type, email: 'OFF' }))
+    );
+
+    // Nothing more goes out in pending digests either
+    await prisma.notification.updateMany({
+      where: { userId: user.id, type: { in: types }, emailDueAt: { not: null } },
+      data: { emailDueAt: null },
+    });
+
+    return { email: user.email, types };
+  }
+}
+
+export default NotificationPreferenceService;
@@ -0,0 +1,269 @@
+/**
+ * Notification Service
+ *
+ * In-app notifications for assignments, @mentions, comments on assigned
+ * tasks and due-date reminders. New notifications are pushed to the
+ * recipient's socket room as they are created, and emailed according to
+ * the recipient's preferences.
+ */
+
+import { prisma } from '../config/database.js';
+import type { Notification, NotificationType, Prisma } from '@prisma/client';
+import { broadcastNotificationCreated } from '../sockets/broadcast.js';
+import { NotificationPreferenceService } from './notification-preference.service.js';
+import { NotificationEmailService } from './notification-email.service.js';
+import type { LiveNotification } from '../types/presence.js';
+
+// Notifications from background jobs have no actor
+const SYSTEM_USER_ID = 'system';
+
+/**
+ * Context stored with a notification, so it still reads well after the
+ * task is renamed
+ */
+export interface NotificationMetadata {
+  taskTitle?: string;
+  /** Start of the comment or description the notification is about */
+  excerpt?: string;
+  dueDate?: string;
+}
+
+/**
+ * Input for notifying a set of users about one event
+ */
+export interface CreateNotificationInput {
+  type: NotificationType;
+  /** Recipients; the actor is always skipped */
+  userIds: string[];
+  /** User who caused the event, or null for background jobs */
+  actorId: string | null;
+  projectId: string;
+  taskId?: string;
+  commentId?: string;
+  metadata?: NotificationMetadata;
+}
+
+/**
+ * Input for notifying everyone assigned to a task
+ */
+export type NotifyAssigneesInput = Omit<CreateNotificationInput, 'userIds' | 'taskId'> & {
+  taskId: string;
+  /** Assignees that already got a more specific notification */
+  excludeUserIds?: string[];
+};
+
+/**
+ * Notification with the relations shown in the notification center
+ */
+export type NotificationWithRelations = Notification & {
+  actor: {
+    id: string;
+    name: string;
+    avatar: string | null;
+  } | null;
+  project: {
+    id: string;
+    name: string;
+  };
+  task: {
+    id: string;
+    title: string;
+  } | null;
+};
+
+/**
+ * Options for listing notifications
+ */
+export interface ListNotificationsOptions {
+  limit?: number;
+  offset?: number;
+  unreadOnly?: boolean;
+}
+
+const notificationInclude = {
+  actor: {
+    select: { id: true, name: true, avatar: true },
+  },
+  project: {
+    select: { id: true, name: true },
+  },
+  task: {
+    select: { id: true, title: true },
+  },
+} satisfies Prisma.NotificationInclude;
+
+/**
+ * Convert a notification to LiveNotification format for broadcasting.
+ */
+function toLiveNotification(notification: NotificationWithRelations): LiveNotification {
+  return {
+    ...notification,
+    metadata: notification.metadata as Record<string, unknown> | null,
+    readAt: notification.readAt ? notification.readAt.toISOString() : null,
+    createdAt: notification.createdAt.toISOString(),
+  };
+}
+
+export class NotificationService {
+  /**
+   * Create one notification per recipient and push each to its recipient.
+   * Recipients who want instant emails are emailed now; digest recipients
+   * get the notification in their next digest.
+   */
+  static async notify(input: CreateNotificationInput): Promise<NotificationWithRelations[]> {
+    const userIds = [...new Set(input.userIds)].filter((id) => id !== input.actorId);
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const frequencies = await NotificationPreferenceService.getEmailFrequencies(
+      userIds,
+      input.type
+    );
+    const now = new Date();
+
+    const notifications = await prisma.$transaction(
+      userIds.map((userId) =>
+        prisma.notification.create({
+          data: {
+            type: input.type,
+            userId,
+            actorId: input.actorId,
+            projectId: input.projectId,
+            taskId: input.taskId ?? null,
+            commentId: input.commentId ?? null,
+            metadata: (input.metadata as Prisma.JsonObject) ?? undefined,
+            emailDueAt: NotificationEmailService.getEmailDueAt(frequencies.get(userId)!, now),
+          },
+          include: notificationInclude,
+        })
+      )
+    );
+
+    for (const notification of notifications) {
+      broadcastNotificationCreated(
+        toLiveNotification(notification),
+        input.actorId ?? SYSTEM_USER_ID
+      );
+    }
+
+    NotificationEmailService.sendInstantAsync(
+      notifications.filter((n) => frequencies.get(n.userId) === 'INSTANT')
+    );
+
+    return notifications;
+  }
+
+  /**
+   * Create notifications without awaiting (fire and forget).
+   * Notifications should never break the main flow.
+   */
+  static notifyAsync(input: CreateNotificationInput): void {
+    this.notify(input).catch(() => {
+      // Silently handle notification errors
+    });
+  }
+
+  /**
+   * Notify everyone assigned to a task, e.g. about a new comment
+   */
+  static async notifyAssignees(input: NotifyAssigneesInput): Promise<NotificationWithRelations[]> {
+    const { excludeUserIds = [], ...rest } = input;
+
+    const assignees = await prisma.taskAssignee.findMany({
+      where: { taskId: input.taskId },
+      select: { userId: true },
+    });
+
+    return this.notify({
+      ...rest,
+      userIds: assignees
+        .map((a) => a.userId)
+        .filter((id) => !excludeUserIds.includes(id)),
+    });
+  }
+
+  /**
+   * Notify a task's assignees without awaiting (fire and forget)
+   */
+  static notifyAssigneesAsync(input: NotifyAssigneesInput): void {
+    this.notifyAssignees(input).catch(() => {
+      // Silently handle notification errors
+    });
+  }
+
+  /**
+   * Get the current user's notifications, newest first
+   */
+  static async getUserNotifications(
+    userId: string,
+    options: ListNotificationsOptions = {}
+  ): Promise<{ notifications: NotificationWithRelations[]; total: number; unreadCount: number }> {
+    const { limit = 20, offset = 0, unreadOnly = false } = options;
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(unreadOnly && { readAt: null }),
+    };
+
+    const [notifications, total, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        include: notificationInclude,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.notification.count({ where }),
+      this.getUnreadCount(userId),
+    ]);
+
+    return { notifications, total, unreadCount };
+  }
+
+  /**
+   * Count the current user's unread notifications
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    return prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  /**
+   * Mark one of the current user's notifications as read.
+   * Returns null if the notification does not exist or belongs to someone else.
+   */
+  static async markRead(
+    userId: string,
+    notificationId: string
+  ): Promise<NotificationWithRelations | null> {
+    const notification = await prisma.notification.findUnique({
+      where: { id: notificationId },
+    });
+
+    if (!notification || notification.userId !== userId) {
+      return null;
+    }
+
+    return prisma.notification.update({
+      where: { id: notificationId },
+      data: { readAt: notification.readAt ?? new Date() },
+      include: notificationInclude,
+    });
+  }
+
+  /**
+   * Mark all of the current user's notifications as read.
+   * Returns the number of notifications that changed.
+   */
+  static async markAllRead(userId: string): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return result.count;
+  }
+}
+
+export default NotificationService;
@@ -5,24 +5,53 @@
  * Tracks which users are editing which fields on tasks, enabling
  * presence indicators and conflict prevention.
  *
- * Key Pattern: presence:{projectId}:{taskId}:{field}:{socketId}
+ * Key Patterns:
+ * - presence:{projectId}:{taskId}:{field}:{socketId} - Presence entry
+ * - presence:viewing:{projectId}:{taskId | 'board'}:{socketId} - Viewer entry
+ * - presence:node:{nodeId} - Set of entry keys held by a server instance
+ * - presence:heartbeat:{nodeId} - Expires when the instance stops beating
+ * - presence:nodes - Server instances that may still hold entries
  *
  * Features:
- * - TTL-based automatic cleanup (30 seconds)
- * - Heartbeat refresh for long editing sessions
- * - Socket disconnect cleanup
+ * - Entries are owned by the server instance holding the socket
+ * - Viewer entries (who has a board or task open) expire unless refreshed
+ * - Socket disconnect cleanup on the owning instance
+ * - Heartbeat-based cleanup of instances that crashed or shut down,
+ *   run by whichever instance notices first
  * - Project-wide presence queries
  */
 
+import crypto from 'crypto';
 import { redis } from '../config/redis.js';
 import { logger } from '../config/logger.js';
-import type { PresenceEntry, EditingField } from '../types/presence.js';
+import type { PresenceEntry, EditingField, ViewerEntry } from '../types/presence.js';
 
 const presenceLogger = logger.child({ module: 'presence' });
 
-class PresenceService {
-  private readonly TTL = 30; // seconds
+interface PresenceServiceOptions {
+  /** How often this instance beats and looks for expired instances */
+  heartbeatIntervalMs?: number;
+  /** Seconds an instance counts as running after its last beat */
+  heartbeatTtl?: number;
+}
+
+export class PresenceService {
+  private readonly HEARTBEAT_INTERVAL_MS: number;
+  private readonly HEARTBEAT_TTL: number; // seconds
+  private readonly VIEWING_TTL = 30; // seconds
   private readonly PREFIX = 'presence';
+  private readonly VIEWING_PREFIX = `${this.PREFIX}:viewing`;
+  private readonly NODES_KEY = `${this.PREFIX}:nodes`;
+
+  /** Identifies this server instance; entries it stores are owned by it */
+  readonly nodeId = crypto.randomUUID();
+
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: PresenceServiceOptions = {}) {
+    this.HEARTBEAT_INTERVAL_MS = options.heartbeatIntervalMs ?? 5 * 1000;
+    this.HEARTBEAT_TTL = options.heartbeatTtl ?? 15;
+  }
 
   /**
    * Build a Redis key for presence tracking
@@ -36,6 +65,51 @@ class PresenceService {
     return `${this.PREFIX}:${projectId}:${taskId}:${field}:${socketId}`;
   }
 
+  /**
+   * Build a Redis key for viewer tracking
+   */
+  private buildViewingKey(projectId: string, taskId: string | null, socketId: string): string {
+    return `${this.VIEWING_PREFIX}:${projectId}:${taskId ?? 'board'}:${socketId}`;
+  }
+
+  private isViewingKey(key: string): boolean {
+    return key.startsWith(`${this.VIEWING_PREFIX}:`);
+  }
+
+  private nodeKey(nodeId: string): string {
+    return `${this.PREFIX}:node:${nodeId}`;
+  }
+
+  private heartbeatKey(nodeId: string): string {
+    return `${this.PREFIX}:heartbeat:${nodeId}`;
+  }
+
+  /**
+   * Read and delete presence entries by key
+   */
+  private async removeEntries<T = PresenceEntry>(keys: string[]): Promise<T[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const entries: T[] = [];
+    const values = await redis.mget(...keys);
+    values.forEach((value, index) => {
+      if (!value) return;
+      try {
+        entries.push(JSON.parse(value) as T);
+      } catch (parseError) {
+        presenceLogger.warn(
+          { err: parseError, key: keys[index] },
+          'Failed to parse presence entry'
+        );
+      }
+    });
+
+    await redis.del(...keys);
+    return entries;
+  }
+
   /**
    * Set editing presence for a user on a specific task field
    */
@@ -49,7 +123,11 @@ class PresenceService {
       );
       const value = JSON.stringify(entry);
 
-      await redis.setex(key, this.TTL, value);
+      await redis
+        .multi()
+        .set(key, value)
+        .sadd(this.nodeKey(this.nodeId), key)
+        .exec();
 
       presenceLogger.debug(
         {
@@ -81,7 +159,11 @@ class PresenceService {
     try {
       const key = this.buildKey(projectId, taskId, field, socketId);
 
-      await redis.del(key);
+      await redis
+        .multi()
+        .del(key)
+        .srem(this.nodeKey(this.nodeId), key)
+        .exec();
 
       presenceLogger.debug(
         { key, taskId, field },
@@ -97,47 +179,145 @@ class PresenceService {
   }
 
   /**
-   * Refresh TTL for ongoing editing session (heartbeat/keepalive)
+   * Get this instance's entry keys for a socket.
+   * Sockets are held by this instance, so their entries are in its set.
+   */
+  private async getSocketKeys(socketId: string): Promise<string[]> {
+    const keys = await redis.smembers(this.nodeKey(this.nodeId));
+    return keys.filter((key) => key.endsWith(`:${socketId}`));
+  }
+
+  /**
+   * Clear all presence entries for a disconnected socket
+   * Returns the cleared entries for broadcasting cleanup to other clients
+   */
+  async clearAllForSocket(socketId: string): Promise<PresenceEntry[]> {
+    let clearedEntries: PresenceEntry[] = [];
+
+    try {
+      const nodeKey = this.nodeKey(this.nodeId);
+      const keys = (await this.getSocketKeys(socketId)).filter(
+        (key) => !this.isViewingKey(key)
+      );
+
+      if (keys.length > 0) {
+        clearedEntries = await this.removeEntries(keys);
+        await redis.srem(nodeKey, ...keys);
+
+        presenceLogger.info(
+          { socketId, count: keys.length },
+          'Presence CLEAR ALL for socket'
+        );
+      }
+    } catch (error) {
+      presenceLogger.error(
+        { err: error, socketId },
+        'Failed to clear all presence for socket'
+      );
+      // Graceful degradation - return what we collected
+    }
+
+    return clearedEntries;
+  }
+
+  /**
+   * Set or refresh a viewer entry for a project board or task.
+   * Returns true when the socket just started viewing it.
+   */
+  async setViewing(entry: ViewerEntry): Promise<boolean> {
+    try {
+      const key = this.buildViewingKey(entry.projectId, entry.taskId, entry.socketId);
+
+      const results = await redis
+        .multi()
+        .exists(key)
+        .set(key, JSON.stringify(entry), 'EX', this.VIEWING_TTL)
+        .sadd(this.nodeKey(this.nodeId), key)
+        .exec();
+
+      const isNew = results?.[0]?.[1] === 0;
+      if (isNew) {
+        presenceLogger.debug(
+          { key, userId: entry.userId, taskId: entry.taskId },
+          'Viewing SET'
+        );
+      }
+      return isNew;
+    } catch (error) {
+      presenceLogger.error(
+        { err: error, entry },
+        'Failed to set viewing presence'
+      );
+      // Graceful degradation - don't throw
+      return false;
+    }
+  }
+
+  /**
+   * Clear a viewer entry when the board or task is closed
    */
-  async refreshEditing(
+  async clearViewing(
     projectId: string,
-    taskId: string,
-    field: EditingField,
+    taskId: string | null,
     socketId: string
   ): Promise<void> {
     try {
-      const key = this.buildKey(projectId, taskId, field, socketId);
-
-      await redis.expire(key, this.TTL);
+      const key = this.buildViewingKey(projectId, taskId, socketId);
 
-      presenceLogger.debug(
-        { key },
-        'Presence REFRESH'
-      );
+      await redis
+        .multi()
+        .del(key)
+        .srem(this.nodeKey(this.nodeId), key)
+        .exec();
     } catch (error) {
       presenceLogger.error(
-        { err: error, projectId, taskId, field, socketId },
-        'Failed to refresh editing presence'
+        { err: error, projectId, taskId, socketId },
+        'Failed to clear viewing presence'
       );
       // Graceful degradation - don't throw
     }
   }
 
   /**
-   * Clear all presence entries for a disconnected socket
+   * Clear all viewer entries for a disconnected socket, or only those in
+   * one project when it leaves that project
    * Returns the cleared entries for broadcasting cleanup to other clients
    */
-  async clearAllForSocket(socketId: string): Promise<PresenceEntry[]> {
-    const clearedEntries: PresenceEntry[] = [];
+  async clearViewingForSocket(socketId: string, projectId?: string): Promise<ViewerEntry[]> {
+    try {
+      const prefix = projectId ? `${this.VIEWING_PREFIX}:${projectId}:` : null;
+      const keys = (await this.getSocketKeys(socketId)).filter(
+        (key) => this.isViewingKey(key) && (!prefix || key.startsWith(prefix))
+      );
+      if (keys.length === 0) {
+        return [];
+      }
+
+      const entries = await this.removeEntries<ViewerEntry>(keys);
+      await redis.srem(this.nodeKey(this.nodeId), ...keys);
+      return entries;
+    } catch (error) {
+      presenceLogger.error(
+        { err: error, socketId, projectId },
+        'Failed to clear viewing presence for socket'
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Get everyone viewing a project board (taskId null) or a task
+   */
+  async getViewers(projectId: string, taskId: string | null): Promise<ViewerEntry[]> {
+    const viewers: ViewerEntry[] = [];
 
     try {
-      const pattern = `${this.PREFIX}:*:*:*:${socketId}`;
-      const keysToDelete: string[] = [];
+      const pattern = `${this.VIEWING_PREFIX}:${projectId}:${taskId ?? 'board'}:*`;
+      const keys: string[] = [];
 
-      // Use SCAN to find all keys for this socket
       let cursor = '0';
       do {
-        const [nextCursor, keys] = await redis.scan(
+        const [nextCursor, foundKeys] = await redis.scan(
           cursor,
           'MATCH',
           pattern,
@@ -145,43 +325,116 @@ class PresenceService {
           100
         );
         cursor = nextCursor;
-        keysToDelete.push(...keys);
+        keys.push(...foundKeys);
       } while (cursor !== '0');
 
-      // Get entry data before deleting (for broadcast)
-      if (keysToDelete.length > 0) {
-        for (const key of keysToDelete) {
-          try {
-            const value = await redis.get(key);
-            if (value) {
-              const entry = JSON.parse(value) as PresenceEntry;
-              clearedEntries.push(entry);
-            }
-          } catch (parseError) {
-            presenceLogger.warn(
-              { err: parseError, key },
-              'Failed to parse presence entry'
-            );
+      if (keys.length > 0) {
+        const values = await redis.mget(...keys);
+        for (const value of values) {
+          if (value) {
+            viewers.push(JSON.parse(value) as ViewerEntry);
           }
         }
+      }
+    } catch (error) {
+      presenceLogger.error(
+        { err: error, projectId, taskId },
+        'Failed to get viewers'
+      );
+      // Graceful degradation - return what we collected
+    }
 
-        // Delete all keys
-        await redis.del(...keysToDelete);
+    return viewers;
+  }
 
-        presenceLogger.info(
-          { socketId, count: keysToDelete.length },
-          'Presence CLEAR ALL for socket'
-        );
+  /**
+   * Start beating for this instance and cleaning up after instances
+   * whose heartbeat expired. `onExpired` receives the entries they held,
+   * for broadcasting cleanup to clients.
+   */
+  startHeartbeat(onExpired: (entries: PresenceEntry[]) => void): void {
+    if (this.heartbeatTimer) return;
+
+    const beat = async () => {
+      try {
+        await redis
+          .multi()
+          .set(this.heartbeatKey(this.nodeId), '1', 'EX', this.HEARTBEAT_TTL)
+          .sadd(this.NODES_KEY, this.nodeId)
+          .exec();
+
+        const expired = await this.clearExpiredNodes();
+        if (expired.length > 0) {
+          onExpired(expired);
+        }
+      } catch (error) {
+        presenceLogger.error({ err: error, nodeId: this.nodeId }, 'Presence heartbeat failed');
       }
+    };
+
+    this.heartbeatTimer = setInterval(() => {
+      void beat();
+    }, this.HEARTBEAT_INTERVAL_MS);
+
+    void beat();
+    presenceLogger.info(
+      { nodeId: this.nodeId, intervalMs: this.HEARTBEAT_INTERVAL_MS },
+      'Presence heartbeat started'
+    );
+  }
+
+  /**
+   * Stop beating. Another instance clears this one's entries once it
+   * notices the heartbeat is gone.
+   */
+  async stopHeartbeat(): Promise<void> {
+    if (!this.heartbeatTimer) return;
+
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+
+    try {
+      await redis.del(this.heartbeatKey(this.nodeId));
     } catch (error) {
       presenceLogger.error(
-        { err: error, socketId },
-        'Failed to clear all presence for socket'
+        { err: error, nodeId: this.nodeId },
+        'Failed to stop presence heartbeat'
       );
-      // Graceful degradation - return what we collected
     }
+  }
 
-    return clearedEntries;
+  /**
+   * Remove the entries of every instance whose heartbeat expired.
+   * Returns the removed entries.
+   */
+  private async clearExpiredNodes(): Promise<PresenceEntry[]> {
+    const cleared: PresenceEntry[] = [];
+    const nodeIds = await redis.smembers(this.NODES_KEY);
+
+    for (const nodeId of nodeIds) {
+      if (nodeId === this.nodeId || (await redis.exists(this.heartbeatKey(nodeId)))) {
+        continue;
+      }
+
+      // Only the instance that removes the node from the set cleans it up
+      const claimed = await redis.srem(this.NODES_KEY, nodeId);
+      if (!claimed) continue;
+
+      // Viewer entries expire by themselves and clients drop them when
+      // they stop being refreshed, so only editing entries are reported
+      const nodeKey = this.nodeKey(nodeId);
+      const keys = await redis.smembers(nodeKey);
+      const entries = await this.removeEntries(keys.filter((key) => !this.isViewingKey(key)));
+      await redis.del(nodeKey);
+      cleared.push(...entries);
+
+      presenceLogger.info(
+        { nodeId, count: entries.length },
+        'Presence CLEAR ALL for expired node'
+      );
+    }
+
+    return cleared;
   }
 
   /**
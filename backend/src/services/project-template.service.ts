@@ -0,0 +1,298 @@
+/**
+ * Project Template Service
+ *
+ * Handles project templates: the built-in ones shipped in code and the ones
+ * saved from existing projects for a workspace. Also duplicates projects by
+ * taking a template snapshot and building a new project from it.
+ */
+
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import { ProjectService, type ProjectWithRelations } from './project.service.js';
+import { WorkspaceService } from './workspace.service.js';
+import { Permission, WorkspacePermission } from '../config/permissions.js';
+import {
+  BUILT_IN_TEMPLATES,
+  BUILT_IN_TEMPLATE_PREFIX,
+  getBuiltInTemplate,
+  type ProjectTemplateContent,
+} from '../config/project-templates.js';
+import type {
+  SaveAsTemplateInput,
+  DuplicateProjectInput,
+} from '../validators/project-template.validator.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A template as listed in the template picker
+ */
+export interface ProjectTemplateSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  builtIn: boolean;
+  createdBy: { id: string; name: string } | null;
+  columns: string[];
+  labelCount: number;
+  customFieldCount: number;
+  taskCount: number;
+}
+
+function summarize(content: ProjectTemplateContent) {
+  return {
+    columns: content.columns.map((column) => column.name),
+    labelCount: content.labels.length,
+    customFieldCount: content.customFields.length,
+    taskCount: content.tasks.length,
+  };
+}
+
+export class ProjectTemplateService {
+  /**
+   * List the built-in templates followed by the workspace's saved templates
+   */
+  static async getTemplates(
+    workspaceId: string,
+    userId: string
+  ): Promise<ProjectTemplateSummary[] | null> {
+    const role = await WorkspaceService.getUserRole(workspaceId, userId);
+    if (!role) {
+      return null;
+    }
+
+    const saved = await prisma.projectTemplate.findMany({
+      where: { workspaceId },
+      include: { createdBy: { select: { id: true, name: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return [
+      ...BUILT_IN_TEMPLATES.map((template) => ({
+        id: template.id,
+        name: template.name,
+        description: template.description,
+        builtIn: true,
+        createdBy: null,
+        ...summarize(template.content),
+      })),
+      ...saved.map((template) => ({
+        id: template.id,
+        name: template.name,
+        description: template.description,
+        builtIn: false,
+        createdBy: template.createdBy,
+        ...summarize(template.content as unknown as ProjectTemplateContent),
+      })),
+    ];
+  }
+
+  /**
+   * Get a template's content, if it is built in or saved in one of the user's workspaces
+   */
+  static async getTemplateContent(
+    templateId: string,
+    userId: string
+  ): Promise<ProjectTemplateContent | null> {
+    if (templateId.startsWith(BUILT_IN_TEMPLATE_PREFIX)) {
+      return getBuiltInTemplate(templateId)?.content ?? null;
+    }
+
+    const template = await prisma.projectTemplate.findFirst({
+      where: {
+        id: templateId,
+        workspace: { members: { some: { userId } } },
+      },
+      select: { content: true },
+    });
+
+    return template ? (template.content as unknown as ProjectTemplateContent) : null;
+  }
+
+  /**
+   * Save a project as a template for its workspace
+   */
+  static async saveProjectAsTemplate(
+    projectId: string,
+    userId: string,
+    data: SaveAsTemplateInput
+  ): Promise<ProjectTemplateSummary | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.PROJECT_UPDATE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const snapshot = await this.snapshotProject(projectId, data.includeTasks);
+    if (!snapshot) {
+      return null;
+    }
+
+    const template = await prisma.projectTemplate.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        content: snapshot.content as unknown as Prisma.InputJsonValue,
+        workspaceId: snapshot.workspaceId,
+        createdById: userId,
+      },
+      include: { createdBy: { select: { id: true, name: true } } },
+    });
+
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      builtIn: false,
+      createdBy: template.createdBy,
+      ...summarize(snapshot.content),
+    };
+  }
+
+  /**
+   * Delete a saved template (its creator or a workspace admin)
+   */
+  static async deleteTemplate(
+    workspaceId: string,
+    templateId: string,
+    userId: string
+  ): Promise<boolean> {
+    const template = await prisma.projectTemplate.findFirst({
+      where: { id: templateId, workspaceId },
+      select: { createdById: true },
+    });
+    if (!template) {
+      return false;
+    }
+
+    const canDelete =
+      template.createdById === userId ||
+      (await WorkspaceService.hasPermission(
+        workspaceId,
+        userId,
+        WorkspacePermission.WORKSPACE_TEMPLATE_MANAGE
+      ));
+    if (!canDelete) {
+      return false;
+    }
+
+    await prisma.projectTemplate.delete({ where: { id: templateId } });
+
+    return true;
+  }
+
+  /**
+   * Create a copy of a project in the same workspace
+   */
+  static async duplicateProject(
+    projectId: string,
+    userId: string,
+    data: DuplicateProjectInput
+  ): Promise<ProjectWithRelations | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.PROJECT_VIEW
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const snapshot = await this.snapshotProject(projectId, data.includeTasks);
+    if (!snapshot) {
+      return null;
+    }
+
+    return ProjectService.createProject(
+      userId,
+      {
+        name: data.name,
+        description: snapshot.description ?? undefined,
+        workspaceId: snapshot.workspaceId,
+      },
+      snapshot.content
+    );
+  }
+
+  /**
+   * Capture a project as template content. Due dates become days from now,
+   * and tasks keep their labels by name.
+   */
+  private static async snapshotProject(
+    projectId: string,
+    includeTasks: boolean
+  ): Promise<{
+    workspaceId: string;
+    description: string | null;
+    content: ProjectTemplateContent;
+  } | null> {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, deletedAt: null },
+      include: {
+        columns: { orderBy: { order: 'asc' } },
+        labels: { orderBy: { name: 'asc' } },
+        customFields: { orderBy: { order: 'asc' } },
+      },
+    });
+    if (!project) {
+      return null;
+    }
+
+    const tasks = includeTasks
+      ? await prisma.task.findMany({
+          where: { column: { projectId }, deletedAt: null },
+          include: {
+            labels: { include: { label: { select: { name: true } } } },
+            subtasks: { orderBy: { order: 'asc' }, select: { title: true } },
+          },
+          orderBy: [{ column: { order: 'asc' } }, { order: 'asc' }],
+        })
+      : [];
+
+    const columnIndex = new Map(project.columns.map((column, index) => [column.id, index]));
+    const now = Date.now();
+
+    return {
+      workspaceId: project.workspaceId,
+      description: project.description,
+      content: {
+        settings: {
+          color: project.color,
+          icon: project.icon,
+          wipLimitMode: project.wipLimitMode,
+          dueReminderHours: project.dueReminderHours,
+          overdueNotices: project.overdueNotices,
+        },
+        columns: project.columns.map((column) => ({
+          name: column.name,
+          color: column.color,
+          wipLimit: column.wipLimit,
+          category: column.category,
+        })),
+        labels: project.labels.map((label) => ({ name: label.name, color: label.color })),
+        customFields: project.customFields.map((field) => ({
+          name: field.name,
+          type: field.type,
+          options: field.options,
+        })),
+        tasks: tasks.map((task) => ({
+          title: task.title,
+          description: task.description,
+          priority: task.priority,
+          column: columnIndex.get(task.columnId) ?? 0,
+          // Overdue tasks come out due on the day the template is used
+          dueInDays: task.dueDate
+            ? Math.max(0, Math.round((task.dueDate.getTime() - now) / DAY_MS))
+            : null,
+          labels: task.labels.map(({ label }) => label.name),
+          subtasks: task.subtasks.map((subtask) => subtask.title),
+        })),
+      },
+    };
+  }
+}
+
+export default ProjectTemplateService;
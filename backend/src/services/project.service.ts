@@ -1,21 +1,58 @@
+import crypto from 'crypto';
 import { prisma } from '../config/database.js';
-import type { Project, ProjectMember, Role, Column } from '@prisma/client';
-import type { CreateProjectInput, UpdateProjectInput, AddMemberInput } from '../validators/project.validator.js';
+import { Prisma } from '@prisma/client';
+import type { Project, ProjectMember, ProjectInviteLink, Role, Column } from '@prisma/client';
+import type {
+  CreateProjectInput,
+  UpdateProjectInput,
+  AddMemberInput,
+  CreateInviteLinkInput,
+} from '../validators/project.validator.js';
 import { projectCache } from './cache.service.js';
+import { ActivityService, ActivityAction } from './activity.service.js';
+import { WorkspaceService } from './workspace.service.js';
+import {
+  Permission,
+  ROLE_PERMISSIONS,
+  WorkspacePermission,
+  allowedWhenArchived,
+  roleHasPermission,
+  type PermissionType,
+} from '../config/permissions.js';
+import type { ProjectTemplateContent } from '../config/project-templates.js';
 
 // Default columns for new projects
 const DEFAULT_COLUMNS = [
   { name: 'To Do', order: 0 },
-  { name: 'In Progress', order: 1 },
-  { name: 'Review', order: 2 },
-  { name: 'Done', order: 3 },
+  { name: 'In Progress', order: 1, category: 'IN_PROGRESS' as const },
+  { name: 'Review', order: 2, category: 'IN_PROGRESS' as const },
+  { name: 'Done', order: 3, category: 'DONE' as const },
 ];
 
 type MemberWithUser = ProjectMember & {
   user: { id: string; name: string; email: string; avatar: string | null };
 };
 
-type ProjectWithRelations = Project & {
+type InviteLinkWithCreator = ProjectInviteLink & {
+  createdBy: { id: string; name: string };
+};
+
+/**
+ * What the join page shows before the user joins
+ */
+export interface InviteLinkPreview {
+  role: Role;
+  project: { id: string; name: string };
+  createdBy: { name: string };
+}
+
+const inviteLinkInclude = {
+  createdBy: {
+    select: { id: true, name: true },
+  },
+} as const;
+
+export type ProjectWithRelations = Project & {
   columns?: Column[];
   members?: MemberWithUser[];
   _count?: { members: number };
@@ -25,11 +62,15 @@ export class ProjectService {
   // ============ PROJECT CRUD ============
 
   /**
-   * Get all projects for a user (owned + member)
+   * Get all projects for a user (owned + member), either the active or the archived ones
    * Results are cached for 60 seconds
    */
-  static async getUserProjects(userId: string): Promise<ProjectWithRelations[]> {
-    return projectCache.getUserProjects(userId, () =>
+  static async getUserProjects(
+    userId: string,
+    workspaceId?: string,
+    archived = false
+  ): Promise<ProjectWithRelations[]> {
+    const projects = await projectCache.getUserProjects(userId, () =>
       prisma.project.findMany({
         where: {
           deletedAt: null,
@@ -58,6 +99,11 @@ export class ProjectService {
         orderBy: { updatedAt: 'desc' },
       })
     );
+
+    // The cached list spans every workspace and both states; narrow it to what is being viewed
+    return projects.filter(
+      (p) => (!workspaceId || p.workspaceId === workspaceId) && (p.archivedAt !== null) === archived
+    );
   }
 
   /**
@@ -108,48 +154,90 @@ export class ProjectService {
   }
 
   /**
-   * Create a new project with default columns
+   * Create a new project with default columns, or built from a template's
+   * settings, columns, labels, custom fields and sample tasks
    */
   static async createProject(
     userId: string,
-    data: CreateProjectInput
-  ): Promise<ProjectWithRelations> {
-    const project = await prisma.project.create({
-      data: {
-        name: data.name,
-        description: data.description,
-        color: data.color || '#6366f1',
-        icon: data.icon,
-        ownerId: userId,
-        // Create default columns
-        columns: {
-          create: DEFAULT_COLUMNS,
-        },
-        // Add owner as OWNER member
-        members: {
-          create: {
-            userId,
-            role: 'OWNER',
+    data: CreateProjectInput,
+    template?: ProjectTemplateContent
+  ): Promise<ProjectWithRelations | null> {
+    const workspaceId = data.workspaceId ?? (await WorkspaceService.getDefaultWorkspaceId(userId));
+
+    const canCreate = await WorkspaceService.hasPermission(
+      workspaceId,
+      userId,
+      WorkspacePermission.WORKSPACE_PROJECT_CREATE
+    );
+    if (!canCreate) {
+      return null;
+    }
+
+    // The project and its sample tasks are created together, so a failed
+    // task insert never leaves a half-built project behind
+    const project = await prisma.$transaction(async (tx) => {
+      const created = await tx.project.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          color: data.color || template?.settings.color || '#6366f1',
+          icon: data.icon ?? template?.settings.icon,
+          ...(template && {
+            wipLimitMode: template.settings.wipLimitMode,
+            dueReminderHours: template.settings.dueReminderHours,
+            overdueNotices: template.settings.overdueNotices,
+            labels: { create: template.labels },
+            customFields: {
+              create: template.customFields.map((field, order) => ({ ...field, order })),
+            },
+          }),
+          ownerId: userId,
+          workspaceId,
+          // Create the template's columns, or the default ones
+          columns: {
+            create: template
+              ? template.columns.map((column, order) => ({ ...column, order }))
+              : DEFAULT_COLUMNS,
+          },
+          // Add owner as OWNER member
+          members: {
+            create: {
+              userId,
+              role: 'OWNER',
+            },
           },
         },
-      },
-      include: {
-        columns: {
-          orderBy: { order: 'asc' },
-        },
-        members: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                avatar: true,
+        include: {
+          columns: {
+            orderBy: { order: 'asc' },
+          },
+          members: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                  avatar: true,
+                },
               },
             },
           },
         },
-      },
+      });
+
+      if (template && template.tasks.length > 0) {
+        await this.createTemplateTasks(
+          tx,
+          created.id,
+          workspaceId,
+          created.columns,
+          userId,
+          template
+        );
+      }
+
+      return created;
     });
 
     // Invalidate user's project list cache
@@ -158,6 +246,75 @@ export class ProjectService {
     return project;
   }
 
+  /**
+   * Add a template's sample tasks to a newly created project, in one batch
+   * per table
+   */
+  private static async createTemplateTasks(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    workspaceId: string,
+    columns: Column[],
+    userId: string,
+    template: ProjectTemplateContent
+  ): Promise<void> {
+    // Tasks refer to labels by name; the project's own labels win over workspace labels
+    const labels = await tx.label.findMany({
+      where: { OR: [{ workspaceId }, { projectId }] },
+      select: { id: true, name: true, projectId: true },
+    });
+    const labelIds = new Map<string, string>();
+    for (const label of labels) {
+      if (label.projectId || !labelIds.has(label.name)) {
+        labelIds.set(label.name, label.id);
+      }
+    }
+
+    const nextOrder = new Map<string, number>();
+    const now = Date.now();
+
+    // IDs are assigned up front so labels and subtasks can be batched too
+    const tasks: Prisma.TaskCreateManyInput[] = [];
+    const taskLabels: Prisma.TaskLabelCreateManyInput[] = [];
+    const subtasks: Prisma.SubtaskCreateManyInput[] = [];
+
+    for (const task of template.tasks) {
+      const column = columns[task.column];
+      if (!column) continue;
+
+      const order = nextOrder.get(column.id) ?? 0;
+      nextOrder.set(column.id, order + 1);
+
+      const taskId = crypto.randomUUID();
+      tasks.push({
+        id: taskId,
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        dueDate:
+          task.dueInDays !== null ? new Date(now + task.dueInDays * 24 * 60 * 60 * 1000) : null,
+        order,
+        columnId: column.id,
+        createdById: userId,
+      });
+
+      for (const name of task.labels) {
+        const labelId = labelIds.get(name);
+        if (labelId) {
+          taskLabels.push({ taskId, labelId });
+        }
+      }
+
+      task.subtasks.forEach((title, index) => {
+        subtasks.push({ taskId, title, order: index });
+      });
+    }
+
+    await tx.task.createMany({ data: tasks });
+    await tx.taskLabel.createMany({ data: taskLabels, skipDuplicates: true });
+    await tx.subtask.createMany({ data: subtasks });
+  }
+
   /**
    * Update a project
    */
@@ -166,8 +323,7 @@ export class ProjectService {
     userId: string,
     data: UpdateProjectInput
   ): Promise<ProjectWithRelations | null> {
-    // Check access (must be owner or admin)
-    const hasAccess = await this.checkProjectAccess(projectId, userId, ['OWNER', 'ADMIN']);
+    const hasAccess = await this.hasPermission(projectId, userId, Permission.PROJECT_UPDATE);
     if (!hasAccess) {
       return null;
     }
@@ -179,6 +335,9 @@ export class ProjectService {
         ...(data.description !== undefined && { description: data.description }),
         ...(data.color !== undefined && { color: data.color }),
         ...(data.icon !== undefined && { icon: data.icon }),
+        ...(data.wipLimitMode !== undefined && { wipLimitMode: data.wipLimitMode }),
+        ...(data.dueReminderHours !== undefined && { dueReminderHours: data.dueReminderHours }),
+        ...(data.overdueNotices !== undefined && { overdueNotices: data.overdueNotices }),
       },
       include: {
         columns: {
@@ -240,6 +399,36 @@ export class ProjectService {
     return true;
   }
 
+  /**
+   * Archive or unarchive a project. Archived projects drop out of active lists
+   * and become read-only until unarchived.
+   */
+  static async setArchived(
+    projectId: string,
+    userId: string,
+    archived: boolean
+  ): Promise<ProjectWithRelations | null> {
+    const hasAccess = await this.hasPermission(projectId, userId, Permission.PROJECT_ARCHIVE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const project = await prisma.project.update({
+      where: { id: projectId },
+      data: { archivedAt: archived ? new Date() : null },
+      include: {
+        members: { select: { userId: true } },
+      },
+    });
+
+    await projectCache.invalidateProject(projectId);
+    for (const member of project.members) {
+      await projectCache.invalidateUserProjects(member.userId);
+    }
+
+    return this.getProjectById(projectId, userId);
+  }
+
   // ============ MEMBER MANAGEMENT ============
 
   /**
@@ -249,7 +438,12 @@ export class ProjectService {
   static async getProjectMembers(
     projectId: string,
     userId: string
-  ): Promise<(ProjectMember & { user: { id: string; name: string; email: string; avatar: string | null } })[] | null> {
+  ): Promise<
+    | (ProjectMember & {
+        user: { id: string; name: string; email: string; avatar: string | null };
+      })[]
+    | null
+  > {
     // Check if user has access
     const hasAccess = await this.checkProjectAccess(projectId, userId);
     if (!hasAccess) {
@@ -282,8 +476,7 @@ export class ProjectService {
     requesterId: string,
     data: AddMemberInput
   ): Promise<ProjectMember | null> {
-    // Check if requester has permission (owner or admin)
-    const hasAccess = await this.checkProjectAccess(projectId, requesterId, ['OWNER', 'ADMIN']);
+    const hasAccess = await this.hasPermission(projectId, requesterId, Permission.MEMBER_INVITE);
     if (!hasAccess) {
       return null;
     }
@@ -330,6 +523,13 @@ export class ProjectService {
       },
     });
 
+    // Project members appear in the workspace directory
+    const { workspaceId } = await prisma.project.findUniqueOrThrow({
+      where: { id: projectId },
+      select: { workspaceId: true },
+    });
+    await WorkspaceService.ensureMember(workspaceId, userToAdd.id);
+
     // Invalidate membership caches
     await projectCache.invalidateMembership(projectId, userToAdd.id);
 
@@ -402,11 +602,11 @@ export class ProjectService {
     requesterId: string,
     targetUserId: string
   ): Promise<boolean> {
-    // Check if requester has permission (owner or admin, or self-removal)
+    // Members can always leave; removing someone else needs permission
     const isSelfRemoval = requesterId === targetUserId;
 
     if (!isSelfRemoval) {
-      const hasAccess = await this.checkProjectAccess(projectId, requesterId, ['OWNER', 'ADMIN']);
+      const hasAccess = await this.hasPermission(projectId, requesterId, Permission.MEMBER_REMOVE);
       if (!hasAccess) {
         return false;
       }
@@ -440,8 +640,196 @@ export class ProjectService {
     return true;
   }
 
+  // ============ INVITE LINKS ============
+
+  /**
+   * List a project's join links that have not been revoked (owner or admin only)
+   */
+  static async getInviteLinks(
+    projectId: string,
+    requesterId: string
+  ): Promise<InviteLinkWithCreator[] | null> {
+    const hasAccess = await this.hasPermission(projectId, requesterId, Permission.MEMBER_INVITE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    return prisma.projectInviteLink.findMany({
+      where: { projectId, revokedAt: null },
+      include: inviteLinkInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Create a join link that grants the chosen role
+   */
+  static async createInviteLink(
+    projectId: string,
+    requesterId: string,
+    data: CreateInviteLinkInput
+  ): Promise<InviteLinkWithCreator | null> {
+    const hasAccess = await this.hasPermission(projectId, requesterId, Permission.MEMBER_INVITE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    return prisma.projectInviteLink.create({
+      data: {
+        projectId,
+        createdById: requesterId,
+        token: crypto.randomBytes(24).toString('base64url'),
+        role: data.role as Role,
+        maxUses: data.maxUses ?? null,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+      },
+      include: inviteLinkInclude,
+    });
+  }
+
+  /**
+   * Revoke a join link so it can no longer be used
+   */
+  static async revokeInviteLink(
+    projectId: string,
+    requesterId: string,
+    linkId: string
+  ): Promise<boolean> {
+    const hasAccess = await this.hasPermission(projectId, requesterId, Permission.MEMBER_INVITE);
+    if (!hasAccess) {
+      return false;
+    }
+
+    const result = await prisma.projectInviteLink.updateMany({
+      where: { id: linkId, projectId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  /**
+   * Look up the project behind a join link.
+   * Returns null if the link is unknown, revoked, expired or used up.
+   */
+  static async getInviteLinkByToken(token: string): Promise<InviteLinkPreview | null> {
+    const link = await prisma.projectInviteLink.findUnique({
+      where: { token },
+      include: {
+        createdBy: { select: { name: true } },
+        project: { select: { id: true, name: true, deletedAt: true } },
+      },
+    });
+
+    if (!link || !this.isInviteLinkUsable(link) || link.project.deletedAt) {
+      return null;
+    }
+
+    return {
+      role: link.role,
+      project: { id: link.project.id, name: link.project.name },
+      createdBy: { name: link.createdBy.name },
+    };
+  }
+
+  /**
+   * Join a project through a join link, recording which link was used.
+   * Members who are already in the project keep their role and do not use up the link.
+   * Returns the project ID, or null if the link can no longer be used.
+   */
+  static async joinViaInviteLink(
+    token: string,
+    user: { id: string; name: string }
+  ): Promise<{ projectId: string } | null> {
+    const link = await prisma.projectInviteLink.findUnique({
+      where: { token },
+      include: { project: { select: { deletedAt: true, workspaceId: true } } },
+    });
+
+    if (!link || !this.isInviteLinkUsable(link) || link.project.deletedAt) {
+      return null;
+    }
+
+    const { projectId } = link;
+
+    const existingMember = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId: user.id } },
+    });
+    if (existingMember) {
+      return { projectId };
+    }
+
+    let joined: boolean;
+    try {
+      joined = await prisma.$transaction(async (tx) => {
+        // Claim a use only while the link is still valid, so concurrent joins
+        // can never go past maxUses
+        const now = new Date();
+        const claimed = await tx.projectInviteLink.updateMany({
+          where: {
+            id: link.id,
+            revokedAt: null,
+            OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+            AND: [
+              {
+                OR: [{ maxUses: null }, { useCount: { lt: tx.projectInviteLink.fields.maxUses } }],
+              },
+            ],
+          },
+          data: { useCount: { increment: 1 } },
+        });
+        if (claimed.count === 0) {
+          return false;
+        }
+
+        await tx.projectMember.create({
+          data: { projectId, userId: user.id, role: link.role, inviteLinkId: link.id },
+        });
+        await WorkspaceService.ensureMember(link.project.workspaceId, user.id, tx);
+        return true;
+      });
+    } catch (error) {
+      // A concurrent join by the same user already added them
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { projectId };
+      }
+      throw error;
+    }
+
+    if (!joined) {
+      return null;
+    }
+
+    await projectCache.invalidateMembership(projectId, user.id);
+
+    ActivityService.logAsync({
+      action: ActivityAction.MEMBER_ADDED,
+      projectId,
+      userId: user.id,
+      metadata: {
+        memberName: user.name,
+        memberId: user.id,
+        newRole: link.role,
+        inviteLinkId: link.id,
+      },
+    });
+
+    return { projectId };
+  }
+
   // ============ HELPERS ============
 
+  /**
+   * Whether a join link is still within its limits
+   */
+  private static isInviteLinkUsable(link: ProjectInviteLink): boolean {
+    return (
+      !link.revokedAt &&
+      (!link.expiresAt || link.expiresAt > new Date()) &&
+      (link.maxUses === null || link.useCount < link.maxUses)
+    );
+  }
+
   /**
    * Check if user has access to project with optional role requirement
    * Basic access check is cached for 5 minutes
@@ -482,19 +870,76 @@ export class ProjectService {
   }
 
   /**
-   * Get user's role in a project
+   * Get user's role in a project (null if not a member or the project was deleted)
+   * Results are cached for 5 minutes
    */
   static async getUserRole(projectId: string, userId: string): Promise<Role | null> {
-    const member = await prisma.projectMember.findUnique({
-      where: {
-        projectId_userId: {
-          projectId,
-          userId,
+    return projectCache.getRole(projectId, userId, async () => {
+      const member = await prisma.projectMember.findUnique({
+        where: {
+          projectId_userId: {
+            projectId,
+            userId,
+          },
         },
-      },
+        include: {
+          project: {
+            select: {
+              deletedAt: true,
+            },
+          },
+        },
+      });
+
+      return member && !member.project.deletedAt ? member.role : null;
+    });
+  }
+
+  /**
+   * Check if user's role in a project grants a permission
+   */
+  static async hasPermission(
+    projectId: string,
+    userId: string,
+    permission: PermissionType
+  ): Promise<boolean> {
+    const role = await this.getUserRole(projectId, userId);
+    if (!role || !roleHasPermission(role, permission)) {
+      return false;
+    }
+
+    return allowedWhenArchived(permission) || !(await this.isArchived(projectId));
+  }
+
+  /**
+   * Whether a project is archived (and so read-only)
+   */
+  static async isArchived(projectId: string): Promise<boolean> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { archivedAt: true },
     });
 
-    return member?.role || null;
+    return !!project?.archivedAt;
+  }
+
+  /**
+   * Get the user's role in a project and everything it allows
+   */
+  static async getUserPermissions(
+    projectId: string,
+    userId: string
+  ): Promise<{ role: Role; permissions: readonly PermissionType[] } | null> {
+    const role = await this.getUserRole(projectId, userId);
+    if (!role) {
+      return null;
+    }
+
+    const permissions = (await this.isArchived(projectId))
+      ? ROLE_PERMISSIONS[role].filter(allowedWhenArchived)
+      : ROLE_PERMISSIONS[role];
+
+    return { role, permissions };
   }
 }
 
@@ -0,0 +1,186 @@
+/**
+ * Recurrence Service
+ *
+ * Spawns the next occurrence of recurring tasks. Only the latest occurrence
+ * of a series carries the recurrence rule; spawning moves the rule onto the
+ * new task, which makes each occurrence spawn at most once.
+ */
+
+import { prisma } from '../config/database.js';
+import { logger } from '../config/logger.js';
+import type { Task } from '@prisma/client';
+import { taskCache } from './cache.service.js';
+import { ActivityService, ActivityAction } from './activity.service.js';
+import { ColumnService, WipLimitExceededError } from './column.service.js';
+import { parseRecurrenceRule, getNextOccurrence } from '../utils/recurrence.js';
+
+const recurrenceLogger = logger.child({ module: 'recurrence' });
+
+// Max tasks handled per run, the rest is picked up by the next run
+const BATCH_SIZE = 100;
+
+/**
+ * A newly spawned occurrence
+ */
+export interface SpawnedOccurrence {
+  task: Task & {
+    column: { id: string; name: string; projectId: string };
+  };
+  previousTaskId: string;
+  projectId: string;
+}
+
+export class RecurrenceService {
+  /**
+   * Spawn the next occurrence for every recurring task that was completed
+   * or whose due date has passed
+   */
+  static async processDueTasks(now: Date = new Date()): Promise<SpawnedOccurrence[]> {
+    const tasks = await prisma.task.findMany({
+      where: {
+        recurrenceRule: { not: null },
+        deletedAt: null,
+        column: { project: { deletedAt: null, archivedAt: null } },
+        OR: [{ completedAt: { not: null } }, { dueDate: { lt: now } }],
+      },
+      select: { id: true },
+      orderBy: { dueDate: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    const spawned: SpawnedOccurrence[] = [];
+    for (const { id } of tasks) {
+      try {
+        const occurrence = await this.spawnNextOccurrence(id, now);
+        if (occurrence) {
+          spawned.push(occurrence);
+        }
+      } catch (error) {
+        // The task keeps its rule, so a later run spawns it once the column has room
+        if (!(error instanceof WipLimitExceededError)) throw error;
+        recurrenceLogger.debug(
+          { taskId: id, columnId: error.status.columnId },
+          'Next occurrence waits for room under the WIP limit'
+        );
+      }
+    }
+
+    return spawned;
+  }
+
+  /**
+   * Create the next occurrence of a recurring task in the same column, or in
+   * the project's first to-do column when the task was completed into a done
+   * column, copying description, priority, labels and assignees.
+   * Returns null if the task is not recurring, was already handled, or the
+   * series has ended. Throws WipLimitExceededError if the target column is
+   * full in BLOCK mode.
+   */
+  static async spawnNextOccurrence(
+    taskId: string,
+    now: Date = new Date()
+  ): Promise<SpawnedOccurrence | null> {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        column: { select: { projectId: true, category: true } },
+        labels: { select: { labelId: true } },
+        assignees: { select: { userId: true } },
+      },
+    });
+
+    if (!task || task.deletedAt || !task.recurrenceRule) {
+      return null;
+    }
+
+    // Next due date follows the current one; tasks without a due date
+    // repeat from when they were completed
+    const rule = parseRecurrenceRule(task.recurrenceRule);
+    const anchor = task.dueDate ?? task.completedAt ?? now;
+    const after = anchor.getTime() > now.getTime() ? anchor : now;
+    const nextDueDate = rule ? getNextOccurrence(rule, anchor, after) : null;
+
+    // The next occurrence starts open, so it must not land in a done column
+    const todoColumn =
+      task.column.category === 'DONE'
+        ? await prisma.column.findFirst({
+            where: { projectId: task.column.projectId, category: 'TODO' },
+            orderBy: { order: 'asc' },
+            select: { id: true },
+          })
+        : null;
+    const columnId = todoColumn?.id ?? task.columnId;
+
+    if (nextDueDate) {
+      await ColumnService.checkWipLimit(columnId);
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      // Claim the series so concurrent runs cannot spawn it twice
+      const claimed = await tx.task.updateMany({
+        where: { id: taskId, recurrenceRule: task.recurrenceRule },
+        data: { recurrenceRule: null },
+      });
+      if (claimed.count === 0 || !nextDueDate) {
+        return null;
+      }
+
+      const lastTask = await tx.task.findFirst({
+        where: { columnId, deletedAt: null },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      });
+
+      return tx.task.create({
+        data: {
+          title: task.title,
+          description: task.description,
+          priority: task.priority,
+          dueDate: nextDueDate,
+          order: lastTask ? lastTask.order + 1 : 0,
+          recurrenceRule: task.recurrenceRule,
+          requireSubtasksComplete: task.requireSubtasksComplete,
+          columnId,
+          createdById: task.createdById,
+          labels: {
+            create: task.labels.map((l) => ({ labelId: l.labelId })),
+          },
+          assignees: {
+            create: task.assignees.map((a) => ({ userId: a.userId })),
+          },
+        },
+        include: {
+          column: {
+            select: { id: true, name: true, projectId: true },
+          },
+        },
+      });
+    });
+
+    await taskCache.invalidateTask(taskId, task.column.projectId);
+
+    if (!created) {
+      return null;
+    }
+
+    ActivityService.logAsync({
+      action: ActivityAction.TASK_RECURRED,
+      projectId: task.column.projectId,
+      userId: task.createdById,
+      taskId: created.id,
+      metadata: {
+        taskTitle: created.title,
+        taskId: created.id,
+        recurringFromTaskId: taskId,
+      },
+    });
+
+    return {
+      task: created,
+      previousTaskId: taskId,
+      projectId: task.column.projectId,
+    };
+  }
+}
+
+export default RecurrenceService;
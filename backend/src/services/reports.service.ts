@@ -40,6 +40,13 @@ export interface CompletionMetrics {
   weekOverWeekChange: number;
 }
 
+export interface CustomFieldByStatusData {
+  status: string;
+  count: number; // Tasks with a value (checked, for checkboxes)
+  sum: number | null; // Number fields only
+  average: number | null; // Number fields only
+}
+
 export class ReportsService {
   /**
    * Get tasks created and completed over time
@@ -174,23 +181,12 @@ export class ReportsService {
       return JSON.parse(cached);
     }
 
-    // Get all columns to identify "done" columns
-    const columns = await prisma.column.findMany({
-      where: { projectId },
-      select: { id: true, name: true },
-    });
-    const doneColumnIds = columns
-      .filter((c) => c.name.toLowerCase().includes('done'))
-      .map((c) => c.id);
-    const inProgressColumnIds = columns
-      .filter((c) => c.name.toLowerCase().includes('progress'))
-      .map((c) => c.id);
-
-    // Get assignees with task counts
+    // Get assignees with task completion state
     const assignees = await prisma.taskAssignee.findMany({
       where: {
         task: {
           column: { projectId },
+          deletedAt: null,
         },
       },
       select: {
@@ -204,7 +200,8 @@ export class ReportsService {
         },
         task: {
           select: {
-            columnId: true,
+            completedAt: true,
+            column: { select: { category: true } },
           },
         },
       },
@@ -226,10 +223,9 @@ export class ReportsService {
       };
 
       existing.total++;
-      if (doneColumnIds.includes(assignment.task.columnId)) {
+      if (assignment.task.completedAt) {
         existing.completed++;
-      }
-      if (inProgressColumnIds.includes(assignment.task.columnId)) {
+      } else if (assignment.task.column.category === 'IN_PROGRESS') {
         existing.inProgress++;
       }
 
@@ -288,6 +284,66 @@ export class ReportsService {
     return result;
   }
 
+  /**
+   * Aggregate a custom field by status (column), e.g. story points per column.
+   * Returns null when the field does not belong to the project.
+   */
+  static async getCustomFieldByStatus(
+    projectId: string,
+    fieldId: string
+  ): Promise<CustomFieldByStatusData[] | null> {
+    const cacheKey = `reports:custom-field-by-status:${projectId}:${fieldId}`;
+    const cached = await redis?.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const field = await prisma.customField.findFirst({
+      where: { id: fieldId, projectId },
+      select: { type: true },
+    });
+    if (!field) {
+      return null;
+    }
+
+    const [columns, values] = await Promise.all([
+      prisma.column.findMany({
+        where: { projectId },
+        select: { id: true, name: true },
+        orderBy: { order: 'asc' },
+      }),
+      prisma.customFieldValue.findMany({
+        where: { fieldId, task: { deletedAt: null, column: { projectId } } },
+        select: { value: true, task: { select: { columnId: true } } },
+      }),
+    ]);
+
+    const isNumber = field.type === 'NUMBER';
+
+    const result = columns.map((col) => {
+      const columnValues = values
+        .filter((v) => v.task.columnId === col.id && v.value !== false)
+        .map((v) => v.value);
+      const numbers = columnValues.filter((v): v is number => typeof v === 'number');
+      const sum = numbers.reduce((total, n) => total + n, 0);
+
+      return {
+        status: col.name,
+        count: columnValues.length,
+        sum: isNumber ? sum : null,
+        average:
+          isNumber && numbers.length > 0
+            ? Math.round((sum / numbers.length) * 10) / 10
+            : null,
+      };
+    });
+
+    // Cache for 5 minutes
+    await redis?.setex(cacheKey, 300, JSON.stringify(result));
+
+    return result;
+  }
+
   /**
    * Get completion metrics for a project
    */
@@ -302,36 +358,38 @@ export class ReportsService {
     const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     const twoWeeksAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
 
-    // Get all columns
-    const columns = await prisma.column.findMany({
-      where: { projectId },
-      select: { id: true, name: true },
-    });
-    const doneColumnIds = columns
-      .filter((c) => c.name.toLowerCase().includes('done'))
-      .map((c) => c.id);
-    const notDoneColumnIds = columns
-      .filter((c) => !c.name.toLowerCase().includes('done'))
-      .map((c) => c.id);
-
-    // Get total tasks
+    // Completion follows completedAt, which moving into or out of a DONE column keeps in sync
     const totalTasks = await prisma.task.count({
-      where: { column: { projectId } },
+      where: { column: { projectId }, deletedAt: null },
     });
 
-    // Get completed tasks
-    const completedTasks = await prisma.task.count({
-      where: { columnId: { in: doneColumnIds } },
+    const completed = await prisma.task.findMany({
+      where: { column: { projectId }, deletedAt: null, completedAt: { not: null } },
+      select: { createdAt: true, startedAt: true, completedAt: true },
     });
+    const completedTasks = completed.length;
 
     // Get overdue tasks
     const overdueTasks = await prisma.task.count({
       where: {
-        columnId: { in: notDoneColumnIds },
+        column: { projectId },
+        deletedAt: null,
+        completedAt: null,
         dueDate: { lt: now },
       },
     });
 
+    // Cycle time runs from entering an in-progress column (or creation) to completion
+    const totalCompletionMs = completed.reduce(
+      (sum, task) =>
+        sum + (task.completedAt!.getTime() - (task.startedAt ?? task.createdAt).getTime()),
+      0
+    );
+    const averageCompletionTime =
+      completedTasks > 0
+        ? Math.round((totalCompletionMs / completedTasks / (24 * 60 * 60 * 1000)) * 10) / 10
+        : null;
+
     // Get completed this week
     const tasksCompletedThisWeek = await prisma.activity.count({
       where: {
@@ -371,7 +429,7 @@ export class ReportsService {
       totalTasks,
       completedTasks,
       completionRate,
-      averageCompletionTime: null, // Would require tracking task creation to completion time
+      averageCompletionTime,
       overdueRate,
       tasksCompletedThisWeek,
       tasksCompletedLastWeek,
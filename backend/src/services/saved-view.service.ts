@@ -0,0 +1,157 @@
+/**
+ * Saved View Service
+ *
+ * Handles named project views (view mode, filters, sort and grouping).
+ * Views are private to their creator unless shared with the project.
+ */
+
+import { prisma } from '../config/database.js';
+import type { Prisma, Role } from '@prisma/client';
+import type {
+  CreateSavedViewInput,
+  UpdateSavedViewInput,
+} from '../validators/saved-view.validator.js';
+import { ProjectService } from './project.service.js';
+import { Permission, roleHasPermission } from '../config/permissions.js';
+
+const savedViewInclude = {
+  createdBy: {
+    select: { id: true, name: true, avatar: true },
+  },
+} satisfies Prisma.SavedViewInclude;
+
+export type SavedViewWithCreator = Prisma.SavedViewGetPayload<{
+  include: typeof savedViewInclude;
+}>;
+
+export class SavedViewService {
+  /**
+   * Get the user's own views plus views shared with the project
+   */
+  static async getProjectViews(
+    projectId: string,
+    userId: string
+  ): Promise<SavedViewWithCreator[] | null> {
+    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    if (!hasAccess) {
+      return null;
+    }
+
+    return prisma.savedView.findMany({
+      where: {
+        projectId,
+        OR: [{ createdById: userId }, { isShared: true }],
+      },
+      include: savedViewInclude,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Save a new view for the current user
+   */
+  static async createView(
+    projectId: string,
+    userId: string,
+    data: CreateSavedViewInput
+  ): Promise<SavedViewWithCreator | null> {
+    const role = await ProjectService.getUserRole(projectId, userId);
+    if (!role) {
+      return null;
+    }
+
+    if (data.isShared && !roleHasPermission(role, Permission.VIEW_SHARE)) {
+      throw new Error('Viewers cannot share views with the project');
+    }
+
+    return prisma.savedView.create({
+      data: {
+        name: data.name,
+        isShared: data.isShared,
+        config: data.config,
+        projectId,
+        createdById: userId,
+      },
+      include: savedViewInclude,
+    });
+  }
+
+  /**
+   * Update a view. Only the creator can change it; owners and admins may
+   * also edit shared views.
+   */
+  static async updateView(
+    projectId: string,
+    viewId: string,
+    userId: string,
+    data: UpdateSavedViewInput
+  ): Promise<SavedViewWithCreator | null> {
+    const role = await ProjectService.getUserRole(projectId, userId);
+    if (!role) {
+      return null;
+    }
+
+    const view = await prisma.savedView.findFirst({
+      where: { id: viewId, projectId },
+    });
+    if (!view || !this.canManageView(view, userId, role)) {
+      return null;
+    }
+
+    if (data.isShared && !roleHasPermission(role, Permission.VIEW_SHARE)) {
+      throw new Error('Viewers cannot share views with the project');
+    }
+
+    return prisma.savedView.update({
+      where: { id: viewId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.isShared !== undefined && { isShared: data.isShared }),
+        ...(data.config !== undefined && { config: data.config }),
+      },
+      include: savedViewInclude,
+    });
+  }
+
+  /**
+   * Delete a view (same permissions as update)
+   */
+  static async deleteView(
+    projectId: string,
+    viewId: string,
+    userId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const role = await ProjectService.getUserRole(projectId, userId);
+    if (!role) {
+      return { success: false, error: 'Permission denied' };
+    }
+
+    const view = await prisma.savedView.findFirst({
+      where: { id: viewId, projectId },
+    });
+    if (!view || (!view.isShared && view.createdById !== userId)) {
+      return { success: false, error: 'Saved view not found' };
+    }
+    if (!this.canManageView(view, userId, role)) {
+      return { success: false, error: 'Permission denied' };
+    }
+
+    await prisma.savedView.delete({ where: { id: viewId } });
+
+    return { success: true };
+  }
+
+  /**
+   * Creators manage their own views; admins and owners manage shared ones
+   */
+  private static canManageView(
+    view: { createdById: string; isShared: boolean },
+    userId: string,
+    role: Role
+  ): boolean {
+    if (view.createdById === userId) return true;
+    return view.isShared && roleHasPermission(role, Permission.VIEW_MANAGE_SHARED);
+  }
+}
+
+export default SavedViewService;
@@ -1,9 +1,26 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import type { SearchQueryInput } from '../validators/search.validator.js';
 
+// Highlighted terms in titles and snippets are wrapped in these control
+// characters, which cannot occur in user text, so clients can render them
+// safely without parsing HTML
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export type SearchMatchType = 'title' | 'description' | 'comment' | 'label' | 'attachment';
+
+export interface SearchMatch {
+  type: SearchMatchType;
+  /** Matched text with highlighted terms */
+  snippet: string;
+}
+
 export interface TaskSearchResult {
   id: string;
   title: string;
+  /** Title with matched terms highlighted */
+  titleHighlight: string;
   description: string | null;
   priority: string | null;
   column: {
@@ -16,6 +33,10 @@ export interface TaskSearchResult {
   };
   labels: { id: string; name: string; color: string }[];
   assignees: { id: string; name: string; avatar: string | null }[];
+  /** Relevance; higher is better */
+  rank: number;
+  /** Where the query matched, best source first */
+  matches: SearchMatch[];
 }
 
 export interface ProjectSearchResult {
@@ -30,20 +51,58 @@ export interface SearchResult {
   projects: ProjectSearchResult[];
 }
 
+interface RankedTaskRow {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  titleMatch: boolean;
+  descriptionSnippet: string | null;
+  commentSnippet: string | null;
+  labelSnippet: string | null;
+  attachmentSnippet: string | null;
+}
+
+const FULL_HIGHLIGHT_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=20, MinWords=8, MaxFragments=1`;
+
+/**
+ * Turn user input into a prefix-matching tsquery ("desi rev" -> "desi:* & rev:*")
+ * so results update while typing. Only letters and digits are kept, which
+ * makes the query safe to pass to to_tsquery. Returns null if nothing is left.
+ */
+function toPrefixTsQuery(input: string, operator: '&' | '|'): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!terms) return null;
+  return terms.map((term) => `${term}:*`).join(` ${operator} `);
+}
+
+function toSearchMatches(row: RankedTaskRow): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  if (row.titleMatch) matches.push({ type: 'title', snippet: row.titleHighlight });
+  if (row.labelSnippet) matches.push({ type: 'label', snippet: row.labelSnippet });
+  if (row.descriptionSnippet) matches.push({ type: 'description', snippet: row.descriptionSnippet });
+  if (row.commentSnippet) matches.push({ type: 'comment', snippet: row.commentSnippet });
+  if (row.attachmentSnippet) matches.push({ type: 'attachment', snippet: row.attachmentSnippet });
+  return matches;
+}
+
 /**
  * Search tasks and projects for a user.
- * Searches across all projects the user has access to, or filters by projectId.
+ * Searches across all projects the user has access to (within workspaceId when
+ * given), or filters by projectId.
+ * Tasks are matched against their full-text search document (title, labels,
+ * description, comments, attachment names) and ordered by relevance.
  */
 export async function search(
   userId: string,
   query: SearchQueryInput
 ): Promise<SearchResult> {
-  const { q, projectId, limit = 10 } = query;
+  const { q, workspaceId, projectId, limit = 10 } = query;
   const searchTerm = q.trim().toLowerCase();
 
   // Get user's project IDs for access control
   const userProjects = await prisma.projectMember.findMany({
-    where: { userId },
+    where: { userId, ...(workspaceId && { project: { workspaceId } }) },
     select: { projectId: true },
   });
   const accessibleProjectIds = userProjects.map((p: { projectId: string }) => p.projectId);
@@ -56,16 +115,69 @@ export async function search(
   const projectFilter = projectId ? [projectId] : accessibleProjectIds;
 
   // Search tasks
+  const tsQuery = toPrefixTsQuery(q, '&');
+  const anyTermTsQuery = toPrefixTsQuery(q, '|');
+  const rankedTasks =
+    tsQuery && anyTermTsQuery && projectFilter.length > 0
+      ? await prisma.$queryRaw<RankedTaskRow[]>(Prisma.sql`
+          WITH q AS (
+            SELECT
+              to_tsquery('english', ${tsQuery}) AS "query",
+              to_tsquery('english', ${anyTermTsQuery}) AS "anyTerm"
+          ),
+          ranked AS (
+            SELECT
+              t."id", t."title", t."description", t."updatedAt",
+              ts_rank_cd(t."searchVector", q."query") AS "rank"
+            FROM "tasks" t
+            JOIN "columns" c ON c."id" = t."columnId"
+            CROSS JOIN q
+            WHERE c."projectId" IN (${Prisma.join(projectFilter)})
+              AND t."deletedAt" IS NULL
+              AND t."searchVector" @@ q."query"
+            ORDER BY "rank" DESC, t."updatedAt" DESC
+            LIMIT ${limit}
+          )
+          SELECT
+            r."id",
+            r."rank",
+            ts_headline('english', r."title", q."anyTerm", ${FULL_HIGHLIGHT_OPTIONS}) AS "titleHighlight",
+            to_tsvector('english', r."title") @@ q."anyTerm" AS "titleMatch",
+            CASE WHEN to_tsvector('english', strip_html(r."description")) @@ q."anyTerm"
+              THEN ts_headline('english', strip_html(r."description"), q."anyTerm", ${SNIPPET_OPTIONS})
+            END AS "descriptionSnippet",
+            (
+              SELECT ts_headline('english', strip_html(cm."content"), q."anyTerm", ${SNIPPET_OPTIONS})
+              FROM "comments" cm
+              WHERE cm."taskId" = r."id"
+                AND to_tsvector('english', strip_html(cm."content")) @@ q."anyTerm"
+              ORDER BY cm."createdAt" DESC
+              LIMIT 1
+            ) AS "commentSnippet",
+            (
+              SELECT ts_headline('english', l."name", q."anyTerm", ${FULL_HIGHLIGHT_OPTIONS})
+              FROM "task_labels" tl
+              JOIN "labels" l ON l."id" = tl."labelId"
+              WHERE tl."taskId" = r."id"
+                AND to_tsvector('english', l."name") @@ q."anyTerm"
+              LIMIT 1
+            ) AS "labelSnippet",
+            (
+              SELECT ts_headline('english', a."originalName", q."anyTerm", ${FULL_HIGHLIGHT_OPTIONS})
+              FROM "attachments" a
+              WHERE a."taskId" = r."id"
+                AND to_tsvector('english', file_name_words(a."originalName")) @@ q."anyTerm"
+              ORDER BY a."createdAt" DESC
+              LIMIT 1
+            ) AS "attachmentSnippet"
+          FROM ranked r
+          CROSS JOIN q
+          ORDER BY r."rank" DESC, r."updatedAt" DESC
+        `)
+      : [];
+
   const tasks = await prisma.task.findMany({
-    where: {
-      column: {
-        projectId: { in: projectFilter },
-      },
-      OR: [
-        { title: { contains: searchTerm, mode: 'insensitive' } },
-        { description: { contains: searchTerm, mode: 'insensitive' } },
-      ],
-    },
+    where: { id: { in: rankedTasks.map((row) => row.id) } },
     include: {
       column: {
         select: { id: true, name: true, projectId: true },
@@ -85,9 +197,8 @@ export async function search(
         },
       },
     },
-    take: limit,
-    orderBy: { updatedAt: 'desc' },
   });
+  const taskMap = new Map(tasks.map((task) => [task.id, task]));
 
   // Get project info for tasks
   const projectIds = [...new Set(tasks.map((t: { column: { projectId: string } }) => t.column.projectId))];
@@ -163,33 +274,28 @@ export async function search(
   }
 
   return {
-    tasks: tasks.map(
-      (task: {
-        id: string;
-        title: string;
-        description: string | null;
-        priority: string | null;
-        column: { id: string; name: string; projectId: string };
-        labels: { label: { id: string; name: string; color: string } }[];
-        assignees: { user: { id: string; name: string; avatar: string | null } }[];
-      }) => ({
-        id: task.id,
-        title: task.title,
-        description: task.description,
-        priority: task.priority,
-        column: {
-          id: task.column.id,
-          name: task.column.name,
+    tasks: rankedTasks.flatMap((row) => {
+      const task = taskMap.get(row.id);
+      if (!task) return [];
+      return [
+        {
+          id: task.id,
+          title: task.title,
+          titleHighlight: row.titleHighlight,
+          description: task.description,
+          priority: task.priority,
+          column: {
+            id: task.column.id,
+            name: task.column.name,
+          },
+          project: projectMap.get(task.column.projectId) || { id: '', name: '' },
+          labels: task.labels.map((l) => l.label),
+          assignees: task.assignees.map((a) => a.user),
+          rank: row.rank,
+          matches: toSearchMatches(row),
         },
-        project: projectMap.get(task.column.projectId) || { id: '', name: '' },
-        labels: task.labels.map(
-          (l: { label: { id: string; name: string; color: string } }) => l.label
-        ),
-        assignees: task.assignees.map(
-          (a: { user: { id: string; name: string; avatar: string | null } }) => a.user
-        ),
-      })
-    ),
+      ];
+    }),
     projects: projectResults,
   };
 }
@@ -1,5 +1,6 @@
 import { prisma } from '../config/database.js';
 import { redis, CACHE_KEYS, CACHE_TTL } from '../config/redis.js';
+import { invalidatePattern } from './cache.service.js';
 
 // Types
 export interface TaskStats {
@@ -56,10 +57,10 @@ export interface SingleProjectStats {
 
 export class StatsService {
   /**
-   * Get dashboard stats for a user
+   * Get dashboard stats for a user, optionally limited to one workspace
    */
-  static async getDashboardStats(userId: string): Promise<DashboardStats> {
-    const cacheKey = `${CACHE_KEYS.USER_STATS}:${userId}`;
+  static async getDashboardStats(userId: string, workspaceId?: string): Promise<DashboardStats> {
+    const cacheKey = `${CACHE_KEYS.USER_STATS}:${userId}:${workspaceId ?? 'all'}`;
 
     // Try cache first
     const cached = await redis?.get(cacheKey);
@@ -67,9 +68,12 @@ export class StatsService {
       return JSON.parse(cached);
     }
 
-    // Get user's project IDs
+    // Get user's project IDs (archived and trashed projects don't count)
     const userProjects = await prisma.projectMember.findMany({
-      where: { userId },
+      where: {
+        userId,
+        project: { deletedAt: null, archivedAt: null, ...(workspaceId && { workspaceId }) },
+      },
       select: { projectId: true, project: { select: { name: true } } },
     });
     const projectIds = userProjects.map((p) => p.projectId);
@@ -105,22 +109,6 @@ export class StatsService {
 
     const now = new Date();
 
-    // Get all columns for these projects to identify "done" columns
-    const columns = await prisma.column.findMany({
-      where: { projectId: { in: projectIds } },
-      select: { id: true, name: true },
-    });
-
-    const doneColumnIds = columns
-      .filter((c) => c.name.toLowerCase().includes('done'))
-      .map((c) => c.id);
-    const inProgressColumnIds = columns
-      .filter((c) => c.name.toLowerCase().includes('progress'))
-      .map((c) => c.id);
-    const notDoneColumnIds = columns
-      .filter((c) => !c.name.toLowerCase().includes('done'))
-      .map((c) => c.id);
-
     const [total, completed, inProgress, overdue] = await Promise.all([
       // Total tasks
       prisma.task.count({
@@ -131,19 +119,22 @@ export class StatsService {
       // Completed tasks
       prisma.task.count({
         where: {
-          columnId: { in: doneColumnIds },
+          column: { projectId: { in: projectIds } },
+          completedAt: { not: null },
         },
       }),
       // In progress tasks
       prisma.task.count({
         where: {
-          columnId: { in: inProgressColumnIds },
+          column: { projectId: { in: projectIds }, category: 'IN_PROGRESS' },
+          completedAt: null,
         },
       }),
       // Overdue tasks (not done, past due date)
       prisma.task.count({
         where: {
-          columnId: { in: notDoneColumnIds },
+          column: { projectId: { in: projectIds } },
+          completedAt: null,
           dueDate: { lt: now },
         },
       }),
@@ -166,23 +157,14 @@ export class StatsService {
 
     const projectBreakdown = await Promise.all(
       userProjects.map(async ({ projectId, project }) => {
-        // Get done column IDs for this project
-        const doneColumns = await prisma.column.findMany({
-          where: {
-            projectId,
-            name: { contains: 'Done' },
-          },
-          select: { id: true },
-        });
-        const doneColumnIds = doneColumns.map((c) => c.id);
-
         const [taskCount, completedCount] = await Promise.all([
           prisma.task.count({
             where: { column: { projectId } },
           }),
           prisma.task.count({
             where: {
-              columnId: { in: doneColumnIds },
+              column: { projectId },
+              completedAt: { not: null },
             },
           }),
         ]);
@@ -220,19 +202,10 @@ export class StatsService {
     const now = new Date();
     const weekFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
 
-    // Get columns that are NOT done columns
-    const notDoneColumns = await prisma.column.findMany({
-      where: {
-        projectId: { in: projectIds },
-        NOT: { name: { contains: 'Done' } },
-      },
-      select: { id: true },
-    });
-    const notDoneColumnIds = notDoneColumns.map((c) => c.id);
-
     const tasks = await prisma.task.findMany({
       where: {
-        columnId: { in: notDoneColumnIds },
+        column: { projectId: { in: projectIds } },
+        completedAt: null,
         dueDate: {
           gte: now,
           lte: weekFromNow,
@@ -330,8 +303,8 @@ export class StatsService {
    * Invalidate stats cache for a user
    */
   static async invalidateUserStats(userId: string): Promise<void> {
-    const cacheKey = `${CACHE_KEYS.USER_STATS}:${userId}`;
-    await redis?.del(cacheKey);
+    // One entry per workspace the dashboard was viewed in
+    await invalidatePattern(`${CACHE_KEYS.USER_STATS}:${userId}:*`);
   }
 
   /**
@@ -0,0 +1,214 @@
+/**
+ * Subtask Service
+ *
+ * Handles CRUD operations for task checklists (subtasks).
+ */
+
+import { prisma } from '../config/database.js';
+import { ProjectService } from './project.service.js';
+import { taskCache } from './cache.service.js';
+import type { Subtask } from '@prisma/client';
+import { Permission } from '../config/permissions.js';
+
+/**
+ * Input for updating a subtask
+ */
+export interface UpdateSubtaskData {
+  title?: string;
+  completed?: boolean;
+  order?: number;
+}
+
+export class SubtaskService {
+  /**
+   * Get all subtasks for a task, ordered by position
+   */
+  static async getTaskSubtasks(
+    projectId: string,
+    taskId: string,
+    userId: string
+  ): Promise<Subtask[] | null> {
+    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const task = await this.findProjectTask(projectId, taskId);
+    if (!task) {
+      return null;
+    }
+
+    return prisma.subtask.findMany({
+      where: { taskId },
+      orderBy: { order: 'asc' },
+    });
+  }
+
+  /**
+   * Add a subtask to the end of a task's checklist
+   */
+  static async create(
+    projectId: string,
+    taskId: string,
+    userId: string,
+    title: string
+  ): Promise<Subtask | null> {
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const task = await this.findProjectTask(projectId, taskId);
+    if (!task) {
+      return null;
+    }
+
+    const lastSubtask = await prisma.subtask.findFirst({
+      where: { taskId },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    });
+
+    const subtask = await prisma.subtask.create({
+      data: {
+        title,
+        taskId,
+        order: lastSubtask ? lastSubtask.order + 1 : 0,
+      },
+    });
+
+    // Progress counts are part of the cached task payload
+    await taskCache.invalidateTask(taskId, projectId);
+
+    return subtask;
+  }
+
+  /**
+   * Update a subtask (title, completion, or position)
+   */
+  static async update(
+    projectId: string,
+    taskId: string,
+    subtaskId: string,
+    userId: string,
+    data: UpdateSubtaskData
+  ): Promise<Subtask | null> {
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const task = await this.findProjectTask(projectId, taskId);
+    if (!task) {
+      return null;
+    }
+
+    const subtask = await prisma.subtask.findFirst({
+      where: { id: subtaskId, taskId },
+    });
+    if (!subtask) {
+      return null;
+    }
+
+    const updateData: Record<string, unknown> = {};
+
+    if (data.title !== undefined) {
+      updateData.title = data.title;
+    }
+    if (data.completed !== undefined) {
+      updateData.completedAt = data.completed ? (subtask.completedAt ?? new Date()) : null;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (data.order !== undefined && data.order !== subtask.order) {
+        const count = await tx.subtask.count({ where: { taskId } });
+        const newOrder = Math.min(data.order, count - 1);
+
+        if (newOrder > subtask.order) {
+          // Moving down: shift the items in between up
+          await tx.subtask.updateMany({
+            where: { taskId, order: { gt: subtask.order, lte: newOrder } },
+            data: { order: { decrement: 1 } },
+          });
+        } else if (newOrder < subtask.order) {
+          // Moving up: shift the items in between down
+          await tx.subtask.updateMany({
+            where: { taskId, order: { gte: newOrder, lt: subtask.order } },
+            data: { order: { increment: 1 } },
+          });
+        }
+
+        updateData.order = newOrder;
+      }
+
+      return tx.subtask.update({
+        where: { id: subtaskId },
+        data: updateData,
+      });
+    });
+
+    await taskCache.invalidateTask(taskId, projectId);
+
+    return updated;
+  }
+
+  /**
+   * Delete a subtask and close the gap in ordering
+   */
+  static async delete(
+    projectId: string,
+    taskId: string,
+    subtaskId: string,
+    userId: string
+  ): Promise<Subtask | null> {
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_UPDATE);
+    if (!hasAccess) {
+      return null;
+    }
+
+    const task = await this.findProjectTask(projectId, taskId);
+    if (!task) {
+      return null;
+    }
+
+    const subtask = await prisma.subtask.findFirst({
+      where: { id: subtaskId, taskId },
+    });
+    if (!subtask) {
+      return null;
+    }
+
+    await prisma.$transaction([
+      prisma.subtask.delete({ where: { id: subtaskId } }),
+      prisma.subtask.updateMany({
+        where: { taskId, order: { gt: subtask.order } },
+        data: { order: { decrement: 1 } },
+      }),
+    ]);
+
+    await taskCache.invalidateTask(taskId, projectId);
+
+    return subtask;
+  }
+
+  // ============ HELPERS ============
+
+  /**
+   * Find a live task that belongs to the given project
+   */
+  private static async findProjectTask(
+    projectId: string,
+    taskId: string
+  ): Promise<{ id: string; title: string } | null> {
+    return prisma.task.findFirst({
+      where: {
+        id: taskId,
+        deletedAt: null,
+        column: { projectId },
+      },
+      select: { id: true, title: true },
+    });
+  }
+}
+
+export default SubtaskService;
@@ -1,19 +1,25 @@
 import { prisma } from '../config/database.js';
-import type { Task, Priority } from '@prisma/client';
+import type { Task, Priority, Prisma } from '@prisma/client';
 import type {
   CreateTaskInput,
   UpdateTaskInput,
   MoveTaskInput,
   ListTasksQuery,
   GlobalTasksQuery,
+  QueryTasksInput,
 } from '../validators/task.validator.js';
 import { ColumnService } from './column.service.js';
 import { ProjectService } from './project.service.js';
 import { taskCache } from './cache.service.js';
 import { ActivityService, ActivityAction } from './activity.service.js';
+import { DependencyService } from './dependency.service.js';
+import { MentionService } from './mention.service.js';
 import { sanitizeDescription } from '../utils/sanitize.js';
+import { withVersionCheck } from '../utils/concurrency.js';
+import { buildTaskQueryWhere, getQueryCustomFieldIds } from '../utils/task-query.js';
+import { Permission } from '../config/permissions.js';
 
-type TaskWithRelations = Task & {
+export type TaskWithRelations = Task & {
   column?: {
     id: string;
     name: string;
@@ -40,6 +46,12 @@ type TaskWithRelations = Task & {
     attachments: number;
     comments: number;
   };
+  subtaskProgress?: {
+    total: number;
+    completed: number;
+  };
+  blockedByCount?: number;
+  customFields?: Record<string, Prisma.JsonValue>;
 };
 
 // Extended type for global tasks (includes project info)
@@ -55,14 +67,31 @@ type GlobalTaskWithRelations = TaskWithRelations & {
 type PrismaTaskResult = Omit<TaskWithRelations, 'labels' | 'assignees'> & {
   labels?: { label: { id: string; name: string; color: string } }[];
   assignees?: { user: { id: string; name: string; avatar: string | null } }[];
+  subtasks?: { completedAt: Date | null }[];
+  blockedBy?: { blockingTaskId: string }[];
+  customFieldValues?: { fieldId: string; value: Prisma.JsonValue }[];
 };
 
 // Transform Prisma result to expected format (flatten nested relations)
 function transformTask(task: PrismaTaskResult): TaskWithRelations {
+  const { subtasks, blockedBy, customFieldValues, ...rest } = task;
   return {
-    ...task,
+    ...rest,
     labels: task.labels?.map((tl) => tl.label),
     assignees: task.assignees?.map((ta) => ta.user),
+    // Collapse subtask rows into progress counts
+    ...(subtasks && {
+      subtaskProgress: {
+        total: subtasks.length,
+        completed: subtasks.filter((st) => st.completedAt !== null).length,
+      },
+    }),
+    // Only unfinished blockers are selected, so the count is the blocked state
+    ...(blockedBy && { blockedByCount: blockedBy.length }),
+    // Custom field values keyed by field ID
+    ...(customFieldValues && {
+      customFields: Object.fromEntries(customFieldValues.map((cv) => [cv.fieldId, cv.value])),
+    }),
   };
 }
 
@@ -70,6 +99,62 @@ function transformTasks(tasks: PrismaTaskResult[]): TaskWithRelations[] {
   return tasks.map(transformTask);
 }
 
+// Relations loaded for board and list views
+const projectTaskInclude = {
+  column: {
+    select: { id: true, name: true, projectId: true },
+  },
+  createdBy: {
+    select: { id: true, name: true, email: true, avatar: true },
+  },
+  labels: {
+    select: {
+      label: {
+        select: { id: true, name: true, color: true },
+      },
+    },
+  },
+  assignees: {
+    select: {
+      user: {
+        select: { id: true, name: true, avatar: true },
+      },
+    },
+  },
+  _count: {
+    select: { assignees: true, attachments: true, comments: true },
+  },
+  subtasks: {
+    select: { completedAt: true },
+  },
+  blockedBy: {
+    where: { blockingTask: { completedAt: null, deletedAt: null } },
+    select: { blockingTaskId: true },
+  },
+  customFieldValues: {
+    select: { fieldId: true, value: true },
+  },
+} satisfies Prisma.TaskInclude;
+
+// Sort options for task queries; the task ID breaks ties so cursors are stable
+function taskQueryOrderBy(sort: QueryTasksInput['sort']): Prisma.TaskOrderByWithRelationInput[] {
+  const direction = sort.direction;
+  switch (sort.field) {
+    case 'dueDate':
+      return [{ dueDate: { sort: direction, nulls: 'last' } }, { id: 'asc' }];
+    case 'priority':
+      return [{ priority: { sort: direction, nulls: 'last' } }, { id: 'asc' }];
+    case 'createdAt':
+      return [{ createdAt: direction }, { id: 'asc' }];
+    case 'updatedAt':
+      return [{ updatedAt: direction }, { id: 'asc' }];
+    case 'title':
+      return [{ title: direction }, { id: 'asc' }];
+    default:
+      return [{ column: { order: direction } }, { order: direction }, { id: 'asc' }];
+  }
+}
+
 export class TaskService {
   // ============ GLOBAL TASKS ============
 
@@ -84,6 +169,7 @@ export class TaskService {
     const {
       status = 'all',
       priority,
+      workspaceId,
       projectId,
       assignedToMe,
       dueBefore,
@@ -108,8 +194,10 @@ export class TaskService {
           members: {
             some: { userId },
           },
-          // Filter by specific project if provided
-          ...(projectId && { id: projectId }),
+          // Limit to the current workspace and/or a specific project if provided;
+          // archived projects only show up when asked for by ID
+          ...(workspaceId && { workspaceId }),
+          ...(projectId ? { id: projectId } : { archivedAt: null }),
         },
       },
     };
@@ -267,31 +355,7 @@ export class TaskService {
 
       const tasks = await prisma.task.findMany({
         where: whereClause,
-        include: {
-          column: {
-            select: { id: true, name: true, projectId: true },
-          },
-          createdBy: {
-            select: { id: true, name: true, email: true, avatar: true },
-          },
-          labels: {
-            select: {
-              label: {
-                select: { id: true, name: true, color: true },
-              },
-            },
-          },
-          assignees: {
-            select: {
-              user: {
-                select: { id: true, name: true, avatar: true },
-              },
-            },
-          },
-          _count: {
-            select: { assignees: true, attachments: true, comments: true },
-          },
-        },
+        include: projectTaskInclude,
         orderBy: [{ column: { order: 'asc' } }, { order: 'asc' }],
       });
 
@@ -306,6 +370,65 @@ export class TaskService {
     return taskCache.getProjectTasks(projectId, fetchTasks);
   }
 
+  /**
+   * Query a project's tasks with a structured filter, sort and cursor
+   * pagination. Not cached, since results depend on the query.
+   */
+  static async queryProjectTasks(
+    projectId: string,
+    userId: string,
+    query: QueryTasksInput
+  ): Promise<{ tasks: TaskWithRelations[]; nextCursor: string | null; total: number } | null> {
+    const hasAccess = await ProjectService.checkProjectAccess(projectId, userId);
+    if (!hasAccess) {
+      return null;
+    }
+
+    // Custom field conditions depend on the field type
+    const fieldIds = query.filter ? getQueryCustomFieldIds(query.filter) : [];
+    const fields =
+      fieldIds.length > 0
+        ? await prisma.customField.findMany({
+            where: { projectId, id: { in: fieldIds } },
+            select: { id: true, type: true },
+          })
+        : [];
+
+    const where: Prisma.TaskWhereInput = {
+      column: { projectId },
+      deletedAt: null,
+      ...(query.filter && {
+        AND: [
+          buildTaskQueryWhere(query.filter, {
+            customFieldTypes: new Map(fields.map((f) => [f.id, f.type])),
+          }),
+        ],
+      }),
+    };
+
+    // Fetch one extra row to know whether another page exists
+    const [total, tasks] = await Promise.all([
+      prisma.task.count({ where }),
+      prisma.task.findMany({
+        where,
+        include: projectTaskInclude,
+        orderBy: taskQueryOrderBy(query.sort),
+        take: query.limit + 1,
+        ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+      }),
+    ]);
+
+    const hasMore = tasks.length > query.limit;
+    const page = hasMore ? tasks.slice(0, query.limit) : tasks;
+    const lastTask = page[page.length - 1];
+
+    return {
+      tasks: transformTasks(page as unknown as PrismaTaskResult[]),
+      nextCursor: hasMore && lastTask ? lastTask.id : null,
+      total,
+    };
+  }
+
   /**
    * Create a task from project scope (columnId in body)
    */
@@ -423,6 +546,16 @@ export class TaskService {
         _count: {
           select: { assignees: true, attachments: true, comments: true },
         },
+        subtasks: {
+          select: { completedAt: true },
+        },
+        blockedBy: {
+          where: { blockingTask: { completedAt: null, deletedAt: null } },
+          select: { blockingTaskId: true },
+        },
+        customFieldValues: {
+          select: { fieldId: true, value: true },
+        },
       },
     });
 
@@ -462,16 +595,18 @@ export class TaskService {
       return null;
     }
 
-    // Check user has create permission (owner, admin, or member)
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       column.projectId,
       userId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_CREATE
     );
     if (!hasAccess) {
       return null;
     }
 
+    // Respect the column's WIP limit
+    await ColumnService.checkWipLimit(columnId);
+
     // Determine order: if not provided, append at end
     let order = data.order;
     if (order === undefined) {
@@ -518,6 +653,14 @@ export class TaskService {
       },
     });
 
+    // Notify users mentioned in the description
+    MentionService.recordMentionsAsync({
+      projectId: column.projectId,
+      taskId: task.id,
+      mentionedById: userId,
+      content: task.description,
+    });
+
     // Invalidate project tasks cache
     await taskCache.invalidateProjectTasks(column.projectId);
 
@@ -530,7 +673,8 @@ export class TaskService {
   static async updateTask(
     taskId: string,
     userId: string,
-    data: UpdateTaskInput
+    data: UpdateTaskInput,
+    options: { bumpVersion?: boolean } = {}
   ): Promise<TaskWithRelations | null> {
     // Get task and check project access
     const task = await prisma.task.findUnique({
@@ -546,10 +690,10 @@ export class TaskService {
       return null;
     }
 
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       task.column.projectId,
       userId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_UPDATE
     );
     if (!hasAccess) {
       return null;
@@ -571,28 +715,56 @@ export class TaskService {
       updateData.dueDate =
         data.dueDate === null || data.dueDate === '' ? null : new Date(data.dueDate);
     }
+    if (data.requireSubtasksComplete !== undefined) {
+      updateData.requireSubtasksComplete = data.requireSubtasksComplete;
+    }
+    if (data.recurrenceRule !== undefined) {
+      updateData.recurrenceRule = data.recurrenceRule;
+    }
 
     // Handle task completion
     const wasCompleted = task.completedAt !== null;
+    const requireSubtasksComplete =
+      data.requireSubtasksComplete ?? task.requireSubtasksComplete;
+    if (data.completed && !wasCompleted && requireSubtasksComplete) {
+      const openSubtasks = await prisma.subtask.count({
+        where: { taskId, completedAt: null },
+      });
+      if (openSubtasks > 0) {
+        throw new Error(
+          `Cannot complete task while ${openSubtasks} subtask(s) are still open`
+        );
+      }
+    }
     if (data.completed !== undefined) {
       updateData.completedAt = data.completed ? new Date() : null;
     }
+    // Collaborative description saves are merged by Yjs, so they leave the
+    // version alone and don't invalidate edits made in the task form
+    if (options.bumpVersion !== false) {
+      updateData.version = { increment: 1 };
+    }
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: updateData,
-      include: {
-        column: {
-          select: { id: true, name: true, projectId: true },
-        },
-        createdBy: {
-          select: { id: true, name: true, email: true, avatar: true },
-        },
-        _count: {
-          select: { assignees: true, attachments: true, comments: true },
-        },
-      },
-    });
+    const updatedTask = await withVersionCheck(
+      'task',
+      () =>
+        prisma.task.update({
+          where: { id: taskId, version: data.version ?? task.version },
+          data: updateData,
+          include: {
+            column: {
+              select: { id: true, name: true, projectId: true },
+            },
+            createdBy: {
+              select: { id: true, name: true, email: true, avatar: true },
+            },
+            _count: {
+              select: { assignees: true, attachments: true, comments: true },
+            },
+          },
+        }),
+      () => this.getTaskById(taskId, userId)
+    );
 
     // Log activity for task completion/reopening
     if (data.completed !== undefined) {
@@ -624,6 +796,17 @@ export class TaskService {
       }
     }
 
+    // Notify users newly mentioned in the description
+    if (data.description !== undefined) {
+      MentionService.recordMentionsAsync({
+        projectId: task.column.projectId,
+        taskId,
+        mentionedById: userId,
+        previousContent: task.description,
+        content: updatedTask.description,
+      });
+    }
+
     // Invalidate task and project caches
     await taskCache.invalidateTask(taskId, task.column.projectId);
 
@@ -650,14 +833,13 @@ export class TaskService {
       return { success: false, error: 'Task not found' };
     }
 
-    // Only owner, admin, member, or task creator can delete
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       task.column.projectId,
       userId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_DELETE
     );
 
-    if (!hasAccess && task.createdById !== userId) {
+    if (!hasAccess) {
       return { success: false, error: 'Permission denied' };
     }
 
@@ -714,7 +896,11 @@ export class TaskService {
       where: { id: taskId },
       include: {
         column: {
-          select: { projectId: true, project: { select: { deletedAt: true } } },
+          select: {
+            projectId: true,
+            category: true,
+            project: { select: { deletedAt: true } },
+          },
         },
       },
     });
@@ -724,10 +910,10 @@ export class TaskService {
     }
 
     // Check project access
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       task.column.projectId,
       userId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_UPDATE
     );
     if (!hasAccess) {
       return null;
@@ -736,13 +922,48 @@ export class TaskService {
     // Verify target column exists in same project
     const targetColumn = await prisma.column.findUnique({
       where: { id: data.targetColumnId },
-      select: { projectId: true },
+      select: { projectId: true, category: true },
     });
 
     if (!targetColumn || targetColumn.projectId !== task.column.projectId) {
       return null;
     }
 
+    // Entering a DONE column completes the task; leaving one reopens it
+    const isColumnChange = data.targetColumnId !== task.columnId;
+    const completes = isColumnChange && targetColumn.category === 'DONE' && !task.completedAt;
+    const reopens =
+      isColumnChange &&
+      targetColumn.category !== 'DONE' &&
+      task.column.category === 'DONE' &&
+      task.completedAt !== null;
+    const starts = isColumnChange && targetColumn.category === 'IN_PROGRESS' && !task.startedAt;
+
+    if (completes && task.requireSubtasksComplete) {
+      const openSubtasks = await prisma.subtask.count({
+        where: { taskId, completedAt: null },
+      });
+      if (openSubtasks > 0) {
+        throw new Error(
+          `Cannot complete task while ${openSubtasks} subtask(s) are still open`
+        );
+      }
+    }
+
+    // Refuse to finish a task that still has open blockers unless the caller insists
+    if (!data.force && isColumnChange && targetColumn.category === 'DONE') {
+      const blockers = await DependencyService.getOpenBlockers(taskId);
+      if (blockers.length > 0) {
+        throw new Error(`Task is blocked by ${blockers.length} unfinished task(s)`);
+      }
+    }
+
+    // Respect the target column's WIP limit when an open task enters it,
+    // including a finished task that the move reopens
+    if (isColumnChange && (!task.completedAt || reopens)) {
+      await ColumnService.checkWipLimit(data.targetColumnId);
+    }
+
     const sourceColumnId = task.columnId;
     const sourceOrder = task.order;
     const targetColumnId = data.targetColumnId;
@@ -775,16 +996,34 @@ export class TaskService {
         data: { order: { increment: 1 } },
       });
 
-      // Move the task
+      // Move the task. Moving can complete or reopen it, so the version is
+      // bumped and editors holding the old one get a conflict on save
       await tx.task.update({
         where: { id: taskId },
         data: {
           columnId: targetColumnId,
           order: targetOrder,
+          version: { increment: 1 },
+          ...(completes && { completedAt: new Date() }),
+          ...(reopens && { completedAt: null }),
+          ...(starts && { startedAt: new Date() }),
         },
       });
     });
 
+    if (completes || reopens) {
+      await ActivityService.log({
+        action: completes ? ActivityAction.TASK_COMPLETED : ActivityAction.TASK_REOPENED,
+        projectId: task.column.projectId,
+        userId,
+        taskId,
+        metadata: {
+          taskTitle: task.title,
+          taskId,
+        },
+      });
+    }
+
     // Invalidate project tasks cache (task moved within project)
     await taskCache.invalidateTask(taskId, task.column.projectId);
 
@@ -825,10 +1064,10 @@ export class TaskService {
       return null;
     }
 
-    const hasAccess = await ProjectService.checkProjectAccess(
+    const hasAccess = await ProjectService.hasPermission(
       task.column.projectId,
       userId,
-      ['OWNER', 'ADMIN', 'MEMBER']
+      Permission.TASK_UPDATE
     );
     if (!hasAccess) {
       return null;
@@ -936,6 +1175,22 @@ export class TaskService {
 
     return ProjectService.checkProjectAccess(task.column.projectId, userId);
   }
+
+  /**
+   * Check that every task ID is a live task of the project
+   */
+  static async tasksBelongToProject(taskIds: string[], projectId: string): Promise<boolean> {
+    const uniqueIds = [...new Set(taskIds)];
+    if (uniqueIds.length === 0) {
+      return true;
+    }
+
+    const count = await prisma.task.count({
+      where: { id: { in: uniqueIds }, deletedAt: null, column: { projectId } },
+    });
+
+    return count === uniqueIds.length;
+  }
 }
 
 export default TaskService;
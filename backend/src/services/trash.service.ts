@@ -0,0 +1,317 @@
+import { prisma } from '../config/database.js';
+import { env } from '../config/env.js';
+import { deleteFromR2 } from '../config/storage.js';
+import { ProjectService } from './project.service.js';
+import { TaskService, type TaskWithRelations } from './task.service.js';
+import { projectCache, taskCache } from './cache.service.js';
+import { Permission } from '../config/permissions.js';
+import type { Prisma } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A deleted task as listed in a project's trash
+ */
+export interface TrashedTask {
+  id: string;
+  title: string;
+  priority: string | null;
+  deletedAt: Date;
+  purgeAt: Date;
+  column: { id: string; name: string };
+  _count: { attachments: number; comments: number; subtasks: number };
+}
+
+/**
+ * A deleted project as listed in the user's trash
+ */
+export interface TrashedProject {
+  id: string;
+  name: string;
+  color: string;
+  deletedAt: Date;
+  purgeAt: Date;
+  workspace: { id: string; name: string };
+  _count: { members: number };
+}
+
+/**
+ * When something deleted at the given time will be purged
+ */
+function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + env.TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * A project restored from the trash, with the members to tell about it
+ */
+export interface RestoredProject {
+  id: string;
+  name: string;
+  memberIds: string[];
+}
+
+/**
+ * Remove the stored files of every attachment matching the filter.
+ * The database rows go with their task through the cascade.
+ */
+async function deleteAttachmentFiles(where: Prisma.AttachmentWhereInput): Promise<void> {
+  const attachments = await prisma.attachment.findMany({
+    where,
+    select: { filename: true },
+  });
+
+  for (const attachment of attachments) {
+    await deleteFromR2(attachment.filename);
+  }
+}
+
+export class TrashService {
+  // ============ TASK TRASH ============
+
+  /**
+   * List the deleted tasks of a project, most recently deleted first
+   */
+  static async getProjectTrash(projectId: string, userId: string): Promise<TrashedTask[] | null> {
+    const hasAccess = await ProjectService.hasPermission(
+      projectId,
+      userId,
+      Permission.PROJECT_VIEW
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: {
+        column: { projectId },
+        deletedAt: { not: null },
+      },
+      select: {
+        id: true,
+        title: true,
+        priority: true,
+        deletedAt: true,
+        column: { select: { id: true, name: true } },
+        _count: { select: { attachments: true, comments: true, subtasks: true } },
+      },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return tasks.map((task) => ({
+      ...task,
+      deletedAt: task.deletedAt!,
+      purgeAt: purgeDate(task.deletedAt!),
+    }));
+  }
+
+  /**
+   * Find a deleted task of a project and check the user may manage it
+   */
+  private static async findTrashedTask(
+    projectId: string,
+    taskId: string,
+    userId: string
+  ): Promise<{ id: string; columnId: string } | null> {
+    const task = await prisma.task.findFirst({
+      where: {
+        id: taskId,
+        column: { projectId },
+        deletedAt: { not: null },
+      },
+      select: { id: true, columnId: true },
+    });
+
+    if (!task) {
+      return null;
+    }
+
+    const hasAccess = await ProjectService.hasPermission(projectId, userId, Permission.TASK_DELETE);
+
+    return hasAccess ? task : null;
+  }
+
+  /**
+   * Restore a deleted task to the end of its column
+   */
+  static async restoreTask(
+    projectId: string,
+    taskId: string,
+    userId: string
+  ): Promise<TaskWithRelations | null> {
+    const task = await this.findTrashedTask(projectId, taskId, userId);
+    if (!task) {
+      return null;
+    }
+
+    const lastTask = await prisma.task.findFirst({
+      where: { columnId: task.columnId, deletedAt: null },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    });
+
+    await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        deletedAt: null,
+        order: lastTask ? lastTask.order + 1 : 0,
+      },
+    });
+
+    await taskCache.invalidateTask(taskId, projectId);
+
+    return TaskService.getTaskById(taskId, userId);
+  }
+
+  /**
+   * Permanently delete a task from the trash, along with its files
+   */
+  static async purgeTask(projectId: string, taskId: string, userId: string): Promise<boolean> {
+    const task = await this.findTrashedTask(projectId, taskId, userId);
+    if (!task) {
+      return false;
+    }
+
+    await deleteAttachmentFiles({ taskId });
+    await prisma.task.delete({ where: { id: taskId } });
+
+    await taskCache.invalidateTask(taskId, projectId);
+
+    return true;
+  }
+
+  // ============ PROJECT TRASH ============
+
+  /**
+   * List the deleted projects owned by the user
+   */
+  static async getDeletedProjects(userId: string): Promise<TrashedProject[]> {
+    const projects = await prisma.project.findMany({
+      where: {
+        ownerId: userId,
+        deletedAt: { not: null },
+      },
+      select: {
+        id: true,
+        name: true,
+        color: true,
+        deletedAt: true,
+        workspace: { select: { id: true, name: true } },
+        _count: { select: { members: true } },
+      },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return projects.map((project) => ({
+      ...project,
+      deletedAt: project.deletedAt!,
+      purgeAt: purgeDate(project.deletedAt!),
+    }));
+  }
+
+  /**
+   * Find a deleted project owned by the user, with its member IDs
+   */
+  private static async findTrashedProject(projectId: string, userId: string) {
+    return prisma.project.findFirst({
+      where: {
+        id: projectId,
+        ownerId: userId,
+        deletedAt: { not: null },
+      },
+      select: {
+        id: true,
+        name: true,
+        members: { select: { userId: true } },
+      },
+    });
+  }
+
+  /**
+   * Restore a deleted project (owner only)
+   */
+  static async restoreProject(projectId: string, userId: string): Promise<RestoredProject | null> {
+    const project = await this.findTrashedProject(projectId, userId);
+    if (!project) {
+      return null;
+    }
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { deletedAt: null },
+    });
+
+    await projectCache.invalidateProject(projectId);
+    for (const member of project.members) {
+      await projectCache.invalidateUserProjects(member.userId);
+    }
+
+    return {
+      id: project.id,
+      name: project.name,
+      memberIds: project.members.map((member) => member.userId),
+    };
+  }
+
+  /**
+   * Permanently delete a project from the trash, along with its files (owner only)
+   */
+  static async purgeProject(projectId: string, userId: string): Promise<boolean> {
+    const project = await this.findTrashedProject(projectId, userId);
+    if (!project) {
+      return false;
+    }
+
+    await deleteAttachmentFiles({ task: { column: { projectId } } });
+    await prisma.project.delete({ where: { id: projectId } });
+
+    await projectCache.invalidateProject(projectId);
+
+    return true;
+  }
+
+  // ============ RETENTION ============
+
+  /**
+   * Permanently delete everything that has been in the trash longer than
+   * TRASH_RETENTION_DAYS. Used by the trash retention job.
+   */
+  static async purgeExpired(): Promise<{ tasks: number; projects: number }> {
+    const cutoff = new Date(Date.now() - env.TRASH_RETENTION_DAYS * DAY_MS);
+
+    const expiredProjects = await prisma.project.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: { id: true },
+    });
+    const projectIds = expiredProjects.map((project) => project.id);
+
+    if (projectIds.length > 0) {
+      await deleteAttachmentFiles({ task: { column: { projectId: { in: projectIds } } } });
+      await prisma.project.deleteMany({ where: { id: { in: projectIds } } });
+
+      for (const projectId of projectIds) {
+        await projectCache.invalidateProject(projectId);
+      }
+    }
+
+    const expiredTasks = await prisma.task.findMany({
+      where: { deletedAt: { lt: cutoff } },
+      select: { id: true, column: { select: { projectId: true } } },
+    });
+
+    if (expiredTasks.length > 0) {
+      const taskIds = expiredTasks.map((task) => task.id);
+
+      await deleteAttachmentFiles({ taskId: { in: taskIds } });
+      await prisma.task.deleteMany({ where: { id: { in: taskIds } } });
+
+      for (const task of expiredTasks) {
+        await taskCache.invalidateTask(task.id, task.column.projectId);
+      }
+    }
+
+    return { tasks: expiredTasks.length, projects: projectIds.length };
+  }
+}
+
+export default TrashService;
@@ -0,0 +1,414 @@
+/**
+ * Workspace Service
+ *
+ * Handles workspaces: the team or company level above projects, its member
+ * directory and who may do what in it. Workspace labels live in LabelService.
+ */
+
+import { prisma } from '../config/database.js';
+import type { Prisma, Role, Workspace, WorkspaceMember } from '@prisma/client';
+import type {
+  AddWorkspaceMemberInput,
+  CreateWorkspaceInput,
+  UpdateWorkspaceInput,
+} from '../validators/workspace.validator.js';
+import { projectCache } from './cache.service.js';
+import {
+  WorkspacePermission,
+  workspaceRoleHasPermission,
+  type WorkspacePermissionType,
+} from '../config/permissions.js';
+
+/**
+ * A workspace as seen by one of its members
+ */
+export type WorkspaceWithRole = Workspace & {
+  role: Role;
+  _count: { members: number; projects: number };
+};
+
+/**
+ * A directory entry: the member plus how many of the workspace's projects they are in
+ */
+export type WorkspaceMemberWithUser = WorkspaceMember & {
+  user: { id: string; name: string; email: string; avatar: string | null };
+  projectCount: number;
+};
+
+const workspaceCountSelect = {
+  _count: {
+    select: {
+      members: true,
+      projects: { where: { deletedAt: null } },
+    },
+  },
+} satisfies Prisma.WorkspaceInclude;
+
+const memberUserSelect = {
+  user: {
+    select: { id: true, name: true, email: true, avatar: true },
+  },
+} satisfies Prisma.WorkspaceMemberInclude;
+
+export class WorkspaceService {
+  // ============ WORKSPACE CRUD ============
+
+  /**
+   * Get every workspace the user belongs to. Users who have none (e.g. they
+   * left them all) get a new personal workspace so there is always one.
+   */
+  static async getUserWorkspaces(userId: string): Promise<WorkspaceWithRole[]> {
+    const memberships = await prisma.workspaceMember.findMany({
+      where: { userId },
+      include: { workspace: { include: workspaceCountSelect } },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    if (memberships.length === 0) {
+      return [await this.createPersonalWorkspace(userId)];
+    }
+
+    return memberships.map((m) => ({ ...m.workspace, role: m.role }));
+  }
+
+  /**
+   * Get a single workspace if the user belongs to it
+   */
+  static async getWorkspaceById(
+    workspaceId: string,
+    userId: string
+  ): Promise<WorkspaceWithRole | null> {
+    const membership = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      include: { workspace: { include: workspaceCountSelect } },
+    });
+
+    if (!membership) {
+      return null;
+    }
+
+    return { ...membership.workspace, role: membership.role };
+  }
+
+  /**
+   * Create a workspace owned by the user
+   */
+  static async createWorkspace(
+    userId: string,
+    data: CreateWorkspaceInput
+  ): Promise<WorkspaceWithRole> {
+    const workspace = await prisma.workspace.create({
+      data: {
+        name: data.name,
+        ownerId: userId,
+        members: {
+          create: { userId, role: 'OWNER' },
+        },
+      },
+      include: workspaceCountSelect,
+    });
+
+    return { ...workspace, role: 'OWNER' };
+  }
+
+  /**
+   * Create the workspace every account starts with
+   */
+  static async createPersonalWorkspace(userId: string): Promise<WorkspaceWithRole> {
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { name: true },
+    });
+
+    return this.createWorkspace(userId, { name: `${user.name}'s Workspace` });
+  }
+
+  /**
+   * Rename a workspace
+   */
+  static async updateWorkspace(
+    workspaceId: string,
+    userId: string,
+    data: UpdateWorkspaceInput
+  ): Promise<WorkspaceWithRole | null> {
+    const role = await this.getUserRole(workspaceId, userId);
+    if (!role || !workspaceRoleHasPermission(role, WorkspacePermission.WORKSPACE_UPDATE)) {
+      return null;
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id: workspaceId },
+      data: { name: data.name },
+      include: workspaceCountSelect,
+    });
+
+    return { ...workspace, role };
+  }
+
+  /**
+   * Delete a workspace. Its projects must be deleted or moved first.
+   */
+  static async deleteWorkspace(workspaceId: string, userId: string): Promise<boolean> {
+    const hasAccess = await this.hasPermission(
+      workspaceId,
+      userId,
+      WorkspacePermission.WORKSPACE_DELETE
+    );
+    if (!hasAccess) {
+      return false;
+    }
+
+    const activeProjects = await prisma.project.count({
+      where: { workspaceId, deletedAt: null },
+    });
+    if (activeProjects > 0) {
+      throw new Error('Delete this workspace\'s projects before deleting the workspace');
+    }
+
+    // Soft-deleted projects keep a reference, so remove them with the workspace
+    await prisma.$transaction([
+      prisma.project.deleteMany({ where: { workspaceId } }),
+      prisma.workspace.delete({ where: { id: workspaceId } }),
+    ]);
+
+    return true;
+  }
+
+  // ============ MEMBER DIRECTORY ============
+
+  /**
+   * Get the workspace's member directory
+   */
+  static async getMembers(
+    workspaceId: string,
+    userId: string
+  ): Promise<WorkspaceMemberWithUser[] | null> {
+    const role = await this.getUserRole(workspaceId, userId);
+    if (!role) {
+      return null;
+    }
+
+    const [members, projectCounts] = await Promise.all([
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        include: memberUserSelect,
+        orderBy: { joinedAt: 'asc' },
+      }),
+      prisma.projectMember.groupBy({
+        by: ['userId'],
+        where: { project: { workspaceId, deletedAt: null } },
+        _count: true,
+      }),
+    ]);
+
+    const countByUser = new Map(projectCounts.map((c) => [c.userId, c._count]));
+
+    return members.map((member) => ({
+      ...member,
+      projectCount: countByUser.get(member.userId) ?? 0,
+    }));
+  }
+
+  /**
+   * Add an existing user to the workspace by email
+   */
+  static async addMember(
+    workspaceId: string,
+    requesterId: string,
+    data: AddWorkspaceMemberInput
+  ): Promise<WorkspaceMemberWithUser | null> {
+    const hasAccess = await this.hasPermission(
+      workspaceId,
+      requesterId,
+      WorkspacePermission.WORKSPACE_MEMBER_INVITE
+    );
+    if (!hasAccess) {
+      return null;
+    }
+
+    const userToAdd = await prisma.user.findUnique({
+      where: { email: data.email },
+    });
+
+    if (!userToAdd) {
+      throw new Error('User not found with this email');
+    }
+
+    const existingMember = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: userToAdd.id } },
+    });
+
+    if (existingMember) {
+      throw new Error('User is already a member of this workspace');
+    }
+
+    const member = await prisma.workspaceMember.create({
+      data: {
+        workspaceId,
+        userId: userToAdd.id,
+        role: data.role as Role,
+      },
+      include: memberUserSelect,
+    });
+
+    return { ...member, projectCount: 0 };
+  }
+
+  /**
+   * Change a member's workspace role.
+   * Returns null when the user is not a member of the workspace.
+   */
+  static async updateMemberRole(
+    workspaceId: string,
+    requesterId: string,
+    targetUserId: string,
+    newRole: Role
+  ): Promise<WorkspaceMember | null> {
+    const hasAccess = await this.hasPermission(
+      workspaceId,
+      requesterId,
+      WorkspacePermission.WORKSPACE_MEMBER_ROLE_CHANGE
+    );
+    if (!hasAccess) {
+      throw new Error('You do not have permission to change member roles');
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { ownerId: true },
+    });
+
+    if (!workspace) {
+      return null;
+    }
+
+    const existingMember = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId: targetUserId } },
+    });
+
+    if (!existingMember) {
+      return null;
+    }
+
+    if (targetUserId === workspace.ownerId) {
+      throw new Error('Cannot change the role of the workspace owner');
+    }
+
+    if (newRole === 'OWNER') {
+      throw new Error('Cannot assign OWNER role');
+    }
+
+    return prisma.workspaceMember.update({
+      where: { workspaceId_userId: { workspaceId, userId: targetUserId } },
+      data: { role: newRole },
+    });
+  }
+
+  /**
+   * Remove someone from the workspace and from every project in it.
+   * Members can always leave; removing someone else needs permission.
+   */
+  static async removeMember(
+    workspaceId: string,
+    requesterId: string,
+    targetUserId: string
+  ): Promise<boolean> {
+    if (requesterId !== targetUserId) {
+      const hasAccess = await this.hasPermission(
+        workspaceId,
+        requesterId,
+        WorkspacePermission.WORKSPACE_MEMBER_REMOVE
+      );
+      if (!hasAccess) {
+        return false;
+      }
+    }
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { ownerId: true },
+    });
+
+    if (!workspace || targetUserId === workspace.ownerId) {
+      return false;
+    }
+
+    const ownedProjects = await prisma.project.count({
+      where: { workspaceId, ownerId: targetUserId, deletedAt: null },
+    });
+    if (ownedProjects > 0) {
+      throw new Error('This member owns projects in the workspace; delete them first');
+    }
+
+    const memberships = await prisma.projectMember.findMany({
+      where: { userId: targetUserId, project: { workspaceId } },
+      select: { projectId: true },
+    });
+
+    await prisma.$transaction([
+      prisma.projectMember.deleteMany({
+        where: { userId: targetUserId, project: { workspaceId } },
+      }),
+      prisma.workspaceMember.delete({
+        where: { workspaceId_userId: { workspaceId, userId: targetUserId } },
+      }),
+    ]);
+
+    for (const { projectId } of memberships) {
+      await projectCache.invalidateMembership(projectId, targetUserId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Add someone to the directory when they join one of the workspace's projects
+   */
+  static async ensureMember(
+    workspaceId: string,
+    userId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await client.workspaceMember.upsert({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      create: { workspaceId, userId, role: 'MEMBER' },
+      update: {},
+    });
+  }
+
+  // ============ ACCESS CONTROL ============
+
+  /**
+   * Get the user's role in a workspace (null if not a member)
+   */
+  static async getUserRole(workspaceId: string, userId: string): Promise<Role | null> {
+    const member = await prisma.workspaceMember.findUnique({
+      where: { workspaceId_userId: { workspaceId, userId } },
+      select: { role: true },
+    });
+
+    return member?.role ?? null;
+  }
+
+  /**
+   * Check if the user's workspace role grants a permission
+   */
+  static async hasPermission(
+    workspaceId: string,
+    userId: string,
+    permission: WorkspacePermissionType
+  ): Promise<boolean> {
+    const role = await this.getUserRole(workspaceId, userId);
+    return !!role && workspaceRoleHasPermission(role, permission);
+  }
+
+  /**
+   * The workspace new projects go to when none is chosen: the user's first
+   */
+  static async getDefaultWorkspaceId(userId: string): Promise<string> {
+    const workspaces = await this.getUserWorkspaces(userId);
+    return workspaces[0]!.id;
+  }
+}
+
+export default WorkspaceService;
@@ -2,10 +2,14 @@
  * Broadcast Utility for Live Updates
  *
  * Provides typed helper functions to broadcast Socket.io events
- * from REST API handlers to project rooms.
+ * from REST API handlers to project rooms and user rooms.
+ *
+ * Project room events carry a per-project sequence number and are logged
+ * in Redis, so reconnecting clients can catch up on what they missed.
  */
 
 import { socketLogger } from '../config/logger.js';
+import { eventLogService } from '../services/event-log.service.js';
 import { getIO } from './index.js';
 import type {
   LiveTask,
@@ -13,12 +17,20 @@ import type {
   LiveActivity,
   LiveAttachment,
   LiveComment,
+  LiveSubtask,
+  LiveNotification,
   LiveUpdateMeta,
   TaskMovedPayload,
   TaskReorderedPayload,
   ColumnReorderedPayload,
+  ProjectLiveEvent,
+  ServerToClientEvents,
 } from '../types/presence.js';
 
+type ProjectEventPayload<E extends ProjectLiveEvent> = Parameters<ServerToClientEvents[E]>[0] & {
+  meta: LiveUpdateMeta;
+};
+
 // -----------------------------------------------------------------------------
 // Helper Functions
 // -----------------------------------------------------------------------------
@@ -40,6 +52,37 @@ function getProjectRoom(projectId: string): string {
   return `project:${projectId}`;
 }
 
+/**
+ * Emit a live update to a project room, stamped with the project's next
+ * sequence number so clients can replay what they missed while offline.
+ * If Redis is unavailable the update is still sent, just unsequenced.
+ */
+function emitToProject<E extends ProjectLiveEvent>(
+  projectId: string,
+  event: E,
+  payload: ProjectEventPayload<E>
+): void {
+  const room = getIO().to(getProjectRoom(projectId));
+
+  eventLogService
+    .record(projectId, event, payload)
+    .then((seq) => ({ ...payload, meta: { ...payload.meta, projectId, seq } }))
+    .catch((error) => {
+      socketLogger.warn({ error, projectId }, `Failed to sequence ${event}`);
+      return payload;
+    })
+    .then((sequenced) => {
+      room.emit(event, ...([sequenced] as Parameters<ServerToClientEvents[E]>));
+    });
+}
+
+/**
+ * Get a user's personal room name.
+ */
+function getUserRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
 // -----------------------------------------------------------------------------
 // Task Broadcast Functions
 // -----------------------------------------------------------------------------
@@ -53,8 +96,7 @@ export function broadcastTaskCreated(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('task:created', {
+    emitToProject(projectId, 'task:created', {
       task,
       meta: createMeta(userId),
     });
@@ -72,17 +114,18 @@ export function broadcastTaskCreated(
 
 /**
  * Broadcast when a task is updated.
+ * Quiet updates refresh other clients without a toast.
  */
 export function broadcastTaskUpdated(
   projectId: string,
   task: LiveTask,
-  userId: string
+  userId: string,
+  options: { quiet?: boolean } = {}
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('task:updated', {
+    emitToProject(projectId, 'task:updated', {
       task,
-      meta: createMeta(userId),
+      meta: { ...createMeta(userId), ...(options.quiet && { quiet: true }) },
     });
     socketLogger.debug(
       { projectId, taskId: task.id, userId },
@@ -106,8 +149,7 @@ export function broadcastTaskDeleted(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('task:deleted', {
+    emitToProject(projectId, 'task:deleted', {
       taskId,
       columnId,
       projectId,
@@ -133,8 +175,7 @@ export function broadcastTaskMoved(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(payload.projectId)).emit('task:moved', {
+    emitToProject(payload.projectId, 'task:moved', {
       ...payload,
       userId,
       meta: createMeta(userId),
@@ -159,8 +200,7 @@ export function broadcastTaskReordered(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(payload.projectId)).emit('task:reordered', {
+    emitToProject(payload.projectId, 'task:reordered', {
       ...payload,
       userId,
       meta: createMeta(userId),
@@ -190,8 +230,7 @@ export function broadcastColumnCreated(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('column:created', {
+    emitToProject(projectId, 'column:created', {
       column,
       meta: createMeta(userId),
     });
@@ -216,8 +255,7 @@ export function broadcastColumnUpdated(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('column:updated', {
+    emitToProject(projectId, 'column:updated', {
       column,
       meta: createMeta(userId),
     });
@@ -242,8 +280,7 @@ export function broadcastColumnDeleted(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('column:deleted', {
+    emitToProject(projectId, 'column:deleted', {
       columnId,
       projectId,
       meta: createMeta(userId),
@@ -268,8 +305,7 @@ export function broadcastColumnReordered(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(payload.projectId)).emit('column:reordered', {
+    emitToProject(payload.projectId, 'column:reordered', {
       ...payload,
       userId,
       meta: createMeta(userId),
@@ -299,8 +335,7 @@ export function broadcastActivityLogged(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('activity:logged', {
+    emitToProject(projectId, 'activity:logged', {
       activity,
       meta: createMeta(userId),
     });
@@ -329,8 +364,7 @@ export function broadcastAttachmentUploaded(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('attachment:uploaded', {
+    emitToProject(projectId, 'attachment:uploaded', {
       attachment,
       meta: createMeta(userId),
     });
@@ -356,8 +390,7 @@ export function broadcastAttachmentDeleted(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('attachment:deleted', {
+    emitToProject(projectId, 'attachment:deleted', {
       attachmentId,
       taskId,
       projectId,
@@ -388,8 +421,7 @@ export function broadcastCommentCreated(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('comment:created', {
+    emitToProject(projectId, 'comment:created', {
       comment,
       meta: createMeta(userId),
     });
@@ -414,8 +446,7 @@ export function broadcastCommentUpdated(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('comment:updated', {
+    emitToProject(projectId, 'comment:updated', {
       comment,
       meta: createMeta(userId),
     });
@@ -441,8 +472,7 @@ export function broadcastCommentDeleted(
   userId: string
 ): void {
   try {
-    const io = getIO();
-    io.to(getProjectRoom(projectId)).emit('comment:deleted', {
+    emitToProject(projectId, 'comment:deleted', {
       commentId,
       taskId,
       projectId,
@@ -459,3 +489,223 @@ export function broadcastCommentDeleted(
     );
   }
 }
+
+// -----------------------------------------------------------------------------
+// Subtask Broadcast Functions
+// -----------------------------------------------------------------------------
+
+/**
+ * Broadcast when a subtask is created.
+ */
+export function broadcastSubtaskCreated(
+  projectId: string,
+  subtask: LiveSubtask,
+  userId: string
+): void {
+  try {
+    emitToProject(projectId, 'subtask:created', {
+      subtask,
+      projectId,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug(
+      { projectId, subtaskId: subtask.id, userId },
+      'Broadcast subtask:created'
+    );
+  } catch (error) {
+    socketLogger.error(
+      { error, projectId, subtaskId: subtask.id },
+      'Failed to broadcast subtask:created'
+    );
+  }
+}
+
+/**
+ * Broadcast when a subtask is updated.
+ */
+export function broadcastSubtaskUpdated(
+  projectId: string,
+  subtask: LiveSubtask,
+  userId: string
+): void {
+  try {
+    emitToProject(projectId, 'subtask:updated', {
+      subtask,
+      projectId,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug(
+      { projectId, subtaskId: subtask.id, userId },
+      'Broadcast subtask:updated'
+    );
+  } catch (error) {
+    socketLogger.error(
+      { error, projectId, subtaskId: subtask.id },
+      'Failed to broadcast subtask:updated'
+    );
+  }
+}
+
+/**
+ * Broadcast when a subtask is deleted.
+ */
+export function broadcastSubtaskDeleted(
+  projectId: string,
+  subtaskId: string,
+  taskId: string,
+  userId: string
+): void {
+  try {
+    emitToProject(projectId, 'subtask:deleted', {
+      subtaskId,
+      taskId,
+      projectId,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug(
+      { projectId, subtaskId, taskId, userId },
+      'Broadcast subtask:deleted'
+    );
+  } catch (error) {
+    socketLogger.error(
+      { error, projectId, subtaskId },
+      'Failed to broadcast subtask:deleted'
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Dependency Broadcast Functions
+// -----------------------------------------------------------------------------
+
+/**
+ * Broadcast when a dependency is added between two tasks.
+ */
+export function broadcastDependencyAdded(
+  projectId: string,
+  blockingTaskId: string,
+  blockedTaskId: string,
+  userId: string
+): void {
+  try {
+    emitToProject(projectId, 'dependency:added', {
+      blockingTaskId,
+      blockedTaskId,
+      projectId,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug(
+      { projectId, blockingTaskId, blockedTaskId, userId },
+      'Broadcast dependency:added'
+    );
+  } catch (error) {
+    socketLogger.error(
+      { error, projectId, blockingTaskId, blockedTaskId },
+      'Failed to broadcast dependency:added'
+    );
+  }
+}
+
+/**
+ * Broadcast when a dependency between two tasks is removed.
+ */
+export function broadcastDependencyRemoved(
+  projectId: string,
+  blockingTaskId: string,
+  blockedTaskId: string,
+  userId: string
+): void {
+  try {
+    emitToProject(projectId, 'dependency:removed', {
+      blockingTaskId,
+      blockedTaskId,
+      projectId,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug(
+      { projectId, blockingTaskId, blockedTaskId, userId },
+      'Broadcast dependency:removed'
+    );
+  } catch (error) {
+    socketLogger.error(
+      { error, projectId, blockingTaskId, blockedTaskId },
+      'Failed to broadcast dependency:removed'
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Notification Broadcast Functions
+// -----------------------------------------------------------------------------
+
+/**
+ * Send a new notification to its recipient.
+ */
+export function broadcastNotificationCreated(
+  notification: LiveNotification,
+  userId: string
+): void {
+  try {
+    const io = getIO();
+    io.to(getUserRoom(notification.userId)).emit('notification:created', {
+      notification,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug(
+      { recipientId: notification.userId, notificationId: notification.id, userId },
+      'Broadcast notification:created'
+    );
+  } catch (error) {
+    socketLogger.error(
+      { error, recipientId: notification.userId, notificationId: notification.id },
+      'Failed to broadcast notification:created'
+    );
+  }
+}
+
+/**
+ * Tell a user's other tabs that notifications were marked as read.
+ * A null notificationId means all of them.
+ */
+export function broadcastNotificationRead(
+  userId: string,
+  notificationId: string | null
+): void {
+  try {
+    const io = getIO();
+    io.to(getUserRoom(userId)).emit('notification:read', {
+      notificationId,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug({ userId, notificationId }, 'Broadcast notification:read');
+  } catch (error) {
+    socketLogger.error(
+      { error, userId, notificationId },
+      'Failed to broadcast notification:read'
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Project Broadcast Functions
+// -----------------------------------------------------------------------------
+
+/**
+ * Tell a restored project's members, so it reappears in their project lists.
+ */
+export function broadcastProjectRestored(
+  projectId: string,
+  memberIds: string[],
+  userId: string
+): void {
+  try {
+    const io = getIO();
+    io.to(memberIds.map(getUserRoom)).emit('project:restored', {
+      projectId,
+      meta: createMeta(userId),
+    });
+    socketLogger.debug({ projectId, userId }, 'Broadcast project:restored');
+  } catch (error) {
+    socketLogger.error({ error, projectId }, 'Failed to broadcast project:restored');
+  }
+}
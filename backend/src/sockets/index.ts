@@ -1,19 +1,151 @@
 import type { Server as HttpServer } from 'http';
 import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import type { Redis } from 'ioredis';
 import { env } from '../config/env.js';
+import { redis } from '../config/redis.js';
 import { socketLogger } from '../config/logger.js';
 import { socketAuthMiddleware } from './socketAuth.middleware.js';
 import { presenceService } from '../services/presence.service.js';
+import { eventLogService } from '../services/event-log.service.js';
+import { ProjectService } from '../services/project.service.js';
+import { TaskService } from '../services/task.service.js';
+import { collaborationService, getDescriptionRoom } from '../services/collaboration.service.js';
+import { Permission } from '../config/permissions.js';
+import { updateTaskBodySchema } from '../validators/task.validator.js';
+import { broadcastTaskUpdated } from './broadcast.js';
+import { VersionConflictError } from '../utils/concurrency.js';
 import type {
   ClientToServerEvents,
   ServerToClientEvents,
   InterServerEvents,
+  LiveTask,
+  LiveUpdateMeta,
+  PresenceEntry,
   SocketData,
+  SocketErrorPayload,
   TypedServer,
   TypedSocket,
+  ViewerEntry,
 } from '../types/presence.js';
 
 let io: TypedServer;
+let adapterClients: Redis[] = [];
+
+/**
+ * Tell project rooms that cleared presence entries are no longer editing
+ */
+function broadcastPresenceCleared(entries: PresenceEntry[]): void {
+  for (const entry of entries) {
+    io.to(`project:${entry.projectId}`).emit('editing:inactive', {
+      taskId: entry.taskId,
+      field: entry.field,
+    });
+
+    socketLogger.debug(
+      { projectId: entry.projectId, taskId: entry.taskId, field: entry.field },
+      'Cleared presence entry'
+    );
+  }
+}
+
+/**
+ * Tell project rooms that a socket stopped viewing the cleared boards and tasks
+ */
+function broadcastViewingCleared(socketId: string, entries: ViewerEntry[]): void {
+  for (const entry of entries) {
+    io.to(`project:${entry.projectId}`).emit('viewing:inactive', {
+      projectId: entry.projectId,
+      taskId: entry.taskId,
+      socketId,
+    });
+  }
+}
+
+/**
+ * Log a failed socket handler and tell the client its event did not go
+ * through. Handlers are async, so an uncaught error would otherwise be an
+ * unhandled rejection.
+ */
+function reportSocketError(
+  socket: TypedSocket,
+  error: unknown,
+  payload: Omit<SocketErrorPayload, 'code'>
+): void {
+  const { event, projectId, taskId } = payload;
+  socketLogger.error(
+    { error, socketId: socket.id, userId: socket.data.user?.id, projectId, taskId },
+    `Failed to handle ${event}`
+  );
+  socket.emit('socket:error', {
+    ...payload,
+    code: error instanceof VersionConflictError ? 'VERSION_CONFLICT' : 'INTERNAL_ERROR',
+  });
+}
+
+/**
+ * Convert a task with Date fields to its broadcast form
+ */
+function toSerializableTask(task: Record<string, unknown>): LiveTask {
+  return {
+    ...task,
+    dueDate: task.dueDate ? (task.dueDate as Date).toISOString() : null,
+    createdAt: (task.createdAt as Date).toISOString(),
+    updatedAt: (task.updatedAt as Date).toISOString(),
+    deletedAt: task.deletedAt ? (task.deletedAt as Date).toISOString() : null,
+  } as LiveTask;
+}
+
+/**
+ * Catch a socket that rejoined a project up on the live updates it missed,
+ * or tell it to refetch when they can no longer be replayed. Without a last
+ * sequence the socket just learns where to count from.
+ */
+async function replayMissedEvents(
+  socket: TypedSocket,
+  projectId: string,
+  lastSeq: number | undefined
+): Promise<void> {
+  try {
+    if (lastSeq === undefined) {
+      const seq = await eventLogService.getSequence(projectId);
+      socket.emit('project:sequence', { projectId, seq });
+      return;
+    }
+
+    const { seq, events } = await eventLogService.getMissedEvents(projectId, lastSeq);
+    if (!events) {
+      socket.emit('project:resync', { projectId, seq });
+      return;
+    }
+
+    for (const { seq: eventSeq, event, payload } of events) {
+      const logged = payload as { meta: LiveUpdateMeta };
+      const replayed = {
+        ...logged,
+        meta: { ...logged.meta, projectId, seq: eventSeq, replayed: true },
+      };
+      socket.emit(event, ...([replayed] as Parameters<ServerToClientEvents[typeof event]>));
+    }
+    socket.emit('project:sequence', { projectId, seq });
+
+    if (events.length > 0) {
+      socketLogger.debug(
+        { socketId: socket.id, projectId, lastSeq, replayed: events.length },
+        'Replayed missed project events'
+      );
+    }
+  } catch (error) {
+    // Without the log the socket cannot know what it missed
+    socketLogger.error(
+      { error, socketId: socket.id, projectId },
+      'Failed to replay project events'
+    );
+    if (lastSeq !== undefined) {
+      socket.emit('project:resync', { projectId, seq: lastSeq });
+    }
+  }
+}
 
 export function initializeSocket(server: HttpServer): TypedServer {
   io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(
@@ -29,6 +161,18 @@ export function initializeSocket(server: HttpServer): TypedServer {
 
   socketLogger.info({ corsOrigin: env.CORS_ORIGIN }, 'Socket.io server configured');
 
+  // Share rooms and broadcasts across server instances through Redis pub/sub
+  const pubClient = redis.duplicate();
+  const subClient = redis.duplicate();
+  io.adapter(createAdapter(pubClient, subClient));
+  adapterClients = [pubClient, subClient];
+
+  // Clear editing indicators held by instances that stopped without cleaning up
+  presenceService.startHeartbeat(broadcastPresenceCleared);
+
+  // Apply description updates made through other instances
+  void collaborationService.startRelay();
+
   // Apply authentication middleware
   io.use(socketAuthMiddleware);
 
@@ -39,45 +183,100 @@ export function initializeSocket(server: HttpServer): TypedServer {
       'Authenticated client connected'
     );
 
+    // Every socket joins its user's room for personal events like notifications
+    socket.join(`user:${user.id}`);
+
     // Join project room
-    socket.on('project:join', async (projectId: string) => {
-      socket.join(`project:${projectId}`);
-      socketLogger.debug(
-        { socketId: socket.id, projectId, userId: user.id },
-        'Socket joined project room'
-      );
+    socket.on('project:join', async (projectId: string, lastSeq?: number) => {
+      try {
+        // Only members receive a project's live updates
+        const canView = await ProjectService.hasPermission(
+          projectId,
+          user.id,
+          Permission.PROJECT_VIEW
+        );
+        if (!canView) {
+          socketLogger.warn(
+            { socketId: socket.id, projectId, userId: user.id },
+            'Socket denied joining project room'
+          );
+          return;
+        }
+
+        socket.join(`project:${projectId}`);
+        socketLogger.debug(
+          { socketId: socket.id, projectId, userId: user.id },
+          'Socket joined project room'
+        );
 
-      // Send current presence state for this project
-      const entries = await presenceService.getProjectPresence(projectId);
-      if (entries.length > 0) {
-        socket.emit('presence:sync', entries);
+        // Send current presence state for this project
+        const entries = await presenceService.getProjectPresence(projectId);
+        if (entries.length > 0) {
+          socket.emit('presence:sync', entries);
+        }
+
+        // Replay live updates missed while disconnected
+        const isValidSeq =
+          typeof lastSeq === 'number' && Number.isInteger(lastSeq) && lastSeq >= 0;
+        await replayMissedEvents(socket, projectId, isValidSeq ? lastSeq : undefined);
+      } catch (error) {
+        reportSocketError(socket, error, {
+          event: 'project:join',
+          projectId,
+          message: 'Live updates for this project are unavailable. Refresh to try again.',
+        });
       }
     });
 
     // Leave project room
-    socket.on('project:leave', (projectId: string) => {
+    socket.on('project:leave', async (projectId: string) => {
       socket.leave(`project:${projectId}`);
       socketLogger.debug(
         { socketId: socket.id, projectId, userId: user.id },
         'Socket left project room'
       );
+
+      // Its views of the board and tasks end here too; a viewing:stop sent
+      // after leaving the room is ignored
+      const viewerEntries = await presenceService.clearViewingForSocket(socket.id, projectId);
+      broadcastViewingCleared(socket.id, viewerEntries);
     });
 
     // Handle editing start - store in Redis and broadcast
     socket.on('editing:start', async (payload) => {
       const { projectId, taskId, field } = payload;
 
-      // Store presence in Redis with TTL
-      await presenceService.setEditing({
-        taskId,
-        field,
-        userId: user.id,
-        userName: user.name,
-        userAvatar: user.avatar,
-        projectId,
-        socketId: socket.id,
-        startedAt: Date.now(),
-      });
+      try {
+        // Viewers are read-only, so they never hold an editing lock
+        const canEdit = await ProjectService.hasPermission(
+          projectId,
+          user.id,
+          Permission.TASK_UPDATE
+        );
+        if (!canEdit) {
+          return;
+        }
+
+        // Store presence in Redis with TTL
+        await presenceService.setEditing({
+          taskId,
+          field,
+          userId: user.id,
+          userName: user.name,
+          userAvatar: user.avatar,
+          projectId,
+          socketId: socket.id,
+          startedAt: Date.now(),
+        });
+      } catch (error) {
+        reportSocketError(socket, error, {
+          event: 'editing:start',
+          projectId,
+          taskId,
+          message: 'Could not show that you are editing.',
+        });
+        return;
+      }
 
       // Broadcast to other users in the project room
       socket.to(`project:${projectId}`).emit('editing:active', {
@@ -100,8 +299,16 @@ export function initializeSocket(server: HttpServer): TypedServer {
     socket.on('editing:stop', async (payload) => {
       const { projectId, taskId, field } = payload;
 
-      // Clear presence from Redis
-      await presenceService.clearEditing(projectId, taskId, field, socket.id);
+      // Clear presence from Redis; others are told either way, and a stale
+      // entry is reclaimed when the socket disconnects
+      try {
+        await presenceService.clearEditing(projectId, taskId, field, socket.id);
+      } catch (error) {
+        socketLogger.error(
+          { error, socketId: socket.id, projectId, taskId, field },
+          'Failed to clear editing presence'
+        );
+      }
 
       // Broadcast to other users in the project room
       socket.to(`project:${projectId}`).emit('editing:inactive', {
@@ -115,6 +322,185 @@ export function initializeSocket(server: HttpServer): TypedServer {
       );
     });
 
+    // Handle viewing start/refresh - store in Redis with TTL and broadcast
+    socket.on('viewing:start', async (payload) => {
+      const { projectId, taskId = null, draggingTaskId = null } = payload;
+
+      try {
+        const canView = await ProjectService.hasPermission(
+          projectId,
+          user.id,
+          Permission.PROJECT_VIEW
+        );
+        if (!canView) {
+          return;
+        }
+
+        // Only tasks of this project can be shown as viewed or dragged
+        const taskIds = [taskId, draggingTaskId].filter((id): id is string => id !== null);
+        if (!(await TaskService.tasksBelongToProject(taskIds, projectId))) {
+          socketLogger.warn(
+            { socketId: socket.id, projectId, taskId, draggingTaskId, userId: user.id },
+            'Socket denied viewing tasks outside the project'
+          );
+          return;
+        }
+
+        const entry = {
+          projectId,
+          taskId,
+          draggingTaskId,
+          userId: user.id,
+          userName: user.name,
+          userAvatar: user.avatar,
+          socketId: socket.id,
+          startedAt: Date.now(),
+        };
+        const isNew = await presenceService.setViewing(entry);
+
+        // Refreshes are broadcast too, so other clients keep the viewer alive
+        socket.to(`project:${projectId}`).emit('viewing:active', entry);
+
+        // Tell a new viewer who else is already here
+        if (isNew) {
+          const viewers = await presenceService.getViewers(projectId, taskId);
+          socket.emit('viewing:sync', { projectId, taskId, viewers });
+        }
+      } catch (error) {
+        reportSocketError(socket, error, {
+          event: 'viewing:start',
+          projectId,
+          ...(taskId && { taskId }),
+          message: 'Could not show who is viewing.',
+        });
+      }
+    });
+
+    // Handle viewing stop - clear from Redis and broadcast
+    socket.on('viewing:stop', async (payload) => {
+      const { projectId, taskId = null } = payload;
+
+      // Only members in the project room have viewing entries to clear
+      if (!socket.rooms.has(`project:${projectId}`)) {
+        return;
+      }
+
+      // Others are told either way; a stale entry expires with its TTL
+      try {
+        await presenceService.clearViewing(projectId, taskId, socket.id);
+      } catch (error) {
+        socketLogger.error(
+          { error, socketId: socket.id, projectId, taskId },
+          'Failed to clear viewing presence'
+        );
+      }
+
+      socket.to(`project:${projectId}`).emit('viewing:inactive', {
+        projectId,
+        taskId,
+        socketId: socket.id,
+      });
+    });
+
+    // Join a task's shared description document (Yjs over Socket.io)
+    socket.on('description:join', async (taskId: string) => {
+      try {
+        const task = await TaskService.getTaskById(taskId, user.id);
+        const canEdit =
+          !!task?.column &&
+          (await ProjectService.hasPermission(
+            task.column.projectId,
+            user.id,
+            Permission.TASK_UPDATE
+          ));
+        if (!canEdit) {
+          socketLogger.warn(
+            { socketId: socket.id, taskId, userId: user.id },
+            'Socket denied joining description session'
+          );
+          return;
+        }
+
+        socket.join(getDescriptionRoom(taskId));
+        const { seed, syncStep1, awareness } = await collaborationService.join(
+          taskId,
+          socket.id
+        );
+
+        // The socket may have gone while the document was loading
+        if (socket.disconnected) {
+          collaborationService.leave(taskId, socket.id);
+          return;
+        }
+
+        socket.emit('description:joined', { taskId, seed });
+        socket.emit('description:sync', { taskId, message: syncStep1 });
+        if (awareness) {
+          socket.emit('description:awareness', { taskId, update: awareness });
+        }
+      } catch (error) {
+        reportSocketError(socket, error, {
+          event: 'description:join',
+          taskId,
+          message: 'Could not open the description for editing. Reopen the task to try again.',
+        });
+      }
+    });
+
+    // Leave a task's shared description document
+    socket.on('description:leave', (taskId: string) => {
+      socket.leave(getDescriptionRoom(taskId));
+      collaborationService.leave(taskId, socket.id);
+    });
+
+    // Apply a Yjs sync message; updates are relayed to the other editors
+    socket.on('description:sync', ({ taskId, message }) => {
+      const reply = collaborationService.handleSync(taskId, socket.id, message);
+      if (reply) {
+        socket.emit('description:sync', { taskId, message: reply });
+      }
+    });
+
+    // Relay remote cursors and selections
+    socket.on('description:awareness', ({ taskId, update }) => {
+      collaborationService.handleAwareness(taskId, socket.id, update);
+    });
+
+    // Save the merged description back to the task. TaskService sanitizes
+    // the HTML and records new mentions, exactly like a REST update.
+    socket.on('description:save', async ({ taskId, html }) => {
+      if (!collaborationService.isEditing(taskId, socket.id)) {
+        return;
+      }
+
+      const description = updateTaskBodySchema.shape.description.safeParse(html || null);
+      if (!description.success) {
+        return;
+      }
+
+      try {
+        const task = await TaskService.updateTask(
+          taskId,
+          user.id,
+          { description: description.data },
+          { bumpVersion: false }
+        );
+
+        // Refresh boards and other open modals, without a toast per autosave
+        if (task?.column?.projectId) {
+          broadcastTaskUpdated(task.column.projectId, toSerializableTask(task), user.id, {
+            quiet: true,
+          });
+        }
+      } catch (error) {
+        reportSocketError(socket, error, {
+          event: 'description:save',
+          taskId,
+          message: 'Could not save the description. Please try again.',
+        });
+      }
+    });
+
     // Handle disconnect - cleanup all presence entries for this socket
     socket.on('disconnect', async () => {
       socketLogger.info(
@@ -122,19 +508,22 @@ export function initializeSocket(server: HttpServer): TypedServer {
         'Client disconnected, cleaning up presence'
       );
 
-      // Clear all presence entries for this socket and get the entries
-      const clearedEntries = await presenceService.clearAllForSocket(socket.id);
+      // Leave any description sessions so remote cursors disappear
+      collaborationService.leaveAll(socket.id);
 
-      // Broadcast editing:inactive for each cleared entry
-      for (const entry of clearedEntries) {
-        io.to(`project:${entry.projectId}`).emit('editing:inactive', {
-          taskId: entry.taskId,
-          field: entry.field,
-        });
+      try {
+        // Clear all presence entries for this socket and broadcast editing:inactive
+        const clearedEntries = await presenceService.clearAllForSocket(socket.id);
+        broadcastPresenceCleared(clearedEntries);
 
-        socketLogger.debug(
-          { projectId: entry.projectId, taskId: entry.taskId, field: entry.field },
-          'Cleared presence entry on disconnect'
+        // Clear the boards and tasks this socket was viewing
+        const viewerEntries = await presenceService.clearViewingForSocket(socket.id);
+        broadcastViewingCleared(socket.id, viewerEntries);
+      } catch (error) {
+        // Leftover viewing entries still expire with their TTL
+        socketLogger.error(
+          { error, socketId: socket.id, userId: user.id },
+          'Failed to clean up presence on disconnect'
         );
       }
     });
@@ -144,6 +533,17 @@ export function initializeSocket(server: HttpServer): TypedServer {
   return io;
 }
 
+/**
+ * Stop the presence heartbeat and the collaboration relay, and close the
+ * adapter's Redis connections
+ */
+export async function closeSocket(): Promise<void> {
+  await presenceService.stopHeartbeat();
+  await collaborationService.stopRelay();
+  await Promise.all(adapterClients.map((client) => client.quit()));
+  adapterClients = [];
+}
+
 export function getIO(): TypedServer {
   if (!io) {
     throw new Error('Socket.io not initialized');
@@ -44,6 +44,30 @@ export interface PresenceEntry {
   startedAt: number;
 }
 
+/**
+ * Viewer entry stored in Redis for tracking who is looking at a project
+ * board or a task. Expires unless the client keeps refreshing it.
+ * Key pattern: `presence:viewing:{projectId}:{taskId | 'board'}:{socketId}`
+ */
+export interface ViewerEntry {
+  /** Project being viewed */
+  projectId: string;
+  /** Task open in the detail modal, or null for the project board */
+  taskId: string | null;
+  /** Card the user is dragging on the board, if any */
+  draggingTaskId: string | null;
+  /** ID of the viewing user */
+  userId: string;
+  /** Display name of the user */
+  userName: string;
+  /** Avatar URL or null if not set */
+  userAvatar: string | null;
+  /** Socket connection ID, so each tab is tracked separately */
+  socketId: string;
+  /** Unix timestamp (ms) when viewing started */
+  startedAt: number;
+}
+
 // -----------------------------------------------------------------------------
 // Socket Event Payloads
 // -----------------------------------------------------------------------------
@@ -102,6 +126,96 @@ export interface EditingInactivePayload {
   field: EditingField;
 }
 
+/**
+ * Payload for starting or refreshing a viewing session.
+ * Clients re-send it periodically while the board or task stays open.
+ */
+export interface ViewingStartPayload {
+  /** Project being viewed */
+  projectId: string;
+  /** Task open in the detail modal, or null for the project board */
+  taskId: string | null;
+  /** Card being dragged on the board, if any */
+  draggingTaskId?: string | null;
+}
+
+/**
+ * Payload for ending a viewing session.
+ */
+export interface ViewingStopPayload {
+  /** Project that was being viewed */
+  projectId: string;
+  /** Task that was open, or null for the project board */
+  taskId: string | null;
+}
+
+/**
+ * Payload broadcast when a viewing session ends.
+ * Sent to all other users in the project room.
+ */
+export interface ViewingInactivePayload {
+  projectId: string;
+  taskId: string | null;
+  /** Socket whose session ended */
+  socketId: string;
+}
+
+/**
+ * Everyone currently viewing a board or task.
+ * Sent to a client when it starts viewing.
+ */
+export interface ViewingSyncPayload {
+  projectId: string;
+  taskId: string | null;
+  viewers: ViewerEntry[];
+}
+
+// -----------------------------------------------------------------------------
+// Description Collaboration Payloads
+// -----------------------------------------------------------------------------
+
+/**
+ * A Yjs sync protocol message (step 1, step 2 or update) for a task's
+ * shared description document. Sent in both directions.
+ */
+export interface DescriptionSyncPayload {
+  /** Task whose description the message belongs to */
+  taskId: string;
+  /** Encoded y-protocols sync message */
+  message: Uint8Array;
+}
+
+/**
+ * A Yjs awareness update (remote cursors and selections). Sent in both directions.
+ */
+export interface DescriptionAwarenessPayload {
+  /** Task whose description is being edited */
+  taskId: string;
+  /** Encoded y-protocols awareness update */
+  update: Uint8Array;
+}
+
+/**
+ * Sent to a client once it has joined a task's description session.
+ */
+export interface DescriptionJoinedPayload {
+  /** Task whose description session was joined */
+  taskId: string;
+  /** Whether this client should fill the fresh document from Task.description */
+  seed: boolean;
+}
+
+/**
+ * Payload for saving the merged description back to the task.
+ * The HTML is sanitized before it is stored.
+ */
+export interface DescriptionSavePayload {
+  /** Task to save the description of */
+  taskId: string;
+  /** The merged document as HTML */
+  html: string;
+}
+
 // -----------------------------------------------------------------------------
 // Socket.io Type Definitions
 // -----------------------------------------------------------------------------
@@ -113,8 +227,9 @@ export interface ClientToServerEvents {
   /**
    * Join a project room to receive presence updates.
    * @param projectId - The project to join
+   * @param lastSeq - Last live update sequence seen, to replay what was missed
    */
-  'project:join': (projectId: string) => void;
+  'project:join': (projectId: string, lastSeq?: number) => void;
 
   /**
    * Leave a project room to stop receiving presence updates.
@@ -133,6 +248,49 @@ export interface ClientToServerEvents {
    * @param data - Editing stop payload
    */
   'editing:stop': (data: EditingStopPayload) => void;
+
+  /**
+   * Notify that the user is viewing a project board or task.
+   * Re-sent periodically to keep the viewer entry alive.
+   * @param data - Viewing start payload
+   */
+  'viewing:start': (data: ViewingStartPayload) => void;
+
+  /**
+   * Notify that the user closed a project board or task.
+   * @param data - Viewing stop payload
+   */
+  'viewing:stop': (data: ViewingStopPayload) => void;
+
+  /**
+   * Join the collaborative editing session for a task's description.
+   * @param taskId - The task whose description is being opened
+   */
+  'description:join': (taskId: string) => void;
+
+  /**
+   * Leave the collaborative editing session for a task's description.
+   * @param taskId - The task whose description is being closed
+   */
+  'description:leave': (taskId: string) => void;
+
+  /**
+   * Send a Yjs sync message for a task's description.
+   * @param data - Description sync payload
+   */
+  'description:sync': (data: DescriptionSyncPayload) => void;
+
+  /**
+   * Send a Yjs awareness update for a task's description.
+   * @param data - Description awareness payload
+   */
+  'description:awareness': (data: DescriptionAwarenessPayload) => void;
+
+  /**
+   * Save the merged description back to the task.
+   * @param data - Description save payload
+   */
+  'description:save': (data: DescriptionSavePayload) => void;
 }
 
 /**
@@ -162,6 +320,74 @@ export interface ServerToClientEvents {
    */
   'presence:sync': (entries: PresenceEntry[]) => void;
 
+  /**
+   * Broadcast when a user starts or refreshes viewing a board or task.
+   * @param data - The viewer entry
+   */
+  'viewing:active': (data: ViewerEntry) => void;
+
+  /**
+   * Broadcast when a user stops viewing a board or task.
+   * @param data - Information about the ended session
+   */
+  'viewing:inactive': (data: ViewingInactivePayload) => void;
+
+  /**
+   * Sync everyone viewing a board or task.
+   * Sent when a user starts viewing it.
+   * @param data - All current viewers
+   */
+  'viewing:sync': (data: ViewingSyncPayload) => void;
+
+  // -------------------------------------------------------------------------
+  // Event Replay Events
+  // -------------------------------------------------------------------------
+
+  /**
+   * Sent after joining a project room (and replaying missed events).
+   * @param data - The project's current live update sequence
+   */
+  'project:sequence': (data: ProjectSequencePayload) => void;
+
+  /**
+   * Sent after joining when missed events can no longer be replayed;
+   * the client should refetch the project.
+   * @param data - The sequence to continue from after refetching
+   */
+  'project:resync': (data: ProjectSequencePayload) => void;
+
+  // -------------------------------------------------------------------------
+  // Error Events
+  // -------------------------------------------------------------------------
+
+  /**
+   * Sent to a client when one of its events could not be handled.
+   * @param data - Which event failed and why
+   */
+  'socket:error': (data: SocketErrorPayload) => void;
+
+  // -------------------------------------------------------------------------
+  // Description Collaboration Events (sent to the description room)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Sent to a client once it has joined a description session.
+   * @param data - Whether the client should seed the document
+   */
+  'description:joined': (data: DescriptionJoinedPayload) => void;
+
+  /**
+   * Relay of a Yjs sync message for a task's description.
+   * @param data - Description sync payload
+   */
+  'description:sync': (data: DescriptionSyncPayload) => void;
+
+  /**
+   * Relay of a Yjs awareness update for a task's description.
+   * @param data - Description awareness payload
+   */
+  'description:awareness': (data: DescriptionAwarenessPayload) => void;
+
   // -------------------------------------------------------------------------
   // Task Live Update Events
   // -------------------------------------------------------------------------
@@ -271,6 +497,71 @@ export interface ServerToClientEvents {
    * @param data - The deleted comment ID and metadata
    */
   'comment:deleted': (data: { commentId: string; taskId: string; projectId: string; meta: LiveUpdateMeta }) => void;
+
+  // -------------------------------------------------------------------------
+  // Subtask Live Update Events
+  // -------------------------------------------------------------------------
+
+  /**
+   * Broadcast when a subtask is created.
+   * @param data - The subtask data with metadata
+   */
+  'subtask:created': (data: { subtask: LiveSubtask; projectId: string; meta: LiveUpdateMeta }) => void;
+
+  /**
+   * Broadcast when a subtask is renamed, toggled, or reordered.
+   * @param data - The updated subtask data with metadata
+   */
+  'subtask:updated': (data: { subtask: LiveSubtask; projectId: string; meta: LiveUpdateMeta }) => void;
+
+  /**
+   * Broadcast when a subtask is deleted.
+   * @param data - The deleted subtask ID and metadata
+   */
+  'subtask:deleted': (data: { subtaskId: string; taskId: string; projectId: string; meta: LiveUpdateMeta }) => void;
+
+  // -------------------------------------------------------------------------
+  // Dependency Live Update Events
+  // -------------------------------------------------------------------------
+
+  /**
+   * Broadcast when one task is marked as blocking another.
+   * @param data - The linked task IDs and metadata
+   */
+  'dependency:added': (data: { blockingTaskId: string; blockedTaskId: string; projectId: string; meta: LiveUpdateMeta }) => void;
+
+  /**
+   * Broadcast when a dependency between two tasks is removed.
+   * @param data - The unlinked task IDs and metadata
+   */
+  'dependency:removed': (data: { blockingTaskId: string; blockedTaskId: string; projectId: string; meta: LiveUpdateMeta }) => void;
+
+  // -------------------------------------------------------------------------
+  // Notification Events (sent to the recipient's user room)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Sent to a user when they get a new notification.
+   * @param data - The notification data with metadata
+   */
+  'notification:created': (data: { notification: LiveNotification; meta: LiveUpdateMeta }) => void;
+
+  /**
+   * Sent to a user when notifications are marked as read, so other tabs
+   * stay in sync.
+   * @param data - The notification ID, or null when all were marked read
+   */
+  'notification:read': (data: { notificationId: string | null; meta: LiveUpdateMeta }) => void;
+
+  // -------------------------------------------------------------------------
+  // Project Events (sent to each member's user room)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Sent to a project's members when it is restored from the trash.
+   * @param data - The restored project ID with metadata
+   */
+  'project:restored': (data: { projectId: string; meta: LiveUpdateMeta }) => void;
 }
 
 /**
@@ -401,6 +692,50 @@ export interface LiveComment {
   };
 }
 
+/**
+ * Subtask data broadcast for live updates.
+ * Matches the shape returned by SubtaskService methods.
+ */
+export interface LiveSubtask {
+  id: string;
+  title: string;
+  order: number;
+  completedAt: string | null;
+  taskId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Notification data sent to the recipient.
+ * Matches the shape returned by NotificationService methods.
+ */
+export interface LiveNotification {
+  id: string;
+  type: 'TASK_ASSIGNED' | 'MENTIONED' | 'TASK_COMMENTED' | 'TASK_DUE_SOON' | 'TASK_OVERDUE';
+  metadata: Record<string, unknown> | null;
+  userId: string;
+  actorId: string | null;
+  projectId: string;
+  taskId: string | null;
+  commentId: string | null;
+  readAt: string | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    name: string;
+    avatar: string | null;
+  } | null;
+  project: {
+    id: string;
+    name: string;
+  };
+  task: {
+    id: string;
+    title: string;
+  } | null;
+}
+
 /**
  * Payload for task moved event.
  */
@@ -410,6 +745,8 @@ export interface TaskMovedPayload {
   toColumnId: string;
   order: number;
   projectId: string;
+  /** Task version after the move */
+  version: number;
   /** User who made the change */
   userId: string;
 }
@@ -444,6 +781,71 @@ export interface LiveUpdateMeta {
   userId: string;
   /** Timestamp of the change */
   timestamp: number;
+  /** Project the sequence belongs to (project room events only) */
+  projectId?: string;
+  /** Per-project sequence number (project room events only) */
+  seq?: number;
+  /** Whether the event is being replayed after a reconnect */
+  replayed?: boolean;
+  /** Background change (e.g. a collaborative description autosave) that refreshes data quietly */
+  quiet?: boolean;
+}
+
+/**
+ * Live update events broadcast to a project room. These are sequenced
+ * and logged so they can be replayed after a reconnect.
+ */
+export type ProjectLiveEvent =
+  | 'task:created'
+  | 'task:updated'
+  | 'task:deleted'
+  | 'task:moved'
+  | 'task:reordered'
+  | 'column:created'
+  | 'column:updated'
+  | 'column:deleted'
+  | 'column:reordered'
+  | 'activity:logged'
+  | 'attachment:uploaded'
+  | 'attachment:deleted'
+  | 'comment:created'
+  | 'comment:updated'
+  | 'comment:deleted'
+  | 'subtask:created'
+  | 'subtask:updated'
+  | 'subtask:deleted'
+  | 'dependency:added'
+  | 'dependency:removed';
+
+/**
+ * Project live update as stored in the Redis event log.
+ * Key pattern: `events:{projectId}:log`
+ */
+export interface LoggedEvent {
+  seq: number;
+  event: ProjectLiveEvent;
+  /** Payload as broadcast, without the sequence metadata */
+  payload: unknown;
+}
+
+/**
+ * Payload for project:sequence and project:resync events.
+ */
+export interface ProjectSequencePayload {
+  projectId: string;
+  seq: number;
+}
+
+/**
+ * Payload for socket:error events.
+ */
+export interface SocketErrorPayload {
+  /** Client event that failed */
+  event: keyof ClientToServerEvents;
+  code: string;
+  message: string;
+  projectId?: string;
+  taskId?: string;
 }
 
 // -----------------------------------------------------------------------------
@@ -0,0 +1,57 @@
+/**
+ * Optimistic concurrency control
+ *
+ * Tasks, columns and labels carry a version that is bumped on every update.
+ * Clients send back the version they started editing from; if someone else
+ * saved in between, the update is rejected with the current state instead of
+ * silently overwriting their changes.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Thrown when an update was based on an outdated version
+ */
+export class VersionConflictError<T = unknown> extends Error {
+  readonly current: T;
+
+  constructor(entity: string, current: T) {
+    super(`This ${entity} was changed by someone else. Review the latest version and try again.`);
+    this.name = 'VersionConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Run an update whose `where` includes the expected version. When no row
+ * matches because the version moved on, throw a VersionConflictError with
+ * the current state. If the row is gone entirely, the original error stands.
+ */
+export async function withVersionCheck<R, T>(
+  entity: string,
+  update: () => Promise<R>,
+  loadCurrent: () => Promise<T | null>
+): Promise<R> {
+  try {
+    return await update();
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      const current = await loadCurrent();
+      if (current) {
+        throw new VersionConflictError(entity, current);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build the 409 error body for a version conflict
+ */
+export function toVersionConflictError(error: VersionConflictError) {
+  return {
+    code: 'VERSION_CONFLICT',
+    message: error.message,
+    current: error.current,
+  };
+}
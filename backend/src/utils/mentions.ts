@@ -0,0 +1,50 @@
+/**
+ * @mentions in task descriptions and comments.
+ *
+ * Descriptions are Tiptap HTML, where a mention is
+ *   <span data-type="mention" data-id="<userId>" data-label="<name>">@name</span>
+ * Comments are plain text, where a mention is written as
+ *   @[name](<userId>)
+ *
+ * Keep in sync with frontend/src/lib/mentions.ts.
+ */
+
+const MENTION_SPAN_PATTERN = /<span\b[^>]*\bdata-type="mention"[^>]*>/g;
+const MENTION_ID_ATTRIBUTE_PATTERN = /\bdata-id="([^"]+)"/;
+const MENTION_TOKEN_PATTERN = /@\[[^\]\n]+\]\(([A-Za-z0-9_-]+)\)/g;
+
+/**
+ * User IDs mentioned in a description or comment, without duplicates
+ */
+export function extractMentionedUserIds(content: string | null | undefined): string[] {
+  if (!content) return [];
+
+  const ids = new Set<string>();
+  for (const [span] of content.matchAll(MENTION_SPAN_PATTERN)) {
+    const id = span.match(MENTION_ID_ATTRIBUTE_PATTERN)?.[1];
+    if (id) ids.add(id);
+  }
+  for (const [, id] of content.matchAll(MENTION_TOKEN_PATTERN)) {
+    if (id) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * User IDs mentioned in `content` but not in `previousContent`, so editing
+ * text does not notify people again
+ */
+export function getNewMentions(
+  previousContent: string | null | undefined,
+  content: string | null | undefined
+): string[] {
+  const previous = new Set(extractMentionedUserIds(previousContent));
+  return extractMentionedUserIds(content).filter((id) => !previous.has(id));
+}
+
+/**
+ * Replace mentions with "@name" for previews and emails
+ */
+export function mentionsToPlainText(content: string): string {
+  return content.replace(/@\[([^\]\n]+)\]\([A-Za-z0-9_-]+\)/g, '@$1');
+}
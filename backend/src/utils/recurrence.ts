@@ -0,0 +1,187 @@
+/**
+ * Recurrence rules for repeating tasks.
+ *
+ * Supports a subset of RFC 5545 RRULE:
+ *   FREQ=DAILY|WEEKLY|MONTHLY (required)
+ *   INTERVAL=n                (default 1)
+ *   BYDAY=MO,TU,...           (WEEKLY only, default: weekday of the anchor)
+ *   BYMONTHDAY=n              (MONTHLY only, default: day of the anchor)
+ *   UNTIL=YYYYMMDD[THHMMSSZ]  (optional end)
+ *
+ * All calculations are done in UTC and keep the time of day of the anchor
+ * (the task's due date). Monthly days past the end of a month are clamped
+ * to the last day of that month.
+ *
+ * Keep in sync with frontend/src/lib/recurrence.ts.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  until?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL = 365;
+
+/**
+ * Parse an RRULE string. Returns null if the rule is outside the supported subset.
+ */
+export function parseRecurrenceRule(rule: string): RecurrenceRule | null {
+  const parts = rule.replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || !value || fields.has(key.toUpperCase())) return null;
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+
+  const parsed: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of fields) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) return null;
+        parsed.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        if (freq !== 'WEEKLY') return null;
+        const days = value.split(',');
+        if (!days.every((d): d is Weekday => (WEEKDAYS as readonly string[]).includes(d))) {
+          return null;
+        }
+        parsed.byDay = [...new Set(days)];
+        break;
+      }
+      case 'BYMONTHDAY': {
+        if (freq !== 'MONTHLY') return null;
+        const day = Number(value);
+        if (!Number.isInteger(day) || day < 1 || day > 31) return null;
+        parsed.byMonthDay = day;
+        break;
+      }
+      case 'UNTIL': {
+        const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+        if (!match) return null;
+        // Date-only UNTIL includes the whole day
+        const [y, m, d, hh = 23, mm = 59, ss = 59] = match
+          .slice(1)
+          .map((part) => (part === undefined ? undefined : Number(part)));
+        parsed.until = new Date(Date.UTC(y!, m! - 1, d!, hh, mm, ss));
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Check whether a string is a supported recurrence rule
+ */
+export function isValidRecurrenceRule(rule: string): boolean {
+  return parseRecurrenceRule(rule) !== null;
+}
+
+/**
+ * Get the first occurrence strictly after `after`, following the pattern
+ * anchored at `anchor`. Returns null once the rule has ended.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  anchor: Date,
+  after: Date
+): Date | null {
+  let next: Date;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const step = rule.interval * DAY_MS;
+      const periods = Math.max(1, Math.floor((after.getTime() - anchor.getTime()) / step) + 1);
+      next = new Date(anchor.getTime() + periods * step);
+      break;
+    }
+    case 'WEEKLY': {
+      const days = rule.byDay ?? [WEEKDAYS[anchor.getUTCDay()]];
+      const weekStep = rule.interval * 7 * DAY_MS;
+      // Start of the anchor's week (Sunday), keeping the time of day
+      const weekStart = anchor.getTime() - anchor.getUTCDay() * DAY_MS;
+      // Skip whole periods that end before `after`
+      const skipped = Math.max(0, Math.floor((after.getTime() - weekStart) / weekStep));
+      let candidate = weekStart + skipped * weekStep;
+      // At most one full period plus a week needs to be scanned
+      const limit = candidate + weekStep + 7 * DAY_MS;
+      next = new Date(NaN);
+      for (; candidate <= limit; candidate += DAY_MS) {
+        const weeksFromStart = Math.floor((candidate - weekStart) / (7 * DAY_MS));
+        const date = new Date(candidate);
+        if (
+          weeksFromStart % rule.interval === 0 &&
+          days.includes(WEEKDAYS[date.getUTCDay()]) &&
+          candidate > after.getTime() &&
+          candidate > anchor.getTime()
+        ) {
+          next = date;
+          break;
+        }
+      }
+      break;
+    }
+    case 'MONTHLY': {
+      const day = rule.byMonthDay ?? anchor.getUTCDate();
+      const monthsBetween =
+        (after.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+        (after.getUTCMonth() - anchor.getUTCMonth());
+      let offset = Math.max(0, Math.floor(monthsBetween / rule.interval) * rule.interval);
+      next = monthlyOccurrence(anchor, offset, day);
+      while (next.getTime() <= after.getTime() || next.getTime() <= anchor.getTime()) {
+        offset += rule.interval;
+        next = monthlyOccurrence(anchor, offset, day);
+      }
+      break;
+    }
+  }
+
+  if (Number.isNaN(next.getTime())) return null;
+  if (rule.until && next.getTime() > rule.until.getTime()) return null;
+  return next;
+}
+
+// ============ HELPERS ============
+
+/**
+ * Anchor shifted by `months`, on `day` (clamped to the month's length)
+ */
+function monthlyOccurrence(anchor: Date, months: number, day: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(day, lastDay),
+      anchor.getUTCHours(),
+      anchor.getUTCMinutes(),
+      anchor.getUTCSeconds(),
+      anchor.getUTCMilliseconds()
+    )
+  );
+}
@@ -32,12 +32,16 @@ export function sanitizeDescription(
       // Task list elements
       'input',
       'label',
+      // @mentions
+      'span',
     ],
     allowedAttributes: {
       a: ['href', 'target', 'rel'],
       input: ['type', 'checked', 'disabled'],
       li: ['data-type', 'data-checked'],
       ul: ['data-type'],
+      // Mentions keep the user ID so they can be parsed (see utils/mentions.ts)
+      span: [{ name: 'data-type', multiple: false, values: ['mention'] }, 'data-id', 'data-label'],
     },
     allowedSchemes: ['http', 'https', 'mailto'],
     disallowedTagsMode: 'discard',
@@ -60,3 +64,17 @@ export function sanitizeDescription(
 
   return trimmed;
 }
+
+/**
+ * Reduce rich text to plain text (for previews and emails)
+ */
+export function toPlainText(html: string | null | undefined): string {
+  if (!html) return '';
+
+  return sanitizeHtml(html.replace(/<\/(p|li|h2|h3|blockquote)>/gi, '$&\n'), {
+    allowedTags: [],
+    allowedAttributes: {},
+  })
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
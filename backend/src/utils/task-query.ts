@@ -0,0 +1,192 @@
+/**
+ * Translate a structured task query (see task.validator.ts) into a Prisma
+ * where clause.
+ *
+ * Conditions combine with nested AND / OR groups. Custom field conditions
+ * need the field's type, since select, user and checkbox values are stored
+ * differently; callers pass the project's field types in.
+ *
+ * Keep in sync with frontend/src/lib/taskQuery.ts.
+ */
+
+import type { CustomFieldType, Prisma } from '@prisma/client';
+import type { TaskQueryCondition, TaskQueryFilter } from '../validators/task.validator.js';
+
+export interface TaskQueryContext {
+  /** Custom field types keyed by field ID (project fields only) */
+  customFieldTypes: Map<string, CustomFieldType>;
+}
+
+/**
+ * Build the where clause for a filter. Throws an "Invalid query" error for
+ * conditions that cannot apply to this project.
+ */
+export function buildTaskQueryWhere(
+  filter: TaskQueryFilter,
+  context: TaskQueryContext
+): Prisma.TaskWhereInput {
+  if ('and' in filter) {
+    return { AND: filter.and.map((child) => buildTaskQueryWhere(child, context)) };
+  }
+  if ('or' in filter) {
+    return { OR: filter.or.map((child) => buildTaskQueryWhere(child, context)) };
+  }
+  return buildConditionWhere(filter, context);
+}
+
+/**
+ * Collect the custom field IDs a filter refers to
+ */
+export function getQueryCustomFieldIds(filter: TaskQueryFilter): string[] {
+  if ('and' in filter) return filter.and.flatMap(getQueryCustomFieldIds);
+  if ('or' in filter) return filter.or.flatMap(getQueryCustomFieldIds);
+  return filter.field === 'customField' ? [filter.fieldId] : [];
+}
+
+function dateRange(from?: string, to?: string): { gte?: Date; lte?: Date } | undefined {
+  if (!from && !to) return undefined;
+  return {
+    ...(from && { gte: new Date(from) }),
+    ...(to && { lte: new Date(to) }),
+  };
+}
+
+function buildConditionWhere(
+  condition: TaskQueryCondition,
+  context: TaskQueryContext
+): Prisma.TaskWhereInput {
+  switch (condition.field) {
+    case 'priority': {
+      const priorities = condition.values.filter((p) => p !== null);
+      const includeNone = condition.values.includes(null);
+      return {
+        OR: [
+          ...(priorities.length > 0 ? [{ priority: { in: priorities } }] : []),
+          ...(includeNone ? [{ priority: null }] : []),
+        ],
+      };
+    }
+
+    case 'labels': {
+      const { values, match } = condition;
+      if (match === 'all') {
+        return { AND: values.map((labelId) => ({ labels: { some: { labelId } } })) };
+      }
+      if (match === 'none') {
+        return { labels: { none: { labelId: { in: values } } } };
+      }
+      return { labels: { some: { labelId: { in: values } } } };
+    }
+
+    case 'assignees': {
+      const userIds = condition.values.filter((id): id is string => id !== null);
+      const includeUnassigned = condition.values.includes(null);
+      if (condition.match === 'all') {
+        return {
+          AND: [
+            ...userIds.map((userId) => ({ assignees: { some: { userId } } })),
+            ...(includeUnassigned ? [{ assignees: { none: {} } }] : []),
+          ],
+        };
+      }
+      if (condition.match === 'none') {
+        return {
+          AND: [
+            { assignees: { none: { userId: { in: userIds } } } },
+            ...(includeUnassigned ? [{ assignees: { some: {} } }] : []),
+          ],
+        };
+      }
+      return {
+        OR: [
+          ...(userIds.length > 0 ? [{ assignees: { some: { userId: { in: userIds } } } }] : []),
+          ...(includeUnassigned ? [{ assignees: { none: {} } }] : []),
+        ],
+      };
+    }
+
+    case 'dueDate': {
+      if (condition.isSet === false) {
+        return { dueDate: null };
+      }
+      const range = dateRange(condition.from, condition.to);
+      if (range) {
+        return { dueDate: range };
+      }
+      return condition.isSet ? { dueDate: { not: null } } : {};
+    }
+
+    case 'createdAt': {
+      const range = dateRange(condition.from, condition.to);
+      return range ? { createdAt: range } : {};
+    }
+
+    case 'createdBy':
+      return { createdById: { in: condition.values } };
+
+    case 'completed':
+      return { completedAt: condition.value ? { not: null } : null };
+
+    case 'text':
+      return {
+        OR: [
+          { title: { contains: condition.query, mode: 'insensitive' } },
+          { description: { contains: condition.query, mode: 'insensitive' } },
+        ],
+      };
+
+    case 'column':
+      return { columnId: { in: condition.values } };
+
+    case 'customField':
+      return buildCustomFieldWhere(condition.fieldId, condition.values, context);
+  }
+}
+
+function buildCustomFieldWhere(
+  fieldId: string,
+  values: string[],
+  context: TaskQueryContext
+): Prisma.TaskWhereInput {
+  const type = context.customFieldTypes.get(fieldId);
+  if (!type) {
+    throw new Error('Invalid query: custom field not found in this project');
+  }
+
+  switch (type) {
+    case 'CHECKBOX': {
+      const checked = values.includes('checked');
+      const unchecked = values.includes('unchecked');
+      // Unchecked boxes are stored as no value
+      const isChecked = { customFieldValues: { some: { fieldId, value: { equals: true } } } };
+      if (checked && !unchecked) return isChecked;
+      if (unchecked && !checked) return { NOT: isChecked };
+      return {};
+    }
+
+    case 'MULTI_SELECT':
+      return {
+        customFieldValues: {
+          some: {
+            fieldId,
+            OR: values.map((option) => ({ value: { array_contains: [option] } })),
+          },
+        },
+      };
+
+    case 'SINGLE_SELECT':
+    case 'USER':
+    case 'TEXT':
+      return {
+        customFieldValues: {
+          some: {
+            fieldId,
+            OR: values.map((value) => ({ value: { equals: value } })),
+          },
+        },
+      };
+
+    default:
+      throw new Error(`Invalid query: ${type.toLowerCase()} fields cannot be filtered by value`);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Signed tokens for one-click unsubscribe links.
+ *
+ * A token names a user and what to unsubscribe from (one notification type,
+ * or "ALL" for every notification email). It is signed with JWT_SECRET so
+ * the link works without logging in, and does not expire.
+ */
+
+import crypto from 'crypto';
+import { env } from '../config/env.js';
+
+export interface UnsubscribePayload {
+  userId: string;
+  /** A NotificationType, or "ALL" */
+  scope: string;
+}
+
+function sign(data: string): string {
+  return crypto
+    .createHmac('sha256', env.JWT_SECRET)
+    .update(`unsubscribe:${data}`)
+    .digest('base64url');
+}
+
+/**
+ * Create the token for an unsubscribe link
+ */
+export function createUnsubscribeToken({ userId, scope }: UnsubscribePayload): string {
+  const data = Buffer.from(`${userId}:${scope}`, 'utf8').toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Read an unsubscribe token. Returns null if it is malformed or the
+ * signature does not match.
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribePayload | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const [userId, scope] = Buffer.from(data, 'base64url').toString('utf8').split(':');
+  return userId && scope ? { userId, scope } : null;
+}
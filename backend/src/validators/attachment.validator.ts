@@ -6,6 +6,7 @@ import { z } from 'zod';
 export const globalFilesQuerySchema = z.object({
   search: z.string().max(200).optional(),
   type: z.enum(['images', 'documents', 'spreadsheets', 'archives', 'other']).optional(),
+  workspaceId: z.string().optional(),
   projectId: z.string().optional(),
   dateFrom: z.string().datetime().optional(),
   dateTo: z.string().datetime().optional(),
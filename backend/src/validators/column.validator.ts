@@ -30,6 +30,8 @@ export const createColumnSchema = z.object({
       .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color')
       .optional(),
     order: z.number().int().min(0).optional(), // If not provided, will be appended at end
+    wipLimit: z.number().int().min(1, 'WIP limit must be at least 1').max(999).nullable().optional(),
+    category: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).optional(),
   }),
 });
 
@@ -49,6 +51,10 @@ export const updateColumnSchema = z.object({
       .regex(/^#[0-9A-Fa-f]{6}$/)
       .nullable()
       .optional(),
+    wipLimit: z.number().int().min(1, 'WIP limit must be at least 1').max(999).nullable().optional(),
+    category: z.enum(['TODO', 'IN_PROGRESS', 'DONE']).optional(),
+    // Version the edit is based on; a stale version is rejected with 409
+    version: z.number().int().min(1).optional(),
   }),
 });
 
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+
+// ============ CUSTOM FIELD SCHEMAS ============
+
+export const customFieldTypes = [
+  'TEXT',
+  'NUMBER',
+  'SINGLE_SELECT',
+  'MULTI_SELECT',
+  'DATE',
+  'CHECKBOX',
+  'USER',
+] as const;
+
+const optionsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .min(1, 'Option cannot be empty')
+      .max(50, 'Option must be less than 50 characters')
+  )
+  .max(50, 'A field can have at most 50 options')
+  .refine((options) => new Set(options).size === options.length, {
+    message: 'Options must be unique',
+  });
+
+/**
+ * GET /projects/:projectId/custom-fields
+ * List all custom fields for a project
+ */
+export const listCustomFieldsSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+});
+
+/**
+ * POST /projects/:projectId/custom-fields
+ * Create a new custom field
+ */
+export const createCustomFieldSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+  body: z
+    .object({
+      name: z
+        .string()
+        .trim()
+        .min(1, 'Field name is required')
+        .max(50, 'Field name must be less than 50 characters'),
+      type: z.enum(customFieldTypes),
+      options: optionsSchema.optional(),
+    })
+    .refine(
+      (data) =>
+        !['SINGLE_SELECT', 'MULTI_SELECT'].includes(data.type) ||
+        (data.options && data.options.length > 0),
+      { message: 'Select fields need at least one option', path: ['options'] }
+    ),
+});
+
+/**
+ * PATCH /projects/:projectId/custom-fields/:fieldId
+ * Update a custom field (the type cannot change once values exist)
+ */
+export const updateCustomFieldSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    fieldId: z.string().min(1, 'Field ID is required'),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Field name is required')
+      .max(50, 'Field name must be less than 50 characters')
+      .optional(),
+    options: optionsSchema.optional(),
+    order: z.number().int().min(0, 'Order must be a non-negative integer').optional(),
+  }),
+});
+
+/**
+ * DELETE /projects/:projectId/custom-fields/:fieldId
+ * Delete a custom field and all of its values
+ */
+export const deleteCustomFieldSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    fieldId: z.string().min(1, 'Field ID is required'),
+  }),
+});
+
+// ============ TASK VALUE SCHEMAS ============
+
+/**
+ * PUT /projects/:projectId/tasks/:taskId/custom-fields/:fieldId
+ * Set a task's value for a field (null clears it). The value is checked
+ * against the field type in the service.
+ */
+export const setCustomFieldValueSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+    fieldId: z.string().min(1, 'Field ID is required'),
+  }),
+  body: z.object({
+    value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string()), z.null()]),
+  }),
+});
+
+// ============ TYPE EXPORTS ============
+
+export type CustomFieldTypeInput = (typeof customFieldTypes)[number];
+export type CreateCustomFieldInput = z.infer<typeof createCustomFieldSchema>['body'];
+export type UpdateCustomFieldInput = z.infer<typeof updateCustomFieldSchema>['body'];
+export type SetCustomFieldValueInput = z.infer<typeof setCustomFieldValueSchema>['body'];
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+/**
+ * Direction of a dependency relative to the task in the URL
+ * - blocked_by: the target task must finish before this task
+ * - blocks: this task must finish before the target task
+ */
+export const dependencyTypeEnum = z.enum(['blocked_by', 'blocks']);
+
+/**
+ * Path parameters for dependency routes
+ */
+export const dependencyParamsSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+  }),
+});
+
+export const dependencyIdParamsSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+    otherTaskId: z.string().min(1, 'Linked task ID is required'),
+  }),
+});
+
+/**
+ * Link two tasks
+ */
+export const addDependencySchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+  }),
+  body: z.object({
+    targetTaskId: z.string().min(1, 'Target task ID is required'),
+    type: dependencyTypeEnum,
+  }),
+});
+
+export type DependencyType = z.infer<typeof dependencyTypeEnum>;
+export type DependencyParams = z.infer<typeof dependencyParamsSchema>['params'];
+export type DependencyIdParams = z.infer<typeof dependencyIdParamsSchema>['params'];
+export type AddDependencyInput = z.infer<typeof addDependencySchema>['body'];
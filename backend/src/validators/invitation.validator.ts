@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// ============ PARAM SCHEMAS ============
+
+const projectIdParamSchema = z.object({
+  projectId: z.string().min(1, 'Project ID is required'),
+});
+
+const invitationParamsSchema = projectIdParamSchema.extend({
+  invitationId: z.string().min(1, 'Invitation ID is required'),
+});
+
+const tokenParamSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+});
+
+// ============ BODY SCHEMAS ============
+
+export const createInvitationBodySchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: z.enum(['ADMIN', 'MEMBER', 'VIEWER']).optional().default('MEMBER'),
+});
+
+// ============ COMBINED SCHEMAS FOR VALIDATION ============
+
+export const listInvitationsSchema = z.object({
+  params: projectIdParamSchema,
+});
+
+export const createInvitationSchema = z.object({
+  params: projectIdParamSchema,
+  body: createInvitationBodySchema,
+});
+
+export const invitationIdSchema = z.object({
+  params: invitationParamsSchema,
+});
+
+export const invitationTokenSchema = z.object({
+  params: tokenParamSchema,
+});
+
+// ============ TYPE EXPORTS ============
+
+export type CreateInvitationInput = z.infer<typeof createInvitationBodySchema>;
@@ -66,6 +66,8 @@ export const updateLabelSchema = z.object({
       .string()
       .regex(hexColorRegex, 'Color must be a valid hex color (e.g., #FF0000)')
       .optional(),
+    // Version the edit is based on; a stale version is rejected with 409
+    version: z.number().int().min(1).optional(),
   }),
 });
 
@@ -80,6 +82,50 @@ export const deleteLabelSchema = z.object({
   }),
 });
 
+// ============ WORKSPACE LABEL SCHEMAS ============
+
+/**
+ * GET /workspaces/:workspaceId/labels
+ * List labels shared across a workspace
+ */
+export const listWorkspaceLabelsSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+  }),
+});
+
+/**
+ * POST /workspaces/:workspaceId/labels
+ * Create a workspace label
+ */
+export const createWorkspaceLabelSchema = createLabelSchema.extend({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+  }),
+});
+
+/**
+ * PATCH /workspaces/:workspaceId/labels/:labelId
+ * Update a workspace label
+ */
+export const updateWorkspaceLabelSchema = updateLabelSchema.extend({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+    labelId: z.string().min(1, 'Label ID is required'),
+  }),
+});
+
+/**
+ * DELETE /workspaces/:workspaceId/labels/:labelId
+ * Delete a workspace label
+ */
+export const deleteWorkspaceLabelSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+    labelId: z.string().min(1, 'Label ID is required'),
+  }),
+});
+
 // ============ TASK LABEL SCHEMAS ============
 
 /**
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+
+// ============ PARAM SCHEMAS ============
+
+export const notificationIdParamSchema = z.object({
+  notificationId: z.string().min(1, 'Notification ID is required'),
+});
+
+// ============ QUERY SCHEMAS ============
+
+export const listNotificationsQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 20))
+    .pipe(z.number().int().min(1).max(100)),
+  offset: z
+    .string()
+    .optional()
+    .transform((val) => (val ? parseInt(val, 10) : 0))
+    .pipe(z.number().int().min(0)),
+  unread: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+export const unsubscribeQuerySchema = z.object({
+  token: z.string().min(1, 'Unsubscribe token is required'),
+});
+
+// ============ BODY SCHEMAS ============
+
+const notificationTypeSchema = z.enum([
+  'TASK_ASSIGNED',
+  'MENTIONED',
+  'TASK_COMMENTED',
+  'TASK_DUE_SOON',
+  'TASK_OVERDUE',
+]);
+
+const emailFrequencySchema = z.enum(['INSTANT', 'HOURLY', 'DAILY', 'OFF']);
+
+export const updateNotificationPreferencesBodySchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: notificationTypeSchema,
+        email: emailFrequencySchema,
+      })
+    )
+    .min(1, 'At least one preference is required'),
+});
+
+// ============ COMBINED SCHEMAS FOR VALIDATION ============
+
+export const listNotificationsSchema = z.object({
+  query: listNotificationsQuerySchema,
+});
+
+export const markNotificationReadSchema = z.object({
+  params: notificationIdParamSchema,
+});
+
+export const updateNotificationPreferencesSchema = z.object({
+  body: updateNotificationPreferencesBodySchema,
+});
+
+export const unsubscribeSchema = z.object({
+  query: unsubscribeQuerySchema,
+});
+
+// ============ TYPE EXPORTS ============
+
+export type ListNotificationsQuery = z.infer<typeof listNotificationsQuerySchema>;
+export type UpdateNotificationPreferencesInput = z.infer<
+  typeof updateNotificationPreferencesBodySchema
+>;
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+// ============ PROJECT TEMPLATE SCHEMAS ============
+
+/**
+ * GET /workspaces/:workspaceId/templates
+ * List the built-in templates and the workspace's saved templates
+ */
+export const listTemplatesSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+  }),
+});
+
+/**
+ * DELETE /workspaces/:workspaceId/templates/:templateId
+ * Delete a saved template
+ */
+export const deleteTemplateSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+    templateId: z.string().min(1, 'Template ID is required'),
+  }),
+});
+
+/**
+ * POST /projects/:projectId/templates
+ * Save a project as a template for its workspace
+ */
+export const saveAsTemplateSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Template name is required')
+      .max(100, 'Template name must be less than 100 characters'),
+    description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    // Keep the project's tasks as sample tasks, with due dates made relative
+    includeTasks: z.boolean().default(false),
+  }),
+});
+
+/**
+ * POST /projects/:projectId/duplicate
+ * Copy a project's settings, board, labels, custom fields and optionally tasks
+ */
+export const duplicateProjectSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Project name is required')
+      .max(100, 'Project name must be less than 100 characters'),
+    includeTasks: z.boolean().default(true),
+  }),
+});
+
+// ============ TYPE EXPORTS ============
+
+export type SaveAsTemplateInput = z.infer<typeof saveAsTemplateSchema>['body'];
+export type DuplicateProjectInput = z.infer<typeof duplicateProjectSchema>['body'];
@@ -17,6 +17,20 @@ export const createProjectSchema = z.object({
       .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color')
       .optional(),
     icon: z.string().max(50).optional(),
+    // Defaults to the user's own workspace
+    workspaceId: z.string().min(1).optional(),
+    // Built-in or saved template to build the project from
+    templateId: z.string().min(1).optional(),
+  }),
+});
+
+export const listProjectsSchema = z.object({
+  query: z.object({
+    workspaceId: z.string().min(1).optional(),
+    archived: z
+      .enum(['true', 'false'])
+      .transform((val) => val === 'true')
+      .optional(),
   }),
 });
 
@@ -40,6 +54,15 @@ export const updateProjectSchema = z.object({
       .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a valid hex color')
       .optional(),
     icon: z.string().max(50).nullable().optional(),
+    wipLimitMode: z.enum(['OFF', 'WARN', 'BLOCK']).optional(),
+    dueReminderHours: z
+      .number()
+      .int()
+      .min(1, 'Reminder must be at least 1 hour before the due date')
+      .max(168, 'Reminder must be at most 1 week before the due date')
+      .nullable()
+      .optional(),
+    overdueNotices: z.boolean().optional(),
   }),
 });
 
@@ -78,9 +101,47 @@ export const removeMemberSchema = z.object({
   }),
 });
 
+// ============ INVITE LINK SCHEMAS ============
+
+export const createInviteLinkSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+  body: z.object({
+    role: z.enum(['MEMBER', 'VIEWER']).optional().default('MEMBER'),
+    maxUses: z
+      .number()
+      .int()
+      .min(1, 'A link must allow at least 1 use')
+      .max(1000, 'A link can allow at most 1000 uses')
+      .nullable()
+      .optional(),
+    expiresAt: z
+      .string()
+      .datetime({ message: 'Invalid date format' })
+      .refine((value) => new Date(value) > new Date(), 'Expiry must be in the future')
+      .nullable()
+      .optional(),
+  }),
+});
+
+export const inviteLinkIdSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    linkId: z.string().min(1, 'Link ID is required'),
+  }),
+});
+
+export const inviteLinkTokenSchema = z.object({
+  params: z.object({
+    token: z.string().min(1, 'Link token is required'),
+  }),
+});
+
 // ============ TYPE EXPORTS ============
 
 export type CreateProjectInput = z.infer<typeof createProjectSchema>['body'];
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>['body'];
 export type AddMemberInput = z.infer<typeof addMemberSchema>['body'];
 export type UpdateMemberRoleInput = z.infer<typeof updateMemberRoleSchema>['body'];
+export type CreateInviteLinkInput = z.infer<typeof createInviteLinkSchema>['body'];
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+// ============ VIEW CONFIG SCHEMA ============
+
+/**
+ * Everything needed to reproduce a project view: view mode, filters,
+ * search, sort and board grouping. Mirrors the frontend's ViewConfig.
+ */
+export const viewConfigSchema = z.object({
+  viewMode: z.enum(['board', 'list', 'calendar']),
+  filters: z.object({
+    priority: z.array(z.enum(['LOW', 'MEDIUM', 'HIGH'])).default([]),
+    labels: z.array(z.string()).default([]),
+    assignees: z.array(z.string()).default([]),
+    dueDate: z.enum(['overdue', 'today', 'week', 'none']).nullable().default(null),
+    customFields: z.record(z.string(), z.array(z.string())).default({}),
+    match: z.enum(['all', 'any']).default('all'),
+  }),
+  search: z.string().max(200, 'Search must be less than 200 characters').default(''),
+  sort: z.object({
+    field: z.enum(['manual', 'dueDate', 'priority', 'createdAt', 'title']),
+    direction: z.enum(['asc', 'desc']),
+  }),
+  groupBy: z.enum(['none', 'assignee', 'priority', 'label']),
+});
+
+// ============ SAVED VIEW SCHEMAS ============
+
+/**
+ * GET /projects/:projectId/views
+ * List the current user's views and views shared with the project
+ */
+export const listSavedViewsSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+});
+
+/**
+ * POST /projects/:projectId/views
+ * Save a new view
+ */
+export const createSavedViewSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'View name is required')
+      .max(50, 'View name must be less than 50 characters'),
+    isShared: z.boolean().default(false),
+    config: viewConfigSchema,
+  }),
+});
+
+/**
+ * PATCH /projects/:projectId/views/:viewId
+ * Rename, share/unshare or overwrite a saved view
+ */
+export const updateSavedViewSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    viewId: z.string().min(1, 'View ID is required'),
+  }),
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'View name is required')
+      .max(50, 'View name must be less than 50 characters')
+      .optional(),
+    isShared: z.boolean().optional(),
+    config: viewConfigSchema.optional(),
+  }),
+});
+
+/**
+ * DELETE /projects/:projectId/views/:viewId
+ * Delete a saved view
+ */
+export const deleteSavedViewSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    viewId: z.string().min(1, 'View ID is required'),
+  }),
+});
+
+// ============ TYPE EXPORTS ============
+
+export type ViewConfigInput = z.infer<typeof viewConfigSchema>;
+export type CreateSavedViewInput = z.infer<typeof createSavedViewSchema>['body'];
+export type UpdateSavedViewInput = z.infer<typeof updateSavedViewSchema>['body'];
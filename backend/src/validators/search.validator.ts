@@ -4,6 +4,7 @@ import { z } from 'zod';
 export const searchQuerySchema = z.object({
   query: z.object({
     q: z.string().min(1, 'Search query is required').max(100, 'Query too long'),
+    workspaceId: z.string().optional(),
     projectId: z.string().uuid('Invalid project ID').optional(),
     limit: z
       .string()
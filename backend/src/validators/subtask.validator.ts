@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+/**
+ * Path parameters for subtask routes
+ */
+export const subtaskParamsSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+  }),
+});
+
+export const subtaskIdParamsSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+    subtaskId: z.string().min(1, 'Subtask ID is required'),
+  }),
+});
+
+/**
+ * Create subtask body
+ */
+export const createSubtaskSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+  }),
+  body: z.object({
+    title: z
+      .string()
+      .min(1, 'Title is required')
+      .max(200, 'Title must be at most 200 characters'),
+  }),
+});
+
+/**
+ * Update subtask body (rename, toggle completion, or reorder)
+ */
+export const updateSubtaskSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+    subtaskId: z.string().min(1, 'Subtask ID is required'),
+  }),
+  body: z
+    .object({
+      title: z
+        .string()
+        .min(1, 'Title cannot be empty')
+        .max(200, 'Title must be at most 200 characters')
+        .optional(),
+      completed: z.boolean().optional(),
+      order: z.number().int().min(0, 'Order must be a non-negative integer').optional(),
+    })
+    .refine((data) => Object.keys(data).length > 0, {
+      message: 'At least one field must be provided',
+    }),
+});
+
+export type SubtaskParams = z.infer<typeof subtaskParamsSchema>['params'];
+export type SubtaskIdParams = z.infer<typeof subtaskIdParamsSchema>['params'];
+export type CreateSubtaskInput = z.infer<typeof createSubtaskSchema>['body'];
+export type UpdateSubtaskInput = z.infer<typeof updateSubtaskSchema>['body'];
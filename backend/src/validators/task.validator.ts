@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isValidRecurrenceRule } from '../utils/recurrence.js';
 
 // ============ ENUMS ============
 
@@ -39,6 +40,7 @@ export const listTasksQuerySchema = z.object({
 export const globalTasksQuerySchema = z.object({
   status: z.enum(['active', 'completed', 'all']).optional().default('all'),
   priority: priorityEnum.optional(),
+  workspaceId: z.string().optional(),
   projectId: z.string().optional(),
   assignedToMe: z
     .string()
@@ -105,11 +107,22 @@ export const updateTaskBodySchema = z.object({
     .optional()
     .or(z.literal('')),
   completed: z.boolean().optional(),
+  requireSubtasksComplete: z.boolean().optional(),
+  recurrenceRule: z
+    .string()
+    .max(200)
+    .refine(isValidRecurrenceRule, 'Unsupported recurrence rule')
+    .nullable()
+    .optional(),
+  // Version the edit is based on; a stale version is rejected with 409
+  version: z.number().int().min(1).optional(),
 });
 
 export const moveTaskBodySchema = z.object({
   targetColumnId: z.string().min(1, 'Target column ID is required'),
   order: z.number().int().min(0, 'Order must be a non-negative integer'),
+  // Move into a done column even if the task has unfinished blockers
+  force: z.boolean().optional(),
 });
 
 export const reorderTaskBodySchema = z.object({
@@ -123,6 +136,119 @@ export const bulkDeleteBodySchema = z.object({
     .max(50, 'Maximum 50 tasks can be deleted at once'),
 });
 
+// ============ TASK QUERY SCHEMAS ============
+
+const queryIdListSchema = z.array(z.string().min(1)).min(1).max(100);
+const queryDateSchema = z.string().datetime({ message: 'Invalid date format' });
+
+/**
+ * A single filter condition. List conditions match when any value matches,
+ * unless `match` says otherwise; null stands for "no priority" / "unassigned".
+ */
+export const taskQueryConditionSchema = z.discriminatedUnion('field', [
+  z.object({
+    field: z.literal('priority'),
+    values: z.array(priorityEnum.nullable()).min(1),
+  }),
+  z.object({
+    field: z.literal('labels'),
+    values: queryIdListSchema,
+    match: z.enum(['any', 'all', 'none']).default('any'),
+  }),
+  z.object({
+    field: z.literal('assignees'),
+    values: z.array(z.string().min(1).nullable()).min(1).max(100),
+    match: z.enum(['any', 'all', 'none']).default('any'),
+  }),
+  z.object({
+    field: z.literal('dueDate'),
+    from: queryDateSchema.optional(),
+    to: queryDateSchema.optional(),
+    // false matches tasks without a due date
+    isSet: z.boolean().optional(),
+  }),
+  z.object({
+    field: z.literal('createdAt'),
+    from: queryDateSchema.optional(),
+    to: queryDateSchema.optional(),
+  }),
+  z.object({
+    field: z.literal('createdBy'),
+    values: queryIdListSchema,
+  }),
+  z.object({
+    field: z.literal('completed'),
+    value: z.boolean(),
+  }),
+  z.object({
+    field: z.literal('text'),
+    query: z.string().trim().min(1).max(200),
+  }),
+  z.object({
+    field: z.literal('column'),
+    values: queryIdListSchema,
+  }),
+  z.object({
+    field: z.literal('customField'),
+    fieldId: z.string().min(1),
+    // Options, user IDs or 'checked' / 'unchecked' depending on the field type
+    values: z.array(z.string()).min(1).max(100),
+  }),
+]);
+
+export type TaskQueryCondition = z.infer<typeof taskQueryConditionSchema>;
+
+/**
+ * A condition or a nested AND / OR group of filters
+ */
+export type TaskQueryFilter =
+  | TaskQueryCondition
+  | { and: TaskQueryFilter[] }
+  | { or: TaskQueryFilter[] };
+
+export const taskQueryFilterSchema: z.ZodType<TaskQueryFilter, z.ZodTypeDef, unknown> = z.lazy(
+  () =>
+    z.union([
+      taskQueryConditionSchema,
+      z.object({ and: z.array(taskQueryFilterSchema).min(1).max(20) }),
+      z.object({ or: z.array(taskQueryFilterSchema).min(1).max(20) }),
+    ])
+);
+
+const MAX_QUERY_DEPTH = 4;
+
+function queryDepth(filter: TaskQueryFilter): number {
+  if ('and' in filter) return 1 + Math.max(...filter.and.map(queryDepth));
+  if ('or' in filter) return 1 + Math.max(...filter.or.map(queryDepth));
+  return 0;
+}
+
+export const taskQuerySortFields = [
+  'order',
+  'dueDate',
+  'priority',
+  'createdAt',
+  'updatedAt',
+  'title',
+] as const;
+
+export const queryTasksBodySchema = z.object({
+  filter: taskQueryFilterSchema
+    .refine((filter) => queryDepth(filter) <= MAX_QUERY_DEPTH, {
+      message: `Filter groups can be nested at most ${MAX_QUERY_DEPTH} levels deep`,
+    })
+    .optional(),
+  sort: z
+    .object({
+      field: z.enum(taskQuerySortFields),
+      direction: z.enum(['asc', 'desc']).default('asc'),
+    })
+    .default({ field: 'order', direction: 'asc' }),
+  // ID of the last task on the previous page
+  cursor: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(100).default(50),
+});
+
 // ============ COMBINED SCHEMAS FOR VALIDATION ============
 
 export const listTasksSchema = z.object({
@@ -169,6 +295,11 @@ export const listProjectTasksSchema = z.object({
   query: listTasksQuerySchema,
 });
 
+export const queryProjectTasksSchema = z.object({
+  params: projectIdParamSchema,
+  body: queryTasksBodySchema,
+});
+
 export const createProjectTaskSchema = z.object({
   params: projectIdParamSchema,
   body: createTaskInProjectBodySchema,
@@ -202,6 +333,7 @@ export const globalTasksSchema = z.object({
 
 export type ListTasksQuery = z.infer<typeof listTasksQuerySchema>;
 export type GlobalTasksQuery = z.infer<typeof globalTasksQuerySchema>;
+export type QueryTasksInput = z.infer<typeof queryTasksBodySchema>;
 export type CreateTaskInput = z.infer<typeof createTaskBodySchema>;
 export type UpdateTaskInput = z.infer<typeof updateTaskBodySchema>;
 export type MoveTaskInput = z.infer<typeof moveTaskBodySchema>;
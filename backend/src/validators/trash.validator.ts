@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+// ============ TASK TRASH SCHEMAS ============
+
+/**
+ * GET /projects/:projectId/trash
+ * List the project's deleted tasks
+ */
+export const projectTrashSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+});
+
+/**
+ * POST /projects/:projectId/trash/tasks/:taskId/restore
+ * Restore a deleted task
+ * DELETE /projects/:projectId/trash/tasks/:taskId
+ * Permanently delete a task
+ */
+export const trashedTaskSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+    taskId: z.string().min(1, 'Task ID is required'),
+  }),
+});
+
+// ============ PROJECT TRASH SCHEMAS ============
+
+/**
+ * POST /trash/projects/:projectId/restore
+ * Restore a deleted project
+ * DELETE /trash/projects/:projectId
+ * Permanently delete a project
+ */
+export const trashedProjectSchema = z.object({
+  params: z.object({
+    projectId: z.string().min(1, 'Project ID is required'),
+  }),
+});
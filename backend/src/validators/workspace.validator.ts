@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+// ============ WORKSPACE SCHEMAS ============
+
+const workspaceNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Workspace name is required')
+  .max(100, 'Workspace name must be less than 100 characters');
+
+export const createWorkspaceSchema = z.object({
+  body: z.object({
+    name: workspaceNameSchema,
+  }),
+});
+
+export const updateWorkspaceSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+  }),
+  body: z.object({
+    name: workspaceNameSchema,
+  }),
+});
+
+export const workspaceIdParamSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+  }),
+});
+
+// ============ MEMBER SCHEMAS ============
+
+export const addWorkspaceMemberSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+  }),
+  body: z.object({
+    email: z.string().email('Invalid email address'),
+    role: z.enum(['ADMIN', 'MEMBER', 'VIEWER']).optional().default('MEMBER'),
+  }),
+});
+
+export const updateWorkspaceMemberRoleSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+    userId: z.string().min(1, 'User ID is required'),
+  }),
+  body: z.object({
+    role: z.enum(['ADMIN', 'MEMBER', 'VIEWER']),
+  }),
+});
+
+export const removeWorkspaceMemberSchema = z.object({
+  params: z.object({
+    workspaceId: z.string().min(1, 'Workspace ID is required'),
+    userId: z.string().min(1, 'User ID is required'),
+  }),
+});
+
+// Type exports
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>['body'];
+export type UpdateWorkspaceInput = z.infer<typeof updateWorkspaceSchema>['body'];
+export type AddWorkspaceMemberInput = z.infer<typeof addWorkspaceMemberSchema>['body'];
+export type UpdateWorkspaceMemberRoleInput = z.infer<
+  typeof updateWorkspaceMemberRoleSchema
+>['body'];
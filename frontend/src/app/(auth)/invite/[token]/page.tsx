@@ -0,0 +1,293 @@
+'use client';
+
+import { use, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { getInvitation, acceptInvitation } from '@/lib/api/invitations';
+import { getApiError } from '@/lib/axios';
+import { Loader2, UserPlus, XCircle } from 'lucide-react';
+
+const ROLE_LABELS: Record<string, string> = {
+  ADMIN: 'an admin',
+  MEMBER: 'a member',
+  VIEWER: 'a viewer',
+};
+
+interface InvitePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function InvitePage({ params }: InvitePageProps) {
+  const { token } = use(params);
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading, login, register } = useAuth();
+
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    data: invitation,
+    isLoading: invitationLoading,
+    error: invitationError,
+  } = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: () => getInvitation(token),
+    retry: false,
+  });
+
+  // Join the project as the signed-in user and open it
+  const accept = async () => {
+    try {
+      const { projectId } = await acceptInvitation(token);
+      router.push(`/projects/${projectId}`);
+    } catch (err) {
+      const apiError = getApiError(err);
+      if (apiError.code === 'INVITATION_EMAIL_MISMATCH') {
+        setError(
+          `This invitation was sent to ${invitation?.email}. Sign in with that email to accept it.`
+        );
+      } else {
+        setError(apiError.message);
+      }
+    }
+  };
+
+  const handleAccept = async () => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await accept();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await login({ email: invitation.email, password }, null);
+      await accept();
+    } catch (err) {
+      setError(getApiError(err).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await register({ email: invitation.email, password, name }, null);
+      await accept();
+    } catch (err) {
+      setError(getApiError(err).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (invitationLoading || authLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+        <p className="text-gray-500">Loading invitation...</p>
+      </div>
+    );
+  }
+
+  if (invitationError || !invitation) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-12 h-12 bg-error-light rounded-full flex items-center justify-center">
+              <XCircle className="w-6 h-6 text-error" />
+            </div>
+          </div>
+          <CardTitle>Invitation unavailable</CardTitle>
+          <CardDescription>
+            This invitation is invalid, has expired or was revoked. Ask the person who
+            invited you to send a new one.
+          </CardDescription>
+        </CardHeader>
+
+        <CardFooter className="justify-center">
+          <Link href="/login" className="text-sm text-gray-500 hover:text-gray-700">
+            Back to sign in
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  const roleLabel = ROLE_LABELS[invitation.role] ?? 'a member';
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-4">
+          <div className="w-12 h-12 bg-info-light rounded-full flex items-center justify-center">
+            <UserPlus className="w-6 h-6 text-info" />
+          </div>
+        </div>
+        <CardTitle>Join {invitation.project.name}</CardTitle>
+        <CardDescription>
+          {invitation.invitedBy.name} invited <strong>{invitation.email}</strong> to join as{' '}
+          {roleLabel}.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {error && (
+          <div className="bg-error-light text-error-dark text-sm p-3 rounded-md mb-4">
+            {error}
+          </div>
+        )}
+
+        {isAuthenticated ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500 text-center">
+              Signed in as <strong>{user?.email}</strong>
+            </p>
+            <Button className="w-full" onClick={handleAccept} disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  Joining...
+                </>
+              ) : (
+                'Accept invitation'
+              )}
+            </Button>
+          </div>
+        ) : invitation.hasAccount ? (
+          <form onSubmit={handleSignIn} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" type="email" value={invitation.email} readOnly disabled />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Enter your password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  Joining...
+                </>
+              ) : (
+                'Sign in and join'
+              )}
+            </Button>
+          </form>
+        ) : (
+          <form onSubmit={handleRegister} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Full name</Label>
+              <Input
+                id="name"
+                type="text"
+                placeholder="John Doe"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input id="email" type="email" value={invitation.email} readOnly disabled />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Create a password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-gray-500">
+                Must be at least 8 characters with uppercase, lowercase, and number
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                placeholder="Confirm your password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  Creating account...
+                </>
+              ) : (
+                'Create account and join'
+              )}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { use, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { getInviteLink, joinViaInviteLink } from '@/lib/api/invitations';
+import { getApiError } from '@/lib/axios';
+import { Link2, Loader2, XCircle } from 'lucide-react';
+
+interface JoinPageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default function JoinPage({ params }: JoinPageProps) {
+  const { token } = use(params);
+  const router = useRouter();
+  const { user, isAuthenticated, isLoading: authLoading, login, register } = useAuth();
+
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    data: link,
+    isLoading: linkLoading,
+    error: linkError,
+  } = useQuery({
+    queryKey: ['invite-link', token],
+    queryFn: () => getInviteLink(token),
+    retry: false,
+  });
+
+  // Join the project as the signed-in user and open it
+  const join = async () => {
+    const { projectId } = await joinViaInviteLink(token);
+    router.push(`/projects/${projectId}`);
+  };
+
+  const handleJoin = async () => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await join();
+    } catch (err) {
+      setError(getApiError(err).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (mode === 'register' && password.length < 8) {
+      setError('Password must be at least 8 characters');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      if (mode === 'login') {
+        await login({ email, password }, null);
+      } else {
+        await register({ email, password, name }, null);
+      }
+      await join();
+    } catch (err) {
+      setError(getApiError(err).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (linkLoading || authLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+        <p className="text-gray-500">Loading...</p>
+      </div>
+    );
+  }
+
+  if (linkError || !link) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-12 h-12 bg-error-light rounded-full flex items-center justify-center">
+              <XCircle className="w-6 h-6 text-error" />
+            </div>
+          </div>
+          <CardTitle>Link unavailable</CardTitle>
+          <CardDescription>
+            This join link is invalid, has expired or has been used up. Ask a project admin
+            for a new one.
+          </CardDescription>
+        </CardHeader>
+
+        <CardFooter className="justify-center">
+          <Link href="/dashboard" className="text-sm text-gray-500 hover:text-gray-700">
+            Go to dashboard
+          </Link>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-4">
+          <div className="w-12 h-12 bg-info-light rounded-full flex items-center justify-center">
+            <Link2 className="w-6 h-6 text-info" />
+          </div>
+        </div>
+        <CardTitle>Join {link.project.name}</CardTitle>
+        <CardDescription>
+          {link.createdBy.name} shared this link. You&apos;ll join as{' '}
+          {link.role === 'VIEWER' ? 'a viewer' : 'a member'}.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {error && (
+          <div className="bg-error-light text-error-dark text-sm p-3 rounded-md mb-4">
+            {error}
+          </div>
+        )}
+
+        {isAuthenticated ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500 text-center">
+              Signed in as <strong>{user?.email}</strong>
+            </p>
+            <Button className="w-full" onClick={handleJoin} disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  Joining...
+                </>
+              ) : (
+                'Join project'
+              )}
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === 'register' && (
+              <div className="space-y-2">
+                <Label htmlFor="name">Full name</Label>
+                <Input
+                  id="name"
+                  type="text"
+                  placeholder="John Doe"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder={mode === 'login' ? 'Enter your password' : 'Create a password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isSubmitting}
+              />
+              {mode === 'register' && (
+                <p className="text-xs text-gray-500">
+                  Must be at least 8 characters with uppercase, lowercase, and number
+                </p>
+              )}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  Joining...
+                </>
+              ) : mode === 'login' ? (
+                'Sign in and join'
+              ) : (
+                'Create account and join'
+              )}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+
+      {!isAuthenticated && (
+        <CardFooter className="justify-center">
+          <p className="text-sm text-gray-500">
+            {mode === 'login' ? "Don't have an account? " : 'Already have an account? '}
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === 'login' ? 'register' : 'login');
+                setError('');
+              }}
+              className="text-gray-800 font-medium hover:underline"
+            >
+              {mode === 'login' ? 'Sign up' : 'Sign in'}
+            </button>
+          </p>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useEffect, useRef, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { unsubscribe } from '@/lib/api/notifications';
+import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+
+function UnsubscribeContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'loading' | 'success' | 'error'>('loading');
+  const [email, setEmail] = useState('');
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    if (hasSubmitted.current) return;
+    hasSubmitted.current = true;
+
+    if (!token) {
+      setStatus('error');
+      return;
+    }
+
+    unsubscribe(token)
+      .then((result) => {
+        setEmail(result.email);
+        setStatus('success');
+      })
+      .catch(() => setStatus('error'));
+  }, [token]);
+
+  if (status === 'loading') {
+    return (
+      <div className="flex flex-col items-center justify-center gap-4">
+        <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+        <p className="text-gray-500">Unsubscribing...</p>
+      </div>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-4">
+          {status === 'success' ? (
+            <div className="w-12 h-12 bg-success-light rounded-full flex items-center justify-center">
+              <CheckCircle className="w-6 h-6 text-success" />
+            </div>
+          ) : (
+            <div className="w-12 h-12 bg-error-light rounded-full flex items-center justify-center">
+              <XCircle className="w-6 h-6 text-error" />
+            </div>
+          )}
+        </div>
+        <CardTitle>{status === 'success' ? 'You are unsubscribed' : 'Invalid link'}</CardTitle>
+        <CardDescription>
+          {status === 'success' ? (
+            <>
+              We won&apos;t send these emails to <strong>{email}</strong> anymore. You
+              will still see notifications in the app.
+            </>
+          ) : (
+            'This unsubscribe link is invalid. You can change your email settings on your profile instead.'
+          )}
+        </CardDescription>
+      </CardHeader>
+
+      <CardFooter className="justify-center">
+        <Link href="/profile" className="text-sm text-gray-500 hover:text-gray-700">
+          Manage email preferences
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex flex-col items-center justify-center gap-4">
+          <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          <p className="text-gray-500">Loading...</p>
+        </div>
+      }
+    >
+      <UnsubscribeContent />
+    </Suspense>
+  );
+}
@@ -1,11 +1,13 @@
 'use client';
 
 import { useProfile } from '@/hooks/useProfile';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
   ProfileForm,
   AvatarUpload,
   PasswordChange,
+  NotificationPreferences,
   DangerZone,
 } from '@/components/profile';
 
@@ -27,6 +29,11 @@ export default function ProfilePage() {
     isDeletingAccount,
     deleteAccountError,
   } = useProfile();
+  const {
+    preferences,
+    isLoading: isLoadingPreferences,
+    updatePreference,
+  } = useNotificationPreferences();
 
   if (!user) {
     return (
@@ -80,6 +87,13 @@ export default function ProfilePage() {
         error={changePasswordError}
       />
 
+      {/* Email Notifications */}
+      <NotificationPreferences
+        preferences={preferences}
+        onChange={updatePreference}
+        isLoading={isLoadingPreferences}
+      />
+
       {/* Danger Zone */}
       <DangerZone
         email={user.email}
@@ -2,18 +2,24 @@
 
 import { use, useState, useMemo, useCallback, useEffect } from 'react';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { Loader2, AlertCircle, Settings, LogOut } from 'lucide-react';
+import { useDebounce } from 'use-debounce';
+import { Loader2, AlertCircle, Settings, LogOut, Trash2, Archive } from 'lucide-react';
 import { ViewNav, type ViewType } from '@/components/app';
 import { getProject, type Project } from '@/lib/api/projects';
 import { Board, type Task, type ColumnWithTasks } from '@/components/board';
-import { ListView, CalendarView } from '@/components/views';
+import { ListView, CalendarView, SavedViewsMenu, SaveViewDialog } from '@/components/views';
 import { TaskDetailModal } from '@/components/task';
+import { ViewerAvatars } from '@/components/presence';
 import { toast } from 'sonner';
-import { useColumns, useTasks, useTask, useLabels, useViewPreference, useProjectMembers, useAuth, useFilters, type ViewMode } from '@/hooks';
+import { useColumns, useTasks, useTask, useLabels, useCustomFields, useViewPreference, useSwimlanes, useSavedViews, useViewUrlSync, useProjectMembers, usePermissions, useAuth, useFilters, useTaskQuery, useViewers, type ViewMode } from '@/hooks';
 import { setTaskLabels } from '@/lib/api/labels';
-import { FilterPanel } from '@/components/filter';
+import { FilterPanel, emptyFilters } from '@/components/filter';
+import { DEFAULT_TASK_SORT, type TaskSort } from '@/lib/taskSort';
+import { buildTaskQueryFilter, toTaskQuerySort } from '@/lib/taskQuery';
+import { isSameViewConfig, type ViewConfig } from '@/lib/viewConfig';
+import type { SavedView } from '@/lib/api/savedViews';
 import { useSocket } from '@/providers/SocketProvider';
 
 interface ProjectPageProps {
@@ -41,6 +47,10 @@ export default function ProjectPage({ params }: ProjectPageProps) {
     };
   }, [projectId, isConnected, joinProject, leaveProject]);
 
+  // Everyone else on this project, and the cards they are dragging on the board
+  const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const { viewers: projectViewers, draggedTasks } = useViewers({ projectId, draggingTaskId });
+
   // View preference with localStorage persistence
   const { viewMode, setViewMode } = useViewPreference({ projectId });
 
@@ -56,6 +66,10 @@ export default function ProjectPage({ params }: ProjectPageProps) {
     removeMember,
     isRemoving,
   } = useProjectMembers({ projectId });
+  const { can } = usePermissions({ projectId });
+
+  // Custom field definitions (shown on cards and used by filters)
+  const { fields: customFields } = useCustomFields({ projectId });
 
   // Filter state management
   const {
@@ -63,7 +77,7 @@ export default function ProjectPage({ params }: ProjectPageProps) {
     setFilters,
     filterTasks,
     hasActiveFilters,
-  } = useFilters();
+  } = useFilters({ customFields });
 
   // Leave project handler (for viewers)
   const handleLeaveProject = useCallback(async () => {
@@ -82,10 +96,27 @@ export default function ProjectPage({ params }: ProjectPageProps) {
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Open the task from a ?task= link (notifications, task and file lists)
+  const searchParams = useSearchParams();
+  const linkedTaskId = searchParams.get('task');
+  useEffect(() => {
+    if (!linkedTaskId) return;
+    setSelectedTaskId(linkedTaskId);
+    setIsModalOpen(true);
+
+    const params = new URLSearchParams(window.location.search);
+    params.delete('task');
+    const next = params.toString();
+    router.replace(`/projects/${projectId}${next ? `?${next}` : ''}`, { scroll: false });
+  }, [linkedTaskId, projectId, router]);
+
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState('');
   const [isFilterOpen, setIsFilterOpen] = useState(false);
 
+  // Task sort (applied by the server in the list view)
+  const [taskSort, setTaskSort] = useState<TaskSort>(DEFAULT_TASK_SORT);
+
   // Fetch project data
   const {
     data: project,
@@ -106,6 +137,7 @@ export default function ProjectPage({ params }: ProjectPageProps) {
 
   // Task operations with optimistic updates
   const {
+    tasks,
     tasksByColumn,
     isLoadingTasks,
     createTask,
@@ -118,7 +150,7 @@ export default function ProjectPage({ params }: ProjectPageProps) {
   const {
     task: selectedTask,
     isLoading: isLoadingTask,
-    updateTask,
+    updateTaskAsync,
     deleteTask,
   } = useTask({
     projectId,
@@ -140,11 +172,26 @@ export default function ProjectPage({ params }: ProjectPageProps) {
 
   // Handle task completion toggle
   const handleToggleComplete = useCallback((taskId: string, completed: boolean) => {
+    // Respect the "require all subtasks done" setting before hitting the API
+    const task = tasks.find((t) => t.id === taskId);
+    const progress = task?.subtaskProgress;
+    if (
+      completed &&
+      task?.requireSubtasksComplete &&
+      progress &&
+      progress.completed < progress.total
+    ) {
+      toast.error('Finish all subtasks first', {
+        description: `${progress.total - progress.completed} subtask(s) are still open`,
+      });
+      return;
+    }
+
     updateTaskFromList({
       taskId,
       data: { completed },
     });
-  }, [updateTaskFromList]);
+  }, [tasks, updateTaskFromList]);
 
   // Handle modal close
   const handleModalClose = useCallback((open: boolean) => {
@@ -157,14 +204,17 @@ export default function ProjectPage({ params }: ProjectPageProps) {
 
   // Handle task update from modal
   const handleTaskUpdate = useCallback((taskId: string, data: Partial<Task>) => {
-    // Convert to UpdateTaskInput format
-    updateTask({
+    // Convert to UpdateTaskInput format; the modal handles version conflicts
+    return updateTaskAsync({
       title: data.title,
       description: data.description ?? undefined,
       priority: data.priority ?? undefined,
       dueDate: data.dueDate ?? undefined,
+      requireSubtasksComplete: data.requireSubtasksComplete,
+      recurrenceRule: data.recurrenceRule,
+      version: data.version,
     });
-  }, [updateTask]);
+  }, [updateTaskAsync]);
 
   // Handle task delete from modal
   const handleTaskDelete = useCallback((_taskId: string) => {
@@ -228,7 +278,95 @@ export default function ProjectPage({ params }: ProjectPageProps) {
     }))
   , [projectMembers]);
 
-  // Apply filters and search to tasks
+  // Board swimlanes (grouping persisted per project)
+  const {
+    grouping: swimlaneGrouping,
+    setGrouping: setSwimlaneGrouping,
+    lanes: swimlanes,
+    moveTaskToLane,
+  } = useSwimlanes({ projectId, members: filterMembers, labels: projectLabels });
+
+  // The view on screen, as stored in saved views and encoded in the URL
+  const currentViewConfig: ViewConfig = useMemo(() => ({
+    viewMode,
+    filters,
+    search: searchQuery,
+    sort: taskSort,
+    groupBy: swimlaneGrouping,
+  }), [viewMode, filters, searchQuery, taskSort, swimlaneGrouping]);
+
+  const applyViewConfig = useCallback((config: ViewConfig) => {
+    setViewMode(config.viewMode);
+    // Views saved before a filter option existed lack it
+    setFilters({ ...emptyFilters, ...config.filters });
+    setSearchQuery(config.search);
+    setTaskSort(config.sort);
+    setSwimlaneGrouping(config.groupBy);
+  }, [setViewMode, setFilters, setSwimlaneGrouping]);
+
+  // Keep the view in the URL so a copied link reproduces it
+  useViewUrlSync({ config: currentViewConfig, onLoad: applyViewConfig });
+
+  // Saved views (own and shared with the project)
+  const {
+    views: savedViews,
+    createView,
+    updateView,
+    deleteView,
+  } = useSavedViews({ projectId });
+  const [selectedSavedViewId, setSelectedSavedViewId] = useState<string | null>(null);
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+
+  const activeSavedView = savedViews.find((view) =>
+    isSameViewConfig(view.config, currentViewConfig)
+  );
+
+  const handleSelectSavedView = useCallback((view: SavedView) => {
+    applyViewConfig(view.config);
+    setSelectedSavedViewId(view.id);
+  }, [applyViewConfig]);
+
+  const handleSaveView = useCallback(async (name: string, isShared: boolean) => {
+    const view = await createView({ name, isShared, config: currentViewConfig });
+    setSelectedSavedViewId(view.id);
+  }, [createView, currentViewConfig]);
+
+  const handleCopyViewLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied', { description: 'Anyone in the project can open this view' });
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  }, []);
+
+  // Creators manage their views; owners and admins also manage shared ones
+  const canManageSavedView = useCallback((view: SavedView) =>
+    view.createdById === user?.id || (view.isShared && can('view.manage.shared'))
+  , [user?.id, can]);
+
+  // Server-side query for the list view and the filter panel's match count
+  const [debouncedSearch] = useDebounce(searchQuery, 300);
+  const taskQueryFilter = useMemo(
+    () => buildTaskQueryFilter(filters, debouncedSearch, customFields),
+    [filters, debouncedSearch, customFields]
+  );
+  const taskQuerySort = useMemo(() => toTaskQuerySort(taskSort), [taskSort]);
+  const {
+    tasks: queriedTasks,
+    total: queriedTaskTotal,
+    hasMore: hasMoreQueriedTasks,
+    loadMore: loadMoreQueriedTasks,
+    isLoading: isLoadingQueriedTasks,
+    isLoadingMore: isLoadingMoreQueriedTasks,
+  } = useTaskQuery({
+    projectId,
+    filter: taskQueryFilter,
+    sort: taskQuerySort,
+    enabled: viewMode === 'list' || (isFilterOpen && hasActiveFilters),
+  });
+
+  // Apply filters and search to tasks (board and calendar)
   const filteredTasksByColumn = useMemo(() => {
     const result: Record<string, Task[]> = {};
 
@@ -263,6 +401,14 @@ export default function ProjectPage({ params }: ProjectPageProps) {
       .sort((a, b) => a.order - b.order);
   }, [columns, filteredTasksByColumn]);
 
+  // The list view shows the queried tasks, already sorted, under their columns
+  const listColumns: ColumnWithTasks[] = useMemo(() => {
+    return columns.map((col) => ({
+      ...col,
+      tasks: queriedTasks.filter((task) => task.columnId === col.id) as Task[],
+    }));
+  }, [columns, queriedTasks]);
+
   // Loading state
   if (isLoading) {
     return (
@@ -301,6 +447,18 @@ export default function ProjectPage({ params }: ProjectPageProps) {
         </h1>
 
         <div className="flex items-center gap-2 flex-shrink-0">
+          {/* Others viewing this project */}
+          <ViewerAvatars viewers={projectViewers} subject="this project" className="mr-1" />
+
+          {/* Deleted tasks */}
+          <Link
+            href={`/projects/${projectId}/trash`}
+            className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors"
+            title="Trash"
+          >
+            <Trash2 size={20} />
+          </Link>
+
           {/* Admin/Member: Settings */}
           {canAccessSettings ? (
             <Link
@@ -329,6 +487,17 @@ export default function ProjectPage({ params }: ProjectPageProps) {
         </div>
       </div>
 
+      {/* Archived projects are read-only until unarchived */}
+      {project.archivedAt && (
+        <div className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800">
+          <Archive className="size-4 shrink-0" />
+          <span>
+            This project is archived and read-only.
+            {can('project.archive') && ' Unarchive it in project settings to make changes.'}
+          </span>
+        </div>
+      )}
+
       {/* View Navigation Bar */}
       <div className="px-3 sm:px-4 py-3 border-b border-gray-100">
         <ViewNav
@@ -338,6 +507,36 @@ export default function ProjectPage({ params }: ProjectPageProps) {
           onSearchChange={setSearchQuery}
           onFilterClick={() => setIsFilterOpen(!isFilterOpen)}
           hasActiveFilters={hasActiveFilters}
+          groupBy={swimlaneGrouping}
+          onGroupByChange={setSwimlaneGrouping}
+          sort={taskSort}
+          onSortChange={setTaskSort}
+          savedViewsMenu={
+            <SavedViewsMenu
+              views={savedViews}
+              activeViewId={activeSavedView?.id}
+              selectedView={savedViews.find((view) => view.id === selectedSavedViewId)}
+              onSelectView={handleSelectSavedView}
+              onSaveView={() => setIsSaveViewOpen(true)}
+              onUpdateView={(view) => {
+                updateView(view.id, { config: currentViewConfig }).catch(() => {
+                  // Error toast is handled by the mutation
+                });
+              }}
+              onDeleteView={(view) => {
+                if (!confirm(`Delete the view "${view.name}"?`)) return;
+                deleteView(view.id);
+              }}
+              onCopyLink={handleCopyViewLink}
+              canManageView={canManageSavedView}
+            />
+          }
+        />
+        <SaveViewDialog
+          open={isSaveViewOpen}
+          onOpenChange={setIsSaveViewOpen}
+          onSave={handleSaveView}
+          canShare={can('view.share')}
         />
       </div>
 
@@ -349,6 +548,8 @@ export default function ProjectPage({ params }: ProjectPageProps) {
             onFiltersChange={setFilters}
             labels={projectLabels}
             members={filterMembers}
+            customFields={customFields}
+            matchCount={queriedTaskTotal}
           />
         </div>
       )}
@@ -361,6 +562,9 @@ export default function ProjectPage({ params }: ProjectPageProps) {
             projectId={projectId}
             isLoading={isLoadingTasks}
             readOnly={!canEditTasks}
+            customFields={customFields}
+            remoteDraggedTasks={draggedTasks}
+            onTaskDragChange={setDraggingTaskId}
             onAddTask={(columnId, title) => {
               createTask({
                 title,
@@ -379,9 +583,21 @@ export default function ProjectPage({ params }: ProjectPageProps) {
                 data: { name },
               });
             }}
-            onDeleteColumn={(columnId) => {
-              deleteColumn(columnId);
+            onColumnWipLimitChange={(columnId, wipLimit) => {
+              updateColumn({
+                columnId,
+                data: { wipLimit },
+              });
+            }}
+            onColumnCategoryChange={(columnId, category) => {
+              updateColumn({
+                columnId,
+                data: { category },
+              });
             }}
+            onDeleteColumn={can('column.delete') ? (columnId) => {
+              deleteColumn(columnId);
+            } : undefined}
             onTaskClick={handleTaskClick}
             onToggleComplete={canEditTasks ? handleToggleComplete : undefined}
             onMoveTask={(taskId, sourceColumnId, targetColumnId, newOrder) => {
@@ -400,15 +616,32 @@ export default function ProjectPage({ params }: ProjectPageProps) {
                 newOrder,
               });
             }}
+            wipLimitMode={project?.wipLimitMode}
+            onWipLimitExceeded={(column) => {
+              toast.error('Column is full', {
+                description: `"${column.name}" is at its WIP limit of ${column.wipLimit}`,
+              });
+            }}
+            swimlaneGrouping={swimlaneGrouping}
+            swimlanes={swimlanes}
+            onMoveTaskToLane={(taskId, fromLaneId, toLaneId) => {
+              moveTaskToLane({ taskId, fromLaneId, toLaneId });
+            }}
           />
         )}
 
         {viewMode === 'list' && (
           <ListView
-            columns={columnsWithTasks}
+            columns={listColumns}
             projectId={projectId}
-            isLoading={isLoadingTasks}
+            isLoading={isLoadingQueriedTasks}
             onTaskClick={handleTaskClick}
+            customFields={customFields}
+            members={filterMembers}
+            totalTasks={queriedTaskTotal}
+            hasMore={hasMoreQueriedTasks}
+            onLoadMore={() => loadMoreQueriedTasks()}
+            isLoadingMore={isLoadingMoreQueriedTasks}
           />
         )}
 
@@ -429,7 +662,7 @@ export default function ProjectPage({ params }: ProjectPageProps) {
         open={isModalOpen}
         onOpenChange={handleModalClose}
         onUpdate={canEditTasks ? handleTaskUpdate : undefined}
-        onDelete={canEditTasks ? handleTaskDelete : undefined}
+        onDelete={can('task.delete') ? handleTaskDelete : undefined}
         onToggleComplete={canEditTasks ? handleToggleComplete : undefined}
         isLoading={isLoadingTask}
         projectLabels={projectLabels}
@@ -4,11 +4,73 @@ import { use, useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { ArrowLeft, Trash2, Loader2, AlertCircle, Tag, Users, UserPlus } from 'lucide-react';
-import { getProject, updateProject, deleteProject, type Project } from '@/lib/api/projects';
-import { useLabels, useProjectMembers, useAuth } from '@/hooks';
+import { toast } from 'sonner';
+import {
+  ArrowLeft,
+  Trash2,
+  Loader2,
+  AlertCircle,
+  Tag,
+  Users,
+  UserPlus,
+  SlidersHorizontal,
+  Link2,
+  Archive,
+  ArchiveRestore,
+  Copy,
+  LayoutTemplate,
+} from 'lucide-react';
+import {
+  getProject,
+  updateProject,
+  deleteProject,
+  archiveProject,
+  unarchiveProject,
+  type Project,
+  type UpdateProjectInput,
+  type WipLimitMode,
+} from '@/lib/api/projects';
+import {
+  duplicateProject,
+  saveProjectAsTemplate,
+  type DuplicateProjectInput,
+  type SaveAsTemplateInput,
+} from '@/lib/api/templates';
+import {
+  useLabels,
+  useCustomFields,
+  useProjectMembers,
+  usePermissions,
+  useInviteLinks,
+  useAuth,
+} from '@/hooks';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ManageLabels } from '@/components/labels';
-import { AddMemberDialog, MembersList } from '@/components/project';
+import {
+  AddMemberDialog,
+  MembersList,
+  InviteLinks,
+  ManageCustomFields,
+  DuplicateProjectDialog,
+  SaveTemplateDialog,
+} from '@/components/project';
+
+const wipLimitModeOptions: { value: WipLimitMode; label: string; description: string }[] = [
+  { value: 'OFF', label: 'Off', description: 'Column limits are shown but not enforced.' },
+  { value: 'WARN', label: 'Warn', description: 'Tasks can exceed a limit, with a warning.' },
+  { value: 'BLOCK', label: 'Block', description: 'Tasks cannot be added to a full column.' },
+];
+
+// Hours before the due date; empty string turns reminders off
+const dueReminderOptions: { value: string; label: string }[] = [
+  { value: '', label: 'Off' },
+  { value: '1', label: '1 hour before' },
+  { value: '3', label: '3 hours before' },
+  { value: '12', label: '12 hours before' },
+  { value: '24', label: '1 day before' },
+  { value: '48', label: '2 days before' },
+  { value: '168', label: '1 week before' },
+];
 
 interface ProjectSettingsPageProps {
   params: Promise<{ projectId: string }>;
@@ -21,8 +83,14 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
 
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [wipLimitMode, setWipLimitMode] = useState<WipLimitMode>('OFF');
+  const [dueReminderHours, setDueReminderHours] = useState<number | null>(24);
+  const [overdueNotices, setOverdueNotices] = useState(true);
   const [labelsDialogOpen, setLabelsDialogOpen] = useState(false);
+  const [fieldsDialogOpen, setFieldsDialogOpen] = useState(false);
   const [membersDialogOpen, setMembersDialogOpen] = useState(false);
+  const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false);
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
 
   // Get current user
   const { user } = useAuth();
@@ -36,6 +104,15 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
     deleteLabel,
   } = useLabels({ projectId });
 
+  // Custom fields hook for project field management
+  const {
+    fields: customFields,
+    isLoading: customFieldsLoading,
+    createField,
+    updateField,
+    deleteField,
+  } = useCustomFields({ projectId });
+
   // Project members hook
   const {
     members,
@@ -45,13 +122,25 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
     canChangeRoles,
     canEditProject,
     canDeleteProject,
-    addMember,
+    invitations,
+    inviteMember,
+    resendInvitation,
+    revokeInvitation,
     updateRole,
     removeMember,
-    isAdding,
+    isInviting,
     isUpdating,
     isRemoving,
   } = useProjectMembers({ projectId });
+  const { can } = usePermissions({ projectId });
+
+  // Join links hook (owners and admins only)
+  const {
+    links: inviteLinks,
+    createLink,
+    revokeLink,
+    isCreating: isCreatingLink,
+  } = useInviteLinks({ projectId, enabled: canManageMembers });
 
   // Fetch project data
   const {
@@ -68,13 +157,15 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
     if (project) {
       setName(project.name);
       setDescription(project.description || '');
+      setWipLimitMode(project.wipLimitMode ?? 'OFF');
+      setDueReminderHours(project.dueReminderHours !== undefined ? project.dueReminderHours : 24);
+      setOverdueNotices(project.overdueNotices ?? true);
     }
   }, [project]);
 
   // Update mutation
   const updateMutation = useMutation({
-    mutationFn: (data: { name: string; description: string }) =>
-      updateProject(projectId, data),
+    mutationFn: (data: UpdateProjectInput) => updateProject(projectId, data),
     onSuccess: (updatedProject) => {
       // Update cache
       queryClient.setQueryData(['project', projectId], updatedProject);
@@ -91,13 +182,50 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
     },
   });
 
+  // Archive / unarchive mutation; the project's permissions change with it
+  const archiveMutation = useMutation({
+    mutationFn: (archived: boolean) =>
+      archived ? archiveProject(projectId) : unarchiveProject(projectId),
+    onSuccess: (updatedProject) => {
+      queryClient.setQueryData(['project', projectId], updatedProject);
+      queryClient.invalidateQueries({ queryKey: ['project-permissions', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+  });
+
+  // Duplicate the project and open the copy
+  const handleDuplicate = async (data: DuplicateProjectInput) => {
+    const copy = await duplicateProject(projectId, data);
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+    queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    toast.success('Project duplicated');
+    router.push(`/projects/${copy.id}`);
+  };
+
+  // Save the project as a workspace template
+  const handleSaveTemplate = async (data: SaveAsTemplateInput) => {
+    await saveProjectAsTemplate(projectId, data);
+    queryClient.invalidateQueries({ queryKey: ['project-templates'] });
+    toast.success('Template saved', {
+      description: 'It is now available when creating a project in this workspace',
+    });
+  };
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
-    await updateMutation.mutateAsync({ name, description });
+    await updateMutation.mutateAsync({
+      name,
+      description,
+      wipLimitMode,
+      dueReminderHours,
+      overdueNotices,
+    });
   };
 
   const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this project? This action cannot be undone.')) {
+    if (
+      !confirm('Move this project to the trash? You can restore it from the trash until it is purged.')
+    ) {
       return;
     }
     await deleteMutation.mutateAsync();
@@ -199,6 +327,60 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
               />
             </div>
 
+            <div className="space-y-2">
+              <label htmlFor="project-wip-limit-mode" className="text-sm font-medium text-gray-700">
+                WIP Limits
+              </label>
+              <select
+                id="project-wip-limit-mode"
+                value={wipLimitMode}
+                onChange={(e) => setWipLimitMode(e.target.value as WipLimitMode)}
+                className="input-base disabled:bg-gray-50 disabled:cursor-not-allowed"
+                disabled={!canEditProject}
+              >
+                {wipLimitModeOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">
+                {wipLimitModeOptions.find((option) => option.value === wipLimitMode)?.description}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="project-due-reminder" className="text-sm font-medium text-gray-700">
+                Due Date Reminders
+              </label>
+              <select
+                id="project-due-reminder"
+                value={dueReminderHours?.toString() ?? ''}
+                onChange={(e) =>
+                  setDueReminderHours(e.target.value ? parseInt(e.target.value, 10) : null)
+                }
+                className="input-base disabled:bg-gray-50 disabled:cursor-not-allowed"
+                disabled={!canEditProject}
+              >
+                {dueReminderOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">
+                When assignees are reminded about tasks that are coming due.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <Checkbox
+                  checked={overdueNotices}
+                  onCheckedChange={(checked) => setOverdueNotices(checked === true)}
+                  disabled={!canEditProject}
+                />
+                Notify assignees and the task creator when a task is overdue
+              </label>
+            </div>
+
             {!canEditProject && (
               <p className="text-xs text-gray-500 italic">
                 Only project admins and owners can edit these settings.
@@ -251,17 +433,60 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
         </div>
       </div>
 
-      {/* ManageLabels Dialog */}
+      {/* ManageLabels Dialog - shared workspace labels are managed in workspace settings */}
       <ManageLabels
         open={labelsDialogOpen}
         onOpenChange={setLabelsDialogOpen}
-        labels={labels}
+        labels={labels.filter((label) => label.projectId === projectId)}
         onCreateLabel={createLabel}
         onUpdateLabel={updateLabel}
-        onDeleteLabel={deleteLabel}
+        onDeleteLabel={can('label.delete') ? deleteLabel : undefined}
         isLoading={labelsLoading}
       />
 
+      {/* Custom Fields Management */}
+      <div className="bg-white rounded-card border border-gray-200 shadow-card">
+        <div className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+                <SlidersHorizontal className="size-4" />
+                Custom Fields
+              </h2>
+              <p className="text-sm text-gray-500">
+                Track extra details on tasks, like story points or a sprint.
+                {customFields.length > 0 && (
+                  <span className="ml-1 text-gray-400">
+                    ({customFields.length} field{customFields.length !== 1 ? 's' : ''})
+                  </span>
+                )}
+              </p>
+            </div>
+            {can('custom_field.manage') && (
+              <button
+                type="button"
+                onClick={() => setFieldsDialogOpen(true)}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <SlidersHorizontal className="size-4" />
+                Manage Fields
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* ManageCustomFields Dialog */}
+      <ManageCustomFields
+        open={fieldsDialogOpen}
+        onOpenChange={setFieldsDialogOpen}
+        fields={customFields}
+        onCreateField={createField}
+        onUpdateField={updateField}
+        onDeleteField={deleteField}
+        isLoading={customFieldsLoading}
+      />
+
       {/* Team Members */}
       <div className="bg-white rounded-card border border-gray-200 shadow-card">
         <div className="p-6">
@@ -307,19 +532,132 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
               onRemoveMember={removeMember}
               isUpdating={isUpdating}
               isRemoving={isRemoving}
+              invitations={invitations}
+              onResendInvitation={resendInvitation}
+              onRevokeInvitation={revokeInvitation}
             />
           )}
         </div>
       </div>
 
+      {/* Join Links */}
+      {canManageMembers && (
+        <div className="bg-white rounded-card border border-gray-200 shadow-card">
+          <div className="p-6">
+            <div className="mb-4">
+              <h2 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+                <Link2 className="size-4" />
+                Join Links
+              </h2>
+              <p className="text-sm text-gray-500">
+                Share a link that lets anyone with an account join this project.
+              </p>
+            </div>
+
+            <InviteLinks
+              links={inviteLinks}
+              onCreateLink={createLink}
+              onRevokeLink={revokeLink}
+              isCreating={isCreatingLink}
+            />
+          </div>
+        </div>
+      )}
+
       {/* AddMember Dialog */}
       <AddMemberDialog
         open={membersDialogOpen}
         onOpenChange={setMembersDialogOpen}
-        onAddMember={addMember}
-        isLoading={isAdding}
+        onAddMember={inviteMember}
+        isLoading={isInviting}
+      />
+
+      {/* Duplicate / Save as template */}
+      <div className="bg-white rounded-card border border-gray-200 shadow-card">
+        <div className="p-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+                <Copy className="size-4" />
+                Reuse This Project
+              </h2>
+              <p className="text-sm text-gray-500">
+                Copy it into a new project, or save its setup as a template for the workspace.
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setDuplicateDialogOpen(true)}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <Copy className="size-4" />
+                Duplicate
+              </button>
+              {canEditProject && (
+                <button
+                  type="button"
+                  onClick={() => setTemplateDialogOpen(true)}
+                  className="btn-secondary flex items-center gap-2"
+                >
+                  <LayoutTemplate className="size-4" />
+                  Save as Template
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <DuplicateProjectDialog
+        open={duplicateDialogOpen}
+        onOpenChange={setDuplicateDialogOpen}
+        projectName={project.name}
+        onDuplicate={handleDuplicate}
+      />
+
+      <SaveTemplateDialog
+        open={templateDialogOpen}
+        onOpenChange={setTemplateDialogOpen}
+        onSave={handleSaveTemplate}
       />
 
+      {/* Archive - admins and owners */}
+      {can('project.archive') && (
+        <div className="bg-white rounded-card border border-gray-200 shadow-card">
+          <div className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+                  <Archive className="size-4" />
+                  {project.archivedAt ? 'Archived' : 'Archive Project'}
+                </h2>
+                <p className="text-sm text-gray-500">
+                  {project.archivedAt
+                    ? 'This project is read-only and hidden from active project lists.'
+                    : 'Make this project read-only and hide it from active project lists.'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => archiveMutation.mutate(!project.archivedAt)}
+                className="btn-secondary flex items-center gap-2"
+                disabled={archiveMutation.isPending}
+              >
+                {archiveMutation.isPending ? (
+                  <Loader2 className="size-4 animate-spin" />
+                ) : project.archivedAt ? (
+                  <ArchiveRestore className="size-4" />
+                ) : (
+                  <Archive className="size-4" />
+                )}
+                {project.archivedAt ? 'Unarchive' : 'Archive'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Danger Zone - Only show for project owner */}
       {canDeleteProject && (
         <div className="bg-white rounded-card border border-red-200 shadow-card">
@@ -328,7 +666,8 @@ export default function ProjectSettingsPage({ params }: ProjectSettingsPageProps
               Danger Zone
             </h2>
             <p className="text-sm text-gray-500 mb-4">
-              Permanently delete this project and all of its data.
+              Move this project and all of its data to the trash. It is permanently deleted
+              once its time in the trash runs out.
             </p>
             <button
               type="button"
@@ -0,0 +1,142 @@
+'use client';
+
+import { use } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  ArrowLeft,
+  Trash2,
+  Loader2,
+  AlertCircle,
+  RotateCcw,
+  Paperclip,
+  MessageSquare,
+} from 'lucide-react';
+import { useProjectTrash, usePermissions } from '@/hooks';
+
+interface ProjectTrashPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+export default function ProjectTrashPage({ params }: ProjectTrashPageProps) {
+  const { projectId } = use(params);
+  const { tasks, isLoading, error, restoreTask, purgeTask, isRestoring, isPurging } =
+    useProjectTrash({ projectId });
+  const { can } = usePermissions({ projectId });
+  const canManage = can('task.delete');
+
+  const handlePurge = async (taskId: string, title: string) => {
+    if (!confirm(`Permanently delete "${title}"? This action cannot be undone.`)) {
+      return;
+    }
+    await purgeTask(taskId);
+  };
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="size-8 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16">
+        <div className="p-4 bg-red-50 rounded-full mb-4">
+          <AlertCircle className="size-8 text-red-400" />
+        </div>
+        <h3 className="text-base font-medium text-gray-800 mb-1">Failed to load trash</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {error instanceof Error ? error.message : 'Project not found'}
+        </p>
+        <Link href={`/projects/${projectId}`} className="btn-secondary">
+          Back to Project
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <Link
+          href={`/projects/${projectId}`}
+          className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-700 transition-colors"
+        >
+          <ArrowLeft className="size-5" />
+        </Link>
+        <div>
+          <h1 className="text-xl font-semibold text-gray-800">Trash</h1>
+          <p className="text-sm text-gray-500 mt-0.5">
+            Deleted tasks are permanently deleted when their time in the trash runs out.
+          </p>
+        </div>
+      </div>
+
+      {tasks.length > 0 ? (
+        <div className="bg-white rounded-card border border-gray-200 shadow-card divide-y divide-gray-100">
+          {tasks.map((task) => (
+            <div key={task.id} className="flex items-center gap-3 p-4">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-gray-800">{task.title}</p>
+                <p className="flex items-center gap-2 text-xs text-gray-500">
+                  <span>{task.column.name}</span>
+                  {task._count.attachments > 0 && (
+                    <span className="flex items-center gap-1">
+                      <Paperclip className="size-3" />
+                      {task._count.attachments}
+                    </span>
+                  )}
+                  {task._count.comments > 0 && (
+                    <span className="flex items-center gap-1">
+                      <MessageSquare className="size-3" />
+                      {task._count.comments}
+                    </span>
+                  )}
+                  <span>
+                    Deleted {formatDistanceToNow(new Date(task.deletedAt), { addSuffix: true })}
+                    {' · '}purged {formatDistanceToNow(new Date(task.purgeAt), { addSuffix: true })}
+                  </span>
+                </p>
+              </div>
+              {canManage && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => restoreTask(task.id)}
+                    className="btn-secondary flex items-center gap-2"
+                    disabled={isRestoring}
+                  >
+                    <RotateCcw className="size-4" />
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handlePurge(task.id, task.title)}
+                    className="flex items-center gap-2 px-3 py-2 bg-red-50 text-red-600 hover:bg-red-100 rounded-button text-sm font-medium transition-colors"
+                    disabled={isPurging}
+                  >
+                    <Trash2 className="size-4" />
+                    Delete Forever
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-16 bg-white rounded-card border border-gray-200">
+          <div className="p-4 bg-gray-100 rounded-full mb-4">
+            <Trash2 className="size-8 text-gray-400" />
+          </div>
+          <h3 className="text-base font-medium text-gray-800 mb-1">Trash is empty</h3>
+          <p className="text-sm text-gray-500">Tasks deleted from this project will show up here</p>
+        </div>
+      )}
+    </div>
+  );
+}
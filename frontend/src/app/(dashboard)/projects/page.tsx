@@ -3,30 +3,38 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { Plus, FolderKanban, Loader2 } from 'lucide-react';
-import { ProjectCard, NewProjectModal } from '@/components/project';
+import { Plus, FolderKanban, Loader2, Archive } from 'lucide-react';
+import { ProjectCard, NewProjectModal, type NewProjectData } from '@/components/project';
 import { getProjects, createProject, type Project } from '@/lib/api/projects';
+import { cn } from '@/lib/utils';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 
 export default function ProjectsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
   const queryClient = useQueryClient();
+  const { currentWorkspaceId } = useWorkspace();
 
-  // Fetch projects
+  // Fetch the current workspace's active or archived projects
   const {
     data: projects = [],
     isLoading,
     error,
   } = useQuery<Project[]>({
-    queryKey: ['projects'],
-    queryFn: getProjects,
+    queryKey: showArchived
+      ? ['projects', currentWorkspaceId, 'archived']
+      : ['projects', currentWorkspaceId],
+    queryFn: () => getProjects(currentWorkspaceId, showArchived),
   });
 
   // Create project mutation
   const createMutation = useMutation({
-    mutationFn: createProject,
+    mutationFn: (data: NewProjectData) =>
+      createProject({ ...data, workspaceId: currentWorkspaceId }),
     onSuccess: (project) => {
-      // Invalidate and refetch projects
+      // Invalidate and refetch projects and workspace project counts
       queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
       setIsModalOpen(false);
       toast.success('Project created', {
         description: `"${project.name}" has been created successfully`,
@@ -39,7 +47,7 @@ export default function ProjectsPage() {
     },
   });
 
-  const handleCreateProject = async (data: { name: string; description: string }) => {
+  const handleCreateProject = async (data: NewProjectData) => {
     await createMutation.mutateAsync(data);
   };
 
@@ -94,6 +102,31 @@ export default function ProjectsPage() {
         </button>
       </div>
 
+      {/* Active / Archived toggle */}
+      <div className="flex items-center gap-1.5" role="tablist" aria-label="Project status">
+        {[
+          { archived: false, label: 'Active' },
+          { archived: true, label: 'Archived' },
+        ].map(({ archived, label }) => (
+          <button
+            key={label}
+            type="button"
+            role="tab"
+            aria-selected={showArchived === archived}
+            onClick={() => setShowArchived(archived)}
+            className={cn(
+              'px-3 py-1.5 rounded-lg text-sm transition-all duration-200',
+              'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400',
+              showArchived === archived
+                ? 'bg-white border border-gray-100 text-gray-800 shadow-sm'
+                : 'text-gray-600 hover:bg-gray-50'
+            )}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
       {/* Projects Grid */}
       {projects.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -108,6 +141,18 @@ export default function ProjectsPage() {
             />
           ))}
         </div>
+      ) : showArchived ? (
+        <div className="flex flex-col items-center justify-center py-16 bg-white rounded-card border border-gray-200">
+          <div className="p-4 bg-gray-100 rounded-full mb-4">
+            <Archive className="size-8 text-gray-400" />
+          </div>
+          <h3 className="text-base font-medium text-gray-800 mb-1">
+            No archived projects
+          </h3>
+          <p className="text-sm text-gray-500">
+            Archive a project from its settings to keep it read-only and out of the way
+          </p>
+        </div>
       ) : (
         <div className="flex flex-col items-center justify-center py-16 bg-white rounded-card border border-gray-200">
           <div className="p-4 bg-gray-100 rounded-full mb-4">
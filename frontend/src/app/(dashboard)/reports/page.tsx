@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { BarChart3, Calendar, FolderKanban } from 'lucide-react';
-import { useProjects } from '@/hooks';
+import { useProjects, useCustomFields } from '@/hooks';
 import { useProjectReports } from '@/hooks/useReports';
 import { Card } from '@/components/ui/card';
 import {
@@ -19,6 +19,7 @@ import {
   TasksByAssigneeChart,
   TasksByPriorityChart,
   CompletionMetricsCard,
+  CustomFieldByStatusChart,
 } from '@/components/reports';
 
 const TIME_RANGES = [
@@ -46,6 +47,8 @@ export default function ReportsPage() {
     isLoading,
   } = useProjectReports(projectId, parseInt(timeRange));
 
+  const { fields: customFields } = useCustomFields({ projectId: projectId ?? '' });
+
   if (isLoadingProjects) {
     return (
       <div className="space-y-6">
@@ -167,6 +170,13 @@ export default function ReportsPage() {
         <div className="lg:col-span-2">
           <TasksByAssigneeChart data={tasksByAssignee.data} isLoading={tasksByAssignee.isLoading} />
         </div>
+
+        {/* Custom Fields by Status */}
+        {customFields.length > 0 && (
+          <div className="lg:col-span-2">
+            <CustomFieldByStatusChart projectId={projectId} fields={customFields} />
+          </div>
+        )}
       </div>
 
       {/* Empty State for No Data */}
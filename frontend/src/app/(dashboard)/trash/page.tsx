@@ -0,0 +1,110 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { Trash2, Loader2, AlertCircle, RotateCcw, Users } from 'lucide-react';
+import { useTrashedProjects } from '@/hooks';
+
+export default function TrashPage() {
+  const { projects, isLoading, error, restoreProject, purgeProject, isRestoring, isPurging } =
+    useTrashedProjects();
+
+  const handlePurge = async (projectId: string, name: string) => {
+    if (
+      !confirm(`Permanently delete "${name}" and all of its tasks? This action cannot be undone.`)
+    ) {
+      return;
+    }
+    await purgeProject(projectId);
+  };
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="size-8 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16">
+        <div className="p-4 bg-red-50 rounded-full mb-4">
+          <AlertCircle className="size-8 text-red-400" />
+        </div>
+        <h3 className="text-base font-medium text-gray-800 mb-1">Failed to load trash</h3>
+        <p className="text-sm text-gray-500">
+          {error instanceof Error ? error.message : 'An error occurred'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl font-semibold text-gray-800">Trash</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Projects you deleted. Each is permanently deleted when its time in the trash runs out.
+          Deleted tasks are in each project&apos;s own trash.
+        </p>
+      </div>
+
+      {projects.length > 0 ? (
+        <div className="bg-white rounded-card border border-gray-200 shadow-card divide-y divide-gray-100">
+          {projects.map((project) => (
+            <div key={project.id} className="flex items-center gap-3 p-4">
+              <span
+                className="size-3 shrink-0 rounded-full"
+                style={{ backgroundColor: project.color }}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-gray-800">{project.name}</p>
+                <p className="flex items-center gap-2 text-xs text-gray-500">
+                  <span>{project.workspace.name}</span>
+                  <span className="flex items-center gap-1">
+                    <Users className="size-3" />
+                    {project._count.members}
+                  </span>
+                  <span>
+                    Deleted {formatDistanceToNow(new Date(project.deletedAt), { addSuffix: true })}
+                    {' · '}purged{' '}
+                    {formatDistanceToNow(new Date(project.purgeAt), { addSuffix: true })}
+                  </span>
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => restoreProject(project.id)}
+                className="btn-secondary flex items-center gap-2"
+                disabled={isRestoring}
+              >
+                <RotateCcw className="size-4" />
+                Restore
+              </button>
+              <button
+                type="button"
+                onClick={() => handlePurge(project.id, project.name)}
+                className="flex items-center gap-2 px-3 py-2 bg-red-50 text-red-600 hover:bg-red-100 rounded-button text-sm font-medium transition-colors"
+                disabled={isPurging}
+              >
+                <Trash2 className="size-4" />
+                Delete Forever
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-16 bg-white rounded-card border border-gray-200">
+          <div className="p-4 bg-gray-100 rounded-full mb-4">
+            <Trash2 className="size-8 text-gray-400" />
+          </div>
+          <h3 className="text-base font-medium text-gray-800 mb-1">Trash is empty</h3>
+          <p className="text-sm text-gray-500">Projects you delete will show up here</p>
+        </div>
+      )}
+    </div>
+  );
+}
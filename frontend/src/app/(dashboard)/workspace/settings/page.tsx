@@ -0,0 +1,358 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Trash2, Loader2, Tag, Users, UserPlus, LayoutTemplate } from 'lucide-react';
+import { updateWorkspace, deleteWorkspace } from '@/lib/api/workspaces';
+import { getApiError } from '@/lib/axios';
+import { useAuth, useWorkspaceLabels, useWorkspaceMembers, useProjectTemplates } from '@/hooks';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import { ManageLabels } from '@/components/labels';
+import { AddMemberDialog, MembersList } from '@/components/project';
+
+export default function WorkspaceSettingsPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { currentWorkspace, isLoading } = useWorkspace();
+  const workspaceId = currentWorkspace?.id;
+
+  const [name, setName] = useState('');
+  const [labelsDialogOpen, setLabelsDialogOpen] = useState(false);
+  const [membersDialogOpen, setMembersDialogOpen] = useState(false);
+
+  // What the current user's workspace role allows (mirrors the server's permission map)
+  const role = currentWorkspace?.role;
+  const canEditWorkspace = role === 'OWNER' || role === 'ADMIN';
+  const canManageMembers = role === 'OWNER' || role === 'ADMIN';
+  const canChangeRoles = role === 'OWNER';
+  const canDeleteWorkspace = role === 'OWNER';
+  const canManageTemplates = role === 'OWNER' || role === 'ADMIN';
+
+  // Member directory
+  const {
+    members,
+    isLoading: membersLoading,
+    addMember,
+    updateRole,
+    removeMember,
+    isAdding,
+    isUpdating,
+    isRemoving,
+  } = useWorkspaceMembers({ workspaceId });
+
+  // Labels shared by every project in the workspace
+  const {
+    labels,
+    isLoading: labelsLoading,
+    createLabel,
+    updateLabel,
+    deleteLabel,
+  } = useWorkspaceLabels({ workspaceId });
+
+  // Templates saved from the workspace's projects (built-in ones can't be removed)
+  const {
+    templates,
+    deleteTemplate,
+    isDeleting: isDeletingTemplate,
+  } = useProjectTemplates({
+    workspaceId,
+  });
+  const savedTemplates = templates.filter((template) => !template.builtIn);
+
+  // Populate form when the workspace loads or changes
+  useEffect(() => {
+    if (currentWorkspace) {
+      setName(currentWorkspace.name);
+    }
+  }, [currentWorkspace]);
+
+  // Rename mutation
+  const updateMutation = useMutation({
+    mutationFn: (newName: string) => updateWorkspace(workspaceId!, newName),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      toast.success('Workspace updated');
+    },
+    onError: (err) => {
+      toast.error('Failed to update workspace', { description: getApiError(err).message });
+    },
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteWorkspace(workspaceId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      toast.success('Workspace deleted');
+      router.push('/dashboard');
+    },
+    onError: (err) => {
+      toast.error('Failed to delete workspace', { description: getApiError(err).message });
+    },
+  });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await updateMutation.mutateAsync(name.trim());
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Are you sure you want to delete this workspace? This action cannot be undone.')) {
+      return;
+    }
+    await deleteMutation.mutateAsync();
+  };
+
+  // Leaving the workspace takes you back to the dashboard of another one
+  const handleRemoveMember = async (userId: string) => {
+    await removeMember(userId);
+    if (userId === user?.id) {
+      router.push('/dashboard');
+    }
+  };
+
+  // Loading state
+  if (isLoading || !currentWorkspace) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="size-8 text-gray-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl font-semibold text-gray-800">Workspace Settings</h1>
+        <p className="text-sm text-gray-500 mt-0.5">
+          Manage {currentWorkspace.name}, its members and shared labels
+        </p>
+      </div>
+
+      {/* Settings Form */}
+      <div className="bg-white rounded-card border border-gray-200 shadow-card">
+        <form onSubmit={handleSave}>
+          <div className="p-6 space-y-4">
+            <div className="space-y-2">
+              <label htmlFor="workspace-name" className="text-sm font-medium text-gray-700">
+                Workspace Name
+              </label>
+              <input
+                id="workspace-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input-base disabled:bg-gray-50 disabled:cursor-not-allowed"
+                maxLength={100}
+                required
+                disabled={!canEditWorkspace}
+              />
+            </div>
+
+            {!canEditWorkspace && (
+              <p className="text-xs text-gray-500 italic">
+                Only workspace admins and owners can edit these settings.
+              </p>
+            )}
+          </div>
+
+          {canEditWorkspace && (
+            <div className="flex justify-end px-6 py-4 border-t border-gray-100 bg-gray-50 rounded-b-card">
+              <button
+                type="submit"
+                className="btn-primary flex items-center gap-2"
+                disabled={updateMutation.isPending || !name.trim()}
+              >
+                {updateMutation.isPending && <Loader2 className="size-4 animate-spin" />}
+                Save Changes
+              </button>
+            </div>
+          )}
+        </form>
+      </div>
+
+      {/* Shared Labels */}
+      <div className="bg-white rounded-card border border-gray-200 shadow-card">
+        <div className="p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+                <Tag className="size-4" />
+                Shared Labels
+              </h2>
+              <p className="text-sm text-gray-500">
+                Labels available in every project of this workspace.
+                {labels.length > 0 && (
+                  <span className="ml-1 text-gray-400">
+                    ({labels.length} label{labels.length !== 1 ? 's' : ''})
+                  </span>
+                )}
+              </p>
+            </div>
+            {canEditWorkspace && (
+              <button
+                type="button"
+                onClick={() => setLabelsDialogOpen(true)}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <Tag className="size-4" />
+                Manage Labels
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* ManageLabels Dialog */}
+      <ManageLabels
+        open={labelsDialogOpen}
+        onOpenChange={setLabelsDialogOpen}
+        labels={labels}
+        onCreateLabel={createLabel}
+        onUpdateLabel={updateLabel}
+        onDeleteLabel={deleteLabel}
+        isLoading={labelsLoading}
+      />
+
+      {/* Saved Templates */}
+      <div className="bg-white rounded-card border border-gray-200 shadow-card">
+        <div className="p-6">
+          <h2 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+            <LayoutTemplate className="size-4" />
+            Project Templates
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Templates saved from this workspace&apos;s projects. Save one from a project&apos;s
+            settings.
+          </p>
+
+          {savedTemplates.length > 0 ? (
+            <ul className="divide-y divide-gray-100">
+              {savedTemplates.map((template) => (
+                <li key={template.id} className="flex items-center gap-3 py-2.5">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium text-gray-800">{template.name}</p>
+                    <p className="truncate text-xs text-gray-500">
+                      {template.columns.length} columns · {template.labelCount} labels ·{' '}
+                      {template.taskCount} sample tasks
+                      {template.createdBy && ` · by ${template.createdBy.name}`}
+                    </p>
+                  </div>
+                  {(canManageTemplates || template.createdBy?.id === user?.id) && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (!confirm(`Delete the template "${template.name}"?`)) return;
+                        deleteTemplate(template.id).catch(() => {
+                          // Error toast is handled by the mutation
+                        });
+                      }}
+                      className="p-2 rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-600 transition-colors"
+                      title="Delete template"
+                      disabled={isDeletingTemplate}
+                    >
+                      <Trash2 className="size-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-400">No saved templates yet.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Member Directory */}
+      <div className="bg-white rounded-card border border-gray-200 shadow-card">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-base font-semibold text-gray-800 mb-1 flex items-center gap-2">
+                <Users className="size-4" />
+                Members
+              </h2>
+              <p className="text-sm text-gray-500">
+                Everyone in this workspace and how many of its projects they are in.
+                {members.length > 0 && (
+                  <span className="ml-1 text-gray-400">
+                    ({members.length} member{members.length !== 1 ? 's' : ''})
+                  </span>
+                )}
+              </p>
+            </div>
+            {canManageMembers && (
+              <button
+                type="button"
+                onClick={() => setMembersDialogOpen(true)}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <UserPlus className="size-4" />
+                Add Member
+              </button>
+            )}
+          </div>
+
+          {/* Members list */}
+          {membersLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="size-6 text-gray-400 animate-spin" />
+            </div>
+          ) : (
+            <MembersList
+              scope="workspace"
+              members={members}
+              currentUserId={user?.id}
+              canManageMembers={canManageMembers}
+              canChangeRoles={canChangeRoles}
+              onUpdateRole={updateRole}
+              onRemoveMember={handleRemoveMember}
+              isUpdating={isUpdating}
+              isRemoving={isRemoving}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* AddMember Dialog */}
+      <AddMemberDialog
+        scope="workspace"
+        open={membersDialogOpen}
+        onOpenChange={setMembersDialogOpen}
+        onAddMember={addMember}
+        isLoading={isAdding}
+      />
+
+      {/* Danger Zone - Only show for workspace owner */}
+      {canDeleteWorkspace && (
+        <div className="bg-white rounded-card border border-red-200 shadow-card">
+          <div className="p-6">
+            <h2 className="text-base font-semibold text-gray-800 mb-1">
+              Danger Zone
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Delete this workspace. Its projects must be deleted first.
+            </p>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-600 hover:bg-red-100 rounded-button text-sm font-medium transition-colors"
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <Trash2 className="size-4" />
+              )}
+              Delete Workspace
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
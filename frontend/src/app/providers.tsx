@@ -6,6 +6,7 @@ import { Toaster } from 'sonner';
 import { queryClient } from '@/lib/query-client';
 import { AuthProvider } from '@/hooks/useAuth';
 import { SocketProvider } from '@/providers/SocketProvider';
+import { WorkspaceProvider } from '@/providers/WorkspaceProvider';
 
 interface ProvidersProps {
   children: React.ReactNode;
@@ -15,9 +16,11 @@ export function Providers({ children }: ProvidersProps) {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <SocketProvider>
-          {children}
-        </SocketProvider>
+        <WorkspaceProvider>
+          <SocketProvider>
+            {children}
+          </SocketProvider>
+        </WorkspaceProvider>
       </AuthProvider>
       <Toaster
         position="bottom-right"
@@ -5,12 +5,19 @@ import { formatDistanceToNow } from 'date-fns';
 import type { Activity } from '@/lib/api/activities';
 import type { ReactNode } from 'react';
 import {
+  AlarmClock,
+  AlertTriangle,
   CheckCircle2,
   Circle,
   Columns3,
   Edit3,
+  Link2,
+  ListChecks,
   MessageSquare,
+  Repeat,
+  RotateCcw,
   Move,
+  SlidersHorizontal,
   Paperclip,
   Tag,
   Trash2,
@@ -55,6 +62,12 @@ function getActivityDetails(activity: Activity): {
         description: `${userName} deleted task "${metadata.taskTitle || 'Untitled'}"`,
         color: 'text-error',
       };
+    case 'task.restored':
+      return {
+        icon: <RotateCcw className="w-4 h-4" />,
+        description: `${userName} restored task "${metadata.taskTitle || 'Untitled'}" from the trash`,
+        color: 'text-success',
+      };
     case 'task.moved':
       return {
         icon: <Move className="w-4 h-4" />,
@@ -67,6 +80,26 @@ function getActivityDetails(activity: Activity): {
         description: `${userName} reordered "${metadata.taskTitle}" in ${metadata.columnName}`,
         color: 'text-gray-500',
       };
+    case 'task.recurred':
+      // Spawned by the scheduler on behalf of the task's creator
+      return {
+        icon: <Repeat className="w-4 h-4" />,
+        description: `Next occurrence of "${metadata.taskTitle || 'Untitled'}" was created`,
+        color: 'text-success',
+      };
+    case 'task.due_soon':
+      // Logged by the reminder scheduler when assignees are reminded
+      return {
+        icon: <AlarmClock className="w-4 h-4" />,
+        description: `"${metadata.taskTitle || 'Untitled'}" is due soon`,
+        color: 'text-warning',
+      };
+    case 'task.overdue':
+      return {
+        icon: <AlertTriangle className="w-4 h-4" />,
+        description: `"${metadata.taskTitle || 'Untitled'}" is overdue`,
+        color: 'text-error',
+      };
 
     // Column actions
     case 'column.created':
@@ -126,6 +159,66 @@ function getActivityDetails(activity: Activity): {
         color: 'text-warning',
       };
 
+    // Subtask actions
+    case 'subtask.created':
+      return {
+        icon: <ListChecks className="w-4 h-4" />,
+        description: `${userName} added subtask "${metadata.subtaskTitle}"`,
+        color: 'text-success',
+      };
+    case 'subtask.completed':
+      return {
+        icon: <CheckCircle2 className="w-4 h-4" />,
+        description: `${userName} completed subtask "${metadata.subtaskTitle}"`,
+        color: 'text-success',
+      };
+    case 'subtask.reopened':
+      return {
+        icon: <ListChecks className="w-4 h-4" />,
+        description: `${userName} reopened subtask "${metadata.subtaskTitle}"`,
+        color: 'text-warning',
+      };
+    case 'subtask.deleted':
+      return {
+        icon: <Trash2 className="w-4 h-4" />,
+        description: `${userName} deleted subtask "${metadata.subtaskTitle}"`,
+        color: 'text-error',
+      };
+
+    // Dependency actions
+    case 'dependency.added':
+      return {
+        icon: <Link2 className="w-4 h-4" />,
+        description: `${userName} marked "${metadata.blockedTaskTitle}" as blocked by "${metadata.blockingTaskTitle}"`,
+        color: 'text-warning',
+      };
+    case 'dependency.removed':
+      return {
+        icon: <Link2 className="w-4 h-4" />,
+        description: `${userName} unblocked "${metadata.blockedTaskTitle}" from "${metadata.blockingTaskTitle}"`,
+        color: 'text-gray-500',
+      };
+
+    // Custom field actions
+    case 'custom_field.created':
+      return {
+        icon: <SlidersHorizontal className="w-4 h-4" />,
+        description: `${userName} created field "${metadata.fieldName}"`,
+        color: 'text-success',
+      };
+    case 'custom_field.deleted':
+      return {
+        icon: <Trash2 className="w-4 h-4" />,
+        description: `${userName} deleted field "${metadata.fieldName}"`,
+        color: 'text-error',
+      };
+    case 'custom_field.value_changed':
+      return {
+        icon: <SlidersHorizontal className="w-4 h-4" />,
+        description: `${userName} updated field "${metadata.fieldName}" on task`,
+        color: 'text-info',
+      };
+
     // Assignee actions
     case 'assignee.added':
       return {
@@ -174,6 +267,22 @@ function getActivityDetails(activity: Activity): {
         color: 'text-error',
       };
 
+    // Member actions
+    case 'member.added':
+      return {
+        icon: <UserPlus className="w-4 h-4" />,
+        description: `${userName} joined the project`,
+        color: 'text-success',
+      };
+
+    // Project actions
+    case 'project.restored':
+      return {
+        icon: <RotateCcw className="w-4 h-4" />,
+        description: `${userName} restored the project from the trash`,
+        color: 'text-success',
+      };
+
     default:
       return {
         icon: <CheckCircle2 className="w-4 h-4" />,
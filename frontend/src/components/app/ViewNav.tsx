@@ -1,6 +1,7 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, type ReactNode } from 'react';
+import { ArrowDownWideNarrow, Rows3 } from 'lucide-react';
 import {
   BoardIcon,
   ListIcon,
@@ -8,6 +9,17 @@ import {
   SearchStatusIcon,
   FilterFunnelIcon,
 } from '@/components/icons';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { SWIMLANE_GROUPINGS, type SwimlaneGrouping } from '@/lib/swimlanes';
+import { TASK_SORT_FIELDS, type TaskSort, type TaskSortField } from '@/lib/taskSort';
 import { cn } from '@/lib/utils';
 
 export type ViewType = 'board' | 'list' | 'calendar';
@@ -19,6 +31,14 @@ interface ViewNavProps {
   onSearchChange?: (value: string) => void;
   onFilterClick?: () => void;
   hasActiveFilters?: boolean;
+  /** Board swimlane grouping; the Group menu is only shown on the board view */
+  groupBy?: SwimlaneGrouping;
+  onGroupByChange?: (grouping: SwimlaneGrouping) => void;
+  /** Task sort; the Sort menu is only shown on the list view */
+  sort?: TaskSort;
+  onSortChange?: (sort: TaskSort) => void;
+  /** Saved views menu, rendered next to the view controls */
+  savedViewsMenu?: ReactNode;
   className?: string;
 }
 
@@ -35,6 +55,11 @@ export function ViewNav({
   onSearchChange,
   onFilterClick,
   hasActiveFilters = false,
+  groupBy = 'none',
+  onGroupByChange,
+  sort = { field: 'manual', direction: 'asc' },
+  onSortChange,
+  savedViewsMenu,
   className,
 }: ViewNavProps) {
   // Internal state for uncontrolled mode
@@ -119,6 +144,111 @@ export function ViewNav({
           />
         </div>
 
+        {savedViewsMenu}
+
+        {/* Sort Menu - list view only */}
+        {onSortChange && activeView === 'list' && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className={cn(
+                  'flex items-center justify-center gap-1.5 px-2.5 sm:px-3 py-2 rounded-md border',
+                  'text-sm font-normal',
+                  'hover:bg-gray-50 transition-all duration-200',
+                  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2',
+                  sort.field !== 'manual'
+                    ? 'border-primary-300 bg-primary-50 text-primary-700'
+                    : 'border-gray-200 text-gray-800'
+                )}
+                aria-label="Sort tasks"
+              >
+                <ArrowDownWideNarrow
+                  className={cn(
+                    'size-5',
+                    sort.field !== 'manual' ? 'text-primary-600' : 'text-gray-800'
+                  )}
+                />
+                {/* Hide label on mobile, show on sm+ */}
+                <span className="hidden sm:inline">Sort</span>
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-44">
+              <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+                Sort by
+              </DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={sort.field}
+                onValueChange={(value) =>
+                  onSortChange({ ...sort, field: value as TaskSortField })
+                }
+              >
+                {TASK_SORT_FIELDS.map((option) => (
+                  <DropdownMenuRadioItem key={option.value} value={option.value}>
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              {sort.field !== 'manual' && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuRadioGroup
+                    value={sort.direction}
+                    onValueChange={(value) =>
+                      onSortChange({ ...sort, direction: value as TaskSort['direction'] })
+                    }
+                  >
+                    <DropdownMenuRadioItem value="asc">Ascending</DropdownMenuRadioItem>
+                    <DropdownMenuRadioItem value="desc">Descending</DropdownMenuRadioItem>
+                  </DropdownMenuRadioGroup>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {/* Group Menu - board view only */}
+        {onGroupByChange && activeView === 'board' && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className={cn(
+                  'flex items-center justify-center gap-1.5 px-2.5 sm:px-3 py-2 rounded-md border',
+                  'text-sm font-normal',
+                  'hover:bg-gray-50 transition-all duration-200',
+                  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2',
+                  groupBy !== 'none'
+                    ? 'border-primary-300 bg-primary-50 text-primary-700'
+                    : 'border-gray-200 text-gray-800'
+                )}
+                aria-label="Group board into swimlanes"
+              >
+                <Rows3
+                  className={cn('size-5', groupBy !== 'none' ? 'text-primary-600' : 'text-gray-800')}
+                />
+                {/* Hide label on mobile, show on sm+ */}
+                <span className="hidden sm:inline">Group</span>
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-44">
+              <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+                Swimlanes
+              </DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={groupBy}
+                onValueChange={(value) => onGroupByChange(value as SwimlaneGrouping)}
+              >
+                {SWIMLANE_GROUPINGS.map((option) => (
+                  <DropdownMenuRadioItem key={option.value} value={option.value}>
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
         {/* Filter Button - icon only on mobile, with label on sm+ */}
         <button
           type="button"
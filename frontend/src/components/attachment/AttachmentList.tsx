@@ -11,6 +11,8 @@ interface AttachmentListProps {
   attachments: Attachment[];
   isLoading?: boolean;
   onDelete?: (attachmentId: string) => void;
+  /** Whether an attachment may be deleted (defaults to all when onDelete is set) */
+  canDelete?: (attachment: Attachment) => boolean;
   deletingId?: string | null;
   className?: string;
 }
@@ -22,6 +24,7 @@ export function AttachmentList({
   attachments,
   isLoading = false,
   onDelete,
+  canDelete = () => true,
   deletingId,
   className,
 }: AttachmentListProps) {
@@ -66,7 +69,7 @@ export function AttachmentList({
           <AttachmentItem
             key={attachment.id}
             attachment={attachment}
-            onDelete={onDelete}
+            onDelete={canDelete(attachment) ? onDelete : undefined}
             onPreview={handlePreview}
             isDeleting={deletingId === attachment.id}
           />
@@ -7,10 +7,15 @@ import {
 } from '@dnd-kit/sortable';
 import { Plus } from 'lucide-react';
 import { useBoardDnd } from '@/hooks/useBoardDnd';
+import { groupColumnsIntoSwimlanes, type Swimlane as SwimlaneType, type SwimlaneGrouping } from '@/lib/swimlanes';
 import { SortableColumn } from './SortableColumn';
+import { ColumnHeader } from './ColumnHeader';
+import { Swimlane } from './Swimlane';
 import { TaskCard } from './TaskCard';
 import { AddColumn } from './AddColumn';
-import type { Column as ColumnType } from '@/lib/api/projects';
+import type { Column as ColumnType, ColumnCategory, WipLimitMode } from '@/lib/api/projects';
+import type { CustomField, CustomFieldValue } from '@/lib/api/customFields';
+import type { ViewingUser } from '@/components/presence';
 
 // Types for tasks (will be expanded in 3.6.4)
 export interface Task {
@@ -27,6 +32,14 @@ export interface Task {
   labels?: { id: string; name: string; color: string }[];
   assignees?: { id: string; name: string; avatar: string | null }[];
   _count?: { comments: number; attachments: number };
+  subtaskProgress?: { total: number; completed: number };
+  requireSubtasksComplete?: boolean;
+  blockedByCount?: number;
+  recurrenceRule?: string | null;
+  /** Custom field values keyed by field ID */
+  customFields?: Record<string, CustomFieldValue>;
+  /** Bumped on every update; sent back to detect concurrent edits */
+  version?: number;
 }
 
 // Extended column type with tasks
@@ -40,14 +53,29 @@ interface BoardProps {
   onAddTask?: (columnId: string, title: string) => void;
   onAddColumn?: (name: string) => void;
   onEditColumn?: (columnId: string, name: string) => void;
+  onColumnWipLimitChange?: (columnId: string, wipLimit: number | null) => void;
+  onColumnCategoryChange?: (columnId: string, category: ColumnCategory) => void;
   onDeleteColumn?: (columnId: string) => void;
   onTaskClick?: (task: Task) => void;
   onToggleComplete?: (taskId: string, completed: boolean) => void;
   onMoveTask?: (taskId: string, sourceColumnId: string, targetColumnId: string, newOrder: number) => void;
   onReorderColumn?: (columnId: string, newOrder: number) => void;
+  onWipLimitExceeded?: (column: ColumnWithTasks) => void;
+  /** Project WIP limit enforcement; BLOCK refuses drops into full columns */
+  wipLimitMode?: WipLimitMode;
+  /** Group tasks into horizontal swimlanes; columns cannot be reordered while grouped */
+  swimlaneGrouping?: SwimlaneGrouping;
+  swimlanes?: SwimlaneType[];
+  onMoveTaskToLane?: (taskId: string, fromLaneId: string, toLaneId: string) => void;
+  /** Project custom fields shown on task cards */
+  customFields?: CustomField[];
   isLoading?: boolean;
   /** When true, disables drag-and-drop, task creation, and column editing (for VIEWER role) */
   readOnly?: boolean;
+  /** Cards other users are dragging right now, keyed by task ID; highlighted on the board */
+  remoteDraggedTasks?: Record<string, ViewingUser>;
+  /** Called with the task ID when the current user starts dragging a card, null when done */
+  onTaskDragChange?: (taskId: string | null) => void;
 }
 
 export function Board({
@@ -56,13 +84,23 @@ export function Board({
   onAddTask,
   onAddColumn,
   onEditColumn,
+  onColumnWipLimitChange,
+  onColumnCategoryChange,
   onDeleteColumn,
   onTaskClick,
   onToggleComplete,
   onMoveTask,
   onReorderColumn,
+  onWipLimitExceeded,
+  wipLimitMode = 'OFF',
+  swimlaneGrouping = 'none',
+  swimlanes = [],
+  onMoveTaskToLane,
+  customFields,
   isLoading = false,
   readOnly = false,
+  remoteDraggedTasks: remoteDrags,
+  onTaskDragChange,
 }: BoardProps) {
   // Use custom DnD hook for all drag-and-drop logic
   const {
@@ -71,15 +109,22 @@ export function Board({
     activeItem,
     sortedColumns,
     columnIds,
+    remoteDraggedTasks,
     handleDragStart,
     handleDragOver,
     handleDragEnd,
+    handleDragCancel,
   } = useBoardDnd({
     columns,
     callbacks: {
       onMoveTask,
       onReorderColumn,
+      onWipLimitExceeded,
+      onMoveTaskToLane,
+      onTaskDragChange,
     },
+    wipLimitMode,
+    remoteDraggedTasks: remoteDrags,
   });
 
   // Loading skeleton
@@ -141,8 +186,51 @@ export function Board({
     );
   }
 
+  const isGrouped = swimlaneGrouping !== 'none' && swimlanes.length > 0;
+
+  // Render swimlanes: one header row of columns, then a row of cells per lane
+  const swimlaneContent = isGrouped && (
+    <div className="flex flex-col gap-4 min-w-max">
+      <div className="flex gap-4">
+        {sortedColumns.map((column) => (
+          <ColumnHeader
+            key={column.id}
+            id={column.id}
+            name={column.name}
+            taskCount={column.tasks.filter((t) => !t.completedAt).length}
+            wipLimit={column.wipLimit}
+            category={column.category}
+            projectId={projectId}
+            onNameChange={readOnly ? undefined : (newName) => onEditColumn?.(column.id, newName)}
+            onWipLimitChange={
+              readOnly ? undefined : (wipLimit) => onColumnWipLimitChange?.(column.id, wipLimit)
+            }
+            onCategoryChange={
+              readOnly ? undefined : (category) => onColumnCategoryChange?.(column.id, category)
+            }
+            onDelete={readOnly || !onDeleteColumn ? undefined : () => onDeleteColumn(column.id)}
+            isEditable={!readOnly}
+            className="w-[300px] flex-shrink-0"
+          />
+        ))}
+      </div>
+
+      {groupColumnsIntoSwimlanes(sortedColumns, swimlaneGrouping, swimlanes).map((lane) => (
+        <Swimlane
+          key={lane.id}
+          lane={lane}
+          customFields={customFields}
+          onTaskClick={onTaskClick}
+          onToggleComplete={readOnly ? undefined : onToggleComplete}
+          isDraggingTask={activeItem?.type === 'task'}
+          remoteDraggedTasks={remoteDraggedTasks}
+        />
+      ))}
+    </div>
+  );
+
   // Render board content
-  const boardContent = (
+  const boardContent = swimlaneContent || (
     <div className="flex gap-4 h-full min-w-max">
       {/* Sortable Columns */}
       <SortableContext items={columnIds} strategy={horizontalListSortingStrategy}>
@@ -152,13 +240,25 @@ export function Board({
             id={column.id}
             name={column.name}
             tasks={column.tasks || []}
+            wipLimit={column.wipLimit}
+            category={column.category}
             projectId={projectId}
+            customFields={customFields}
             onAddTask={readOnly ? undefined : (title) => onAddTask?.(column.id, title)}
             onNameChange={readOnly ? undefined : (newName) => onEditColumn?.(column.id, newName)}
-            onDeleteColumn={readOnly ? undefined : () => onDeleteColumn?.(column.id)}
+            onWipLimitChange={
+              readOnly ? undefined : (wipLimit) => onColumnWipLimitChange?.(column.id, wipLimit)
+            }
+            onCategoryChange={
+              readOnly ? undefined : (category) => onColumnCategoryChange?.(column.id, category)
+            }
+            onDeleteColumn={
+              readOnly || !onDeleteColumn ? undefined : () => onDeleteColumn(column.id)
+            }
             onTaskClick={onTaskClick}
             onToggleComplete={readOnly ? undefined : onToggleComplete}
             isDraggingTask={activeItem?.type === 'task'}
+            remoteDraggedTasks={remoteDraggedTasks}
             isEditable={!readOnly}
           />
         ))}
@@ -181,13 +281,14 @@ export function Board({
       onDragStart={handleDragStart}
       onDragOver={handleDragOver}
       onDragEnd={handleDragEnd}
+      onDragCancel={handleDragCancel}
     >
       {boardContent}
 
       {/* Drag Overlay - Shows preview of dragged item */}
       <DragOverlay>
         {activeItem?.type === 'task' && activeItem.task && (
-          <TaskCard task={activeItem.task} isOverlay />
+          <TaskCard task={activeItem.task} customFields={customFields} isOverlay />
         )}
       </DragOverlay>
     </DndContext>
@@ -1,15 +1,19 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import { CheckCircle2, Gauge, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import type { ColumnCategory } from '@/lib/api/projects';
 import { usePresence } from '@/hooks/usePresence';
 import { PresenceIndicator } from '@/components/presence/PresenceIndicator';
 
@@ -61,6 +65,12 @@ export const columnHeaderConfig: Record<
   },
 };
 
+const categoryOptions: { value: ColumnCategory; label: string }[] = [
+  { value: 'TODO', label: 'To do' },
+  { value: 'IN_PROGRESS', label: 'In progress' },
+  { value: 'DONE', label: 'Done' },
+];
+
 // Default config for unknown column names
 const defaultHeaderConfig = {
   headerBg: 'bg-gray-100',
@@ -73,8 +83,14 @@ export interface ColumnHeaderProps {
   id: string;
   name: string;
   taskCount: number;
+  /** Maximum number of open tasks (null = no limit) */
+  wipLimit?: number | null;
+  /** DONE columns complete tasks moved into them */
+  category?: ColumnCategory;
   projectId?: string;
   onNameChange?: (newName: string) => void;
+  onWipLimitChange?: (wipLimit: number | null) => void;
+  onCategoryChange?: (category: ColumnCategory) => void;
   onEdit?: () => void;
   onDelete?: () => void;
   isEditable?: boolean;
@@ -85,8 +101,12 @@ export function ColumnHeader({
   id,
   name,
   taskCount,
+  wipLimit,
+  category = 'TODO',
   projectId,
   onNameChange,
+  onWipLimitChange,
+  onCategoryChange,
   onEdit: _onEdit,
   onDelete,
   isEditable = true,
@@ -95,6 +115,9 @@ export function ColumnHeader({
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(name);
   const inputRef = useRef<HTMLInputElement>(null);
+  const [isEditingLimit, setIsEditingLimit] = useState(false);
+  const [limitValue, setLimitValue] = useState('');
+  const limitInputRef = useRef<HTMLInputElement>(null);
 
   // Presence tracking for column name editing
   const columnPresence = usePresence({
@@ -106,6 +129,7 @@ export function ColumnHeader({
 
   // Get column-specific styling based on name
   const config = columnHeaderConfig[name] || defaultHeaderConfig;
+  const isOverLimit = !!wipLimit && taskCount > wipLimit;
 
   // Focus input when editing starts
   useEffect(() => {
@@ -115,6 +139,14 @@ export function ColumnHeader({
     }
   }, [isEditing]);
 
+  // Focus limit input when editing the WIP limit
+  useEffect(() => {
+    if (isEditingLimit && limitInputRef.current) {
+      limitInputRef.current.focus();
+      limitInputRef.current.select();
+    }
+  }, [isEditingLimit]);
+
   // Reset edit value when name changes externally
   useEffect(() => {
     setEditValue(name);
@@ -154,6 +186,31 @@ export function ColumnHeader({
     }
   };
 
+  const handleStartLimitEdit = () => {
+    setLimitValue(wipLimit ? String(wipLimit) : '');
+    setIsEditingLimit(true);
+  };
+
+  const handleSaveLimit = () => {
+    // An empty value removes the limit
+    const parsed = parseInt(limitValue, 10);
+    const nextLimit = Number.isNaN(parsed) ? null : Math.min(Math.max(parsed, 1), 999);
+    if (nextLimit !== (wipLimit ?? null)) {
+      onWipLimitChange?.(nextLimit);
+    }
+    setIsEditingLimit(false);
+  };
+
+  const handleLimitKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSaveLimit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setIsEditingLimit(false);
+    }
+  };
+
   return (
     <div
       className={cn(
@@ -201,6 +258,12 @@ export function ColumnHeader({
             >
               {name}
             </span>
+            {category === 'DONE' && (
+              <CheckCircle2
+                className={cn('size-4 flex-shrink-0', config.headerText)}
+                aria-label="Done column"
+              />
+            )}
             {/* Presence indicator - show when someone else is editing */}
             {columnPresence.editingUser && (
               <PresenceIndicator
@@ -215,16 +278,39 @@ export function ColumnHeader({
           </>
         )}
 
-        {/* Task Count Badge */}
-        <div
-          className={cn(
-            'flex items-center justify-center size-6 rounded-full text-xs font-medium flex-shrink-0',
-            config.countBg,
-            config.countText
-          )}
-        >
-          {taskCount}
-        </div>
+        {/* Task Count Badge - shows "count/limit" when the column has a WIP limit */}
+        {isEditingLimit ? (
+          <input
+            ref={limitInputRef}
+            type="number"
+            min={1}
+            max={999}
+            value={limitValue}
+            onChange={(e) => setLimitValue(e.target.value)}
+            onBlur={handleSaveLimit}
+            onKeyDown={handleLimitKeyDown}
+            placeholder="None"
+            aria-label={`WIP limit for ${name} column`}
+            className={cn(
+              'w-16 h-6 text-xs font-medium bg-white/50 rounded px-2 outline-none ring-2 ring-white/50 flex-shrink-0',
+              config.headerText
+            )}
+          />
+        ) : (
+          <div
+            className={cn(
+              'flex items-center justify-center h-6 min-w-6 px-1.5 rounded-full text-xs font-medium flex-shrink-0',
+              isOverLimit ? 'bg-red-100 text-red-700' : [config.countBg, config.countText]
+            )}
+            title={
+              wipLimit
+                ? `${taskCount} of ${wipLimit} open tasks${isOverLimit ? ' (over WIP limit)' : ''}`
+                : undefined
+            }
+          >
+            {wipLimit ? `${taskCount}/${wipLimit}` : taskCount}
+          </div>
+        )}
       </div>
 
       {/* More Options Dropdown - only show when editable */}
@@ -241,7 +327,7 @@ export function ColumnHeader({
               <MoreHorizontal className="size-5" />
             </button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-40">
+          <DropdownMenuContent align="end" className="w-44">
             <DropdownMenuItem
               onClick={() => {
                 handleStartEdit();
@@ -250,6 +336,30 @@ export function ColumnHeader({
               <Pencil className="size-4 mr-2" />
               Rename
             </DropdownMenuItem>
+            {onWipLimitChange && (
+              <DropdownMenuItem onClick={handleStartLimitEdit}>
+                <Gauge className="size-4 mr-2" />
+                {wipLimit ? 'Edit WIP limit' : 'Set WIP limit'}
+              </DropdownMenuItem>
+            )}
+            {onCategoryChange && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+                  Column type
+                </DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={category}
+                  onValueChange={(value) => onCategoryChange(value as ColumnCategory)}
+                >
+                  {categoryOptions.map((option) => (
+                    <DropdownMenuRadioItem key={option.value} value={option.value}>
+                      {option.label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </>
+            )}
             <DropdownMenuSeparator />
             <DropdownMenuItem
               onClick={onDelete}
@@ -8,6 +8,9 @@ import { useDroppable } from '@dnd-kit/core';
 import { ChevronRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { Task } from './Board';
+import type { ColumnCategory } from '@/lib/api/projects';
+import type { CustomField } from '@/lib/api/customFields';
+import type { ViewingUser } from '@/components/presence';
 import { ColumnHeader } from './ColumnHeader';
 import { SortableTaskCard } from './SortableTaskCard';
 import { AddTaskForm } from './AddTaskForm';
@@ -17,14 +20,21 @@ interface SortableColumnProps {
   name: string;
   tasks: Task[];
   taskCount?: number;
+  wipLimit?: number | null;
+  category?: ColumnCategory;
   projectId?: string;
+  customFields?: CustomField[];
   onAddTask?: (title: string) => void;
   onDeleteColumn?: () => void;
   onNameChange?: (newName: string) => void;
+  onWipLimitChange?: (wipLimit: number | null) => void;
+  onCategoryChange?: (category: ColumnCategory) => void;
   onTaskClick?: (task: Task) => void;
   onToggleComplete?: (taskId: string, completed: boolean) => void;
   isEditable?: boolean;
   isDraggingTask?: boolean;
+  /** Cards other users are dragging, keyed by task ID */
+  remoteDraggedTasks?: Record<string, ViewingUser>;
   className?: string;
 }
 
@@ -33,14 +43,20 @@ export function SortableColumn({
   name,
   tasks,
   taskCount,
+  wipLimit,
+  category,
   projectId,
+  customFields,
   onAddTask,
   onDeleteColumn,
   onNameChange,
+  onWipLimitChange,
+  onCategoryChange,
   onTaskClick,
   onToggleComplete,
   isEditable = true,
   isDraggingTask = false,
+  remoteDraggedTasks,
   className,
 }: SortableColumnProps) {
   // Sortable for column reordering
@@ -96,6 +112,7 @@ export function SortableColumn({
 
   // Show incomplete count in header
   const count = taskCount ?? incompleteTasks.length;
+  const isOverWipLimit = !!wipLimit && incompleteTasks.length > wipLimit;
   const taskIds = incompleteTasks.map((task) => task.id);
 
   const columnStyle = {
@@ -120,8 +137,12 @@ export function SortableColumn({
           id={id}
           name={name}
           taskCount={count}
+          wipLimit={wipLimit}
+          category={category}
           projectId={projectId}
           onNameChange={onNameChange}
+          onWipLimitChange={onWipLimitChange}
+          onCategoryChange={onCategoryChange}
           onDelete={onDeleteColumn}
           isEditable={isEditable}
         />
@@ -135,6 +156,8 @@ export function SortableColumn({
           'transition-all duration-200 rounded-xl',
           // Only expand THIS column when hovering over it with a task (after delay)
           isExpandedDropZone ? 'min-h-[200px]' : 'min-h-[60px]',
+          // Over its WIP limit
+          isOverWipLimit && 'bg-red-50/60 ring-1 ring-red-200',
           // Immediate visual feedback when hovering
           isOver && isDraggingTask && 'bg-blue-50 border-2 border-dashed border-blue-300'
         )}
@@ -144,8 +167,10 @@ export function SortableColumn({
             <SortableTaskCard
               key={task.id}
               task={task}
+              customFields={customFields}
               onClick={() => onTaskClick?.(task)}
               onToggleComplete={onToggleComplete}
+              draggedBy={remoteDraggedTasks?.[task.id]}
             />
           ))}
         </SortableContext>
@@ -186,8 +211,10 @@ export function SortableColumn({
                   <SortableTaskCard
                     key={task.id}
                     task={task}
+                    customFields={customFields}
                     onClick={() => onTaskClick?.(task)}
                     onToggleComplete={onToggleComplete}
+                    draggedBy={remoteDraggedTasks?.[task.id]}
                   />
                 ))}
               </div>
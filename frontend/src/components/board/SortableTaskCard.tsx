@@ -2,16 +2,30 @@
 
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import type { ViewingUser } from '@/components/presence';
+import type { CustomField } from '@/lib/api/customFields';
 import type { Task } from './Board';
 import { TaskCard } from './TaskCard';
 
 interface SortableTaskCardProps {
   task: Task;
+  /** Swimlane the card is rendered in, when the board is grouped */
+  laneId?: string;
+  customFields?: CustomField[];
   onClick?: () => void;
   onToggleComplete?: (taskId: string, completed: boolean) => void;
+  /** Another user currently dragging this card */
+  draggedBy?: ViewingUser | null;
 }
 
-export function SortableTaskCard({ task, onClick, onToggleComplete }: SortableTaskCardProps) {
+export function SortableTaskCard({
+  task,
+  laneId,
+  customFields,
+  onClick,
+  onToggleComplete,
+  draggedBy,
+}: SortableTaskCardProps) {
   const {
     attributes,
     listeners,
@@ -25,6 +39,7 @@ export function SortableTaskCard({ task, onClick, onToggleComplete }: SortableTa
       type: 'task',
       task,
       columnId: task.columnId,
+      laneId,
     },
   });
 
@@ -37,9 +52,11 @@ export function SortableTaskCard({ task, onClick, onToggleComplete }: SortableTa
     <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
       <TaskCard
         task={task}
+        customFields={customFields}
         onClick={onClick}
         onToggleComplete={onToggleComplete}
         isDragging={isDragging}
+        draggedBy={draggedBy}
       />
     </div>
   );
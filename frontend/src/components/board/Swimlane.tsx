@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SwimlaneWithColumns } from '@/lib/swimlanes';
+import type { CustomField } from '@/lib/api/customFields';
+import type { ViewingUser } from '@/components/presence';
+import type { Task, ColumnWithTasks } from './Board';
+import { SortableTaskCard } from './SortableTaskCard';
+
+interface SwimlaneProps {
+  lane: SwimlaneWithColumns;
+  customFields?: CustomField[];
+  onTaskClick?: (task: Task) => void;
+  onToggleComplete?: (taskId: string, completed: boolean) => void;
+  isDraggingTask?: boolean;
+  /** Cards other users are dragging, keyed by task ID */
+  remoteDraggedTasks?: Record<string, ViewingUser>;
+  className?: string;
+}
+
+/**
+ * One horizontal lane of a grouped board, with a drop zone per column
+ */
+export function Swimlane({
+  lane,
+  customFields,
+  onTaskClick,
+  onToggleComplete,
+  isDraggingTask = false,
+  remoteDraggedTasks,
+  className,
+}: SwimlaneProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  return (
+    <section className={cn('flex flex-col gap-2', className)} data-swimlane-id={lane.id}>
+      {/* Lane Header */}
+      <button
+        type="button"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="flex items-center gap-2 px-1 py-1 text-sm font-medium text-gray-700 hover:text-gray-900 w-fit transition-colors"
+        aria-expanded={!isCollapsed}
+      >
+        <ChevronRight
+          className={cn('size-4 transition-transform duration-200', !isCollapsed && 'rotate-90')}
+        />
+        {lane.avatar !== undefined ? (
+          <span className="size-5 rounded-full overflow-hidden bg-gray-200 flex items-center justify-center text-[10px] font-medium text-gray-600">
+            {lane.avatar ? (
+              <img src={lane.avatar} alt={lane.title} className="size-full object-cover" />
+            ) : (
+              lane.title.charAt(0).toUpperCase()
+            )}
+          </span>
+        ) : (
+          lane.color && (
+            <span className="size-2.5 rounded-full" style={{ backgroundColor: lane.color }} />
+          )
+        )}
+        <span>{lane.title}</span>
+        <span className="text-xs font-normal text-gray-400">{lane.taskCount}</span>
+      </button>
+
+      {/* Lane Cells */}
+      {!isCollapsed && (
+        <div className="flex gap-4">
+          {lane.columns.map((column) => (
+            <SwimlaneCell
+              key={column.id}
+              laneId={lane.id}
+              column={column}
+              customFields={customFields}
+              onTaskClick={onTaskClick}
+              onToggleComplete={onToggleComplete}
+              isDraggingTask={isDraggingTask}
+              remoteDraggedTasks={remoteDraggedTasks}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+interface SwimlaneCellProps {
+  laneId: string;
+  column: ColumnWithTasks;
+  customFields?: CustomField[];
+  onTaskClick?: (task: Task) => void;
+  onToggleComplete?: (taskId: string, completed: boolean) => void;
+  isDraggingTask: boolean;
+  remoteDraggedTasks?: Record<string, ViewingUser>;
+}
+
+function SwimlaneCell({
+  laneId,
+  column,
+  customFields,
+  onTaskClick,
+  onToggleComplete,
+  isDraggingTask,
+  remoteDraggedTasks,
+}: SwimlaneCellProps) {
+  // Droppable id keeps the column-droppable prefix the collision detection looks for
+  const { setNodeRef, isOver } = useDroppable({
+    id: `column-droppable-${column.id}-lane-${laneId}`,
+    data: {
+      type: 'column',
+      columnId: column.id,
+      laneId,
+    },
+  });
+
+  // Open tasks first, completed ones after
+  const tasks = [
+    ...column.tasks.filter((t) => !t.completedAt),
+    ...column.tasks.filter((t) => t.completedAt),
+  ];
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex flex-col gap-2.5 w-[300px] min-h-[80px] flex-shrink-0 p-1 rounded-xl bg-gray-50/60',
+        'transition-colors duration-200',
+        isOver && isDraggingTask && 'bg-blue-50 border-2 border-dashed border-blue-300'
+      )}
+      data-column-id={column.id}
+    >
+      <SortableContext items={tasks.map((t) => t.id)} strategy={verticalListSortingStrategy}>
+        {tasks.map((task) => (
+          <SortableTaskCard
+            key={task.id}
+            task={task}
+            laneId={laneId}
+            customFields={customFields}
+            onClick={() => onTaskClick?.(task)}
+            onToggleComplete={onToggleComplete}
+            draggedBy={remoteDraggedTasks?.[task.id]}
+          />
+        ))}
+      </SortableContext>
+    </div>
+  );
+}
+
+export default Swimlane;
@@ -1,11 +1,14 @@
 'use client';
 
 import { forwardRef } from 'react';
-import { Calendar, Paperclip, Circle, CheckCircle2 } from 'lucide-react';
+import { Calendar, Paperclip, Circle, CheckCircle2, ListChecks, Ban } from 'lucide-react';
 import { cn, getDueDateColor } from '@/lib/utils';
 import { getLabelStyles } from '@/components/labels';
 import { PriorityBadge } from '@/components/task/PrioritySelector';
 import { stripHtml } from '@/components/editor';
+import type { ViewingUser } from '@/components/presence';
+import type { CustomField } from '@/lib/api/customFields';
+import { formatCustomFieldValue } from '@/lib/customFields';
 import type { Task } from './Board';
 
 // Format date for display
@@ -26,15 +29,31 @@ function formatDate(dateString: string | null): string | null {
 
 export interface TaskCardProps {
   task: Task;
+  /** Project custom fields; values the task has are shown under the labels */
+  customFields?: CustomField[];
   onClick?: () => void;
   onToggleComplete?: (taskId: string, completed: boolean) => void;
   isDragging?: boolean;
   isOverlay?: boolean;
+  /** Another user currently dragging this card; highlighted while set */
+  draggedBy?: ViewingUser | null;
   className?: string;
 }
 
 export const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
-  ({ task, onClick, onToggleComplete, isDragging = false, isOverlay = false, className }, ref) => {
+  (
+    {
+      task,
+      customFields = [],
+      onClick,
+      onToggleComplete,
+      isDragging = false,
+      isOverlay = false,
+      draggedBy = null,
+      className,
+    },
+    ref
+  ) => {
     const isCompleted = !!task.completedAt;
     const formattedDate = formatDate(task.dueDate);
     const hasLabels = task.labels && task.labels.length > 0;
@@ -43,6 +62,21 @@ export const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
     const hasAttachments = attachmentCount > 0;
     const hasAssignees = task.assignees && task.assignees.length > 0;
     const hasFooter = hasAttachments || hasAssignees;
+    // Subtask progress - hidden when the task has no checklist
+    const subtaskTotal = task.subtaskProgress?.total ?? 0;
+    const subtaskCompleted = task.subtaskProgress?.completed ?? 0;
+    const hasSubtasks = subtaskTotal > 0;
+    const subtaskPercent = hasSubtasks ? Math.round((subtaskCompleted / subtaskTotal) * 100) : 0;
+    // Blocked while any linked blocker is still open (completed tasks never show it)
+    const blockedByCount = task.blockedByCount ?? 0;
+    const isBlocked = blockedByCount > 0 && !isCompleted;
+    // Custom field values, in field order, skipping empty ones
+    const fieldValues = customFields
+      .map((field) => ({
+        field,
+        text: formatCustomFieldValue(field, task.customFields?.[field.id]),
+      }))
+      .filter((fv) => fv.text !== null);
 
     return (
       <div
@@ -54,6 +88,7 @@ export const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
           isDragging && 'opacity-50 rotate-2 scale-105 shadow-lg',
           isOverlay && 'shadow-xl rotate-3',
           isCompleted && 'opacity-60',
+          draggedBy && 'border-amber-300 ring-2 ring-amber-300 shadow-md',
           className
         )}
         onClick={onClick}
@@ -67,6 +102,23 @@ export const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
         }}
         data-task-id={task.id}
       >
+        {/* Remote Drag Indicator - another user is moving this card */}
+        {draggedBy && (
+          <div
+            className="absolute -top-2.5 left-3 z-10 flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-800 text-[10px] font-medium shadow-sm"
+            role="status"
+          >
+            <span className="size-3.5 rounded-full overflow-hidden bg-amber-200 flex items-center justify-center text-[8px]">
+              {draggedBy.avatar ? (
+                <img src={draggedBy.avatar} alt="" className="size-full object-cover" />
+              ) : (
+                draggedBy.name.charAt(0).toUpperCase()
+              )}
+            </span>
+            {draggedBy.name} is moving this
+          </div>
+        )}
+
         {/* Subtle Completion Checkbox - Top Right */}
         {onToggleComplete && (
           <button
@@ -91,8 +143,8 @@ export const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
         <div className="flex flex-col gap-[14px]">
           {/* Top Section: Date + Priority + Title + Description + Labels */}
           <div className="flex flex-col gap-3">
-            {/* Due Date and Priority Row */}
-            {(formattedDate || task.priority) && (
+            {/* Due Date, Priority and Blocked Row */}
+            {(formattedDate || task.priority || isBlocked) && (
               <div className="flex items-center gap-2 flex-wrap">
                 {/* Due Date with urgency colors */}
                 {formattedDate && (
@@ -107,6 +159,16 @@ export const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
                 {task.priority && (
                   <PriorityBadge priority={task.priority} size="sm" />
                 )}
+                {/* Blocked Badge */}
+                {isBlocked && (
+                  <span
+                    className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md text-[10px] font-medium bg-red-50 text-red-600"
+                    title={`Blocked by ${blockedByCount} unfinished ${blockedByCount === 1 ? 'task' : 'tasks'}`}
+                  >
+                    <Ban className="h-2.5 w-2.5" />
+                    Blocked
+                  </span>
+                )}
               </div>
             )}
 
@@ -145,6 +207,41 @@ export const TaskCard = forwardRef<HTMLDivElement, TaskCardProps>(
                 })}
               </div>
             )}
+
+            {/* Custom Fields */}
+            {fieldValues.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                {fieldValues.map(({ field, text }) => (
+                  <span
+                    key={field.id}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-gray-50 border border-gray-100 text-xs leading-normal max-w-full"
+                    title={`${field.name}: ${text}`}
+                  >
+                    <span className="text-gray-400">{field.name}</span>
+                    <span className="text-gray-700 truncate">{text}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* Subtask Progress */}
+            {hasSubtasks && (
+              <div className="flex items-center gap-2" title={`${subtaskCompleted} of ${subtaskTotal} subtasks done`}>
+                <ListChecks className="size-4 text-gray-400 flex-shrink-0" strokeWidth={1.5} />
+                <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className={cn(
+                      'h-full rounded-full transition-all duration-300',
+                      subtaskCompleted === subtaskTotal ? 'bg-green-500' : 'bg-primary'
+                    )}
+                    style={{ width: `${subtaskPercent}%` }}
+                  />
+                </div>
+                <span className="text-xs text-gray-500 leading-normal tabular-nums">
+                  {subtaskCompleted}/{subtaskTotal}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Footer: Attachments + Assignees */}
@@ -5,6 +5,7 @@ export { ColumnHeader, columnHeaderConfig, type ColumnHeaderProps } from './Colu
 export { TaskCard, type TaskCardProps } from './TaskCard';
 export { AddTaskForm, type AddTaskFormProps } from './AddTaskForm';
 export { AddColumn, type AddColumnProps } from './AddColumn';
+export { Swimlane } from './Swimlane';
 
 // Drag-and-drop components
 export { SortableColumn } from './SortableColumn';
@@ -5,6 +5,9 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Send } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { MentionList } from '@/components/mentions';
+import { useMentionSuggestions } from '@/hooks/useMentionSuggestions';
+import { formatMentionToken, type MentionMember } from '@/lib/mentions';
 
 interface CommentInputProps {
   onSubmit: (content: string) => void;
@@ -14,6 +17,8 @@ interface CommentInputProps {
   initialValue?: string;
   onCancel?: () => void;
   submitLabel?: string;
+  /** Project members that can be @mentioned */
+  members?: MentionMember[];
   className?: string;
 }
 
@@ -25,10 +30,12 @@ export function CommentInput({
   initialValue = '',
   onCancel,
   submitLabel = 'Send',
+  members = [],
   className,
 }: CommentInputProps) {
   const [content, setContent] = useState(initialValue);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const mentions = useMentionSuggestions({ members });
 
   useEffect(() => {
     if (autoFocus && textareaRef.current) {
@@ -44,7 +51,34 @@ export function CommentInput({
     setContent('');
   };
 
+  // Replace the "@query" before the cursor with a mention token
+  const insertMention = (member: MentionMember) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const cursor = textarea.selectionStart;
+    const start = cursor - mentions.queryLength;
+    const token = `${formatMentionToken(member)} `;
+    setContent(content.slice(0, start) + token + content.slice(cursor));
+    mentions.close();
+
+    const newCursor = start + token.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(newCursor, newCursor);
+    });
+  };
+
+  const updateMentionQuery = (textarea: HTMLTextAreaElement) => {
+    mentions.update(textarea.value.slice(0, textarea.selectionStart));
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Navigate / pick from the mention list while it is open
+    if (!e.metaKey && !e.ctrlKey && mentions.handleKeyDown(e.key, insertMention)) {
+      e.preventDefault();
+      return;
+    }
     // Submit on Cmd/Ctrl + Enter
     if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
       e.preventDefault();
@@ -61,16 +95,32 @@ export function CommentInput({
 
   return (
     <div className={cn('flex flex-col gap-2', className)}>
-      <Textarea
-        ref={textareaRef}
-        value={content}
-        onChange={(e) => setContent(e.target.value)}
-        onKeyDown={handleKeyDown}
-        placeholder={placeholder}
-        disabled={isSubmitting}
-        className="min-h-[80px] resize-none"
-        rows={3}
-      />
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value);
+            updateMentionQuery(e.target);
+          }}
+          onSelect={(e) => updateMentionQuery(e.currentTarget)}
+          onKeyDown={handleKeyDown}
+          onBlur={mentions.close}
+          placeholder={placeholder}
+          disabled={isSubmitting}
+          className="min-h-[80px] resize-none"
+          rows={3}
+        />
+        {mentions.isOpen && (
+          <MentionList
+            items={mentions.items}
+            activeIndex={mentions.activeIndex}
+            onSelect={insertMention}
+            onActiveIndexChange={mentions.setActiveIndex}
+            className="absolute left-0 top-full mt-1"
+          />
+        )}
+      </div>
       <div className="flex items-center justify-between">
         <span className="text-xs text-muted-foreground">
           Press <kbd className="rounded bg-muted px-1 py-0.5 text-xs">Cmd</kbd>+
@@ -22,32 +22,40 @@ import {
 } from '@/components/ui/alert-dialog';
 import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
 import { CommentInput } from './CommentInput';
+import { MentionChip } from '@/components/mentions';
 import type { Comment } from '@/lib/api/comments';
+import { splitMentions, type MentionMember } from '@/lib/mentions';
 import { cn } from '@/lib/utils';
 
 interface CommentItemProps {
   comment: Comment;
-  currentUserId?: string;
+  /** Whether the current user may edit this comment (their own, while they can comment) */
+  canEdit?: boolean;
+  /** Whether the current user may delete this comment */
+  canDelete?: boolean;
   onUpdate: (commentId: string, content: string) => void;
   onDelete: (commentId: string) => void;
   isUpdating?: boolean;
   isDeleting?: boolean;
+  /** Project members that can be @mentioned when editing */
+  members?: MentionMember[];
   className?: string;
 }
 
 export function CommentItem({
   comment,
-  currentUserId,
+  canEdit = false,
+  canDelete = false,
   onUpdate,
   onDelete,
   isUpdating = false,
   isDeleting = false,
+  members,
   className,
 }: CommentItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
-  const isOwner = currentUserId === comment.userId;
   const timeAgo = formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true });
   const wasEdited = comment.createdAt !== comment.updatedAt;
 
@@ -86,6 +94,7 @@ export function CommentItem({
             onCancel={() => setIsEditing(false)}
             isSubmitting={isUpdating}
             submitLabel="Save"
+            members={members}
             autoFocus
           />
         </div>
@@ -109,7 +118,7 @@ export function CommentItem({
               {timeAgo}
               {wasEdited && ' (edited)'}
             </span>
-            {isOwner && (
+            {(canEdit || canDelete) && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -123,23 +132,33 @@ export function CommentItem({
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={() => setIsEditing(true)}>
-                    <Pencil className="mr-2 h-4 w-4" />
-                    Edit
-                  </DropdownMenuItem>
-                  <DropdownMenuItem
-                    onClick={() => setShowDeleteDialog(true)}
-                    className="text-destructive focus:text-destructive"
-                  >
-                    <Trash2 className="mr-2 h-4 w-4" />
-                    Delete
-                  </DropdownMenuItem>
+                  {canEdit && (
+                    <DropdownMenuItem onClick={() => setIsEditing(true)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </DropdownMenuItem>
+                  )}
+                  {canDelete && (
+                    <DropdownMenuItem
+                      onClick={() => setShowDeleteDialog(true)}
+                      className="text-destructive focus:text-destructive"
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             )}
           </div>
           <p className="text-sm text-foreground whitespace-pre-wrap break-words mt-1">
-            {comment.content}
+            {splitMentions(comment.content).map((segment, index) =>
+              segment.type === 'mention' ? (
+                <MentionChip key={index} label={segment.label} />
+              ) : (
+                segment.text
+              )
+            )}
           </p>
         </div>
       </div>
@@ -149,7 +168,7 @@ export function CommentItem({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete comment?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete your comment.
+              This action cannot be undone. This will permanently delete this comment.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
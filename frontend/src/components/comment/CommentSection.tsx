@@ -1,7 +1,10 @@
 'use client';
 
+import { useMemo } from 'react';
 import { useComments } from '@/hooks/useComments';
 import { useAuth } from '@/hooks/useAuth';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { usePermissions } from '@/hooks/usePermissions';
 import { CommentInput } from './CommentInput';
 import { CommentItem } from './CommentItem';
 import { MessageSquare, Loader2, AlertCircle } from 'lucide-react';
@@ -28,6 +31,21 @@ export function CommentSection({ projectId, taskId, className }: CommentSectionP
     isDeleting,
   } = useComments({ projectId, taskId });
 
+  // Teammates that can be @mentioned
+  const { members } = useProjectMembers({ projectId });
+  const mentionMembers = useMemo(
+    () =>
+      members
+        .filter((m) => m.user.id !== user?.id)
+        .map((m) => ({ id: m.user.id, name: m.user.name, avatar: m.user.avatar })),
+    [members, user?.id]
+  );
+
+  // Viewers can read comments but not write them; admins can remove anyone's
+  const { can } = usePermissions({ projectId });
+  const canComment = can('comment.create');
+  const canDeleteAny = can('comment.delete.any');
+
   const handleCreate = (content: string) => {
     createComment(content);
   };
@@ -51,9 +69,16 @@ export function CommentSection({ projectId, taskId, className }: CommentSectionP
       </div>
 
       {/* Comment Input */}
-      <div className="mb-6">
-        <CommentInput onSubmit={handleCreate} isSubmitting={isCreating} />
-      </div>
+      {canComment && (
+        <div className="mb-6">
+          <CommentInput
+            onSubmit={handleCreate}
+            isSubmitting={isCreating}
+            members={mentionMembers}
+            placeholder="Write a comment... Type @ to mention someone"
+          />
+        </div>
+      )}
 
       {/* Comments List */}
       <div className="flex flex-col gap-4">
@@ -72,18 +97,20 @@ export function CommentSection({ projectId, taskId, className }: CommentSectionP
           <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
             <MessageSquare className="h-8 w-8 mb-2 opacity-50" />
             <p className="text-sm">No comments yet</p>
-            <p className="text-xs">Be the first to comment</p>
+            {canComment && <p className="text-xs">Be the first to comment</p>}
           </div>
         ) : (
           comments.map((comment) => (
             <CommentItem
               key={comment.id}
               comment={comment}
-              currentUserId={user?.id}
+              canEdit={canComment && comment.userId === user?.id}
+              canDelete={canDeleteAny || (canComment && comment.userId === user?.id)}
               onUpdate={handleUpdate}
               onDelete={handleDelete}
               isUpdating={isUpdating}
               isDeleting={isDeleting}
+              members={mentionMembers}
             />
           ))
         )}
@@ -71,6 +71,8 @@ function formatAction(action: string, metadata: Record<string, unknown> | null):
       return `Updated ${title}`;
     case 'task.deleted':
       return `Deleted ${title}`;
+    case 'task.restored':
+      return `Restored ${title}`;
     case 'task.moved':
       return `Moved ${title}`;
     case 'task.completed':
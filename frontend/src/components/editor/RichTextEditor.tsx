@@ -1,15 +1,22 @@
 'use client';
 
-import { useEffect } from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useEffect, useRef, useState } from 'react';
+import { useEditor, EditorContent, type Editor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import Underline from '@tiptap/extension-underline';
 import Link from '@tiptap/extension-link';
 import TaskList from '@tiptap/extension-task-list';
 import TaskItem from '@tiptap/extension-task-item';
+import Collaboration, { isChangeOrigin } from '@tiptap/extension-collaboration';
+import CollaborationCaret from '@tiptap/extension-collaboration-caret';
 import { cn } from '@/lib/utils';
+import { MentionList } from '@/components/mentions';
+import { useMentionSuggestions } from '@/hooks/useMentionSuggestions';
+import type { MentionMember } from '@/lib/mentions';
+import type { DescriptionCollaboration } from '@/hooks/useDescriptionCollaboration';
 import { RichTextToolbar } from './RichTextToolbar';
+import { Mention, mentionClassNames } from './mention';
 import { wrapPlainText } from './utils';
 
 interface RichTextEditorProps {
@@ -19,6 +26,13 @@ interface RichTextEditorProps {
   onBlur?: () => void;
   placeholder?: string;
   disabled?: boolean;
+  /** Project members that can be @mentioned */
+  mentionMembers?: MentionMember[];
+  /**
+   * Co-edit through a shared Yjs document. The document replaces `value`
+   * (which only seeds a fresh document) and `onChange` only sees local edits.
+   */
+  collaboration?: DescriptionCollaboration | null;
   className?: string;
 }
 
@@ -29,76 +43,165 @@ export function RichTextEditor({
   onBlur,
   placeholder = 'Add a description...',
   disabled = false,
+  mentionMembers = [],
+  collaboration = null,
   className,
 }: RichTextEditorProps) {
-  const editor = useEditor({
-    immediatelyRender: false, // Prevents SSR hydration errors in Next.js
-    extensions: [
-      StarterKit.configure({
-        heading: { levels: [2, 3] },
-        blockquote: {},
-        strike: {},
-        horizontalRule: {},
-        codeBlock: false,
-        code: false,
-      }),
-      Underline,
-      Link.configure({
-        openOnClick: false,
-        HTMLAttributes: { class: 'text-blue-600 underline cursor-pointer' },
-      }),
-      TaskList,
-      TaskItem.configure({ nested: true }),
-      Placeholder.configure({
-        placeholder,
-        emptyEditorClass:
-          'before:content-[attr(data-placeholder)] before:text-gray-400 before:pointer-events-none before:absolute before:left-0 before:top-0',
-      }),
-    ],
-    content: wrapPlainText(value),
-    editable: !disabled,
-    onUpdate: ({ editor }) => {
-      const html = editor.getHTML();
-      // Return empty string if editor only contains empty paragraph
-      const isEmpty = html === '<p></p>' || html === '';
-      onChange(isEmpty ? '' : html);
-    },
-    onFocus: () => {
-      onFocus?.();
-    },
-    onBlur: () => {
-      onBlur?.();
-    },
-    editorProps: {
-      attributes: {
-        class: cn(
-          'prose prose-sm max-w-none',
-          'px-3 py-2 min-h-[100px] outline-none',
-          'text-sm text-gray-700',
-          '[&_p]:my-0 [&_ul]:my-1 [&_ol]:my-1',
-          '[&_li]:my-0 [&_li_p]:my-0',
-          // Headings
-          '[&_h2]:text-lg [&_h2]:font-semibold [&_h2]:my-2 [&_h2]:text-gray-900',
-          '[&_h3]:text-base [&_h3]:font-semibold [&_h3]:my-1.5 [&_h3]:text-gray-900',
-          // Blockquote
-          '[&_blockquote]:border-l-4 [&_blockquote]:border-gray-300 [&_blockquote]:pl-3 [&_blockquote]:italic [&_blockquote]:my-2 [&_blockquote]:text-gray-600',
-          // Horizontal rule
-          '[&_hr]:my-3 [&_hr]:border-gray-200',
-          // Links
-          '[&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer',
-          // Task list
-          '[&_ul[data-type=taskList]]:list-none [&_ul[data-type=taskList]]:pl-0',
-          '[&_li[data-type=taskItem]]:flex [&_li[data-type=taskItem]]:gap-2 [&_li[data-type=taskItem]]:items-start',
-          '[&_li[data-type=taskItem]>label]:mt-0.5',
-          '[&_li[data-type=taskItem]_input]:mt-1'
-        ),
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mentions = useMentionSuggestions({ members: mentionMembers });
+  const [mentionPosition, setMentionPosition] = useState<{ left: number; top: number } | null>(
+    null
+  );
+
+  // Track the "@query" before the cursor and where to show the member list
+  const updateMentionQuery = (editor: Editor) => {
+    const { $from, empty } = editor.state.selection;
+    if (!empty) {
+      mentions.close();
+      return;
+    }
+    mentions.update($from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc'));
+
+    const container = containerRef.current;
+    if (container) {
+      const coords = editor.view.coordsAtPos($from.pos);
+      const rect = container.getBoundingClientRect();
+      setMentionPosition({ left: coords.left - rect.left, top: coords.bottom - rect.top + 4 });
+    }
+  };
+
+  // Key handling lives in a ref because editor props are only read once
+  const mentionKeyDownRef = useRef<(event: KeyboardEvent) => boolean>(() => false);
+
+  const editor = useEditor(
+    {
+      immediatelyRender: false, // Prevents SSR hydration errors in Next.js
+      extensions: [
+        StarterKit.configure({
+          heading: { levels: [2, 3] },
+          blockquote: {},
+          strike: {},
+          horizontalRule: {},
+          codeBlock: false,
+          code: false,
+          // Collaboration brings its own undo history that skips remote edits
+          undoRedo: collaboration ? false : {},
+        }),
+        Underline,
+        Link.configure({
+          openOnClick: false,
+          HTMLAttributes: { class: 'text-blue-600 underline cursor-pointer' },
+        }),
+        TaskList,
+        TaskItem.configure({ nested: true }),
+        Mention,
+        Placeholder.configure({
+          placeholder,
+          emptyEditorClass:
+            'before:content-[attr(data-placeholder)] before:text-gray-400 before:pointer-events-none before:absolute before:left-0 before:top-0',
+        }),
+        ...(collaboration
+          ? [
+              Collaboration.configure({ document: collaboration.provider.doc }),
+              CollaborationCaret.configure({
+                provider: collaboration.provider,
+                user: collaboration.user,
+              }),
+            ]
+          : []),
+      ],
+      content: collaboration ? undefined : wrapPlainText(value),
+      editable: !disabled,
+      onUpdate: ({ editor, transaction }) => {
+        // Remote edits are saved by whoever made them
+        if (collaboration && isChangeOrigin(transaction)) return;
+
+        const html = editor.getHTML();
+        // Return empty string if editor only contains empty paragraph
+        const isEmpty = html === '<p></p>' || html === '';
+        onChange(isEmpty ? '' : html);
+        updateMentionQuery(editor);
+      },
+      onSelectionUpdate: ({ editor }) => {
+        updateMentionQuery(editor);
+      },
+      onFocus: () => {
+        onFocus?.();
+      },
+      onBlur: () => {
+        mentions.close();
+        onBlur?.();
+      },
+      editorProps: {
+        handleKeyDown: (_view, event) => mentionKeyDownRef.current(event),
+        attributes: {
+          class: cn(
+            'prose prose-sm max-w-none',
+            'px-3 py-2 min-h-[100px] outline-none',
+            'text-sm text-gray-700',
+            '[&_p]:my-0 [&_ul]:my-1 [&_ol]:my-1',
+            '[&_li]:my-0 [&_li_p]:my-0',
+            // Headings
+            '[&_h2]:text-lg [&_h2]:font-semibold [&_h2]:my-2 [&_h2]:text-gray-900',
+            '[&_h3]:text-base [&_h3]:font-semibold [&_h3]:my-1.5 [&_h3]:text-gray-900',
+            // Blockquote
+            '[&_blockquote]:border-l-4 [&_blockquote]:border-gray-300 [&_blockquote]:pl-3 [&_blockquote]:italic [&_blockquote]:my-2 [&_blockquote]:text-gray-600',
+            // Horizontal rule
+            '[&_hr]:my-3 [&_hr]:border-gray-200',
+            // Links
+            '[&_a]:text-blue-600 [&_a]:underline [&_a]:cursor-pointer',
+            // Task list
+            '[&_ul[data-type=taskList]]:list-none [&_ul[data-type=taskList]]:pl-0',
+            '[&_li[data-type=taskItem]]:flex [&_li[data-type=taskItem]]:gap-2 [&_li[data-type=taskItem]]:items-start',
+            '[&_li[data-type=taskItem]>label]:mt-0.5',
+            '[&_li[data-type=taskItem]_input]:mt-1',
+            // Mentions
+            mentionClassNames
+          ),
+        },
       },
     },
+    [collaboration]
+  );
+
+  // Replace the "@query" before the cursor with a mention
+  const insertMention = (member: MentionMember) => {
+    if (!editor) return;
+    const { from } = editor.state.selection;
+    editor
+      .chain()
+      .focus()
+      .deleteRange({ from: from - mentions.queryLength, to: from })
+      .insertContent([
+        { type: 'mention', attrs: { id: member.id, label: member.name } },
+        { type: 'text', text: ' ' },
+      ])
+      .run();
+    mentions.close();
+  };
+
+  useEffect(() => {
+    mentionKeyDownRef.current = (event) => mentions.handleKeyDown(event.key, insertMention);
   });
 
+  // Fill a fresh shared document from the stored description once synced.
+  // The stored description only matters at that point.
+  useEffect(() => {
+    if (!editor || !collaboration) return;
+
+    const { provider } = collaboration;
+    return provider.onSynced(() => {
+      if (provider.seed && editor.isEmpty && value) {
+        editor.commands.setContent(wrapPlainText(value));
+      }
+      provider.seed = false;
+    });
+  }, [editor, collaboration]);
+
   // Update editor content when value changes externally
+  // (a shared document is updated by the collaboration extension instead)
   useEffect(() => {
-    if (editor && value !== undefined) {
+    if (editor && !collaboration && value !== undefined) {
       const currentHtml = editor.getHTML();
       const newContent = wrapPlainText(value);
 
@@ -115,7 +218,7 @@ export function RichTextEditor({
         }
       }
     }
-  }, [value, editor]);
+  }, [value, editor, collaboration]);
 
   // Update editable state when disabled changes
   useEffect(() => {
@@ -126,8 +229,9 @@ export function RichTextEditor({
 
   return (
     <div
+      ref={containerRef}
       className={cn(
-        'rounded-lg border border-gray-200 overflow-hidden',
+        'relative rounded-lg border border-gray-200',
         'focus-within:border-gray-400 focus-within:ring-2 focus-within:ring-gray-800/10',
         'transition-colors',
         disabled && 'bg-gray-50 cursor-default',
@@ -136,6 +240,16 @@ export function RichTextEditor({
     >
       {!disabled && <RichTextToolbar editor={editor} />}
       <EditorContent editor={editor} />
+      {mentions.isOpen && mentionPosition && (
+        <MentionList
+          items={mentions.items}
+          activeIndex={mentions.activeIndex}
+          onSelect={insertMention}
+          onActiveIndexChange={mentions.setActiveIndex}
+          className="absolute"
+          style={mentionPosition}
+        />
+      )}
     </div>
   );
 }
@@ -164,7 +164,7 @@ export function RichTextToolbar({ editor }: RichTextToolbarProps) {
   if (!editor) return null;
 
   return (
-    <div className="flex items-center gap-0.5 p-1 border-b border-gray-200 bg-gray-50/50 flex-wrap">
+    <div className="flex items-center gap-0.5 p-1 border-b border-gray-200 bg-gray-50/50 rounded-t-lg flex-wrap">
       {/* Text formatting */}
       <ToolbarButton
         icon={Bold}
@@ -1,3 +1,4 @@
 export { RichTextEditor } from './RichTextEditor';
 export { RichTextToolbar } from './RichTextToolbar';
 export { stripHtml, isHtml, wrapPlainText } from './utils';
+export { Mention, mentionClassNames } from './mention';
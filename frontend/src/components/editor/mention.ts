@@ -0,0 +1,47 @@
+import { Node, mergeAttributes } from '@tiptap/react';
+
+/**
+ * Inline @mention node. Stored as
+ *   <span data-type="mention" data-id="<userId>" data-label="<name>">@name</span>
+ * which the backend sanitizer keeps and parses to notify the user.
+ */
+export const Mention = Node.create({
+  name: 'mention',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: false,
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-id'),
+        renderHTML: (attributes) => (attributes.id ? { 'data-id': attributes.id } : {}),
+      },
+      label: {
+        default: null,
+        parseHTML: (element) =>
+          element.getAttribute('data-label') ?? element.textContent?.replace(/^@/, ''),
+        renderHTML: (attributes) =>
+          attributes.label ? { 'data-label': attributes.label } : {},
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="mention"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes({ 'data-type': 'mention' }, HTMLAttributes), `@${node.attrs.label}`];
+  },
+
+  renderText({ node }) {
+    return `@${node.attrs.label}`;
+  },
+});
+
+// Tailwind classes that style mentions inside rendered descriptions
+export const mentionClassNames =
+  '[&_span[data-type=mention]]:rounded [&_span[data-type=mention]]:bg-info-light [&_span[data-type=mention]]:px-1 [&_span[data-type=mention]]:font-medium [&_span[data-type=mention]]:text-info-dark';
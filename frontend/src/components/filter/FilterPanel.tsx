@@ -10,6 +10,7 @@ import {
   Users,
   ChevronDown,
   Check,
+  SlidersHorizontal,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -19,6 +20,12 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import type { Label } from '@/lib/api/labels';
+import type { CustomField } from '@/lib/api/customFields';
+import {
+  CHECKBOX_CHECKED,
+  CHECKBOX_UNCHECKED,
+  isFilterableField,
+} from '@/lib/customFields';
 import type { Priority } from '@/components/task/PrioritySelector';
 
 // Filter state interface
@@ -27,6 +34,8 @@ export interface FilterState {
   labels: string[]; // Label IDs
   assignees: string[]; // User IDs
   dueDate: 'overdue' | 'today' | 'week' | 'none' | null;
+  customFields: Record<string, string[]>; // Field ID -> selected options / user IDs
+  match: 'all' | 'any'; // Whether tasks must match every active filter or just one
 }
 
 // Empty filter state
@@ -35,15 +44,23 @@ export const emptyFilters: FilterState = {
   labels: [],
   assignees: [],
   dueDate: null,
+  customFields: {},
+  match: 'all',
 };
 
+// Count custom fields with at least one selected value
+function getActiveCustomFieldCount(filters: FilterState): number {
+  return Object.values(filters.customFields ?? {}).filter((values) => values.length > 0).length;
+}
+
 // Check if any filters are active
 export function hasActiveFilters(filters: FilterState): boolean {
   return (
     filters.priority.length > 0 ||
     filters.labels.length > 0 ||
     filters.assignees.length > 0 ||
-    filters.dueDate !== null
+    filters.dueDate !== null ||
+    getActiveCustomFieldCount(filters) > 0
   );
 }
 
@@ -54,6 +71,7 @@ export function getActiveFilterCount(filters: FilterState): number {
   if (filters.labels.length > 0) count++;
   if (filters.assignees.length > 0) count++;
   if (filters.dueDate !== null) count++;
+  count += getActiveCustomFieldCount(filters);
   return count;
 }
 
@@ -62,6 +80,9 @@ export interface FilterPanelProps {
   onFiltersChange: (filters: FilterState) => void;
   labels?: Label[];
   members?: { id: string; name: string; avatar?: string | null }[];
+  customFields?: CustomField[];
+  /** Number of tasks matching the filters, shown while filters are active */
+  matchCount?: number;
   className?: string;
 }
 
@@ -85,8 +106,11 @@ export function FilterPanel({
   onFiltersChange,
   labels = [],
   members = [],
+  customFields = [],
+  matchCount,
   className,
 }: FilterPanelProps) {
+  const filterableFields = customFields.filter((field) => isFilterableField(field.type));
   const activeCount = getActiveFilterCount(filters);
   const hasFilters = activeCount > 0;
 
@@ -130,6 +154,41 @@ export function FilterPanel({
     [filters, onFiltersChange]
   );
 
+  const handleCustomFieldToggle = useCallback(
+    (fieldId: string, value: string) => {
+      const current = filters.customFields?.[fieldId] ?? [];
+      const next = current.includes(value)
+        ? current.filter((v) => v !== value)
+        : [...current, value];
+      onFiltersChange({
+        ...filters,
+        customFields: { ...filters.customFields, [fieldId]: next },
+      });
+    },
+    [filters, onFiltersChange]
+  );
+
+  // Choices offered for a filterable custom field
+  const getCustomFieldChoices = (field: CustomField): { value: string; label: string }[] => {
+    if (field.type === 'CHECKBOX') {
+      return [
+        { value: CHECKBOX_CHECKED, label: 'Checked' },
+        { value: CHECKBOX_UNCHECKED, label: 'Unchecked' },
+      ];
+    }
+    if (field.type === 'USER') {
+      return members.map((member) => ({ value: member.id, label: member.name }));
+    }
+    return field.options.map((option) => ({ value: option, label: option }));
+  };
+
+  const handleMatchChange = useCallback(
+    (match: FilterState['match']) => {
+      onFiltersChange({ ...filters, match });
+    },
+    [filters, onFiltersChange]
+  );
+
   const handleClearAll = useCallback(() => {
     onFiltersChange(emptyFilters);
   }, [onFiltersChange]);
@@ -333,6 +392,82 @@ export function FilterPanel({
         </PopoverContent>
       </Popover>
 
+      {/* Custom Field Filters */}
+      {filterableFields.map((field) => {
+        const selected = filters.customFields?.[field.id] ?? [];
+        return (
+          <Popover key={field.id}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className={cn(
+                  'h-8 gap-1.5 text-xs',
+                  selected.length > 0 && 'bg-primary-50 border-primary-200 text-primary-700'
+                )}
+              >
+                <SlidersHorizontal className="h-3.5 w-3.5" />
+                {field.name}
+                {selected.length > 0 && (
+                  <span className="ml-0.5 rounded-full bg-primary-200 px-1.5 text-[10px] font-medium">
+                    {selected.length}
+                  </span>
+                )}
+                <ChevronDown className="h-3 w-3 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-52 p-2" align="start">
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {getCustomFieldChoices(field).map((choice) => {
+                  const isSelected = selected.includes(choice.value);
+                  return (
+                    <button
+                      key={choice.value}
+                      onClick={() => handleCustomFieldToggle(field.id, choice.value)}
+                      className={cn(
+                        'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm',
+                        'hover:bg-gray-50 transition-colors text-left',
+                        isSelected && 'bg-gray-50'
+                      )}
+                    >
+                      <span className="text-gray-700 truncate">{choice.label}</span>
+                      {isSelected && <Check className="h-3.5 w-3.5 ml-auto text-primary-600" />}
+                    </button>
+                  );
+                })}
+              </div>
+            </PopoverContent>
+          </Popover>
+        );
+      })}
+
+      {/* Match all / any toggle (only meaningful with several filters) */}
+      {activeCount > 1 && (
+        <div className="flex items-center h-8 rounded-md border border-gray-200 p-0.5 text-xs">
+          {(['all', 'any'] as const).map((match) => (
+            <button
+              key={match}
+              onClick={() => handleMatchChange(match)}
+              className={cn(
+                'px-2 h-full rounded transition-colors',
+                filters.match === match
+                  ? 'bg-gray-100 text-gray-900 font-medium'
+                  : 'text-gray-500 hover:text-gray-700'
+              )}
+            >
+              Match {match}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Match count */}
+      {hasFilters && matchCount !== undefined && (
+        <span className="text-xs text-gray-500">
+          {matchCount} matching {matchCount === 1 ? 'task' : 'tasks'}
+        </span>
+      )}
+
       {/* Clear All Button */}
       <AnimatePresence>
         {hasFilters && (
@@ -28,7 +28,8 @@ export interface ManageLabelsProps {
   labels: Label[];
   onCreateLabel: (data: CreateLabelInput) => Promise<Label>;
   onUpdateLabel: (labelId: string, data: UpdateLabelInput) => Promise<Label>;
-  onDeleteLabel: (labelId: string) => Promise<void>;
+  /** Omit to hide the delete action (e.g. members who cannot delete labels) */
+  onDeleteLabel?: (labelId: string) => Promise<void>;
   isLoading?: boolean;
 }
 
@@ -106,6 +107,7 @@ export function ManageLabels({
   };
 
   const handleDelete = async (labelId: string) => {
+    if (!onDeleteLabel) return;
     setIsDeleting(labelId);
     setError(null);
 
@@ -204,18 +206,20 @@ export function ManageLabels({
                         >
                           <Pencil className="h-4 w-4 text-gray-500" />
                         </button>
-                        <button
-                          type="button"
-                          onClick={() => handleDelete(label.id)}
-                          className="p-1 hover:bg-red-100 rounded transition-colors"
-                          title="Delete label"
-                        >
-                          {isBeingDeleted ? (
-                            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
-                          ) : (
-                            <Trash2 className="h-4 w-4 text-red-500" />
-                          )}
-                        </button>
+                        {onDeleteLabel && (
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(label.id)}
+                            className="p-1 hover:bg-red-100 rounded transition-colors"
+                            title="Delete label"
+                          >
+                            {isBeingDeleted ? (
+                              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                            ) : (
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            )}
+                          </button>
+                        )}
                       </div>
                     </div>
                   );
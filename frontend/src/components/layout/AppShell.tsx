@@ -7,8 +7,9 @@ import { Menu } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
-import { NewProjectModal } from '@/components/project';
+import { NewProjectModal, type NewProjectData } from '@/components/project';
 import { createProject } from '@/lib/api/projects';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 
 interface BreadcrumbItem {
   label: string;
@@ -31,20 +32,23 @@ export function AppShell({
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [newProjectModalOpen, setNewProjectModalOpen] = useState(false);
+  const { currentWorkspaceId } = useWorkspace();
 
-  // Create project mutation
+  // Create project mutation (in the workspace selected in the sidebar)
   const createMutation = useMutation({
-    mutationFn: createProject,
+    mutationFn: (data: NewProjectData) =>
+      createProject({ ...data, workspaceId: currentWorkspaceId }),
     onSuccess: (newProject) => {
-      // Invalidate projects list
+      // Invalidate projects list and workspace project counts
       queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
       setNewProjectModalOpen(false);
       // Navigate to the new project
       router.push(`/projects/${newProject.id}`);
     },
   });
 
-  const handleCreateProject = async (data: { name: string; description: string }) => {
+  const handleCreateProject = async (data: NewProjectData) => {
     await createMutation.mutateAsync(data);
   };
 
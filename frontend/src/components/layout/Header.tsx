@@ -5,7 +5,6 @@ import { useRouter } from 'next/navigation';
 import {
   ArrowLeft,
   Lightbulb,
-  Bell,
   ChevronDown,
   User,
   Settings,
@@ -13,6 +12,7 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/hooks/useAuth';
+import { NotificationBell } from '@/components/notifications';
 
 interface BreadcrumbItem {
   label: string;
@@ -113,13 +113,8 @@ export function Header({
           <Lightbulb className="size-6 text-gray-500" />
         </button>
 
-        {/* Notifications Icon */}
-        <button
-          className="flex items-center justify-center p-2.5 rounded hover:bg-gray-50 transition-colors"
-          aria-label="Notifications"
-        >
-          <Bell className="size-6 text-gray-500" />
-        </button>
+        {/* Notifications */}
+        <NotificationBell />
 
         {/* User Dropdown */}
         <div className="relative" ref={dropdownRef}>
@@ -9,6 +9,7 @@ import {
   BarChart3,
   MessageSquare,
   Folder,
+  Trash2,
   User,
   Plus,
   LogOut,
@@ -22,6 +23,7 @@ import { cn } from '@/lib/utils';
 import { Logo, LogoIcon } from '@/components/icons/Logo';
 import { useAuth, useProjects } from '@/hooks';
 import { Skeleton } from '@/components/ui/skeleton';
+import { WorkspaceSwitcher } from '@/components/workspace';
 
 // Navigation items for Dashboard section
 const dashboardNavItems = [
@@ -30,6 +32,7 @@ const dashboardNavItems = [
   { href: '/reports', label: 'Reports', icon: BarChart3 },
   { href: '/messages', label: 'Messages', icon: MessageSquare },
   { href: '/files', label: 'Files', icon: Folder },
+  { href: '/trash', label: 'Trash', icon: Trash2 },
   { href: '/profile', label: 'My Profile', icon: User },
 ];
 
@@ -99,6 +102,9 @@ export function Sidebar({
           )}
         </div>
 
+        {/* Workspace Switcher - scopes projects, tasks, files, search and the dashboard */}
+        <WorkspaceSwitcher collapsed={collapsed} onNavigate={handleNavClick} />
+
         {/* Navigation */}
         <nav className="flex flex-col gap-2">
           {/* Dashboard Section */}
@@ -0,0 +1,83 @@
+'use client';
+
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import type { MentionMember } from '@/lib/mentions';
+
+export interface MentionListProps {
+  items: MentionMember[];
+  activeIndex: number;
+  onSelect: (member: MentionMember) => void;
+  onActiveIndexChange?: (index: number) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+/**
+ * Autocomplete list of project members shown while typing an @mention
+ */
+export function MentionList({
+  items,
+  activeIndex,
+  onSelect,
+  onActiveIndexChange,
+  className,
+  style,
+}: MentionListProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <div
+      role="listbox"
+      aria-label="Mention a teammate"
+      className={cn(
+        'z-50 w-56 rounded-lg border border-gray-200 bg-white p-1 shadow-lg',
+        className
+      )}
+      style={style}
+    >
+      {items.map((member, index) => (
+        <button
+          key={member.id}
+          type="button"
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the input or editor
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(member)}
+          onMouseEnter={() => onActiveIndexChange?.(index)}
+          className={cn(
+            'w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-sm',
+            'transition-colors',
+            index === activeIndex ? 'bg-gray-100 text-gray-900' : 'text-gray-700'
+          )}
+        >
+          <Avatar className="h-5 w-5">
+            <AvatarImage src={member.avatar ?? undefined} alt={member.name} />
+            <AvatarFallback className="text-[9px]">{getInitials(member.name)}</AvatarFallback>
+          </Avatar>
+          <span className="truncate">{member.name}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * A mention rendered inside comment text
+ */
+export function MentionChip({ label }: { label: string }) {
+  return (
+    <span className="rounded bg-info-light px-1 font-medium text-info-dark">@{label}</span>
+  );
+}
+
+export default MentionList;
@@ -0,0 +1,2 @@
+export { MentionList, MentionChip } from './MentionList';
+export type { MentionListProps } from './MentionList';
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useNotifications } from '@/hooks/useNotifications';
+import { getNotificationHref } from '@/lib/notifications';
+import type { Notification } from '@/lib/api/notifications';
+import { NotificationItem } from './NotificationItem';
+
+/**
+ * Header bell with an unread badge and a dropdown of recent notifications
+ */
+export function NotificationBell() {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { notifications, unreadCount, isLoading, markRead, markAllRead } = useNotifications();
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead(notification.id);
+    }
+    setIsOpen(false);
+    router.push(getNotificationHref(notification));
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative flex items-center justify-center p-2.5 rounded hover:bg-gray-50 transition-colors"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <Bell className="size-6 text-gray-500" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1.5 right-1.5 min-w-4 h-4 px-1 rounded-full bg-error text-[10px] font-medium leading-4 text-white text-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-96 bg-white border border-gray-100 rounded-lg shadow-dropdown z-50 animate-fade-in">
+          {/* Header */}
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className={cn(
+                'flex items-center gap-1 text-xs text-gray-500 transition-colors',
+                'hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed'
+              )}
+            >
+              <CheckCheck className="size-3.5" />
+              Mark all as read
+            </button>
+          </div>
+
+          {/* List */}
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="size-5 animate-spin text-gray-400" />
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8 text-center">
+                <Bell className="size-8 text-gray-300 mb-2" />
+                <p className="text-sm text-gray-500">You&apos;re all caught up</p>
+              </div>
+            ) : (
+              notifications.map((notification) => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onClick={handleNotificationClick}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NotificationBell;
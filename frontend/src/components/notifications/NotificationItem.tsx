@@ -0,0 +1,73 @@
+'use client';
+
+import { formatDistanceToNow } from 'date-fns';
+import { Clock } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { getNotificationMessage } from '@/lib/notifications';
+import type { Notification } from '@/lib/api/notifications';
+
+interface NotificationItemProps {
+  notification: Notification;
+  onClick: (notification: Notification) => void;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+/**
+ * A single row in the notification dropdown
+ */
+export function NotificationItem({ notification, onClick }: NotificationItemProps) {
+  const isUnread = !notification.readAt;
+  const timeAgo = formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true });
+
+  return (
+    <button
+      type="button"
+      onClick={() => onClick(notification)}
+      className={cn(
+        'flex items-start gap-3 w-full px-4 py-3 text-left transition-colors hover:bg-gray-50',
+        isUnread && 'bg-info-light/50'
+      )}
+    >
+      {notification.actor ? (
+        <Avatar className="size-8 shrink-0">
+          <AvatarImage src={notification.actor.avatar ?? undefined} alt={notification.actor.name} />
+          <AvatarFallback className="text-xs">
+            {getInitials(notification.actor.name)}
+          </AvatarFallback>
+        </Avatar>
+      ) : (
+        <div className="size-8 shrink-0 rounded-full bg-warning-light flex items-center justify-center">
+          <Clock className="size-4 text-warning" />
+        </div>
+      )}
+
+      <div className="flex-1 min-w-0">
+        <p className={cn('text-sm text-gray-700', isUnread && 'font-medium text-gray-900')}>
+          {getNotificationMessage(notification)}
+        </p>
+        {notification.metadata?.excerpt && (
+          <p className="text-xs text-gray-500 mt-0.5 line-clamp-2">
+            {notification.metadata.excerpt}
+          </p>
+        )}
+        <p className="text-xs text-gray-400 mt-1">
+          {notification.project.name} · {timeAgo}
+        </p>
+      </div>
+
+      {isUnread && (
+        <span className="mt-1.5 size-2 shrink-0 rounded-full bg-info" aria-label="Unread" />
+      )}
+    </button>
+  );
+}
+
+export default NotificationItem;
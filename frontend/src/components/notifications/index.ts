@@ -0,0 +1,2 @@
+export { NotificationBell } from './NotificationBell';
+export { NotificationItem } from './NotificationItem';
@@ -0,0 +1,107 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+
+/**
+ * User currently viewing a board or task
+ */
+export interface ViewingUser {
+  id: string;
+  name: string;
+  avatar: string | null;
+}
+
+export interface ViewerAvatarsProps {
+  /** Users currently viewing (the current user excluded) */
+  viewers: ViewingUser[];
+  /** What they are viewing, used in the tooltip (e.g. "this task") */
+  subject?: string;
+  /** Maximum avatars before collapsing into "+N" */
+  max?: number;
+  /** Size of the avatars */
+  size?: 'sm' | 'md';
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * ViewerAvatars - Overlapping avatars of everyone else who has the same
+ * project board or task open.
+ *
+ * Features:
+ * - Shows user avatar if available, or initials as fallback
+ * - Collapses extra viewers into a "+N" bubble
+ * - Tooltip listing who is viewing
+ * - Renders nothing when nobody else is viewing
+ *
+ * @example
+ * ```tsx
+ * <ViewerAvatars viewers={viewers} subject="this project" />
+ * ```
+ */
+export function ViewerAvatars({
+  viewers,
+  subject = 'this',
+  max = 4,
+  size = 'sm',
+  className,
+}: ViewerAvatarsProps) {
+  if (viewers.length === 0) {
+    return null;
+  }
+
+  const visibleViewers = viewers.slice(0, max);
+  const remaining = viewers.length - visibleViewers.length;
+  const names = viewers.map((viewer) => viewer.name).join(', ');
+
+  // Size classes following design system
+  const sizeClasses = {
+    sm: 'size-6 text-xs', // 24px
+    md: 'size-8 text-sm', // 32px
+  };
+
+  return (
+    <div
+      className={cn('flex items-center', className)}
+      title={`${names} ${viewers.length === 1 ? 'is' : 'are'} viewing ${subject}`}
+      aria-label={`${viewers.length} other ${viewers.length === 1 ? 'person' : 'people'} viewing ${subject}`}
+      role="status"
+    >
+      {visibleViewers.map((viewer, index) => (
+        <div
+          key={viewer.id}
+          className={cn(
+            'rounded-full flex items-center justify-center font-medium overflow-hidden',
+            'bg-gray-200 text-gray-600 ring-2 ring-white',
+            sizeClasses[size],
+            index > 0 && '-ml-2'
+          )}
+        >
+          {viewer.avatar ? (
+            <img
+              src={viewer.avatar}
+              alt={`${viewer.name}'s avatar`}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <span aria-hidden="true">{viewer.name.charAt(0).toUpperCase()}</span>
+          )}
+        </div>
+      ))}
+
+      {remaining > 0 && (
+        <div
+          className={cn(
+            'rounded-full flex items-center justify-center font-medium -ml-2',
+            'bg-gray-100 text-gray-500 ring-2 ring-white',
+            sizeClasses[size]
+          )}
+        >
+          +{remaining}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ViewerAvatars;
@@ -1,2 +1,4 @@
 export { PresenceIndicator } from './PresenceIndicator';
 export type { PresenceIndicatorProps, EditingUser } from './PresenceIndicator';
+export { ViewerAvatars } from './ViewerAvatars';
+export type { ViewerAvatarsProps, ViewingUser } from './ViewerAvatars';
@@ -0,0 +1,117 @@
+'use client';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type {
+  EmailFrequency,
+  NotificationPreference,
+  NotificationType,
+} from '@/lib/api/notifications';
+
+const EVENT_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  TASK_ASSIGNED: {
+    label: 'Assigned to a task',
+    description: 'Someone assigns you to a task',
+  },
+  MENTIONED: {
+    label: 'Mentions',
+    description: 'Someone @mentions you in a comment or description',
+  },
+  TASK_COMMENTED: {
+    label: 'Comments',
+    description: 'Someone comments on a task you are assigned to',
+  },
+  TASK_DUE_SOON: {
+    label: 'Due date reminders',
+    description: 'A task assigned to you is due soon',
+  },
+  TASK_OVERDUE: {
+    label: 'Overdue tasks',
+    description: 'A task you are assigned to or created is past its due date',
+  },
+};
+
+const FREQUENCY_OPTIONS: { value: EmailFrequency; label: string }[] = [
+  { value: 'INSTANT', label: 'Instantly' },
+  { value: 'HOURLY', label: 'Hourly digest' },
+  { value: 'DAILY', label: 'Daily digest' },
+  { value: 'OFF', label: 'Off' },
+];
+
+interface NotificationPreferencesProps {
+  preferences: NotificationPreference[];
+  onChange: (preference: NotificationPreference) => void;
+  isLoading: boolean;
+}
+
+export function NotificationPreferences({
+  preferences,
+  onChange,
+  isLoading,
+}: NotificationPreferencesProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Notifications</CardTitle>
+        <CardDescription>
+          Choose how you hear about activity by email. You will always see
+          notifications in the app.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+            <Skeleton className="h-10" />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {preferences.map((preference) => {
+              const event = EVENT_LABELS[preference.type];
+
+              return (
+                <div
+                  key={preference.type}
+                  className="flex items-center justify-between gap-4 py-3 first:pt-0 last:pb-0"
+                >
+                  <div className="min-w-0">
+                    <Label htmlFor={`email-${preference.type}`}>{event.label}</Label>
+                    <p className="text-sm text-gray-500">{event.description}</p>
+                  </div>
+                  <Select
+                    value={preference.email}
+                    onValueChange={(value) =>
+                      onChange({ type: preference.type, email: value as EmailFrequency })
+                    }
+                  >
+                    <SelectTrigger id={`email-${preference.type}`} className="w-40 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FREQUENCY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,3 +2,4 @@ export * from './ProfileForm';
 export * from './AvatarUpload';
 export * from './PasswordChange';
 export * from './DangerZone';
+export * from './NotificationPreferences';
@@ -11,6 +11,7 @@ import {
   DialogDescription,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { getApiError } from '@/lib/axios';
 
 type InviteRole = 'ADMIN' | 'MEMBER' | 'VIEWER';
 
@@ -45,6 +46,8 @@ export interface AddMemberDialogProps {
   onOpenChange: (open: boolean) => void;
   onAddMember: (email: string, role: InviteRole) => Promise<unknown>;
   isLoading?: boolean;
+  /** Workspaces add existing accounts directly instead of emailing an invitation */
+  scope?: 'project' | 'workspace';
 }
 
 export function AddMemberDialog({
@@ -52,6 +55,7 @@ export function AddMemberDialog({
   onOpenChange,
   onAddMember,
   isLoading = false,
+  scope = 'project',
 }: AddMemberDialogProps) {
   const [email, setEmail] = useState('');
   const [role, setRole] = useState<InviteRole>('MEMBER');
@@ -98,17 +102,12 @@ export function AddMemberDialog({
       await onAddMember(trimmedEmail, role);
       handleOpenChange(false);
     } catch (err) {
-      if (err instanceof Error) {
-        // Handle specific error messages from backend
-        if (err.message.includes('not found')) {
-          setError('No user found with this email address');
-        } else if (err.message.includes('already a member')) {
-          setError('This user is already a member of this project');
-        } else {
-          setError(err.message);
-        }
+      // Handle specific error codes from backend
+      const apiError = getApiError(err);
+      if (apiError.code === 'ALREADY_MEMBER') {
+        setError(`This user is already a member of this ${scope}`);
       } else {
-        setError('Failed to add member. Please try again.');
+        setError(apiError.message || 'Failed to send invitation. Please try again.');
       }
     } finally {
       setIsSubmitting(false);
@@ -124,8 +123,14 @@ export function AddMemberDialog({
             Invite Team Member
           </DialogTitle>
           <DialogDescription>
-            Add a team member by their email address. They must have an existing
-            account.
+            {scope === 'workspace' ? (
+              <>Add someone who already has an account to the workspace by email.</>
+            ) : (
+              <>
+                Invite someone by email. They&apos;ll get a link to join the project and
+                can sign up if they don&apos;t have an account yet.
+              </>
+            )}
           </DialogDescription>
         </DialogHeader>
 
@@ -225,12 +230,12 @@ export function AddMemberDialog({
               {isSubmitting || isLoading ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  Adding...
+                  Sending...
                 </>
               ) : (
                 <>
-                  <UserPlus className="h-4 w-4 mr-2" />
-                  Add Member
+                  <Mail className="h-4 w-4 mr-2" />
+                  Send Invite
                 </>
               )}
             </Button>
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { Copy, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { getApiError } from '@/lib/axios';
+import type { DuplicateProjectInput } from '@/lib/api/templates';
+
+export interface DuplicateProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Name of the project being copied, used for the suggested name */
+  projectName: string;
+  onDuplicate: (data: DuplicateProjectInput) => Promise<unknown>;
+}
+
+export function DuplicateProjectDialog({
+  open,
+  onOpenChange,
+  projectName,
+  onDuplicate,
+}: DuplicateProjectDialogProps) {
+  const [name, setName] = useState(`${projectName} (copy)`);
+  const [includeTasks, setIncludeTasks] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setName(`${projectName} (copy)`);
+      setIncludeTasks(true);
+      setError(null);
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Project name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onDuplicate({ name: trimmedName, includeTasks });
+      handleOpenChange(false);
+    } catch (err) {
+      setError(getApiError(err).message || 'Failed to duplicate project. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Duplicate Project
+          </DialogTitle>
+          <DialogDescription>
+            Copies the settings, columns, labels and custom fields into a new project. Members,
+            comments and attachments are not copied.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          {/* Error message */}
+          {error && (
+            <div className="px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+              {error}
+            </div>
+          )}
+
+          {/* Name input */}
+          <div className="space-y-2">
+            <label htmlFor="duplicate-project-name" className="text-sm font-medium text-gray-700">
+              New project name
+            </label>
+            <input
+              id="duplicate-project-name"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              maxLength={100}
+              className="input-base"
+              autoFocus
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox
+              checked={includeTasks}
+              onCheckedChange={(checked) => setIncludeTasks(checked === true)}
+              disabled={isSubmitting}
+            />
+            Copy tasks and their subtasks
+          </label>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Duplicating...
+                </>
+              ) : (
+                'Duplicate'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default DuplicateProjectDialog;
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { Link2, Copy, Trash2, Loader2, Plus } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  getJoinUrl,
+  type CreateInviteLinkInput,
+  type InviteLink,
+  type InviteLinkRole,
+} from '@/lib/api/invitations';
+
+const ROLE_OPTIONS: { value: InviteLinkRole; label: string }[] = [
+  { value: 'MEMBER', label: 'Member' },
+  { value: 'VIEWER', label: 'Viewer' },
+];
+
+// Empty string = unlimited
+const MAX_USES_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'No limit' },
+  { value: '1', label: '1 use' },
+  { value: '5', label: '5 uses' },
+  { value: '10', label: '10 uses' },
+  { value: '25', label: '25 uses' },
+  { value: '100', label: '100 uses' },
+];
+
+// Days until the link expires; empty string = never
+const EXPIRY_OPTIONS: { value: string; label: string }[] = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '', label: 'Never' },
+];
+
+export interface InviteLinksProps {
+  links: InviteLink[];
+  onCreateLink: (data: CreateInviteLinkInput) => Promise<unknown>;
+  onRevokeLink: (linkId: string) => Promise<unknown>;
+  isCreating?: boolean;
+}
+
+/**
+ * Create, copy and revoke a project's shareable join links.
+ */
+export function InviteLinks({
+  links,
+  onCreateLink,
+  onRevokeLink,
+  isCreating = false,
+}: InviteLinksProps) {
+  const [role, setRole] = useState<InviteLinkRole>('MEMBER');
+  const [maxUses, setMaxUses] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [revokingLink, setRevokingLink] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    const expiresAt = expiresInDays
+      ? new Date(Date.now() + parseInt(expiresInDays, 10) * 24 * 60 * 60 * 1000).toISOString()
+      : null;
+
+    await onCreateLink({
+      role,
+      maxUses: maxUses ? parseInt(maxUses, 10) : null,
+      expiresAt,
+    });
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getJoinUrl(token));
+      toast.success('Link copied', { description: 'Anyone with this link can join the project' });
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    setRevokingLink(linkId);
+    try {
+      await onRevokeLink(linkId);
+    } finally {
+      setRevokingLink(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Create form */}
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <label htmlFor="invite-link-role" className="text-xs font-medium text-gray-600">
+            Role
+          </label>
+          <select
+            id="invite-link-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as InviteLinkRole)}
+            className="input-base"
+            disabled={isCreating}
+          >
+            {ROLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="invite-link-max-uses" className="text-xs font-medium text-gray-600">
+            Max uses
+          </label>
+          <select
+            id="invite-link-max-uses"
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            className="input-base"
+            disabled={isCreating}
+          >
+            {MAX_USES_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="invite-link-expiry" className="text-xs font-medium text-gray-600">
+            Expires after
+          </label>
+          <select
+            id="invite-link-expiry"
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            className="input-base"
+            disabled={isCreating}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={isCreating}
+          className="btn-secondary flex items-center gap-2"
+        >
+          {isCreating ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+          Create Link
+        </button>
+      </div>
+
+      {/* Links */}
+      {links.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          <Link2 className="h-8 w-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No join links yet</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {links.map((link) => {
+            const isExpired = !!link.expiresAt && new Date(link.expiresAt) < new Date();
+            const isUsedUp = link.maxUses !== null && link.useCount >= link.maxUses;
+            const isBeingRevoked = revokingLink === link.id;
+
+            return (
+              <div
+                key={link.id}
+                className={cn(
+                  'flex items-center justify-between gap-3 py-3 px-1',
+                  'transition-opacity',
+                  isBeingRevoked && 'opacity-50 pointer-events-none'
+                )}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">
+                      Joins as {link.role === 'VIEWER' ? 'Viewer' : 'Member'}
+                    </span>
+                    {(isExpired || isUsedUp) && (
+                      <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-error-light text-error-dark">
+                        {isExpired ? 'Expired' : 'Used up'}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-500 truncate block">
+                    {link.maxUses !== null
+                      ? `${link.useCount} / ${link.maxUses} uses`
+                      : `${link.useCount} use${link.useCount === 1 ? '' : 's'}`}{' '}
+                    &middot;{' '}
+                    {link.expiresAt
+                      ? `${isExpired ? 'expired' : 'expires'} ${formatDistanceToNow(
+                          new Date(link.expiresAt),
+                          { addSuffix: true }
+                        )}`
+                      : 'never expires'}{' '}
+                    &middot; created by {link.createdBy.name}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(link.token)}
+                    disabled={isExpired || isUsedUp}
+                    className={cn(
+                      'p-1.5 rounded-md transition-colors',
+                      'text-gray-400 hover:text-gray-600 hover:bg-gray-100',
+                      'disabled:opacity-50 disabled:pointer-events-none'
+                    )}
+                    title="Copy link"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(link.id)}
+                    className={cn(
+                      'p-1.5 rounded-md transition-colors',
+                      'text-gray-400 hover:text-red-600 hover:bg-red-50'
+                    )}
+                    title="Revoke link"
+                  >
+                    {isBeingRevoked ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InviteLinks;
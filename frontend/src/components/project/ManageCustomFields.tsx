@@ -0,0 +1,351 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Pencil, Trash2, X, Check, Loader2, SlidersHorizontal } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CUSTOM_FIELD_TYPES, isSelectField } from '@/lib/customFields';
+import type {
+  CustomField,
+  CustomFieldType,
+  CreateCustomFieldInput,
+  UpdateCustomFieldInput,
+} from '@/lib/api/customFields';
+
+export interface ManageCustomFieldsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fields: CustomField[];
+  onCreateField: (data: CreateCustomFieldInput) => Promise<CustomField>;
+  onUpdateField: (fieldId: string, data: UpdateCustomFieldInput) => Promise<CustomField>;
+  onDeleteField: (fieldId: string) => Promise<void>;
+  isLoading?: boolean;
+}
+
+interface EditingField {
+  id: string | null; // null for new field
+  name: string;
+  type: CustomFieldType;
+  options: string; // Comma-separated while editing
+}
+
+// Split the comma-separated options input, dropping blanks and duplicates
+function parseOptions(input: string): string[] {
+  return Array.from(new Set(input.split(',').map((o) => o.trim()).filter(Boolean)));
+}
+
+export function ManageCustomFields({
+  open,
+  onOpenChange,
+  fields,
+  onCreateField,
+  onUpdateField,
+  onDeleteField,
+  isLoading = false,
+}: ManageCustomFieldsProps) {
+  const [editingField, setEditingField] = useState<EditingField | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEditing = (field?: CustomField) => {
+    setError(null);
+    if (field) {
+      setEditingField({
+        id: field.id,
+        name: field.name,
+        type: field.type,
+        options: field.options.join(', '),
+      });
+    } else {
+      setEditingField({ id: null, name: '', type: 'TEXT', options: '' });
+    }
+  };
+
+  const cancelEditing = () => {
+    setEditingField(null);
+    setError(null);
+  };
+
+  const saveField = async () => {
+    if (!editingField || !editingField.name.trim()) {
+      setError('Field name is required');
+      return;
+    }
+
+    const options = parseOptions(editingField.options);
+    const needsOptions = isSelectField(editingField.type);
+    if (needsOptions && options.length === 0) {
+      setError('Add at least one option, separated by commas');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      if (editingField.id === null) {
+        await onCreateField({
+          name: editingField.name.trim(),
+          type: editingField.type,
+          ...(needsOptions && { options }),
+        });
+      } else {
+        await onUpdateField(editingField.id, {
+          name: editingField.name.trim(),
+          ...(needsOptions && { options }),
+        });
+      }
+      setEditingField(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save field');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CustomField) => {
+    if (!confirm(`Delete "${field.name}"? Its value will be removed from every task.`)) {
+      return;
+    }
+
+    setIsDeleting(field.id);
+    setError(null);
+
+    try {
+      await onDeleteField(field.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete field');
+    } finally {
+      setIsDeleting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Custom Fields
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="mt-4">
+          {/* Error message */}
+          {error && (
+            <div className="mb-4 px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+              {error}
+            </div>
+          )}
+
+          {/* Fields list */}
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : fields.length === 0 && !editingField ? (
+              <div className="text-center py-8 text-gray-500">
+                <SlidersHorizontal className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No custom fields yet</p>
+                <p className="text-xs text-gray-400">
+                  Add fields like story points, customer or sprint
+                </p>
+              </div>
+            ) : (
+              <>
+                {fields.map((field) => {
+                  const isEditing = editingField?.id === field.id;
+                  const isBeingDeleted = isDeleting === field.id;
+
+                  if (isEditing) {
+                    return (
+                      <FieldEditRow
+                        key={field.id}
+                        value={editingField}
+                        onChange={setEditingField}
+                        onSave={saveField}
+                        onCancel={cancelEditing}
+                        isSaving={isSaving}
+                      />
+                    );
+                  }
+
+                  return (
+                    <div
+                      key={field.id}
+                      className={cn(
+                        'flex items-center justify-between p-2 rounded-lg',
+                        'hover:bg-gray-50 transition-colors group',
+                        isBeingDeleted && 'opacity-50 pointer-events-none'
+                      )}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-800 truncate">{field.name}</p>
+                        <p className="text-xs text-gray-400 truncate">
+                          {CUSTOM_FIELD_TYPES.find((t) => t.value === field.type)?.label}
+                          {field.options.length > 0 && ` · ${field.options.join(', ')}`}
+                        </p>
+                      </div>
+
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          type="button"
+                          onClick={() => startEditing(field)}
+                          className="p-1 hover:bg-gray-200 rounded transition-colors"
+                          title="Edit field"
+                        >
+                          <Pencil className="h-4 w-4 text-gray-500" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(field)}
+                          className="p-1 hover:bg-red-100 rounded transition-colors"
+                          title="Delete field"
+                        >
+                          {isBeingDeleted ? (
+                            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                          ) : (
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          )}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                {/* New field row */}
+                {editingField?.id === null && (
+                  <FieldEditRow
+                    value={editingField}
+                    onChange={setEditingField}
+                    onSave={saveField}
+                    onCancel={cancelEditing}
+                    isSaving={isSaving}
+                  />
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Add field button */}
+          {!editingField && (
+            <button
+              type="button"
+              onClick={() => startEditing()}
+              className={cn(
+                'w-full mt-4 flex items-center justify-center gap-2 px-4 py-2',
+                'border border-dashed border-gray-300 rounded-lg',
+                'text-sm text-gray-600 hover:bg-gray-50 hover:border-gray-400',
+                'transition-colors'
+              )}
+            >
+              <Plus className="h-4 w-4" />
+              Add new field
+            </button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Field edit row component
+interface FieldEditRowProps {
+  value: EditingField;
+  onChange: (value: EditingField) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  isSaving: boolean;
+}
+
+function FieldEditRow({ value, onChange, onSave, onCancel, isSaving }: FieldEditRowProps) {
+  const isNew = value.id === null;
+
+  return (
+    <div className="p-2 bg-gray-50 rounded-lg space-y-2">
+      <input
+        type="text"
+        value={value.name}
+        onChange={(e) => onChange({ ...value, name: e.target.value })}
+        placeholder="Field name"
+        className="w-full px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-md
+                   focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500"
+        autoFocus
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onSave();
+          if (e.key === 'Escape') onCancel();
+        }}
+      />
+
+      {/* The type is fixed once the field exists */}
+      <select
+        value={value.type}
+        onChange={(e) => onChange({ ...value, type: e.target.value as CustomFieldType })}
+        disabled={!isNew}
+        className="w-full px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-md
+                   focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500
+                   disabled:bg-gray-100 disabled:text-gray-500"
+        aria-label="Field type"
+      >
+        {CUSTOM_FIELD_TYPES.map((type) => (
+          <option key={type.value} value={type.value}>
+            {type.label}
+          </option>
+        ))}
+      </select>
+
+      {isSelectField(value.type) && (
+        <input
+          type="text"
+          value={value.options}
+          onChange={(e) => onChange({ ...value, options: e.target.value })}
+          placeholder="Options, separated by commas"
+          className="w-full px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-md
+                     focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') onSave();
+            if (e.key === 'Escape') onCancel();
+          }}
+        />
+      )}
+
+      <div className="flex justify-end gap-1">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="p-1.5 hover:bg-gray-200 rounded transition-colors"
+          title="Cancel"
+        >
+          <X className="h-4 w-4 text-gray-500" />
+        </button>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={isSaving || !value.name.trim()}
+          className={cn(
+            'p-1.5 rounded transition-colors',
+            'bg-primary-500 hover:bg-primary-600',
+            'disabled:opacity-50 disabled:cursor-not-allowed'
+          )}
+          title="Save"
+        >
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin text-white" />
+          ) : (
+            <Check className="h-4 w-4 text-white" />
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ManageCustomFields;
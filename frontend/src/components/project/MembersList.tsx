@@ -10,7 +10,10 @@ import {
   Trash2,
   Loader2,
   ChevronDown,
+  Mail,
+  RotateCw,
 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 import {
   DropdownMenu,
@@ -20,6 +23,8 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import type { ProjectMember } from '@/lib/api/projects';
+import type { WorkspaceMember } from '@/lib/api/workspaces';
+import type { ProjectInvitation } from '@/lib/api/invitations';
 
 type MemberRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
 
@@ -60,7 +65,9 @@ const ASSIGNABLE_ROLES: { value: 'ADMIN' | 'MEMBER' | 'VIEWER'; label: string }[
 ];
 
 export interface MembersListProps {
-  members: ProjectMember[];
+  members: (ProjectMember | WorkspaceMember)[];
+  /** Whose members these are; workspace entries also show how many projects they are in */
+  scope?: 'project' | 'workspace';
   currentUserId: string | undefined;
   canManageMembers: boolean;
   canChangeRoles: boolean;
@@ -68,10 +75,15 @@ export interface MembersListProps {
   onRemoveMember: (userId: string) => Promise<unknown>;
   isUpdating?: boolean;
   isRemoving?: boolean;
+  /** Pending email invitations, shown to members who can manage members */
+  invitations?: ProjectInvitation[];
+  onResendInvitation?: (invitationId: string) => Promise<unknown>;
+  onRevokeInvitation?: (invitationId: string) => Promise<unknown>;
 }
 
 export function MembersList({
   members,
+  scope = 'project',
   currentUserId,
   canManageMembers,
   canChangeRoles,
@@ -79,10 +91,14 @@ export function MembersList({
   onRemoveMember,
   isUpdating = false,
   isRemoving = false,
+  invitations = [],
+  onResendInvitation,
+  onRevokeInvitation,
 }: MembersListProps) {
   const [confirmingRemove, setConfirmingRemove] = useState<string | null>(null);
   const [updatingRole, setUpdatingRole] = useState<string | null>(null);
   const [removingMember, setRemovingMember] = useState<string | null>(null);
+  const [pendingInvitation, setPendingInvitation] = useState<string | null>(null);
 
   const handleRoleChange = async (userId: string, newRole: 'ADMIN' | 'MEMBER' | 'VIEWER') => {
     setUpdatingRole(userId);
@@ -103,6 +119,19 @@ export function MembersList({
     }
   };
 
+  const handleInvitationAction = async (
+    invitationId: string,
+    action: ((invitationId: string) => Promise<unknown>) | undefined
+  ) => {
+    if (!action) return;
+    setPendingInvitation(invitationId);
+    try {
+      await action(invitationId);
+    } finally {
+      setPendingInvitation(null);
+    }
+  };
+
   // Sort members: Owner first, then by name
   const sortedMembers = [...members].sort((a, b) => {
     if (a.role === 'OWNER') return -1;
@@ -120,187 +149,295 @@ export function MembersList({
   }
 
   return (
-    <div className="divide-y divide-gray-100">
-      {sortedMembers.map((member) => {
-        const roleConfig = ROLE_CONFIG[member.role];
-        const RoleIcon = roleConfig.icon;
-        const isCurrentUser = member.userId === currentUserId;
-        const isOwner = member.role === 'OWNER';
-        const isBeingUpdated = updatingRole === member.userId || isUpdating;
-        const isBeingRemoved = removingMember === member.userId || isRemoving;
-        const showConfirmRemove = confirmingRemove === member.userId;
+    <div>
+      <div className="divide-y divide-gray-100">
+        {sortedMembers.map((member) => {
+          const roleConfig = ROLE_CONFIG[member.role];
+          const RoleIcon = roleConfig.icon;
+          const isCurrentUser = member.userId === currentUserId;
+          const isOwner = member.role === 'OWNER';
+          const isBeingUpdated = updatingRole === member.userId || isUpdating;
+          const isBeingRemoved = removingMember === member.userId || isRemoving;
+          const showConfirmRemove = confirmingRemove === member.userId;
 
-        // Can this member be managed?
-        const canEditThisMember = canManageMembers && !isOwner;
-        const canRemoveThisMember = canEditThisMember || (isCurrentUser && !isOwner);
+          // Can this member be managed?
+          const canEditThisMember = canManageMembers && !isOwner;
+          const canRemoveThisMember = canEditThisMember || (isCurrentUser && !isOwner);
 
-        return (
-          <div
-            key={member.id}
-            className={cn(
-              'flex items-center justify-between py-3 px-1',
-              'transition-opacity',
-              isBeingRemoved && 'opacity-50 pointer-events-none'
-            )}
-          >
-            {/* Member info */}
-            <div className="flex items-center gap-3 min-w-0">
-              {/* Avatar */}
-              <div className="relative flex-shrink-0">
-                {member.user.avatar ? (
-                  <img
-                    src={member.user.avatar}
-                    alt={member.user.name}
-                    className="w-10 h-10 rounded-full object-cover"
-                  />
-                ) : (
-                  <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center">
-                    <span className="text-sm font-medium text-gray-600">
-                      {member.user.name.charAt(0).toUpperCase()}
+          return (
+            <div
+              key={member.id}
+              className={cn(
+                'flex items-center justify-between py-3 px-1',
+                'transition-opacity',
+                isBeingRemoved && 'opacity-50 pointer-events-none'
+              )}
+            >
+              {/* Member info */}
+              <div className="flex items-center gap-3 min-w-0">
+                {/* Avatar */}
+                <div className="relative flex-shrink-0">
+                  {member.user.avatar ? (
+                    <img
+                      src={member.user.avatar}
+                      alt={member.user.name}
+                      className="w-10 h-10 rounded-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center">
+                      <span className="text-sm font-medium text-gray-600">
+                        {member.user.name.charAt(0).toUpperCase()}
+                      </span>
+                    </div>
+                  )}
+                  {isCurrentUser && (
+                    <div
+                      className="absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 bg-green-500 border-2 border-white rounded-full"
+                      title="You"
+                    />
+                  )}
+                </div>
+
+                {/* Name & email */}
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">
+                      {member.user.name}
                     </span>
+                    {isCurrentUser && (
+                      <span className="text-xs text-gray-400">(you)</span>
+                    )}
                   </div>
-                )}
-                {isCurrentUser && (
-                  <div
-                    className="absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 bg-green-500 border-2 border-white rounded-full"
-                    title="You"
-                  />
-                )}
-              </div>
-
-              {/* Name & email */}
-              <div className="min-w-0">
-                <div className="flex items-center gap-2">
-                  <span className="text-sm font-medium text-gray-900 truncate">
-                    {member.user.name}
+                  <span className="text-xs text-gray-500 truncate block">
+                    {member.user.email}
+                    {'inviteLinkId' in member && member.inviteLinkId && canManageMembers && (
+                      <span className="text-gray-400"> &middot; joined via link</span>
+                    )}
+                    {'projectCount' in member && (
+                      <span className="text-gray-400">
+                        {' '}
+                        &middot; {member.projectCount} project
+                        {member.projectCount !== 1 ? 's' : ''}
+                      </span>
+                    )}
                   </span>
-                  {isCurrentUser && (
-                    <span className="text-xs text-gray-400">(you)</span>
-                  )}
                 </div>
-                <span className="text-xs text-gray-500 truncate block">
-                  {member.user.email}
-                </span>
               </div>
-            </div>
 
-            {/* Role & actions */}
-            <div className="flex items-center gap-2 flex-shrink-0">
-              {/* Role badge / selector */}
-              {canChangeRoles && !isOwner ? (
-                <DropdownMenu>
-                  <DropdownMenuTrigger
-                    disabled={isBeingUpdated}
+              {/* Role & actions */}
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {/* Role badge / selector */}
+                {canChangeRoles && !isOwner ? (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      disabled={isBeingUpdated}
+                      className={cn(
+                        'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium',
+                        'transition-colors cursor-pointer',
+                        'hover:ring-2 hover:ring-gray-200',
+                        'focus:outline-none focus:ring-2 focus:ring-primary-500/20',
+                        roleConfig.bgColor,
+                        roleConfig.color
+                      )}
+                    >
+                      {isBeingUpdated ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <RoleIcon className="h-3 w-3" />
+                      )}
+                      {roleConfig.label}
+                      <ChevronDown className="h-3 w-3 opacity-60" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-32">
+                      {ASSIGNABLE_ROLES.map((role) => {
+                        const config = ROLE_CONFIG[role.value];
+                        const Icon = config.icon;
+                        const isSelected = member.role === role.value;
+
+                        return (
+                          <DropdownMenuItem
+                            key={role.value}
+                            onClick={() => handleRoleChange(member.userId, role.value)}
+                            disabled={isSelected}
+                            className={cn(
+                              'flex items-center gap-2',
+                              isSelected && 'bg-gray-50'
+                            )}
+                          >
+                            <Icon className={cn('h-3.5 w-3.5', config.color)} />
+                            <span>{role.label}</span>
+                          </DropdownMenuItem>
+                        );
+                      })}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                ) : (
+                  <span
                     className={cn(
                       'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium',
-                      'transition-colors cursor-pointer',
-                      'hover:ring-2 hover:ring-gray-200',
-                      'focus:outline-none focus:ring-2 focus:ring-primary-500/20',
                       roleConfig.bgColor,
                       roleConfig.color
                     )}
                   >
-                    {isBeingUpdated ? (
-                      <Loader2 className="h-3 w-3 animate-spin" />
-                    ) : (
-                      <RoleIcon className="h-3 w-3" />
-                    )}
+                    <RoleIcon className="h-3 w-3" />
                     {roleConfig.label}
-                    <ChevronDown className="h-3 w-3 opacity-60" />
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-32">
-                    {ASSIGNABLE_ROLES.map((role) => {
-                      const config = ROLE_CONFIG[role.value];
-                      const Icon = config.icon;
-                      const isSelected = member.role === role.value;
+                  </span>
+                )}
 
-                      return (
+                {/* Actions menu */}
+                {canRemoveThisMember && (
+                  <DropdownMenu
+                    open={showConfirmRemove ? true : undefined}
+                    onOpenChange={(open) => {
+                      if (!open) setConfirmingRemove(null);
+                    }}
+                  >
+                    <DropdownMenuTrigger
+                      className={cn(
+                        'p-1.5 rounded-md transition-colors',
+                        'text-gray-400 hover:text-gray-600 hover:bg-gray-100',
+                        'focus:outline-none focus:ring-2 focus:ring-primary-500/20'
+                      )}
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-48">
+                      {showConfirmRemove ? (
+                        <>
+                          <div className="px-2 py-1.5 text-xs text-gray-500">
+                            {isCurrentUser
+                              ? `Leave this ${scope}?`
+                              : `Remove ${member.user.name}?`}
+                          </div>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() => handleRemove(member.userId)}
+                            className="text-red-600 focus:text-red-600 focus:bg-red-50"
+                          >
+                            {isBeingRemoved ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Trash2 className="h-4 w-4 mr-2" />
+                            )}
+                            {isCurrentUser ? 'Yes, leave' : 'Yes, remove'}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setConfirmingRemove(null)}>
+                            Cancel
+                          </DropdownMenuItem>
+                        </>
+                      ) : (
                         <DropdownMenuItem
-                          key={role.value}
-                          onClick={() => handleRoleChange(member.userId, role.value)}
-                          disabled={isSelected}
-                          className={cn(
-                            'flex items-center gap-2',
-                            isSelected && 'bg-gray-50'
-                          )}
+                          onClick={() => setConfirmingRemove(member.userId)}
+                          className="text-red-600 focus:text-red-600 focus:bg-red-50"
                         >
-                          <Icon className={cn('h-3.5 w-3.5', config.color)} />
-                          <span>{role.label}</span>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          {isCurrentUser ? `Leave ${scope}` : 'Remove member'}
                         </DropdownMenuItem>
-                      );
-                    })}
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              ) : (
-                <span
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Pending invitations */}
+      {canManageMembers && invitations.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <h3 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+            Pending invitations ({invitations.length})
+          </h3>
+          <div className="divide-y divide-gray-100">
+            {invitations.map((invitation) => {
+              const roleConfig = ROLE_CONFIG[invitation.role];
+              const RoleIcon = roleConfig.icon;
+              const isBusy = pendingInvitation === invitation.id;
+              const isExpired = new Date(invitation.expiresAt) < new Date();
+
+              return (
+                <div
+                  key={invitation.id}
                   className={cn(
-                    'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium',
-                    roleConfig.bgColor,
-                    roleConfig.color
+                    'flex items-center justify-between py-3 px-1',
+                    'transition-opacity',
+                    isBusy && 'opacity-50 pointer-events-none'
                   )}
                 >
-                  <RoleIcon className="h-3 w-3" />
-                  {roleConfig.label}
-                </span>
-              )}
+                  {/* Invitee info */}
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-10 h-10 rounded-full bg-gray-100 border border-dashed border-gray-300 flex items-center justify-center flex-shrink-0">
+                      <Mail className="h-4 w-4 text-gray-400" />
+                    </div>
+                    <div className="min-w-0">
+                      <span className="text-sm font-medium text-gray-900 truncate block">
+                        {invitation.email}
+                      </span>
+                      <span className="text-xs text-gray-500 truncate block">
+                        Invited by {invitation.invitedBy.name} &middot;{' '}
+                        {isExpired ? (
+                          <span className="text-error">Expired</span>
+                        ) : (
+                          `expires ${formatDistanceToNow(new Date(invitation.expiresAt), {
+                            addSuffix: true,
+                          })}`
+                        )}
+                      </span>
+                    </div>
+                  </div>
 
-              {/* Actions menu */}
-              {canRemoveThisMember && (
-                <DropdownMenu
-                  open={showConfirmRemove ? true : undefined}
-                  onOpenChange={(open) => {
-                    if (!open) setConfirmingRemove(null);
-                  }}
-                >
-                  <DropdownMenuTrigger
-                    className={cn(
-                      'p-1.5 rounded-md transition-colors',
-                      'text-gray-400 hover:text-gray-600 hover:bg-gray-100',
-                      'focus:outline-none focus:ring-2 focus:ring-primary-500/20'
-                    )}
-                  >
-                    <MoreHorizontal className="h-4 w-4" />
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-48">
-                    {showConfirmRemove ? (
-                      <>
-                        <div className="px-2 py-1.5 text-xs text-gray-500">
-                          {isCurrentUser
-                            ? 'Leave this project?'
-                            : `Remove ${member.user.name}?`}
-                        </div>
+                  {/* Role & actions */}
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span
+                      className={cn(
+                        'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium',
+                        roleConfig.bgColor,
+                        roleConfig.color
+                      )}
+                    >
+                      <RoleIcon className="h-3 w-3" />
+                      {roleConfig.label}
+                    </span>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger
+                        className={cn(
+                          'p-1.5 rounded-md transition-colors',
+                          'text-gray-400 hover:text-gray-600 hover:bg-gray-100',
+                          'focus:outline-none focus:ring-2 focus:ring-primary-500/20'
+                        )}
+                      >
+                        {isBusy ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <MoreHorizontal className="h-4 w-4" />
+                        )}
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-48">
+                        <DropdownMenuItem
+                          onClick={() => handleInvitationAction(invitation.id, onResendInvitation)}
+                        >
+                          <RotateCw className="h-4 w-4 mr-2" />
+                          Resend invitation
+                        </DropdownMenuItem>
                         <DropdownMenuSeparator />
                         <DropdownMenuItem
-                          onClick={() => handleRemove(member.userId)}
+                          onClick={() => handleInvitationAction(invitation.id, onRevokeInvitation)}
                           className="text-red-600 focus:text-red-600 focus:bg-red-50"
                         >
-                          {isBeingRemoved ? (
-                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                          ) : (
-                            <Trash2 className="h-4 w-4 mr-2" />
-                          )}
-                          {isCurrentUser ? 'Yes, leave' : 'Yes, remove'}
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Revoke invitation
                         </DropdownMenuItem>
-                        <DropdownMenuItem onClick={() => setConfirmingRemove(null)}>
-                          Cancel
-                        </DropdownMenuItem>
-                      </>
-                    ) : (
-                      <DropdownMenuItem
-                        onClick={() => setConfirmingRemove(member.userId)}
-                        className="text-red-600 focus:text-red-600 focus:bg-red-50"
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        {isCurrentUser ? 'Leave project' : 'Remove member'}
-                      </DropdownMenuItem>
-                    )}
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              )}
-            </div>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+              );
+            })}
           </div>
-        );
-      })}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,7 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { Loader2 } from 'lucide-react';
+import { Loader2, FileText, LayoutTemplate } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useProjectTemplates } from '@/hooks';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 import {
   Dialog,
   DialogContent,
@@ -11,10 +14,17 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 
+export interface NewProjectData {
+  name: string;
+  description: string;
+  /** Template to build the project from (blank project when omitted) */
+  templateId?: string;
+}
+
 interface NewProjectModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit?: (data: { name: string; description: string }) => Promise<void>;
+  onSubmit?: (data: NewProjectData) => Promise<void>;
 }
 
 export function NewProjectModal({
@@ -24,17 +34,30 @@ export function NewProjectModal({
 }: NewProjectModalProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [templateId, setTemplateId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Templates available in the workspace the project is created in
+  const { currentWorkspaceId } = useWorkspace();
+  const { templates, isLoading: templatesLoading } = useProjectTemplates({
+    workspaceId: currentWorkspaceId,
+    enabled: open,
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) return;
 
     setIsSubmitting(true);
     try {
-      await onSubmit?.({ name: name.trim(), description: description.trim() });
+      await onSubmit?.({
+        name: name.trim(),
+        description: description.trim(),
+        ...(templateId && { templateId }),
+      });
       setName('');
       setDescription('');
+      setTemplateId(null);
       onOpenChange(false);
     } finally {
       setIsSubmitting(false);
@@ -46,6 +69,7 @@ export function NewProjectModal({
       if (!open) {
         setName('');
         setDescription('');
+        setTemplateId(null);
       }
       onOpenChange(open);
     }
@@ -92,6 +116,67 @@ export function NewProjectModal({
             />
           </div>
 
+          <div className="space-y-2">
+            <span className="text-sm font-medium text-gray-700">Start from</span>
+            {templatesLoading ? (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="size-5 text-gray-400 animate-spin" />
+              </div>
+            ) : (
+              <div
+                className="grid grid-cols-2 gap-2 max-h-56 overflow-y-auto"
+                role="radiogroup"
+                aria-label="Project template"
+              >
+                {[
+                  {
+                    id: null,
+                    name: 'Blank project',
+                    detail: 'To Do, In Progress, Review, Done',
+                    builtIn: true,
+                  },
+                  ...templates.map((template) => ({
+                    id: template.id,
+                    name: template.name,
+                    detail: template.description || template.columns.join(', '),
+                    builtIn: template.builtIn,
+                  })),
+                ].map((option) => {
+                  const isSelected = templateId === option.id;
+                  const Icon = option.id === null ? FileText : LayoutTemplate;
+                  return (
+                    <button
+                      key={option.id ?? 'blank'}
+                      type="button"
+                      role="radio"
+                      aria-checked={isSelected}
+                      onClick={() => setTemplateId(option.id)}
+                      className={cn(
+                        'flex items-start gap-2 rounded-lg border p-2.5 text-left transition-colors',
+                        isSelected
+                          ? 'border-gray-800 bg-gray-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      )}
+                    >
+                      <Icon className="size-4 mt-0.5 shrink-0 text-gray-500" />
+                      <span className="min-w-0">
+                        <span className="block truncate text-sm font-medium text-gray-800">
+                          {option.name}
+                          {!option.builtIn && (
+                            <span className="ml-1 text-xs font-normal text-gray-400">Saved</span>
+                          )}
+                        </span>
+                        <span className="block text-xs text-gray-500 line-clamp-2">
+                          {option.detail}
+                        </span>
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
           <DialogFooter>
             <button
               type="button"
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { LayoutTemplate, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { getApiError } from '@/lib/axios';
+import type { SaveAsTemplateInput } from '@/lib/api/templates';
+
+export interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (data: SaveAsTemplateInput) => Promise<unknown>;
+}
+
+export function SaveTemplateDialog({ open, onOpenChange, onSave }: SaveTemplateDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [includeTasks, setIncludeTasks] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setName('');
+      setDescription('');
+      setIncludeTasks(false);
+      setError(null);
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Template name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSave({
+        name: trimmedName,
+        description: description.trim() || undefined,
+        includeTasks,
+      });
+      handleOpenChange(false);
+    } catch (err) {
+      setError(getApiError(err).message || 'Failed to save template. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5" />
+            Save as Template
+          </DialogTitle>
+          <DialogDescription>
+            Everyone in the workspace can start new projects from this project&apos;s settings,
+            columns, labels and custom fields.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          {/* Error message */}
+          {error && (
+            <div className="px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+              {error}
+            </div>
+          )}
+
+          {/* Name input */}
+          <div className="space-y-2">
+            <label htmlFor="template-name" className="text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              id="template-name"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="e.g. Client onboarding"
+              maxLength={100}
+              className="input-base"
+              autoFocus
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Description input */}
+          <div className="space-y-2">
+            <label htmlFor="template-description" className="text-sm font-medium text-gray-700">
+              Description <span className="text-gray-400 font-normal">(optional)</span>
+            </label>
+            <textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              maxLength={500}
+              className="input-base resize-none"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <Checkbox
+              checked={includeTasks}
+              onCheckedChange={(checked) => setIncludeTasks(checked === true)}
+              disabled={isSubmitting}
+            />
+            Include tasks as samples (due dates are kept relative to today)
+          </label>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : (
+                'Save Template'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SaveTemplateDialog;
@@ -1,4 +1,8 @@
 export { ProjectCard } from './ProjectCard';
-export { NewProjectModal } from './NewProjectModal';
+export { NewProjectModal, type NewProjectData } from './NewProjectModal';
 export { AddMemberDialog, type AddMemberDialogProps } from './AddMemberDialog';
 export { MembersList, type MembersListProps } from './MembersList';
+export { InviteLinks, type InviteLinksProps } from './InviteLinks';
+export { ManageCustomFields, type ManageCustomFieldsProps } from './ManageCustomFields';
+export { DuplicateProjectDialog, type DuplicateProjectDialogProps } from './DuplicateProjectDialog';
+export { SaveTemplateDialog, type SaveTemplateDialogProps } from './SaveTemplateDialog';
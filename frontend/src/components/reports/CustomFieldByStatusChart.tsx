@@ -0,0 +1,124 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCustomFieldByStatus } from '@/hooks/useReports';
+import type { CustomField } from '@/lib/api/customFields';
+
+interface CustomFieldByStatusChartProps {
+  projectId: string | undefined;
+  fields: CustomField[];
+}
+
+interface ChartDataItem {
+  status: string;
+  value: number;
+}
+
+export function CustomFieldByStatusChart({ projectId, fields }: CustomFieldByStatusChartProps) {
+  const [selectedFieldId, setSelectedFieldId] = useState<string | undefined>(undefined);
+
+  // Default to the first number field, since sums are the most common use
+  const field =
+    fields.find((f) => f.id === selectedFieldId) ??
+    fields.find((f) => f.type === 'NUMBER') ??
+    fields[0];
+
+  const { data, isLoading } = useCustomFieldByStatus(projectId, field?.id);
+
+  const isNumber = field?.type === 'NUMBER';
+
+  const chartData = useMemo((): ChartDataItem[] => {
+    if (!data) return [];
+    return data.map((item) => ({
+      status: item.status,
+      value: isNumber ? (item.sum ?? 0) : item.count,
+    }));
+  }, [data, isNumber]);
+
+  if (!field) return null;
+
+  const description = isNumber
+    ? `Sum of ${field.name} by column`
+    : `Tasks with ${field.name} set, by column`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Custom Fields by Status</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        <Select value={field.id} onValueChange={setSelectedFieldId}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Select field" />
+          </SelectTrigger>
+          <SelectContent>
+            {fields.map((f) => (
+              <SelectItem key={f.id} value={f.id}>
+                {f.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : chartData.length === 0 ? (
+          <div className="flex h-[300px] items-center justify-center text-muted-foreground">
+            No tasks to display
+          </div>
+        ) : (
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="status"
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                  className="text-muted-foreground"
+                />
+                <YAxis
+                  tick={{ fontSize: 12 }}
+                  tickLine={false}
+                  axisLine={false}
+                  className="text-muted-foreground"
+                  allowDecimals={isNumber}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                  formatter={(value) => [isNumber ? value : `${value} tasks`, field.name]}
+                />
+                <Bar dataKey="value" name={field.name} fill="#3b82f6" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,3 +3,4 @@ export * from './TasksByStatusChart';
 export * from './TasksByAssigneeChart';
 export * from './TasksByPriorityChart';
 export * from './CompletionMetricsCard';
+export * from './CustomFieldByStatusChart';
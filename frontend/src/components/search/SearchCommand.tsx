@@ -9,12 +9,23 @@ import {
   FileText,
   Folder,
   Loader2,
+  AlignLeft,
+  MessageSquare,
+  Tag,
+  Paperclip,
+  type LucideIcon,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useSearch } from '@/hooks/useSearch';
 import { PriorityBadge } from '@/components/task/PrioritySelector';
 import { LabelBadge } from '@/components/labels';
-import type { TaskSearchResult, ProjectSearchResult } from '@/lib/api/search';
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+  type TaskSearchResult,
+  type ProjectSearchResult,
+  type SearchMatchType,
+} from '@/lib/api/search';
 
 export interface SearchCommandProps {
   className?: string;
@@ -219,6 +230,37 @@ export function SearchCommand({ className, onTaskClick }: SearchCommandProps) {
   );
 }
 
+// Renders a search snippet with its matched terms highlighted
+function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (index === 0) return <span key={index}>{part}</span>;
+        const [highlighted, rest = ''] = part.split(HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-100 text-inherit rounded-sm">{highlighted}</mark>
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+// How each kind of non-title match is labelled in a task result
+const matchTypeConfig: Record<
+  Exclude<SearchMatchType, 'title'>,
+  { label: string; icon: LucideIcon }
+> = {
+  description: { label: 'Description', icon: AlignLeft },
+  comment: { label: 'Comment', icon: MessageSquare },
+  label: { label: 'Label', icon: Tag },
+  attachment: { label: 'Attachment', icon: Paperclip },
+};
+
 // Task result item component
 interface TaskResultItemProps {
   task: TaskSearchResult;
@@ -226,6 +268,10 @@ interface TaskResultItemProps {
 }
 
 function TaskResultItem({ task, onClick }: TaskResultItemProps) {
+  // Show where the task matched when it was not (only) its title
+  const match = task.matches.find((m) => m.type !== 'title');
+  const matchConfig = match ? matchTypeConfig[match.type as keyof typeof matchTypeConfig] : null;
+
   return (
     <button
       onClick={onClick}
@@ -239,7 +285,7 @@ function TaskResultItem({ task, onClick }: TaskResultItemProps) {
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium text-gray-700 truncate">
-            {task.title}
+            <HighlightedText text={task.titleHighlight} />
           </span>
           {task.priority && (
             <PriorityBadge priority={task.priority as 'HIGH' | 'MEDIUM' | 'LOW'} size="sm" />
@@ -257,6 +303,15 @@ function TaskResultItem({ task, onClick }: TaskResultItemProps) {
             </div>
           )}
         </div>
+        {match && matchConfig && (
+          <div className="flex items-start gap-1.5 mt-1 text-xs text-gray-500">
+            <matchConfig.icon className="h-3 w-3 mt-0.5 flex-shrink-0 text-gray-400" />
+            <span className="line-clamp-2">
+              <span className="text-gray-400">{matchConfig.label} · </span>
+              <HighlightedText text={match.snippet} />
+            </span>
+          </div>
+        )}
       </div>
     </button>
   );
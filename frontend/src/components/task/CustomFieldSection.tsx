@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { formatCustomFieldValue } from '@/lib/customFields';
+import type { CustomField, CustomFieldValue } from '@/lib/api/customFields';
+
+// Select item value for "no value" (Radix Select does not allow an empty string)
+const NONE_VALUE = '__none__';
+
+export interface CustomFieldSectionProps {
+  projectId: string;
+  taskId: string;
+  values?: Record<string, CustomFieldValue>;
+  /** When true, values are shown but cannot be changed (for VIEWER role) */
+  readOnly?: boolean;
+  className?: string;
+}
+
+/**
+ * Editors for the project's custom fields on a task. Hidden when the
+ * project has no custom fields.
+ */
+export function CustomFieldSection({
+  projectId,
+  taskId,
+  values = {},
+  readOnly = false,
+  className,
+}: CustomFieldSectionProps) {
+  const { fields, setTaskValue } = useCustomFields({ projectId });
+  const { members: projectMembers } = useProjectMembers({ projectId });
+  const members = projectMembers.map((m) => ({ id: m.user.id, name: m.user.name }));
+
+  if (fields.length === 0) return null;
+
+  const handleChange = (fieldId: string, value: CustomFieldValue | null) => {
+    setTaskValue({ taskId, fieldId, value });
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <label className="text-sm font-medium text-gray-700">Fields</label>
+      <div className="grid grid-cols-[minmax(0,140px)_1fr] items-center gap-x-3 gap-y-2">
+        {fields.map((field) => (
+          <div key={field.id} className="contents">
+            <span className="text-sm text-gray-500 truncate" title={field.name}>
+              {field.name}
+            </span>
+            {readOnly ? (
+              <span className="text-sm text-gray-700">
+                {formatCustomFieldValue(field, values[field.id], members) ?? (
+                  <span className="text-gray-400">—</span>
+                )}
+              </span>
+            ) : (
+              <CustomFieldEditor
+                field={field}
+                value={values[field.id]}
+                members={members}
+                onChange={(value) => handleChange(field.id, value)}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface CustomFieldEditorProps {
+  field: CustomField;
+  value: CustomFieldValue | undefined;
+  members: { id: string; name: string }[];
+  onChange: (value: CustomFieldValue | null) => void;
+}
+
+function CustomFieldEditor({ field, value, members, onChange }: CustomFieldEditorProps) {
+  switch (field.type) {
+    case 'TEXT':
+    case 'NUMBER':
+      return <TextFieldEditor field={field} value={value} onChange={onChange} />;
+
+    case 'DATE':
+      return (
+        <Input
+          type="date"
+          value={typeof value === 'string' ? value.slice(0, 10) : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          className="h-8 w-44"
+        />
+      );
+
+    case 'CHECKBOX':
+      return (
+        <Checkbox
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked === true ? true : null)}
+          aria-label={field.name}
+        />
+      );
+
+    case 'MULTI_SELECT': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-1.5">
+          {field.options.map((option) => {
+            const isSelected = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                onClick={() => {
+                  const next = isSelected
+                    ? selected.filter((o) => o !== option)
+                    : [...selected, option];
+                  onChange(next.length > 0 ? next : null);
+                }}
+                className={cn(
+                  'px-2 py-0.5 rounded-md border text-xs transition-colors',
+                  isSelected
+                    ? 'border-primary-200 bg-primary-50 text-primary-700'
+                    : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+                )}
+                aria-pressed={isSelected}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'SINGLE_SELECT':
+    case 'USER': {
+      const choices =
+        field.type === 'USER'
+          ? members.map((m) => ({ value: m.id, label: m.name }))
+          : field.options.map((option) => ({ value: option, label: option }));
+      return (
+        <Select
+          value={typeof value === 'string' ? value : NONE_VALUE}
+          onValueChange={(next) => onChange(next === NONE_VALUE ? null : next)}
+        >
+          <SelectTrigger className="h-8 w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE_VALUE}>
+              <span className="text-gray-400">None</span>
+            </SelectItem>
+            {choices.map((choice) => (
+              <SelectItem key={choice.value} value={choice.value}>
+                {choice.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+  }
+}
+
+interface TextFieldEditorProps {
+  field: CustomField;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+}
+
+// Text and number inputs save on blur or Enter
+function TextFieldEditor({ field, value, onChange }: TextFieldEditorProps) {
+  const initial = value === undefined ? '' : String(value);
+  const [draft, setDraft] = useState(initial);
+
+  // Sync when the value changes elsewhere
+  useEffect(() => {
+    setDraft(initial);
+  }, [initial]);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (trimmed === initial) return;
+    if (!trimmed) {
+      onChange(null);
+      return;
+    }
+    if (field.type === 'NUMBER') {
+      const number = Number(trimmed);
+      if (Number.isNaN(number)) {
+        setDraft(initial);
+        return;
+      }
+      onChange(number);
+      return;
+    }
+    onChange(trimmed);
+  };
+
+  return (
+    <Input
+      type={field.type === 'NUMBER' ? 'number' : 'text'}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          e.currentTarget.blur();
+        }
+        if (e.key === 'Escape') {
+          setDraft(initial);
+        }
+      }}
+      placeholder="Empty"
+      className="h-8"
+    />
+  );
+}
+
+export default CustomFieldSection;
@@ -2,7 +2,7 @@
 
 import { useState, useCallback } from 'react';
 import { format, isToday, isTomorrow, addDays, isWithinInterval } from 'date-fns';
-import { Calendar as CalendarIcon, X } from 'lucide-react';
+import { Calendar as CalendarIcon, Repeat, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -12,6 +12,7 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
+import { RecurrenceEditor } from './RecurrenceEditor';
 
 // Quick select options
 const quickSelectOptions = [
@@ -56,6 +57,9 @@ export interface DatePickerProps {
   placeholder?: string;
   disabled?: boolean;
   className?: string;
+  /** Recurrence rule (RRULE subset); the repeat editor is shown when onRecurrenceChange is set */
+  recurrence?: string | null;
+  onRecurrenceChange?: (rule: string | null) => void;
 }
 
 export function DatePicker({
@@ -64,6 +68,8 @@ export function DatePicker({
   placeholder = 'Set due date',
   disabled = false,
   className,
+  recurrence = null,
+  onRecurrenceChange,
 }: DatePickerProps) {
   const [open, setOpen] = useState(false);
 
@@ -112,6 +118,9 @@ export function DatePicker({
         >
           <CalendarIcon className="mr-2 h-4 w-4" />
           <span className="flex-1">{displayText}</span>
+          {recurrence && (
+            <Repeat className="ml-2 h-3.5 w-3.5 opacity-70" aria-label="Repeats" />
+          )}
           {value && (
             <motion.span
               role="button"
@@ -175,6 +184,18 @@ export function DatePicker({
               }}
             />
 
+            {/* Repeat */}
+            {onRecurrenceChange && (
+              <div className="border-t border-gray-100 p-3 w-[280px]">
+                <RecurrenceEditor
+                  value={recurrence}
+                  onChange={onRecurrenceChange}
+                  anchor={value}
+                  disabled={disabled}
+                />
+              </div>
+            )}
+
             {/* Clear Button */}
             {value && (
               <div className="border-t border-gray-100 p-2">
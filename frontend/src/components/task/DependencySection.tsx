@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { Link2, Search, X, Loader2, CheckCircle2, Ban } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { useDependencies } from '@/hooks/useDependencies';
+import { useTasks } from '@/hooks/useTasks';
+import type { DependencyTask, DependencyType } from '@/lib/api/dependencies';
+
+export interface DependencySectionProps {
+  projectId: string;
+  taskId: string;
+  /** When true, links are shown but cannot be changed (for VIEWER role) */
+  readOnly?: boolean;
+  className?: string;
+}
+
+export function DependencySection({
+  projectId,
+  taskId,
+  readOnly = false,
+  className,
+}: DependencySectionProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [type, setType] = useState<DependencyType>('blocked_by');
+
+  const { blockedBy, blocking, isLoading, addDependency, removeDependency, isAdding } =
+    useDependencies({ projectId, taskId });
+  const { tasks } = useTasks({ projectId });
+
+  // Tasks that can still be linked (not this task, not already linked either way)
+  const candidates = useMemo(() => {
+    const linkedIds = new Set([...blockedBy, ...blocking].map((t) => t.id));
+    const term = search.trim().toLowerCase();
+    return tasks.filter(
+      (t) =>
+        t.id !== taskId &&
+        !linkedIds.has(t.id) &&
+        (!term || t.title.toLowerCase().includes(term))
+    );
+  }, [tasks, taskId, blockedBy, blocking, search]);
+
+  const openBlockerCount = blockedBy.filter((t) => !t.completedAt).length;
+
+  const handleAdd = (targetTaskId: string) => {
+    addDependency({ targetTaskId, type });
+    setOpen(false);
+    setSearch('');
+  };
+
+  const renderGroup = (label: string, items: DependencyTask[]) => {
+    if (items.length === 0) return null;
+    return (
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-gray-500 uppercase tracking-wide">{label}</div>
+        <ul className="space-y-1">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              className="group flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-gray-50"
+            >
+              {item.completedAt ? (
+                <CheckCircle2 className="size-4 text-green-500 flex-shrink-0" />
+              ) : (
+                <Ban className="size-4 text-red-400 flex-shrink-0" />
+              )}
+              <span
+                className={cn(
+                  'flex-1 text-sm text-gray-800 truncate',
+                  item.completedAt && 'line-through text-gray-400'
+                )}
+              >
+                {item.title}
+              </span>
+              <span className="text-xs text-gray-400 flex-shrink-0">{item.column.name}</span>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => removeDependency(item.id)}
+                  className="p-1 rounded text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600 hover:bg-red-50 transition-all"
+                  aria-label="Remove dependency"
+                >
+                  <X className="size-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">
+          Dependencies
+          {openBlockerCount > 0 && (
+            <span className="ml-2 text-xs font-normal text-red-600">
+              Blocked by {openBlockerCount} unfinished {openBlockerCount === 1 ? 'task' : 'tasks'}
+            </span>
+          )}
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="size-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <>
+          {renderGroup('Blocked by', blockedBy)}
+          {renderGroup('Blocks', blocking)}
+          {readOnly && blockedBy.length === 0 && blocking.length === 0 && (
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <Link2 className="size-4" />
+              No dependencies
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Link picker */}
+      {!readOnly && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              disabled={isAdding}
+              className="justify-start text-left font-normal h-9 border-dashed text-gray-500"
+            >
+              <Link2 className="mr-2 h-4 w-4" />
+              Add dependency
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 p-0" align="start">
+            {/* Direction */}
+            <div className="flex gap-1 p-2 border-b border-gray-100">
+              {(
+                [
+                  ['blocked_by', 'Blocked by'],
+                  ['blocks', 'Blocks'],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setType(value)}
+                  className={cn(
+                    'flex-1 px-3 py-1.5 text-sm rounded-md transition-colors',
+                    type === value
+                      ? 'bg-gray-900 text-white'
+                      : 'text-gray-600 hover:bg-gray-100'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {/* Search */}
+            <div className="p-2 border-b border-gray-100">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Search tasks..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className={cn(
+                    'w-full pl-8 pr-3 py-1.5 text-sm rounded-md',
+                    'border border-gray-200 focus:border-gray-400',
+                    'focus:ring-2 focus:ring-gray-800/10 outline-none',
+                    'placeholder:text-gray-400 transition-colors'
+                  )}
+                />
+              </div>
+            </div>
+
+            {/* Task List */}
+            <div className="max-h-60 overflow-y-auto p-1">
+              {candidates.length === 0 ? (
+                <div className="flex items-center justify-center py-4 text-gray-400 text-sm">
+                  {search ? 'No tasks found' : 'No other tasks to link'}
+                </div>
+              ) : (
+                candidates.map((candidate) => (
+                  <button
+                    key={candidate.id}
+                    type="button"
+                    onClick={() => handleAdd(candidate.id)}
+                    className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-left transition-colors hover:bg-gray-50"
+                  >
+                    <span className="flex-1 text-sm text-gray-700 truncate">{candidate.title}</span>
+                    {candidate.completedAt && (
+                      <CheckCircle2 className="size-4 text-green-500 flex-shrink-0" />
+                    )}
+                  </button>
+                ))
+              )}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
+
+export default DependencySection;
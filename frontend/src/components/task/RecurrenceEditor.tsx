@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  parseRecurrenceRule,
+  buildRecurrenceRule,
+  describeRecurrence,
+  localToRuleWeekdays,
+  ruleToLocalWeekdays,
+  type RecurrenceFrequency,
+  type Weekday,
+} from '@/lib/recurrence';
+
+type Preset = 'NONE' | RecurrenceFrequency | 'CUSTOM';
+
+const presetOptions: { value: Preset; label: string }[] = [
+  { value: 'NONE', label: 'Never' },
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'CUSTOM', label: 'Custom' },
+];
+
+const unitOptions: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'days' },
+  { value: 'WEEKLY', label: 'weeks' },
+  { value: 'MONTHLY', label: 'months' },
+];
+
+export interface RecurrenceEditorProps {
+  value: string | null;
+  onChange: (rule: string | null) => void;
+  /** Due date the rule repeats from */
+  anchor: Date | null;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Editor for a task's repeat rule (daily / weekly / monthly / custom)
+ */
+export function RecurrenceEditor({
+  value,
+  onChange,
+  anchor,
+  disabled = false,
+  className,
+}: RecurrenceEditorProps) {
+  const rule = parseRecurrenceRule(value);
+  const isSimple = !!rule && rule.interval === 1 && !rule.byDay && !rule.byMonthDay;
+  const [showCustom, setShowCustom] = useState(!!rule && !isSimple);
+
+  const preset: Preset = !rule ? 'NONE' : showCustom || !isSimple ? 'CUSTOM' : rule.freq;
+  const localDays = rule?.byDay
+    ? ruleToLocalWeekdays(rule.byDay, anchor)
+    : anchor
+      ? [WEEKDAYS[anchor.getDay()]]
+      : [];
+
+  const handlePreset = (next: Preset) => {
+    setShowCustom(next === 'CUSTOM');
+    if (next === 'NONE') {
+      onChange(null);
+    } else if (next === 'CUSTOM') {
+      onChange(buildRecurrenceRule(rule ?? { freq: 'WEEKLY', interval: 1 }));
+    } else {
+      onChange(buildRecurrenceRule({ freq: next, interval: 1, until: rule?.until }));
+    }
+  };
+
+  const handleCustomChange = (changes: {
+    freq?: RecurrenceFrequency;
+    interval?: number;
+    days?: Weekday[];
+  }) => {
+    const freq = changes.freq ?? rule?.freq ?? 'WEEKLY';
+    const days = changes.days ?? localDays;
+    onChange(
+      buildRecurrenceRule({
+        freq,
+        interval: Math.max(1, changes.interval ?? rule?.interval ?? 1),
+        byDay: freq === 'WEEKLY' && days.length > 0 ? localToRuleWeekdays(days, anchor) : undefined,
+        until: rule?.until,
+      })
+    );
+  };
+
+  const toggleDay = (day: Weekday) => {
+    const days = localDays.includes(day)
+      ? localDays.filter((d) => d !== day)
+      : [...localDays, day];
+    // Keep at least one weekday selected
+    if (days.length === 0) return;
+    handleCustomChange({ days });
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-1.5 text-xs font-medium text-gray-500">
+        <Repeat className="h-3.5 w-3.5" />
+        Repeat
+      </div>
+
+      {/* Presets */}
+      <div className="grid grid-cols-5 gap-1">
+        {presetOptions.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            disabled={disabled}
+            onClick={() => handlePreset(option.value)}
+            className={cn(
+              'px-1.5 py-1 text-xs rounded-md transition-colors',
+              preset === option.value
+                ? 'bg-gray-900 text-white'
+                : 'text-gray-600 hover:bg-gray-100'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Custom interval and weekdays */}
+      {preset === 'CUSTOM' && rule && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={rule.interval}
+              disabled={disabled}
+              onChange={(e) => handleCustomChange({ interval: Number(e.target.value) || 1 })}
+              className="w-14 px-2 py-1 text-sm rounded-md border border-gray-200 outline-none focus:border-gray-400"
+            />
+            <select
+              value={rule.freq}
+              disabled={disabled}
+              onChange={(e) => handleCustomChange({ freq: e.target.value as RecurrenceFrequency })}
+              className="px-2 py-1 text-sm rounded-md border border-gray-200 bg-white outline-none focus:border-gray-400"
+            >
+              {unitOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {rule.freq === 'WEEKLY' && (
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAYS.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => toggleDay(day)}
+                  className={cn(
+                    'py-1 text-[11px] rounded-md transition-colors',
+                    localDays.includes(day)
+                      ? 'bg-primary text-white'
+                      : 'text-gray-600 bg-gray-50 hover:bg-gray-100'
+                  )}
+                >
+                  {WEEKDAY_LABELS[day].charAt(0)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule && (
+        <p className="text-xs text-gray-400">
+          {describeRecurrence(rule, anchor)}
+          {!anchor && ' · repeats from completion date'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default RecurrenceEditor;
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2, Loader2, ListChecks } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useSubtasks } from '@/hooks/useSubtasks';
+
+export interface SubtaskSectionProps {
+  projectId: string;
+  taskId: string;
+  /** When true, completing the parent task requires all subtasks to be done */
+  requireComplete?: boolean;
+  onRequireCompleteChange?: (required: boolean) => void;
+  /** When true, the checklist is shown but cannot be edited (for VIEWER role) */
+  readOnly?: boolean;
+  className?: string;
+}
+
+export function SubtaskSection({
+  projectId,
+  taskId,
+  requireComplete = false,
+  onRequireCompleteChange,
+  readOnly = false,
+  className,
+}: SubtaskSectionProps) {
+  const [newTitle, setNewTitle] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+
+  const {
+    subtasks,
+    completedCount,
+    isLoading,
+    createSubtask,
+    updateSubtask,
+    deleteSubtask,
+    isCreating,
+  } = useSubtasks({ projectId, taskId });
+
+  const total = subtasks.length;
+  const percent = total > 0 ? Math.round((completedCount / total) * 100) : 0;
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title || isCreating) return;
+    createSubtask(title);
+    setNewTitle('');
+  };
+
+  const handleStartEdit = (subtaskId: string, title: string) => {
+    if (readOnly) return;
+    setEditingId(subtaskId);
+    setEditValue(title);
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingId) return;
+    const title = editValue.trim();
+    const original = subtasks.find((s) => s.id === editingId);
+    if (title && original && title !== original.title) {
+      updateSubtask({ subtaskId: editingId, data: { title } });
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {/* Header with progress */}
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">
+          Subtasks {total > 0 && `(${completedCount}/${total})`}
+        </label>
+        {!readOnly && onRequireCompleteChange && (
+          <label className="flex items-center gap-2 text-xs text-gray-500 cursor-pointer">
+            <Checkbox
+              checked={requireComplete}
+              onCheckedChange={(checked) => onRequireCompleteChange(checked === true)}
+            />
+            Require all done to complete
+          </label>
+        )}
+      </div>
+
+      {total > 0 && (
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={cn(
+              'h-full rounded-full transition-all duration-300',
+              completedCount === total ? 'bg-green-500' : 'bg-primary'
+            )}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+
+      {/* Checklist */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="size-5 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {subtasks.map((subtask) => {
+            const isDone = !!subtask.completedAt;
+            return (
+              <li
+                key={subtask.id}
+                className="group flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-gray-50"
+              >
+                <Checkbox
+                  checked={isDone}
+                  disabled={readOnly}
+                  onCheckedChange={(checked) =>
+                    updateSubtask({ subtaskId: subtask.id, data: { completed: checked === true } })
+                  }
+                  aria-label={isDone ? 'Mark subtask as incomplete' : 'Mark subtask as complete'}
+                />
+                {editingId === subtask.id ? (
+                  <input
+                    type="text"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onBlur={handleSaveEdit}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleSaveEdit();
+                      } else if (e.key === 'Escape') {
+                        e.preventDefault();
+                        setEditingId(null);
+                      }
+                    }}
+                    className="flex-1 text-sm text-gray-800 bg-white border border-gray-200 rounded px-2 py-0.5 outline-none focus:ring-2 focus:ring-primary/20"
+                    maxLength={200}
+                    autoFocus
+                  />
+                ) : (
+                  <span
+                    className={cn(
+                      'flex-1 text-sm text-gray-800',
+                      isDone && 'line-through text-gray-400',
+                      !readOnly && 'cursor-text'
+                    )}
+                    onClick={() => handleStartEdit(subtask.id, subtask.title)}
+                  >
+                    {subtask.title}
+                  </span>
+                )}
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => deleteSubtask(subtask.id)}
+                    className="p-1 rounded text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600 hover:bg-red-50 transition-all"
+                    aria-label="Delete subtask"
+                  >
+                    <Trash2 className="size-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Empty state for read-only */}
+      {readOnly && !isLoading && total === 0 && (
+        <div className="flex items-center gap-2 text-sm text-gray-400">
+          <ListChecks className="size-4" />
+          No subtasks
+        </div>
+      )}
+
+      {/* Add subtask input */}
+      {!readOnly && (
+        <div className="flex items-center gap-2 px-2">
+          <Plus className="size-4 text-gray-400 flex-shrink-0" />
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="Add a subtask..."
+            disabled={isCreating}
+            className="flex-1 text-sm text-gray-800 placeholder:text-gray-400 bg-transparent py-1 outline-none"
+            maxLength={200}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SubtaskSection;
@@ -24,16 +24,28 @@ import { Button } from '@/components/ui/button';
 import { DatePicker } from './DatePicker';
 import { PrioritySelector, type Priority } from './PrioritySelector';
 import { AssigneeSelector, AssigneeAvatarStack } from './AssigneeSelector';
+import { SubtaskSection } from './SubtaskSection';
+import { DependencySection } from './DependencySection';
+import { CustomFieldSection } from './CustomFieldSection';
 import { LabelSelector, LabelBadge } from '@/components/labels';
 import { useAssignees } from '@/hooks/useAssignees';
 import { useAttachments } from '@/hooks/useAttachments';
+import { useCustomFields } from '@/hooks/useCustomFields';
 import { usePresence } from '@/hooks/usePresence';
+import { useViewers } from '@/hooks/useViewers';
+import { useDescriptionCollaboration } from '@/hooks/useDescriptionCollaboration';
+import { useAuth } from '@/hooks/useAuth';
+import { useProjectMembers } from '@/hooks/useProjectMembers';
+import { usePermissions } from '@/hooks/usePermissions';
 import { PresenceIndicator } from '@/components/presence/PresenceIndicator';
+import { ViewerAvatars } from '@/components/presence/ViewerAvatars';
 import { CommentSection } from '@/components/comment';
 import { AttachmentUploader, AttachmentList } from '@/components/attachment';
-import { RichTextEditor } from '@/components/editor';
+import { RichTextEditor, mentionClassNames } from '@/components/editor';
+import { getVersionConflict } from '@/lib/axios';
 import type { Task } from '@/lib/api/tasks';
 import type { Label } from '@/lib/api/labels';
+import type { Attachment } from '@/lib/api/attachments';
 
 /** Shape of editable task data for auto-save */
 interface EditableTaskData {
@@ -41,6 +53,32 @@ interface EditableTaskData {
   description: string | null;
   priority: Priority;
   dueDate: string | null;
+  recurrenceRule: string | null;
+}
+
+/** Field names shown when a save conflicts with someone else's changes */
+const EDITABLE_FIELD_LABELS: Record<keyof EditableTaskData, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  recurrenceRule: 'Repeat',
+};
+
+function toEditableData(task: Task | null): EditableTaskData {
+  return {
+    title: task?.title ?? '',
+    description: task?.description ?? null,
+    priority: (task?.priority as Priority) ?? null,
+    dueDate: task?.dueDate ?? null,
+    recurrenceRule: task?.recurrenceRule ?? null,
+  };
+}
+
+function getChangedFields(from: EditableTaskData, to: EditableTaskData) {
+  return (Object.keys(EDITABLE_FIELD_LABELS) as (keyof EditableTaskData)[]).filter(
+    (field) => from[field] !== to[field]
+  );
 }
 
 // Animation variants for modal
@@ -102,7 +140,8 @@ export interface TaskDetailModalProps {
   task: Task | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUpdate?: (taskId: string, data: Partial<Task>) => void;
+  /** May return a promise; a version conflict rejection opens the merge prompt */
+  onUpdate?: (taskId: string, data: Partial<Task>) => void | Promise<unknown>;
   onDelete?: (taskId: string) => void;
   onToggleComplete?: (taskId: string, completed: boolean) => void;
   isLoading?: boolean;
@@ -137,10 +176,15 @@ export function TaskDetailModal({
     description: task?.description ?? null,
     priority: (task?.priority as Priority) ?? null,
     dueDate: task?.dueDate ?? null,
+    recurrenceRule: task?.recurrenceRule ?? null,
   });
   const [isDeleting, setIsDeleting] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  // Task as it was when editing started; its version is sent with the save
+  const [baseTask, setBaseTask] = useState<Task | null>(task);
+  // Latest server state after a save was rejected as outdated
+  const [conflictTask, setConflictTask] = useState<Task | null>(null);
 
   // Assignees hook - only enabled when we have projectId and taskId
   const {
@@ -157,6 +201,27 @@ export function TaskDetailModal({
     enabled: open && !!projectId && !!task?.id,
   });
 
+  // Teammates that can be @mentioned in the description
+  const { user } = useAuth();
+  const { members: projectMembers } = useProjectMembers({ projectId: projectId || '' });
+  const mentionMembers = useMemo(
+    () =>
+      projectMembers
+        .filter((m) => m.user.id !== user?.id)
+        .map((m) => ({ id: m.user.id, name: m.user.name, avatar: m.user.avatar })),
+    [projectMembers, user?.id]
+  );
+
+  // Uploaders remove their own files; admins and owners remove anyone's
+  const { can } = usePermissions({ projectId: projectId || '' });
+  const canUploadAttachments = can('attachment.upload');
+  const canDeleteAttachment = useCallback(
+    (attachment: Attachment) =>
+      can('attachment.delete.any') ||
+      (canUploadAttachments && attachment.uploadedById === user?.id),
+    [can, canUploadAttachments, user?.id]
+  );
+
   // Attachments hook
   const {
     attachments,
@@ -172,6 +237,12 @@ export function TaskDetailModal({
     enabled: open && !!projectId && !!task?.id,
   });
 
+  // Custom fields - the section is only shown when the project defines some
+  const { fields: customFields } = useCustomFields({
+    projectId: projectId || '',
+    enabled: open && !!projectId,
+  });
+
   // Wrapper for upload to handle the async properly
   const handleUploadAttachment = useCallback(async (file: File) => {
     await uploadAsync(file);
@@ -192,16 +263,23 @@ export function TaskDetailModal({
     enabled: open && !!projectId && !!task?.id && !readOnly,
   });
 
+  // Everyone else with this task open, including read-only viewers
+  const { viewers: taskViewers } = useViewers({
+    projectId: projectId || '',
+    taskId: task?.id,
+    enabled: open && !!projectId && !!task?.id,
+  });
+
+  // Shared description document; while active, edits merge live and are
+  // saved as they happen instead of with the rest of the form
+  const descriptionCollaboration = useDescriptionCollaboration({
+    projectId: projectId || '',
+    taskId: task?.id || '',
+    enabled: open && !!projectId && !!task?.id && !readOnly,
+  });
+
   // Original data for comparison (memoized to avoid unnecessary re-renders)
-  const originalData = useMemo<EditableTaskData>(
-    () => ({
-      title: task?.title ?? '',
-      description: task?.description ?? null,
-      priority: (task?.priority as Priority) ?? null,
-      dueDate: task?.dueDate ?? null,
-    }),
-    [task?.title, task?.description, task?.priority, task?.dueDate]
-  );
+  const originalData = useMemo<EditableTaskData>(() => toEditableData(baseTask), [baseTask]);
 
   // Change detection - enables/disables save button
   const hasChanges = useMemo(() => {
@@ -209,7 +287,8 @@ export function TaskDetailModal({
       editableData.title !== originalData.title ||
       editableData.description !== originalData.description ||
       editableData.priority !== originalData.priority ||
-      editableData.dueDate !== originalData.dueDate
+      editableData.dueDate !== originalData.dueDate ||
+      editableData.recurrenceRule !== originalData.recurrenceRule
     );
   }, [editableData, originalData]);
 
@@ -225,17 +304,27 @@ export function TaskDetailModal({
     }
   }, [hasChanges, readOnly, onOpenChange]);
 
-  // Sync local state when task changes
+  // Sync local state when task changes. Unsaved edits are kept when the task
+  // is updated elsewhere: if none of the form fields changed, editing simply
+  // continues from the new version; otherwise the base stays put so saving
+  // reports the conflict instead of overwriting their changes.
   useEffect(() => {
-    if (task) {
-      setEditableData({
-        title: task.title ?? '',
-        description: task.description ?? null,
-        priority: (task.priority as Priority) ?? null,
-        dueDate: task.dueDate ?? null,
-      });
+    if (!task) return;
+
+    const isSameTask = task.id === baseTask?.id;
+    if (
+      isSameTask &&
+      hasChanges &&
+      getChangedFields(toEditableData(baseTask), toEditableData(task)).length > 0
+    ) {
+      return;
+    }
+
+    setBaseTask(task);
+    if (!isSameTask || !hasChanges) {
+      setEditableData(toEditableData(task));
     }
-  }, [task]);
+  }, [task, baseTask, hasChanges]);
 
   // Handle keyboard events
   useEffect(() => {
@@ -262,9 +351,16 @@ export function TaskDetailModal({
     setEditableData((prev) => ({ ...prev, title: value }));
   }, []);
 
-  const handleDescriptionChange = useCallback((value: string) => {
-    setEditableData((prev) => ({ ...prev, description: value || null }));
-  }, []);
+  const handleDescriptionChange = useCallback(
+    (value: string) => {
+      if (descriptionCollaboration) {
+        descriptionCollaboration.save(value);
+        return;
+      }
+      setEditableData((prev) => ({ ...prev, description: value || null }));
+    },
+    [descriptionCollaboration]
+  );
 
   const handlePriorityChange = useCallback((priority: Priority) => {
     setEditableData((prev) => ({ ...prev, priority }));
@@ -277,6 +373,10 @@ export function TaskDetailModal({
     }));
   }, []);
 
+  const handleRecurrenceChange = useCallback((recurrenceRule: string | null) => {
+    setEditableData((prev) => ({ ...prev, recurrenceRule }));
+  }, []);
+
   // Handle delete
   const handleDelete = async () => {
     if (!task) return;
@@ -310,17 +410,56 @@ export function TaskDetailModal({
       if (editableData.dueDate !== originalData.dueDate) {
         changes.dueDate = editableData.dueDate;
       }
+      if (editableData.recurrenceRule !== originalData.recurrenceRule) {
+        changes.recurrenceRule = editableData.recurrenceRule;
+      }
 
       if (Object.keys(changes).length > 0) {
+        changes.version = baseTask?.version;
         await onUpdate(task.id, changes);
       }
 
       // Close modal on successful save
       onOpenChange(false);
+    } catch (err) {
+      // Someone else saved first - let the user merge or reload. Other
+      // failures are reported by the update hook and keep the modal open.
+      const current = getVersionConflict<Task>(err);
+      if (current) {
+        setConflictTask(current);
+      }
     } finally {
       setIsSaving(false);
     }
-  }, [task, onUpdate, isValid, hasChanges, editableData, originalData, onOpenChange]);
+  }, [task, baseTask, onUpdate, isValid, hasChanges, editableData, originalData, onOpenChange]);
+
+  // Fields both the user and the other editor changed since editing started
+  const conflictingFields = useMemo(() => {
+    if (!conflictTask) return [];
+    const theirChanges = getChangedFields(originalData, toEditableData(conflictTask));
+    const myChanges = getChangedFields(originalData, editableData);
+    return myChanges.filter((field) => theirChanges.includes(field));
+  }, [conflictTask, originalData, editableData]);
+
+  // Take the latest version and drop the local edits
+  const handleReloadConflict = useCallback(() => {
+    if (!conflictTask) return;
+    setBaseTask(conflictTask);
+    setEditableData(toEditableData(conflictTask));
+    setConflictTask(null);
+  }, [conflictTask]);
+
+  // Apply the local edits on top of the latest version, ready to save again
+  const handleMergeConflict = useCallback(() => {
+    if (!conflictTask) return;
+    const merged = toEditableData(conflictTask);
+    for (const field of getChangedFields(originalData, editableData)) {
+      Object.assign(merged, { [field]: editableData[field] });
+    }
+    setBaseTask(conflictTask);
+    setEditableData(merged);
+    setConflictTask(null);
+  }, [conflictTask, originalData, editableData]);
 
   // Handle cancel - discard changes and close
   const handleCancel = useCallback(() => {
@@ -331,6 +470,7 @@ export function TaskDetailModal({
         description: task.description ?? null,
         priority: (task.priority as Priority) ?? null,
         dueDate: task.dueDate ?? null,
+        recurrenceRule: task.recurrenceRule ?? null,
       });
     }
     onOpenChange(false);
@@ -346,6 +486,7 @@ export function TaskDetailModal({
         description: task.description ?? null,
         priority: (task.priority as Priority) ?? null,
         dueDate: task.dueDate ?? null,
+        recurrenceRule: task.recurrenceRule ?? null,
       });
     }
     onOpenChange(false);
@@ -496,6 +637,8 @@ export function TaskDetailModal({
 
                   {/* Actions */}
                   <div className="flex items-center gap-2">
+                    <ViewerAvatars viewers={taskViewers} subject="this task" className="mr-1" />
+
                     {!readOnly && onDelete && (
                       <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -562,6 +705,8 @@ export function TaskDetailModal({
                       <DatePicker
                         value={dueDate}
                         onChange={handleDueDateChange}
+                        recurrence={editableData.recurrenceRule}
+                        onRecurrenceChange={readOnly ? undefined : handleRecurrenceChange}
                         className="w-full"
                         disabled={readOnly}
                       />
@@ -593,7 +738,10 @@ export function TaskDetailModal({
                       >
                         {editableData.description ? (
                           <div
-                            className="prose prose-sm max-w-none [&_p]:my-0 [&_ul]:my-1 [&_ol]:my-1 [&_li]:my-0"
+                            className={cn(
+                              'prose prose-sm max-w-none [&_p]:my-0 [&_ul]:my-1 [&_ol]:my-1 [&_li]:my-0',
+                              mentionClassNames
+                            )}
                             dangerouslySetInnerHTML={{ __html: editableData.description }}
                           />
                         ) : (
@@ -607,10 +755,52 @@ export function TaskDetailModal({
                         onFocus={descriptionPresence.startEditing}
                         onBlur={descriptionPresence.stopEditing}
                         placeholder="Add a description..."
+                        mentionMembers={mentionMembers}
+                        collaboration={descriptionCollaboration}
                       />
                     )}
                   </motion.div>
 
+                  {/* Subtasks Section */}
+                  {projectId && task && (
+                    <motion.div variants={itemVariants}>
+                      <SubtaskSection
+                        projectId={projectId}
+                        taskId={task.id}
+                        requireComplete={task.requireSubtasksComplete}
+                        onRequireCompleteChange={
+                          onUpdate
+                            ? (required) => onUpdate(task.id, { requireSubtasksComplete: required })
+                            : undefined
+                        }
+                        readOnly={readOnly}
+                      />
+                    </motion.div>
+                  )}
+
+                  {/* Dependencies Section */}
+                  {projectId && task && (
+                    <motion.div variants={itemVariants}>
+                      <DependencySection
+                        projectId={projectId}
+                        taskId={task.id}
+                        readOnly={readOnly}
+                      />
+                    </motion.div>
+                  )}
+
+                  {/* Custom Fields Section */}
+                  {projectId && task && customFields.length > 0 && (
+                    <motion.div variants={itemVariants}>
+                      <CustomFieldSection
+                        projectId={projectId}
+                        taskId={task.id}
+                        values={task.customFields}
+                        readOnly={readOnly}
+                      />
+                    </motion.div>
+                  )}
+
                   {/* Labels Section */}
                   <motion.div variants={itemVariants} className="space-y-2">
                     <label className="text-sm font-medium text-gray-700">
@@ -705,7 +895,7 @@ export function TaskDetailModal({
                       </label>
 
                       {/* Attachment uploader - hide when read-only */}
-                      {!readOnly && (
+                      {!readOnly && canUploadAttachments && (
                         <AttachmentUploader
                           onUpload={handleUploadAttachment}
                           isUploading={isUploading}
@@ -719,6 +909,7 @@ export function TaskDetailModal({
                         attachments={attachments}
                         isLoading={isAttachmentsLoading}
                         onDelete={readOnly ? undefined : deleteAttachment}
+                        canDelete={canDeleteAttachment}
                         deletingId={deletingId}
                       />
                     </motion.div>
@@ -822,6 +1013,31 @@ export function TaskDetailModal({
         </AlertDialogFooter>
       </AlertDialogContent>
     </AlertDialog>
+
+    {/* Version Conflict Dialog - shown when someone else saved while editing */}
+    <AlertDialog
+      open={!!conflictTask}
+      onOpenChange={(isOpen) => !isOpen && setConflictTask(null)}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>This task was changed by someone else</AlertDialogTitle>
+          <AlertDialogDescription>
+            {conflictingFields.length > 0
+              ? `You both changed: ${conflictingFields.map((field) => EDITABLE_FIELD_LABELS[field]).join(', ')}. Merging keeps your values for these fields.`
+              : 'Your changes do not overlap with theirs.'}{' '}
+            Merge to apply your changes on top of their version and review before saving, or
+            reload their version and discard yours.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={handleReloadConflict}>
+            Reload Their Version
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={handleMergeConflict}>Merge My Changes</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
     </>
   );
 }
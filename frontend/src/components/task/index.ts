@@ -1,6 +1,10 @@
 // Task components
 export { TaskDetailModal, type TaskDetailModalProps } from './TaskDetailModal';
 export { DatePicker, type DatePickerProps } from './DatePicker';
+export { RecurrenceEditor, type RecurrenceEditorProps } from './RecurrenceEditor';
+export { SubtaskSection, type SubtaskSectionProps } from './SubtaskSection';
+export { DependencySection, type DependencySectionProps } from './DependencySection';
+export { CustomFieldSection, type CustomFieldSectionProps } from './CustomFieldSection';
 export {
   PrioritySelector,
   PriorityBadge,
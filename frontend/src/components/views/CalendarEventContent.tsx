@@ -11,24 +11,26 @@ interface CalendarEventContentProps {
 /**
  * Custom event content renderer for calendar events.
  * Displays task title with priority indicator and completion status.
+ * Upcoming repeats of recurring tasks are drawn as dashed ghosts.
  */
 export function CalendarEventContent({ eventInfo }: CalendarEventContentProps) {
   const extendedProps = eventInfo.event.extendedProps as CalendarEventExtendedProps;
-  const { isCompleted, columnName } = extendedProps;
+  const { isCompleted, columnName, isGhost } = extendedProps;
 
   return (
     <div
       className={cn(
         'px-1.5 py-0.5 text-[11px] leading-tight truncate w-full',
         'rounded-[3px] border-l-[3px]',
-        isCompleted && 'line-through opacity-60'
+        isCompleted && 'line-through opacity-60',
+        isGhost && 'border border-dashed opacity-70'
       )}
       style={{
         borderLeftColor: eventInfo.event.borderColor || '#d1d5db',
         backgroundColor: eventInfo.event.backgroundColor || '#ffffff',
         color: eventInfo.event.textColor || '#374151',
       }}
-      title={`${eventInfo.event.title} (${columnName})`}
+      title={`${eventInfo.event.title} (${columnName})${isGhost ? ' · upcoming repeat' : ''}`}
     >
       <span className="font-medium">{eventInfo.event.title}</span>
     </div>
@@ -1,16 +1,17 @@
 'use client';
 
-import { useMemo, useCallback, useRef } from 'react';
+import { useMemo, useCallback, useRef, useState } from 'react';
 import FullCalendar from '@fullcalendar/react';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import interactionPlugin from '@fullcalendar/interaction';
-import type { EventClickArg, EventDropArg } from '@fullcalendar/core';
+import type { EventClickArg, EventDropArg, DatesSetArg } from '@fullcalendar/core';
 import { CalendarDays, Clock } from 'lucide-react';
 import { toast } from 'sonner';
 import {
   tasksToCalendarEvents,
   countUnscheduledTasks,
   getTotalTaskCount,
+  type CalendarRange,
 } from '@/lib/calendar-utils';
 import { CalendarEventContent } from './CalendarEventContent';
 import type { Task, ColumnWithTasks } from '@/components/board';
@@ -35,13 +36,19 @@ export function CalendarView({
   onDueDateChange,
 }: CalendarViewProps) {
   const calendarRef = useRef<FullCalendar>(null);
+  const [visibleRange, setVisibleRange] = useState<CalendarRange | undefined>();
 
-  // Transform tasks to calendar events
+  // Transform tasks to calendar events (with ghost occurrences of recurring tasks)
   const events = useMemo(
-    () => tasksToCalendarEvents(columns),
-    [columns]
+    () => tasksToCalendarEvents(columns, visibleRange),
+    [columns, visibleRange]
   );
 
+  // Track the visible range so recurring tasks can be projected into it
+  const handleDatesSet = useCallback((info: DatesSetArg) => {
+    setVisibleRange({ start: info.start, end: info.end });
+  }, []);
+
   const totalTasks = useMemo(() => getTotalTaskCount(columns), [columns]);
   const unscheduledCount = useMemo(() => countUnscheduledTasks(columns), [columns]);
   const scheduledCount = totalTasks - unscheduledCount;
@@ -143,6 +150,7 @@ export function CalendarView({
             today: 'Today',
           }}
           events={events}
+          datesSet={handleDatesSet}
           eventClick={handleEventClick}
           eventDrop={handleEventDrop}
           editable={!!onDueDateChange}
@@ -182,6 +190,10 @@ export function CalendarView({
           <span className="w-3 h-3 rounded-sm border-l-[3px] border-gray-300 bg-white" />
           <span>No Priority</span>
         </div>
+        <div className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-sm border border-dashed border-gray-400 bg-white" />
+          <span>Upcoming Repeat</span>
+        </div>
       </div>
     </div>
   );
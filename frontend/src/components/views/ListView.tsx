@@ -7,18 +7,37 @@ import {
   Calendar,
   Clock,
   GripVertical,
+  Loader2,
 } from 'lucide-react';
 import { cn, formatDueDate, getDueDateColor } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
 import { PriorityBadge } from '@/components/task/PrioritySelector';
 import { LabelBadge } from '@/components/labels';
 import { AssigneeAvatarStack } from '@/components/task/AssigneeSelector';
 import type { Task, ColumnWithTasks } from '@/components/board';
+import type { CustomField } from '@/lib/api/customFields';
+import { formatCustomFieldValue } from '@/lib/customFields';
 
 export interface ListViewProps {
   columns: ColumnWithTasks[];
   projectId: string;
   isLoading?: boolean;
   onTaskClick?: (task: Task) => void;
+  /** Project custom fields; set values are shown after the title */
+  customFields?: CustomField[];
+  /** Project members, used to show user field values */
+  members?: { id: string; name: string }[];
+  /** Tasks matching the query across all pages, when the list is paginated */
+  totalTasks?: number;
+  /** Whether more pages can be loaded */
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+}
+
+interface FieldDisplayProps {
+  customFields: CustomField[];
+  members: { id: string; name: string }[];
 }
 
 // Row animation variants
@@ -36,7 +55,7 @@ const rowVariants = {
   },
 };
 
-interface ColumnSectionProps {
+interface ColumnSectionProps extends FieldDisplayProps {
   column: ColumnWithTasks;
   onTaskClick?: (task: Task) => void;
   defaultExpanded?: boolean;
@@ -46,6 +65,8 @@ function ColumnSection({
   column,
   onTaskClick,
   defaultExpanded = true,
+  customFields,
+  members,
 }: ColumnSectionProps) {
   const [expanded, setExpanded] = useState(defaultExpanded);
 
@@ -90,6 +111,8 @@ function ColumnSection({
                   task={task}
                   onClick={() => onTaskClick?.(task)}
                   index={index}
+                  customFields={customFields}
+                  members={members}
                 />
               ))}
             </div>
@@ -100,15 +123,21 @@ function ColumnSection({
   );
 }
 
-interface TaskRowProps {
+interface TaskRowProps extends FieldDisplayProps {
   task: Task;
   onClick?: () => void;
   index: number;
 }
 
-function TaskRow({ task, onClick, index }: TaskRowProps) {
+function TaskRow({ task, onClick, index, customFields, members }: TaskRowProps) {
   const dueDateText = formatDueDate(task.dueDate);
   const dueDateColor = getDueDateColor(task.dueDate);
+  const fieldValues = customFields
+    .map((field) => ({
+      field,
+      text: formatCustomFieldValue(field, task.customFields?.[field.id], members),
+    }))
+    .filter((fv) => fv.text !== null);
 
   return (
     <motion.div
@@ -145,6 +174,21 @@ function TaskRow({ task, onClick, index }: TaskRowProps) {
         </span>
       </div>
 
+      {/* Custom Fields */}
+      {fieldValues.length > 0 && (
+        <div className="hidden md:flex items-center gap-1 flex-shrink-0 max-w-[240px] overflow-hidden">
+          {fieldValues.slice(0, 3).map(({ field, text }) => (
+            <span
+              key={field.id}
+              className="px-1.5 py-0.5 rounded bg-gray-50 border border-gray-100 text-xs text-gray-600 truncate"
+              title={`${field.name}: ${text}`}
+            >
+              {text}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Labels */}
       {task.labels && task.labels.length > 0 && (
         <div className="flex items-center gap-1 flex-shrink-0">
@@ -186,6 +230,12 @@ export function ListView({
   projectId: _projectId,
   isLoading = false,
   onTaskClick,
+  customFields = [],
+  members = [],
+  totalTasks,
+  hasMore = false,
+  onLoadMore,
+  isLoadingMore = false,
 }: ListViewProps) {
   // Sort columns by order
   const sortedColumns = useMemo(
@@ -220,7 +270,7 @@ export function ListView({
     );
   }
 
-  const totalTasks = columns.reduce((sum, col) => sum + col.tasks.length, 0);
+  const loadedTasks = columns.reduce((sum, col) => sum + col.tasks.length, 0);
 
   return (
     <div className="space-y-1">
@@ -232,6 +282,7 @@ export function ListView({
           <div>Title</div>
         </div>
         <div className="flex items-center gap-4">
+          {customFields.length > 0 && <span className="hidden md:inline">Fields</span>}
           <span>Labels</span>
           <span>Assigned</span>
           <div className="w-24 text-right">Due</div>
@@ -245,14 +296,28 @@ export function ListView({
             key={column.id}
             column={column}
             onTaskClick={onTaskClick}
+            customFields={customFields}
+            members={members}
           />
         ))}
       </div>
 
+      {/* Load More */}
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center pt-2">
+          <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoadingMore}>
+            {isLoadingMore && <Loader2 className="size-3.5 mr-1.5 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
+
       {/* Footer Stats */}
       <div className="pt-4 text-center text-xs text-gray-400">
-        {totalTasks} task{totalTasks !== 1 ? 's' : ''} across {columns.length}{' '}
-        column{columns.length !== 1 ? 's' : ''}
+        {totalTasks !== undefined && totalTasks > loadedTasks
+          ? `Showing ${loadedTasks} of ${totalTasks} tasks`
+          : `${loadedTasks} task${loadedTasks !== 1 ? 's' : ''}`}{' '}
+        across {columns.length} column{columns.length !== 1 ? 's' : ''}
       </div>
     </div>
   );
@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { Bookmark, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+
+export interface SaveViewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (name: string, isShared: boolean) => Promise<unknown>;
+  /** Viewers can only save private views */
+  canShare?: boolean;
+}
+
+export function SaveViewDialog({
+  open,
+  onOpenChange,
+  onSave,
+  canShare = true,
+}: SaveViewDialogProps) {
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setName('');
+    setIsShared(false);
+    setError(null);
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      resetForm();
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('View name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSave(trimmedName, canShare && isShared);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save view. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bookmark className="h-5 w-5" />
+            Save View
+          </DialogTitle>
+          <DialogDescription>
+            Save the current view mode, filters, sort and grouping under a name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          {/* Error message */}
+          {error && (
+            <div className="px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+              {error}
+            </div>
+          )}
+
+          {/* Name input */}
+          <div className="space-y-2">
+            <label htmlFor="view-name" className="text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              id="view-name"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="e.g. My overdue tasks"
+              maxLength={50}
+              className={cn(
+                'w-full px-3 py-2 text-sm bg-white border rounded-lg',
+                'focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500',
+                'transition-colors',
+                error ? 'border-red-300' : 'border-gray-200'
+              )}
+              autoFocus
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Share toggle */}
+          {canShare && (
+            <label className="flex items-start gap-2 cursor-pointer">
+              <Checkbox
+                checked={isShared}
+                onCheckedChange={(checked) => setIsShared(checked === true)}
+                disabled={isSubmitting}
+                className="mt-0.5"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">
+                  Share with project members
+                </span>
+                <span className="block text-xs text-gray-500">
+                  Everyone in the project will see this view in their list
+                </span>
+              </span>
+            </label>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : (
+                'Save View'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default SaveViewDialog;
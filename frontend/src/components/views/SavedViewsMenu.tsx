@@ -0,0 +1,141 @@
+'use client';
+
+import { Bookmark, Check, Link2, Plus, RefreshCw, Trash2, Users } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import type { SavedView } from '@/lib/api/savedViews';
+
+export interface SavedViewsMenuProps {
+  views: SavedView[];
+  /** The saved view matching what is on screen, if any */
+  activeViewId?: string | null;
+  onSelectView: (view: SavedView) => void;
+  onSaveView: () => void;
+  /** Overwrite a saved view with the current view */
+  onUpdateView?: (view: SavedView) => void;
+  onDeleteView?: (view: SavedView) => void;
+  onCopyLink: () => void;
+  /** Whether the current user can change or delete a view */
+  canManageView?: (view: SavedView) => boolean;
+  /** The saved view last picked from this menu; offered for update once the view changes */
+  selectedView?: SavedView | null;
+}
+
+export function SavedViewsMenu({
+  views,
+  activeViewId,
+  onSelectView,
+  onSaveView,
+  onUpdateView,
+  onDeleteView,
+  onCopyLink,
+  canManageView = () => false,
+  selectedView,
+}: SavedViewsMenuProps) {
+  const activeView = views.find((view) => view.id === activeViewId);
+  const myViews = views.filter((view) => !view.isShared);
+  const sharedViews = views.filter((view) => view.isShared);
+
+  // The selected view can be updated once the view on screen drifts from it
+  const updatableView =
+    selectedView && selectedView.id !== activeViewId && canManageView(selectedView)
+      ? selectedView
+      : null;
+  const deletableView = activeView && canManageView(activeView) ? activeView : null;
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onSelect={() => onSelectView(view)}>
+      <Check
+        className={cn('size-4 mr-2', view.id === activeViewId ? 'opacity-100' : 'opacity-0')}
+      />
+      <span className="truncate">{view.name}</span>
+      {view.isShared && <Users className="size-3.5 ml-auto text-gray-400" />}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'flex items-center justify-center gap-1.5 px-2.5 sm:px-3 py-2 rounded-md border',
+            'text-sm font-normal',
+            'hover:bg-gray-50 transition-all duration-200',
+            'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2',
+            activeView
+              ? 'border-primary-300 bg-primary-50 text-primary-700'
+              : 'border-gray-200 text-gray-800'
+          )}
+          aria-label="Saved views"
+        >
+          <Bookmark
+            className={cn('size-5', activeView ? 'text-primary-600' : 'text-gray-800')}
+          />
+          {/* Hide label on mobile, show on sm+ */}
+          <span className="hidden sm:inline max-w-[120px] truncate">
+            {activeView ? activeView.name : 'Views'}
+          </span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        {views.length === 0 && (
+          <div className="px-2 py-3 text-center text-xs text-gray-500">No saved views yet</div>
+        )}
+
+        {myViews.length > 0 && (
+          <>
+            <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+              My views
+            </DropdownMenuLabel>
+            {myViews.map(renderViewItem)}
+          </>
+        )}
+
+        {sharedViews.length > 0 && (
+          <>
+            {myViews.length > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+              Shared with project
+            </DropdownMenuLabel>
+            {sharedViews.map(renderViewItem)}
+          </>
+        )}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onSaveView}>
+          <Plus className="size-4 mr-2" />
+          Save current view…
+        </DropdownMenuItem>
+        {updatableView && onUpdateView && (
+          <DropdownMenuItem onSelect={() => onUpdateView(updatableView)}>
+            <RefreshCw className="size-4 mr-2" />
+            <span className="truncate">Update &ldquo;{updatableView.name}&rdquo;</span>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={onCopyLink}>
+          <Link2 className="size-4 mr-2" />
+          Copy link to view
+        </DropdownMenuItem>
+        {deletableView && onDeleteView && (
+          <DropdownMenuItem
+            onSelect={() => onDeleteView(deletableView)}
+            className="text-red-600 focus:text-red-600"
+          >
+            <Trash2 className="size-4 mr-2" />
+            <span className="truncate">Delete &ldquo;{deletableView.name}&rdquo;</span>
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default SavedViewsMenu;
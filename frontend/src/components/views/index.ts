@@ -2,3 +2,5 @@
 export { ListView, type ListViewProps } from './ListView';
 export { CalendarView, type CalendarViewProps } from './CalendarView';
 export { CalendarEventContent } from './CalendarEventContent';
+export { SavedViewsMenu, type SavedViewsMenuProps } from './SavedViewsMenu';
+export { SaveViewDialog, type SaveViewDialogProps } from './SaveViewDialog';
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { Building2, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { getApiError } from '@/lib/axios';
+
+export interface CreateWorkspaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (name: string) => Promise<unknown>;
+}
+
+export function CreateWorkspaceDialog({ open, onOpenChange, onCreate }: CreateWorkspaceDialogProps) {
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setName('');
+      setError(null);
+    }
+    onOpenChange(newOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError('Workspace name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onCreate(trimmedName);
+      handleOpenChange(false);
+    } catch (err) {
+      setError(getApiError(err).message || 'Failed to create workspace. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            New Workspace
+          </DialogTitle>
+          <DialogDescription>
+            A workspace groups projects for a team or company, with its own members and
+            labels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          {/* Error message */}
+          {error && (
+            <div className="px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-sm text-red-600">
+              {error}
+            </div>
+          )}
+
+          {/* Name input */}
+          <div className="space-y-2">
+            <label htmlFor="workspace-name" className="text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              id="workspace-name"
+              type="text"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="e.g. Acme Inc."
+              maxLength={100}
+              className={cn(
+                'w-full px-3 py-2 text-sm bg-white border rounded-lg',
+                'focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500',
+                'transition-colors',
+                error ? 'border-red-300' : 'border-gray-200'
+              )}
+              autoFocus
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Creating...
+                </>
+              ) : (
+                'Create Workspace'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CreateWorkspaceDialog;
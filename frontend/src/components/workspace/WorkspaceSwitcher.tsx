@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useQueryClient } from '@tanstack/react-query';
+import { Check, ChevronsUpDown, Plus, Settings } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { createWorkspace } from '@/lib/api/workspaces';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import { CreateWorkspaceDialog } from './CreateWorkspaceDialog';
+
+export interface WorkspaceSwitcherProps {
+  /** Show only the workspace initial (collapsed sidebar) */
+  collapsed?: boolean;
+  onNavigate?: () => void;
+}
+
+export function WorkspaceSwitcher({ collapsed = false, onNavigate }: WorkspaceSwitcherProps) {
+  const queryClient = useQueryClient();
+  const { workspaces, currentWorkspace, setCurrentWorkspace, isLoading } = useWorkspace();
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+
+  const handleCreate = async (name: string) => {
+    const workspace = await createWorkspace(name);
+    await queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    setCurrentWorkspace(workspace.id);
+  };
+
+  if (isLoading || !currentWorkspace) {
+    return <Skeleton className={cn('h-11 rounded-lg', collapsed ? 'w-11 mx-auto' : 'w-full')} />;
+  }
+
+  const initial = currentWorkspace.name.charAt(0).toUpperCase();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            className={cn(
+              'flex items-center gap-2.5 rounded-lg border border-gray-200 p-1.5',
+              'hover:bg-gray-50 transition-colors',
+              'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gray-400',
+              collapsed ? 'justify-center mx-auto' : 'w-full'
+            )}
+            title={collapsed ? currentWorkspace.name : undefined}
+            aria-label="Switch workspace"
+          >
+            <span className="flex size-8 shrink-0 items-center justify-center rounded-md bg-gray-800 text-sm font-medium text-white">
+              {initial}
+            </span>
+            {!collapsed && (
+              <>
+                <span className="min-w-0 flex-1 text-left">
+                  <span className="block truncate text-sm font-medium text-gray-800">
+                    {currentWorkspace.name}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {currentWorkspace._count.members} member
+                    {currentWorkspace._count.members !== 1 ? 's' : ''}
+                  </span>
+                </span>
+                <ChevronsUpDown className="size-4 shrink-0 text-gray-400" />
+              </>
+            )}
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60">
+          <DropdownMenuLabel className="text-xs font-normal text-gray-500">
+            Workspaces
+          </DropdownMenuLabel>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem
+              key={workspace.id}
+              onSelect={() => setCurrentWorkspace(workspace.id)}
+            >
+              <Check
+                className={cn(
+                  'size-4 mr-2',
+                  workspace.id === currentWorkspace.id ? 'opacity-100' : 'opacity-0'
+                )}
+              />
+              <span className="truncate">{workspace.name}</span>
+              <span className="ml-auto text-xs text-gray-400">
+                {workspace._count.projects}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem asChild>
+            <Link href="/workspace/settings" onClick={onNavigate}>
+              <Settings className="size-4 mr-2" />
+              Workspace settings
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setCreateDialogOpen(true)}>
+            <Plus className="size-4 mr-2" />
+            New workspace…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateWorkspaceDialog
+        open={createDialogOpen}
+        onOpenChange={setCreateDialogOpen}
+        onCreate={handleCreate}
+      />
+    </>
+  );
+}
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,3 @@
+// Workspace switching and creation components
+export { WorkspaceSwitcher, type WorkspaceSwitcherProps } from './WorkspaceSwitcher';
+export { CreateWorkspaceDialog, type CreateWorkspaceDialogProps } from './CreateWorkspaceDialog';
@@ -22,27 +22,78 @@ export type { TaskWithColumn } from './useTasks';
 // Single task operations hook
 export { useTask } from './useTask';
 
+// Subtask (checklist) operations hook
+export { useSubtasks } from './useSubtasks';
+
+// Task dependency (blocks / blocked by) hook
+export { useDependencies } from './useDependencies';
+
 // Label operations hook
 export { useLabels } from './useLabels';
 
+// Custom field definitions and task values hook
+export { useCustomFields } from './useCustomFields';
+
 // Assignee operations hook
 export { useAssignees } from './useAssignees';
 
 // Project members hook
 export { useProjectMembers, type MemberRole } from './useProjectMembers';
 
+// Current user's project role and permissions hook
+export { usePermissions } from './usePermissions';
+
+// @mention autocomplete state for comments and descriptions
+export { useMentionSuggestions } from './useMentionSuggestions';
+
 // View preference hook (per-project localStorage persistence)
 export { useViewPreference, type ViewMode } from './useViewPreference';
 
+// Board swimlanes hook (grouping + moving tasks between lanes)
+export { useSwimlanes } from './useSwimlanes';
+
 // Search hook with debouncing
 export { useSearch } from './useSearch';
 
 // Filter state management hook
 export { useFilters } from './useFilters';
 
+// Server-side task query hook (filter, sort, cursor pagination)
+export { useTaskQuery } from './useTaskQuery';
+
+// Saved project views hook
+export { useSavedViews } from './useSavedViews';
+
+// Project view <-> URL sync hook for shareable links
+export { useViewUrlSync } from './useViewUrlSync';
+
 // Projects operations hook
 export { useProjects } from './useProjects';
 
+// Workspace member directory hook
+export { useWorkspaceMembers } from './useWorkspaceMembers';
+
+// Workspace-wide labels hook
+export { useWorkspaceLabels } from './useWorkspaceLabels';
+
+// Built-in and saved project templates hook
+export { useProjectTemplates } from './useProjectTemplates';
+
+// Project trash hook (deleted tasks, restore, permanent delete)
+export { useProjectTrash } from './useProjectTrash';
+
+// Deleted projects hook (restore, permanent delete)
+export { useTrashedProjects } from './useTrashedProjects';
+
+// Notification center hook (list, unread count, mark read)
+export { useNotifications } from './useNotifications';
+
+// Per-event email notification preferences hook
+export { useNotificationPreferences } from './useNotificationPreferences';
+
+// Shareable project join links hook
+export { useInviteLinks } from './useInviteLinks';
+
 // Presence tracking hook for real-time editing indicators
 export { usePresence } from './usePresence';
 export type {
@@ -50,3 +101,14 @@ export type {
   UsePresenceOptions,
   UsePresenceReturn,
 } from './usePresence';
+
+// Collaborative description editing hook (Yjs over the app socket)
+export { useDescriptionCollaboration } from './useDescriptionCollaboration';
+export type {
+  DescriptionCollaboration,
+  UseDescriptionCollaborationOptions,
+} from './useDescriptionCollaboration';
+
+// Viewing presence hook for who has a board or task open
+export { useViewers } from './useViewers';
+export type { Viewer, UseViewersOptions, UseViewersReturn } from './useViewers';
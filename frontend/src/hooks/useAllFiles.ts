@@ -7,6 +7,7 @@ import {
   type GlobalFile,
   type GlobalFilesFilters,
 } from '@/lib/api/files';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 
 interface UseAllFilesOptions {
   filters?: GlobalFilesFilters;
@@ -19,15 +20,18 @@ export interface ProjectGroup {
 }
 
 /**
- * Hook for fetching all files across all projects the user is a member of.
+ * Hook for fetching all files across the current workspace's projects the user is a member of.
  * Supports filtering, sorting, and pagination.
  * Also provides files grouped by project for UI display.
  */
 export function useAllFiles({ filters, enabled = true }: UseAllFilesOptions = {}) {
+  const { currentWorkspaceId } = useWorkspace();
+  const scopedFilters: GlobalFilesFilters = { ...filters, workspaceId: currentWorkspaceId };
+
   // Query for fetching all files
   const filesQuery = useQuery({
-    queryKey: ['allFiles', filters],
-    queryFn: () => getAllFiles(filters),
+    queryKey: ['allFiles', scopedFilters],
+    queryFn: () => getAllFiles(scopedFilters),
     staleTime: 30 * 1000, // 30 seconds
     enabled,
   });
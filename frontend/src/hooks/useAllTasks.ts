@@ -9,6 +9,7 @@ import {
   type GlobalTasksFilters,
   type GlobalTasksResponse,
 } from '@/lib/api/tasks';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 
 interface UseAllTasksOptions {
   filters?: GlobalTasksFilters;
@@ -16,17 +17,19 @@ interface UseAllTasksOptions {
 }
 
 /**
- * Hook for fetching all tasks across all projects the user is a member of.
+ * Hook for fetching all tasks across the current workspace's projects the user is a member of.
  * Supports filtering, sorting, and pagination.
  * Also provides a mutation for toggling task completion status.
  */
 export function useAllTasks({ filters, enabled = true }: UseAllTasksOptions = {}) {
   const queryClient = useQueryClient();
+  const { currentWorkspaceId } = useWorkspace();
+  const scopedFilters: GlobalTasksFilters = { ...filters, workspaceId: currentWorkspaceId };
 
   // Query for fetching all tasks
   const tasksQuery = useQuery({
-    queryKey: ['allTasks', filters],
-    queryFn: () => getAllTasks(filters),
+    queryKey: ['allTasks', scopedFilters],
+    queryFn: () => getAllTasks(scopedFilters),
     staleTime: 30 * 1000, // 30 seconds
     enabled,
   });
@@ -55,7 +58,7 @@ export function useAllTasks({ filters, enabled = true }: UseAllTasksOptions = {}
       // Snapshot the previous value
       const previousData = queryClient.getQueryData<GlobalTasksResponse>([
         'allTasks',
-        filters,
+        scopedFilters,
       ]);
 
       // Optimistically update the cache
@@ -70,7 +73,7 @@ export function useAllTasks({ filters, enabled = true }: UseAllTasksOptions = {}
           return t;
         });
 
-        queryClient.setQueryData<GlobalTasksResponse>(['allTasks', filters], {
+        queryClient.setQueryData<GlobalTasksResponse>(['allTasks', scopedFilters], {
           ...previousData,
           tasks: updatedTasks,
         });
@@ -81,7 +84,7 @@ export function useAllTasks({ filters, enabled = true }: UseAllTasksOptions = {}
     onError: (err, _vars, context) => {
       // Rollback on error
       if (context?.previousData) {
-        queryClient.setQueryData(['allTasks', filters], context.previousData);
+        queryClient.setQueryData(['allTasks', scopedFilters], context.previousData);
       }
       toast.error('Failed to update task', {
         description: err instanceof Error ? err.message : 'Please try again',
@@ -13,8 +13,10 @@ import type { AuthState, RegisterInput, LoginInput } from '@/types/auth';
 import * as authApi from '@/lib/api/auth';
 
 interface AuthContextType extends AuthState {
-  login: (data: LoginInput) => Promise<void>;
-  register: (data: RegisterInput) => Promise<void>;
+  /** Signs in, then navigates to `redirectTo` (pass null to stay on the page) */
+  login: (data: LoginInput, redirectTo?: string | null) => Promise<void>;
+  /** Creates an account, then navigates to `redirectTo` (pass null to stay on the page) */
+  register: (data: RegisterInput, redirectTo?: string | null) => Promise<void>;
   logout: () => Promise<void>;
   refreshAuth: () => Promise<void>;
 }
@@ -107,7 +109,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Login
   const login = useCallback(
-    async (data: LoginInput) => {
+    async (data: LoginInput, redirectTo: string | null = '/dashboard') => {
       const { user, accessToken } = await authApi.login(data);
       setToken(accessToken);
       setState({
@@ -116,14 +118,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading: false,
         isAuthenticated: true,
       });
-      router.push('/dashboard');
+      if (redirectTo) {
+        router.push(redirectTo);
+      }
     },
     [router, setToken]
   );
 
   // Register
   const register = useCallback(
-    async (data: RegisterInput) => {
+    async (data: RegisterInput, redirectTo: string | null = '/dashboard') => {
       const { user, accessToken } = await authApi.register(data);
       setToken(accessToken);
       setState({
@@ -132,7 +136,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading: false,
         isAuthenticated: true,
       });
-      router.push('/dashboard');
+      if (redirectTo) {
+        router.push(redirectTo);
+      }
     },
     [router, setToken]
   );
@@ -18,6 +18,8 @@ import {
   arrayMove,
 } from '@dnd-kit/sortable';
 import type { Task, ColumnWithTasks } from '@/components/board/Board';
+import type { WipLimitMode } from '@/lib/api/projects';
+import type { Viewer } from './useViewers';
 
 // Active drag item state
 export interface ActiveDragItem {
@@ -36,13 +38,22 @@ export interface BoardDndCallbacks {
     newOrder: number
   ) => void;
   onReorderColumn?: (columnId: string, newOrder: number) => void;
+  // Called instead of onMoveTask when a drop would exceed a column's WIP limit
+  onWipLimitExceeded?: (column: ColumnWithTasks) => void;
+  // Called when a task is dropped into a different swimlane
+  onMoveTaskToLane?: (taskId: string, fromLaneId: string, toLaneId: string) => void;
+  // Called with the task ID when a task drag starts and null when it ends,
+  // so other viewers can see which card is being moved
+  onTaskDragChange?: (taskId: string | null) => void;
 }
 
 // Hook configuration options
 export interface UseBoardDndOptions {
   columns: ColumnWithTasks[];
   callbacks?: BoardDndCallbacks;
+  wipLimitMode?: WipLimitMode; // Project WIP enforcement (default: OFF)
   activationDistance?: number; // Pixels before drag activates (default: 8)
+  remoteDraggedTasks?: Record<string, Viewer>; // Cards other users are dragging, by task ID
 }
 
 // Hook return type
@@ -59,10 +70,13 @@ export interface UseBoardDndReturn {
   sortedColumns: ColumnWithTasks[];
   // Column IDs for SortableContext
   columnIds: string[];
+  // Cards other users are dragging, for highlighting (excludes our own drag)
+  remoteDraggedTasks: Record<string, Viewer>;
   // Event handlers
   handleDragStart: (event: DragStartEvent) => void;
   handleDragOver: (event: DragOverEvent) => void;
   handleDragEnd: (event: DragEndEvent) => void;
+  handleDragCancel: () => void;
 }
 
 /**
@@ -116,13 +130,24 @@ const customCollisionDetection: CollisionDetection = (args) => {
  * - Optimistic local state updates
  * - Configurable activation distance
  * - Custom collision detection for better empty column targeting
+ * - Refuses drops into full columns when WIP limits are blocking
+ * - Moving tasks across swimlanes (lane id carried in droppable data)
+ * - Sharing the dragged card with other viewers and highlighting theirs
  */
 export function useBoardDnd({
   columns,
   callbacks = {},
+  wipLimitMode = 'OFF',
   activationDistance = 8,
+  remoteDraggedTasks: remoteDrags,
 }: UseBoardDndOptions): UseBoardDndReturn {
-  const { onMoveTask, onReorderColumn } = callbacks;
+  const {
+    onMoveTask,
+    onReorderColumn,
+    onWipLimitExceeded,
+    onMoveTaskToLane,
+    onTaskDragChange,
+  } = callbacks;
 
   // Local optimistic state for columns
   const [localColumns, setLocalColumns] = useState<ColumnWithTasks[]>(columns);
@@ -184,6 +209,7 @@ export function useBoardDnd({
             task,
             columnId: task.columnId,
           });
+          onTaskDragChange?.(task.id);
         }
       } else if (activeData?.type === 'column') {
         setActiveItem({
@@ -193,7 +219,7 @@ export function useBoardDnd({
         });
       }
     },
-    [findTask]
+    [findTask, onTaskDragChange]
   );
 
   // Handle drag over - for cross-column movement preview (future enhancement)
@@ -210,12 +236,16 @@ export function useBoardDnd({
     (event: DragEndEvent) => {
       const { active, over } = event;
 
+      const activeData = active.data.current;
+
       // Clear active item regardless of outcome
       setActiveItem(null);
+      if (activeData?.type === 'task') {
+        onTaskDragChange?.(null);
+      }
 
       if (!over) return;
 
-      const activeData = active.data.current;
       const overData = over.data.current;
 
       // Handle column reordering
@@ -250,6 +280,18 @@ export function useBoardDnd({
       if (activeData?.type === 'task') {
         const taskId = active.id as string;
 
+        // Dropping into another swimlane changes the grouped attribute
+        const fromLaneId: string | undefined = activeData.laneId;
+        const toLaneId: string | undefined = overData?.laneId;
+        const changesLane = !!fromLaneId && !!toLaneId && fromLaneId !== toLaneId;
+        const notifyLaneChange = () => {
+          if (changesLane) {
+            setTimeout(() => {
+              onMoveTaskToLane?.(taskId, fromLaneId!, toLaneId!);
+            }, 0);
+          }
+        };
+
         setLocalColumns((currentColumns) => {
           // Find source column
           let sourceColumnId: string | undefined;
@@ -267,6 +309,12 @@ export function useBoardDnd({
           let newOrder = 0;
 
           if (overData?.type === 'column') {
+            // Dropped into another lane of the same column: keep the task's position
+            if (changesLane && overData.columnId === sourceColumnId) {
+              notifyLaneChange();
+              return currentColumns;
+            }
+
             // Dropped on a column (empty area or column header)
             targetColumnId = overData.columnId;
             const targetColumn = currentColumns.find(
@@ -304,6 +352,7 @@ export function useBoardDnd({
           if (sourceColumnId === targetColumnId) {
             // Check if same position (no change needed)
             if (currentTaskIndex === newOrder) {
+              notifyLaneChange();
               return currentColumns;
             }
 
@@ -316,8 +365,10 @@ export function useBoardDnd({
                   newOrder
                 );
                 // Update order values
-                reorderedTasks.forEach((t, i) => (t.order = i));
-                return { ...col, tasks: reorderedTasks };
+                return {
+                  ...col,
+                  tasks: reorderedTasks.map((t, i) => ({ ...t, order: i })),
+                };
               }
               return col;
             });
@@ -326,10 +377,26 @@ export function useBoardDnd({
             setTimeout(() => {
               onMoveTask?.(taskId, sourceColumnId!, targetColumnId, newOrder);
             }, 0);
+            notifyLaneChange();
 
             return newColumns;
           }
 
+          // Keep open tasks out of a full column when the project blocks on WIP limits
+          const destinationColumn = currentColumns.find((col) => col.id === targetColumnId);
+          const movingTask = sourceColumn?.tasks?.[currentTaskIndex];
+          if (
+            wipLimitMode === 'BLOCK' &&
+            destinationColumn?.wipLimit &&
+            !movingTask?.completedAt &&
+            destinationColumn.tasks.filter((t) => !t.completedAt).length >= destinationColumn.wipLimit
+          ) {
+            setTimeout(() => {
+              onWipLimitExceeded?.(destinationColumn);
+            }, 0);
+            return currentColumns;
+          }
+
           // Cross-column movement
           const newColumns = currentColumns.map((col) => ({
             ...col,
@@ -340,32 +407,58 @@ export function useBoardDnd({
           const sourceCol = newColumns.find((col) => col.id === sourceColumnId);
           if (!sourceCol) return currentColumns;
 
-          const [movedTask] = sourceCol.tasks.splice(currentTaskIndex, 1);
+          const [removedTask] = sourceCol.tasks.splice(currentTaskIndex, 1);
 
           // Add task to target column at the right position
           const targetCol = newColumns.find((col) => col.id === targetColumnId);
           if (!targetCol) return currentColumns;
 
-          movedTask.columnId = targetColumnId;
-          movedTask.order = newOrder;
+          // Copy rather than mutate, so a failed move can roll back to the cached task
+          const movedTask = { ...removedTask, columnId: targetColumnId, order: newOrder };
           targetCol.tasks.splice(newOrder, 0, movedTask);
 
           // Update order values for affected columns
-          sourceCol.tasks.forEach((t, i) => (t.order = i));
-          targetCol.tasks.forEach((t, i) => (t.order = i));
+          sourceCol.tasks = sourceCol.tasks.map((t, i) => ({ ...t, order: i }));
+          targetCol.tasks = targetCol.tasks.map((t, i) => ({ ...t, order: i }));
 
           // Call callback for API sync
           setTimeout(() => {
             onMoveTask?.(taskId, sourceColumnId!, targetColumnId, newOrder);
           }, 0);
+          notifyLaneChange();
 
           return newColumns;
         });
       }
     },
-    [localColumns, onMoveTask, onReorderColumn]
+    [
+      localColumns,
+      onMoveTask,
+      onReorderColumn,
+      onWipLimitExceeded,
+      onMoveTaskToLane,
+      onTaskDragChange,
+      wipLimitMode,
+    ]
   );
 
+  // Handle drag cancel (e.g. Escape) - nothing moves
+  const handleDragCancel = useCallback(() => {
+    if (activeItem?.type === 'task') {
+      onTaskDragChange?.(null);
+    }
+    setActiveItem(null);
+  }, [activeItem, onTaskDragChange]);
+
+  // A card we are dragging ourselves is not highlighted as someone else's
+  const remoteDraggedTasks = useMemo(() => {
+    if (!remoteDrags) return {};
+    if (activeItem?.type !== 'task' || !remoteDrags[activeItem.id]) return remoteDrags;
+
+    const { [activeItem.id]: _ownDrag, ...others } = remoteDrags;
+    return others;
+  }, [remoteDrags, activeItem]);
+
   return {
     sensors,
     collisionDetection: customCollisionDetection,
@@ -373,9 +466,11 @@ export function useBoardDnd({
     localColumns,
     sortedColumns,
     columnIds,
+    remoteDraggedTasks,
     handleDragStart,
     handleDragOver,
     handleDragEnd,
+    handleDragCancel,
   };
 }
 
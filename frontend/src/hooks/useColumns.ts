@@ -11,6 +11,7 @@ import {
   type UpdateColumnInput,
 } from '@/lib/api/columns';
 import type { Project, Column } from '@/lib/api/projects';
+import { getVersionConflict } from '@/lib/axios';
 
 interface UseColumnsOptions {
   projectId: string;
@@ -73,8 +74,11 @@ export function useColumns({ projectId }: UseColumnsOptions) {
 
   // Update column mutation with optimistic update
   const updateColumnMutation = useMutation({
-    mutationFn: ({ columnId, data }: { columnId: string; data: UpdateColumnInput }) =>
-      updateColumn(projectId, columnId, data),
+    mutationFn: ({ columnId, data }: { columnId: string; data: UpdateColumnInput }) => {
+      // Base the update on the column as currently shown on the board
+      const version = getProjectData()?.columns?.find((col) => col.id === columnId)?.version;
+      return updateColumn(projectId, columnId, { version, ...data });
+    },
     onMutate: async ({ columnId, data }) => {
       await queryClient.cancelQueries({ queryKey: ['project', projectId] });
 
@@ -97,6 +101,12 @@ export function useColumns({ projectId }: UseColumnsOptions) {
       if (context?.previousProject) {
         queryClient.setQueryData(['project', projectId], context.previousProject);
       }
+      if (getVersionConflict(err)) {
+        toast.error('Column was changed by someone else', {
+          description: 'The latest version is now shown. Please make your change again.',
+        });
+        return;
+      }
       toast.error('Failed to update column', {
         description: err instanceof Error ? err.message : 'Please try again',
       });
@@ -0,0 +1,197 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getCustomFields,
+  createCustomField,
+  updateCustomField,
+  deleteCustomField,
+  setTaskCustomFieldValue,
+  type CustomField,
+  type CustomFieldValue,
+  type CreateCustomFieldInput,
+  type UpdateCustomFieldInput,
+} from '@/lib/api/customFields';
+
+interface UseCustomFieldsOptions {
+  projectId: string;
+  enabled?: boolean;
+}
+
+// Minimal task type for cache updates
+interface TaskCacheItem {
+  id: string;
+  customFields?: Record<string, CustomFieldValue>;
+}
+
+interface SetValueVariables {
+  taskId: string;
+  fieldId: string;
+  value: CustomFieldValue | null;
+}
+
+// Apply a value change to a task's customFields map (null removes the entry)
+function withFieldValue<T extends TaskCacheItem>(
+  task: T,
+  fieldId: string,
+  value: CustomFieldValue | null
+): T {
+  const { [fieldId]: _previous, ...rest } = task.customFields ?? {};
+  return { ...task, customFields: value === null ? rest : { ...rest, [fieldId]: value } };
+}
+
+/**
+ * Hook for project custom field definitions and per-task values.
+ * Value changes are applied optimistically to the board and task caches.
+ */
+export function useCustomFields({ projectId, enabled = true }: UseCustomFieldsOptions) {
+  const queryClient = useQueryClient();
+
+  // Fetch project custom fields
+  const {
+    data: fields = [],
+    isLoading,
+    error,
+  } = useQuery<CustomField[]>({
+    queryKey: ['customFields', projectId],
+    queryFn: () => getCustomFields(projectId),
+    enabled: !!projectId && enabled,
+  });
+
+  // Create field mutation
+  const createFieldMutation = useMutation({
+    mutationFn: (data: CreateCustomFieldInput) => createCustomField(projectId, data),
+    onSuccess: (newField) => {
+      queryClient.setQueryData<CustomField[]>(['customFields', projectId], (old = []) => [
+        ...old,
+        newField,
+      ]);
+      toast.success('Field created');
+    },
+    onError: (err) => {
+      toast.error('Failed to create field', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['customFields', projectId] });
+    },
+  });
+
+  // Update field mutation
+  const updateFieldMutation = useMutation({
+    mutationFn: ({ fieldId, data }: { fieldId: string; data: UpdateCustomFieldInput }) =>
+      updateCustomField(projectId, fieldId, data),
+    onSuccess: (updatedField) => {
+      queryClient.setQueryData<CustomField[]>(['customFields', projectId], (old = []) =>
+        old.map((field) => (field.id === updatedField.id ? updatedField : field))
+      );
+      toast.success('Field updated');
+    },
+    onError: (err) => {
+      toast.error('Failed to update field', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['customFields', projectId] });
+      // Removed options are cleared from tasks on the server
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    },
+  });
+
+  // Delete field mutation
+  const deleteFieldMutation = useMutation({
+    mutationFn: (fieldId: string) => deleteCustomField(projectId, fieldId),
+    onMutate: async (fieldId) => {
+      await queryClient.cancelQueries({ queryKey: ['customFields', projectId] });
+
+      const previousFields = queryClient.getQueryData<CustomField[]>([
+        'customFields',
+        projectId,
+      ]);
+
+      queryClient.setQueryData<CustomField[]>(['customFields', projectId], (old = []) =>
+        old.filter((field) => field.id !== fieldId)
+      );
+
+      return { previousFields };
+    },
+    onSuccess: () => {
+      toast.success('Field deleted');
+    },
+    onError: (err, _fieldId, context) => {
+      if (context?.previousFields) {
+        queryClient.setQueryData(['customFields', projectId], context.previousFields);
+      }
+      toast.error('Failed to delete field', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['customFields', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    },
+  });
+
+  // Set a task's value with optimistic update on the board and in the open task
+  const setValueMutation = useMutation({
+    mutationFn: ({ taskId, fieldId, value }: SetValueVariables) =>
+      setTaskCustomFieldValue(projectId, taskId, fieldId, value),
+    onMutate: async ({ taskId, fieldId, value }) => {
+      await queryClient.cancelQueries({ queryKey: ['tasks', projectId] });
+      await queryClient.cancelQueries({ queryKey: ['task', projectId, taskId] });
+
+      const previousTasks = queryClient.getQueryData<TaskCacheItem[]>(['tasks', projectId]);
+      const previousTask = queryClient.getQueryData<TaskCacheItem>(['task', projectId, taskId]);
+
+      queryClient.setQueryData<TaskCacheItem[]>(['tasks', projectId], (old) =>
+        old?.map((task) => (task.id === taskId ? withFieldValue(task, fieldId, value) : task))
+      );
+      if (previousTask) {
+        queryClient.setQueryData<TaskCacheItem>(
+          ['task', projectId, taskId],
+          withFieldValue(previousTask, fieldId, value)
+        );
+      }
+
+      return { previousTasks, previousTask };
+    },
+    onError: (err, { taskId }, context) => {
+      if (context?.previousTasks) {
+        queryClient.setQueryData(['tasks', projectId], context.previousTasks);
+      }
+      if (context?.previousTask) {
+        queryClient.setQueryData(['task', projectId, taskId], context.previousTask);
+      }
+      toast.error('Failed to update field', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: (_data, _err, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+    },
+  });
+
+  return {
+    // Data
+    fields,
+    isLoading,
+    error,
+
+    // Mutations
+    createField: createFieldMutation.mutateAsync,
+    updateField: (fieldId: string, data: UpdateCustomFieldInput) =>
+      updateFieldMutation.mutateAsync({ fieldId, data }),
+    deleteField: deleteFieldMutation.mutateAsync,
+    setTaskValue: setValueMutation.mutate,
+
+    // Loading states
+    isCreating: createFieldMutation.isPending,
+    isUpdating: updateFieldMutation.isPending,
+    isDeleting: deleteFieldMutation.isPending,
+  };
+}
+
+export default useCustomFields;
@@ -0,0 +1,89 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getTaskDependencies,
+  addDependency,
+  removeDependency,
+  type AddDependencyInput,
+} from '@/lib/api/dependencies';
+import { getApiError } from '@/lib/axios';
+
+interface UseDependenciesOptions {
+  projectId: string;
+  taskId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for managing "blocks / blocked by" links of a task
+ */
+export function useDependencies({ projectId, taskId, enabled = true }: UseDependenciesOptions) {
+  const queryClient = useQueryClient();
+  const queryKey = ['dependencies', projectId, taskId];
+
+  // Links change the blocked state of both tasks, so refresh the board too
+  const invalidateRelated = () => {
+    queryClient.invalidateQueries({ queryKey: ['dependencies', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+  };
+
+  // Query for fetching dependencies
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getTaskDependencies(projectId, taskId),
+    enabled: !!projectId && !!taskId && enabled,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+
+  // Mutation for linking a task
+  const addMutation = useMutation({
+    mutationFn: (data: AddDependencyInput) => addDependency(projectId, taskId, data),
+    onSuccess: invalidateRelated,
+    onError: (err) => {
+      // Surface the server reason (e.g. cycle detected) rather than a generic failure
+      toast.error('Failed to add dependency', {
+        description: getApiError(err).message,
+      });
+    },
+  });
+
+  // Mutation for unlinking a task
+  const removeMutation = useMutation({
+    mutationFn: (otherTaskId: string) => removeDependency(projectId, taskId, otherTaskId),
+    onSuccess: invalidateRelated,
+    onError: (err) => {
+      toast.error('Failed to remove dependency', {
+        description: getApiError(err).message,
+      });
+    },
+  });
+
+  return {
+    // Query data
+    blockedBy: query.data?.blockedBy ?? [],
+    blocking: query.data?.blocking ?? [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+
+    // Mutations
+    addDependency: addMutation.mutate,
+    removeDependency: removeMutation.mutate,
+
+    // Async versions
+    addAsync: addMutation.mutateAsync,
+    removeAsync: removeMutation.mutateAsync,
+
+    // Loading states
+    isAdding: addMutation.isPending,
+    isRemoving: removeMutation.isPending,
+
+    // Refetch
+    refetch: query.refetch,
+  };
+}
+
+export default useDependencies;
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useDebouncedCallback } from 'use-debounce';
+import { useSocket } from '@/providers/SocketProvider';
+import { useAuth } from '@/hooks/useAuth';
+import type { DescriptionProvider } from '@/lib/collaboration';
+
+// Remote cursor colors, picked per user so a teammate keeps the same color
+const CARET_COLORS = [
+  '#ef4444',
+  '#f59e0b',
+  '#10b981',
+  '#0ea5e9',
+  '#6366f1',
+  '#a855f7',
+  '#ec4899',
+  '#14b8a6',
+];
+
+function getCaretColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return CARET_COLORS[Math.abs(hash) % CARET_COLORS.length];
+}
+
+export interface UseDescriptionCollaborationOptions {
+  /** Project containing the task */
+  projectId: string;
+  /** Task whose description is co-edited */
+  taskId: string;
+  /** Whether to join the collaborative session (default: true) */
+  enabled?: boolean;
+  /** How long to wait after the last local edit before saving (default: 1000ms) */
+  saveDelayMs?: number;
+}
+
+/**
+ * Everything the editor needs to co-edit a description
+ */
+export interface DescriptionCollaboration {
+  provider: DescriptionProvider;
+  /** Name and caret color shown to the other editors */
+  user: { name: string; color: string };
+  /** Save the merged document (debounced) */
+  save: (html: string) => void;
+}
+
+/**
+ * Hook for co-editing a task description with Yjs over the app socket.
+ *
+ * Joins the task's description session once the socket is connected and
+ * keeps it across reconnects, so offline edits merge when the socket is
+ * back. Local edits are saved back to the task after a short pause; the
+ * pending save is flushed when the session closes.
+ *
+ * Returns null until the session is available - callers fall back to
+ * regular editing.
+ */
+export function useDescriptionCollaboration({
+  projectId,
+  taskId,
+  enabled = true,
+  saveDelayMs = 1000,
+}: UseDescriptionCollaborationOptions): DescriptionCollaboration | null {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { isConnected, createDescriptionProvider } = useSocket();
+  const [provider, setProvider] = useState<DescriptionProvider | null>(null);
+  const providerRef = useRef<DescriptionProvider | null>(null);
+
+  const save = useDebouncedCallback((html: string) => {
+    providerRef.current?.save(html);
+  }, saveDelayMs);
+
+  // Close the session when disabled or when the task changes
+  useEffect(() => {
+    if (!enabled || !taskId) return;
+
+    return () => {
+      save.flush();
+      providerRef.current?.destroy();
+      providerRef.current = null;
+      setProvider(null);
+
+      // Collaborative saves are not broadcast as task updates, so refresh now
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+    };
+  }, [enabled, taskId, projectId, save, queryClient]);
+
+  // Join once the socket is connected; the provider rejoins by itself later
+  useEffect(() => {
+    if (!enabled || !taskId || !isConnected || providerRef.current) return;
+
+    const created = createDescriptionProvider(taskId);
+    providerRef.current = created;
+    setProvider(created);
+  }, [enabled, taskId, isConnected, createDescriptionProvider]);
+
+  const name = user?.name ?? 'Anonymous';
+  const color = user ? getCaretColor(user.id) : CARET_COLORS[0];
+
+  return useMemo(
+    () => (provider ? { provider, user: { name, color }, save } : null),
+    [provider, name, color, save]
+  );
+}
@@ -1,24 +1,27 @@
 'use client';
 
 import { useState, useCallback, useMemo } from 'react';
-import type { FilterState } from '@/components/filter';
+import {
+  emptyFilters,
+  hasActiveFilters as getHasActiveFilters,
+  getActiveFilterCount,
+  type FilterState,
+} from '@/components/filter';
 import type { Task } from '@/lib/api/tasks';
-
-const emptyFilters: FilterState = {
-  priority: [],
-  labels: [],
-  assignees: [],
-  dueDate: null,
-};
+import type { CustomField } from '@/lib/api/customFields';
+import { matchesCustomFieldFilter } from '@/lib/customFields';
+import { getDueDateRange, isInDueDateRange } from '@/lib/taskQuery';
 
 interface UseFiltersOptions {
   initialFilters?: Partial<FilterState>;
+  /** Project custom fields, needed to apply custom field filters */
+  customFields?: CustomField[];
 }
 
 /**
  * Hook for managing filter state and applying filters to tasks.
  */
-export function useFilters({ initialFilters = {} }: UseFiltersOptions = {}) {
+export function useFilters({ initialFilters = {}, customFields = [] }: UseFiltersOptions = {}) {
   const [filters, setFilters] = useState<FilterState>({
     ...emptyFilters,
     ...initialFilters,
@@ -28,86 +31,56 @@ export function useFilters({ initialFilters = {} }: UseFiltersOptions = {}) {
     setFilters(emptyFilters);
   }, []);
 
-  const hasActiveFilters = useMemo(() => {
-    return (
-      filters.priority.length > 0 ||
-      filters.labels.length > 0 ||
-      filters.assignees.length > 0 ||
-      filters.dueDate !== null
-    );
-  }, [filters]);
-
-  const activeFilterCount = useMemo(() => {
-    let count = 0;
-    if (filters.priority.length > 0) count++;
-    if (filters.labels.length > 0) count++;
-    if (filters.assignees.length > 0) count++;
-    if (filters.dueDate !== null) count++;
-    return count;
-  }, [filters]);
+  const hasActiveFilters = useMemo(() => getHasActiveFilters(filters), [filters]);
+
+  const activeFilterCount = useMemo(() => getActiveFilterCount(filters), [filters]);
 
   /**
-   * Filter a list of tasks based on current filter state.
+   * Filter a list of tasks based on current filter state. Tasks must match
+   * every active criterion, or any of them when filters.match is 'any'.
    */
   const filterTasks = useCallback(
     (tasks: Task[]): Task[] => {
       if (!hasActiveFilters) return tasks;
 
+      const dueDateRange = filters.dueDate ? getDueDateRange(filters.dueDate) : null;
+
       return tasks.filter((task) => {
+        const results: boolean[] = [];
+
         // Priority filter
         if (filters.priority.length > 0) {
-          if (!task.priority || !filters.priority.includes(task.priority as 'HIGH' | 'MEDIUM' | 'LOW')) {
-            return false;
-          }
+          results.push(!!task.priority && filters.priority.includes(task.priority));
         }
 
         // Labels filter
         if (filters.labels.length > 0) {
           const taskLabelIds = (task.labels || []).map((l) => l.id);
-          const hasMatchingLabel = filters.labels.some((labelId) =>
-            taskLabelIds.includes(labelId)
-          );
-          if (!hasMatchingLabel) return false;
+          results.push(filters.labels.some((labelId) => taskLabelIds.includes(labelId)));
         }
 
         // Assignees filter
         if (filters.assignees.length > 0) {
           const taskAssigneeIds = (task.assignees || []).map((a) => a.id);
-          const hasMatchingAssignee = filters.assignees.some((userId) =>
-            taskAssigneeIds.includes(userId)
-          );
-          if (!hasMatchingAssignee) return false;
+          results.push(filters.assignees.some((userId) => taskAssigneeIds.includes(userId)));
         }
 
         // Due date filter
-        if (filters.dueDate !== null) {
-          const now = new Date();
-          const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          const weekEnd = new Date(today);
-          weekEnd.setDate(weekEnd.getDate() + 7);
-
-          if (filters.dueDate === 'none') {
-            if (task.dueDate) return false;
-          } else if (filters.dueDate === 'overdue') {
-            if (!task.dueDate) return false;
-            const dueDate = new Date(task.dueDate);
-            if (dueDate >= today) return false;
-          } else if (filters.dueDate === 'today') {
-            if (!task.dueDate) return false;
-            const dueDate = new Date(task.dueDate);
-            const dueDateDay = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
-            if (dueDateDay.getTime() !== today.getTime()) return false;
-          } else if (filters.dueDate === 'week') {
-            if (!task.dueDate) return false;
-            const dueDate = new Date(task.dueDate);
-            if (dueDate < today || dueDate > weekEnd) return false;
-          }
+        if (dueDateRange) {
+          results.push(isInDueDateRange(task.dueDate, dueDateRange));
+        }
+
+        // Custom field filters (one criterion per field with a selection)
+        for (const [fieldId, selected] of Object.entries(filters.customFields)) {
+          const field = customFields.find((f) => f.id === fieldId);
+          if (!field || selected.length === 0) continue;
+          results.push(matchesCustomFieldFilter(field, task.customFields?.[fieldId], selected));
         }
 
-        return true;
+        return filters.match === 'any' ? results.some(Boolean) : results.every(Boolean);
       });
     },
-    [filters, hasActiveFilters]
+    [filters, hasActiveFilters, customFields]
   );
 
   return {
@@ -0,0 +1,80 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getInviteLinks,
+  createInviteLink,
+  revokeInviteLink,
+  type CreateInviteLinkInput,
+  type InviteLink,
+} from '@/lib/api/invitations';
+import { getApiError } from '@/lib/axios';
+
+interface UseInviteLinksOptions {
+  projectId: string;
+  /** Only owners and admins can manage join links */
+  enabled?: boolean;
+}
+
+/**
+ * Hook for a project's shareable join links
+ */
+export function useInviteLinks({ projectId, enabled = true }: UseInviteLinksOptions) {
+  const queryClient = useQueryClient();
+  const queryKey = ['invite-links', projectId];
+
+  const query = useQuery<InviteLink[]>({
+    queryKey,
+    queryFn: () => getInviteLinks(projectId),
+    enabled: !!projectId && enabled,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: CreateInviteLinkInput) => createInviteLink(projectId, data),
+    onSuccess: (link) => {
+      queryClient.setQueryData<InviteLink[]>(queryKey, (old = []) => [link, ...old]);
+      toast.success('Join link created');
+    },
+    onError: (err) => {
+      toast.error('Failed to create join link', { description: getApiError(err).message });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: string) => revokeInviteLink(projectId, linkId),
+    onMutate: async (linkId) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<InviteLink[]>(queryKey);
+
+      // Optimistically remove the link
+      queryClient.setQueryData<InviteLink[]>(queryKey, (old = []) =>
+        old.filter((l) => l.id !== linkId)
+      );
+
+      return { previous };
+    },
+    onSuccess: () => {
+      toast.success('Join link revoked');
+    },
+    onError: (err, _linkId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast.error('Failed to revoke join link', { description: getApiError(err).message });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  return {
+    links: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+
+    createLink: createMutation.mutateAsync,
+    revokeLink: revokeMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+  };
+}
@@ -11,6 +11,7 @@ import {
   type CreateLabelInput,
   type UpdateLabelInput,
 } from '@/lib/api/labels';
+import { getVersionConflict } from '@/lib/axios';
 
 interface UseLabelsOptions {
   projectId: string;
@@ -57,8 +58,13 @@ export function useLabels({ projectId }: UseLabelsOptions) {
 
   // Update label mutation
   const updateLabelMutation = useMutation({
-    mutationFn: ({ labelId, data }: { labelId: string; data: UpdateLabelInput }) =>
-      updateLabel(projectId, labelId, data),
+    mutationFn: ({ labelId, data }: { labelId: string; data: UpdateLabelInput }) => {
+      // Base the update on the label as currently shown
+      const version = queryClient
+        .getQueryData<Label[]>(['labels', projectId])
+        ?.find((label) => label.id === labelId)?.version;
+      return updateLabel(projectId, labelId, { version, ...data });
+    },
     onSuccess: (updatedLabel) => {
       // Update cache with updated label
       queryClient.setQueryData<Label[]>(['labels', projectId], (old = []) =>
@@ -67,6 +73,12 @@ export function useLabels({ projectId }: UseLabelsOptions) {
       toast.success('Label updated');
     },
     onError: (err) => {
+      if (getVersionConflict(err)) {
+        toast.error('Label was changed by someone else', {
+          description: 'The latest version is now shown. Please make your change again.',
+        });
+        return;
+      }
       toast.error('Failed to update label', {
         description: err instanceof Error ? err.message : 'Please try again',
       });
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useCallback, useMemo } from 'react';
+import {
+  filterMentionMembers,
+  getMentionQuery,
+  type MentionMember,
+} from '@/lib/mentions';
+
+interface UseMentionSuggestionsOptions {
+  members: MentionMember[];
+}
+
+/**
+ * Hook for @mention autocomplete state, shared by the comment input and the
+ * rich text editor. Callers report the text before the cursor and forward
+ * key presses; inserting the mention is up to them.
+ */
+export function useMentionSuggestions({ members }: UseMentionSuggestionsOptions) {
+  const [mention, setMention] = useState<{ query: string; length: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const items = useMemo(
+    () => (mention ? filterMentionMembers(members, mention.query) : []),
+    [members, mention]
+  );
+  const isOpen = items.length > 0;
+
+  // Call after every edit or cursor move
+  const update = useCallback((textBeforeCursor: string) => {
+    setMention(getMentionQuery(textBeforeCursor));
+    setActiveIndex(0);
+  }, []);
+
+  const close = useCallback(() => {
+    setMention(null);
+  }, []);
+
+  /**
+   * Handle navigation keys while the list is open. Returns true when the key
+   * was used (the caller should then prevent its default).
+   */
+  const handleKeyDown = useCallback(
+    (key: string, onSelect: (member: MentionMember) => void): boolean => {
+      if (!isOpen) return false;
+
+      switch (key) {
+        case 'ArrowDown':
+          setActiveIndex((i) => (i + 1) % items.length);
+          return true;
+        case 'ArrowUp':
+          setActiveIndex((i) => (i - 1 + items.length) % items.length);
+          return true;
+        case 'Enter':
+        case 'Tab':
+          onSelect(items[activeIndex] ?? items[0]);
+          return true;
+        case 'Escape':
+          setMention(null);
+          return true;
+        default:
+          return false;
+      }
+    },
+    [isOpen, items, activeIndex]
+  );
+
+  return {
+    /** Length of the "@query" text to replace with the mention */
+    queryLength: mention?.length ?? 0,
+    items,
+    isOpen,
+    activeIndex,
+    setActiveIndex,
+    update,
+    close,
+    handleKeyDown,
+  };
+}
+
+export default useMentionSuggestions;
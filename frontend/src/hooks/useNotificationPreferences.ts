@@ -0,0 +1,57 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  type NotificationPreference,
+} from '@/lib/api/notifications';
+
+/**
+ * Hook for the current user's per-event email preferences with
+ * optimistic updates
+ */
+export function useNotificationPreferences() {
+  const queryClient = useQueryClient();
+  const queryKey = ['notification-preferences'];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: getNotificationPreferences,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (preference: NotificationPreference) =>
+      updateNotificationPreferences([preference]),
+    onMutate: async (preference) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<NotificationPreference[]>(queryKey);
+
+      queryClient.setQueryData<NotificationPreference[]>(queryKey, (old) =>
+        old?.map((p) => (p.type === preference.type ? preference : p))
+      );
+
+      return { previous };
+    },
+    onError: (_error, _preference, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast.error('Failed to update email preferences');
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(queryKey, preferences);
+    },
+  });
+
+  return {
+    preferences: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+
+    updatePreference: updateMutation.mutate,
+    isUpdating: updateMutation.isPending,
+  };
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  type Notification,
+  type NotificationsMeta,
+} from '@/lib/api/notifications';
+
+interface UseNotificationsOptions {
+  enabled?: boolean;
+}
+
+type NotificationsData = { notifications: Notification[]; meta: NotificationsMeta };
+
+const LIMIT = 20;
+
+/**
+ * Hook for the current user's notification center with optimistic
+ * mark-as-read. New notifications arrive over the socket, which
+ * invalidates ['notifications'].
+ */
+export function useNotifications({ enabled = true }: UseNotificationsOptions = {}) {
+  const queryClient = useQueryClient();
+  const queryKey = ['notifications'];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getNotifications({ limit: LIMIT }),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  // Apply a read state to the cache and return the previous data for rollback
+  const setReadInCache = async (notificationId: string | null) => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<NotificationsData>(queryKey);
+
+    queryClient.setQueryData<NotificationsData>(queryKey, (old) => {
+      if (!old) return old;
+      const readAt = new Date().toISOString();
+      let changed = 0;
+      const notifications = old.notifications.map((n) => {
+        if (n.readAt || (notificationId && n.id !== notificationId)) return n;
+        changed += 1;
+        return { ...n, readAt };
+      });
+      return {
+        notifications,
+        meta: {
+          ...old.meta,
+          unreadCount: notificationId ? Math.max(0, old.meta.unreadCount - changed) : 0,
+        },
+      };
+    });
+
+    return { previous };
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: markNotificationRead,
+    onMutate: setReadInCache,
+    onError: (_err, _id, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: markAllNotificationsRead,
+    onMutate: () => setReadInCache(null),
+    onError: (err, _vars, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast.error('Failed to mark notifications as read', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+  });
+
+  return {
+    notifications: query.data?.notifications ?? [],
+    unreadCount: query.data?.meta.unreadCount ?? 0,
+    isLoading: query.isLoading,
+    markRead: markReadMutation.mutate,
+    markAllRead: () => markAllReadMutation.mutate(),
+  };
+}
+
+export default useNotifications;
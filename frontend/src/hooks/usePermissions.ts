@@ -0,0 +1,43 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  getProjectPermissions,
+  type ProjectPermission,
+  type ProjectPermissions,
+} from '@/lib/api/projects';
+
+interface UsePermissionsOptions {
+  projectId: string;
+}
+
+/**
+ * Hook for the current user's role and permissions in a project.
+ * The server enforces every permission; this only lets the UI hide actions
+ * the user cannot perform.
+ */
+export function usePermissions({ projectId }: UsePermissionsOptions) {
+  const { data, isLoading } = useQuery<ProjectPermissions>({
+    queryKey: ['project-permissions', projectId],
+    queryFn: () => getProjectPermissions(projectId),
+    enabled: !!projectId,
+  });
+
+  const permissions = data?.permissions;
+
+  // Nothing is allowed until the permissions have loaded
+  const can = useCallback(
+    (permission: ProjectPermission) => !!permissions?.includes(permission),
+    [permissions]
+  );
+
+  return {
+    role: data?.role ?? null,
+    permissions: permissions ?? [],
+    can,
+    isLoading,
+  };
+}
+
+export default usePermissions;
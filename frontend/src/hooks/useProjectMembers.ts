@@ -9,7 +9,16 @@ import {
   removeMember,
   type ProjectMember,
 } from '@/lib/api/projects';
-import { useAuth } from './useAuth';
+import {
+  getProjectInvitations,
+  createInvitation,
+  resendInvitation,
+  revokeInvitation,
+  type InvitationRole,
+  type ProjectInvitation,
+} from '@/lib/api/invitations';
+import { getApiError } from '@/lib/axios';
+import { usePermissions } from './usePermissions';
 
 export type MemberRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
 
@@ -19,11 +28,11 @@ interface UseProjectMembersOptions {
 
 /**
  * Hook for project member management.
- * Provides query for fetching members and mutations for add/update/remove.
+ * Provides query for fetching members and mutations for add/update/remove,
+ * plus pending email invitations for owners and admins.
  */
 export function useProjectMembers({ projectId }: UseProjectMembersOptions) {
   const queryClient = useQueryClient();
-  const { user: currentUser } = useAuth();
 
   // Fetch project members
   const {
@@ -36,9 +45,8 @@ export function useProjectMembers({ projectId }: UseProjectMembersOptions) {
     enabled: !!projectId,
   });
 
-  // Find current user's role in this project
-  const currentUserMember = members.find((m) => m.userId === currentUser?.id);
-  const currentUserRole = currentUserMember?.role || null;
+  // Current user's role and what it allows in this project
+  const { role: currentUserRole, can } = usePermissions({ projectId });
 
   // Permission helpers
   const isOwner = currentUserRole === 'OWNER';
@@ -46,18 +54,27 @@ export function useProjectMembers({ projectId }: UseProjectMembersOptions) {
   const isMember = currentUserRole === 'MEMBER';
   const isViewer = currentUserRole === 'VIEWER';
 
-  // Can manage members (add/remove) - owner or admin
-  const canManageMembers = isOwner || isAdmin;
-  // Can change member roles - owner only
-  const canChangeRoles = isOwner;
-  // Can create/edit/move tasks - everyone except viewer
-  const canEditTasks = !isViewer && currentUserRole !== null;
+  // Can manage members (invite/remove)
+  const canManageMembers = can('member.invite');
+  // Can change member roles
+  const canChangeRoles = can('member.role.change');
+  // Can create/edit/move tasks
+  const canEditTasks = can('task.update');
   // Can access project settings page - everyone except viewer
   const canAccessSettings = !isViewer && currentUserRole !== null;
-  // Can edit project name/description - owner or admin
-  const canEditProject = isOwner || isAdmin;
-  // Can delete project - owner only
-  const canDeleteProject = isOwner;
+  // Can edit project name/description
+  const canEditProject = can('project.update');
+  // Can delete project
+  const canDeleteProject = can('project.delete');
+
+  // Fetch pending invitations (only owners and admins can see them)
+  const { data: invitations = [], isLoading: isLoadingInvitations } = useQuery<
+    ProjectInvitation[]
+  >({
+    queryKey: ['project-invitations', projectId],
+    queryFn: () => getProjectInvitations(projectId),
+    enabled: !!projectId && canManageMembers,
+  });
 
   // Add member mutation
   const addMemberMutation = useMutation({
@@ -88,6 +105,78 @@ export function useProjectMembers({ projectId }: UseProjectMembersOptions) {
     },
   });
 
+  // Invite by email mutation
+  const inviteMutation = useMutation({
+    mutationFn: ({ email, role }: { email: string; role: InvitationRole }) =>
+      createInvitation(projectId, email, role),
+    onSuccess: (invitation) => {
+      queryClient.setQueryData<ProjectInvitation[]>(
+        ['project-invitations', projectId],
+        (old = []) => [invitation, ...old.filter((i) => i.id !== invitation.id)]
+      );
+      toast.success('Invitation sent', {
+        description: `We emailed an invitation to ${invitation.email}`,
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-invitations', projectId] });
+    },
+  });
+
+  // Resend invitation mutation
+  const resendInvitationMutation = useMutation({
+    mutationFn: (invitationId: string) => resendInvitation(projectId, invitationId),
+    onSuccess: (invitation) => {
+      queryClient.setQueryData<ProjectInvitation[]>(
+        ['project-invitations', projectId],
+        (old = []) => old.map((i) => (i.id === invitation.id ? invitation : i))
+      );
+      toast.success('Invitation resent', {
+        description: `We emailed a new link to ${invitation.email}`,
+      });
+    },
+    onError: (err) => {
+      toast.error('Failed to resend invitation', { description: getApiError(err).message });
+    },
+  });
+
+  // Revoke invitation mutation
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (invitationId: string) => revokeInvitation(projectId, invitationId),
+    onMutate: async (invitationId) => {
+      await queryClient.cancelQueries({ queryKey: ['project-invitations', projectId] });
+
+      const previousInvitations = queryClient.getQueryData<ProjectInvitation[]>([
+        'project-invitations',
+        projectId,
+      ]);
+
+      // Optimistically remove the invitation
+      queryClient.setQueryData<ProjectInvitation[]>(
+        ['project-invitations', projectId],
+        (old = []) => old.filter((i) => i.id !== invitationId)
+      );
+
+      return { previousInvitations };
+    },
+    onSuccess: () => {
+      toast.success('Invitation revoked');
+    },
+    onError: (err, _invitationId, context) => {
+      // Rollback on error
+      if (context?.previousInvitations) {
+        queryClient.setQueryData(
+          ['project-invitations', projectId],
+          context.previousInvitations
+        );
+      }
+      toast.error('Failed to revoke invitation', { description: getApiError(err).message });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-invitations', projectId] });
+    },
+  });
+
   // Update member role mutation
   const updateRoleMutation = useMutation({
     mutationFn: ({
@@ -192,6 +281,8 @@ export function useProjectMembers({ projectId }: UseProjectMembersOptions) {
     members,
     isLoading,
     error,
+    invitations,
+    isLoadingInvitations,
 
     // Current user info
     currentUserRole,
@@ -214,11 +305,16 @@ export function useProjectMembers({ projectId }: UseProjectMembersOptions) {
     updateRole: (userId: string, role: 'ADMIN' | 'MEMBER' | 'VIEWER') =>
       updateRoleMutation.mutateAsync({ userId, role }),
     removeMember: removeMemberMutation.mutateAsync,
+    inviteMember: (email: string, role: InvitationRole = 'MEMBER') =>
+      inviteMutation.mutateAsync({ email, role }),
+    resendInvitation: resendInvitationMutation.mutateAsync,
+    revokeInvitation: revokeInvitationMutation.mutateAsync,
 
     // Loading states
     isAdding: addMemberMutation.isPending,
     isUpdating: updateRoleMutation.isPending,
     isRemoving: removeMemberMutation.isPending,
+    isInviting: inviteMutation.isPending,
   };
 }
 
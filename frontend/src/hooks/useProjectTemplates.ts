@@ -0,0 +1,56 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { getTemplates, deleteTemplate, type ProjectTemplate } from '@/lib/api/templates';
+
+interface UseProjectTemplatesOptions {
+  workspaceId: string | undefined;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for the project templates available in a workspace (built-in and saved).
+ */
+export function useProjectTemplates({ workspaceId, enabled = true }: UseProjectTemplatesOptions) {
+  const queryClient = useQueryClient();
+  const queryKey = ['project-templates', workspaceId];
+
+  // Fetch templates
+  const {
+    data: templates = [],
+    isLoading,
+    error,
+  } = useQuery<ProjectTemplate[]>({
+    queryKey,
+    queryFn: () => getTemplates(workspaceId!),
+    enabled: !!workspaceId && enabled,
+  });
+
+  // Delete template mutation
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (templateId: string) => deleteTemplate(workspaceId!, templateId),
+    onSuccess: () => {
+      toast.success('Template deleted');
+    },
+    onError: (err) => {
+      toast.error('Failed to delete template', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    // Data
+    templates,
+    isLoading,
+    error,
+
+    // Mutations
+    deleteTemplate: deleteTemplateMutation.mutateAsync,
+    isDeleting: deleteTemplateMutation.isPending,
+  };
+}
+
+export default useProjectTemplates;
@@ -0,0 +1,76 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { getProjectTrash, restoreTask, purgeTask, type TrashedTask } from '@/lib/api/trash';
+
+interface UseProjectTrashOptions {
+  projectId: string;
+}
+
+/**
+ * Hook for a project's trash: deleted tasks with restore and permanent delete.
+ */
+export function useProjectTrash({ projectId }: UseProjectTrashOptions) {
+  const queryClient = useQueryClient();
+  const queryKey = ['trash', 'tasks', projectId];
+
+  // Fetch deleted tasks
+  const {
+    data: tasks = [],
+    isLoading,
+    error,
+  } = useQuery<TrashedTask[]>({
+    queryKey,
+    queryFn: () => getProjectTrash(projectId),
+    enabled: !!projectId,
+  });
+
+  // Restore task mutation
+  const restoreMutation = useMutation({
+    mutationFn: (taskId: string) => restoreTask(projectId, taskId),
+    onSuccess: () => {
+      // The task is back on the board
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] });
+      toast.success('Task restored');
+    },
+    onError: (err) => {
+      toast.error('Failed to restore task', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  // Permanent delete mutation
+  const purgeMutation = useMutation({
+    mutationFn: (taskId: string) => purgeTask(projectId, taskId),
+    onSuccess: () => {
+      toast.success('Task permanently deleted');
+    },
+    onError: (err) => {
+      toast.error('Failed to delete task', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    // Data
+    tasks,
+    isLoading,
+    error,
+
+    // Mutations
+    restoreTask: restoreMutation.mutateAsync,
+    purgeTask: purgeMutation.mutateAsync,
+
+    // Loading states
+    isRestoring: restoreMutation.isPending,
+    isPurging: purgeMutation.isPending,
+  };
+}
+
+export default useProjectTrash;
@@ -8,27 +8,31 @@ import {
   deleteProject,
   type CreateProjectInput,
 } from '@/lib/api/projects';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 
 /**
  * Hook for fetching and managing user projects.
- * Provides query for projects list and mutations for create/delete.
+ * Provides query for the current workspace's projects and mutations for create/delete.
  */
 export function useProjects() {
   const queryClient = useQueryClient();
+  const { currentWorkspaceId } = useWorkspace();
 
-  // Query for fetching all projects
+  // Query for fetching the current workspace's projects
   const projectsQuery = useQuery({
-    queryKey: ['projects'],
-    queryFn: getProjects,
+    queryKey: ['projects', currentWorkspaceId],
+    queryFn: () => getProjects(currentWorkspaceId),
     staleTime: 60 * 1000, // 1 minute
   });
 
-  // Create project mutation
+  // Create project mutation (new projects go to the current workspace)
   const createProjectMutation = useMutation({
-    mutationFn: (data: CreateProjectInput) => createProject(data),
+    mutationFn: (data: CreateProjectInput) =>
+      createProject({ workspaceId: currentWorkspaceId, ...data }),
     onSuccess: () => {
-      // Invalidate and refetch projects list
+      // Invalidate and refetch projects list and workspace project counts
       queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
       toast.success('Project created successfully');
     },
     onError: (error: Error) => {
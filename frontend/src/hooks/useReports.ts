@@ -7,11 +7,13 @@ import {
   getTasksByAssignee,
   getTasksByPriority,
   getCompletionMetrics,
+  getCustomFieldByStatus,
   type TasksOverTimeData,
   type TasksByStatusData,
   type TasksByAssigneeData,
   type TasksByPriorityData,
   type CompletionMetrics,
+  type CustomFieldByStatusData,
 } from '@/lib/api/reports';
 
 // Query keys
@@ -26,6 +28,8 @@ export const reportsKeys = {
     [...reportsKeys.all, 'tasks-by-priority', projectId] as const,
   completionMetrics: (projectId: string) =>
     [...reportsKeys.all, 'completion-metrics', projectId] as const,
+  customFieldByStatus: (projectId: string, fieldId: string) =>
+    [...reportsKeys.all, 'custom-field-by-status', projectId, fieldId] as const,
 };
 
 // Hook for tasks over time (line chart)
@@ -78,6 +82,16 @@ export function useCompletionMetrics(projectId: string | undefined) {
   });
 }
 
+// Hook for a custom field aggregated by status (e.g. story points per column)
+export function useCustomFieldByStatus(projectId: string | undefined, fieldId: string | undefined) {
+  return useQuery<CustomFieldByStatusData[], Error>({
+    queryKey: reportsKeys.customFieldByStatus(projectId ?? '', fieldId ?? ''),
+    queryFn: () => getCustomFieldByStatus(projectId!, fieldId!),
+    enabled: !!projectId && !!fieldId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 // Combined hook for all reports data
 export function useProjectReports(projectId: string | undefined, days: number = 30) {
   const tasksOverTime = useTasksOverTime(projectId, days);
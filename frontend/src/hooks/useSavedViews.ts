@@ -0,0 +1,115 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getSavedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+  type SavedView,
+  type CreateSavedViewInput,
+  type UpdateSavedViewInput,
+} from '@/lib/api/savedViews';
+
+interface UseSavedViewsOptions {
+  projectId: string;
+  enabled?: boolean;
+}
+
+/**
+ * Hook for a project's saved views (the user's own and shared ones)
+ */
+export function useSavedViews({ projectId, enabled = true }: UseSavedViewsOptions) {
+  const queryClient = useQueryClient();
+
+  // Fetch saved views
+  const {
+    data: views = [],
+    isLoading,
+    error,
+  } = useQuery<SavedView[]>({
+    queryKey: ['savedViews', projectId],
+    queryFn: () => getSavedViews(projectId),
+    enabled: !!projectId && enabled,
+  });
+
+  // Create view mutation
+  const createViewMutation = useMutation({
+    mutationFn: (data: CreateSavedViewInput) => createSavedView(projectId, data),
+    onSuccess: (newView) => {
+      queryClient.setQueryData<SavedView[]>(['savedViews', projectId], (old = []) =>
+        [...old, newView].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      toast.success('View saved');
+    },
+    onError: (err) => {
+      toast.error('Failed to save view', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+  });
+
+  // Update view mutation
+  const updateViewMutation = useMutation({
+    mutationFn: ({ viewId, data }: { viewId: string; data: UpdateSavedViewInput }) =>
+      updateSavedView(projectId, viewId, data),
+    onSuccess: (updatedView) => {
+      queryClient.setQueryData<SavedView[]>(['savedViews', projectId], (old = []) =>
+        old.map((view) => (view.id === updatedView.id ? updatedView : view))
+      );
+      toast.success('View updated');
+    },
+    onError: (err) => {
+      toast.error('Failed to update view', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+  });
+
+  // Delete view mutation with optimistic update
+  const deleteViewMutation = useMutation({
+    mutationFn: (viewId: string) => deleteSavedView(projectId, viewId),
+    onMutate: async (viewId) => {
+      await queryClient.cancelQueries({ queryKey: ['savedViews', projectId] });
+
+      const previousViews = queryClient.getQueryData<SavedView[]>(['savedViews', projectId]);
+
+      queryClient.setQueryData<SavedView[]>(['savedViews', projectId], (old = []) =>
+        old.filter((view) => view.id !== viewId)
+      );
+
+      return { previousViews };
+    },
+    onError: (err, _viewId, context) => {
+      if (context?.previousViews) {
+        queryClient.setQueryData(['savedViews', projectId], context.previousViews);
+      }
+      toast.error('Failed to delete view', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['savedViews', projectId] });
+    },
+  });
+
+  return {
+    // Data
+    views,
+    isLoading,
+    error,
+
+    // Mutations
+    createView: createViewMutation.mutateAsync,
+    updateView: (viewId: string, data: UpdateSavedViewInput) =>
+      updateViewMutation.mutateAsync({ viewId, data }),
+    deleteView: deleteViewMutation.mutate,
+
+    // Loading states
+    isCreating: createViewMutation.isPending,
+    isUpdating: updateViewMutation.isPending,
+  };
+}
+
+export default useSavedViews;
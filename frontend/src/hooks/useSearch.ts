@@ -4,6 +4,7 @@ import { useState, useCallback, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useDebounce } from 'use-debounce';
 import { search, type SearchResults, type SearchParams } from '@/lib/api/search';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 
 interface UseSearchOptions {
   projectId?: string;
@@ -13,7 +14,7 @@ interface UseSearchOptions {
 }
 
 /**
- * Hook for searching tasks and projects with debouncing.
+ * Hook for searching tasks and projects in the current workspace with debouncing.
  */
 export function useSearch({
   projectId,
@@ -23,6 +24,7 @@ export function useSearch({
 }: UseSearchOptions = {}) {
   const [query, setQuery] = useState('');
   const [debouncedQuery] = useDebounce(query, debounceMs);
+  const { currentWorkspaceId } = useWorkspace();
 
   // Only search if we have a query with at least 2 characters
   const shouldSearch = enabled && debouncedQuery.trim().length >= 2;
@@ -30,10 +32,11 @@ export function useSearch({
   const searchParams: SearchParams = useMemo(
     () => ({
       q: debouncedQuery.trim(),
+      workspaceId: currentWorkspaceId,
       projectId,
       limit,
     }),
-    [debouncedQuery, projectId, limit]
+    [debouncedQuery, currentWorkspaceId, projectId, limit]
   );
 
   const {
@@ -7,14 +7,17 @@ import {
   type DashboardStats,
   type SingleProjectStats,
 } from '@/lib/api/stats';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 
 /**
- * Hook for fetching dashboard stats
+ * Hook for fetching dashboard stats for the current workspace
  */
 export function useDashboardStats() {
+  const { currentWorkspaceId } = useWorkspace();
+
   return useQuery<DashboardStats>({
-    queryKey: ['stats', 'dashboard'],
-    queryFn: getDashboardStats,
+    queryKey: ['stats', 'dashboard', currentWorkspaceId],
+    queryFn: () => getDashboardStats(currentWorkspaceId),
     staleTime: 60 * 1000, // 1 minute
     refetchInterval: 5 * 60 * 1000, // Refetch every 5 minutes
   });
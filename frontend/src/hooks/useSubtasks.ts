@@ -0,0 +1,188 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getTaskSubtasks,
+  createSubtask,
+  updateSubtask,
+  deleteSubtask,
+  type Subtask,
+  type UpdateSubtaskInput,
+} from '@/lib/api/subtasks';
+
+interface UseSubtasksOptions {
+  projectId: string;
+  taskId: string;
+  enabled?: boolean;
+}
+
+// Minimal task type for cache updates
+interface TaskCacheItem {
+  id: string;
+  subtaskProgress?: { total: number; completed: number };
+}
+
+/**
+ * Hook for managing a task's subtask checklist with optimistic updates
+ */
+export function useSubtasks({ projectId, taskId, enabled = true }: UseSubtasksOptions) {
+  const queryClient = useQueryClient();
+  const queryKey = ['subtasks', projectId, taskId];
+
+  // Helper to get current subtasks data
+  const getSubtasksData = () => {
+    return queryClient.getQueryData<Subtask[]>(queryKey) || [];
+  };
+
+  // Helper to sync progress counts on the board card
+  const updateTaskProgressCache = (subtasks: Subtask[]) => {
+    queryClient.setQueryData<TaskCacheItem[]>(['tasks', projectId], (old) => {
+      if (!old) return old;
+      return old.map((task) =>
+        task.id === taskId
+          ? {
+              ...task,
+              subtaskProgress: {
+                total: subtasks.length,
+                completed: subtasks.filter((s) => s.completedAt).length,
+              },
+            }
+          : task
+      );
+    });
+  };
+
+  // Query for fetching subtasks
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getTaskSubtasks(projectId, taskId),
+    enabled: !!projectId && !!taskId && enabled,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+
+  // Mutation for adding a subtask
+  const createMutation = useMutation({
+    mutationFn: (title: string) => createSubtask(projectId, taskId, title),
+    onSuccess: (newSubtask) => {
+      const subtasks = [...getSubtasksData(), newSubtask];
+      queryClient.setQueryData<Subtask[]>(queryKey, subtasks);
+      updateTaskProgressCache(subtasks);
+    },
+    onError: (err) => {
+      toast.error('Failed to add subtask', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+    },
+  });
+
+  // Mutation for updating a subtask with optimistic toggle/rename
+  const updateMutation = useMutation({
+    mutationFn: ({ subtaskId, data }: { subtaskId: string; data: UpdateSubtaskInput }) =>
+      updateSubtask(projectId, taskId, subtaskId, data),
+    onMutate: async ({ subtaskId, data }) => {
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousSubtasks = getSubtasksData();
+      const optimisticSubtasks = previousSubtasks.map((s) => {
+        if (s.id !== subtaskId) return s;
+        return {
+          ...s,
+          ...(data.title !== undefined && { title: data.title }),
+          ...(data.completed !== undefined && {
+            completedAt: data.completed ? new Date().toISOString() : null,
+          }),
+        };
+      });
+
+      queryClient.setQueryData<Subtask[]>(queryKey, optimisticSubtasks);
+      updateTaskProgressCache(optimisticSubtasks);
+
+      return { previousSubtasks };
+    },
+    onSuccess: (updatedSubtask, { data }) => {
+      // Reorders shift siblings, so refetch the list; otherwise patch in place
+      if (data.order !== undefined) {
+        queryClient.invalidateQueries({ queryKey });
+        return;
+      }
+      queryClient.setQueryData<Subtask[]>(queryKey, (old) =>
+        old?.map((s) => (s.id === updatedSubtask.id ? updatedSubtask : s)) ?? []
+      );
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previousSubtasks) {
+        queryClient.setQueryData(queryKey, context.previousSubtasks);
+        updateTaskProgressCache(context.previousSubtasks);
+      }
+      toast.error('Failed to update subtask', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+    },
+  });
+
+  // Mutation for deleting a subtask
+  const deleteMutation = useMutation({
+    mutationFn: (subtaskId: string) => deleteSubtask(projectId, taskId, subtaskId),
+    onMutate: async (subtaskId) => {
+      await queryClient.cancelQueries({ queryKey });
+
+      const previousSubtasks = getSubtasksData();
+      const remainingSubtasks = previousSubtasks.filter((s) => s.id !== subtaskId);
+
+      queryClient.setQueryData<Subtask[]>(queryKey, remainingSubtasks);
+      updateTaskProgressCache(remainingSubtasks);
+
+      return { previousSubtasks };
+    },
+    onError: (err, _subtaskId, context) => {
+      if (context?.previousSubtasks) {
+        queryClient.setQueryData(queryKey, context.previousSubtasks);
+        updateTaskProgressCache(context.previousSubtasks);
+      }
+      toast.error('Failed to delete subtask', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+    },
+  });
+
+  const subtasks = query.data ?? [];
+
+  return {
+    // Query data
+    subtasks,
+    completedCount: subtasks.filter((s) => s.completedAt).length,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+
+    // Mutations
+    createSubtask: createMutation.mutate,
+    updateSubtask: updateMutation.mutate,
+    deleteSubtask: deleteMutation.mutate,
+
+    // Async versions
+    createAsync: createMutation.mutateAsync,
+    updateAsync: updateMutation.mutateAsync,
+    deleteAsync: deleteMutation.mutateAsync,
+
+    // Loading states
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+
+    // Refetch
+    refetch: query.refetch,
+  };
+}
+
+export default useSubtasks;
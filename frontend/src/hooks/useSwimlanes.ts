@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { updateTask, type Task } from '@/lib/api/tasks';
+import { setTaskAssignees } from '@/lib/api/assignees';
+import { setTaskLabels } from '@/lib/api/labels';
+import {
+  SWIMLANE_GROUPINGS,
+  buildSwimlanes,
+  type Swimlane,
+  type SwimlaneGrouping,
+} from '@/lib/swimlanes';
+
+const STORAGE_KEY_PREFIX = 'tasktrox:swimlanes:';
+
+interface UseSwimlanesOptions {
+  projectId: string;
+  members: { id: string; name: string; avatar: string | null }[];
+  labels: { id: string; name: string; color: string }[];
+}
+
+interface MoveTaskToLaneVariables {
+  taskId: string;
+  fromLaneId: string;
+  toLaneId: string;
+}
+
+/**
+ * Hook for board swimlanes: the grouping (persisted per project in localStorage)
+ * and moving a task between lanes, which updates the grouped attribute.
+ */
+export function useSwimlanes({ projectId, members, labels }: UseSwimlanesOptions) {
+  const queryClient = useQueryClient();
+  const storageKey = `${STORAGE_KEY_PREFIX}${projectId}`;
+
+  const [grouping, setGroupingState] = useState<SwimlaneGrouping>('none');
+
+  // Hydrate from localStorage on mount (client-side only)
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(storageKey);
+      if (stored && SWIMLANE_GROUPINGS.some((g) => g.value === stored)) {
+        setGroupingState(stored as SwimlaneGrouping);
+      }
+    } catch {
+      // localStorage not available, use default
+    }
+  }, [storageKey]);
+
+  const setGrouping = useCallback(
+    (next: SwimlaneGrouping) => {
+      setGroupingState(next);
+      try {
+        localStorage.setItem(storageKey, next);
+      } catch {
+        console.warn('Failed to save swimlane preference to localStorage');
+      }
+    },
+    [storageKey]
+  );
+
+  const lanes = useMemo(
+    () => buildSwimlanes(grouping, { members, labels }),
+    [grouping, members, labels]
+  );
+
+  const findLane = (laneId: string): Swimlane | undefined =>
+    lanes.find((lane) => lane.id === laneId);
+
+  // Move a task to another lane by swapping the source lane's value for the target's
+  const moveTaskToLaneMutation = useMutation({
+    mutationFn: async ({ taskId, fromLaneId, toLaneId }: MoveTaskToLaneVariables) => {
+      const task = queryClient
+        .getQueryData<Task[]>(['tasks', projectId])
+        ?.find((t) => t.id === taskId);
+      const from = findLane(fromLaneId)?.value ?? null;
+      const to = findLane(toLaneId)?.value ?? null;
+
+      switch (grouping) {
+        case 'priority':
+          await updateTask(projectId, taskId, { priority: to as Task['priority'] });
+          break;
+        case 'assignee': {
+          const ids = (task?.assignees ?? []).map((a) => a.id).filter((id) => id !== from);
+          await setTaskAssignees(projectId, taskId, to && !ids.includes(to) ? [...ids, to] : ids);
+          break;
+        }
+        case 'label': {
+          const ids = (task?.labels ?? []).map((l) => l.id).filter((id) => id !== from);
+          await setTaskLabels(projectId, taskId, to && !ids.includes(to) ? [...ids, to] : ids);
+          break;
+        }
+      }
+    },
+    onMutate: async ({ taskId, fromLaneId, toLaneId }) => {
+      await queryClient.cancelQueries({ queryKey: ['tasks', projectId] });
+
+      const previousTasks = queryClient.getQueryData<Task[]>(['tasks', projectId]) || [];
+      const fromLane = findLane(fromLaneId);
+      const toLane = findLane(toLaneId);
+
+      // Show the task in its new lane right away
+      queryClient.setQueryData<Task[]>(
+        ['tasks', projectId],
+        previousTasks.map((task) => {
+          if (task.id !== taskId) return task;
+
+          if (grouping === 'priority') {
+            return { ...task, priority: (toLane?.value ?? null) as Task['priority'] };
+          }
+          if (grouping === 'assignee') {
+            const assignees = (task.assignees ?? []).filter((a) => a.id !== fromLane?.value);
+            return {
+              ...task,
+              assignees: toLane?.value
+                ? [
+                    { id: toLane.value, name: toLane.title, avatar: toLane.avatar ?? null },
+                    ...assignees.filter((a) => a.id !== toLane.value),
+                  ]
+                : assignees,
+            };
+          }
+          if (grouping === 'label') {
+            const taskLabels = (task.labels ?? []).filter((l) => l.id !== fromLane?.value);
+            return {
+              ...task,
+              labels: toLane?.value
+                ? [
+                    { id: toLane.value, name: toLane.title, color: toLane.color ?? '' },
+                    ...taskLabels.filter((l) => l.id !== toLane.value),
+                  ]
+                : taskLabels,
+            };
+          }
+          return task;
+        })
+      );
+
+      return { previousTasks };
+    },
+    onError: (err, _vars, context) => {
+      if (context?.previousTasks) {
+        queryClient.setQueryData(['tasks', projectId], context.previousTasks);
+      }
+      toast.error('Failed to move task to lane', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: (_data, _err, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+    },
+  });
+
+  return {
+    grouping,
+    setGrouping,
+    lanes,
+    moveTaskToLane: moveTaskToLaneMutation.mutate,
+    isMovingToLane: moveTaskToLaneMutation.isPending,
+  };
+}
+
+export default useSwimlanes;
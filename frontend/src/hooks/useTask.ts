@@ -9,6 +9,7 @@ import {
   type Task,
   type UpdateTaskInput,
 } from '@/lib/api/tasks';
+import { getVersionConflict } from '@/lib/axios';
 
 interface UseTaskOptions {
   projectId: string;
@@ -63,6 +64,8 @@ export function useTask({ projectId, taskId, enabled = true }: UseTaskOptions) {
       if (context?.previousTask) {
         queryClient.setQueryData(['task', projectId, taskId], context.previousTask);
       }
+      // Conflicts are resolved by the caller with the returned server state
+      if (getVersionConflict(err)) return;
       toast.error('Failed to update task', {
         description: err instanceof Error ? err.message : 'Please try again',
       });
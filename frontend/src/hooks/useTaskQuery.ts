@@ -0,0 +1,53 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { queryProjectTasks } from '@/lib/api/tasks';
+import type { TaskQuery } from '@/lib/taskQuery';
+
+interface UseTaskQueryOptions {
+  projectId: string;
+  filter?: TaskQuery['filter'];
+  sort?: TaskQuery['sort'];
+  enabled?: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Hook for querying a project's tasks on the server, one page at a time.
+ * Keyed under ['tasks', projectId] so task mutations and socket events
+ * refresh it along with the board.
+ */
+export function useTaskQuery({ projectId, filter, sort, enabled = true }: UseTaskQueryOptions) {
+  const query = useInfiniteQuery({
+    queryKey: ['tasks', projectId, 'query', filter ?? null, sort ?? null],
+    queryFn: ({ pageParam }) =>
+      queryProjectTasks(projectId, {
+        filter,
+        sort,
+        limit: PAGE_SIZE,
+        ...(pageParam && { cursor: pageParam }),
+      }),
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    initialPageParam: null as string | null,
+    enabled: !!projectId && enabled,
+    staleTime: 30 * 1000,
+  });
+
+  const tasks = useMemo(
+    () => query.data?.pages.flatMap((page) => page.tasks) ?? [],
+    [query.data]
+  );
+
+  return {
+    tasks,
+    total: query.data?.pages[0]?.total,
+    hasMore: query.hasNextPage,
+    loadMore: query.fetchNextPage,
+    isLoading: query.isLoading,
+    isLoadingMore: query.isFetchingNextPage,
+  };
+}
+
+export default useTaskQuery;
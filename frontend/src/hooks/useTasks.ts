@@ -12,12 +12,23 @@ import {
   type CreateTaskInput,
   type UpdateTaskInput,
   type MoveTaskInput,
+  type WipLimitWarning,
 } from '@/lib/api/tasks';
+import { getApiError } from '@/lib/axios';
 
 interface UseTasksOptions {
   projectId: string;
 }
 
+/**
+ * Let the user know a column went over its WIP limit (project in WARN mode)
+ */
+function showWipLimitWarning(warning: WipLimitWarning | undefined) {
+  if (warning) {
+    toast.warning('WIP limit exceeded', { description: warning.message });
+  }
+}
+
 // Extended task with column info for board display
 export interface TaskWithColumn extends Task {
   columnId: string;
@@ -71,6 +82,7 @@ export function useTasks({ projectId }: UseTasksOptions) {
         labels: [],
         assignees: [],
         _count: { comments: 0, attachments: 0 },
+        version: 1,
       };
 
       queryClient.setQueryData<Task[]>(['tasks', projectId], [
@@ -80,13 +92,18 @@ export function useTasks({ projectId }: UseTasksOptions) {
 
       return { previousTasks };
     },
+    onSuccess: ({ warning }) => {
+      showWipLimitWarning(warning);
+    },
     onError: (err, _newTask, context) => {
       if (context?.previousTasks) {
         queryClient.setQueryData(['tasks', projectId], context.previousTasks);
       }
-      toast.error('Failed to create task', {
-        description: err instanceof Error ? err.message : 'Please try again',
-      });
+      const apiError = getApiError(err);
+      toast.error(
+        apiError.code === 'WIP_LIMIT_EXCEEDED' ? 'Column is full' : 'Failed to create task',
+        { description: apiError.message }
+      );
     },
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
@@ -229,17 +246,49 @@ export function useTasks({ projectId }: UseTasksOptions) {
 
       return { previousTasks };
     },
-    onError: (err, _vars, context) => {
+    onError: (err, vars, context) => {
       if (context?.previousTasks) {
         queryClient.setQueryData(['tasks', projectId], context.previousTasks);
       }
-      toast.error('Failed to move task', {
-        description: err instanceof Error ? err.message : 'Please try again',
-      });
+      const apiError = getApiError(err);
+      if (apiError.code === 'TASK_BLOCKED') {
+        // Blocked tasks can still be finished deliberately
+        toast.warning('Task is blocked', {
+          description: apiError.message,
+          action: {
+            label: 'Move anyway',
+            onClick: () =>
+              moveTaskMutation.mutate({ ...vars, data: { ...vars.data, force: true } }),
+          },
+        });
+      } else if (apiError.code === 'SUBTASKS_INCOMPLETE') {
+        toast.error('Finish all subtasks first', {
+          description: apiError.message,
+        });
+      } else if (apiError.code === 'WIP_LIMIT_EXCEEDED') {
+        toast.error('Column is full', {
+          description: apiError.message,
+        });
+      } else {
+        toast.error('Failed to move task', {
+          description: apiError.message,
+        });
+      }
       // Refetch to restore correct state on error
       queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
     },
-    // No onSuccess refetch - local state is already correct from optimistic update
+    // No refetch on success - local state is already correct from optimistic update,
+    // except completion, which the server sets when a task enters or leaves a done column,
+    // and the version the move bumped
+    onSuccess: ({ task, warning }) => {
+      queryClient.setQueryData<Task[]>(['tasks', projectId], (tasks) =>
+        tasks?.map((t) =>
+          t.id === task.id ? { ...t, completedAt: task.completedAt, version: task.version } : t
+        )
+      );
+      queryClient.invalidateQueries({ queryKey: ['task', projectId, task.id] });
+      showWipLimitWarning(warning);
+    },
   });
 
   // Group tasks by column for board display
@@ -0,0 +1,76 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getTrashedProjects,
+  restoreProject,
+  purgeProject,
+  type TrashedProject,
+} from '@/lib/api/trash';
+
+/**
+ * Hook for the user's deleted projects with restore and permanent delete.
+ */
+export function useTrashedProjects() {
+  const queryClient = useQueryClient();
+  const queryKey = ['trash', 'projects'];
+
+  // Fetch deleted projects
+  const {
+    data: projects = [],
+    isLoading,
+    error,
+  } = useQuery<TrashedProject[]>({
+    queryKey,
+    queryFn: getTrashedProjects,
+  });
+
+  // Restore project mutation
+  const restoreMutation = useMutation({
+    mutationFn: (projectId: string) => restoreProject(projectId),
+    onSuccess: () => {
+      // Project lists and workspace project counts include it again
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+      toast.success('Project restored');
+    },
+    onError: (err) => {
+      toast.error('Failed to restore project', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  // Permanent delete mutation
+  const purgeMutation = useMutation({
+    mutationFn: (projectId: string) => purgeProject(projectId),
+    onSuccess: () => {
+      toast.success('Project permanently deleted');
+    },
+    onError: (err) => {
+      toast.error('Failed to delete project', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  return {
+    // Data
+    projects,
+    isLoading,
+    error,
+
+    // Mutations
+    restoreProject: restoreMutation.mutateAsync,
+    purgeProject: purgeMutation.mutateAsync,
+
+    // Loading states
+    isRestoring: restoreMutation.isPending,
+    isPurging: purgeMutation.isPending,
+  };
+}
+
+export default useTrashedProjects;
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter, usePathname, useSearchParams } from 'next/navigation';
+import {
+  isViewSearchParam,
+  viewConfigFromSearchParams,
+  viewConfigToSearchParams,
+  type ViewConfig,
+} from '@/lib/viewConfig';
+
+interface UseViewUrlSyncOptions {
+  /** The view currently on screen */
+  config: ViewConfig;
+  /** Called once on mount when the URL carries a view */
+  onLoad: (config: ViewConfig) => void;
+}
+
+/**
+ * Hook that keeps the project view encoded in the URL, so a copied link
+ * reproduces the exact view. A view in the URL wins over stored preferences.
+ */
+export function useViewUrlSync({ config, onLoad }: UseViewUrlSyncOptions) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  // Apply the view from the URL on mount (after stored preferences hydrate)
+  useEffect(() => {
+    const fromUrl = viewConfigFromSearchParams(new URLSearchParams(searchParams.toString()));
+    if (fromUrl) {
+      onLoadRef.current(fromUrl);
+    }
+    setIsLoaded(true);
+    // Only the initial URL matters; later changes come from this hook
+  }, []);
+
+  // Mirror view changes into the URL without adding history entries
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const params = new URLSearchParams(window.location.search);
+    for (const key of Array.from(params.keys())) {
+      if (isViewSearchParam(key)) params.delete(key);
+    }
+    viewConfigToSearchParams(config).forEach((value, key) => params.append(key, value));
+
+    const next = params.toString();
+    if (next !== window.location.search.replace(/^\?/, '')) {
+      router.replace(`${pathname}?${next}`, { scroll: false });
+    }
+  }, [config, isLoaded, pathname, router]);
+}
+
+export default useViewUrlSync;
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useSocket } from '@/providers/SocketProvider';
+import {
+  emitViewingStart,
+  emitViewingStop,
+  onViewingActive,
+  offViewingActive,
+  onViewingInactive,
+  offViewingInactive,
+  onViewingSync,
+  offViewingSync,
+  type ViewerEntry,
+  type ViewingInactivePayload,
+  type ViewingSyncPayload,
+} from '@/lib/socket';
+
+// Viewer entries expire on the server after 30s unless refreshed
+const REFRESH_INTERVAL_MS = 10 * 1000;
+const VIEWER_TTL_MS = 30 * 1000;
+const PRUNE_INTERVAL_MS = 5 * 1000;
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+/**
+ * A user who currently has the board or task open.
+ */
+export interface Viewer {
+  /** User's unique identifier */
+  id: string;
+  /** User's display name */
+  name: string;
+  /** User's avatar URL or null */
+  avatar: string | null;
+}
+
+/**
+ * Options for the useViewers hook.
+ */
+export interface UseViewersOptions {
+  /** Project being viewed */
+  projectId: string;
+  /** Task open in the detail modal; omit for the project board */
+  taskId?: string | null;
+  /** Card the current user is dragging on the board, shared with the others */
+  draggingTaskId?: string | null;
+  /** Whether viewing presence is enabled (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Return value from the useViewers hook.
+ */
+export interface UseViewersReturn {
+  /** Other users viewing the board or task (one entry per user) */
+  viewers: Viewer[];
+  /** Cards other users are dragging on the board, keyed by task ID */
+  draggedTasks: Record<string, Viewer>;
+}
+
+interface TrackedViewer {
+  entry: ViewerEntry;
+  expiresAt: number;
+}
+
+// -----------------------------------------------------------------------------
+// Hook Implementation
+// -----------------------------------------------------------------------------
+
+/**
+ * Hook for "viewing" presence on a project board or task.
+ *
+ * Announces the current user while mounted, refreshing the announcement so
+ * it does not expire, and tracks everyone else who has the same board or
+ * task open. Viewers that stop refreshing (closed laptop, crashed server)
+ * drop out after the TTL even if no stop event arrives.
+ *
+ * @example
+ * ```tsx
+ * const { viewers } = useViewers({ projectId, taskId: task.id });
+ * return <ViewerAvatars viewers={viewers} />;
+ * ```
+ */
+export function useViewers({
+  projectId,
+  taskId = null,
+  draggingTaskId = null,
+  enabled = true,
+}: UseViewersOptions): UseViewersReturn {
+  const { user } = useAuth();
+  const { isConnected } = useSocket();
+  // Keyed by socket ID so each tab of a user is tracked separately
+  const [tracked, setTracked] = useState<Record<string, TrackedViewer>>({});
+
+  const isActive = enabled && !!projectId && isConnected;
+
+  // Announce and keep refreshing while open; re-announced after reconnecting
+  useEffect(() => {
+    if (!isActive) return;
+
+    emitViewingStart(projectId, taskId, draggingTaskId);
+    const interval = setInterval(() => {
+      emitViewingStart(projectId, taskId, draggingTaskId);
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, projectId, taskId, draggingTaskId]);
+
+  // Stop viewing when closed or when the board/task changes
+  useEffect(() => {
+    if (!isActive) return;
+
+    return () => {
+      emitViewingStop(projectId, taskId);
+      setTracked({});
+    };
+  }, [isActive, projectId, taskId]);
+
+  // Track the other viewers of this board or task
+  useEffect(() => {
+    if (!isActive) return;
+
+    const isTarget = (payload: { projectId: string; taskId: string | null }) =>
+      payload.projectId === projectId && payload.taskId === taskId;
+
+    const handleActive = (entry: ViewerEntry) => {
+      if (!isTarget(entry)) return;
+      setTracked((prev) => ({
+        ...prev,
+        [entry.socketId]: { entry, expiresAt: Date.now() + VIEWER_TTL_MS },
+      }));
+    };
+
+    const handleInactive = (payload: ViewingInactivePayload) => {
+      if (!isTarget(payload)) return;
+      setTracked((prev) => {
+        const next = { ...prev };
+        delete next[payload.socketId];
+        return next;
+      });
+    };
+
+    const handleSync = (payload: ViewingSyncPayload) => {
+      if (!isTarget(payload)) return;
+      const expiresAt = Date.now() + VIEWER_TTL_MS;
+      setTracked(
+        Object.fromEntries(payload.viewers.map((entry) => [entry.socketId, { entry, expiresAt }]))
+      );
+    };
+
+    // Drop viewers whose refreshes stopped arriving
+    const prune = setInterval(() => {
+      const now = Date.now();
+      setTracked((prev) => {
+        const expired = Object.keys(prev).filter((socketId) => prev[socketId].expiresAt <= now);
+        if (expired.length === 0) return prev;
+
+        const next = { ...prev };
+        expired.forEach((socketId) => delete next[socketId]);
+        return next;
+      });
+    }, PRUNE_INTERVAL_MS);
+
+    onViewingActive(handleActive);
+    onViewingInactive(handleInactive);
+    onViewingSync(handleSync);
+
+    return () => {
+      clearInterval(prune);
+      offViewingActive(handleActive);
+      offViewingInactive(handleInactive);
+      offViewingSync(handleSync);
+    };
+  }, [isActive, projectId, taskId]);
+
+  return useMemo(() => {
+    const viewers = new Map<string, Viewer>();
+    const draggedTasks: Record<string, Viewer> = {};
+
+    for (const { entry } of Object.values(tracked)) {
+      // The current user's other tabs are not shown
+      if (entry.userId === user?.id) continue;
+
+      const viewer = { id: entry.userId, name: entry.userName, avatar: entry.userAvatar };
+      viewers.set(entry.userId, viewer);
+      if (entry.draggingTaskId) {
+        draggedTasks[entry.draggingTaskId] = viewer;
+      }
+    }
+
+    return { viewers: Array.from(viewers.values()), draggedTasks };
+  }, [tracked, user?.id]);
+}
+
+export default useViewers;
@@ -0,0 +1,118 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getWorkspaceLabels,
+  createWorkspaceLabel,
+  updateWorkspaceLabel,
+  deleteWorkspaceLabel,
+  type Label,
+  type CreateLabelInput,
+  type UpdateLabelInput,
+} from '@/lib/api/labels';
+import { getVersionConflict } from '@/lib/axios';
+
+interface UseWorkspaceLabelsOptions {
+  workspaceId: string | undefined;
+}
+
+/**
+ * Hook for labels shared by every project in a workspace.
+ * Provides query for fetching labels and mutations for create/update/delete.
+ */
+export function useWorkspaceLabels({ workspaceId }: UseWorkspaceLabelsOptions) {
+  const queryClient = useQueryClient();
+  const queryKey = ['workspace-labels', workspaceId];
+
+  // Fetch workspace labels
+  const {
+    data: labels = [],
+    isLoading,
+    error,
+  } = useQuery<Label[]>({
+    queryKey,
+    queryFn: () => getWorkspaceLabels(workspaceId!),
+    enabled: !!workspaceId,
+  });
+
+  // Project label lists include workspace labels, so refresh them too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['labels'] });
+  };
+
+  // Create label mutation
+  const createLabelMutation = useMutation({
+    mutationFn: (data: CreateLabelInput) => createWorkspaceLabel(workspaceId!, data),
+    onSuccess: () => {
+      toast.success('Label created');
+    },
+    onError: (err) => {
+      toast.error('Failed to create label', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  // Update label mutation
+  const updateLabelMutation = useMutation({
+    mutationFn: ({ labelId, data }: { labelId: string; data: UpdateLabelInput }) => {
+      // Base the update on the label as currently shown
+      const version = queryClient
+        .getQueryData<Label[]>(queryKey)
+        ?.find((label) => label.id === labelId)?.version;
+      return updateWorkspaceLabel(workspaceId!, labelId, { version, ...data });
+    },
+    onSuccess: () => {
+      toast.success('Label updated');
+    },
+    onError: (err) => {
+      if (getVersionConflict(err)) {
+        toast.error('Label was changed by someone else', {
+          description: 'The latest version is now shown. Please make your change again.',
+        });
+        return;
+      }
+      toast.error('Failed to update label', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  // Delete label mutation
+  const deleteLabelMutation = useMutation({
+    mutationFn: (labelId: string) => deleteWorkspaceLabel(workspaceId!, labelId),
+    onSuccess: () => {
+      toast.success('Label deleted');
+    },
+    onError: (err) => {
+      toast.error('Failed to delete label', {
+        description: err instanceof Error ? err.message : 'Please try again',
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  return {
+    // Data
+    labels,
+    isLoading,
+    error,
+
+    // Mutations
+    createLabel: createLabelMutation.mutateAsync,
+    updateLabel: (labelId: string, data: UpdateLabelInput) =>
+      updateLabelMutation.mutateAsync({ labelId, data }),
+    deleteLabel: deleteLabelMutation.mutateAsync,
+
+    // Loading states
+    isCreating: createLabelMutation.isPending,
+    isUpdating: updateLabelMutation.isPending,
+    isDeleting: deleteLabelMutation.isPending,
+  };
+}
+
+export default useWorkspaceLabels;
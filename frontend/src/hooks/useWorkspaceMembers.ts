@@ -0,0 +1,105 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  getWorkspaceMembers,
+  addWorkspaceMember,
+  updateWorkspaceMemberRole,
+  removeWorkspaceMember,
+  type WorkspaceMember,
+} from '@/lib/api/workspaces';
+import { getApiError } from '@/lib/axios';
+
+type AssignableRole = 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+interface UseWorkspaceMembersOptions {
+  workspaceId: string | undefined;
+}
+
+/**
+ * Hook for the workspace member directory.
+ * Provides query for fetching members and mutations for add/update/remove.
+ */
+export function useWorkspaceMembers({ workspaceId }: UseWorkspaceMembersOptions) {
+  const queryClient = useQueryClient();
+  const queryKey = ['workspace-members', workspaceId];
+
+  // Fetch workspace members
+  const {
+    data: members = [],
+    isLoading,
+    error,
+  } = useQuery<WorkspaceMember[]>({
+    queryKey,
+    queryFn: () => getWorkspaceMembers(workspaceId!),
+    enabled: !!workspaceId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+  };
+
+  // Add member mutation
+  const addMemberMutation = useMutation({
+    mutationFn: ({ email, role }: { email: string; role: AssignableRole }) =>
+      addWorkspaceMember(workspaceId!, email, role),
+    onSuccess: (newMember) => {
+      queryClient.setQueryData<WorkspaceMember[]>(queryKey, (old = []) => [...old, newMember]);
+      toast.success('Member added', {
+        description: `${newMember.user.name} has been added to the workspace`,
+      });
+    },
+    onSettled: invalidate,
+  });
+
+  // Update member role mutation
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: AssignableRole }) =>
+      updateWorkspaceMemberRole(workspaceId!, userId, role),
+    onSuccess: () => {
+      toast.success('Role updated');
+    },
+    onError: (err) => {
+      toast.error('Failed to update role', { description: getApiError(err).message });
+    },
+    onSettled: invalidate,
+  });
+
+  // Remove member mutation (also used to leave the workspace)
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => removeWorkspaceMember(workspaceId!, userId),
+    onSuccess: () => {
+      toast.success('Member removed');
+    },
+    onError: (err) => {
+      toast.error('Failed to remove member', { description: getApiError(err).message });
+    },
+    onSettled: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+  });
+
+  return {
+    // Data
+    members,
+    isLoading,
+    error,
+
+    // Mutations
+    addMember: (email: string, role: AssignableRole) =>
+      addMemberMutation.mutateAsync({ email, role }),
+    updateRole: (userId: string, role: AssignableRole) =>
+      updateRoleMutation.mutateAsync({ userId, role }),
+    removeMember: removeMemberMutation.mutateAsync,
+
+    // Loading states
+    isAdding: addMemberMutation.isPending,
+    isUpdating: updateRoleMutation.isPending,
+    isRemoving: removeMemberMutation.isPending,
+  };
+}
+
+export default useWorkspaceMembers;
@@ -1,4 +1,5 @@
 import api from '../axios';
+import type { ColumnCategory } from './projects';
 
 // Types
 export interface Column {
@@ -6,7 +7,11 @@ export interface Column {
   name: string;
   order: number;
   color: string | null;
+  wipLimit?: number | null;
+  category?: ColumnCategory;
   projectId: string;
+  /** Bumped on every update; sent back to detect concurrent edits */
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -15,12 +20,18 @@ export interface CreateColumnInput {
   name: string;
   order?: number;
   color?: string;
+  wipLimit?: number | null;
+  category?: ColumnCategory;
 }
 
 export interface UpdateColumnInput {
   name?: string;
   order?: number;
   color?: string;
+  wipLimit?: number | null;
+  category?: ColumnCategory;
+  /** Version the edit is based on; a stale one is rejected with 409 */
+  version?: number;
 }
 
 export interface ReorderColumnInput {
@@ -0,0 +1,128 @@
+import api from '../axios';
+
+// Types
+export type CustomFieldType =
+  | 'TEXT'
+  | 'NUMBER'
+  | 'SINGLE_SELECT'
+  | 'MULTI_SELECT'
+  | 'DATE'
+  | 'CHECKBOX'
+  | 'USER';
+
+export interface CustomField {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[];
+  order: number;
+  projectId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A task's value for a field: text, number, option, options, ISO date, checkbox or user ID
+ */
+export type CustomFieldValue = string | number | boolean | string[];
+
+export interface CreateCustomFieldInput {
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+}
+
+export interface UpdateCustomFieldInput {
+  name?: string;
+  options?: string[];
+  order?: number;
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+interface CustomFieldResponse {
+  field: CustomField;
+}
+
+interface CustomFieldsResponse {
+  fields: CustomField[];
+}
+
+interface CustomFieldValueResponse {
+  fieldId: string;
+  value: CustomFieldValue | null;
+}
+
+// ============ PROJECT FIELD API ============
+
+/**
+ * Get all custom fields for a project
+ */
+export async function getCustomFields(projectId: string): Promise<CustomField[]> {
+  const response = await api.get<ApiResponse<CustomFieldsResponse>>(
+    `/projects/${projectId}/custom-fields`
+  );
+  return response.data.data.fields;
+}
+
+/**
+ * Create a new custom field
+ */
+export async function createCustomField(
+  projectId: string,
+  data: CreateCustomFieldInput
+): Promise<CustomField> {
+  const response = await api.post<ApiResponse<CustomFieldResponse>>(
+    `/projects/${projectId}/custom-fields`,
+    data
+  );
+  return response.data.data.field;
+}
+
+/**
+ * Update a custom field
+ */
+export async function updateCustomField(
+  projectId: string,
+  fieldId: string,
+  data: UpdateCustomFieldInput
+): Promise<CustomField> {
+  const response = await api.patch<ApiResponse<CustomFieldResponse>>(
+    `/projects/${projectId}/custom-fields/${fieldId}`,
+    data
+  );
+  return response.data.data.field;
+}
+
+/**
+ * Delete a custom field and all of its values
+ */
+export async function deleteCustomField(projectId: string, fieldId: string): Promise<void> {
+  await api.delete(`/projects/${projectId}/custom-fields/${fieldId}`);
+}
+
+// ============ TASK VALUE API ============
+
+/**
+ * Set a task's value for a field (null clears it)
+ */
+export async function setTaskCustomFieldValue(
+  projectId: string,
+  taskId: string,
+  fieldId: string,
+  value: CustomFieldValue | null
+): Promise<CustomFieldValueResponse> {
+  const response = await api.put<ApiResponse<CustomFieldValueResponse>>(
+    `/projects/${projectId}/tasks/${taskId}/custom-fields/${fieldId}`,
+    { value }
+  );
+  return response.data.data;
+}
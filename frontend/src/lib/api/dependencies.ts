@@ -0,0 +1,71 @@
+import api from '../axios';
+
+// Types
+export type DependencyType = 'blocked_by' | 'blocks';
+
+export interface DependencyTask {
+  id: string;
+  title: string;
+  completedAt: string | null;
+  column: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface TaskDependencies {
+  blockedBy: DependencyTask[];
+  blocking: DependencyTask[];
+}
+
+export interface AddDependencyInput {
+  targetTaskId: string;
+  type: DependencyType;
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+// ============ DEPENDENCY API ============
+
+/**
+ * Get the tasks blocking and blocked by a task
+ */
+export async function getTaskDependencies(
+  projectId: string,
+  taskId: string
+): Promise<TaskDependencies> {
+  const response = await api.get<ApiResponse<TaskDependencies>>(
+    `/projects/${projectId}/tasks/${taskId}/dependencies`
+  );
+  return response.data.data;
+}
+
+/**
+ * Link a task as blocking or blocked by another task
+ */
+export async function addDependency(
+  projectId: string,
+  taskId: string,
+  data: AddDependencyInput
+): Promise<void> {
+  await api.post(`/projects/${projectId}/tasks/${taskId}/dependencies`, data);
+}
+
+/**
+ * Remove the dependency between two tasks
+ */
+export async function removeDependency(
+  projectId: string,
+  taskId: string,
+  otherTaskId: string
+): Promise<void> {
+  await api.delete(`/projects/${projectId}/tasks/${taskId}/dependencies/${otherTaskId}`);
+}
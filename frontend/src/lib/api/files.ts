@@ -30,6 +30,7 @@ export type FileTypeCategory = 'images' | 'documents' | 'spreadsheets' | 'archiv
 export interface GlobalFilesFilters {
   search?: string;
   type?: FileTypeCategory;
+  workspaceId?: string;
   projectId?: string;
   dateFrom?: string;
   dateTo?: string;
@@ -100,6 +101,7 @@ export async function getAllFiles(
   if (filters) {
     if (filters.search) params.append('search', filters.search);
     if (filters.type) params.append('type', filters.type);
+    if (filters.workspaceId) params.append('workspaceId', filters.workspaceId);
     if (filters.projectId) params.append('projectId', filters.projectId);
     if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
     if (filters.dateTo) params.append('dateTo', filters.dateTo);
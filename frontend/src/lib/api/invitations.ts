@@ -0,0 +1,206 @@
+import api from '../axios';
+
+// Types
+export type InvitationRole = 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export interface ProjectInvitation {
+  id: string;
+  email: string;
+  role: InvitationRole;
+  projectId: string;
+  invitedById: string;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+  invitedBy: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface InvitationPreview {
+  email: string;
+  role: InvitationRole;
+  expiresAt: string;
+  project: {
+    id: string;
+    name: string;
+  };
+  invitedBy: {
+    name: string;
+  };
+  /** Whether the invitee should sign in (true) or register (false) */
+  hasAccount: boolean;
+}
+
+export type InviteLinkRole = 'MEMBER' | 'VIEWER';
+
+export interface InviteLink {
+  id: string;
+  token: string;
+  role: InviteLinkRole;
+  /** null = unlimited */
+  maxUses: number | null;
+  useCount: number;
+  /** null = never expires */
+  expiresAt: string | null;
+  projectId: string;
+  createdById: string;
+  createdAt: string;
+  createdBy: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface CreateInviteLinkInput {
+  role: InviteLinkRole;
+  maxUses?: number | null;
+  expiresAt?: string | null;
+}
+
+export interface InviteLinkPreview {
+  role: InviteLinkRole;
+  project: {
+    id: string;
+    name: string;
+  };
+  createdBy: {
+    name: string;
+  };
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+// ============ PROJECT INVITATIONS API ============
+
+/**
+ * Get a project's pending invitations
+ */
+export async function getProjectInvitations(projectId: string): Promise<ProjectInvitation[]> {
+  const response = await api.get<ApiResponse<{ invitations: ProjectInvitation[] }>>(
+    `/projects/${projectId}/invitations`
+  );
+  return response.data.data.invitations;
+}
+
+/**
+ * Invite someone to a project by email
+ */
+export async function createInvitation(
+  projectId: string,
+  email: string,
+  role: InvitationRole = 'MEMBER'
+): Promise<ProjectInvitation> {
+  const response = await api.post<ApiResponse<{ invitation: ProjectInvitation }>>(
+    `/projects/${projectId}/invitations`,
+    { email, role }
+  );
+  return response.data.data.invitation;
+}
+
+/**
+ * Email a fresh invitation link
+ */
+export async function resendInvitation(
+  projectId: string,
+  invitationId: string
+): Promise<ProjectInvitation> {
+  const response = await api.post<ApiResponse<{ invitation: ProjectInvitation }>>(
+    `/projects/${projectId}/invitations/${invitationId}/resend`
+  );
+  return response.data.data.invitation;
+}
+
+/**
+ * Revoke a pending invitation
+ */
+export async function revokeInvitation(projectId: string, invitationId: string): Promise<void> {
+  await api.delete(`/projects/${projectId}/invitations/${invitationId}`);
+}
+
+// ============ ACCEPT INVITATION API ============
+
+/**
+ * Get the invitation behind an invitation link (works without being logged in)
+ */
+export async function getInvitation(token: string): Promise<InvitationPreview> {
+  const response = await api.get<ApiResponse<{ invitation: InvitationPreview }>>(
+    `/invitations/${token}`
+  );
+  return response.data.data.invitation;
+}
+
+/**
+ * Join the project as the logged-in user
+ */
+export async function acceptInvitation(token: string): Promise<{ projectId: string }> {
+  const response = await api.post<ApiResponse<{ projectId: string }>>(
+    `/invitations/${token}/accept`
+  );
+  return response.data.data;
+}
+
+// ============ JOIN LINKS API ============
+
+/**
+ * Get a project's join links
+ */
+export async function getInviteLinks(projectId: string): Promise<InviteLink[]> {
+  const response = await api.get<ApiResponse<{ links: InviteLink[] }>>(
+    `/projects/${projectId}/invite-links`
+  );
+  return response.data.data.links;
+}
+
+/**
+ * Create a join link
+ */
+export async function createInviteLink(
+  projectId: string,
+  data: CreateInviteLinkInput
+): Promise<InviteLink> {
+  const response = await api.post<ApiResponse<{ link: InviteLink }>>(
+    `/projects/${projectId}/invite-links`,
+    data
+  );
+  return response.data.data.link;
+}
+
+/**
+ * Revoke a join link
+ */
+export async function revokeInviteLink(projectId: string, linkId: string): Promise<void> {
+  await api.delete(`/projects/${projectId}/invite-links/${linkId}`);
+}
+
+/**
+ * Get the project behind a join link (works without being logged in)
+ */
+export async function getInviteLink(token: string): Promise<InviteLinkPreview> {
+  const response = await api.get<ApiResponse<{ link: InviteLinkPreview }>>(`/join/${token}`);
+  return response.data.data.link;
+}
+
+/**
+ * Join a project through a join link as the logged-in user
+ */
+export async function joinViaInviteLink(token: string): Promise<{ projectId: string }> {
+  const response = await api.post<ApiResponse<{ projectId: string }>>(`/join/${token}`);
+  return response.data.data;
+}
+
+/**
+ * Full URL of a join link, for copying
+ */
+export function getJoinUrl(token: string): string {
+  return `${window.location.origin}/join/${token}`;
+}
@@ -5,7 +5,11 @@ export interface Label {
   id: string;
   name: string;
   color: string;
-  projectId: string;
+  // Exactly one is set: project labels belong to a project, shared ones to its workspace
+  projectId: string | null;
+  workspaceId: string | null;
+  /** Bumped on every update; sent back to detect concurrent edits */
+  version: number;
   createdAt: string;
   updatedAt: string;
   _count?: { tasks: number };
@@ -19,6 +23,8 @@ export interface CreateLabelInput {
 export interface UpdateLabelInput {
   name?: string;
   color?: string;
+  /** Version the edit is based on; a stale one is rejected with 409 */
+  version?: number;
 }
 
 // API Response wrapper
@@ -97,6 +103,54 @@ export async function deleteLabel(projectId: string, labelId: string): Promise<v
   await api.delete(`/projects/${projectId}/labels/${labelId}`);
 }
 
+// ============ WORKSPACE LABEL API ============
+
+/**
+ * Get the labels shared by every project in a workspace
+ */
+export async function getWorkspaceLabels(workspaceId: string): Promise<Label[]> {
+  const response = await api.get<ApiResponse<LabelsResponse>>(
+    `/workspaces/${workspaceId}/labels`
+  );
+  return response.data.data.labels;
+}
+
+/**
+ * Create a workspace label
+ */
+export async function createWorkspaceLabel(
+  workspaceId: string,
+  data: CreateLabelInput
+): Promise<Label> {
+  const response = await api.post<ApiResponse<LabelResponse>>(
+    `/workspaces/${workspaceId}/labels`,
+    data
+  );
+  return response.data.data.label;
+}
+
+/**
+ * Update a workspace label
+ */
+export async function updateWorkspaceLabel(
+  workspaceId: string,
+  labelId: string,
+  data: UpdateLabelInput
+): Promise<Label> {
+  const response = await api.patch<ApiResponse<LabelResponse>>(
+    `/workspaces/${workspaceId}/labels/${labelId}`,
+    data
+  );
+  return response.data.data.label;
+}
+
+/**
+ * Delete a workspace label
+ */
+export async function deleteWorkspaceLabel(workspaceId: string, labelId: string): Promise<void> {
+  await api.delete(`/workspaces/${workspaceId}/labels/${labelId}`);
+}
+
 // ============ TASK LABEL API ============
 
 /**
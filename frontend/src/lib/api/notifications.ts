@@ -0,0 +1,157 @@
+import api from '../axios';
+
+// Types
+export type NotificationType =
+  | 'TASK_ASSIGNED'
+  | 'MENTIONED'
+  | 'TASK_COMMENTED'
+  | 'TASK_DUE_SOON'
+  | 'TASK_OVERDUE';
+
+export interface NotificationMetadata {
+  taskTitle?: string;
+  excerpt?: string;
+  dueDate?: string;
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  metadata: NotificationMetadata | null;
+  userId: string;
+  actorId: string | null;
+  projectId: string;
+  taskId: string | null;
+  commentId: string | null;
+  readAt: string | null;
+  createdAt: string;
+  actor: {
+    id: string;
+    name: string;
+    avatar: string | null;
+  } | null;
+  project: {
+    id: string;
+    name: string;
+  };
+  task: {
+    id: string;
+    title: string;
+  } | null;
+}
+
+export interface NotificationsMeta {
+  total: number;
+  unreadCount: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  meta?: NotificationsMeta;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface GetNotificationsParams {
+  limit?: number;
+  offset?: number;
+  unread?: boolean;
+}
+
+// ============ NOTIFICATIONS API ============
+
+/**
+ * Get the current user's notifications, newest first
+ */
+export async function getNotifications(
+  params: GetNotificationsParams = {}
+): Promise<{ notifications: Notification[]; meta: NotificationsMeta }> {
+  const queryParams = new URLSearchParams();
+  if (params.limit) queryParams.set('limit', params.limit.toString());
+  if (params.offset) queryParams.set('offset', params.offset.toString());
+  if (params.unread) queryParams.set('unread', 'true');
+
+  const response = await api.get<ApiResponse<{ notifications: Notification[] }>>(
+    `/notifications?${queryParams.toString()}`
+  );
+  return {
+    notifications: response.data.data.notifications,
+    meta: response.data.meta || {
+      total: 0,
+      unreadCount: 0,
+      limit: 20,
+      offset: 0,
+      hasMore: false,
+    },
+  };
+}
+
+/**
+ * Mark a notification as read
+ */
+export async function markNotificationRead(notificationId: string): Promise<Notification> {
+  const response = await api.patch<ApiResponse<{ notification: Notification }>>(
+    `/notifications/${notificationId}/read`
+  );
+  return response.data.data.notification;
+}
+
+/**
+ * Mark all notifications as read
+ */
+export async function markAllNotificationsRead(): Promise<number> {
+  const response = await api.post<ApiResponse<{ count: number }>>('/notifications/read-all');
+  return response.data.data.count;
+}
+
+// ============ EMAIL PREFERENCES API ============
+
+export type EmailFrequency = 'INSTANT' | 'HOURLY' | 'DAILY' | 'OFF';
+
+export interface NotificationPreference {
+  type: NotificationType;
+  email: EmailFrequency;
+}
+
+/**
+ * Get the current user's email preference for each notification type
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreference[]> {
+  const response = await api.get<ApiResponse<{ preferences: NotificationPreference[] }>>(
+    '/notifications/preferences'
+  );
+  return response.data.data.preferences;
+}
+
+/**
+ * Update email preferences; types that are not listed keep their setting
+ */
+export async function updateNotificationPreferences(
+  preferences: NotificationPreference[]
+): Promise<NotificationPreference[]> {
+  const response = await api.put<ApiResponse<{ preferences: NotificationPreference[] }>>(
+    '/notifications/preferences',
+    { preferences }
+  );
+  return response.data.data.preferences;
+}
+
+/**
+ * Turn off notification emails using the token from an email link.
+ * Works without being logged in.
+ */
+export async function unsubscribe(
+  token: string
+): Promise<{ email: string; types: NotificationType[] }> {
+  const response = await api.post<ApiResponse<{ email: string; types: NotificationType[] }>>(
+    `/notifications/unsubscribe?token=${encodeURIComponent(token)}`
+  );
+  return response.data.data;
+}
@@ -1,13 +1,25 @@
 import api from '../axios';
 
 // Types
+export type WipLimitMode = 'OFF' | 'WARN' | 'BLOCK';
+
+// DONE columns complete the tasks moved into them; IN_PROGRESS starts cycle time
+export type ColumnCategory = 'TODO' | 'IN_PROGRESS' | 'DONE';
+
 export interface Project {
   id: string;
   name: string;
   description: string | null;
   color: string;
   icon: string | null;
+  wipLimitMode?: WipLimitMode;
+  // Hours before a task is due its assignees are reminded (null = no reminders)
+  dueReminderHours?: number | null;
+  overdueNotices?: boolean;
   ownerId: string;
+  workspaceId: string;
+  // Set while the project is archived (read-only, hidden from active lists)
+  archivedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   columns?: Column[];
@@ -22,7 +34,11 @@ export interface Column {
   name: string;
   order: number;
   color: string | null;
+  wipLimit?: number | null;
+  category?: ColumnCategory;
   projectId: string;
+  /** Bumped on every update; sent back to detect concurrent edits */
+  version?: number;
 }
 
 export interface ProjectMember {
@@ -31,6 +47,8 @@ export interface ProjectMember {
   userId: string;
   role: 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
   joinedAt: string;
+  /** Join link the member used, if they joined through one */
+  inviteLinkId?: string | null;
   user: {
     id: string;
     name: string;
@@ -39,7 +57,44 @@ export interface ProjectMember {
   };
 }
 
+/**
+ * Actions a project role can be granted (mirrors the server's permission map)
+ */
+export type ProjectPermission =
+  | 'project.view'
+  | 'project.update'
+  | 'project.delete'
+  | 'project.archive'
+  | 'member.invite'
+  | 'member.remove'
+  | 'member.role.change'
+  | 'column.create'
+  | 'column.update'
+  | 'column.delete'
+  | 'task.create'
+  | 'task.update'
+  | 'task.delete'
+  | 'label.create'
+  | 'label.update'
+  | 'label.delete'
+  | 'custom_field.manage'
+  | 'comment.create'
+  | 'comment.delete.any'
+  | 'attachment.upload'
+  | 'attachment.delete.any'
+  | 'view.share'
+  | 'view.manage.shared';
+
+export interface ProjectPermissions {
+  role: ProjectMember['role'];
+  permissions: ProjectPermission[];
+}
+
 export interface CreateProjectInput {
+  /** Defaults to the user's first workspace */
+  workspaceId?: string;
+  /** Built-in or saved template to build the project from */
+  templateId?: string;
   name: string;
   description?: string;
   color?: string;
@@ -51,6 +106,9 @@ export interface UpdateProjectInput {
   description?: string;
   color?: string;
   icon?: string;
+  wipLimitMode?: WipLimitMode;
+  dueReminderHours?: number | null;
+  overdueNotices?: boolean;
 }
 
 // API Response wrappers
@@ -74,10 +132,15 @@ interface ProjectResponse {
 // ============ PROJECT API ============
 
 /**
- * Get all projects for the current user
+ * Get the current user's active projects (or archived ones), optionally limited to one workspace
  */
-export async function getProjects(): Promise<Project[]> {
-  const response = await api.get<ApiResponse<ProjectsResponse>>('/projects');
+export async function getProjects(workspaceId?: string, archived = false): Promise<Project[]> {
+  const response = await api.get<ApiResponse<ProjectsResponse>>('/projects', {
+    params: {
+      ...(workspaceId && { workspaceId }),
+      ...(archived && { archived: true }),
+    },
+  });
   return response.data.data.projects;
 }
 
@@ -115,6 +178,34 @@ export async function deleteProject(projectId: string): Promise<void> {
   await api.delete(`/projects/${projectId}`);
 }
 
+/**
+ * Archive a project, making it read-only
+ */
+export async function archiveProject(projectId: string): Promise<Project> {
+  const response = await api.post<ApiResponse<ProjectResponse>>(`/projects/${projectId}/archive`);
+  return response.data.data.project;
+}
+
+/**
+ * Return an archived project to the active list
+ */
+export async function unarchiveProject(projectId: string): Promise<Project> {
+  const response = await api.post<ApiResponse<ProjectResponse>>(
+    `/projects/${projectId}/unarchive`
+  );
+  return response.data.data.project;
+}
+
+/**
+ * Get the current user's role and permissions in a project
+ */
+export async function getProjectPermissions(projectId: string): Promise<ProjectPermissions> {
+  const response = await api.get<ApiResponse<ProjectPermissions>>(
+    `/projects/${projectId}/permissions`
+  );
+  return response.data.data;
+}
+
 // ============ MEMBER API ============
 
 /**
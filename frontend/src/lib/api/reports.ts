@@ -39,6 +39,13 @@ export interface CompletionMetrics {
   weekOverWeekChange: number;
 }
 
+export interface CustomFieldByStatusData {
+  status: string;
+  count: number; // Tasks with a value (checked, for checkboxes)
+  sum: number | null; // Number fields only
+  average: number | null; // Number fields only
+}
+
 // API functions
 export async function getTasksOverTime(
   projectId: string,
@@ -81,3 +88,14 @@ export async function getCompletionMetrics(projectId: string): Promise<Completio
   }>(`/projects/${projectId}/reports/completion-metrics`);
   return response.data.data.completionMetrics;
 }
+
+export async function getCustomFieldByStatus(
+  projectId: string,
+  fieldId: string
+): Promise<CustomFieldByStatusData[]> {
+  const response = await api.get<{
+    success: boolean;
+    data: { customFieldByStatus: CustomFieldByStatusData[] };
+  }>(`/projects/${projectId}/reports/custom-fields/${fieldId}`);
+  return response.data.data.customFieldByStatus;
+}
@@ -0,0 +1,91 @@
+import api from '../axios';
+import type { ViewConfig } from '../viewConfig';
+
+// Types
+export interface SavedView {
+  id: string;
+  name: string;
+  isShared: boolean;
+  config: ViewConfig;
+  projectId: string;
+  createdById: string;
+  createdBy: { id: string; name: string; avatar: string | null };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateSavedViewInput {
+  name: string;
+  isShared?: boolean;
+  config: ViewConfig;
+}
+
+export interface UpdateSavedViewInput {
+  name?: string;
+  isShared?: boolean;
+  config?: ViewConfig;
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+interface SavedViewResponse {
+  view: SavedView;
+}
+
+interface SavedViewsResponse {
+  views: SavedView[];
+}
+
+/**
+ * Get the current user's views and views shared with the project
+ */
+export async function getSavedViews(projectId: string): Promise<SavedView[]> {
+  const response = await api.get<ApiResponse<SavedViewsResponse>>(
+    `/projects/${projectId}/views`
+  );
+  return response.data.data.views;
+}
+
+/**
+ * Save a new view
+ */
+export async function createSavedView(
+  projectId: string,
+  data: CreateSavedViewInput
+): Promise<SavedView> {
+  const response = await api.post<ApiResponse<SavedViewResponse>>(
+    `/projects/${projectId}/views`,
+    data
+  );
+  return response.data.data.view;
+}
+
+/**
+ * Update a saved view
+ */
+export async function updateSavedView(
+  projectId: string,
+  viewId: string,
+  data: UpdateSavedViewInput
+): Promise<SavedView> {
+  const response = await api.patch<ApiResponse<SavedViewResponse>>(
+    `/projects/${projectId}/views/${viewId}`,
+    data
+  );
+  return response.data.data.view;
+}
+
+/**
+ * Delete a saved view
+ */
+export async function deleteSavedView(projectId: string, viewId: string): Promise<void> {
+  await api.delete(`/projects/${projectId}/views/${viewId}`);
+}
@@ -1,8 +1,22 @@
 import api from '../axios';
 
+// Highlighted terms in search snippets are wrapped in these characters
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export type SearchMatchType = 'title' | 'description' | 'comment' | 'label' | 'attachment';
+
+export interface SearchMatch {
+  type: SearchMatchType;
+  /** Matched text with highlighted terms */
+  snippet: string;
+}
+
 export interface TaskSearchResult {
   id: string;
   title: string;
+  /** Title with matched terms highlighted */
+  titleHighlight: string;
   description: string | null;
   priority: string | null;
   column: {
@@ -15,6 +29,10 @@ export interface TaskSearchResult {
   };
   labels: { id: string; name: string; color: string }[];
   assignees: { id: string; name: string; avatar: string | null }[];
+  /** Relevance; higher is better */
+  rank: number;
+  /** Where the query matched, best source first */
+  matches: SearchMatch[];
 }
 
 export interface ProjectSearchResult {
@@ -31,6 +49,7 @@ export interface SearchResults {
 
 export interface SearchParams {
   q: string;
+  workspaceId?: string;
   projectId?: string;
   limit?: number;
 }
@@ -78,8 +78,10 @@ interface ProjectStatsResponse {
 /**
  * Get dashboard stats for the current user
  */
-export async function getDashboardStats(): Promise<DashboardStats> {
-  const response = await api.get<ApiResponse<DashboardStatsResponse>>('/stats/dashboard');
+export async function getDashboardStats(workspaceId?: string): Promise<DashboardStats> {
+  const response = await api.get<ApiResponse<DashboardStatsResponse>>('/stats/dashboard', {
+    params: workspaceId ? { workspaceId } : undefined,
+  });
   return response.data.data.stats;
 }
 
@@ -0,0 +1,93 @@
+import api from '../axios';
+
+// Types
+export interface Subtask {
+  id: string;
+  title: string;
+  order: number;
+  completedAt: string | null;
+  taskId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateSubtaskInput {
+  title?: string;
+  completed?: boolean;
+  order?: number;
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+interface SubtasksResponse {
+  subtasks: Subtask[];
+}
+
+interface SubtaskResponse {
+  subtask: Subtask;
+}
+
+// ============ SUBTASK API ============
+
+/**
+ * Get all subtasks for a task
+ */
+export async function getTaskSubtasks(
+  projectId: string,
+  taskId: string
+): Promise<Subtask[]> {
+  const response = await api.get<ApiResponse<SubtasksResponse>>(
+    `/projects/${projectId}/tasks/${taskId}/subtasks`
+  );
+  return response.data.data.subtasks;
+}
+
+/**
+ * Add a subtask to a task
+ */
+export async function createSubtask(
+  projectId: string,
+  taskId: string,
+  title: string
+): Promise<Subtask> {
+  const response = await api.post<ApiResponse<SubtaskResponse>>(
+    `/projects/${projectId}/tasks/${taskId}/subtasks`,
+    { title }
+  );
+  return response.data.data.subtask;
+}
+
+/**
+ * Update a subtask (rename, toggle, or reorder)
+ */
+export async function updateSubtask(
+  projectId: string,
+  taskId: string,
+  subtaskId: string,
+  data: UpdateSubtaskInput
+): Promise<Subtask> {
+  const response = await api.patch<ApiResponse<SubtaskResponse>>(
+    `/projects/${projectId}/tasks/${taskId}/subtasks/${subtaskId}`,
+    data
+  );
+  return response.data.data.subtask;
+}
+
+/**
+ * Delete a subtask
+ */
+export async function deleteSubtask(
+  projectId: string,
+  taskId: string,
+  subtaskId: string
+): Promise<void> {
+  await api.delete(`/projects/${projectId}/tasks/${taskId}/subtasks/${subtaskId}`);
+}
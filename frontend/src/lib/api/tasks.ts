@@ -1,4 +1,6 @@
 import api from '../axios';
+import type { CustomFieldValue } from './customFields';
+import type { TaskQuery } from '../taskQuery';
 
 // Types
 export interface Task {
@@ -16,6 +18,14 @@ export interface Task {
   labels?: { id: string; name: string; color: string }[];
   assignees?: { id: string; name: string; avatar: string | null }[];
   _count?: { comments: number; attachments: number };
+  subtaskProgress?: { total: number; completed: number };
+  requireSubtasksComplete?: boolean;
+  blockedByCount?: number;
+  recurrenceRule?: string | null;
+  /** Custom field values keyed by field ID */
+  customFields?: Record<string, CustomFieldValue>;
+  /** Bumped on every update; sent back to detect concurrent edits */
+  version: number;
 }
 
 export interface CreateTaskInput {
@@ -33,11 +43,17 @@ export interface UpdateTaskInput {
   priority?: 'LOW' | 'MEDIUM' | 'HIGH' | null;
   dueDate?: string | null;
   completed?: boolean;
+  requireSubtasksComplete?: boolean;
+  recurrenceRule?: string | null;
+  /** Version the edit is based on; a stale one is rejected with 409 */
+  version?: number;
 }
 
 export interface MoveTaskInput {
   targetColumnId: string;
   order: number;
+  /** Move into a done column even if the task has unfinished blockers */
+  force?: boolean;
 }
 
 // Global task type (includes project context)
@@ -57,6 +73,7 @@ export interface GlobalTask extends Task {
 export interface GlobalTasksFilters {
   status?: 'active' | 'completed' | 'all';
   priority?: 'LOW' | 'MEDIUM' | 'HIGH';
+  workspaceId?: string;
   projectId?: string;
   assignedToMe?: boolean;
   dueBefore?: string;
@@ -78,6 +95,14 @@ export interface GlobalTasksResponse {
   };
 }
 
+export interface TaskQueryResponse {
+  tasks: Task[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  /** Number of tasks matching the filter across all pages */
+  total: number;
+}
+
 // API Response wrapper
 interface ApiResponse<T> {
   success: boolean;
@@ -88,10 +113,27 @@ interface ApiResponse<T> {
   };
 }
 
+// Sent with a created/moved task when its column is over its WIP limit (WARN mode)
+export interface WipLimitWarning {
+  code: 'WIP_LIMIT_EXCEEDED';
+  message: string;
+  details: {
+    columnId: string;
+    columnName: string;
+    limit: number;
+    count: number;
+  };
+}
+
 interface TaskResponse {
   task: Task;
 }
 
+export interface TaskWriteResponse {
+  task: Task;
+  warning?: WipLimitWarning;
+}
+
 interface TasksResponse {
   tasks: Task[];
 }
@@ -121,6 +163,20 @@ export async function getColumnTasks(
   return response.data.data.tasks;
 }
 
+/**
+ * Query a project's tasks with a structured filter, sort and cursor pagination
+ */
+export async function queryProjectTasks(
+  projectId: string,
+  query: TaskQuery
+): Promise<TaskQueryResponse> {
+  const response = await api.post<ApiResponse<TaskQueryResponse>>(
+    `/projects/${projectId}/tasks/query`,
+    query
+  );
+  return response.data.data;
+}
+
 /**
  * Get a single task by ID
  */
@@ -137,12 +193,12 @@ export async function getTask(projectId: string, taskId: string): Promise<Task>
 export async function createTask(
   projectId: string,
   data: CreateTaskInput
-): Promise<Task> {
-  const response = await api.post<ApiResponse<TaskResponse>>(
+): Promise<TaskWriteResponse> {
+  const response = await api.post<ApiResponse<TaskWriteResponse>>(
     `/projects/${projectId}/tasks`,
     data
   );
-  return response.data.data.task;
+  return response.data.data;
 }
 
 /**
@@ -174,12 +230,12 @@ export async function moveTask(
   projectId: string,
   taskId: string,
   data: MoveTaskInput
-): Promise<Task> {
-  const response = await api.patch<ApiResponse<TaskResponse>>(
+): Promise<TaskWriteResponse> {
+  const response = await api.patch<ApiResponse<TaskWriteResponse>>(
     `/projects/${projectId}/tasks/${taskId}/move`,
     data
   );
-  return response.data.data.task;
+  return response.data.data;
 }
 
 // ============ GLOBAL TASKS API ============
@@ -195,6 +251,7 @@ export async function getAllTasks(
   if (filters) {
     if (filters.status) params.append('status', filters.status);
     if (filters.priority) params.append('priority', filters.priority);
+    if (filters.workspaceId) params.append('workspaceId', filters.workspaceId);
     if (filters.projectId) params.append('projectId', filters.projectId);
     if (filters.assignedToMe) params.append('assignedToMe', 'true');
     if (filters.dueBefore) params.append('dueBefore', filters.dueBefore);
@@ -0,0 +1,84 @@
+import api from '../axios';
+import type { Project } from './projects';
+
+// Types
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  // Built-in templates ship with the app and cannot be deleted
+  builtIn: boolean;
+  createdBy: { id: string; name: string } | null;
+  columns: string[];
+  labelCount: number;
+  customFieldCount: number;
+  taskCount: number;
+}
+
+export interface SaveAsTemplateInput {
+  name: string;
+  description?: string;
+  includeTasks?: boolean;
+}
+
+export interface DuplicateProjectInput {
+  name: string;
+  includeTasks?: boolean;
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+// ============ TEMPLATE API ============
+
+/**
+ * Get the built-in templates and a workspace's saved templates
+ */
+export async function getTemplates(workspaceId: string): Promise<ProjectTemplate[]> {
+  const response = await api.get<ApiResponse<{ templates: ProjectTemplate[] }>>(
+    `/workspaces/${workspaceId}/templates`
+  );
+  return response.data.data.templates;
+}
+
+/**
+ * Delete a saved template
+ */
+export async function deleteTemplate(workspaceId: string, templateId: string): Promise<void> {
+  await api.delete(`/workspaces/${workspaceId}/templates/${templateId}`);
+}
+
+/**
+ * Save a project as a template for its workspace
+ */
+export async function saveProjectAsTemplate(
+  projectId: string,
+  data: SaveAsTemplateInput
+): Promise<ProjectTemplate> {
+  const response = await api.post<ApiResponse<{ template: ProjectTemplate }>>(
+    `/projects/${projectId}/templates`,
+    data
+  );
+  return response.data.data.template;
+}
+
+/**
+ * Duplicate a project into a new one in the same workspace
+ */
+export async function duplicateProject(
+  projectId: string,
+  data: DuplicateProjectInput
+): Promise<Project> {
+  const response = await api.post<ApiResponse<{ project: Project }>>(
+    `/projects/${projectId}/duplicate`,
+    data
+  );
+  return response.data.data.project;
+}
@@ -0,0 +1,84 @@
+import api from '../axios';
+import type { Task } from './tasks';
+
+// Types
+export interface TrashedTask {
+  id: string;
+  title: string;
+  priority: Task['priority'];
+  deletedAt: string;
+  // When the retention job permanently deletes it
+  purgeAt: string;
+  column: { id: string; name: string };
+  _count: { attachments: number; comments: number; subtasks: number };
+}
+
+export interface TrashedProject {
+  id: string;
+  name: string;
+  color: string;
+  deletedAt: string;
+  purgeAt: string;
+  workspace: { id: string; name: string };
+  _count: { members: number };
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+// ============ TASK TRASH API ============
+
+/**
+ * Get a project's deleted tasks
+ */
+export async function getProjectTrash(projectId: string): Promise<TrashedTask[]> {
+  const response = await api.get<ApiResponse<{ tasks: TrashedTask[] }>>(
+    `/projects/${projectId}/trash`
+  );
+  return response.data.data.tasks;
+}
+
+/**
+ * Restore a deleted task to its column
+ */
+export async function restoreTask(projectId: string, taskId: string): Promise<void> {
+  await api.post(`/projects/${projectId}/trash/tasks/${taskId}/restore`);
+}
+
+/**
+ * Permanently delete a task from the trash
+ */
+export async function purgeTask(projectId: string, taskId: string): Promise<void> {
+  await api.delete(`/projects/${projectId}/trash/tasks/${taskId}`);
+}
+
+// ============ PROJECT TRASH API ============
+
+/**
+ * Get the current user's deleted projects
+ */
+export async function getTrashedProjects(): Promise<TrashedProject[]> {
+  const response = await api.get<ApiResponse<{ projects: TrashedProject[] }>>('/trash/projects');
+  return response.data.data.projects;
+}
+
+/**
+ * Restore a deleted project
+ */
+export async function restoreProject(projectId: string): Promise<void> {
+  await api.post(`/trash/projects/${projectId}/restore`);
+}
+
+/**
+ * Permanently delete a project from the trash
+ */
+export async function purgeProject(projectId: string): Promise<void> {
+  await api.delete(`/trash/projects/${projectId}`);
+}
@@ -0,0 +1,129 @@
+import api from '../axios';
+
+// Types
+export type WorkspaceRole = 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt: string;
+  updatedAt: string;
+  /** The current user's role in the workspace */
+  role: WorkspaceRole;
+  _count: {
+    members: number;
+    projects: number;
+  };
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+  /** How many of the workspace's projects the member belongs to */
+  projectCount: number;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+    avatar: string | null;
+  };
+}
+
+// API Response wrapper
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+interface WorkspaceResponse {
+  workspace: Workspace;
+}
+
+// ============ WORKSPACE API ============
+
+/**
+ * Get every workspace the current user belongs to
+ */
+export async function getWorkspaces(): Promise<Workspace[]> {
+  const response = await api.get<ApiResponse<{ workspaces: Workspace[] }>>('/workspaces');
+  return response.data.data.workspaces;
+}
+
+/**
+ * Create a new workspace
+ */
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const response = await api.post<ApiResponse<WorkspaceResponse>>('/workspaces', { name });
+  return response.data.data.workspace;
+}
+
+/**
+ * Rename a workspace
+ */
+export async function updateWorkspace(workspaceId: string, name: string): Promise<Workspace> {
+  const response = await api.patch<ApiResponse<WorkspaceResponse>>(
+    `/workspaces/${workspaceId}`,
+    { name }
+  );
+  return response.data.data.workspace;
+}
+
+/**
+ * Delete a workspace (its projects must be deleted first)
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<void> {
+  await api.delete(`/workspaces/${workspaceId}`);
+}
+
+// ============ MEMBER DIRECTORY API ============
+
+/**
+ * Get the workspace member directory
+ */
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  const response = await api.get<ApiResponse<{ members: WorkspaceMember[] }>>(
+    `/workspaces/${workspaceId}/members`
+  );
+  return response.data.data.members;
+}
+
+/**
+ * Add an existing user to the workspace
+ */
+export async function addWorkspaceMember(
+  workspaceId: string,
+  email: string,
+  role: 'ADMIN' | 'MEMBER' | 'VIEWER' = 'MEMBER'
+): Promise<WorkspaceMember> {
+  const response = await api.post<ApiResponse<{ member: WorkspaceMember }>>(
+    `/workspaces/${workspaceId}/members`,
+    { email, role }
+  );
+  return response.data.data.member;
+}
+
+/**
+ * Change a member's workspace role
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: 'ADMIN' | 'MEMBER' | 'VIEWER'
+): Promise<void> {
+  await api.patch(`/workspaces/${workspaceId}/members/${userId}`, { role });
+}
+
+/**
+ * Remove a member from the workspace and its projects (or leave it)
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  await api.delete(`/workspaces/${workspaceId}/members/${userId}`);
+}
@@ -96,4 +96,31 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * Extract the structured error ({ code, message }) sent by the API, if any
+ */
+export function getApiError(error: unknown): { code?: string; message: string } {
+  if (axios.isAxiosError<{ error?: { code?: string; message?: string } }>(error)) {
+    const apiError = error.response?.data?.error;
+    if (apiError?.message) {
+      return { code: apiError.code, message: apiError.message };
+    }
+  }
+  return { message: error instanceof Error ? error.message : 'Please try again' };
+}
+
+/**
+ * The server's current copy when an update was rejected because it was based
+ * on an outdated version (409 VERSION_CONFLICT), otherwise null
+ */
+export function getVersionConflict<T>(error: unknown): T | null {
+  if (axios.isAxiosError<{ error?: { code?: string; current?: T } }>(error)) {
+    const apiError = error.response?.data?.error;
+    if (apiError?.code === 'VERSION_CONFLICT' && apiError.current) {
+      return apiError.current;
+    }
+  }
+  return null;
+}
+
 export default api;
@@ -1,5 +1,9 @@
 import type { EventInput } from '@fullcalendar/core';
 import type { Task, ColumnWithTasks } from '@/components/board';
+import { parseRecurrenceRule, getOccurrencesBetween } from './recurrence';
+
+// Cap on projected occurrences per task, so daily rules stay cheap
+const MAX_GHOSTS_PER_TASK = 62;
 
 /**
  * Priority color configuration for calendar events
@@ -32,14 +36,26 @@ export interface CalendarEventExtendedProps {
   columnColor: string | null;
   priority: Task['priority'];
   isCompleted: boolean;
+  /** Projected future occurrence of a recurring task (not a real task yet) */
+  isGhost?: boolean;
+}
+
+/**
+ * Visible date range of the calendar
+ */
+export interface CalendarRange {
+  start: Date;
+  end: Date;
 }
 
 /**
  * Transform columns with tasks into FullCalendar events.
- * Only tasks with due dates are included.
+ * Only tasks with due dates are included. When a range is given, future
+ * occurrences of recurring tasks inside it are added as ghost events.
  */
 export function tasksToCalendarEvents(
-  columns: ColumnWithTasks[]
+  columns: ColumnWithTasks[],
+  range?: CalendarRange
 ): EventInput[] {
   const events: EventInput[] = [];
 
@@ -73,6 +89,38 @@ export function tasksToCalendarEvents(
             isCompleted,
           } satisfies CalendarEventExtendedProps,
         });
+
+        const rule = range ? parseRecurrenceRule(task.recurrenceRule) : null;
+        if (rule && range) {
+          const occurrences = getOccurrencesBetween(
+            rule,
+            new Date(task.dueDate),
+            range.start,
+            range.end,
+            MAX_GHOSTS_PER_TASK
+          );
+          for (const occurrence of occurrences) {
+            events.push({
+              id: `${task.id}:${occurrence.toISOString()}`,
+              title: task.title,
+              start: occurrence.toISOString(),
+              allDay: true,
+              editable: false,
+              borderColor: colors.borderColor,
+              backgroundColor: '#ffffff',
+              textColor: '#9ca3af', // gray-400
+              classNames: ['calendar-event', 'calendar-event--ghost'],
+              extendedProps: {
+                task,
+                columnName: column.name,
+                columnColor: column.color,
+                priority: task.priority,
+                isCompleted: false,
+                isGhost: true,
+              } satisfies CalendarEventExtendedProps,
+            });
+          }
+        }
       }
     }
   }
@@ -0,0 +1,172 @@
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import type {
+  TypedSocket,
+  DescriptionJoinedPayload,
+  DescriptionSyncPayload,
+  DescriptionAwarenessPayload,
+} from './socket';
+
+type AwarenessChanges = { added: number[]; updated: number[]; removed: number[] };
+
+/**
+ * Yjs provider that syncs a task's description document over the app's
+ * Socket.io connection (instead of a separate y-websocket server).
+ *
+ * Joins the task's description session, runs the y-protocols sync and
+ * awareness exchange with the server, and rejoins after reconnecting.
+ * The Tiptap Collaboration extensions bind to `doc` and `awareness`.
+ */
+export class DescriptionProvider {
+  readonly doc = new Y.Doc();
+  readonly awareness = new awarenessProtocol.Awareness(this.doc);
+  /** Whether the initial sync with the server has completed */
+  synced = false;
+  /** Whether this client should fill the fresh document from Task.description */
+  seed = false;
+
+  private readonly syncedListeners = new Set<() => void>();
+
+  constructor(
+    private readonly socket: TypedSocket,
+    readonly taskId: string
+  ) {
+    this.doc.on('update', this.handleDocUpdate);
+    this.awareness.on('update', this.handleAwarenessUpdate);
+
+    socket.on('connect', this.join);
+    socket.on('disconnect', this.handleDisconnect);
+    socket.on('description:joined', this.handleJoined);
+    socket.on('description:sync', this.handleSync);
+    socket.on('description:awareness', this.handleRemoteAwareness);
+
+    if (socket.connected) {
+      this.join();
+    }
+  }
+
+  /**
+   * Run the callback once the initial sync has completed (immediately if
+   * it already has). Returns an unsubscribe function.
+   */
+  onSynced(callback: () => void): () => void {
+    if (this.synced) {
+      callback();
+    }
+    this.syncedListeners.add(callback);
+    return () => {
+      this.syncedListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Save the merged document back to the task. The server sanitizes it.
+   */
+  save(html: string): void {
+    if (this.socket.connected) {
+      this.socket.emit('description:save', { taskId: this.taskId, html });
+    }
+  }
+
+  /**
+   * Leave the session and release the document
+   */
+  destroy(): void {
+    awarenessProtocol.removeAwarenessStates(this.awareness, [this.doc.clientID], 'local');
+    if (this.socket.connected) {
+      this.socket.emit('description:leave', this.taskId);
+    }
+
+    this.socket.off('connect', this.join);
+    this.socket.off('disconnect', this.handleDisconnect);
+    this.socket.off('description:joined', this.handleJoined);
+    this.socket.off('description:sync', this.handleSync);
+    this.socket.off('description:awareness', this.handleRemoteAwareness);
+
+    this.syncedListeners.clear();
+    this.awareness.destroy();
+    this.doc.destroy();
+  }
+
+  private join = (): void => {
+    this.socket.emit('description:join', this.taskId);
+  };
+
+  // Send our state vector so the server replies with what we are missing,
+  // and announce our cursor to the other editors
+  private handleJoined = ({ taskId, seed }: DescriptionJoinedPayload): void => {
+    if (taskId !== this.taskId) return;
+    this.seed = seed;
+
+    const encoder = encoding.createEncoder();
+    syncProtocol.writeSyncStep1(encoder, this.doc);
+    this.socket.emit('description:sync', { taskId, message: encoding.toUint8Array(encoder) });
+
+    if (this.awareness.getLocalState() !== null) {
+      this.socket.emit('description:awareness', {
+        taskId,
+        update: awarenessProtocol.encodeAwarenessUpdate(this.awareness, [this.doc.clientID]),
+      });
+    }
+  };
+
+  private handleSync = ({ taskId, message }: DescriptionSyncPayload): void => {
+    if (taskId !== this.taskId) return;
+
+    const decoder = decoding.createDecoder(new Uint8Array(message));
+    const encoder = encoding.createEncoder();
+    const messageType = syncProtocol.readSyncMessage(decoder, encoder, this.doc, this);
+
+    if (encoding.length(encoder) > 0) {
+      this.socket.emit('description:sync', { taskId, message: encoding.toUint8Array(encoder) });
+    }
+
+    if (messageType === syncProtocol.messageYjsSyncStep2 && !this.synced) {
+      this.synced = true;
+      this.syncedListeners.forEach((listener) => listener());
+    }
+  };
+
+  private handleRemoteAwareness = ({ taskId, update }: DescriptionAwarenessPayload): void => {
+    if (taskId !== this.taskId) return;
+    awarenessProtocol.applyAwarenessUpdate(this.awareness, new Uint8Array(update), this);
+  };
+
+  // Local edits go to the server, which relays them to the other editors.
+  // Before joining (or while offline) they are covered by the next sync.
+  private handleDocUpdate = (update: Uint8Array, origin: unknown): void => {
+    if (origin === this || !this.socket.connected) return;
+
+    const encoder = encoding.createEncoder();
+    syncProtocol.writeUpdate(encoder, update);
+    this.socket.emit('description:sync', {
+      taskId: this.taskId,
+      message: encoding.toUint8Array(encoder),
+    });
+  };
+
+  private handleAwarenessUpdate = (
+    { added, updated, removed }: AwarenessChanges,
+    origin: unknown
+  ): void => {
+    if (origin === this || !this.socket.connected) return;
+
+    const changed = [...added, ...updated, ...removed];
+    this.socket.emit('description:awareness', {
+      taskId: this.taskId,
+      update: awarenessProtocol.encodeAwarenessUpdate(this.awareness, changed),
+    });
+  };
+
+  // Remote cursors are stale once we are offline; they come back on rejoin
+  private handleDisconnect = (): void => {
+    this.synced = false;
+    const remote = Array.from(this.awareness.getStates().keys()).filter(
+      (clientId) => clientId !== this.doc.clientID
+    );
+    awarenessProtocol.removeAwarenessStates(this.awareness, remote, this);
+  };
+}
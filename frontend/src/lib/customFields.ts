@@ -0,0 +1,80 @@
+/**
+ * Display and filtering helpers for project custom fields.
+ */
+
+import type { CustomField, CustomFieldType, CustomFieldValue } from '@/lib/api/customFields';
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'TEXT', label: 'Text' },
+  { value: 'NUMBER', label: 'Number' },
+  { value: 'SINGLE_SELECT', label: 'Single select' },
+  { value: 'MULTI_SELECT', label: 'Multi select' },
+  { value: 'DATE', label: 'Date' },
+  { value: 'CHECKBOX', label: 'Checkbox' },
+  { value: 'USER', label: 'User' },
+];
+
+export function isSelectField(type: CustomFieldType): boolean {
+  return type === 'SINGLE_SELECT' || type === 'MULTI_SELECT';
+}
+
+// Filter tokens for checkbox fields
+export const CHECKBOX_CHECKED = 'checked';
+export const CHECKBOX_UNCHECKED = 'unchecked';
+
+/**
+ * Fields with a fixed set of values can be filtered from the filter panel
+ */
+export function isFilterableField(type: CustomFieldType): boolean {
+  return isSelectField(type) || type === 'CHECKBOX' || type === 'USER';
+}
+
+/**
+ * Format a value for compact display (cards, list cells).
+ * Returns null when there is nothing to show.
+ */
+export function formatCustomFieldValue(
+  field: CustomField,
+  value: CustomFieldValue | undefined,
+  members: { id: string; name: string }[] = []
+): string | null {
+  if (value === undefined) return null;
+
+  switch (field.type) {
+    case 'MULTI_SELECT':
+      return Array.isArray(value) && value.length > 0 ? value.join(', ') : null;
+    case 'DATE': {
+      const date = new Date(String(value));
+      if (Number.isNaN(date.getTime())) return null;
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    }
+    case 'CHECKBOX':
+      return value === true ? 'Yes' : null;
+    case 'USER':
+      return members.find((m) => m.id === value)?.name ?? null;
+    case 'NUMBER':
+      return typeof value === 'number' ? value.toLocaleString('en-US') : null;
+    default:
+      return typeof value === 'string' && value ? value : null;
+  }
+}
+
+/**
+ * Check a value against the selected filter tokens (options, user IDs, or
+ * checked/unchecked). A task matches if any selected token matches.
+ */
+export function matchesCustomFieldFilter(
+  field: CustomField,
+  value: CustomFieldValue | undefined,
+  selected: string[]
+): boolean {
+  if (selected.length === 0) return true;
+
+  if (field.type === 'CHECKBOX') {
+    return selected.includes(value === true ? CHECKBOX_CHECKED : CHECKBOX_UNCHECKED);
+  }
+  if (Array.isArray(value)) {
+    return value.some((option) => selected.includes(option));
+  }
+  return typeof value === 'string' && selected.includes(value);
+}
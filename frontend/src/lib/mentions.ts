@@ -0,0 +1,94 @@
+/**
+ * @mentions in task descriptions and comments.
+ *
+ * Descriptions (Tiptap HTML) store a mention as
+ *   <span data-type="mention" data-id="<userId>" data-label="<name>">@name</span>
+ * Comments (plain text) store it as
+ *   @[name](<userId>)
+ *
+ * Keep in sync with backend/src/utils/mentions.ts.
+ */
+
+export interface MentionMember {
+  id: string;
+  name: string;
+  avatar?: string | null;
+}
+
+const MENTION_TOKEN_PATTERN = /@\[([^\]\n]+)\]\(([A-Za-z0-9_-]+)\)/g;
+
+// "@que" right before the cursor, at the start or after whitespace
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([^\s@[\]()]{0,30})$/;
+
+/**
+ * The comment token for a mention
+ */
+export function formatMentionToken(member: MentionMember): string {
+  // Brackets would end the token early
+  const label = member.name.replace(/[[\]\n]/g, '');
+  return `@[${label}](${member.id})`;
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; id: string; label: string };
+
+/**
+ * Split comment text into plain text and mentions for rendering
+ */
+export function splitMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', label: match[1], id: match[2] });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * Replace comment mention tokens with "@name"
+ */
+export function mentionsToPlainText(text: string): string {
+  return text.replace(MENTION_TOKEN_PATTERN, '@$1');
+}
+
+/**
+ * The mention being typed at the end of `textBeforeCursor`, if any.
+ * `length` covers the "@" and the query, for replacing it.
+ */
+export function getMentionQuery(
+  textBeforeCursor: string
+): { query: string; length: number } | null {
+  const match = MENTION_QUERY_PATTERN.exec(textBeforeCursor);
+  if (!match) return null;
+  return { query: match[1], length: match[1].length + 1 };
+}
+
+/**
+ * Members whose name matches a mention query, best matches first
+ */
+export function filterMentionMembers(
+  members: MentionMember[],
+  query: string,
+  limit = 6
+): MentionMember[] {
+  const q = query.toLowerCase();
+  return members
+    .filter((member) => member.name.toLowerCase().includes(q))
+    .sort((a, b) => {
+      const aStarts = a.name.toLowerCase().startsWith(q) ? 0 : 1;
+      const bStarts = b.name.toLowerCase().startsWith(q) ? 0 : 1;
+      return aStarts - bStarts || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit);
+}
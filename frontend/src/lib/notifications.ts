@@ -0,0 +1,31 @@
+import type { Notification } from './api/notifications';
+
+/**
+ * One-line description of a notification, e.g. "Ann assigned you to Fix login"
+ */
+export function getNotificationMessage(notification: Notification): string {
+  const actor = notification.actor?.name ?? 'Someone';
+  const task = notification.task?.title ?? notification.metadata?.taskTitle ?? 'a task';
+
+  switch (notification.type) {
+    case 'TASK_ASSIGNED':
+      return `${actor} assigned you to ${task}`;
+    case 'MENTIONED':
+      return `${actor} mentioned you in ${task}`;
+    case 'TASK_COMMENTED':
+      return `${actor} commented on ${task}`;
+    case 'TASK_DUE_SOON':
+      return `${task} is due soon`;
+    case 'TASK_OVERDUE':
+      return `${task} is overdue`;
+  }
+}
+
+/**
+ * Where clicking a notification takes the user
+ */
+export function getNotificationHref(notification: Notification): string {
+  return notification.taskId
+    ? `/projects/${notification.projectId}?task=${notification.taskId}`
+    : `/projects/${notification.projectId}`;
+}
@@ -0,0 +1,260 @@
+/**
+ * Recurrence rules for repeating tasks.
+ *
+ * Mirrors backend/src/utils/recurrence.ts: a subset of RFC 5545 RRULE
+ * (FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY, BYMONTHDAY, UNTIL) evaluated
+ * in UTC, keeping the time of day of the task's due date.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  until?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an RRULE string. Returns null if the rule is outside the supported subset.
+ */
+export function parseRecurrenceRule(rule: string | null | undefined): RecurrenceRule | null {
+  if (!rule) return null;
+
+  const fields = new Map<string, string>();
+  for (const part of rule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || !value) return null;
+    fields.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+
+  const parsed: RecurrenceRule = { freq, interval: 1 };
+
+  const interval = fields.get('INTERVAL');
+  if (interval) {
+    const value = Number(interval);
+    if (!Number.isInteger(value) || value < 1) return null;
+    parsed.interval = value;
+  }
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    const days = byDay.split(',');
+    if (!days.every((d): d is Weekday => (WEEKDAYS as readonly string[]).includes(d))) {
+      return null;
+    }
+    parsed.byDay = days;
+  }
+
+  const byMonthDay = fields.get('BYMONTHDAY');
+  if (byMonthDay) {
+    const value = Number(byMonthDay);
+    if (!Number.isInteger(value) || value < 1 || value > 31) return null;
+    parsed.byMonthDay = value;
+  }
+
+  const until = fields.get('UNTIL');
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(until);
+    if (!match) return null;
+    const [y, m, d, hh = 23, mm = 59, ss = 59] = match
+      .slice(1)
+      .map((part) => (part === undefined ? undefined : Number(part)));
+    parsed.until = new Date(Date.UTC(y!, m! - 1, d!, hh, mm, ss));
+  }
+
+  return parsed;
+}
+
+/**
+ * Serialize a rule back to an RRULE string
+ */
+export function buildRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    // Keep weekday order stable (Sunday first) for readable rules
+    const days = WEEKDAYS.filter((d) => rule.byDay!.includes(d));
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) {
+    const u = rule.until;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    parts.push(`UNTIL=${u.getUTCFullYear()}${pad(u.getUTCMonth() + 1)}${pad(u.getUTCDate())}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Difference between the UTC weekday and the local weekday of a date (-1, 0 or 1).
+ * Rules store weekdays in UTC; the editor shows them in local time.
+ */
+function weekdayShift(anchor: Date | null): number {
+  if (!anchor) return 0;
+  const diff = anchor.getUTCDay() - anchor.getDay();
+  if (diff === 6) return -1;
+  if (diff === -6) return 1;
+  return diff;
+}
+
+/**
+ * Convert weekdays picked in local time to the UTC weekdays stored in the rule
+ */
+export function localToRuleWeekdays(days: Weekday[], anchor: Date | null): Weekday[] {
+  const shift = weekdayShift(anchor);
+  return days.map((d) => WEEKDAYS[(WEEKDAYS.indexOf(d) + shift + 7) % 7]);
+}
+
+/**
+ * Convert weekdays stored in the rule (UTC) to local time for display
+ */
+export function ruleToLocalWeekdays(days: Weekday[], anchor: Date | null): Weekday[] {
+  const shift = weekdayShift(anchor);
+  return days.map((d) => WEEKDAYS[(WEEKDAYS.indexOf(d) - shift + 7) % 7]);
+}
+
+/**
+ * Get the first occurrence strictly after `after`, following the pattern
+ * anchored at `anchor`. Returns null once the rule has ended.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  anchor: Date,
+  after: Date
+): Date | null {
+  let next: Date;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const step = rule.interval * DAY_MS;
+      const periods = Math.max(1, Math.floor((after.getTime() - anchor.getTime()) / step) + 1);
+      next = new Date(anchor.getTime() + periods * step);
+      break;
+    }
+    case 'WEEKLY': {
+      const days = rule.byDay ?? [WEEKDAYS[anchor.getUTCDay()]];
+      const weekStep = rule.interval * 7 * DAY_MS;
+      const weekStart = anchor.getTime() - anchor.getUTCDay() * DAY_MS;
+      const skipped = Math.max(0, Math.floor((after.getTime() - weekStart) / weekStep));
+      let candidate = weekStart + skipped * weekStep;
+      const limit = candidate + weekStep + 7 * DAY_MS;
+      next = new Date(NaN);
+      for (; candidate <= limit; candidate += DAY_MS) {
+        const weeksFromStart = Math.floor((candidate - weekStart) / (7 * DAY_MS));
+        const date = new Date(candidate);
+        if (
+          weeksFromStart % rule.interval === 0 &&
+          days.includes(WEEKDAYS[date.getUTCDay()]) &&
+          candidate > after.getTime() &&
+          candidate > anchor.getTime()
+        ) {
+          next = date;
+          break;
+        }
+      }
+      break;
+    }
+    case 'MONTHLY': {
+      const day = rule.byMonthDay ?? anchor.getUTCDate();
+      const monthsBetween =
+        (after.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+        (after.getUTCMonth() - anchor.getUTCMonth());
+      let offset = Math.max(0, Math.floor(monthsBetween / rule.interval) * rule.interval);
+      next = monthlyOccurrence(anchor, offset, day);
+      while (next.getTime() <= after.getTime() || next.getTime() <= anchor.getTime()) {
+        offset += rule.interval;
+        next = monthlyOccurrence(anchor, offset, day);
+      }
+      break;
+    }
+  }
+
+  if (Number.isNaN(next.getTime())) return null;
+  if (rule.until && next.getTime() > rule.until.getTime()) return null;
+  return next;
+}
+
+/**
+ * List occurrences after the anchor that fall within [start, end], up to `limit`
+ */
+export function getOccurrencesBetween(
+  rule: RecurrenceRule,
+  anchor: Date,
+  start: Date,
+  end: Date,
+  limit = 100
+): Date[] {
+  const occurrences: Date[] = [];
+  let cursor = new Date(Math.max(anchor.getTime(), start.getTime() - 1));
+
+  while (occurrences.length < limit) {
+    const next = getNextOccurrence(rule, anchor, cursor);
+    if (!next || next.getTime() > end.getTime()) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+
+  return occurrences;
+}
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: 'Sun',
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+};
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: RecurrenceRule, anchor: Date | null): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  let text =
+    rule.interval === 1
+      ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly' }[rule.freq]
+      : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    const local = ruleToLocalWeekdays(rule.byDay, anchor);
+    text += ` on ${WEEKDAYS.filter((d) => local.includes(d))
+      .map((d) => WEEKDAY_LABELS[d])
+      .join(', ')}`;
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay) {
+    text += ` on day ${rule.byMonthDay}`;
+  }
+
+  return text;
+}
+
+// ============ HELPERS ============
+
+function monthlyOccurrence(anchor: Date, months: number, day: number): Date {
+  const year = anchor.getUTCFullYear();
+  const month = anchor.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(day, lastDay),
+      anchor.getUTCHours(),
+      anchor.getUTCMinutes(),
+      anchor.getUTCSeconds(),
+      anchor.getUTCMilliseconds()
+    )
+  );
+}
@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import type { Notification } from './api/notifications';
 
 // Socket URL should be the base server URL without /api/v1 path
 // Strip /api/v1 from NEXT_PUBLIC_API_URL if present, or use dedicated socket URL
@@ -50,10 +51,62 @@ export interface PresenceSyncPayload {
   users: PresenceUser[];
 }
 
+// Viewing presence: who has a project board (taskId null) or a task open
+export interface ViewerEntry {
+  projectId: string;
+  taskId: string | null;
+  /** Card the user is dragging on the board, if any */
+  draggingTaskId: string | null;
+  userId: string;
+  userName: string;
+  userAvatar: string | null;
+  socketId: string;
+  startedAt: number;
+}
+
+export interface ViewingPayload {
+  projectId: string;
+  taskId: string | null;
+  draggingTaskId?: string | null;
+}
+
+export interface ViewingInactivePayload {
+  projectId: string;
+  taskId: string | null;
+  socketId: string;
+}
+
+export interface ViewingSyncPayload {
+  projectId: string;
+  taskId: string | null;
+  viewers: ViewerEntry[];
+}
+
 // Live update payload types
 export interface LiveUpdateMeta {
   userId: string;
   timestamp: number;
+  /** Project room events are sequenced so missed ones can be replayed */
+  projectId?: string;
+  seq?: number;
+  /** Set when the event is replayed after a reconnect */
+  replayed?: boolean;
+  /** Set for background changes such as collaborative description autosaves */
+  quiet?: boolean;
+}
+
+export interface ProjectSequencePayload {
+  projectId: string;
+  seq: number;
+}
+
+// Sent when the server could not handle one of our events
+export interface SocketErrorPayload {
+  event: keyof ClientToServerEvents;
+  code: string;
+  message: string;
+  projectId?: string;
+  taskId?: string;
 }
 
 export interface LiveTask {
@@ -108,6 +161,8 @@ export interface TaskMovedPayload {
   toColumnId: string;
   order: number;
   projectId: string;
+  /** Task version after the move */
+  version: number;
   userId: string;
   meta: LiveUpdateMeta;
 }
@@ -207,12 +262,93 @@ export interface AttachmentDeletedPayload {
   meta: LiveUpdateMeta;
 }
 
+// Subtask live update types
+export interface LiveSubtask {
+  id: string;
+  title: string;
+  order: number;
+  completedAt: string | null;
+  taskId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SubtaskCreatedPayload {
+  subtask: LiveSubtask;
+  projectId: string;
+  meta: LiveUpdateMeta;
+}
+
+export interface SubtaskUpdatedPayload {
+  subtask: LiveSubtask;
+  projectId: string;
+  meta: LiveUpdateMeta;
+}
+
+export interface SubtaskDeletedPayload {
+  subtaskId: string;
+  taskId: string;
+  projectId: string;
+  meta: LiveUpdateMeta;
+}
+
+// Dependency live update types
+export interface DependencyChangedPayload {
+  blockingTaskId: string;
+  blockedTaskId: string;
+  projectId: string;
+  meta: LiveUpdateMeta;
+}
+
+// Notification types (sent to the recipient's user room)
+export interface NotificationCreatedPayload {
+  notification: Notification;
+  meta: LiveUpdateMeta;
+}
+
+export interface NotificationReadPayload {
+  /** null when all notifications were marked as read */
+  notificationId: string | null;
+  meta: LiveUpdateMeta;
+}
+
+// Project types (sent to each member's user room)
+export interface ProjectRestoredPayload {
+  projectId: string;
+  meta: LiveUpdateMeta;
+}
+
+// Collaborative description types
+// Binary messages arrive from the server as ArrayBuffers
+export interface DescriptionJoinedPayload {
+  taskId: string;
+  /** Whether this client should fill the fresh document from Task.description */
+  seed: boolean;
+}
+
+export interface DescriptionSyncPayload {
+  taskId: string;
+  message: ArrayBuffer;
+}
+
+export interface DescriptionAwarenessPayload {
+  taskId: string;
+  update: ArrayBuffer;
+}
+
 // Socket.io typed events
 export interface ClientToServerEvents {
-  'project:join': (projectId: string) => void;
+  'project:join': (projectId: string, lastSeq?: number) => void;
   'project:leave': (projectId: string) => void;
   'editing:start': (payload: EditingPayload) => void;
   'editing:stop': (payload: EditingPayload) => void;
+  'viewing:start': (payload: ViewingPayload) => void;
+  'viewing:stop': (payload: ViewingPayload) => void;
+  'description:join': (taskId: string) => void;
+  'description:leave': (taskId: string) => void;
+  'description:sync': (payload: { taskId: string; message: Uint8Array }) => void;
+  'description:awareness': (payload: { taskId: string; update: Uint8Array }) => void;
+  'description:save': (payload: { taskId: string; html: string }) => void;
 }
 
 export interface ServerToClientEvents {
@@ -220,6 +356,18 @@ export interface ServerToClientEvents {
   'editing:active': (payload: EditingActivePayload) => void;
   'editing:inactive': (payload: EditingInactivePayload) => void;
   'presence:sync': (payload: PresenceSyncPayload) => void;
+  'viewing:active': (payload: ViewerEntry) => void;
+  'viewing:inactive': (payload: ViewingInactivePayload) => void;
+  'viewing:sync': (payload: ViewingSyncPayload) => void;
+  // Event replay events
+  'project:sequence': (payload: ProjectSequencePayload) => void;
+  'project:resync': (payload: ProjectSequencePayload) => void;
+  // Error events
+  'socket:error': (payload: SocketErrorPayload) => void;
+  // Collaborative description events
+  'description:joined': (payload: DescriptionJoinedPayload) => void;
+  'description:sync': (payload: DescriptionSyncPayload) => void;
+  'description:awareness': (payload: DescriptionAwarenessPayload) => void;
   // Task live update events
   'task:created': (payload: TaskCreatedPayload) => void;
   'task:updated': (payload: TaskUpdatedPayload) => void;
@@ -238,14 +386,36 @@ export interface ServerToClientEvents {
   // Attachment live update events
   'attachment:uploaded': (payload: AttachmentUploadedPayload) => void;
   'attachment:deleted': (payload: AttachmentDeletedPayload) => void;
+  // Subtask live update events
+  'subtask:created': (payload: SubtaskCreatedPayload) => void;
+  'subtask:updated': (payload: SubtaskUpdatedPayload) => void;
+  'subtask:deleted': (payload: SubtaskDeletedPayload) => void;
+  // Dependency live update events
+  'dependency:added': (payload: DependencyChangedPayload) => void;
+  'dependency:removed': (payload: DependencyChangedPayload) => void;
+  // Notification events
+  'notification:created': (payload: NotificationCreatedPayload) => void;
+  'notification:read': (payload: NotificationReadPayload) => void;
+  // Project events
+  'project:restored': (payload: ProjectRestoredPayload) => void;
 }
 
 // Typed socket instance
-type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+export type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 let socket: TypedSocket | null = null;
 let authToken: string | null = null;
 
+// Last live update sequence seen per joined project, sent when rejoining
+// so the server can replay what was missed while disconnected
+const lastSeenSequence = new Map<string, number>();
+
+function trackSequence(projectId: string, seq: number): void {
+  if (seq > (lastSeenSequence.get(projectId) ?? 0)) {
+    lastSeenSequence.set(projectId, seq);
+  }
+}
+
 /**
  * Get or create the socket instance
  */
@@ -258,6 +428,21 @@ export function getSocket(): TypedSocket {
       transports: ['websocket', 'polling'],
       auth: authToken ? { token: authToken } : undefined,
     }) as TypedSocket;
+
+    socket.onAny((_event: string, payload?: { meta?: LiveUpdateMeta }) => {
+      const meta = payload?.meta;
+      if (meta?.projectId && meta.seq) {
+        trackSequence(meta.projectId, meta.seq);
+      }
+    });
+    socket.on('project:sequence', ({ projectId, seq }) => {
+      trackSequence(projectId, seq);
+    });
+    // The client refetches and continues from the server's sequence, which
+    // may be lower if the server's counter was reset
+    socket.on('project:resync', ({ projectId, seq }) => {
+      lastSeenSequence.set(projectId, seq);
+    });
   }
   return socket;
 }
@@ -314,12 +499,13 @@ export function disconnectSocket(): void {
 }
 
 /**
- * Join a project room for real-time updates
+ * Join a project room for real-time updates.
+ * When rejoining after a reconnect, missed updates are replayed.
  */
 export function joinProject(projectId: string): void {
   const s = getSocket();
   if (s.connected) {
-    s.emit('project:join', projectId);
+    s.emit('project:join', projectId, lastSeenSequence.get(projectId));
   }
 }
 
@@ -330,6 +516,8 @@ export function leaveProject(projectId: string): void {
   const s = getSocket();
   if (s.connected) {
     s.emit('project:leave', projectId);
+    // Data is refetched when the project is opened again
+    lastSeenSequence.delete(projectId);
   }
 }
 
@@ -361,10 +549,37 @@ export function emitEditingStop(
   }
 }
 
+/**
+ * Emit viewing start event (also used to refresh it)
+ */
+export function emitViewingStart(
+  projectId: string,
+  taskId: string | null,
+  draggingTaskId: string | null = null
+): void {
+  const s = getSocket();
+  if (s.connected) {
+    s.emit('viewing:start', { projectId, taskId, draggingTaskId });
+  }
+}
+
+/**
+ * Emit viewing stop event
+ */
+export function emitViewingStop(projectId: string, taskId: string | null): void {
+  const s = getSocket();
+  if (s.connected) {
+    s.emit('viewing:stop', { projectId, taskId });
+  }
+}
+
 // Event listener types
 type EditingActiveCallback = (payload: EditingActivePayload) => void;
 type EditingInactiveCallback = (payload: EditingInactivePayload) => void;
 type PresenceSyncCallback = (payload: PresenceSyncPayload) => void;
+type ViewingActiveCallback = (payload: ViewerEntry) => void;
+type ViewingInactiveCallback = (payload: ViewingInactivePayload) => void;
+type ViewingSyncCallback = (payload: ViewingSyncPayload) => void;
 
 /**
  * Subscribe to editing:active events
@@ -413,3 +628,51 @@ export function offPresenceSync(callback: PresenceSyncCallback): void {
   const s = getSocket();
   s.off('presence:sync', callback);
 }
+
+/**
+ * Subscribe to viewing:active events
+ */
+export function onViewingActive(callback: ViewingActiveCallback): void {
+  const s = getSocket();
+  s.on('viewing:active', callback);
+}
+
+/**
+ * Unsubscribe from viewing:active events
+ */
+export function offViewingActive(callback: ViewingActiveCallback): void {
+  const s = getSocket();
+  s.off('viewing:active', callback);
+}
+
+/**
+ * Subscribe to viewing:inactive events
+ */
+export function onViewingInactive(callback: ViewingInactiveCallback): void {
+  const s = getSocket();
+  s.on('viewing:inactive', callback);
+}
+
+/**
+ * Unsubscribe from viewing:inactive events
+ */
+export function offViewingInactive(callback: ViewingInactiveCallback): void {
+  const s = getSocket();
+  s.off('viewing:inactive', callback);
+}
+
+/**
+ * Subscribe to viewing:sync events
+ */
+export function onViewingSync(callback: ViewingSyncCallback): void {
+  const s = getSocket();
+  s.on('viewing:sync', callback);
+}
+
+/**
+ * Unsubscribe from viewing:sync events
+ */
+export function offViewingSync(callback: ViewingSyncCallback): void {
+  const s = getSocket();
+  s.off('viewing:sync', callback);
+}
@@ -0,0 +1,107 @@
+import type { Task, ColumnWithTasks } from '@/components/board';
+
+export type SwimlaneGrouping = 'none' | 'assignee' | 'priority' | 'label';
+
+export const SWIMLANE_GROUPINGS: { value: SwimlaneGrouping; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'label', label: 'Label' },
+];
+
+// Lane id for tasks without an assignee / priority / label
+export const NO_LANE_ID = '__none__';
+
+/**
+ * A horizontal row of the board holding tasks that share one grouped value
+ */
+export interface Swimlane {
+  id: string;
+  /** Assignee id, priority or label id; null for the "none" lane */
+  value: string | null;
+  title: string;
+  color?: string;
+  avatar?: string | null;
+}
+
+export interface SwimlaneWithColumns extends Swimlane {
+  columns: ColumnWithTasks[];
+  taskCount: number;
+}
+
+interface SwimlaneSources {
+  members: { id: string; name: string; avatar: string | null }[];
+  labels: { id: string; name: string; color: string }[];
+}
+
+const priorityLanes: Swimlane[] = [
+  { id: 'HIGH', value: 'HIGH', title: 'High', color: '#ef4444' },
+  { id: 'MEDIUM', value: 'MEDIUM', title: 'Medium', color: '#f59e0b' },
+  { id: 'LOW', value: 'LOW', title: 'Low', color: '#22c55e' },
+];
+
+/**
+ * Build the lanes for a grouping. The "none" lane always comes last.
+ */
+export function buildSwimlanes(
+  grouping: SwimlaneGrouping,
+  { members, labels }: SwimlaneSources
+): Swimlane[] {
+  switch (grouping) {
+    case 'assignee':
+      return [
+        ...members.map((m) => ({ id: m.id, value: m.id, title: m.name, avatar: m.avatar })),
+        { id: NO_LANE_ID, value: null, title: 'Unassigned' },
+      ];
+    case 'priority':
+      return [...priorityLanes, { id: NO_LANE_ID, value: null, title: 'No priority' }];
+    case 'label':
+      return [
+        ...labels.map((l) => ({ id: l.id, value: l.id, title: l.name, color: l.color })),
+        { id: NO_LANE_ID, value: null, title: 'No label' },
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get the lane a task belongs to. Tasks with several assignees or labels
+ * are shown once, in the lane of the first one that has a lane.
+ */
+export function getTaskLaneId(task: Task, grouping: SwimlaneGrouping, lanes: Swimlane[]): string {
+  const laneIds = new Set(lanes.map((lane) => lane.id));
+  let candidates: string[] = [];
+
+  if (grouping === 'assignee') {
+    candidates = (task.assignees ?? []).map((a) => a.id);
+  } else if (grouping === 'label') {
+    candidates = (task.labels ?? []).map((l) => l.id);
+  } else if (grouping === 'priority' && task.priority) {
+    candidates = [task.priority];
+  }
+
+  return candidates.find((id) => laneIds.has(id)) ?? NO_LANE_ID;
+}
+
+/**
+ * Split every column's tasks into the given lanes
+ */
+export function groupColumnsIntoSwimlanes(
+  columns: ColumnWithTasks[],
+  grouping: SwimlaneGrouping,
+  lanes: Swimlane[]
+): SwimlaneWithColumns[] {
+  return lanes.map((lane) => {
+    const laneColumns = columns.map((column) => ({
+      ...column,
+      tasks: column.tasks.filter((task) => getTaskLaneId(task, grouping, lanes) === lane.id),
+    }));
+
+    return {
+      ...lane,
+      columns: laneColumns,
+      taskCount: laneColumns.reduce((sum, column) => sum + column.tasks.length, 0),
+    };
+  });
+}
@@ -0,0 +1,148 @@
+/**
+ * Structured task queries for POST /projects/:projectId/tasks/query, and
+ * translation of the filter panel's state into one.
+ *
+ * Keep in sync with backend/src/validators/task.validator.ts.
+ */
+
+import type { FilterState } from '@/components/filter';
+import type { CustomField } from '@/lib/api/customFields';
+import type { TaskSort } from '@/lib/taskSort';
+
+type Priority = 'LOW' | 'MEDIUM' | 'HIGH';
+type ListMatch = 'any' | 'all' | 'none';
+
+export type TaskQueryCondition =
+  | { field: 'priority'; values: (Priority | null)[] }
+  | { field: 'labels'; values: string[]; match?: ListMatch }
+  | { field: 'assignees'; values: (string | null)[]; match?: ListMatch }
+  | { field: 'dueDate'; from?: string; to?: string; isSet?: boolean }
+  | { field: 'createdAt'; from?: string; to?: string }
+  | { field: 'createdBy'; values: string[] }
+  | { field: 'completed'; value: boolean }
+  | { field: 'text'; query: string }
+  | { field: 'column'; values: string[] }
+  | { field: 'customField'; fieldId: string; values: string[] };
+
+export type TaskQueryFilter =
+  | TaskQueryCondition
+  | { and: TaskQueryFilter[] }
+  | { or: TaskQueryFilter[] };
+
+export type TaskQuerySortField =
+  | 'order'
+  | 'dueDate'
+  | 'priority'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'title';
+
+export interface TaskQuery {
+  filter?: TaskQueryFilter;
+  sort?: { field: TaskQuerySortField; direction: 'asc' | 'desc' };
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Date range for a due date filter option (local days). null bounds are open;
+ * `isSet: false` means "no due date".
+ */
+export interface DueDateRange {
+  from: Date | null;
+  to: Date | null;
+  isSet: boolean;
+}
+
+export function getDueDateRange(
+  dueDate: NonNullable<FilterState['dueDate']>,
+  now: Date = new Date()
+): DueDateRange {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const weekEnd = new Date(today);
+  weekEnd.setDate(weekEnd.getDate() + 7);
+
+  switch (dueDate) {
+    case 'overdue':
+      return { from: null, to: new Date(today.getTime() - 1), isSet: true };
+    case 'today':
+      return { from: today, to: new Date(tomorrow.getTime() - 1), isSet: true };
+    case 'week':
+      return { from: today, to: weekEnd, isSet: true };
+    case 'none':
+      return { from: null, to: null, isSet: false };
+  }
+}
+
+export function isInDueDateRange(dueDate: string | null, range: DueDateRange): boolean {
+  if (!range.isSet) return !dueDate;
+  if (!dueDate) return false;
+  const date = new Date(dueDate);
+  if (range.from && date < range.from) return false;
+  if (range.to && date > range.to) return false;
+  return true;
+}
+
+/**
+ * Build a query filter from the filter panel state and search text. The
+ * search always applies; the panel's criteria combine with AND or OR
+ * depending on filters.match. Returns undefined when nothing is filtered.
+ */
+export function buildTaskQueryFilter(
+  filters: FilterState,
+  search: string,
+  customFields: CustomField[] = []
+): TaskQueryFilter | undefined {
+  const criteria: TaskQueryFilter[] = [];
+
+  const priorities = filters.priority.filter((p): p is Priority => p !== null);
+  if (priorities.length > 0) {
+    criteria.push({ field: 'priority', values: priorities });
+  }
+  if (filters.labels.length > 0) {
+    criteria.push({ field: 'labels', values: filters.labels });
+  }
+  if (filters.assignees.length > 0) {
+    criteria.push({ field: 'assignees', values: filters.assignees });
+  }
+  if (filters.dueDate) {
+    const range = getDueDateRange(filters.dueDate);
+    criteria.push({
+      field: 'dueDate',
+      isSet: range.isSet,
+      ...(range.from && { from: range.from.toISOString() }),
+      ...(range.to && { to: range.to.toISOString() }),
+    });
+  }
+  for (const [fieldId, values] of Object.entries(filters.customFields)) {
+    // Skip selections for fields that no longer exist
+    if (values.length > 0 && customFields.some((f) => f.id === fieldId)) {
+      criteria.push({ field: 'customField', fieldId, values });
+    }
+  }
+
+  const parts: TaskQueryFilter[] = [];
+  if (criteria.length === 1) {
+    parts.push(criteria[0]);
+  } else if (criteria.length > 1) {
+    parts.push(filters.match === 'any' ? { or: criteria } : { and: criteria });
+  }
+  if (search.trim()) {
+    parts.push({ field: 'text', query: search.trim() });
+  }
+
+  if (parts.length === 0) return undefined;
+  return parts.length === 1 ? parts[0] : { and: parts };
+}
+
+/**
+ * Map the view's sort to the query sort ("manual" is board order)
+ */
+export function toTaskQuerySort(sort: TaskSort): NonNullable<TaskQuery['sort']> {
+  return {
+    field: sort.field === 'manual' ? 'order' : sort.field,
+    direction: sort.direction,
+  };
+}
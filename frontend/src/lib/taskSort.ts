@@ -0,0 +1,17 @@
+export type TaskSortField = 'manual' | 'dueDate' | 'priority' | 'createdAt' | 'title';
+export type SortDirection = 'asc' | 'desc';
+
+export interface TaskSort {
+  field: TaskSortField;
+  direction: SortDirection;
+}
+
+export const TASK_SORT_FIELDS: { value: TaskSortField; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'dueDate', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'createdAt', label: 'Created' },
+  { value: 'title', label: 'Title' },
+];
+
+export const DEFAULT_TASK_SORT: TaskSort = { field: 'manual', direction: 'asc' };
@@ -0,0 +1,127 @@
+/**
+ * A project view (mode, filters, search, sort and grouping) and its URL
+ * encoding, so a link reproduces the exact view.
+ */
+
+import { emptyFilters, type FilterState } from '@/components/filter';
+import type { Priority } from '@/components/task/PrioritySelector';
+import type { ViewMode } from '@/hooks/useViewPreference';
+import type { SwimlaneGrouping } from '@/lib/swimlanes';
+import { DEFAULT_TASK_SORT, type TaskSort, type TaskSortField } from '@/lib/taskSort';
+
+export interface ViewConfig {
+  viewMode: ViewMode;
+  filters: FilterState;
+  search: string;
+  sort: TaskSort;
+  groupBy: SwimlaneGrouping;
+}
+
+const VIEW_MODES: ViewMode[] = ['board', 'list', 'calendar'];
+const PRIORITIES: NonNullable<Priority>[] = ['LOW', 'MEDIUM', 'HIGH'];
+const DUE_DATES: NonNullable<FilterState['dueDate']>[] = ['overdue', 'today', 'week', 'none'];
+const SORT_FIELDS: TaskSortField[] = ['manual', 'dueDate', 'priority', 'createdAt', 'title'];
+const GROUPINGS: SwimlaneGrouping[] = ['none', 'assignee', 'priority', 'label'];
+
+// Custom field filters are encoded as cf.<fieldId>=<value>
+const CUSTOM_FIELD_PARAM_PREFIX = 'cf.';
+
+// Params owned by the view; anything else in the URL is left alone
+const VIEW_PARAMS = [
+  'view',
+  'q',
+  'priority',
+  'label',
+  'assignee',
+  'due',
+  'match',
+  'sort',
+  'group',
+];
+
+/**
+ * Whether a search param belongs to the view (as opposed to other page state)
+ */
+export function isViewSearchParam(key: string): boolean {
+  return VIEW_PARAMS.includes(key) || key.startsWith(CUSTOM_FIELD_PARAM_PREFIX);
+}
+
+function includes<T extends string>(values: readonly T[], value: string | null): value is T {
+  return value !== null && (values as readonly string[]).includes(value);
+}
+
+/**
+ * Encode a view as URL search params. Defaults are omitted to keep links short;
+ * multi-value filters repeat their key.
+ */
+export function viewConfigToSearchParams(config: ViewConfig): URLSearchParams {
+  const params = new URLSearchParams();
+
+  params.set('view', config.viewMode);
+  if (config.search.trim()) params.set('q', config.search.trim());
+  config.filters.priority.forEach((p) => p && params.append('priority', p));
+  config.filters.labels.forEach((id) => params.append('label', id));
+  config.filters.assignees.forEach((id) => params.append('assignee', id));
+  if (config.filters.dueDate) params.set('due', config.filters.dueDate);
+  for (const [fieldId, values] of Object.entries(config.filters.customFields)) {
+    values.forEach((v) => params.append(`${CUSTOM_FIELD_PARAM_PREFIX}${fieldId}`, v));
+  }
+  if (config.filters.match === 'any') params.set('match', 'any');
+  if (config.sort.field !== 'manual') {
+    params.set('sort', `${config.sort.field}:${config.sort.direction}`);
+  }
+  if (config.groupBy !== 'none') params.set('group', config.groupBy);
+
+  return params;
+}
+
+/**
+ * Decode a view from URL search params. Returns null when the URL carries no
+ * view state, so stored preferences apply instead.
+ */
+export function viewConfigFromSearchParams(params: URLSearchParams): ViewConfig | null {
+  const keys = Array.from(params.keys());
+  const hasViewState = keys.some(isViewSearchParam);
+  if (!hasViewState) return null;
+
+  const customFields: Record<string, string[]> = {};
+  for (const key of new Set(keys)) {
+    if (key.startsWith(CUSTOM_FIELD_PARAM_PREFIX)) {
+      customFields[key.slice(CUSTOM_FIELD_PARAM_PREFIX.length)] = params.getAll(key);
+    }
+  }
+
+  const view = params.get('view');
+  const due = params.get('due');
+  const group = params.get('group');
+  const [sortField, sortDirection] = (params.get('sort') ?? '').split(':');
+
+  return {
+    viewMode: includes(VIEW_MODES, view) ? view : 'board',
+    filters: {
+      ...emptyFilters,
+      priority: params.getAll('priority').filter((p) => includes(PRIORITIES, p)),
+      labels: params.getAll('label'),
+      assignees: params.getAll('assignee'),
+      dueDate: includes(DUE_DATES, due) ? due : null,
+      customFields,
+      match: params.get('match') === 'any' ? 'any' : 'all',
+    },
+    search: params.get('q') ?? '',
+    sort: includes(SORT_FIELDS, sortField)
+      ? { field: sortField, direction: sortDirection === 'desc' ? 'desc' : 'asc' }
+      : DEFAULT_TASK_SORT,
+    groupBy: includes(GROUPINGS, group) ? group : 'none',
+  };
+}
+
+/**
+ * Whether two views show the same thing (used to highlight the active saved view)
+ */
+export function isSameViewConfig(a: ViewConfig, b: ViewConfig): boolean {
+  const paramsA = viewConfigToSearchParams(a);
+  const paramsB = viewConfigToSearchParams(b);
+  paramsA.sort();
+  paramsB.sort();
+  return paramsA.toString() === paramsB.toString();
+}
@@ -48,7 +48,19 @@ import {
   type CommentDeletedPayload,
   type AttachmentUploadedPayload,
   type AttachmentDeletedPayload,
+  type SubtaskCreatedPayload,
+  type SubtaskUpdatedPayload,
+  type SubtaskDeletedPayload,
+  type DependencyChangedPayload,
+  type NotificationCreatedPayload,
+  type NotificationReadPayload,
+  type ProjectSequencePayload,
+  type SocketErrorPayload,
+  type ProjectRestoredPayload,
+  type LiveUpdateMeta,
 } from '@/lib/socket';
+import { getNotificationMessage } from '@/lib/notifications';
+import { DescriptionProvider } from '@/lib/collaboration';
 
 // Types
 export interface EditingUser {
@@ -70,10 +82,26 @@ export interface SocketContextValue {
   isEditing: (taskId: string, field: EditingField) => EditingUser | null;
   joinProject: (projectId: string) => void;
   leaveProject: (projectId: string) => void;
+  /** Start co-editing a task's description; the caller must destroy() the provider */
+  createDescriptionProvider: (taskId: string) => DescriptionProvider | null;
 }
 
 export type { EditingField };
 
+// Replayed events arrive in a burst after reconnecting, and quiet ones as
+// someone types, so they refresh data without a toast each
+function notifyLiveUpdate(meta: LiveUpdateMeta, message: string): void {
+  if (!meta.replayed && !meta.quiet) {
+    toast.info(message);
+  }
+}
+
+// Presence updates fail quietly; the indicator is simply missing
+const SILENT_SOCKET_ERRORS = new Set<SocketErrorPayload['event']>([
+  'editing:start',
+  'viewing:start',
+]);
+
 // Context
 const SocketContext = createContext<SocketContextValue | undefined>(undefined);
 
@@ -150,7 +178,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         // Invalidate project data (includes columns) and tasks list
         queryClient.invalidateQueries({ queryKey: ['project', projectId] });
         queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
-        toast.info('A new task was created');
+        notifyLiveUpdate(payload.meta, 'A new task was created');
       }
     },
     [user?.id]
@@ -167,7 +195,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         queryClient.invalidateQueries({ queryKey: ['project', projectId] });
         queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
         queryClient.invalidateQueries({ queryKey: ['task', projectId, payload.task.id] });
-        toast.info('A task was updated');
+        notifyLiveUpdate(payload.meta, 'A task was updated');
       }
     },
     [user?.id]
@@ -181,7 +209,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       // Invalidate project and tasks list
       queryClient.invalidateQueries({ queryKey: ['project', payload.projectId] });
       queryClient.invalidateQueries({ queryKey: ['tasks', payload.projectId] });
-      toast.info('A task was deleted');
+      notifyLiveUpdate(payload.meta, 'A task was deleted');
     },
     [user?.id]
   );
@@ -191,10 +219,11 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       if (!isMountedRef.current) return;
       if (payload.meta.userId === user?.id) return;
 
-      // Invalidate project and tasks list
+      // Invalidate project, tasks list, and the task (its version changed)
       queryClient.invalidateQueries({ queryKey: ['project', payload.projectId] });
       queryClient.invalidateQueries({ queryKey: ['tasks', payload.projectId] });
-      toast.info('A task was moved');
+      queryClient.invalidateQueries({ queryKey: ['task', payload.projectId, payload.taskId] });
+      notifyLiveUpdate(payload.meta, 'A task was moved');
     },
     [user?.id]
   );
@@ -217,7 +246,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
 
       // Invalidate project data (includes columns)
       queryClient.invalidateQueries({ queryKey: ['project', payload.column.projectId] });
-      toast.info('A new column was created');
+      notifyLiveUpdate(payload.meta, 'A new column was created');
     },
     [user?.id]
   );
@@ -229,7 +258,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
 
       // Invalidate project data (includes columns)
       queryClient.invalidateQueries({ queryKey: ['project', payload.column.projectId] });
-      toast.info('A column was updated');
+      notifyLiveUpdate(payload.meta, 'A column was updated');
     },
     [user?.id]
   );
@@ -241,7 +270,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
 
       // Invalidate project data (includes columns)
       queryClient.invalidateQueries({ queryKey: ['project', payload.projectId] });
-      toast.info('A column was deleted');
+      notifyLiveUpdate(payload.meta, 'A column was deleted');
     },
     [user?.id]
   );
@@ -273,7 +302,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
           return queryKey[0] === 'comments' && queryKey[2] === payload.comment.taskId;
         },
       });
-      toast.info('New comment added');
+      notifyLiveUpdate(payload.meta, 'New comment added');
     },
     [user?.id]
   );
@@ -308,7 +337,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
           return queryKey[0] === 'comments' && queryKey[2] === payload.taskId;
         },
       });
-      toast.info('A comment was deleted');
+      notifyLiveUpdate(payload.meta, 'A comment was deleted');
     },
     [user?.id]
   );
@@ -331,7 +360,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       });
       // Also invalidate tasks to update attachment count on cards
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      toast.info('New attachment added');
+      notifyLiveUpdate(payload.meta, 'New attachment added');
     },
     [user?.id]
   );
@@ -351,11 +380,101 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       });
       // Also invalidate tasks to update attachment count on cards
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
-      toast.info('An attachment was removed');
+      notifyLiveUpdate(payload.meta, 'An attachment was removed');
     },
     [user?.id]
   );
 
+  // Subtask Live Update Handlers
+  // Refresh the checklist and the board card progress for the affected task
+  const invalidateSubtasks = useCallback((projectId: string, taskId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['subtasks', projectId, taskId] });
+    queryClient.invalidateQueries({ queryKey: ['task', projectId, taskId] });
+    queryClient.invalidateQueries({ queryKey: ['tasks', projectId] });
+  }, []);
+
+  const handleSubtaskCreated = useCallback(
+    (payload: SubtaskCreatedPayload) => {
+      if (!isMountedRef.current) return;
+      // Skip if current user made the change (already updated via mutation)
+      if (payload.meta.userId === user?.id) return;
+      invalidateSubtasks(payload.projectId, payload.subtask.taskId);
+    },
+    [user?.id, invalidateSubtasks]
+  );
+
+  const handleSubtaskUpdated = useCallback(
+    (payload: SubtaskUpdatedPayload) => {
+      if (!isMountedRef.current) return;
+      if (payload.meta.userId === user?.id) return;
+      invalidateSubtasks(payload.projectId, payload.subtask.taskId);
+    },
+    [user?.id, invalidateSubtasks]
+  );
+
+  const handleSubtaskDeleted = useCallback(
+    (payload: SubtaskDeletedPayload) => {
+      if (!isMountedRef.current) return;
+      if (payload.meta.userId === user?.id) return;
+      invalidateSubtasks(payload.projectId, payload.taskId);
+    },
+    [user?.id, invalidateSubtasks]
+  );
+
+  // Dependency Live Update Handler
+  // Added and removed links both change the blocked state of the two tasks
+  const handleDependencyChanged = useCallback(
+    (payload: DependencyChangedPayload) => {
+      if (!isMountedRef.current) return;
+      if (payload.meta.userId === user?.id) return;
+      queryClient.invalidateQueries({ queryKey: ['dependencies', payload.projectId] });
+      queryClient.invalidateQueries({ queryKey: ['task', payload.projectId, payload.blockingTaskId] });
+      queryClient.invalidateQueries({ queryKey: ['task', payload.projectId, payload.blockedTaskId] });
+      queryClient.invalidateQueries({ queryKey: ['tasks', payload.projectId] });
+    },
+    [user?.id]
+  );
+
+  // Missed updates could not be replayed after reconnecting - refetch the
+  // project's data (project-scoped query keys all start with [name, projectId])
+  const handleProjectResync = useCallback((payload: ProjectSequencePayload) => {
+    if (!isMountedRef.current) return;
+    queryClient.invalidateQueries({
+      predicate: (query) => query.queryKey[1] === payload.projectId,
+    });
+  }, []);
+
+  // The server could not handle one of our events
+  const handleSocketError = useCallback((payload: SocketErrorPayload) => {
+    if (!isMountedRef.current) return;
+    console.error('[SocketProvider] Socket event failed:', payload.event, payload.code);
+    if (!SILENT_SOCKET_ERRORS.has(payload.event)) {
+      toast.error(payload.message);
+    }
+  }, []);
+
+  // Notification handlers
+  // These arrive on the user's own room, so they are never skipped
+
+  const handleNotificationCreated = useCallback((payload: NotificationCreatedPayload) => {
+    if (!isMountedRef.current) return;
+    queryClient.invalidateQueries({ queryKey: ['notifications'] });
+    toast.info(getNotificationMessage(payload.notification));
+  }, []);
+
+  const handleNotificationRead = useCallback((_payload: NotificationReadPayload) => {
+    if (!isMountedRef.current) return;
+    queryClient.invalidateQueries({ queryKey: ['notifications'] });
+  }, []);
+
+  // A project came back from the trash - show it in project lists again
+  const handleProjectRestored = useCallback((_payload: ProjectRestoredPayload) => {
+    if (!isMountedRef.current) return;
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+    queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+    queryClient.invalidateQueries({ queryKey: ['trash', 'projects'] });
+  }, []);
+
   // Handle socket connect event
   const handleConnect = useCallback(() => {
     if (!isMountedRef.current) return;
@@ -430,6 +549,28 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     socket.on('attachment:uploaded', handleAttachmentUploaded);
     socket.on('attachment:deleted', handleAttachmentDeleted);
 
+    // Set up subtask live update event listeners
+    socket.on('subtask:created', handleSubtaskCreated);
+    socket.on('subtask:updated', handleSubtaskUpdated);
+    socket.on('subtask:deleted', handleSubtaskDeleted);
+
+    // Set up dependency live update event listeners
+    socket.on('dependency:added', handleDependencyChanged);
+    socket.on('dependency:removed', handleDependencyChanged);
+
+    // Set up event replay listeners
+    socket.on('project:resync', handleProjectResync);
+
+    // Set up error listeners
+    socket.on('socket:error', handleSocketError);
+
+    // Set up notification event listeners
+    socket.on('notification:created', handleNotificationCreated);
+    socket.on('notification:read', handleNotificationRead);
+
+    // Set up project event listeners
+    socket.on('project:restored', handleProjectRestored);
+
     // Update connected state if already connected
     if (socket.connected) {
       setIsConnected(true);
@@ -466,6 +607,28 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       socket.off('attachment:uploaded', handleAttachmentUploaded);
       socket.off('attachment:deleted', handleAttachmentDeleted);
 
+      // Remove subtask live update event listeners
+      socket.off('subtask:created', handleSubtaskCreated);
+      socket.off('subtask:updated', handleSubtaskUpdated);
+      socket.off('subtask:deleted', handleSubtaskDeleted);
+
+      // Remove dependency live update event listeners
+      socket.off('dependency:added', handleDependencyChanged);
+      socket.off('dependency:removed', handleDependencyChanged);
+
+      // Remove event replay listeners
+      socket.off('project:resync', handleProjectResync);
+
+      // Remove error listeners
+      socket.off('socket:error', handleSocketError);
+
+      // Remove notification event listeners
+      socket.off('notification:created', handleNotificationCreated);
+      socket.off('notification:read', handleNotificationRead);
+
+      // Remove project event listeners
+      socket.off('project:restored', handleProjectRestored);
+
       disconnectSocket();
     };
   }, [
@@ -490,6 +653,15 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     handleCommentDeleted,
     handleAttachmentUploaded,
     handleAttachmentDeleted,
+    handleSubtaskCreated,
+    handleSubtaskUpdated,
+    handleSubtaskDeleted,
+    handleDependencyChanged,
+    handleProjectResync,
+    handleSocketError,
+    handleNotificationCreated,
+    handleNotificationRead,
+    handleProjectRestored,
   ]);
 
   // Start editing a field
@@ -527,6 +699,15 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     socketLeaveProject(projectId);
   }, []);
 
+  // Create a Yjs provider that syncs a task's description over this socket
+  const createDescriptionProvider = useCallback(
+    (taskId: string): DescriptionProvider | null => {
+      if (!socketInstance) return null;
+      return new DescriptionProvider(socketInstance, taskId);
+    },
+    [socketInstance]
+  );
+
   return (
     <SocketContext.Provider
       value={{
@@ -538,6 +719,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         isEditing,
         joinProject,
         leaveProject,
+        createDescriptionProvider,
       }}
     >
       {children}
@@ -0,0 +1,88 @@
+'use client';
+
+import {
+  createContext,
+  useContext,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { getWorkspaces, type Workspace } from '@/lib/api/workspaces';
+
+const STORAGE_KEY = 'tasktrox:current-workspace';
+
+// Types
+export interface WorkspaceContextValue {
+  workspaces: Workspace[];
+  /** The workspace projects, tasks, files, search and the dashboard are scoped to */
+  currentWorkspace: Workspace | null;
+  currentWorkspaceId: string | undefined;
+  setCurrentWorkspace: (workspaceId: string) => void;
+  isLoading: boolean;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextValue | undefined>(undefined);
+
+// Provider component
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const workspacesQuery = useQuery({
+    queryKey: ['workspaces'],
+    queryFn: getWorkspaces,
+    enabled: isAuthenticated,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  // Hydrate the last used workspace from localStorage on mount (client-side only)
+  useEffect(() => {
+    try {
+      setSelectedId(localStorage.getItem(STORAGE_KEY));
+    } catch {
+      // localStorage not available, fall back to the first workspace
+    }
+  }, []);
+
+  const setCurrentWorkspace = useCallback((workspaceId: string) => {
+    setSelectedId(workspaceId);
+    try {
+      localStorage.setItem(STORAGE_KEY, workspaceId);
+    } catch {
+      console.warn('Failed to save current workspace to localStorage');
+    }
+  }, []);
+
+  const workspaces = useMemo(() => workspacesQuery.data ?? [], [workspacesQuery.data]);
+
+  // A stored workspace the user has since left or deleted falls back to the first one
+  const currentWorkspace =
+    workspaces.find((w) => w.id === selectedId) ?? workspaces[0] ?? null;
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        currentWorkspace,
+        currentWorkspaceId: currentWorkspace?.id,
+        setCurrentWorkspace,
+        isLoading: workspacesQuery.isLoading,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+// Hook to use workspace context
+export function useWorkspace(): WorkspaceContextValue {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+}